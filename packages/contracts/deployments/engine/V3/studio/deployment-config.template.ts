@@ -1,5 +1,6 @@
 // This file is used to configure the deployment of Engine and Engine Flex contracts
-// It is intended to be imported by the batch engine factory deployer by running `deploy:v3-engine:mainnet`, `deploy:v3-engine:staging` or `deploy:v3-engine:dev`.
+// It is validated and imported by the `ab:deploy engine-contracts` task, e.g. by running
+// `yarn deploy:v3-engine:<env> --deploy-config <path to this file>`.
 
 export const deployNetworkConfiguration = {
   network: "sepolia",
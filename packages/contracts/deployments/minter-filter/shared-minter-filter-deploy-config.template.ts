@@ -1,6 +1,6 @@
 // This file is used to configure the deployment of shared minter filter contracts.
-// It is intended to be imported by the generic shared minter filter deployer by running
-// one of the commands similar to `deploy:shared-minter-filter:<network>.
+// It is validated and imported by the `ab:deploy shared-minter-filter` task, e.g. by
+// running `yarn deploy:shared-minter-filter:<network> --deploy-config <path to this file>`.
 
 export const deployConfigDetailsArray = [
   {
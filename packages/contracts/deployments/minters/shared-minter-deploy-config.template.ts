@@ -1,6 +1,6 @@
 // This file is used to configure the deployment of shared minter contracts.
-// It is intended to be imported by the generic shared minter deployer by running
-// one of the commands similar to `deploy:shared-minters:<network>.
+// It is validated and imported by the `ab:deploy shared-minter` task, e.g. by
+// running `yarn deploy:shared-minters:<network> --deploy-config <path to this file>`.
 
 export const deployConfigDetailsArray = [
   {
@@ -1,6 +1,6 @@
-// This file is used to configure the deployment of shared randomizer contracts
-// It is intended to be imported by the generic shared randomizer deployer by running
-// one of the commands similar to `deploy:shared-randomizer:<network>.
+// This file is used to configure the deployment of split atomic factory contracts
+// It is validated and imported by the `ab:deploy splits-factory` task, e.g. by
+// running `yarn deploy:splits-factory:<env> --deploy-config <path to this file>`.
 
 export const deployConfigDetailsArray = [
   {
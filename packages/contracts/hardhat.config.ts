@@ -12,6 +12,7 @@ import { solidityConfig } from "./hardhat.solidity-config";
 import { getDeployerWallet } from "./scripts/util/get-deployer-wallet";
 import "@nomicfoundation/hardhat-chai-matchers";
 import "@typechain/hardhat";
+import "./scripts/deploy/deploy-task";
 
 // ----- WALLET CONFIGURATION -----
 // initialize with dummy fallback private key
@@ -19,8 +20,10 @@ let PRIVATE_KEY: string =
   "DEAD000000000000000000000000000000000000000000000000000000000000";
 // if process argument "run" is present, use the deployer wallet
 // @dev use argv length check to avoid wallet nuisance when hardhat
-// runs pre-processes such as "compile" prior to running scripts
-if (process.argv.length == 2) {
+// runs pre-processes such as "compile" prior to running scripts.
+// `ab:deploy` runs in the main hardhat process rather than in a script
+// subprocess, so the deployer wallet is also loaded for it.
+if (process.argv.length == 2 || process.argv.includes("ab:deploy")) {
   // override default wallet with loaded deployer wallet if available
   const deployerWallet = getDeployerWallet();
   if (deployerWallet) {
@@ -0,0 +1,190 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import { z } from "zod";
+import { getAddress, isAddress } from "ethers/lib/utils";
+import { ProductClassEnum, ZERO_ADDRESS } from "../util/constants";
+
+// @dev schemas are strict so that misspelled config fields are reported
+// instead of being silently ignored
+
+export const checksummedAddressSchema = z
+  .string()
+  .refine((value) => isAddress(value), {
+    message: "Must be a valid address",
+  })
+  .refine((value) => !isAddress(value) || getAddress(value) === value, {
+    message: "Must be a checksummed address",
+  });
+
+const contractNameSchema = z.string().min(1);
+
+const deployTargetSchema = z.object({
+  network: z.string().min(1),
+  // environment the deployment is recorded under in the deployment manifest,
+  // e.g. "dev", "staging" or "mainnet"
+  environment: z.string().min(1),
+});
+
+export const deployNetworkConfigurationSchema = z.discriminatedUnion(
+  "useGnosisSafe",
+  [
+    deployTargetSchema
+      .extend({
+        useLedgerSigner: z.boolean(),
+        useGnosisSafe: z.literal(true),
+        safeAddress: checksummedAddressSchema,
+        transactionServiceUrl: z.string().url(),
+        // export Safe Transaction Builder JSON files to this directory,
+        // relative to packages/contracts, instead of proposing transactions
+        transactionBuilderExportDirectory: z.string().min(1).optional(),
+        transactionHash: z.string().optional(),
+      })
+      .strict(),
+    deployTargetSchema
+      .extend({
+        useLedgerSigner: z.boolean(),
+        useGnosisSafe: z.literal(false),
+        transactionHash: z.string().optional(),
+      })
+      .strict(),
+  ]
+);
+
+export const sharedRandomizerDeployConfigSchema = deployTargetSchema
+  .extend({
+    randomizerName: contractNameSchema,
+    pseudorandomAtomicContractAddress: checksummedAddressSchema.optional(),
+    pseudorandomAtomicContractName: contractNameSchema.optional(),
+  })
+  .strict()
+  .refine(
+    (config) =>
+      config.pseudorandomAtomicContractAddress ||
+      config.pseudorandomAtomicContractName,
+    {
+      message:
+        "pseudorandomAtomicContractAddress or pseudorandomAtomicContractName must be defined",
+    }
+  );
+
+export const sharedMinterFilterDeployConfigSchema = deployTargetSchema
+  .extend({
+    minterFilterName: contractNameSchema,
+    existingAdminACL: checksummedAddressSchema.optional(),
+    adminACLContractName: contractNameSchema.optional(),
+    existingCoreRegistry: checksummedAddressSchema.optional(),
+    coreRegistryContractName: contractNameSchema.optional(),
+  })
+  .strict()
+  .refine((config) => config.existingAdminACL || config.adminACLContractName, {
+    message: "existingAdminACL or adminACLContractName must be defined",
+  })
+  .refine(
+    (config) => config.existingCoreRegistry || config.coreRegistryContractName,
+    {
+      message:
+        "existingCoreRegistry or coreRegistryContractName must be defined",
+    }
+  );
+
+export const sharedMinterDeployConfigSchema = deployTargetSchema
+  .extend({
+    minterName: contractNameSchema,
+    minterFilterAddress: checksummedAddressSchema,
+    approveMinterGlobally: z.boolean(),
+    minMintFeeETH: z.string().optional(),
+  })
+  .strict()
+  .refine(
+    (config) => !config.minterName.includes("MinPrice") || config.minMintFeeETH,
+    {
+      message: "minMintFeeETH must be defined for min price minters",
+      path: ["minMintFeeETH"],
+    }
+  );
+
+export const splitsFactoryDeployConfigSchema = deployTargetSchema
+  .extend({
+    implementationName: contractNameSchema,
+    factoryName: contractNameSchema,
+    requiredSplitAddress: checksummedAddressSchema,
+    requiredSplitBPS: z.number().int().positive().max(10_000),
+  })
+  .strict();
+
+export const engineContractDeployConfigSchema = z
+  .object({
+    productClass: z.nativeEnum(ProductClassEnum),
+    // 0 for Engine, 1 for Engine Flex
+    engineCoreContractType: z.union([z.literal(0), z.literal(1)]),
+    salt: z.string().optional(),
+    tokenName: z.string().min(1),
+    tokenTicker: z.string().min(1),
+    artistName: z.string().optional(),
+    newSuperAdminAddress: checksummedAddressSchema,
+    renderProviderAddress: checksummedAddressSchema.refine(
+      (address) => address !== ZERO_ADDRESS,
+      { message: "The render provider address must not be the zero address" }
+    ),
+    platformProviderAddress: checksummedAddressSchema,
+    startingProjectId: z.number().int().min(0),
+    autoApproveArtistSplitProposals: z.boolean(),
+    nullPlatformProvider: z.boolean(),
+    allowArtistProjectActivation: z.boolean(),
+    adminACLContract: checksummedAddressSchema,
+    defaultVerticalName: z.string().optional(),
+  })
+  .strict()
+  .refine(
+    (config) =>
+      !config.nullPlatformProvider ||
+      config.platformProviderAddress === ZERO_ADDRESS,
+    {
+      message:
+        "If nullPlatformProvider is true, the platform provider address must be the zero address",
+      path: ["platformProviderAddress"],
+    }
+  )
+  .refine(
+    (config) =>
+      config.adminACLContract !== ZERO_ADDRESS ||
+      config.newSuperAdminAddress !== ZERO_ADDRESS,
+    {
+      message:
+        "If deploying a new Admin ACL Contract, the super admin address must not be the zero address",
+      path: ["newSuperAdminAddress"],
+    }
+  );
+
+export type DeployNetworkConfig = z.infer<
+  typeof deployNetworkConfigurationSchema
+>;
+export type SharedRandomizerDeployConfig = z.infer<
+  typeof sharedRandomizerDeployConfigSchema
+>;
+export type SharedMinterFilterDeployConfig = z.infer<
+  typeof sharedMinterFilterDeployConfigSchema
+>;
+export type SharedMinterDeployConfig = z.infer<
+  typeof sharedMinterDeployConfigSchema
+>;
+export type SplitsFactoryDeployConfig = z.infer<
+  typeof splitsFactoryDeployConfigSchema
+>;
+export type EngineContractDeployConfig = z.infer<
+  typeof engineContractDeployConfigSchema
+>;
+
+/**
+ * Formats the issues of a failed schema validation as readable messages,
+ * prefixed with the path of the offending field in the config file.
+ */
+export function formatDeployConfigIssues(
+  label: string,
+  error: z.ZodError
+): string[] {
+  return error.issues.map(
+    (issue) => `${[label, ...issue.path].join(".")}: ${issue.message}`
+  );
+}
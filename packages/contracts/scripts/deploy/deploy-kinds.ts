@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import { z } from "zod";
+import { ZERO_ADDRESS } from "../util/constants";
+import {
+  DeployNetworkConfig,
+  engineContractDeployConfigSchema,
+  sharedMinterDeployConfigSchema,
+  sharedMinterFilterDeployConfigSchema,
+  sharedRandomizerDeployConfigSchema,
+  splitsFactoryDeployConfigSchema,
+} from "./deploy-config-schemas";
+
+export type DeployKind<TSchema extends z.ZodTypeAny> = {
+  schema: TSchema;
+  exampleConfigPath: string;
+  // engine contracts are created from a network configuration that defines
+  // the target network, environment and Safe settings for all entries
+  requiresNetworkConfiguration: boolean;
+  getContractNames(config: z.infer<TSchema>): string[];
+  getExistingContractAddresses(config: z.infer<TSchema>): string[];
+  // returns the address of each contract deployed from a config entry
+  deploy(
+    configs: z.infer<TSchema>[],
+    networkConfiguration?: DeployNetworkConfig
+  ): Promise<string[]>;
+  // post-conditions asserted after a rehearsal, returns a list of issues
+  getRehearsalIssues(
+    configs: z.infer<TSchema>[],
+    deployedAddresses: string[],
+    networkConfiguration?: DeployNetworkConfig
+  ): Promise<string[]>;
+};
+
+// @dev helper to infer the config type of each kind
+function defineDeployKind<TSchema extends z.ZodTypeAny>(
+  kind: DeployKind<TSchema>
+): DeployKind<TSchema> {
+  return kind;
+}
+
+// @dev deployers and rehearsal checks are imported lazily so that only the
+// modules of the requested kind are loaded, after a rehearsal has started
+export const DEPLOY_KINDS = {
+  "shared-minter": defineDeployKind({
+    schema: sharedMinterDeployConfigSchema,
+    exampleConfigPath:
+      "deployments/minters/shared-minter-deploy-config.template.ts",
+    requiresNetworkConfiguration: false,
+    getContractNames: (config) => [config.minterName],
+    getExistingContractAddresses: (config) => [config.minterFilterAddress],
+    deploy: async (configs) =>
+      (
+        await import("../minter-deployments/shared-minters-deployer")
+      ).deploySharedMinters(configs),
+    getRehearsalIssues: async (configs, deployedAddresses) =>
+      (await import("./deploy-rehearsal-checks")).checkSharedMinterRehearsal(
+        configs,
+        deployedAddresses
+      ),
+  }),
+  "shared-randomizer": defineDeployKind({
+    schema: sharedRandomizerDeployConfigSchema,
+    exampleConfigPath:
+      "deployments/randomizer/shared-randomizer-deploy-config.template.ts",
+    requiresNetworkConfiguration: false,
+    // @dev the schema requires a contract name for every contract that is not
+    // already deployed
+    getContractNames: (config) =>
+      config.pseudorandomAtomicContractAddress
+        ? [config.randomizerName]
+        : [config.randomizerName, config.pseudorandomAtomicContractName!],
+    getExistingContractAddresses: (config) =>
+      config.pseudorandomAtomicContractAddress
+        ? [config.pseudorandomAtomicContractAddress]
+        : [],
+    deploy: async (configs) =>
+      (
+        await import("../randomizer-deployments/shared-randomizer-deployer")
+      ).deploySharedRandomizers(configs),
+    getRehearsalIssues: async (configs, deployedAddresses) =>
+      (
+        await import("./deploy-rehearsal-checks")
+      ).checkSharedRandomizerRehearsal(configs, deployedAddresses),
+  }),
+  "shared-minter-filter": defineDeployKind({
+    schema: sharedMinterFilterDeployConfigSchema,
+    exampleConfigPath:
+      "deployments/minter-filter/shared-minter-filter-deploy-config.template.ts",
+    requiresNetworkConfiguration: false,
+    getContractNames: (config) => [
+      config.minterFilterName,
+      ...(config.existingAdminACL ? [] : [config.adminACLContractName!]),
+      ...(config.existingCoreRegistry
+        ? []
+        : [config.coreRegistryContractName!]),
+    ],
+    getExistingContractAddresses: (config) => [
+      ...(config.existingAdminACL ? [config.existingAdminACL] : []),
+      ...(config.existingCoreRegistry ? [config.existingCoreRegistry] : []),
+    ],
+    deploy: async (configs) =>
+      (
+        await import("../minter-filter-deployments/shared-minter-filter-deployer")
+      ).deploySharedMinterFilters(configs),
+    getRehearsalIssues: async (configs, deployedAddresses) =>
+      (
+        await import("./deploy-rehearsal-checks")
+      ).checkSharedMinterFilterRehearsal(configs, deployedAddresses),
+  }),
+  "splits-factory": defineDeployKind({
+    schema: splitsFactoryDeployConfigSchema,
+    exampleConfigPath: "deployments/splits/splits-deploy-config.template.ts",
+    requiresNetworkConfiguration: false,
+    getContractNames: (config) => [
+      config.implementationName,
+      config.factoryName,
+    ],
+    getExistingContractAddresses: () => [],
+    deploy: async (configs) =>
+      (await import("../splits/splits-factory-deployer")).deploySplitsFactories(
+        configs
+      ),
+    getRehearsalIssues: async (configs, deployedAddresses) =>
+      (await import("./deploy-rehearsal-checks")).checkSplitsFactoryRehearsal(
+        configs,
+        deployedAddresses
+      ),
+  }),
+  "engine-contracts": defineDeployKind({
+    schema: engineContractDeployConfigSchema,
+    exampleConfigPath:
+      "deployments/engine/V3/studio/deployment-config.template.ts",
+    requiresNetworkConfiguration: true,
+    // @dev engine contracts are created by the active engine factory
+    getContractNames: () => ["EngineFactoryV0", "AdminACLV0"],
+    getExistingContractAddresses: (config) =>
+      config.adminACLContract !== ZERO_ADDRESS ? [config.adminACLContract] : [],
+    // @dev presence of the network configuration is enforced by the task
+    deploy: async (configs, networkConfiguration) =>
+      (
+        await import("../engine/V3/batch-create-engine-contracts")
+      ).createEngineContracts(configs, networkConfiguration!),
+    getRehearsalIssues: async (
+      configs,
+      deployedAddresses,
+      networkConfiguration
+    ) =>
+      (await import("./deploy-rehearsal-checks")).checkEngineContractsRehearsal(
+        configs,
+        deployedAddresses,
+        networkConfiguration!
+      ),
+  }),
+};
+
+export type DeployKindName = keyof typeof DEPLOY_KINDS;
+
+export function isDeployKindName(kind: string): kind is DeployKindName {
+  return Object.prototype.hasOwnProperty.call(DEPLOY_KINDS, kind);
+}
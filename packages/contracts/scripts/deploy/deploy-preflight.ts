@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import hre, { ethers } from "hardhat";
+import { getNetworkName } from "../util/utils";
+import { normalizeDeploymentEnvironment } from "../util/deployment-manifest";
+import { DeployNetworkConfig } from "./deploy-config-schemas";
+
+export type DeployPreflightInput = {
+  // network and environment targeted by each config entry
+  targets: { network: string; environment: string }[];
+  networkConfiguration?: DeployNetworkConfig;
+  // contracts that will be deployed, by artifact name
+  contractNames: string[];
+  // already deployed contracts the deployment depends on
+  existingContractAddresses: string[];
+};
+
+/**
+ * Runs the checks shared by every `ab:deploy` kind against the network hardhat
+ * is connected to, before any transaction is sent.
+ * Config shape and address checksums are validated by the per-kind zod
+ * schemas, so these checks only cover what requires network access.
+ * Returns a list of issues, which is empty if all checks pass.
+ */
+export async function runDeployPreflightChecks({
+  targets,
+  networkConfiguration,
+  contractNames,
+  existingContractAddresses,
+}: DeployPreflightInput): Promise<string[]> {
+  const issues: string[] = [];
+  const networkName = await getNetworkName();
+
+  // network and environment consistency
+  const nodeEnvironment = process.env.NODE_ENV;
+  for (const { network, environment } of targets) {
+    if (network !== networkName) {
+      issues.push(
+        `config network ${network} does not match the network you are deploying to ${networkName}`
+      );
+    }
+    if (
+      nodeEnvironment &&
+      normalizeDeploymentEnvironment(nodeEnvironment) !==
+        normalizeDeploymentEnvironment(environment)
+    ) {
+      issues.push(
+        `config environment ${environment} does not match NODE_ENV ${nodeEnvironment}`
+      );
+    }
+  }
+
+  // Safe and signer settings
+  if (networkConfiguration?.useGnosisSafe) {
+    const safeCode = await ethers.provider.getCode(
+      networkConfiguration.safeAddress
+    );
+    if (safeCode === "0x") {
+      issues.push(
+        `no Safe is deployed at ${networkConfiguration.safeAddress} on ${networkName}`
+      );
+    }
+  }
+  if (
+    networkConfiguration?.useLedgerSigner &&
+    !hre.network.config.ledgerAccounts?.length
+  ) {
+    issues.push(
+      `useLedgerSigner is set, but no ledgerAccounts are configured for ${networkName} in hardhat.config.ts`
+    );
+  }
+
+  // contracts to be deployed must be compiled, and contracts depended on
+  // must exist on the target network
+  for (const contractName of Array.from(new Set(contractNames))) {
+    if (!(await hre.artifacts.artifactExists(contractName))) {
+      issues.push(`no compiled artifact found for ${contractName}`);
+    }
+  }
+  for (const address of Array.from(new Set(existingContractAddresses))) {
+    if ((await ethers.provider.getCode(address)) === "0x") {
+      issues.push(`no contract is deployed at ${address} on ${networkName}`);
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,222 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import { ethers } from "hardhat";
+import {
+  getActiveCoreRegistry,
+  getActiveSharedMinterFilter,
+  getActiveSharedRandomizer,
+  getActiveSharedSplitProvider,
+} from "../util/constants";
+import {
+  DeployNetworkConfig,
+  EngineContractDeployConfig,
+  SharedMinterDeployConfig,
+  SharedMinterFilterDeployConfig,
+  SharedRandomizerDeployConfig,
+  SplitsFactoryDeployConfig,
+} from "./deploy-config-schemas";
+
+// @dev post-conditions asserted after a rehearsal of each kind of deployment.
+// Each check receives the config entries and the addresses of the contracts
+// the deployment returned, and returns a list of unmet post-conditions.
+
+function isSameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function checkDeployedCount(
+  expectedCount: number,
+  deployedAddresses: string[],
+  label: string
+): string[] {
+  return deployedAddresses.length === expectedCount
+    ? []
+    : [
+        `expected ${expectedCount} ${label} to be deployed, but ${deployedAddresses.length} were`,
+      ];
+}
+
+export async function checkSharedMinterRehearsal(
+  configs: SharedMinterDeployConfig[],
+  deployedAddresses: string[]
+): Promise<string[]> {
+  const issues = checkDeployedCount(
+    configs.length,
+    deployedAddresses,
+    "minters"
+  );
+  for (let index = 0; index < deployedAddresses.length; index++) {
+    const { minterName, minterFilterAddress, approveMinterGlobally } =
+      configs[index];
+    if (!approveMinterGlobally) {
+      continue;
+    }
+    const minterFilter = await ethers.getContractAt(
+      "MinterFilterV2",
+      minterFilterAddress
+    );
+    if (
+      !(await minterFilter.isGloballyApprovedMinter(deployedAddresses[index]))
+    ) {
+      issues.push(
+        `${minterName} at ${deployedAddresses[index]} is not globally approved on MinterFilterV2 at ${minterFilterAddress}`
+      );
+    }
+  }
+  return issues;
+}
+
+export async function checkSharedRandomizerRehearsal(
+  configs: SharedRandomizerDeployConfig[],
+  deployedAddresses: string[]
+): Promise<string[]> {
+  const issues = checkDeployedCount(
+    configs.length,
+    deployedAddresses,
+    "randomizers"
+  );
+  for (let index = 0; index < deployedAddresses.length; index++) {
+    const { randomizerName, pseudorandomAtomicContractAddress } =
+      configs[index];
+    const randomizer = await ethers.getContractAt(
+      randomizerName,
+      deployedAddresses[index]
+    );
+    const pseudorandomAtomicContract =
+      await randomizer.pseudorandomAtomicContract();
+    if (
+      pseudorandomAtomicContractAddress &&
+      !isSameAddress(
+        pseudorandomAtomicContract,
+        pseudorandomAtomicContractAddress
+      )
+    ) {
+      issues.push(
+        `${randomizerName} at ${deployedAddresses[index]} uses pseudorandom atomic contract ${pseudorandomAtomicContract}, expected ${pseudorandomAtomicContractAddress}`
+      );
+    }
+  }
+  return issues;
+}
+
+export async function checkSharedMinterFilterRehearsal(
+  configs: SharedMinterFilterDeployConfig[],
+  deployedAddresses: string[]
+): Promise<string[]> {
+  const issues = checkDeployedCount(
+    configs.length,
+    deployedAddresses,
+    "minter filters"
+  );
+  for (let index = 0; index < deployedAddresses.length; index++) {
+    const { minterFilterName, existingAdminACL, existingCoreRegistry } =
+      configs[index];
+    const minterFilter = await ethers.getContractAt(
+      minterFilterName,
+      deployedAddresses[index]
+    );
+    const adminACLContract = await minterFilter.adminACLContract();
+    if (
+      existingAdminACL &&
+      !isSameAddress(adminACLContract, existingAdminACL)
+    ) {
+      issues.push(
+        `${minterFilterName} at ${deployedAddresses[index]} uses admin ACL ${adminACLContract}, expected ${existingAdminACL}`
+      );
+    }
+    const coreRegistry = await minterFilter.coreRegistry();
+    if (
+      existingCoreRegistry &&
+      !isSameAddress(coreRegistry, existingCoreRegistry)
+    ) {
+      issues.push(
+        `${minterFilterName} at ${deployedAddresses[index]} uses core registry ${coreRegistry}, expected ${existingCoreRegistry}`
+      );
+    }
+  }
+  return issues;
+}
+
+export async function checkSplitsFactoryRehearsal(
+  configs: SplitsFactoryDeployConfig[],
+  deployedAddresses: string[]
+): Promise<string[]> {
+  const issues = checkDeployedCount(
+    configs.length,
+    deployedAddresses,
+    "splits factories"
+  );
+  for (let index = 0; index < deployedAddresses.length; index++) {
+    const { factoryName, requiredSplitAddress, requiredSplitBPS } =
+      configs[index];
+    const factory = await ethers.getContractAt(
+      factoryName,
+      deployedAddresses[index]
+    );
+    if (
+      !isSameAddress(await factory.requiredSplitAddress(), requiredSplitAddress)
+    ) {
+      issues.push(
+        `${factoryName} at ${deployedAddresses[index]} does not use required split address ${requiredSplitAddress}`
+      );
+    }
+    if ((await factory.requiredSplitBasisPoints()) !== requiredSplitBPS) {
+      issues.push(
+        `${factoryName} at ${deployedAddresses[index]} does not use required split BPS ${requiredSplitBPS}`
+      );
+    }
+  }
+  return issues;
+}
+
+export async function checkEngineContractsRehearsal(
+  configs: EngineContractDeployConfig[],
+  deployedAddresses: string[],
+  networkConfiguration: DeployNetworkConfig
+): Promise<string[]> {
+  const { network, environment } = networkConfiguration;
+  const issues = checkDeployedCount(
+    configs.length,
+    deployedAddresses,
+    "engine contracts"
+  );
+  const coreRegistry = await ethers.getContractAt(
+    "CoreRegistryV1",
+    await getActiveCoreRegistry(network, environment)
+  );
+  const minterFilterAddress = getActiveSharedMinterFilter(network, environment);
+  const randomizerAddress = getActiveSharedRandomizer(network, environment);
+  const splitProviderAddress = getActiveSharedSplitProvider();
+  for (const coreAddress of deployedAddresses) {
+    // @dev the Engine and Engine Flex cores share the checked interface
+    const core = await ethers.getContractAt(
+      "GenArt721CoreV3_Engine",
+      coreAddress
+    );
+    if (!(await coreRegistry.isRegisteredContract(coreAddress))) {
+      issues.push(
+        `engine contract ${coreAddress} is not registered in CoreRegistryV1 at ${coreRegistry.address}`
+      );
+    }
+    const coreRandomizer = await core.randomizerContract();
+    if (!isSameAddress(coreRandomizer, randomizerAddress)) {
+      issues.push(
+        `engine contract ${coreAddress} uses randomizer ${coreRandomizer}, expected the active shared randomizer ${randomizerAddress}`
+      );
+    }
+    const coreMinterFilter = await core.minterContract();
+    if (!isSameAddress(coreMinterFilter, minterFilterAddress)) {
+      issues.push(
+        `engine contract ${coreAddress} uses minter ${coreMinterFilter}, expected the active shared minter filter ${minterFilterAddress}`
+      );
+    }
+    const coreSplitProvider = await core.splitProvider();
+    if (!isSameAddress(coreSplitProvider, splitProviderAddress)) {
+      issues.push(
+        `engine contract ${coreAddress} uses split provider ${coreSplitProvider}, expected the active shared split provider ${splitProviderAddress}`
+      );
+    }
+  }
+  return issues;
+}
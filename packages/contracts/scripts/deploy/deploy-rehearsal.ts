@@ -0,0 +1,320 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import { Wallet } from "ethers";
+import { TransactionReceipt } from "@ethersproject/abstract-provider";
+import {
+  EIP1193Provider,
+  EthereumProvider,
+  HardhatRuntimeEnvironment,
+  HttpNetworkConfig,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RequestArguments,
+} from "hardhat/types";
+// @dev hardhat has no public API to create a provider for a network other
+// than the one it is connected to, and forking the in-process hardhat network
+// would discard the rehearsed network's config
+import { createProvider } from "hardhat/internal/core/providers/construction";
+import { readDeploymentManifest } from "../util/deployment-manifest";
+
+// balance given to impersonated accounts to pay for rehearsed transactions
+const REHEARSAL_ACCOUNT_BALANCE = "0x21e19e0c9bab2400000"; // 10,000 ETH
+
+type DeploymentRehearsal = {
+  hre: HardhatRuntimeEnvironment;
+  // network being rehearsed, e.g. "mainnet"
+  networkName: string;
+  // ledger or deployer wallet address the rehearsal sends transactions from
+  signerAddress: string;
+  // hashes of every transaction sent during the rehearsal, in order
+  transactionHashes: string[];
+  // names of contracts deployed during the rehearsal, by lowercase address
+  deployedContractNames: Map<string, string>;
+};
+
+let activeRehearsal: DeploymentRehearsal | null = null;
+
+/**
+ * Wraps the provider of a rehearsal's local fork. The wrapper exposes the
+ * impersonated signer as the only account, and keeps track of every
+ * transaction sent through it.
+ * @dev delegates to the forked provider through its prototype rather than
+ * extending hardhat's `ProviderWrapper`, as ES5 classes may not extend native
+ * classes. The legacy `send` and `sendAsync` methods are routed through
+ * `request`, as the forked provider's are bound to itself.
+ */
+function createRehearsalProvider(
+  forkedProvider: EthereumProvider,
+  rehearsal: DeploymentRehearsal
+): EthereumProvider {
+  const rehearsalProvider: EthereumProvider = Object.create(forkedProvider);
+  rehearsalProvider.request = async (args: RequestArguments) => {
+    if (
+      args.method === "eth_accounts" ||
+      args.method === "eth_requestAccounts"
+    ) {
+      return [rehearsal.signerAddress];
+    }
+    const result = await forkedProvider.request(args);
+    if (
+      args.method === "eth_sendTransaction" ||
+      args.method === "eth_sendRawTransaction"
+    ) {
+      rehearsal.transactionHashes.push(result as string);
+    }
+    return result;
+  };
+  rehearsalProvider.send = (method: string, params?: unknown[]) =>
+    rehearsalProvider.request({ method, params });
+  rehearsalProvider.sendAsync = (
+    payload: JsonRpcRequest,
+    callback: (error: any, response: JsonRpcResponse) => void
+  ) => {
+    const response: JsonRpcResponse = { jsonrpc: "2.0", id: payload.id };
+    rehearsalProvider
+      .request({ method: payload.method, params: payload.params })
+      .then(
+        (result) => callback(null, { ...response, result }),
+        (error) =>
+          callback(error, {
+            ...response,
+            error: { code: error.code ?? -1, message: error.message },
+          })
+      );
+  };
+  return rehearsalProvider;
+}
+
+function getSignerAddress(networkConfig: HttpNetworkConfig): string {
+  if (networkConfig.ledgerAccounts?.length) {
+    return networkConfig.ledgerAccounts[0];
+  }
+  if (Array.isArray(networkConfig.accounts) && networkConfig.accounts.length) {
+    const privateKey = networkConfig.accounts[0];
+    return new Wallet(
+      privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`
+    ).address;
+  }
+  throw new Error(
+    `[ERROR] Unable to determine the deployer address to impersonate, configure accounts or ledgerAccounts for the network in hardhat.config.ts`
+  );
+}
+
+/**
+ * Impersonates an account on a local fork, and funds it to pay for the
+ * transactions sent from it.
+ */
+export async function impersonateAccount(
+  provider: EIP1193Provider,
+  address: string
+) {
+  await provider.request({
+    method: "hardhat_impersonateAccount",
+    params: [address],
+  });
+  await provider.request({
+    method: "hardhat_setBalance",
+    params: [address, REHEARSAL_ACCOUNT_BALANCE],
+  });
+}
+
+export function isDeploymentRehearsal(): boolean {
+  return activeRehearsal !== null;
+}
+
+export function getDeploymentRehearsal(): DeploymentRehearsal {
+  if (!activeRehearsal) {
+    throw new Error(`[ERROR] No deployment rehearsal is in progress`);
+  }
+  return activeRehearsal;
+}
+
+/**
+ * Creates a local fork of the network hardhat is connected to, keeping the
+ * chain id of the forked network so that network-specific logic and active
+ * contract lookups behave as they would for real.
+ */
+export async function createNetworkFork(
+  hre: HardhatRuntimeEnvironment
+): Promise<EthereumProvider> {
+  const networkName = hre.network.name;
+  const networkConfig = hre.network.config;
+  if (!("url" in networkConfig)) {
+    throw new Error(
+      `[ERROR] Only remote networks may be forked, but ${networkName} is not one`
+    );
+  }
+  const chainId = parseInt(
+    (await hre.network.provider.request({ method: "eth_chainId" })) as string,
+    16
+  );
+  return createProvider(
+    {
+      ...hre.config,
+      networks: {
+        ...hre.config.networks,
+        hardhat: {
+          ...hre.config.networks.hardhat,
+          chainId,
+          gasPrice: "auto",
+          forking: {
+            enabled: true,
+            url: networkConfig.url,
+            httpHeaders: networkConfig.httpHeaders,
+          },
+        },
+      },
+    },
+    "hardhat",
+    hre.artifacts
+  );
+}
+
+/**
+ * Replaces the provider of the network hardhat is connected to with a local
+ * fork of it, on which the ledger or deployer wallet signer is impersonated.
+ * @dev must be called before `hre.ethers` is first used, as hardhat-ethers
+ * binds to the network provider on first use
+ */
+export async function startDeploymentRehearsal(
+  hre: HardhatRuntimeEnvironment
+): Promise<DeploymentRehearsal> {
+  const networkName = hre.network.name;
+  const networkConfig = hre.network.config;
+  if (!("url" in networkConfig)) {
+    throw new Error(
+      `[ERROR] Rehearsals fork a remote network, but ${networkName} is not one`
+    );
+  }
+  const forkedProvider = await createNetworkFork(hre);
+
+  const signerAddress = getSignerAddress(networkConfig);
+  await impersonateAccount(forkedProvider, signerAddress);
+
+  activeRehearsal = {
+    hre,
+    networkName,
+    signerAddress,
+    transactionHashes: [],
+    deployedContractNames: new Map(),
+  };
+  hre.network.provider = createRehearsalProvider(
+    forkedProvider,
+    activeRehearsal
+  );
+  console.log(
+    `[INFO] Rehearsing on a local fork of ${networkName}, impersonating ${signerAddress}`
+  );
+  return activeRehearsal;
+}
+
+/**
+ * Records the name of a contract deployed during a rehearsal, in place of
+ * recording it in the deployment manifest.
+ */
+export function recordRehearsedDeployment(
+  contractName: string,
+  address: string
+) {
+  getDeploymentRehearsal().deployedContractNames.set(
+    address.toLowerCase(),
+    contractName
+  );
+}
+
+/**
+ * Executes transactions that would be proposed to a Safe directly from the
+ * impersonated Safe, so their effects may be asserted during a rehearsal.
+ */
+export async function rehearseSafeTransactions(
+  safeAddress: string,
+  transactions: { to: string; value: string; data: string }[]
+): Promise<TransactionReceipt[]> {
+  const { hre } = getDeploymentRehearsal();
+  await impersonateAccount(hre.network.provider, safeAddress);
+  const safeSigner = await hre.ethers.getSigner(safeAddress);
+  console.log(
+    `[INFO] Executing ${transactions.length} Safe transactions from impersonated Safe ${safeAddress}`
+  );
+  const receipts: TransactionReceipt[] = [];
+  for (const transaction of transactions) {
+    const tx = await safeSigner.sendTransaction(transaction);
+    receipts.push(await tx.wait());
+  }
+  return receipts;
+}
+
+async function describeCall(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string | undefined,
+  data: string
+): Promise<string> {
+  if (data === "0x") {
+    return "transfer()";
+  }
+  const selector = data.slice(0, 10);
+  if (!contractName || !(await hre.artifacts.artifactExists(contractName))) {
+    return selector;
+  }
+  const { abi } = await hre.artifacts.readArtifact(contractName);
+  try {
+    return new hre.ethers.utils.Interface(abi).parseTransaction({ data })
+      .signature;
+  } catch (error) {
+    return selector;
+  }
+}
+
+/**
+ * Logs every transaction sent during the rehearsal, i.e. the transactions
+ * that would be sent to the rehearsed network.
+ * Contracts are labelled by name if they were deployed during the rehearsal
+ * or are recorded in the deployment manifest of one of the given targets.
+ */
+export async function logRehearsalReport(
+  targets: { network: string; environment: string }[]
+) {
+  const { hre, networkName, transactionHashes, deployedContractNames } =
+    getDeploymentRehearsal();
+  const contractNames = new Map<string, string>();
+  for (const { network, environment } of targets) {
+    readDeploymentManifest(network, environment).contracts.forEach(
+      ({ address, contractName }) =>
+        contractNames.set(address.toLowerCase(), contractName)
+    );
+  }
+  deployedContractNames.forEach((contractName, address) =>
+    contractNames.set(address, contractName)
+  );
+  const getLabel = (address: string) => {
+    const contractName = contractNames.get(address.toLowerCase());
+    return contractName ? `${contractName} (${address})` : address;
+  };
+
+  console.log(
+    `[INFO] Rehearsal sent ${transactionHashes.length} transactions that would be sent to ${networkName}:`
+  );
+  let totalGasUsed = hre.ethers.BigNumber.from(0);
+  for (let index = 0; index < transactionHashes.length; index++) {
+    const tx = await hre.ethers.provider.getTransaction(
+      transactionHashes[index]
+    );
+    const receipt = await hre.ethers.provider.getTransactionReceipt(
+      transactionHashes[index]
+    );
+    const action = tx.to
+      ? `call ${await describeCall(
+          hre,
+          contractNames.get(tx.to.toLowerCase()),
+          tx.data
+        )} on ${getLabel(tx.to)}`
+      : `deploy ${getLabel(receipt.contractAddress)}`;
+    const status = receipt.status === 1 ? "" : " [REVERTED]";
+    console.log(
+      `  ${index + 1}. from ${tx.from}: ${action}, gas used ${receipt.gasUsed}${status}`
+    );
+    totalGasUsed = totalGasUsed.add(receipt.gasUsed);
+  }
+  console.log(`[INFO] Total gas used: ${totalGasUsed}`);
+}
@@ -0,0 +1,296 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import path from "path";
+import prompt from "prompt";
+import { task, types } from "hardhat/config";
+import type { ZodTypeAny } from "zod";
+import { readDeploymentManifest } from "../util/deployment-manifest";
+// @dev type-only import, erased at runtime
+import type { DeployKind } from "./deploy-kinds";
+
+/**
+ * Registers the `ab:deploy` task, the single entry point for config-driven
+ * deployments, e.g.:
+ *
+ *   yarn hardhat --network sepolia ab:deploy shared-minter \
+ *     --deploy-config deployments/minters/sepolia-dev/minter-deploy-config-01.ts
+ *
+ * @dev the option is not named `--config`, as hardhat reserves it for the
+ * hardhat config file
+ *
+ * Every kind of deployment validates its config file against a zod schema and
+ * runs the shared pre-flight checks before any transaction is sent.
+ * When run with `--non-interactive`, the task never prompts for input, so
+ * deployments may be rehearsed in scripts.
+ *
+ * Once deployed, the contracts recorded in the deployment manifest are
+ * verified on the network's block explorer, retrying failed verifications with
+ * backoff, unless run with `--skip-verification`. Contracts that remain
+ * unverified are listed in a status report, and may be verified later with
+ * `yarn verify <network>`.
+ *
+ * When run with `--rehearse`, the deployment runs against a local fork of the
+ * target network on which the ledger or deployer wallet signer is
+ * impersonated, and Safe transactions are executed from the impersonated
+ * Safe. The task then reports the transactions that would be sent, and
+ * asserts the post-conditions of the kind of deployment. Nothing is recorded
+ * in deployment manifests or verified during a rehearsal.
+ */
+
+type DeployTaskArgs = {
+  kind: string;
+  deployConfig?: string;
+  nonInteractive: boolean;
+  rehearse: boolean;
+  skipVerification: boolean;
+};
+
+async function promptForInput(message: string): Promise<string> {
+  prompt.start();
+  const result = await prompt.get([message]);
+  return String(result[message]).trim();
+}
+
+function reportIssues(issues: string[], summary: string) {
+  if (issues.length === 0) {
+    return;
+  }
+  for (const issue of issues) {
+    console.log(`[ERROR] ${issue}`);
+  }
+  throw new Error(`[ERROR] ${summary}: found ${issues.length} issues`);
+}
+
+task("ab:deploy", "Deploys contracts of a given kind from a deployment config")
+  .addPositionalParam(
+    "kind",
+    "kind of deployment: shared-minter, shared-randomizer, shared-minter-filter, splits-factory or engine-contracts"
+  )
+  .addOptionalParam(
+    "deployConfig",
+    "path to the deployment config file, relative to packages/contracts",
+    undefined,
+    types.string
+  )
+  .addFlag(
+    "nonInteractive",
+    "never prompt for input or confirmation, e.g. when rehearsing deployments in scripts"
+  )
+  .addFlag(
+    "rehearse",
+    "run the deployment on a local fork of the network, impersonating the signer and Safe, and report the transactions that would be sent"
+  )
+  .addFlag(
+    "skipVerification",
+    "do not verify deployed contracts on the block explorer"
+  )
+  .setAction(
+    async (
+      {
+        kind,
+        deployConfig,
+        nonInteractive,
+        rehearse,
+        skipVerification,
+      }: DeployTaskArgs,
+      hre
+    ) => {
+      // @dev the fork must replace the network provider before any deploy
+      // module uses ethers
+      const rehearsal = await import("./deploy-rehearsal");
+      if (rehearse) {
+        await rehearsal.startDeploymentRehearsal(hre);
+      }
+      // @dev deploy modules import hardhat, so they may only be loaded once the
+      // hardhat runtime environment is initialized
+      const { DEPLOY_KINDS, isDeployKindName } = await import("./deploy-kinds");
+      const { deployNetworkConfigurationSchema, formatDeployConfigIssues } =
+        await import("./deploy-config-schemas");
+      const { runDeployPreflightChecks } = await import("./deploy-preflight");
+
+      if (!isDeployKindName(kind)) {
+        throw new Error(
+          `[ERROR] Unknown deployment kind ${kind}, must be one of: ${Object.keys(
+            DEPLOY_KINDS
+          ).join(", ")}`
+        );
+      }
+      const deployKind: DeployKind<ZodTypeAny> = DEPLOY_KINDS[kind];
+
+      // get deployment configuration file
+      let configFile = deployConfig;
+      if (!configFile) {
+        if (nonInteractive) {
+          throw new Error(
+            `[ERROR] --deploy-config is required in non-interactive mode`
+          );
+        }
+        console.log(
+          `[INFO] example deployment config file is:\n\n${deployKind.exampleConfigPath}\n`
+        );
+        configFile = await promptForInput(`${kind} deployment config file`);
+      }
+      const configPath = path.resolve(hre.config.paths.root, configFile);
+      let configModule: {
+        deployConfigDetailsArray?: unknown;
+        deployNetworkConfiguration?: unknown;
+      };
+      try {
+        configModule = await import(configPath);
+      } catch (error) {
+        throw new Error(
+          `[ERROR] Unable to import deployment config file at ${configPath}: ${error}`
+        );
+      }
+
+      //////////////////////////////////////////////////////////////////////////////
+      // INPUT VERIFICATION BEGINS HERE
+      //////////////////////////////////////////////////////////////////////////////
+      // @dev validate ALL config entries to avoid mid-deployment failures
+
+      const issues: string[] = [];
+      const configsResult = deployKind.schema
+        .array()
+        .min(1)
+        .safeParse(configModule.deployConfigDetailsArray);
+      if (!configsResult.success) {
+        issues.push(
+          ...formatDeployConfigIssues(
+            "deployConfigDetailsArray",
+            configsResult.error
+          )
+        );
+      }
+      let networkConfiguration;
+      if (deployKind.requiresNetworkConfiguration) {
+        const networkConfigurationResult =
+          deployNetworkConfigurationSchema.safeParse(
+            configModule.deployNetworkConfiguration
+          );
+        if (networkConfigurationResult.success) {
+          networkConfiguration = networkConfigurationResult.data;
+        } else {
+          issues.push(
+            ...formatDeployConfigIssues(
+              "deployNetworkConfiguration",
+              networkConfigurationResult.error
+            )
+          );
+        }
+      }
+      reportIssues(issues, `Invalid deployment config ${configFile}`);
+      // @dev parsing succeeded if no issues were reported
+      const configs = configsResult.success ? configsResult.data : [];
+
+      //////////////////////////////////////////////////////////////////////////////
+      // INPUT VERIFICATION ENDS HERE
+      //////////////////////////////////////////////////////////////////////////////
+
+      //////////////////////////////////////////////////////////////////////////////
+      // PRE-FLIGHT CHECKS BEGIN HERE
+      //////////////////////////////////////////////////////////////////////////////
+
+      const targets: { network: string; environment: string }[] =
+        networkConfiguration
+          ? [networkConfiguration]
+          : configs.map(({ network, environment }) => ({
+              network,
+              environment,
+            }));
+      const preflightIssues = await runDeployPreflightChecks({
+        targets,
+        networkConfiguration,
+        contractNames: configs.flatMap(deployKind.getContractNames),
+        existingContractAddresses: configs.flatMap(
+          deployKind.getExistingContractAddresses
+        ),
+      });
+      reportIssues(
+        preflightIssues,
+        `Pre-flight checks failed for ${configFile}`
+      );
+
+      //////////////////////////////////////////////////////////////////////////////
+      // PRE-FLIGHT CHECKS END HERE
+      //////////////////////////////////////////////////////////////////////////////
+
+      console.log(
+        `[INFO] Deploying ${configs.length} ${kind} config entries from ${configFile} to ${hre.network.name}`
+      );
+      if (!nonInteractive && !rehearse) {
+        const answer = await promptForInput("Proceed with deployment? (y/n)");
+        if (answer.toLowerCase() !== "y") {
+          console.log(`[INFO] Deployment aborted`);
+          return;
+        }
+      }
+
+      // manifests are only appended to, so contracts recorded by this
+      // deployment are found after the current length of each manifest
+      const verificationTargets = targets
+        .filter(
+          (target, index) =>
+            targets.findIndex(
+              ({ network, environment }) =>
+                network === target.network && environment === target.environment
+            ) === index
+        )
+        .map(({ network, environment }) => ({
+          network,
+          environment,
+          fromIndex: readDeploymentManifest(network, environment).contracts
+            .length,
+        }));
+
+      const deployedAddresses = await deployKind.deploy(
+        configs,
+        networkConfiguration
+      );
+      if (!rehearse) {
+        if (skipVerification) {
+          return;
+        }
+
+        //////////////////////////////////////////////////////////////////////////////
+        // VERIFICATION BEGINS HERE
+        //////////////////////////////////////////////////////////////////////////////
+
+        const { verifyDeployments } = await import("../util/verification");
+        for (const { network, environment, fromIndex } of verificationTargets) {
+          await verifyDeployments({
+            networkName: network,
+            environment,
+            fromIndex,
+          });
+        }
+
+        //////////////////////////////////////////////////////////////////////////////
+        // VERIFICATION ENDS HERE
+        //////////////////////////////////////////////////////////////////////////////
+        return;
+      }
+
+      //////////////////////////////////////////////////////////////////////////////
+      // REHEARSAL REPORT BEGINS HERE
+      //////////////////////////////////////////////////////////////////////////////
+
+      await rehearsal.logRehearsalReport(targets);
+      const rehearsalIssues = await deployKind.getRehearsalIssues(
+        configs,
+        deployedAddresses,
+        networkConfiguration
+      );
+      reportIssues(
+        rehearsalIssues,
+        `Rehearsal post-conditions failed for ${configFile}`
+      );
+      console.log(
+        `[INFO] Rehearsal of ${configFile} on ${hre.network.name} passed`
+      );
+
+      //////////////////////////////////////////////////////////////////////////////
+      // REHEARSAL REPORT ENDS HERE
+      //////////////////////////////////////////////////////////////////////////////
+    }
+  );
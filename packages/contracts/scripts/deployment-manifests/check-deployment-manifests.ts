@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import fs from "fs";
+import path from "path";
+import {
+  DEPLOYMENT_CHAIN_IDS,
+  DEPLOYMENT_MANIFESTS_DIRECTORY,
+  DeploymentManifest,
+  DeploymentRole,
+  getDeploymentManifestPath,
+  readAllDeploymentManifests,
+} from "../util/deployment-manifest";
+import {
+  renderSdkAddressBook,
+  SDK_ADDRESS_BOOK_FILE,
+} from "../sdk-address-book/generate-sdk-address-book";
+
+/**
+ * This script checks the deployment manifests in `deployments/manifests` for
+ * malformed entries, and flags drift between the manifests and the artifacts
+ * derived from them (e.g. the SDK address book). It should be run in CI and
+ * after every deployment.
+ */
+
+const ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
+const TRANSACTION_HASH_REGEX = /^0x[0-9a-fA-F]{64}$/;
+
+function checkManifest(manifest: DeploymentManifest): string[] {
+  const issues: string[] = [];
+  const { network, environment, chainId, contracts } = manifest;
+
+  if (DEPLOYMENT_CHAIN_IDS[network] !== chainId) {
+    issues.push(
+      `chain id ${chainId} does not match network ${network} (expected ${DEPLOYMENT_CHAIN_IDS[network]})`
+    );
+  }
+
+  const seenAddresses = new Set<string>();
+  contracts.forEach((entry, index) => {
+    const label = `${entry.contractName} (#${index})`;
+    if (!ADDRESS_REGEX.test(entry.address)) {
+      issues.push(`${label} has invalid address ${entry.address}`);
+    } else if (seenAddresses.has(entry.address.toLowerCase())) {
+      issues.push(`${label} address ${entry.address} is recorded twice`);
+    }
+    seenAddresses.add(entry.address.toLowerCase());
+
+    if (
+      entry.transactionHash !== null &&
+      !TRANSACTION_HASH_REGEX.test(entry.transactionHash)
+    ) {
+      issues.push(
+        `${label} has invalid transaction hash ${entry.transactionHash}`
+      );
+    }
+    if (entry.deployer !== null && !ADDRESS_REGEX.test(entry.deployer)) {
+      issues.push(`${label} has invalid deployer ${entry.deployer}`);
+    }
+    if (
+      entry.role !== undefined &&
+      !Object.values(DeploymentRole).includes(entry.role)
+    ) {
+      issues.push(`${label} has unknown role ${entry.role}`);
+    }
+    for (const [libraryName, libraryAddress] of Object.entries(
+      entry.libraries
+    )) {
+      if (!ADDRESS_REGEX.test(libraryAddress)) {
+        issues.push(
+          `${label} links ${libraryName} at invalid address ${libraryAddress}`
+        );
+      }
+    }
+  });
+
+  // manifests recorded after the migration from DEPLOYMENTS.md must contain
+  // every detail of the deployment
+  contracts
+    .filter((entry) => entry.transactionHash !== null)
+    .forEach((entry) => {
+      if (!entry.deployer && !entry.factory) {
+        issues.push(`${entry.contractName} is missing its deployer`);
+      }
+    });
+
+  return issues.map((issue) => `${network}/${environment}: ${issue}`);
+}
+
+function main() {
+  const manifests = readAllDeploymentManifests();
+  const issues: string[] = [];
+
+  for (const { manifestPath, manifest } of manifests) {
+    if (
+      getDeploymentManifestPath(manifest.network, manifest.environment) !==
+      manifestPath
+    ) {
+      issues.push(
+        `${path.relative(
+          DEPLOYMENT_MANIFESTS_DIRECTORY,
+          manifestPath
+        )}: manifest network or environment does not match its location`
+      );
+    }
+    issues.push(...checkManifest(manifest));
+  }
+
+  // derived artifacts must be regenerated whenever a manifest changes
+  if (
+    fs.readFileSync(SDK_ADDRESS_BOOK_FILE, "utf8") !== renderSdkAddressBook()
+  ) {
+    issues.push(
+      "SDK address book is out of date, run `yarn generate:sdk-address-book`"
+    );
+  }
+
+  for (const issue of issues) {
+    console.log(`[ERROR] ${issue}`);
+  }
+  if (issues.length > 0) {
+    console.log(`[ERROR] Found ${issues.length} deployment manifest issues`);
+    process.exit(1);
+  }
+  console.log(
+    `[INFO] All ${manifests.length} deployment manifests are consistent`
+  );
+}
+
+main();
@@ -0,0 +1,275 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import fs from "fs";
+import path from "path";
+import {
+  DEPLOYMENT_CHAIN_IDS,
+  DeploymentManifest,
+  DeploymentManifestEntry,
+  DeploymentRole,
+  normalizeDeploymentEnvironment,
+  writeDeploymentManifest,
+} from "../util/deployment-manifest";
+
+/**
+ * This script seeds the deployment manifests in `deployments/manifests` from
+ * the DEPLOYMENTS.md files that deployment scripts appended to before
+ * manifests were introduced. Legacy logs did not record transaction hashes,
+ * deployers or compiler settings, so those are left null.
+ * It was run once to migrate to manifests, and is kept for reference. It
+ * overwrites existing manifests, so must not be re-run once new deployments
+ * have been recorded.
+ */
+
+const DEPLOYMENTS_DIRECTORY = path.join(__dirname, "../../deployments");
+
+// deployment log directories in the legacy DEPLOYMENTS.md format
+const LEGACY_DEPLOYMENT_LOG_DIRECTORIES = [
+  "minter-filter",
+  "randomizer",
+  "splits",
+  "minters",
+];
+
+// roles of the contracts deployed by the legacy deployment scripts
+const LEGACY_CONTRACT_ROLES: [RegExp, DeploymentRole][] = [
+  [/^MinterFilter/, DeploymentRole.SharedMinterFilter],
+  [/^SharedRandomizer/, DeploymentRole.SharedRandomizer],
+  [/^SplitAtomicFactory/, DeploymentRole.SplitAtomicFactory],
+];
+
+// active contracts that were deployed without a DEPLOYMENTS.md entry, as
+// previously recorded in MAIN_CONFIG
+const LEGACY_ACTIVE_CONTRACTS: {
+  [network: string]: {
+    [environment: string]: [DeploymentRole, string, string][];
+  };
+} = {
+  mainnet: {
+    mainnet: [
+      [
+        DeploymentRole.EngineFactory,
+        "EngineFactoryV0",
+        "0x000000004058B5159ABB5a3Dd8cf775A7519E75F",
+      ],
+      [
+        DeploymentRole.UniversalBytecodeStorageReader,
+        "UniversalBytecodeStorageReader",
+        "0x000000000000A791ABed33872C44a3D215a3743B",
+      ],
+      [
+        DeploymentRole.DependencyRegistry,
+        "DependencyRegistryV0",
+        "0x37861f95882ACDba2cCD84F5bFc4598e2ECDDdAF",
+      ],
+    ],
+  },
+  arbitrum: {
+    arbitrum: [
+      [
+        DeploymentRole.EngineFactory,
+        "EngineFactoryV0",
+        "0x000000007566E6566771d28E91bD465bEE8426a5",
+      ],
+      [
+        DeploymentRole.UniversalBytecodeStorageReader,
+        "UniversalBytecodeStorageReader",
+        "0x000000005795aA93c8E5De234Ff0DE0000C98946",
+      ],
+    ],
+  },
+  base: {
+    base: [
+      [
+        DeploymentRole.EngineFactory,
+        "EngineFactoryV0",
+        "0x00000BA55cae9d000000b156875D91854124fd7e",
+      ],
+      [
+        DeploymentRole.UniversalBytecodeStorageReader,
+        "UniversalBytecodeStorageReader",
+        "0x00000000000E85B0806ABB37B6C9d80A7100A0C5",
+      ],
+    ],
+  },
+  sepolia: {
+    staging: [
+      [
+        DeploymentRole.EngineFactory,
+        "EngineFactoryV0",
+        "0x0000A9AA9b00F46c009f15b3F68122e1878D7d18",
+      ],
+      [
+        DeploymentRole.UniversalBytecodeStorageReader,
+        "UniversalBytecodeStorageReader",
+        "0x000000069EbaecF0d656897bA5527f2145560086",
+      ],
+      [
+        DeploymentRole.DependencyRegistry,
+        "DependencyRegistryV0",
+        "0xEFA7Ef074A6E90a99fba8bAd4dCf337ef298387f",
+      ],
+    ],
+    dev: [
+      [
+        DeploymentRole.EngineFactory,
+        "EngineFactoryV0",
+        "0x000000C969c34e95C9b9F24ea7bD597Af554a1c2",
+      ],
+      [
+        DeploymentRole.UniversalBytecodeStorageReader,
+        "UniversalBytecodeStorageReader",
+        "0x000000069EbaecF0d656897bA5527f2145560086",
+      ],
+      [
+        DeploymentRole.DependencyRegistry,
+        "DependencyRegistryV0",
+        "0x5Fcc415BCFb164C5F826B5305274749BeB684e9b",
+      ],
+    ],
+  },
+};
+
+function createLegacyEntry(
+  contractName: string,
+  address: string,
+  deployedAt: string | null,
+  constructorArgs: string[]
+): DeploymentManifestEntry {
+  const role = LEGACY_CONTRACT_ROLES.find(([contractNameRegex]) =>
+    contractNameRegex.test(contractName)
+  )?.[1];
+  return {
+    contractName,
+    address,
+    ...(role ? { role } : {}),
+    transactionHash: null,
+    deployer: null,
+    deployedAt,
+    compiler: null,
+    constructorArgs,
+    libraries: {},
+  };
+}
+
+/**
+ * Parses the entries of a legacy DEPLOYMENTS.md file, in the order they were
+ * deployed.
+ */
+function parseDeploymentsMarkdown(filePath: string): {
+  network: string;
+  environment: string;
+  entry: DeploymentManifestEntry;
+}[] {
+  const contents = fs.readFileSync(filePath, "utf8");
+
+  return contents.split(/^---$/m).flatMap((section) => {
+    const network = section.match(/\*\*Network:\*\* (\S+)/)?.[1];
+    const environment = section.match(/\*\*Environment:\*\* (\S+)/)?.[1];
+    const deployedAt = section.match(/^Date: (\S+)/m)?.[1] ?? null;
+    const deploymentArgs = section.match(/\*\*Deployment Args:\*\* (\S*)/)?.[1];
+    const factoryDeploymentArgs = section.match(
+      /\*\*Factory Deployment Args:\*\* (\S*)/
+    )?.[1];
+    const contracts = Array.from(
+      section.matchAll(
+        /\*\*(\w+):\*\* https:\/\/\S+\/address\/(0x[0-9a-fA-F]{40})/g
+      )
+    );
+
+    if (!network || !environment) {
+      return [];
+    }
+
+    return contracts.map(([, contractName, address]) => {
+      const args = contractName.includes("Factory")
+        ? (factoryDeploymentArgs ?? deploymentArgs)
+        : contracts.length === 1
+          ? deploymentArgs
+          : undefined;
+      return {
+        network,
+        environment,
+        entry: createLegacyEntry(
+          contractName,
+          address,
+          deployedAt,
+          args ? args.split(",") : []
+        ),
+      };
+    });
+  });
+}
+
+function main() {
+  const manifests: { [manifestKey: string]: DeploymentManifest } = {};
+  const getManifest = (network: string, environment: string) => {
+    const normalizedEnvironment = normalizeDeploymentEnvironment(environment);
+    const manifestKey = `${network}/${normalizedEnvironment}`;
+    manifests[manifestKey] ??= {
+      network,
+      environment: normalizedEnvironment,
+      chainId: DEPLOYMENT_CHAIN_IDS[network],
+      contracts: [],
+    };
+    return manifests[manifestKey];
+  };
+
+  for (const logDirectory of LEGACY_DEPLOYMENT_LOG_DIRECTORIES) {
+    const environmentDirectories = fs
+      .readdirSync(path.join(DEPLOYMENTS_DIRECTORY, logDirectory))
+      .filter((directory) =>
+        fs.existsSync(
+          path.join(
+            DEPLOYMENTS_DIRECTORY,
+            logDirectory,
+            directory,
+            "DEPLOYMENTS.md"
+          )
+        )
+      );
+    for (const directory of environmentDirectories) {
+      const entries = parseDeploymentsMarkdown(
+        path.join(
+          DEPLOYMENTS_DIRECTORY,
+          logDirectory,
+          directory,
+          "DEPLOYMENTS.md"
+        )
+      );
+      for (const { network, environment, entry } of entries) {
+        getManifest(network, environment).contracts.push(entry);
+      }
+    }
+  }
+
+  // legacy logs were written per contract type, so order by deployment date
+  for (const manifest of Object.values(manifests)) {
+    manifest.contracts.sort((a, b) =>
+      (a.deployedAt as string).localeCompare(b.deployedAt as string)
+    );
+  }
+
+  for (const [network, environments] of Object.entries(
+    LEGACY_ACTIVE_CONTRACTS
+  )) {
+    for (const [environment, activeContracts] of Object.entries(environments)) {
+      for (const [role, contractName, address] of activeContracts) {
+        getManifest(network, environment).contracts.push({
+          ...createLegacyEntry(contractName, address, null, []),
+          role,
+        });
+      }
+    }
+  }
+
+  for (const manifest of Object.values(manifests)) {
+    const manifestPath = writeDeploymentManifest(manifest);
+    console.log(
+      `[INFO] ${manifest.contracts.length} contracts imported to ${manifestPath}`
+    );
+  }
+}
+
+main();
@@ -1,24 +1,31 @@
 // SPDX-License-Identifier: LGPL-3.0-only
 // Created By: Art Blocks Inc.
 
-import hre, { ethers } from "hardhat";
+import { ethers } from "hardhat";
 import { EngineFactoryV0__factory } from "../../contracts";
-import { getConfigInputs, getNetworkName } from "../../util/utils";
-import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
-import { getDeployerWallet } from "../../util/get-deployer-wallet";
-import { Wallet } from "ethers";
-import Safe, { EthersAdapter } from "@safe-global/protocol-kit";
-import SafeApiKit from "@safe-global/api-kit";
-import { MetaTransactionData } from "@gnosis.pm/safe-core-sdk-types";
+import { getNetworkName } from "../../util/utils";
+import { TransactionReceipt } from "@ethersproject/abstract-provider";
+import { MetaTransactionData } from "@safe-global/safe-core-sdk-types";
 import {
   getActiveSharedRandomizer,
   getActiveSharedMinterFilter,
   getActiveSharedSplitProvider,
   getActiveEngineFactoryAddress,
-  ZERO_ADDRESS,
   getActiveCoreRegistry,
   getProdRenderProviderPaymentAddress,
 } from "../../util/constants";
+import {
+  DeployNetworkConfig,
+  EngineContractDeployConfig,
+} from "../../deploy/deploy-config-schemas";
+import {
+  isDeploymentRehearsal,
+  rehearseSafeTransactions,
+} from "../../deploy/deploy-rehearsal";
+import {
+  getLedgerOrDeployerSigner,
+  submitSafeTransactions,
+} from "../../util/safe-proposals";
 
 /**
  * This script was created to batch deploy new Engine and Engine Flex contracts
@@ -27,6 +34,10 @@ import {
  * `post-batch-create-engine-contract` script to sync off-chain data.
  * IMPORTANT: This configures the core contract to use the active shared minter
  * filter and active shared randomizer as defined in constants.ts
+ * It is run by the `ab:deploy engine-contracts` task, which validates the
+ * deployment config and Safe settings before calling it.
+ * Returns the addresses of the created engine contracts, which are not known
+ * when their creation is proposed to a Safe outside of a rehearsal.
  */
 //////////////////////////////////////////////////////////////////////////////
 // CONFIG BEGINS HERE
@@ -36,90 +47,19 @@ import {
 // CONFIG ENDS HERE
 //////////////////////////////////////////////////////////////////////////////
 
-async function main() {
+export async function createEngineContracts(
+  deployConfigDetailsArray: EngineContractDeployConfig[],
+  deployNetworkConfiguration: DeployNetworkConfig
+): Promise<string[]> {
   const networkName = await getNetworkName();
-
-  // Get network and safe configuration
-  const { deployConfigDetailsArray, deployNetworkConfiguration } =
-    await getConfigInputs(
-      "deployments/engine/V3/studio/deployment-config.template.ts",
-      "Batch Engine deployment config file"
-    );
-
-  if (networkName !== deployNetworkConfiguration?.network) {
-    throw new Error(
-      `network name ${networkName} does not match expected network name ${deployNetworkConfiguration?.network}`
-    );
-  }
-
   console.log(`[INFO] Deploying to network: ${networkName}`);
+  console.log(
+    `[INFO] Deploying to environment: ${deployNetworkConfiguration.environment}`
+  );
 
-  // verify intended environment
-  if (process.env.NODE_ENV === deployNetworkConfiguration.environment) {
-    console.log(
-      `[INFO] Deploying to environment: ${deployNetworkConfiguration.environment}`
-    );
-  } else {
-    throw new Error(
-      `[ERROR] The deployment config indicates environment ${deployNetworkConfiguration.environment}, but script is being run in environment ${process.env.NODE_ENV}`
-    );
-  }
-
-  if (
-    deployNetworkConfiguration.useGnosisSafe &&
-    (!deployNetworkConfiguration.safeAddress ||
-      !deployNetworkConfiguration.transactionServiceUrl)
-  ) {
-    throw new Error(
-      `Must provide both safeAddress and transactionServiceUrl when using gnosis safe`
-    );
-  }
-
-  let signer: SignerWithAddress | Wallet;
-  if (deployNetworkConfiguration.useLedgerSigner) {
-    // Ethers adapter reuires a signer with a provider so create one here
-    const ledgerAddress = hre.network.config.ledgerAccounts[0];
-    signer = await ethers.getSigner(ledgerAddress);
-    console.log("using wallet", await signer.getAddress());
-  } else {
-    const deployerWallet = getDeployerWallet();
-
-    if (!deployerWallet) {
-      throw new Error("Deployer wallet not found");
-    }
-
-    signer = deployerWallet.connect(ethers.provider);
-  }
-
-  let gnosisSetup: {
-    ethAdapter: EthersAdapter;
-    safeApiKit: SafeApiKit;
-    protocolKit: Safe;
-  } | null = null;
-
-  // Gnosis sdk setup
-  if (deployNetworkConfiguration.useGnosisSafe) {
-    const ethAdapter = new EthersAdapter({
-      ethers,
-      signerOrProvider: signer,
-    });
-
-    const safeApiKit = new SafeApiKit({
-      txServiceUrl: deployNetworkConfiguration.transactionServiceUrl,
-      ethAdapter,
-    });
-
-    const protocolKit = await Safe.create({
-      ethAdapter,
-      safeAddress: deployNetworkConfiguration.safeAddress,
-    });
-
-    gnosisSetup = {
-      ethAdapter,
-      safeApiKit,
-      protocolKit,
-    };
-  }
+  const signer = await getLedgerOrDeployerSigner(
+    deployNetworkConfiguration.useLedgerSigner
+  );
 
   //////////////////////////////////////////////////////////////////////////////
   // ACTION BEGINS HERE
@@ -185,6 +125,19 @@ async function main() {
   const splitProviderAddress = getActiveSharedSplitProvider();
 
   const txData: MetaTransactionData[] = [];
+  const engineContractAddresses: string[] = [];
+  const collectEngineContractAddresses = (receipt: TransactionReceipt) => {
+    receipt.logs
+      .filter(
+        (log) =>
+          log.address.toLowerCase() === engineFactoryAddress.toLowerCase()
+      )
+      .map((log) => engineFactory.interface.parseLog(log))
+      .filter((event) => event.name === "EngineContractCreated")
+      .forEach((event) =>
+        engineContractAddresses.push(event.args.engineContract)
+      );
+  };
 
   for (const engineContractConfiguration of deployConfigDetailsArray) {
     const {
@@ -203,99 +156,6 @@ async function main() {
       salt,
     } = engineContractConfiguration;
 
-    // require that productClass is defined
-    if (!productClass) {
-      throw new Error(`[ERROR] productClass must be defined`);
-    }
-
-    // validate adminACLContract is defined
-    if (adminACLContract === undefined) {
-      throw new Error(`[ERROR] Admin ACL Contract must be defined`);
-    }
-
-    // verify a sensible AdminACL input config
-    // ensure that the adminACL contract name is valid (i.e. the following doesn't throw)
-    await ethers.getContractFactory("AdminACLV0");
-    if (adminACLContract !== ZERO_ADDRESS) {
-      // ensure a valid address
-      ethers.utils.isAddress(adminACLContract);
-    }
-
-    // validate configuration values
-    // verify that core contract type is either 0 for Engine or 1 for Engine Flex
-    if (engineCoreContractType !== 0 && engineCoreContractType !== 1) {
-      throw new Error(
-        `[ERROR] The engine core contract type should be 0 for Engine or 1 for Engine Flex`
-      );
-    }
-
-    // verify that token name and symbol are populated
-    if (!tokenName?.length || !tokenTicker?.length) {
-      throw new Error(`[ERROR] The token name and symbol should be populated`);
-    }
-
-    // validate that the render provider addresses is not null
-    if (
-      !renderProviderAddress?.length ||
-      (renderProviderAddress.length > 0 &&
-        renderProviderAddress === ZERO_ADDRESS)
-    ) {
-      throw new Error(`[ERROR] The render provider address should not be null`);
-    }
-
-    // validate that the Admin ACL and super admin address are as expected
-    if (
-      adminACLContract === ZERO_ADDRESS &&
-      newSuperAdminAddress === ZERO_ADDRESS
-    ) {
-      throw new Error(
-        `[ERROR] If using an existing Admin ACL Contract, the super admin address must be null.
-        If deploying a new Admin ACL Contract, the super admin address must not be null.`
-      );
-    }
-
-    // validate platform provider address is null if nullPlatformProvider is true
-    if (nullPlatformProvider && platformProviderAddress !== ZERO_ADDRESS) {
-      throw new Error(
-        `[ERROR] If nullPlatformProvider is set to true, the platform provider
-            address must be the zero address.`
-      );
-    }
-
-    // validate super admin address is defined
-    if (!newSuperAdminAddress) {
-      throw new Error(`[ERROR] newSuperAdminAddress must be defined`);
-    }
-
-    // validate starting project id is defined
-    if (startingProjectId === undefined) {
-      throw new Error(`[ERROR] starting project ID must be defined`);
-    }
-
-    // validate autoApproveArtistSplitProposals is defined
-    if (autoApproveArtistSplitProposals === undefined) {
-      throw new Error(
-        `[ERROR] auto approve artist split proposals must be defined`
-      );
-    }
-
-    // validate nullPlatformProvider is defined
-    if (nullPlatformProvider === undefined) {
-      throw new Error(`[ERROR] null platform provider must be defined`);
-    }
-
-    // validate allowArtistProjectActivation is defined
-    if (allowArtistProjectActivation === undefined) {
-      throw new Error(
-        `[ERROR] allow artist project activation must be defined`
-      );
-    }
-
-    // validate platform provider address is defined
-    if (!platformProviderAddress) {
-      throw new Error(`[ERROR] platformProviderAddress must be defined`);
-    }
-
     // validate render provider address meets requirements
     // get the required render provider payment address, if required (e.g. required on prod networks)
     const requiredRenderProviderAddress = getProdRenderProviderPaymentAddress(
@@ -354,7 +214,7 @@ async function main() {
         adminACLContract,
         inputSalt
       );
-      await tx.wait();
+      collectEngineContractAddresses(await tx.wait());
       console.log(
         `Create engine contract called with configuration
         -- Token Name: ${tokenName}
@@ -373,34 +233,19 @@ async function main() {
     }
   }
 
-  // Use SDK to propose transactions if we're using a gnosis safe
-  if (gnosisSetup) {
-    const nonce = await gnosisSetup.protocolKit.getNonce();
-    const safeTransaction = await gnosisSetup.protocolKit.createTransaction({
-      safeTransactionData: txData,
-      options: {
-        nonce,
-      },
-    });
-    const senderAddress = await signer.getAddress();
-    const safeTxHash =
-      await gnosisSetup.protocolKit.getTransactionHash(safeTransaction);
-    const signature =
-      await gnosisSetup.protocolKit.signTransactionHash(safeTxHash);
-    await gnosisSetup.safeApiKit.proposeTransaction({
-      safeAddress: await gnosisSetup.protocolKit.getAddress(),
-      safeTransactionData: safeTransaction.data,
-      safeTxHash,
-      senderAddress,
-      senderSignature: signature.data,
+  // @dev rehearsals execute Safe transactions directly from the Safe instead
+  // of proposing them
+  if (deployNetworkConfiguration.useGnosisSafe && isDeploymentRehearsal()) {
+    const receipts = await rehearseSafeTransactions(
+      deployNetworkConfiguration.safeAddress,
+      txData
+    );
+    receipts.forEach(collectEngineContractAddresses);
+  } else if (deployNetworkConfiguration.useGnosisSafe) {
+    await submitSafeTransactions(signer, deployNetworkConfiguration, txData, {
+      name: `create-engine-contracts-${networkName}-${deployNetworkConfiguration.environment}`,
     });
-    console.log("Proposed transactions sent to gnosis safe");
   }
-}
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+  return engineContractAddresses;
+}
@@ -2,15 +2,13 @@
 // Created By: Art Blocks Inc.
 
 import { ethers } from "hardhat";
-import fs from "fs";
-import path from "path";
 import CoreRegistryFactory from "../../../../artifacts/contracts/engine-registry/CoreRegistryV1.sol/CoreRegistryV1.json";
 // hide nuisance logs about event overloading
 import { Logger } from "@ethersproject/logger";
 Logger.setLogLevel(Logger.levels.ERROR);
 
 // delay to avoid issues with reorgs and tx failures
-import { delay, getAppPath, getNetworkName } from "../../../util/utils";
+import { delay, getNetworkName } from "../../../util/utils";
 import {
   getActiveCoreRegistry,
   EXTRA_DELAY_BETWEEN_TX,
@@ -22,9 +20,8 @@ import {
  * This script was created to run post-deployment steps for the EngineFactoryV0.
  * The Engine implementation, Engine Flex implementation, Core Registry, and Engine Factory
  * should already be deployed following the steps in `EngineFactoryV0.md`.
- * This script: transfers ownership of the Core Registry to the Engine Factory contract,
- * updates the core registry on the shared minter filter, and initiates the DEPLOYMENT
- * log in the deployments directory.
+ * The Engine Factory must already be recorded in the network's deployment manifest.
+ * This script: transfers ownership of the Core Registry to the Engine Factory contract.
  */
 async function main() {
   // manually fill out script details
@@ -74,47 +71,15 @@ async function main() {
 
   await tx.wait();
 
-  //////////////////////////////////////////////////////////////////////////////
-  // DEPLOYMENTS.md BEGINS HERE
-  //////////////////////////////////////////////////////////////////////////////
-
-  const appPath = await getAppPath();
-  const outputPath = path.join(
-    appPath,
-    `deployments/engine/V3/studio/${config.environment}`
+  console.log(
+    `[INFO] Ownership of Core Registry ${coreRegistryAddress} transferred to Engine Factory ${engineFactoryAddress}`
   );
-  const outputSummaryFile = path.join(outputPath, "DEPLOYMENTS.md");
-  const etherscanSubdomain = networkName === "mainnet" ? "" : `${networkName}.`;
-  const outputMd = `
-# Engine Factory Deployment
-
-Date: ${new Date().toISOString()}
-
-## **Network:** ${networkName}
-
-## **Environment:** ${config.environment}
-
-**Engine Implementation:** https://${etherscanSubdomain}etherscan.io/address/${activeEngineImplementationAddress}#code
-
-**Engine Flex Implementation:** https://${etherscanSubdomain}etherscan.io/address/${activeEngineFlexImplementationAddress}#code
-
-**Engine Factory:** https://${etherscanSubdomain}etherscan.io/address/${engineFactoryAddress}#code
-
-**Core Registry:** https://${etherscanSubdomain}etherscan.io/address/${coreRegistryAddress}#code
-
-Ownership on Core Registry transferred to the Engine Factory
-
----
-
-`;
-
-  fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
   console.log(
-    `[INFO] Deployment details written/appended to ${outputSummaryFile}`
+    `[INFO] Engine implementation: ${activeEngineImplementationAddress}, Engine Flex implementation: ${activeEngineFlexImplementationAddress}`
   );
 
   //////////////////////////////////////////////////////////////////////////////
-  // DEPLOYMENTS.md ENDS HERE
+  // UPDATE ENDS HERE
   //////////////////////////////////////////////////////////////////////////////
   console.log(`[INFO] Done!`);
 
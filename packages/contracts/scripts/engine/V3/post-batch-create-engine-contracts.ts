@@ -2,11 +2,7 @@
 // Created By: Art Blocks Inc.
 
 import { ethers } from "hardhat";
-import fs from "fs";
-import path from "path";
 import EngineFactory from "../../../artifacts/contracts/engine/V3/EngineFactoryV0.sol/EngineFactoryV0.json";
-import GenArt721CoreV3_Engine from "../../../artifacts/contracts/engine/V3/GenArt721CoreV3_Engine.sol/GenArt721CoreV3_Engine.json";
-import GenArt721CoreV3_Engine_Flex from "../../../artifacts/contracts/engine/V3/GenArt721CoreV3_Engine_Flex.sol/GenArt721CoreV3_Engine_Flex.json";
 // hide nuisance logs about event overloading
 import { Logger } from "@ethersproject/logger";
 Logger.setLogLevel(Logger.levels.ERROR);
@@ -15,34 +11,29 @@ Logger.setLogLevel(Logger.levels.ERROR);
 import { delay, getConfigInputs, getNetworkName } from "../../util/utils";
 import { EXTRA_DELAY_BETWEEN_TX } from "../../util/constants";
 import { syncContractMetadataAfterDeploy } from "../../util/graphql-utils";
+import { recordDeployment } from "../../util/record-deployment";
+import { verifyDeployments } from "../../util/verification";
 import { createEngineBucket } from "../../util/aws_s3";
-import {
-  getActiveEngineImplementations,
-  getActiveEngineFactoryAddress,
-  getActiveCoreRegistry,
-} from "../../util/constants";
+import { getActiveEngineFactoryAddress } from "../../util/constants";
 /**
  * This script was created to log, setup the S3 bucket, and sync any metadata off-chain
  * post-deployment of any Engine and Engine Flex contracts using the EngineFactoryV0.
+ * The created contracts are recorded in the deployment manifest, and verified
+ * on the block explorer as clones of their implementation contract.
  * The configuration used to create the Engine contracts should be updated with the
  * correct transaction hash and then used as input to this function.
  */
 async function main() {
   // get configuration details
-  const {
-    deployConfigDetailsArray,
-    deployNetworkConfiguration,
-    inputFileDirectory,
-  } = await getConfigInputs(
-    "deployments/engine/V3/studio/deployment-config.template.ts",
-    "Batch Engine deployment config file"
-  );
+  const { deployConfigDetailsArray, deployNetworkConfiguration } =
+    await getConfigInputs(
+      "deployments/engine/V3/studio/deployment-config.template.ts",
+      "Batch Engine deployment config file"
+    );
 
   // get accounts and network
   const [deployer] = await ethers.getSigners();
   const networkName = await getNetworkName();
-  const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-  const etherscanSubdomain = networkName === "mainnet" ? "" : `${networkName}.`;
 
   if (!deployNetworkConfiguration?.environment) {
     throw new Error(
@@ -55,39 +46,9 @@ async function main() {
     deployNetworkConfiguration.environment
   );
 
-  const {
-    activeEngineImplementationAddress,
-    activeEngineFlexImplementationAddress,
-  } = await getActiveEngineImplementations(
-    networkName,
-    deployNetworkConfiguration.environment
-  );
-
-  const coreRegistryAddress = await getActiveCoreRegistry(
-    networkName,
-    deployNetworkConfiguration.environment
-  );
-
-  let outputMd = `
-  # Batch Engine and Engine Flex Contract Deployments
-  
-  Date: ${new Date().toISOString()}
-  
-  ## **Network:** ${networkName}
-  
-  ## **Environment:** ${deployNetworkConfiguration.environment}
-  
-  **Engine Implementation:** https://${etherscanSubdomain}etherscan.io/address/${activeEngineImplementationAddress}#code
-  
-  **Engine Flex Implementation:** https://${etherscanSubdomain}etherscan.io/address/${activeEngineFlexImplementationAddress}#code
-  
-  **Engine Factory:** https://${etherscanSubdomain}etherscan.io/address/${engineFactoryAddress}#code
-  
-  **Core Registry:** https://${etherscanSubdomain}etherscan.io/address/${coreRegistryAddress}#code
-  
-  ---
-
-  `;
+  // Engine contracts created by the factory, to be recorded in the deployment
+  // manifest
+  const engineContracts: { contractName: string; address: string }[] = [];
 
   const { transactionHash } = deployNetworkConfiguration;
 
@@ -100,16 +61,8 @@ async function main() {
   for (let i = 0; i < deployConfigDetailsArray.length; i++) {
     const {
       engineCoreContractType,
-      artistName,
       tokenName,
       tokenTicker,
-      renderProviderAddress,
-      platformProviderAddress,
-      newSuperAdminAddress,
-      startingProjectId,
-      autoApproveArtistSplitProposals,
-      nullPlatformProvider,
-      allowArtistProjectActivation,
       defaultVerticalName,
     } = deployConfigDetailsArray[i];
 
@@ -164,24 +117,6 @@ async function main() {
           `[ERROR] The default vertical cannot be flex if not using the flex engine`
         );
       }
-      // Get Admin ACL Address on Engine Contract
-      let engineContract;
-      if (engineCoreContractType === 0) {
-        engineContract = new ethers.Contract(
-          engineContractAddress,
-          GenArt721CoreV3_Engine.abi,
-          deployer
-        );
-      } else {
-        engineContract = new ethers.Contract(
-          engineContractAddress,
-          GenArt721CoreV3_Engine_Flex.abi,
-          deployer
-        );
-      }
-
-      const adminACLContractAddress = await engineContract.adminACLContract();
-
       // create image bucket
       let imageBucketCreated = false;
       // For studio contracts use token ticker as bucket name, otherwise use token
@@ -189,8 +124,8 @@ async function main() {
       const bucketNameBase =
         defaultVerticalName === "studio" ? tokenTicker : tokenName;
       // @dev initial bucket name of TBD to handle case of failure to generate bucket.
-      // if bucket generation fails, TBD still enables output of DEPLOYMENTS file,
-      // while making it clear that the bucket was not created
+      // if bucket generation fails, TBD makes it clear that the bucket was not
+      // created
       let bucketName = "TBD";
       try {
         const result = await createEngineBucket(bucketNameBase, networkName);
@@ -213,49 +148,49 @@ async function main() {
         bucketName,
         defaultVerticalName
       );
-      // log deployment info
-      outputMd += `
-        ## Deployment: ${engineCoreContractType === 0 ? "Engine" : "Engine Flex"} | ${engineContractAddress}
-  
-        **Engine Contract:** https://${etherscanSubdomain}etherscan.io/address/${engineContractAddress}#code
-        
-        **Metadata**
-        - **Starting Project Id:** ${startingProjectId}
-        - **Artist Name:** ${artistName}
-        - **Token Name:** ${tokenName}
-        - **Token Ticker:** ${tokenTicker}
-        - **Auto Approve Artist Split Proposals:** ${autoApproveArtistSplitProposals}
-        - **Render Provider Address, Primary Sales:** ${renderProviderAddress}
-        - **Platform Provider Address, Primary Sales:** ${platformProviderAddress}
-        - **Null Platform Provider:** ${nullPlatformProvider}
-        - **Allow Artist Project Activation:** ${allowArtistProjectActivation}
-        - **Admin ACL Contract:** ${adminACLContractAddress}
-        - **Super Admin Address:** ${newSuperAdminAddress}        
-
-      **Other**
-
-      - **Starting project ID:** ${startingProjectId}
-      - **Image Bucket:** ${bucketName}
-        
-        ---
-      
-        `;
+      engineContracts.push({
+        contractName:
+          engineCoreContractType === 0
+            ? "GenArt721CoreV3_Engine"
+            : "GenArt721CoreV3_Engine_Flex",
+        address: engineContractAddress,
+      });
     } else {
       console.log("Error: No contract address found in event args");
     }
   }
 
   //////////////////////////////////////////////////////////////////////////////
-  // DEPLOYMENTS.md BEGINS HERE
+  // DEPLOYMENT MANIFEST BEGINS HERE
   //////////////////////////////////////////////////////////////////////////////
 
-  fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-  console.log(
-    `[INFO] Deployment details written/appended to ${outputSummaryFile}`
-  );
+  for (const { contractName, address } of engineContracts) {
+    await recordDeployment({
+      networkName,
+      environment: deployNetworkConfiguration.environment,
+      contractName,
+      address,
+      transactionHash,
+      factory: engineFactoryAddress,
+    });
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // DEPLOYMENT MANIFEST ENDS HERE
+  //////////////////////////////////////////////////////////////////////////////
+
+  //////////////////////////////////////////////////////////////////////////////
+  // VERIFICATION BEGINS HERE
+  //////////////////////////////////////////////////////////////////////////////
+
+  await verifyDeployments({
+    networkName,
+    environment: deployNetworkConfiguration.environment,
+    addresses: engineContracts.map(({ address }) => address),
+  });
 
   //////////////////////////////////////////////////////////////////////////////
-  // DEPLOYMENTS.md ENDS HERE
+  // VERIFICATION ENDS HERE
   //////////////////////////////////////////////////////////////////////////////
   console.log(`[INFO] Done!`);
 
@@ -1,15 +1,15 @@
 // SPDX-License-Identifier: LGPL-3.0-only
 // Created By: Art Blocks Inc.
 
-import hre, { ethers } from "hardhat";
+import { ethers } from "hardhat";
 // flagship
 import { GenArt721CoreV3__factory } from "../contracts/factories/GenArt721CoreV3__factory";
 import { AdminACLV0__factory } from "../contracts/factories/AdminACLV0__factory";
-import fs from "fs";
-import path from "path";
 
 // delay to avoid issues with reorgs and tx failures
 import { delay, getConfigInputs, getNetworkName } from "../util/utils";
+import { recordDeployment } from "../util/record-deployment";
+import { verifyDeployments } from "../util/verification";
 const EXTRA_DELAY_BETWEEN_TX = 5000; // ms]
 
 import {
@@ -27,11 +27,10 @@ import {
 
 async function main() {
   // get deployment configuration details
-  const { deployConfigDetailsArray, deploymentConfigFile, inputFileDirectory } =
-    await getConfigInputs(
-      "deployments/flagship/V3/deployment-config.template.ts",
-      "Flagship deployment config file"
-    );
+  const { deployConfigDetailsArray } = await getConfigInputs(
+    "deployments/flagship/V3/deployment-config.template.ts",
+    "Flagship deployment config file"
+  );
 
   if (deployConfigDetailsArray.length > 1) {
     throw new Error(
@@ -45,7 +44,6 @@ async function main() {
   const networkName = await getNetworkName();
 
   const tokenName = deployDetails.tokenName;
-  const tokenTicker = deployDetails.tokenTicker;
 
   //////////////////////////////////////////////////////////////////////////////
   // INPUT VALIDATION BEGINS HERE
@@ -260,59 +258,14 @@ async function main() {
   //////////////////////////////////////////////////////////////////////////////
 
   //////////////////////////////////////////////////////////////////////////////
-  // VERIFICATION BEGINS HERE
-  //////////////////////////////////////////////////////////////////////////////
-  const standardVerify = "yarn hardhat verify";
-  try {
-    console.log(`[INFO] Verifying core contract contract deployment...`);
-    await hre.run("verify:verify", {
-      address: genArt721Core.address,
-      constructorArguments: [
-        tokenName, // name
-        deployDetails.tokenTicker, // ticker
-        randomizerAddress, // randomizer
-        adminACLAddress, // admin acl
-        deployDetails.startingProjectId, // starting project id
-      ],
-    });
-    console.log(
-      `[INFO] Core contract verified on Etherscan at ${genArt721Core.address}}`
-    );
-  } catch (error) {
-    console.error(
-      `[ERROR] Failed to verify core contract deployment, please verify manually!`
-    );
-    console.error(error);
-    console.log(
-      `[ACTION] Save the following constructor args config file to a constructor-args.js file, then verify core contract deployment with:`
-    );
-    console.log(
-      `module.exports = [
-      "${tokenName}", // name
-      "${tokenTicker}", // ticker
-      "${randomizerAddress}", // randomizer
-      "${adminACLAddress}", // admin acl
-      ${deployDetails.startingProjectId}, // starting project id
-    ];`
-    );
-    console.log(
-      `${standardVerify} --network ${networkName} --constructor-args constructor-args.js ${genArt721Core.address}`
-    );
-  }
-
-  //////////////////////////////////////////////////////////////////////////////
-  // VERIFICATION ENDS HERE
-  //////////////////////////////////////////////////////////////////////////////
-
-  //////////////////////////////////////////////////////////////////////////////
-  // DEPLOYMENTS.md BEGINS HERE
+  // DEPLOYMENT MANIFEST BEGINS HERE
   //////////////////////////////////////////////////////////////////////////////
 
   // create image bucket
   let imageBucketCreated = false;
   // @dev initial bucket name of TBD to handle case of failure to generate bucket.
-  // if bucket generation fails, TBD still enables output of DEPLOYMENTS file,
-  // while making it clear that the bucket was not created
+  // if bucket generation fails, TBD makes it clear that the bucket was not
+  // created
   let bucketName = "TBD";
   try {
     ({ bucketName } = await createEngineBucket(tokenName, networkName));
@@ -322,56 +275,42 @@ async function main() {
     console.log(`[ERROR] Failed to create image bucket`);
   }
 
-  const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-  const etherscanSubdomain = networkName === "mainnet" ? "" : `${networkName}.`;
-  const outputMd = `
-  # Deployment
-
-  Date: ${new Date().toISOString()}
-
-  ## **Network:** ${networkName}
-
-  ## **Environment:** ${deployDetails.environment}
-
-  **Deployment Input File:** \`${deploymentConfigFile}\`
-
-  **GenArt721CoreV3:** https://${etherscanSubdomain}etherscan.io/address/${
-    genArt721Core.address
-  }#code
-
-  **AdminACLV0:** https://${etherscanSubdomain}etherscan.io/address/${adminACLAddress}#code
-
-  **Core Registry:** https://${etherscanSubdomain}etherscan.io/address/${activeCoreRegistryAddress}#code
-
-  **Shared Minter Filter:** https://${etherscanSubdomain}etherscan.io/address/${minterFilterAddress}#code
-
-  **Minters:** All globally allowed minters on the shared minter filter contract may be used to mint tokens on the core contract.
-
-  **Metadata**
-
-  - **Starting Project Id:** ${deployDetails.startingProjectId}
-  - **Token Name:** ${tokenName}
-  - **Token Ticker:** ${tokenTicker}
-  - **Art Blocks Address, Primary Sales:** ${
-    deployDetails.artblocksPrimarySalesAddress
-  }
-  - **BytecodeStorageReader Library:** ${bytecodeStorageReaderAddress}
-
-  **Other**
-
-  - **Add initial project?:** ${deployDetails.addInitialProject}
-  - **Add initial token?:** false
-  - **Image Bucket:** ${bucketName}
+  await recordDeployment({
+    networkName,
+    environment: deployDetails.environment,
+    contractName: "GenArt721CoreV3",
+    contract: genArt721Core,
+    constructorArgs: [
+      tokenName,
+      deployDetails.tokenTicker,
+      randomizerAddress,
+      adminACLAddress,
+      deployDetails.startingProjectId,
+    ],
+    libraries: {
+      "contracts/libs/v0.8.x/BytecodeStorageV1.sol:BytecodeStorageReader":
+        bytecodeStorageReaderAddress,
+    },
+  });
 
-  ---
+  //////////////////////////////////////////////////////////////////////////////
+  // DEPLOYMENT MANIFEST ENDS HERE
+  //////////////////////////////////////////////////////////////////////////////
 
-  `;
+  //////////////////////////////////////////////////////////////////////////////
+  // VERIFICATION BEGINS HERE
+  //////////////////////////////////////////////////////////////////////////////
 
-  fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-  console.log(`[INFO] Deployment details written to ${outputSummaryFile}`);
+  // @dev verifies the core contract with its recorded constructor args and
+  // linked BytecodeStorageReader library
+  await verifyDeployments({
+    networkName,
+    environment: deployDetails.environment,
+    addresses: [genArt721Core.address],
+  });
 
   //////////////////////////////////////////////////////////////////////////////
-  // DEPLOYMENTS.md ENDS HERE
+  // VERIFICATION ENDS HERE
   //////////////////////////////////////////////////////////////////////////////
 
   //////////////////////////////////////////////////////////////////////////////
@@ -2,20 +2,19 @@
 // Created By: Art Blocks Inc.
 
 import { ethers } from "hardhat";
-import { tryVerify } from "../util/verification";
-import fs from "fs";
-import path from "path";
+import { recordDeployment } from "../util/record-deployment";
 
 // hide nuisance logs about event overloading
 import { Logger } from "@ethersproject/logger";
 Logger.setLogLevel(Logger.levels.ERROR);
 
 // delay to avoid issues with reorgs and tx failures
-import { delay, getConfigInputs, getNetworkName } from "../util/utils";
+import { delay, getNetworkName } from "../util/utils";
 import {
   DELEGATION_REGISTRY_ADDRESSES,
   EXTRA_DELAY_BETWEEN_TX,
 } from "../util/constants";
+import { SharedMinterDeployConfig } from "../deploy/deploy-config-schemas";
 
 // assumed shared minter filter contract name (used when making global
 // allowlisting call only)
@@ -27,60 +26,19 @@ const followOnActions: string[] = [];
  * This generic script was created to deploy shared minter contracts.
  * It is intended to document the deployment process and provide a reference
  * for the steps required to deploy the contract.
+ * It is run by the `ab:deploy shared-minter` task, which validates the
+ * deployment config before calling it, and verifies the contracts it records
+ * in the deployment manifest once it returns.
+ * Returns the address of each deployed shared minter, in config order.
  */
-async function main() {
-  // get deployment configuration details
-  const { deployConfigDetailsArray, deploymentConfigFile, inputFileDirectory } =
-    await getConfigInputs(
-      "deployments/minters/shared-minter-deploy-config.template.ts",
-      "shared minter deployment config file"
-    );
-
+export async function deploySharedMinters(
+  deployConfigDetailsArray: SharedMinterDeployConfig[]
+): Promise<string[]> {
+  const deployedMinterAddresses: string[] = [];
   // get accounts and network
   const [deployer] = await ethers.getSigners();
   const networkName = await getNetworkName();
 
-  //////////////////////////////////////////////////////////////////////////////
-  // INPUT VERIFICATION BEGINS HERE
-  //////////////////////////////////////////////////////////////////////////////
-  // @dev perform input validation for ALL deploy config details to avoid mid-deployment failures
-
-  // Perform the following steps for each to-be-deployed contract
-  for (let index = 0; index < deployConfigDetailsArray.length; index++) {
-    const deployDetails = deployConfigDetailsArray[index];
-    // require minter name
-    if (!deployDetails.minterName) {
-      throw new Error(
-        `[ERROR] minterName must be defined at index ${index}, but is ${deployDetails.minterName}`
-      );
-    }
-    // check network consistency
-    if (networkName != deployDetails.network) {
-      throw new Error(
-        `[ERROR] config file's network ${deployDetails.network} does not match the network you are deploying to ${networkName}`
-      );
-    }
-    // check minter filter address is defined
-    if (!ethers.utils.isAddress(deployDetails.minterFilterAddress)) {
-      throw new Error(
-        `[ERROR] minterFilterAddress must be defined at index ${index}, but is ${deployDetails.minterFilterAddress}`
-      );
-    }
-
-    // require min fee in ETH be defined if minter type is a min price minter
-    if (
-      deployDetails?.minterName?.includes("MinPrice") &&
-      !deployDetails?.minMintFeeETH
-    ) {
-      throw new Error(
-        `[ERROR] minMintFeeETH must be defined at index ${index} for min price minter, but is ${deployDetails.minMintFeeETH}`
-      );
-    }
-  }
-  //////////////////////////////////////////////////////////////////////////////
-  // INPUT VERIFICATION ENDS HERE
-  //////////////////////////////////////////////////////////////////////////////
-
   // Perform the following steps for each to-be-deployed contract
   for (let index = 0; index < deployConfigDetailsArray.length; index++) {
     const deployDetails = deployConfigDetailsArray[index];
@@ -108,16 +66,17 @@ async function main() {
       minterConstructorArgs.push(DELEGATION_REGISTRY_ADDRESSES[networkName]);
     }
     // push min mint fee on constructor args if a min price minter
-    if (minterName?.includes("MinPrice")) {
-      // @dev already validated that minMintFeeETH is defined
+    if (minterName.includes("MinPrice")) {
+      // @dev schema requires minMintFeeETH for min price minters
       minterConstructorArgs.push(
-        ethers.utils.parseEther(deployDetails.minMintFeeETH).toString()
+        ethers.utils.parseEther(deployDetails.minMintFeeETH!).toString()
       );
     }
     const minterFactory = await ethers.getContractFactory(minterName);
     const minter = await minterFactory.deploy(...minterConstructorArgs);
     await minter.deployed();
     const minterAddress = minter.address;
+    deployedMinterAddresses.push(minterAddress);
     console.log(
       `[INFO] ${deployDetails.minterName} deployed at ${minterAddress}`
     );
@@ -161,58 +120,19 @@ async function main() {
     //////////////////////////////////////////////////////////////////////////////
 
     //////////////////////////////////////////////////////////////////////////////
-    // VERIFICATION BEGINS HERE
+    // DEPLOYMENT MANIFEST BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
-    // verify shared minter
-    await tryVerify(
-      deployDetails.minterName,
-      minterAddress,
-      minterConstructorArgs,
-      networkName
-    );
+    await recordDeployment({
+      networkName,
+      environment: deployDetails.environment,
+      contractName: deployDetails.minterName,
+      contract: minter,
+      constructorArgs: minterConstructorArgs,
+    });
 
     //////////////////////////////////////////////////////////////////////////////
-    // VERIFICATION ENDS HERE
-    //////////////////////////////////////////////////////////////////////////////
-
-    //////////////////////////////////////////////////////////////////////////////
-    // DEPLOYMENTS.md BEGINS HERE
-    //////////////////////////////////////////////////////////////////////////////
-
-    const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-    const etherscanSubdomain =
-      networkName === "mainnet" ? "" : `${networkName}.`;
-    const outputMd = `
-# Shared Minter Deployment
-
-Date: ${new Date().toISOString()}
-
-## **Network:** ${networkName}
-
-## **Environment:** ${deployDetails.environment}
-
-**Deployment Input File:** \`${deploymentConfigFile}\`
-
-**${
-      deployDetails.minterName
-    }:** https://${etherscanSubdomain}etherscan.io/address/${minterAddress}#code
-
-**Associated Minter Filter:** ${deployDetails.minterFilterAddress}
-
-**Deployment Args:** ${minterConstructorArgs}
-
----
-
-`;
-
-    fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-    console.log(
-      `[INFO] Deployment details written/appended to ${outputSummaryFile}`
-    );
-
-    //////////////////////////////////////////////////////////////////////////////
-    // DEPLOYMENTS.md ENDS HERE
+    // DEPLOYMENT MANIFEST ENDS HERE
     //////////////////////////////////////////////////////////////////////////////
   }
 
@@ -222,11 +142,6 @@ Date: ${new Date().toISOString()}
 
   // @dev delay to ensure logs are fully printed to disk
   await delay(EXTRA_DELAY_BETWEEN_TX);
-}
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+  return deployedMinterAddresses;
+}
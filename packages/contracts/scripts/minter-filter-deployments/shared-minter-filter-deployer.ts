@@ -2,81 +2,36 @@
 // Created By: Art Blocks Inc.
 
 import { ethers } from "hardhat";
-import { tryVerify } from "../util/verification";
-import fs from "fs";
-import path from "path";
+import { Contract } from "ethers";
+import { recordDeployment } from "../util/record-deployment";
+import { DeploymentRole } from "../util/deployment-manifest";
 
 // hide nuisance logs about event overloading
 import { Logger } from "@ethersproject/logger";
 Logger.setLogLevel(Logger.levels.ERROR);
 
 // delay to avoid issues with reorgs and tx failures
-import { delay, getConfigInputs, getNetworkName } from "../util/utils";
+import { delay, getNetworkName } from "../util/utils";
 import { EXTRA_DELAY_BETWEEN_TX } from "../util/constants";
+import { SharedMinterFilterDeployConfig } from "../deploy/deploy-config-schemas";
 
 /**
  * This generic script was created to deploy shared minter filter contracts.
  * It is intended to document the deployment process and provide a reference
  * for the steps required to deploy the contract.
+ * It is run by the `ab:deploy shared-minter-filter` task, which validates the
+ * deployment config before calling it, and verifies the contracts it records
+ * in the deployment manifest once it returns.
+ * Returns the address of each deployed shared minter filter, in config order.
  */
-async function main() {
-  // get deployment configuration details
-  const { deployConfigDetailsArray, deploymentConfigFile, inputFileDirectory } =
-    await getConfigInputs(
-      "deployments/minter-filter/shared-minter-filter-deploy-config.template.ts",
-      "shared minter-filter deployment config file"
-    );
-
+export async function deploySharedMinterFilters(
+  deployConfigDetailsArray: SharedMinterFilterDeployConfig[]
+): Promise<string[]> {
+  const deployedMinterFilterAddresses: string[] = [];
   // get accounts and network
   const [deployer] = await ethers.getSigners();
   const networkName = await getNetworkName();
 
-  //////////////////////////////////////////////////////////////////////////////
-  // INPUT VERIFICATION BEGINS HERE
-  //////////////////////////////////////////////////////////////////////////////
-  // @dev perform input validation for ALL deploy config details to avoid mid-deployment failures
-
-  // Perform the following steps for each to-be-deployed contract
-  for (let index = 0; index < deployConfigDetailsArray.length; index++) {
-    const deployDetails = deployConfigDetailsArray[index];
-    // check network consistency
-    if (networkName != deployDetails.network) {
-      throw new Error(
-        `[ERROR] config file's network ${deployDetails.network} does not match the network you are deploying to ${networkName}`
-      );
-    }
-    // verify a sensible AdminACL input config
-    if (deployDetails.existingAdminACL) {
-      // ensure a valid address
-      ethers.utils.isAddress(deployDetails.existingAdminACL);
-      // @dev it is acceptable to have an adminACLContractName or
-      // not have an adminACLContractName if existingAdminACL is defined
-    } else {
-      // ensure that the adminACL contract name is defined
-      if (deployDetails.adminACLContractName == undefined) {
-        throw new Error(
-          `[ERROR] adminACLContractName must be defined if existingAdminACL is not defined`
-        );
-      }
-      // ensure that the adminACL contract name is valid (i.e. the following doesn't throw)
-      await ethers.getContractFactory(deployDetails.adminACLContractName);
-    }
-    // check sufficient coreRegistry input
-    if (
-      !(
-        deployDetails.existingCoreRegistry ||
-        deployDetails.coreRegistryContractName
-      )
-    ) {
-      throw new Error(
-        `[ERROR] existingAdminACL or adminACLContractName must be defined at index ${index}`
-      );
-    }
-  }
-  //////////////////////////////////////////////////////////////////////////////
-  // INPUT VERIFICATION ENDS HERE
-  //////////////////////////////////////////////////////////////////////////////
-
   // Perform the following steps for each to-be-deployed contract
   for (let index = 0; index < deployConfigDetailsArray.length; index++) {
     const deployDetails = deployConfigDetailsArray[index];
@@ -87,6 +42,7 @@ async function main() {
 
     // get or deploy admin ACL contract
     let adminACLContractAddress: string | undefined;
+    let adminACLContract: Contract | undefined;
     if (deployDetails.existingAdminACL) {
       // use the existing contract
       adminACLContractAddress = deployDetails.existingAdminACL;
@@ -95,10 +51,11 @@ async function main() {
       );
     } else {
       // deploy new contract and record new address
+      // @dev schema requires adminACLContractName if existingAdminACL is not defined
       const adminACLContractFactory = await ethers.getContractFactory(
-        deployDetails.adminACLContractName
+        deployDetails.adminACLContractName!
       );
-      const adminACLContract = await adminACLContractFactory.deploy();
+      adminACLContract = await adminACLContractFactory.deploy();
       await adminACLContract.deployed();
       // update existing AdminACL for use in the rest of the script
       adminACLContractAddress = adminACLContract.address;
@@ -110,6 +67,7 @@ async function main() {
 
     // get or deploy Core Registry contract
     let coreRegistryAddress: string | undefined;
+    let coreRegistryContract: Contract | undefined;
     if (deployDetails.existingCoreRegistry) {
       // use the existing contract
       coreRegistryAddress = deployDetails.existingCoreRegistry;
@@ -118,10 +76,11 @@ async function main() {
       );
     } else {
       // deploy new contract and record new address
+      // @dev schema requires coreRegistryContractName if existingCoreRegistry is not defined
       const coreRegistryContractFactory = await ethers.getContractFactory(
-        deployDetails.coreRegistryContractName
+        deployDetails.coreRegistryContractName!
       );
-      const coreRegistryContract = await coreRegistryContractFactory.deploy();
+      coreRegistryContract = await coreRegistryContractFactory.deploy();
       await coreRegistryContract.deployed();
       // update existing Core Registry for use in the rest of the script
       coreRegistryAddress = coreRegistryContract.address;
@@ -144,6 +103,7 @@ async function main() {
     );
     await minterFilter.deployed();
     const minterFilterAddress = minterFilter.address;
+    deployedMinterFilterAddresses.push(minterFilterAddress);
     console.log(
       `[INFO] ${deployDetails.minterFilterName} deployed at ${minterFilterAddress}`
     );
@@ -162,80 +122,36 @@ async function main() {
     //////////////////////////////////////////////////////////////////////////////
 
     //////////////////////////////////////////////////////////////////////////////
-    // VERIFICATION BEGINS HERE
+    // DEPLOYMENT MANIFEST BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
-    // verify any new adminACL contract
-    if (!deployDetails.existingAdminACL) {
-      await tryVerify(
-        deployDetails.adminACLContractName,
-        adminACLContractAddress,
-        [],
-        networkName
-      );
+    if (adminACLContract) {
+      await recordDeployment({
+        networkName,
+        environment: deployDetails.environment,
+        contractName: deployDetails.adminACLContractName!,
+        contract: adminACLContract,
+      });
     }
-
-    // verify any new core registry contract
-    if (!deployDetails.existingCoreRegistry) {
-      await tryVerify(
-        deployDetails.coreRegistryContractName,
-        coreRegistryAddress,
-        [],
-        networkName
-      );
+    if (coreRegistryContract) {
+      await recordDeployment({
+        networkName,
+        environment: deployDetails.environment,
+        contractName: deployDetails.coreRegistryContractName!,
+        contract: coreRegistryContract,
+      });
     }
-
-    // verify shared minter filter
-    await tryVerify(
-      deployDetails.minterFilterName,
-      minterFilterAddress,
-      minterFilterConstructorArgs,
-      networkName
-    );
+    await recordDeployment({
+      networkName,
+      environment: deployDetails.environment,
+      contractName: deployDetails.minterFilterName,
+      contract: minterFilter,
+      constructorArgs: minterFilterConstructorArgs,
+      role: DeploymentRole.SharedMinterFilter,
+    });
 
     //////////////////////////////////////////////////////////////////////////////
-    // VERIFICATION ENDS HERE
-    //////////////////////////////////////////////////////////////////////////////
-
-    //////////////////////////////////////////////////////////////////////////////
-    // DEPLOYMENTS.md BEGINS HERE
-    //////////////////////////////////////////////////////////////////////////////
-
-    const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-    const etherscanSubdomain =
-      networkName === "mainnet" ? "" : `${networkName}.`;
-    const outputMd = `
-# Shared Minter Filter Deployment
-
-Date: ${new Date().toISOString()}
-
-## **Network:** ${networkName}
-
-## **Environment:** ${deployDetails.environment}
-
-**Deployment Input File:** \`${deploymentConfigFile}\`
-
-**${
-      deployDetails.minterFilterName
-    }:** https://${etherscanSubdomain}etherscan.io/address/${minterFilterAddress}#code
-
-**Associated AdminACL contract:** ${adminACLContractAddress}
-
-**Associated CoreRegistry contract:** ${coreRegistryAddress}
-
-**Deployment Args:** ${minterFilterConstructorArgs}
-
----
-
-`;
-
-    fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-    console.log(
-      `[INFO] Deployment details written/appended to ${outputSummaryFile}`
-    );
-
-    //////////////////////////////////////////////////////////////////////////////
-    // DEPLOYMENTS.md ENDS HERE
+    // DEPLOYMENT MANIFEST ENDS HERE
     //////////////////////////////////////////////////////////////////////////////
   }
 
@@ -246,11 +162,6 @@ Date: ${new Date().toISOString()}
 
   // @dev delay to ensure logs are fully printed to disk
   await delay(EXTRA_DELAY_BETWEEN_TX);
-}
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+  return deployedMinterFilterAddresses;
+}
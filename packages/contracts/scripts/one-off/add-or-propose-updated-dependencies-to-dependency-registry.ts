@@ -1,15 +1,14 @@
 // SPDX-License-Identifier: LGPL-3.0-only
 // Created By: Art Blocks Inc.
 
-import hre, { ethers } from "hardhat";
+import { ethers } from "hardhat";
 import { DependencyRegistryV0__factory } from "../contracts/factories/DependencyRegistryV0__factory";
 import { getNetworkName } from "../util/utils";
-import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
-import { getDeployerWallet } from "../util/get-deployer-wallet";
-import { Wallet } from "ethers";
-import Safe, { EthersAdapter } from "@safe-global/protocol-kit";
-import SafeApiKit from "@safe-global/api-kit";
-import { MetaTransactionData } from "@gnosis.pm/safe-core-sdk-types";
+import { MetaTransactionData } from "@safe-global/safe-core-sdk-types";
+import {
+  getLedgerOrDeployerSigner,
+  submitSafeTransactions,
+} from "../util/safe-proposals";
 
 const DEPENDENCIES: {
   nameAndVersion: string;
@@ -66,6 +65,8 @@ type GnosisSafeConfig = BaseConfig & {
   useGnosisSafe: true;
   safeAddress: string;
   transactionServiceUrl: string;
+  // set to export Safe Transaction Builder JSON files instead of proposing
+  transactionBuilderExportDirectory?: string;
 };
 
 type NoGnosisSafeConfig = BaseConfig & {
@@ -106,51 +107,7 @@ async function main() {
     );
   }
 
-  let signer: SignerWithAddress | Wallet;
-  if (config.useLedgerSigner) {
-    // Ethers adapter reuires a signer with a provider so create one here
-    const ledgerAddress = hre.network.config.ledgerAccounts[0];
-    signer = await ethers.getSigner(ledgerAddress);
-    console.log("using wallet", await signer.getAddress());
-  } else {
-    const deployerWallet = getDeployerWallet();
-
-    if (!deployerWallet) {
-      throw new Error("Deployer wallet not found");
-    }
-
-    signer = deployerWallet.connect(ethers.provider);
-  }
-
-  let gnosisSetup: {
-    ethAdapter: EthersAdapter;
-    safeApiKit: SafeApiKit;
-    protocolKit: Safe;
-  } | null = null;
-
-  // Gnosis sdk setup
-  if (config.useGnosisSafe) {
-    const ethAdapter = new EthersAdapter({
-      ethers,
-      signerOrProvider: signer,
-    });
-
-    const safeApiKit = new SafeApiKit({
-      txServiceUrl: config.transactionServiceUrl,
-      ethAdapter,
-    });
-
-    const protocolKit = await Safe.create({
-      ethAdapter,
-      safeAddress: config.safeAddress,
-    });
-
-    gnosisSetup = {
-      ethAdapter,
-      safeApiKit,
-      protocolKit,
-    };
-  }
+  const signer = await getLedgerOrDeployerSigner(config.useLedgerSigner);
 
   //////////////////////////////////////////////////////////////////////////////
   // ACTION BEGINS HERE
@@ -204,27 +161,10 @@ async function main() {
   }
 
   // Use SDK to propose transactions if we're using a gnosis safe
-  if (gnosisSetup) {
-    const nonce = await gnosisSetup.protocolKit.getNonce();
-    const safeTransaction = await gnosisSetup.protocolKit.createTransaction({
-      safeTransactionData: txData,
-      options: {
-        nonce,
-      },
-    });
-    const senderAddress = await signer.getAddress();
-    const safeTxHash =
-      await gnosisSetup.protocolKit.getTransactionHash(safeTransaction);
-    const signature =
-      await gnosisSetup.protocolKit.signTransactionHash(safeTxHash);
-    await gnosisSetup.safeApiKit.proposeTransaction({
-      safeAddress: await gnosisSetup.protocolKit.getAddress(),
-      safeTransactionData: safeTransaction.data,
-      safeTxHash,
-      senderAddress,
-      senderSignature: signature.data,
+  if (config.useGnosisSafe) {
+    await submitSafeTransactions(signer, config, txData, {
+      name: "update-dependencies",
     });
-    console.log("Proposed transactions sent to gnosis safe");
   }
 }
 
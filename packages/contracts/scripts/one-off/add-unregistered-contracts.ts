@@ -1,13 +1,12 @@
-import hre, { ethers } from "hardhat";
+import { ethers } from "hardhat";
 import { GetUnregisteredContractsDocument } from "../../generated/graphql";
 import { getClient } from "../util/graphql-client-utils";
 import { getNetworkName } from "../util/utils";
-import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
-import { getDeployerWallet } from "../util/get-deployer-wallet";
-import { Wallet } from "ethers";
-import Safe, { EthersAdapter } from "@safe-global/protocol-kit";
-import SafeApiKit from "@safe-global/api-kit";
-import { MetaTransactionData } from "@gnosis.pm/safe-core-sdk-types";
+import {
+  getLedgerOrDeployerSigner,
+  submitSafeTransactions,
+} from "../util/safe-proposals";
+import { MetaTransactionData } from "@safe-global/safe-core-sdk-types";
 import {
   EngineFactoryV0__factory,
   CoreRegistryV1__factory,
@@ -26,6 +25,8 @@ type GnosisSafeConfig = BaseConfig & {
   useGnosisSafe: true;
   safeAddress: string;
   transactionServiceUrl: string;
+  // export Safe Transaction Builder JSON files instead of proposing
+  transactionBuilderExportDirectory?: string;
 };
 
 type NoGnosisSafeConfig = BaseConfig & {
@@ -67,50 +68,7 @@ async function main() {
     );
   }
 
-  let signer: SignerWithAddress | Wallet;
-  if (config.useLedgerSigner) {
-    const ledgerAddress = hre.network.config.ledgerAccounts[0];
-    signer = await ethers.getSigner(ledgerAddress);
-    console.log("using wallet", await signer.getAddress());
-  } else {
-    const deployerWallet = getDeployerWallet();
-
-    if (!deployerWallet) {
-      throw new Error("Deployer wallet not found");
-    }
-
-    signer = deployerWallet.connect(ethers.provider);
-  }
-
-  let gnosisSetup: {
-    ethAdapter: EthersAdapter;
-    safeApiKit: SafeApiKit;
-    protocolKit: Safe;
-  } | null = null;
-
-  // Gnosis sdk setup
-  if (config.useGnosisSafe) {
-    const ethAdapter = new EthersAdapter({
-      ethers,
-      signerOrProvider: signer,
-    });
-
-    const safeApiKit = new SafeApiKit({
-      txServiceUrl: config.transactionServiceUrl,
-      ethAdapter,
-    });
-
-    const protocolKit = await Safe.create({
-      ethAdapter,
-      safeAddress: config.safeAddress,
-    });
-
-    gnosisSetup = {
-      ethAdapter,
-      safeApiKit,
-      protocolKit,
-    };
-  }
+  const signer = await getLedgerOrDeployerSigner(config.useLedgerSigner);
 
   //////////////////////////////////////////////////////////////////////////////
   // ACTION BEGINS HERE
@@ -213,29 +171,10 @@ async function main() {
     }
   }
 
-  if (gnosisSetup) {
-    const nonce = await gnosisSetup.protocolKit.getNonce();
-    const safeTransaction = await gnosisSetup.protocolKit.createTransaction({
-      safeTransactionData: txData,
-      options: {
-        nonce,
-      },
-    });
-    const senderAddress = await signer.getAddress();
-    const safeTxHash =
-      await gnosisSetup.protocolKit.getTransactionHash(safeTransaction);
-    const signature =
-      await gnosisSetup.protocolKit.signTransactionHash(safeTxHash);
-    await gnosisSetup.safeApiKit.proposeTransaction({
-      safeAddress: await gnosisSetup.protocolKit.getAddress(),
-      safeTransactionData: safeTransaction.data,
-      safeTxHash,
-      senderAddress,
-      senderSignature: signature.data,
+  if (config.useGnosisSafe) {
+    await submitSafeTransactions(signer, config, txData, {
+      name: `register-contracts-${networkName}`,
     });
-    console.log(
-      "Proposed contract registration transactions sent to gnosis safe"
-    );
   }
 }
 
@@ -8,7 +8,12 @@ import {
 } from "../contracts";
 import { GenArt721GeneratorV0__factory } from "../contracts/factories/generator/GenArt721GeneratorV0__factory";
 import { getNetworkName } from "../util/utils";
-import { GUNZIP_SCRIPT_BASE64, MAIN_CONFIG } from "../util/constants";
+import {
+  GUNZIP_SCRIPT_BASE64,
+  MAIN_CONFIG,
+  getActiveDependencyRegistry,
+  getActiveUniversalBytecodeStorageReader,
+} from "../util/constants";
 import { StorageContractCreatedEvent } from "../contracts/BytecodeStorageV2Writer";
 
 const bytecodeStorageReaderAddress =
@@ -21,17 +26,16 @@ async function main() {
     throw new Error("This script is intended to be run on sepolia only");
   }
 
-  const {
-    universalBytecodeStorageReader: universalBytecodeStorageReaderAddress,
-    scriptyBuilderV2: scriptyBuilderV2Address,
-    dependencyRegistry: dependencyRegistryAddress,
-  } = MAIN_CONFIG["sepolia"]["dev"];
-
-  if (
-    !universalBytecodeStorageReaderAddress ||
-    !scriptyBuilderV2Address ||
-    !dependencyRegistryAddress
-  ) {
+  const universalBytecodeStorageReaderAddress =
+    getActiveUniversalBytecodeStorageReader("sepolia", "dev");
+  const dependencyRegistryAddress = getActiveDependencyRegistry(
+    "sepolia",
+    "dev"
+  );
+  const { scriptyBuilderV2: scriptyBuilderV2Address } =
+    MAIN_CONFIG["sepolia"]["dev"];
+
+  if (!scriptyBuilderV2Address) {
     throw new Error("Missing configuration for sepolia");
   }
 
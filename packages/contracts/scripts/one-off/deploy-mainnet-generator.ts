@@ -9,7 +9,12 @@ import {
 import { GenArt721GeneratorV0__factory } from "../contracts/factories/generator/GenArt721GeneratorV0__factory";
 import { getNetworkName } from "../util/utils";
 import { StorageContractCreatedEvent } from "../contracts/BytecodeStorageV2Writer";
-import { GUNZIP_SCRIPT_BASE64, MAIN_CONFIG } from "../util/constants";
+import {
+  GUNZIP_SCRIPT_BASE64,
+  MAIN_CONFIG,
+  getActiveDependencyRegistry,
+  getActiveUniversalBytecodeStorageReader,
+} from "../util/constants";
 
 const bytecodeStorageReaderAddress =
   "0x000000000016A5A5ff2FA7799C4BEe89bA59B74e";
@@ -22,17 +27,16 @@ async function main() {
     throw new Error("This script is intended to be run on mainnet only");
   }
 
-  const {
-    universalBytecodeStorageReader: universalBytecodeStorageReaderAddress,
-    scriptyBuilderV2: scriptyBuilderV2Address,
-    dependencyRegistry: dependencyRegistryAddress,
-  } = MAIN_CONFIG["mainnet"]["mainnet"];
-
-  if (
-    !universalBytecodeStorageReaderAddress ||
-    !scriptyBuilderV2Address ||
-    !dependencyRegistryAddress
-  ) {
+  const universalBytecodeStorageReaderAddress =
+    getActiveUniversalBytecodeStorageReader("mainnet", "mainnet");
+  const dependencyRegistryAddress = getActiveDependencyRegistry(
+    "mainnet",
+    "mainnet"
+  );
+  const { scriptyBuilderV2: scriptyBuilderV2Address } =
+    MAIN_CONFIG["mainnet"]["mainnet"];
+
+  if (!scriptyBuilderV2Address) {
     throw new Error("Missing configuration for mainnet");
   }
 
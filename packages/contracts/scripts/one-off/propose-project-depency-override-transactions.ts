@@ -1,19 +1,19 @@
 // SPDX-License-Identifier: LGPL-3.0-only
 // Created By: Art Blocks Inc.
 
-import hre, { ethers } from "hardhat";
+import { ethers } from "hardhat";
 import { DependencyRegistryV0__factory } from "../contracts/factories/DependencyRegistryV0__factory";
 import { getClient } from "../util/graphql-client-utils";
 import {
   GetProjectDependenciesDocument,
   GetProjectDependenciesQuery,
 } from "../../generated/graphql";
-import Safe from "@safe-global/protocol-kit";
-import { EthersAdapter } from "@safe-global/protocol-kit";
-import SafeApiKit from "@safe-global/api-kit";
-import { MetaTransactionData } from "@gnosis.pm/safe-core-sdk-types";
+import { MetaTransactionData } from "@safe-global/safe-core-sdk-types";
 import { getNetworkName } from "../util/utils";
-import { chunkArray } from "../util/utils";
+import {
+  getLedgerOrDeployerSigner,
+  submitSafeTransactions,
+} from "../util/safe-proposals";
 
 const supportedDependencies = [
   "aframe@1.2.0",
@@ -37,6 +37,8 @@ const config = {
   dependencyRegistryAddress: "0x37861f95882ACDba2cCD84F5bFc4598e2ECDDdAF",
   safeAddress: "0x---",
   transactionServiceUrl: "https://safe-transaction-mainnet.safe.global",
+  // set to export Safe Transaction Builder JSON files instead of proposing
+  transactionBuilderExportDirectory: "",
 };
 
 const TRANSACTION_CHUNK_SIZE = 200;
@@ -50,26 +52,7 @@ async function main() {
     );
   }
 
-  // Ethers adapter reuires a signer with a provider so create one here
-  const ledgerAddress = hre.network.config.ledgerAccounts[0];
-  const ledgerSigner = await ethers.getSigner(ledgerAddress);
-  console.log("using wallet", await ledgerSigner.getAddress());
-
-  // Gnosis sdk setup
-  const ethAdapter = new EthersAdapter({
-    ethers,
-    signerOrProvider: ledgerSigner,
-  });
-
-  const safeApiKit = new SafeApiKit({
-    txServiceUrl: config.transactionServiceUrl,
-    ethAdapter,
-  });
-
-  const protocolKit = await Safe.create({
-    ethAdapter,
-    safeAddress: config.safeAddress,
-  });
+  const ledgerSigner = await getLedgerOrDeployerSigner(true);
 
   // Get contract to create transactions
   const dependencyRegistry = DependencyRegistryV0__factory.connect(
@@ -130,32 +113,17 @@ async function main() {
       })
       .filter((transaction) => transaction !== null);
 
-  // Chunk transactions into groups of TRANSACTION_CHUNK_SIZE to avoid hitting the gas limit
-  const chunkedTransactions = chunkArray(
+  // Propose transactions in multi-send batches of TRANSACTION_CHUNK_SIZE to
+  // avoid hitting the gas limit
+  await submitSafeTransactions(
+    ledgerSigner,
+    config,
     overrideProjectDependencyTransactionData,
-    TRANSACTION_CHUNK_SIZE
+    {
+      batchSize: TRANSACTION_CHUNK_SIZE,
+      name: "project-dependency-overrides",
+    }
   );
-
-  // Propose each chunk of transactions as a multi-send transaction
-  let nonce = await protocolKit.getNonce();
-  for (const transactions of chunkedTransactions) {
-    const safeTransaction = await protocolKit.createTransaction({
-      safeTransactionData: transactions,
-      options: {
-        nonce: nonce++,
-      },
-    });
-    const senderAddress = await ledgerSigner.getAddress();
-    const safeTxHash = await protocolKit.getTransactionHash(safeTransaction);
-    const signature = await protocolKit.signTransactionHash(safeTxHash);
-    await safeApiKit.proposeTransaction({
-      safeAddress: await protocolKit.getAddress(),
-      safeTransactionData: safeTransaction.data,
-      safeTxHash,
-      senderAddress,
-      senderSignature: signature.data,
-    });
-  }
 }
 
 main()
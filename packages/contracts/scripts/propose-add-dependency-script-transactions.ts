@@ -1,16 +1,16 @@
-import hre, { ethers } from "hardhat";
+import { ethers } from "hardhat";
 import { DependencyRegistryV0 } from "./contracts";
 import { DependencyRegistryV0__factory } from "./contracts/factories/DependencyRegistryV0__factory";
 import fs from "fs";
 import zlib from "zlib";
 import util from "util";
 import Graphemer from "graphemer";
-import Safe from "@safe-global/protocol-kit";
-import { EthersAdapter } from "@safe-global/protocol-kit";
-import SafeApiKit from "@safe-global/api-kit";
-import { MetaTransactionData } from "@gnosis.pm/safe-core-sdk-types";
+import { MetaTransactionData } from "@safe-global/safe-core-sdk-types";
 import { getNetworkName } from "./util/utils";
-import { chunkArray } from "./util/utils";
+import {
+  getLedgerOrDeployerSigner,
+  submitSafeTransactions,
+} from "./util/safe-proposals";
 
 const gzip = util.promisify(zlib.gzip);
 const readFile = util.promisify(fs.readFile);
@@ -27,6 +27,9 @@ const config = {
   safeAddress: "",
   // Transaction service url (e.g. https://safe-transaction-mainnet.safe.global/)
   transactionServiceUrl: "",
+  // Directory to export Safe Transaction Builder JSON files to, instead of
+  // proposing transactions (optional)
+  transactionBuilderExportDirectory: "",
   // Update existing scripts instead of adding new ones
   update: false,
   // Offset to start uploading from. Useful for resuming a failed upload.
@@ -88,12 +91,13 @@ async function gzipAndBase64Encode(filePath: string) {
  * The main function of this script performs the following tasks:
  *
  * 1. Validates the provided configuration, including the network, dependency registry address, file path, and dependency name and version.
- * 2. Sets up the Gnosis SDK with the Ethers adapter and Safe API kit.
+ * 2. Gets the ledger signer that proposes transactions to the Gnosis Safe.
  * 3. Reads the specified file, gzips it, and encodes the gzipped data in base64 format.
  * 4. Splits the base64 encoded string into chunks that are less than the maximum content size.
  * 5. Connects to the DependencyRegistry contract and creates a series of transactions. Each transaction either adds a new dependency script or updates an existing one, depending on the configuration.
- * 6. Groups the transactions into chunks to avoid hitting the gas limit.
- * 7. Proposes each chunk of transactions as a multi-send transaction to the Gnosis Safe.
+ * 6. Proposes the transactions to the Gnosis Safe as multi-send transactions of TRANSACTION_CHUNK_SIZE
+ *    transactions each, to avoid hitting the gas limit. Chunks already pending on the Safe are not
+ *    proposed again, so a failed proposal may be resumed by rerunning the script.
  *
  * The goal of this script is to gzip and base64 encode a file, then propose transactions to add the encoded file on-chain to our DependencyRegistry contract.
  */
@@ -125,26 +129,7 @@ async function main() {
     );
   }
 
-  // Ethers adapter reuires a signer with a provider so create one here
-  const ledgerAddress = hre.network.config.ledgerAccounts[0];
-  const ledgerSigner = await ethers.getSigner(ledgerAddress);
-  console.log("using wallet", await ledgerSigner.getAddress());
-
-  // Gnosis sdk setup
-  const ethAdapter = new EthersAdapter({
-    ethers,
-    signerOrProvider: ledgerSigner,
-  });
-
-  const safeApiKit = new SafeApiKit({
-    txServiceUrl: config.transactionServiceUrl,
-    ethAdapter,
-  });
-
-  const protocolKit = await Safe.create({
-    ethAdapter,
-    safeAddress: config.safeAddress,
-  });
+  const ledgerSigner = await getLedgerOrDeployerSigner(true);
 
   // Gzip and base64 encode file
   const gzippedBase64EncodedScript = await gzipAndBase64Encode(file);
@@ -196,44 +181,18 @@ async function main() {
       };
     });
 
-  // Chunk transactions into groups of TRANSACTION_CHUNK_SIZE to avoid hitting the gas limit
-  const chunkedTransactions = chunkArray(
-    addDependencyScriptTransactionData,
-    TRANSACTION_CHUNK_SIZE
-  );
-
   console.log(
-    `Proposing ${chunkedTransactions.length} transactions with ${addDependencyScriptTransactionData.length} total chunks`
+    `Proposing ${addDependencyScriptTransactionData.length} total chunks`
   );
-
-  // Propose each chunk of transactions as a multi-send transaction
-  let nonce = await protocolKit.getNonce();
-  for (let i = config.offset; i < chunkedTransactions.length; i++) {
-    const transactions = chunkedTransactions[i];
-    try {
-      const safeTransaction = await protocolKit.createTransaction({
-        safeTransactionData: transactions,
-        options: {
-          nonce: nonce++,
-        },
-      });
-      const senderAddress = await ledgerSigner.getAddress();
-      const safeTxHash = await protocolKit.getTransactionHash(safeTransaction);
-      const signature = await protocolKit.signTransactionHash(safeTxHash);
-      await safeApiKit.proposeTransaction({
-        safeAddress: await protocolKit.getAddress(),
-        safeTransactionData: safeTransaction.data,
-        safeTxHash,
-        senderAddress,
-        senderSignature: signature.data,
-      });
-    } catch (error) {
-      console.log(
-        `Failed to propose transaction at index ${i}. Please rerun the script with the offset set to ${i}`
-      );
-      throw error;
+  await submitSafeTransactions(
+    ledgerSigner,
+    config,
+    addDependencyScriptTransactionData,
+    {
+      batchSize: TRANSACTION_CHUNK_SIZE,
+      name: `add-dependency-script-${dependencyNameAndVersion}`,
     }
-  }
+  );
 }
 
 main()
@@ -2,78 +2,36 @@
 // Created By: Art Blocks Inc.
 
 import { ethers } from "hardhat";
-import { tryVerify } from "../util/verification";
-import fs from "fs";
-import path from "path";
+import { Contract } from "ethers";
+import { recordDeployment } from "../util/record-deployment";
+import { DeploymentRole } from "../util/deployment-manifest";
 
 // hide nuisance logs about event overloading
 import { Logger } from "@ethersproject/logger";
 Logger.setLogLevel(Logger.levels.ERROR);
 
 // delay to avoid issues with reorgs and tx failures
-import { delay, getConfigInputs, getNetworkName } from "../util/utils";
+import { delay, getNetworkName } from "../util/utils";
 import { EXTRA_DELAY_BETWEEN_TX } from "../util/constants";
+import { SharedRandomizerDeployConfig } from "../deploy/deploy-config-schemas";
 
 /**
  * This generic script was created to deploy shared randomizer contracts.
  * It is intended to document the deployment process and provide a reference
  * for the steps required to deploy the shared randomizer contract.
+ * It is run by the `ab:deploy shared-randomizer` task, which validates the
+ * deployment config before calling it, and verifies the contracts it records
+ * in the deployment manifest once it returns.
+ * Returns the address of each deployed shared randomizer, in config order.
  */
-async function main() {
-  // get deployment configuration details
-  const { deployConfigDetailsArray, deploymentConfigFile, inputFileDirectory } =
-    await getConfigInputs(
-      "deployments/randomizer/shared-randomizer-deploy-config.template.ts",
-      "shared randomizer deployment config file"
-    );
-
+export async function deploySharedRandomizers(
+  deployConfigDetailsArray: SharedRandomizerDeployConfig[]
+): Promise<string[]> {
+  const deployedRandomizerAddresses: string[] = [];
   // get accounts and network
   const [deployer] = await ethers.getSigners();
   const networkName = await getNetworkName();
 
-  //////////////////////////////////////////////////////////////////////////////
-  // INPUT VERIFICATION BEGINS HERE
-  //////////////////////////////////////////////////////////////////////////////
-  // @dev perform input validation for ALL deploy config details to avoid mid-deployment failures
-
-  // Perform the following steps for each to-be-deployed randomizer contract
-  for (let index = 0; index < deployConfigDetailsArray.length; index++) {
-    const deployDetails = deployConfigDetailsArray[index];
-    // check network consistency
-    if (networkName != deployDetails.network) {
-      throw new Error(
-        `[ERROR] config file's network ${deployDetails.network} does not match the network you are deploying to ${networkName}`
-      );
-    }
-    // ensure mainnet uses pre-deployed pseudorandomAtomicContract
-    if (
-      networkName != "goerli" &&
-      networkName != "arbitrum-goerli" &&
-      networkName != "sepolia" &&
-      networkName != "arbitrum-sepolia"
-    ) {
-      // deploying on a mainnet
-      if (!deployDetails.pseudorandomAtomicContractAddress) {
-        console.warn(
-          "[WARN] consider using a hardened pseudorandom atomic contract"
-        );
-      }
-    }
-    if (
-      !(
-        deployDetails.pseudorandomAtomicContractAddress ||
-        deployDetails.pseudorandomAtomicContractName
-      )
-    ) {
-      throw new Error(
-        `[ERROR] pseudorandomAtomicContractAddress or pseudorandomAtomicContractName must be defined at index ${index}`
-      );
-    }
-  }
-  //////////////////////////////////////////////////////////////////////////////
-  // INPUT VERIFICATION ENDS HERE
-  //////////////////////////////////////////////////////////////////////////////
-
   // Perform the following steps for each to-be-deployed randomizer contract
   for (let index = 0; index < deployConfigDetailsArray.length; index++) {
     const deployDetails = deployConfigDetailsArray[index];
@@ -83,17 +41,30 @@ async function main() {
     //////////////////////////////////////////////////////////////////////////////
 
     // if pseudorandomAtomicContractAddress is undefined, deploy a new one
+    let pseudorandomAtomicContract: Contract | undefined;
     if (deployDetails.pseudorandomAtomicContractAddress) {
       // if pseudorandomAtomicContractAddress is defined, use the existing one
       console.log(
         `[INFO] Using existing pseudorandomAtomicContract at ${deployDetails.pseudorandomAtomicContractAddress}`
       );
     } else {
+      // ensure mainnet uses pre-deployed pseudorandomAtomicContract
+      if (
+        networkName != "goerli" &&
+        networkName != "arbitrum-goerli" &&
+        networkName != "sepolia" &&
+        networkName != "arbitrum-sepolia"
+      ) {
+        console.warn(
+          "[WARN] consider using a hardened pseudorandom atomic contract"
+        );
+      }
       // deploy new contract and record new address
+      // @dev schema requires pseudorandomAtomicContractName if no address is defined
       const pseudorandomAtomicContractFactory = await ethers.getContractFactory(
-        deployDetails.pseudorandomAtomicContractName
+        deployDetails.pseudorandomAtomicContractName!
       );
-      const pseudorandomAtomicContract =
+      pseudorandomAtomicContract =
         await pseudorandomAtomicContractFactory.deploy();
       await pseudorandomAtomicContract.deployed();
       // update pseudorandomAtomicContractAddress for use in the rest of the script
@@ -117,6 +88,7 @@ async function main() {
     );
     await randomizer.deployed();
     const randomizerAddress = randomizer.address;
+    deployedRandomizerAddresses.push(randomizerAddress);
     console.log(
       `[INFO] ${deployDetails.randomizerName} deployed at ${randomizerAddress}`
     );
@@ -135,60 +107,28 @@ async function main() {
     //////////////////////////////////////////////////////////////////////////////
 
     //////////////////////////////////////////////////////////////////////////////
-    // VERIFICATION BEGINS HERE
-    //////////////////////////////////////////////////////////////////////////////
-
-    // verify shared randomizer (not pseudorandom atomic contract at this time)
-    await tryVerify(
-      deployDetails.randomizerName,
-      randomizerAddress,
-      randomizerConstructorArgs,
-      networkName
-    );
-
-    //////////////////////////////////////////////////////////////////////////////
-    // VERIFICATION ENDS HERE
-    //////////////////////////////////////////////////////////////////////////////
-
+    // DEPLOYMENT MANIFEST BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
-    // DEPLOYMENTS.md BEGINS HERE
-    //////////////////////////////////////////////////////////////////////////////
-
-    const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-    const etherscanSubdomain =
-      networkName === "mainnet" ? "" : `${networkName}.`;
-    const outputMd = `
-# Shared Randomizer Deployment
-
-Date: ${new Date().toISOString()}
-
-## **Network:** ${networkName}
-
-## **Environment:** ${deployDetails.environment}
 
-**Deployment Input File:** \`${deploymentConfigFile}\`
-
-**${
-      deployDetails.randomizerName
-    }:** https://${etherscanSubdomain}etherscan.io/address/${randomizerAddress}#code
-
-**Associated pseudorandom atomic contract:** ${
-      deployDetails.pseudorandomAtomicContractAddress
+    if (pseudorandomAtomicContract) {
+      await recordDeployment({
+        networkName,
+        environment: deployDetails.environment,
+        contractName: deployDetails.pseudorandomAtomicContractName!,
+        contract: pseudorandomAtomicContract,
+      });
     }
-
-**Deployment Args:** ${randomizerConstructorArgs}
-
----
-
-`;
-
-    fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-    console.log(
-      `[INFO] Deployment details written/appended to ${outputSummaryFile}`
-    );
+    await recordDeployment({
+      networkName,
+      environment: deployDetails.environment,
+      contractName: deployDetails.randomizerName,
+      contract: randomizer,
+      constructorArgs: randomizerConstructorArgs,
+      role: DeploymentRole.SharedRandomizer,
+    });
 
     //////////////////////////////////////////////////////////////////////////////
-    // DEPLOYMENTS.md ENDS HERE
+    // DEPLOYMENT MANIFEST ENDS HERE
     //////////////////////////////////////////////////////////////////////////////
   }
 
@@ -199,11 +139,6 @@ Date: ${new Date().toISOString()}
 
   // @dev delay to ensure logs are fully printed to disk
   await delay(EXTRA_DELAY_BETWEEN_TX);
-}
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+  return deployedRandomizerAddresses;
+}
@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import fs from "fs";
+import path from "path";
+import {
+  DeploymentRole,
+  getActiveDeployment,
+  readDeploymentManifest,
+} from "../util/deployment-manifest";
+
+/**
+ * This script generates the per-chain contract address book used by the SDK
+ * from the deployment manifests in `deployments/manifests`. It should be
+ * re-run whenever a shared minter filter or delegation-aware shared minter is
+ * deployed to a network served by the SDK.
+ */
+
+// network and environment of the deployments served by the SDK on each chain
+const SDK_DEPLOYMENT_ENVIRONMENTS = [
+  { network: "mainnet", environment: "mainnet" },
+  { network: "arbitrum", environment: "arbitrum" },
+  { network: "base", environment: "base" },
+  { network: "sepolia", environment: "staging" },
+  { network: "arbitrum-sepolia", environment: "staging" },
+];
+
+// shared minters that take the delegation registry as their second
+// constructor argument
+const DELEGATION_MINTER_NAME_REGEX = /(Merkle|Holder|Polyptych)/;
+
+export const SDK_ADDRESS_BOOK_FILE = path.join(
+  __dirname,
+  "../../../sdk/src/utils/address-book.generated.ts"
+);
+
+/**
+ * Renders the contents of the SDK address book from the current deployment
+ * manifests.
+ */
+export function renderSdkAddressBook(): string {
+  const addressBookEntries = SDK_DEPLOYMENT_ENVIRONMENTS.map(
+    ({ network, environment }) => {
+      const { chainId, contracts } = readDeploymentManifest(
+        network,
+        environment
+      );
+
+      const minterFilter = getActiveDeployment(
+        network,
+        environment,
+        DeploymentRole.SharedMinterFilter
+      );
+      if (!minterFilter) {
+        throw new Error(
+          `[ERROR] No shared minter filter found for ${network} ${environment}`
+        );
+      }
+      const delegationMinter = contracts
+        .filter(
+          (entry) =>
+            DELEGATION_MINTER_NAME_REGEX.test(entry.contractName) &&
+            String(entry.constructorArgs[0]).toLowerCase() ===
+              minterFilter.address.toLowerCase()
+        )
+        .pop();
+      const delegationRegistry = delegationMinter?.constructorArgs[1];
+      if (typeof delegationRegistry !== "string") {
+        throw new Error(
+          `[ERROR] No delegation-aware shared minter found for ${network} ${environment}`
+        );
+      }
+
+      return {
+        chainId,
+        network,
+        sharedMinterFilter: minterFilter.address,
+        delegationRegistry,
+      };
+    }
+  );
+
+  return `// This file is generated from the contract deployment manifests by running
+// \`yarn generate:sdk-address-book\` in packages/contracts. Do not edit it
+// directly.
+
+export const ADDRESS_BOOK = {
+${addressBookEntries
+  .map(
+    (entry) => `  ${entry.chainId}: {
+    network: "${entry.network}",
+    sharedMinterFilter: "${entry.sharedMinterFilter}",
+    delegationRegistry: "${entry.delegationRegistry}",
+  },`
+  )
+  .join("\n")}
+} as const;
+`;
+}
+
+function main() {
+  fs.writeFileSync(SDK_ADDRESS_BOOK_FILE, renderSdkAddressBook());
+  console.log(`[INFO] SDK address book written to ${SDK_ADDRESS_BOOK_FILE}`);
+}
+
+if (require.main === module) {
+  main();
+}
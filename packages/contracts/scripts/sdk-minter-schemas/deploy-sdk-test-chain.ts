@@ -0,0 +1,153 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import fs from "fs";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { LOCAL_MINTER_CONFIGURATION_SCHEMAS } from "../../../sdk/src/minter-configuration/schemas";
+import {
+  T_Config,
+  assignDefaultConstants,
+  deployAndGet,
+  deployCore,
+  deploySharedMinterFilter,
+  getAccounts,
+  safeAddProject,
+} from "../../test/util/common";
+
+/**
+ * This script deploys a core contract, the shared minter filter and every
+ * shared minter with an SDK configuration schema to a local Hardhat or anvil
+ * node, then assigns each minter to a project of its own. It also deploys an
+ * ERC20 token for the minters paid in custom currencies. The SDK's on-chain
+ * minter configuration form tests submit forms against the deployment file it
+ * writes:
+ *
+ *   yarn hardhat node
+ *   yarn deploy:sdk-test-chain
+ *   yarn --cwd ../sdk test:on-chain
+ *
+ * The deployment file is written to SDK_TEST_CHAIN_DEPLOYMENT, or to
+ * `sdk-test-chain-deployment.json` in the working directory.
+ */
+
+const DEPLOYMENT_PATH =
+  process.env.SDK_TEST_CHAIN_DEPLOYMENT ?? "sdk-test-chain-deployment.json";
+const CORE_CONTRACT_NAME = "GenArt721CoreV3_Engine";
+const MIN_MINT_FEE = ethers.utils.parseEther("0.01");
+
+// Minters taking the delegation registry as their second constructor arg
+const DELEGATION_MINTER_TYPES = [
+  "MinterSetPriceMerkleV5",
+  "MinterSetPriceHolderV5",
+  "MinterSetPricePolyptychV5",
+  "MinterSetPricePolyptychERC20V5",
+  "MinterMinPriceMerkleV0",
+  "MinterDAExpHolderV5",
+  "MinterDALinHolderV5",
+];
+
+function getMinterDeployArgs(
+  minterType: string,
+  minterFilterAddress: string,
+  delegationRegistryAddress: string
+) {
+  const args: unknown[] = [minterFilterAddress];
+  if (DELEGATION_MINTER_TYPES.includes(minterType)) {
+    args.push(delegationRegistryAddress);
+  }
+  if (minterType.startsWith("MinterMinPrice")) {
+    args.push(MIN_MINT_FEE);
+  }
+  return args;
+}
+
+async function main() {
+  if (network.name === "hardhat") {
+    throw new Error(
+      "[ERROR] Deploy to a running node with `--network localhost`, the in-process hardhat network is discarded when the script exits"
+    );
+  }
+
+  let config: T_Config = { accounts: await getAccounts() };
+  config = await assignDefaultConstants(config);
+
+  const { minterFilter, coreRegistry } = await deploySharedMinterFilter(
+    config,
+    "MinterFilterV2"
+  );
+  const { genArt721Core } = await deployCore(
+    config,
+    CORE_CONTRACT_NAME,
+    coreRegistry
+  );
+  await genArt721Core
+    .connect(config.accounts.deployer)
+    .updateMinterContract(minterFilter.address);
+  const delegationRegistry = await deployAndGet(
+    config,
+    "DelegationRegistry",
+    []
+  );
+  const currency = await deployAndGet(config, "ERC20Mock", [
+    ethers.utils.parseEther("100"),
+  ]);
+
+  const minters: Record<string, { address: string; projectIndex: number }> = {};
+  const minterTypes = Object.keys(LOCAL_MINTER_CONFIGURATION_SCHEMAS);
+  for (const [index, minterType] of minterTypes.entries()) {
+    const minter = await deployAndGet(
+      config,
+      minterType,
+      getMinterDeployArgs(
+        minterType,
+        minterFilter.address,
+        delegationRegistry.address
+      )
+    );
+    await minterFilter
+      .connect(config.accounts.deployer)
+      .approveMinterGlobally(minter.address);
+
+    // each minter gets a project of its own
+    const projectIndex = config.projectZero + index;
+    await safeAddProject(
+      genArt721Core,
+      config.accounts.deployer,
+      config.accounts.artist.address
+    );
+    await genArt721Core
+      .connect(config.accounts.deployer)
+      .toggleProjectIsActive(projectIndex);
+    await minterFilter
+      .connect(config.accounts.deployer)
+      .setMinterForProject(projectIndex, genArt721Core.address, minter.address);
+
+    minters[minterType] = { address: minter.address, projectIndex };
+    console.log(
+      `[INFO] Deployed ${minterType} at ${minter.address} for project ${projectIndex}`
+    );
+  }
+
+  const deployment = {
+    chainId: network.config.chainId ?? 31337,
+    rpcUrl: "url" in network.config ? network.config.url : undefined,
+    artistAddress: config.accounts.artist.address,
+    coreContractAddress: genArt721Core.address,
+    minterFilterAddress: minterFilter.address,
+    currencyAddress: currency.address,
+    minters,
+  };
+  fs.writeFileSync(
+    path.resolve(DEPLOYMENT_PATH),
+    JSON.stringify(deployment, null, 2)
+  );
+  console.log(`[INFO] Wrote deployment to ${path.resolve(DEPLOYMENT_PATH)}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import fs from "fs";
+import path from "path";
+import {
+  LOCAL_MINTER_CONFIGURATION_SCHEMAS,
+  MinterConfigurationSchemaRegistry,
+  validateMinterConfigurationSchema,
+} from "../../../sdk/src/minter-configuration/schemas";
+
+/**
+ * This script validates the SDK's local minter configuration schemas against
+ * the compiled ABIs of the shared minters in `contracts/minter-suite/Minters`.
+ * It should be run after compiling whenever a shared minter or one of the
+ * schemas changes.
+ */
+
+const MINTERS_DIRECTORY = path.join(
+  __dirname,
+  "../../contracts/minter-suite/Minters"
+);
+const ARTIFACTS_DIRECTORY = path.join(
+  __dirname,
+  "../../artifacts/contracts/minter-suite/Minters"
+);
+
+function main() {
+  const minterNames = fs
+    .readdirSync(MINTERS_DIRECTORY)
+    .filter((fileName) => fileName.endsWith(".sol"))
+    .map((fileName) => path.basename(fileName, ".sol"));
+
+  let issueCount = 0;
+
+  for (const minterName of minterNames) {
+    const schema =
+      LOCAL_MINTER_CONFIGURATION_SCHEMAS[
+        minterName as keyof MinterConfigurationSchemaRegistry
+      ];
+    if (!schema) {
+      console.log(`[ERROR] ${minterName} has no SDK configuration schema`);
+      issueCount++;
+      continue;
+    }
+
+    const artifactPath = path.join(
+      ARTIFACTS_DIRECTORY,
+      `${minterName}.sol`,
+      `${minterName}.json`
+    );
+    if (!fs.existsSync(artifactPath)) {
+      throw new Error(
+        `[ERROR] No artifact found for ${minterName}, run \`yarn compile\` first`
+      );
+    }
+    const { abi } = JSON.parse(fs.readFileSync(artifactPath, "utf8"));
+
+    const issues = validateMinterConfigurationSchema(schema, abi);
+    for (const { form, message } of issues) {
+      console.log(`[ERROR] ${minterName}.${form}: ${message}`);
+    }
+    issueCount += issues.length;
+  }
+
+  if (issueCount > 0) {
+    console.log(`[ERROR] Found ${issueCount} SDK minter schema issues`);
+    process.exit(1);
+  }
+  console.log(
+    `[INFO] SDK configuration schemas match all ${minterNames.length} minters`
+  );
+}
+
+main();
@@ -2,79 +2,35 @@
 // Created By: Art Blocks Inc.
 
 import { ethers } from "hardhat";
-import { tryVerify } from "../util/verification";
-import fs from "fs";
-import path from "path";
+import { recordDeployment } from "../util/record-deployment";
+import { DeploymentRole } from "../util/deployment-manifest";
 
 // hide nuisance logs about event overloading
 import { Logger } from "@ethersproject/logger";
 Logger.setLogLevel(Logger.levels.ERROR);
 
 // delay to avoid issues with reorgs and tx failures
-import { delay, getConfigInputs, getNetworkName } from "../util/utils";
+import { delay, getNetworkName } from "../util/utils";
 import { EXTRA_DELAY_BETWEEN_TX } from "../util/constants";
+import { SplitsFactoryDeployConfig } from "../deploy/deploy-config-schemas";
 
 /**
  * This generic script was created to deploy split factory contracts.
  * It is intended to document the deployment process and provide a reference
  * for the steps required to deploy the an implementation and factory.
+ * It is run by the `ab:deploy splits-factory` task, which validates the
+ * deployment config before calling it, and verifies the contracts it records
+ * in the deployment manifest once it returns.
+ * Returns the address of each deployed splits factory, in config order.
  */
-async function main() {
-  // get deployment configuration details
-  const { deployConfigDetailsArray, deploymentConfigFile, inputFileDirectory } =
-    await getConfigInputs(
-      "deployments/splits/splits-deploy-config.template.ts",
-      "splits deployment config file"
-    );
-
+export async function deploySplitsFactories(
+  deployConfigDetailsArray: SplitsFactoryDeployConfig[]
+): Promise<string[]> {
+  const deployedFactoryAddresses: string[] = [];
   // get accounts and network
   const [deployer] = await ethers.getSigners();
   const networkName = await getNetworkName();
 
-  //////////////////////////////////////////////////////////////////////////////
-  // INPUT VERIFICATION BEGINS HERE
-  //////////////////////////////////////////////////////////////////////////////
-  // @dev perform input validation for ALL deploy config details to avoid mid-deployment failures
-
-  // Perform the following steps for each to-be-deployed randomizer contract
-  for (let index = 0; index < deployConfigDetailsArray.length; index++) {
-    const deployDetails = deployConfigDetailsArray[index];
-    // check network consistency
-    if (networkName != deployDetails.network) {
-      throw new Error(
-        `[ERROR] config file's network ${deployDetails.network} does not match the network you are deploying to ${networkName}`
-      );
-    }
-    // ensure the required contracts are defined
-    if (!deployDetails.implementationName) {
-      throw new Error(
-        `[ERROR] config file's implementationName is invalid/not defined`
-      );
-    }
-    if (!deployDetails.factoryName) {
-      throw new Error(
-        `[ERROR] config file's factoryName is invalid/not defined`
-      );
-    }
-    const requiredSplitAddress = ethers.utils.getAddress(
-      deployDetails.requiredSplitAddress
-    );
-    if (!requiredSplitAddress) {
-      throw new Error(
-        `[ERROR] config file's requiredSplitAddress is invalid/not defined`
-      );
-    }
-    const requiredSplitBPS = deployDetails.requiredSplitBPS;
-    if (!requiredSplitBPS) {
-      throw new Error(
-        `[ERROR] config file's requiredSplitBPS is invalid/not defined`
-      );
-    }
-  }
-  //////////////////////////////////////////////////////////////////////////////
-  // INPUT VERIFICATION ENDS HERE
-  //////////////////////////////////////////////////////////////////////////////
-
   // Perform the following steps for each to-be-deployed randomizer contract
   for (let index = 0; index < deployConfigDetailsArray.length; index++) {
     const deployDetails = deployConfigDetailsArray[index];
@@ -106,6 +62,7 @@ async function main() {
     const factory = await factoryFactory.deploy(...factoryConstructorArgs);
     await factory.deployed();
     const factoryAddress = factory.address;
+    deployedFactoryAddresses.push(factoryAddress);
     console.log(
       `[INFO] ${deployDetails.factoryName} deployed at ${factoryAddress}`
     );
@@ -124,71 +81,26 @@ async function main() {
     //////////////////////////////////////////////////////////////////////////////
 
     //////////////////////////////////////////////////////////////////////////////
-    // VERIFICATION BEGINS HERE
+    // DEPLOYMENT MANIFEST BEGINS HERE
     //////////////////////////////////////////////////////////////////////////////
 
-    // verify implementation
-    await tryVerify(
-      deployDetails.implementationName,
-      implementationAddress,
-      [],
-      networkName
-    );
-    // verify factory
-    await tryVerify(
-      deployDetails.factoryName,
-      factoryAddress,
-      factoryConstructorArgs,
-      networkName
-    );
-
-    //////////////////////////////////////////////////////////////////////////////
-    // VERIFICATION ENDS HERE
-    //////////////////////////////////////////////////////////////////////////////
+    await recordDeployment({
+      networkName,
+      environment: deployDetails.environment,
+      contractName: deployDetails.implementationName,
+      contract: implementation,
+    });
+    await recordDeployment({
+      networkName,
+      environment: deployDetails.environment,
+      contractName: deployDetails.factoryName,
+      contract: factory,
+      constructorArgs: factoryConstructorArgs,
+      role: DeploymentRole.SplitAtomicFactory,
+    });
 
     //////////////////////////////////////////////////////////////////////////////
-    // DEPLOYMENTS.md BEGINS HERE
-    //////////////////////////////////////////////////////////////////////////////
-
-    const outputSummaryFile = path.join(inputFileDirectory, "DEPLOYMENTS.md");
-    const etherscanSubdomain =
-      networkName === "mainnet" ? "" : `${networkName}.`;
-    const outputMd = `
-# Splitter Factory Deployment
-
-Date: ${new Date().toISOString()}
-
-## **Network:** ${networkName}
-
-## **Environment:** ${deployDetails.environment}
-
-**Deployment Input File:** \`${deploymentConfigFile}\`
-
-**${
-      deployDetails.implementationName
-    }:** https://${etherscanSubdomain}etherscan.io/address/${implementationAddress}#code
-
-**${
-      deployDetails.factoryName
-    }:** https://${etherscanSubdomain}etherscan.io/address/${factoryAddress}#code
-
-**Factory Deployment Args:** ${factoryConstructorArgs}
-
-Required Split Address: ${deployDetails.requiredSplitAddress}
-
-Required Split BPS: ${deployDetails.requiredSplitBPS}
-
----
-
-`;
-
-    fs.writeFileSync(outputSummaryFile, outputMd, { flag: "as+" });
-    console.log(
-      `[INFO] Deployment details written/appended to ${outputSummaryFile}`
-    );
-
-    //////////////////////////////////////////////////////////////////////////////
-    // DEPLOYMENTS.md ENDS HERE
+    // DEPLOYMENT MANIFEST ENDS HERE
     //////////////////////////////////////////////////////////////////////////////
   }
 
@@ -196,11 +108,6 @@ Required Split BPS: ${deployDetails.requiredSplitBPS}
 
   // @dev delay to ensure logs are fully printed to disk
   await delay(EXTRA_DELAY_BETWEEN_TX);
-}
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+  return deployedFactoryAddresses;
+}
@@ -0,0 +1,222 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import fs from "fs";
+import path from "path";
+
+// @dev this module must not import hardhat, so that it may be used by scripts
+// run outside of the hardhat runtime (e.g. the SDK address book generator)
+
+export const DEPLOYMENT_MANIFESTS_DIRECTORY = path.join(
+  __dirname,
+  "../../deployments/manifests"
+);
+
+/**
+ * Roles a deployed contract may serve on a network and environment. The most
+ * recently deployed contract with a given role is the active contract for that
+ * role.
+ */
+export enum DeploymentRole {
+  SharedMinterFilter = "sharedMinterFilter",
+  SharedRandomizer = "sharedRandomizer",
+  EngineFactory = "engineFactory",
+  UniversalBytecodeStorageReader = "universalBytecodeStorageReader",
+  DependencyRegistry = "dependencyRegistry",
+  SplitAtomicFactory = "splitAtomicFactory",
+}
+
+export type DeploymentCompilerSettings = {
+  version: string;
+  optimizer: {
+    enabled: boolean;
+    runs: number;
+  };
+  viaIR: boolean;
+  evmVersion?: string;
+};
+
+/**
+ * Constructor argument as recorded in a deployment manifest. Arrays and
+ * structs are recorded as JSON arrays and objects, and BigNumbers and bigints
+ * as decimal strings, so that recorded args encode to the same constructor
+ * calldata as the args the contract was deployed with.
+ */
+export type DeploymentConstructorArg =
+  | string
+  | number
+  | boolean
+  | DeploymentConstructorArg[]
+  | { [key: string]: DeploymentConstructorArg };
+
+export type DeploymentManifestEntry = {
+  contractName: string;
+  address: string;
+  role?: DeploymentRole;
+  // null for contracts imported from legacy deployment logs, which did not
+  // record the following details
+  transactionHash: string | null;
+  deployer: string | null;
+  deployedAt: string | null;
+  compiler: DeploymentCompilerSettings | null;
+  constructorArgs: DeploymentConstructorArg[];
+  libraries: { [libraryName: string]: string };
+  // address of the factory that created the contract, if any
+  factory?: string;
+};
+
+export type DeploymentManifest = {
+  network: string;
+  environment: string;
+  chainId: number;
+  // in order of deployment
+  contracts: DeploymentManifestEntry[];
+};
+
+// chain ids of networks that deployments are recorded for
+export const DEPLOYMENT_CHAIN_IDS: { [network: string]: number } = {
+  mainnet: 1,
+  arbitrum: 42161,
+  base: 8453,
+  sepolia: 11155111,
+  "arbitrum-sepolia": 421614,
+  goerli: 5,
+  hardhat: 31337,
+};
+
+// environment names used by older deployment configs, and the environment
+// they are recorded as
+const LEGACY_ENVIRONMENT_NAMES: { [environment: string]: string } = {
+  "arbitrum-mainnet": "arbitrum",
+  "base-mainnet": "base",
+  "arbitrum-staging": "staging",
+  "arbitrum-dev": "dev",
+};
+
+export function normalizeDeploymentEnvironment(environment: string): string {
+  return LEGACY_ENVIRONMENT_NAMES[environment] ?? environment;
+}
+
+export function getDeploymentManifestPath(
+  networkName: string,
+  environment: string
+): string {
+  return path.join(
+    DEPLOYMENT_MANIFESTS_DIRECTORY,
+    networkName,
+    `${normalizeDeploymentEnvironment(environment)}.json`
+  );
+}
+
+/**
+ * Reads the deployment manifest of the given network and environment. Returns
+ * an empty manifest if nothing has been deployed there yet.
+ * @param networkName network name (e.g. "mainnet", "arbitrum", "sepolia")
+ * @param environment environment (e.g. "dev", "staging", "mainnet")
+ */
+export function readDeploymentManifest(
+  networkName: string,
+  environment: string
+): DeploymentManifest {
+  const manifestPath = getDeploymentManifestPath(networkName, environment);
+  if (!fs.existsSync(manifestPath)) {
+    const chainId = DEPLOYMENT_CHAIN_IDS[networkName];
+    if (chainId === undefined) {
+      throw new Error(`[ERROR] Unknown chain id for network ${networkName}`);
+    }
+    return {
+      network: networkName,
+      environment: normalizeDeploymentEnvironment(environment),
+      chainId,
+      contracts: [],
+    };
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+}
+
+export function writeDeploymentManifest(manifest: DeploymentManifest): string {
+  const manifestPath = getDeploymentManifestPath(
+    manifest.network,
+    manifest.environment
+  );
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+  return manifestPath;
+}
+
+/**
+ * Reads every deployment manifest in `deployments/manifests`, along with the
+ * path it was read from.
+ */
+export function readAllDeploymentManifests(): {
+  manifestPath: string;
+  manifest: DeploymentManifest;
+}[] {
+  if (!fs.existsSync(DEPLOYMENT_MANIFESTS_DIRECTORY)) {
+    return [];
+  }
+  return fs.readdirSync(DEPLOYMENT_MANIFESTS_DIRECTORY).flatMap((networkName) =>
+    fs
+      .readdirSync(path.join(DEPLOYMENT_MANIFESTS_DIRECTORY, networkName))
+      .filter((fileName) => fileName.endsWith(".json"))
+      .map((fileName) => {
+        const manifestPath = path.join(
+          DEPLOYMENT_MANIFESTS_DIRECTORY,
+          networkName,
+          fileName
+        );
+        return {
+          manifestPath,
+          manifest: JSON.parse(fs.readFileSync(manifestPath, "utf8")),
+        };
+      })
+  );
+}
+
+/**
+ * Appends a deployed contract to the manifest of the given network and
+ * environment.
+ * @returns path of the updated manifest
+ */
+export function appendToDeploymentManifest(
+  networkName: string,
+  environment: string,
+  entry: DeploymentManifestEntry
+): string {
+  const manifest = readDeploymentManifest(networkName, environment);
+  manifest.contracts.push(entry);
+  return writeDeploymentManifest(manifest);
+}
+
+/**
+ * Gets the active contract serving the given role on a network and
+ * environment, or undefined if there is none.
+ */
+export function getActiveDeployment(
+  networkName: string,
+  environment: string,
+  role: DeploymentRole
+): DeploymentManifestEntry | undefined {
+  return readDeploymentManifest(networkName, environment)
+    .contracts.filter((entry) => entry.role === role)
+    .pop();
+}
+
+/**
+ * Gets the address of the active contract serving the given role on a network
+ * and environment.
+ * @throws if no contract serves the role
+ */
+export function getActiveDeploymentAddress(
+  networkName: string,
+  environment: string,
+  role: DeploymentRole
+): string {
+  const activeDeployment = getActiveDeployment(networkName, environment, role);
+  if (!activeDeployment) {
+    throw new Error(
+      `No active ${role} found for network ${networkName} and environment ${environment}`
+    );
+  }
+  return activeDeployment.address;
+}
@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import hre, { ethers } from "hardhat";
+import { BigNumber, Contract } from "ethers";
+import {
+  appendToDeploymentManifest,
+  DeploymentCompilerSettings,
+  DeploymentConstructorArg,
+  DeploymentRole,
+} from "./deployment-manifest";
+import {
+  isDeploymentRehearsal,
+  recordRehearsedDeployment,
+} from "../deploy/deploy-rehearsal";
+
+type RecordDeploymentArgs = {
+  networkName: string;
+  environment: string;
+  contractName: string;
+  // deployed contract, as returned by a contract factory's deploy()
+  contract?: Contract;
+  // address and transaction, for contracts created by a factory contract
+  address?: string;
+  transactionHash?: string;
+  factory?: string;
+  constructorArgs?: unknown[];
+  libraries?: { [libraryName: string]: string };
+  role?: DeploymentRole;
+};
+
+async function getCompilerSettings(
+  contractName: string
+): Promise<DeploymentCompilerSettings | null> {
+  const { sourceName } = await hre.artifacts.readArtifact(contractName);
+  const buildInfo = await hre.artifacts.getBuildInfo(
+    `${sourceName}:${contractName}`
+  );
+  if (!buildInfo) {
+    return null;
+  }
+  const { optimizer, viaIR, evmVersion } = buildInfo.input.settings;
+  return {
+    version: buildInfo.solcLongVersion,
+    optimizer: {
+      enabled: optimizer.enabled ?? false,
+      runs: optimizer.runs ?? 200,
+    },
+    viaIR: viaIR ?? false,
+    ...(evmVersion ? { evmVersion } : {}),
+  };
+}
+
+/**
+ * Serializes the args a contract was deployed with for its deployment
+ * manifest entry, keeping arrays and structs intact.
+ */
+export function serializeConstructorArgs(
+  constructorArgs: unknown[]
+): DeploymentConstructorArg[] {
+  const serializeArg = (arg: unknown): DeploymentConstructorArg => {
+    if (BigNumber.isBigNumber(arg) || typeof arg === "bigint") {
+      return arg.toString();
+    }
+    if (
+      typeof arg === "string" ||
+      typeof arg === "number" ||
+      typeof arg === "boolean"
+    ) {
+      return arg;
+    }
+    if (arg instanceof Uint8Array) {
+      return ethers.utils.hexlify(arg);
+    }
+    if (Array.isArray(arg)) {
+      return arg.map(serializeArg);
+    }
+    if (arg !== null && typeof arg === "object") {
+      return Object.fromEntries(
+        Object.entries(arg).map(([key, value]) => [key, serializeArg(value)])
+      );
+    }
+    throw new Error(
+      `[ERROR] Unsupported constructor arg ${String(arg)}, expected ABI encodable values`
+    );
+  };
+  return constructorArgs.map(serializeArg);
+}
+
+/**
+ * Records a deployed contract in the deployment manifest of the network and
+ * environment it was deployed to, in `deployments/manifests`.
+ * Manifests are the source of truth for the active contract addresses used by
+ * these scripts and by the SDK, so every deployment script should record the
+ * contracts it deploys.
+ */
+export async function recordDeployment({
+  networkName,
+  environment,
+  contractName,
+  contract,
+  address,
+  transactionHash,
+  factory,
+  constructorArgs = [],
+  libraries = {},
+  role,
+}: RecordDeploymentArgs): Promise<void> {
+  const deployTransaction = contract?.deployTransaction;
+  const contractAddress = contract?.address ?? address;
+  if (!contractAddress) {
+    throw new Error(
+      `[ERROR] A deployed contract or address is required to record ${contractName}`
+    );
+  }
+  // @dev contracts deployed during a rehearsal only exist on a local fork, so
+  // are only named in the rehearsal report
+  if (isDeploymentRehearsal()) {
+    recordRehearsedDeployment(contractName, contractAddress);
+    return;
+  }
+  const deploymentTransactionHash =
+    deployTransaction?.hash ?? transactionHash ?? null;
+  const deployer =
+    deployTransaction?.from ??
+    (deploymentTransactionHash
+      ? (await ethers.provider.getTransaction(deploymentTransactionHash)).from
+      : null);
+
+  const manifestPath = appendToDeploymentManifest(networkName, environment, {
+    contractName,
+    address: contractAddress,
+    ...(role ? { role } : {}),
+    transactionHash: deploymentTransactionHash,
+    deployer,
+    deployedAt: new Date().toISOString(),
+    compiler: await getCompilerSettings(contractName),
+    constructorArgs: serializeConstructorArgs(constructorArgs),
+    libraries,
+    ...(factory ? { factory } : {}),
+  });
+  console.log(`[INFO] ${contractName} recorded in ${manifestPath}`);
+}
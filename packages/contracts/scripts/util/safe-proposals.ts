@@ -0,0 +1,392 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
+
+import fs from "fs";
+import path from "path";
+import hre, { ethers } from "hardhat";
+import { BigNumber, Wallet } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { EIP1193Provider, EthereumProvider } from "hardhat/types";
+import Safe, {
+  ContractNetworksConfig,
+  EthersAdapter,
+} from "@safe-global/protocol-kit";
+import SafeApiKit from "@safe-global/api-kit";
+import {
+  MetaTransactionData,
+  SafeMultisigTransactionResponse,
+} from "@safe-global/safe-core-sdk-types";
+import { getDeployerWallet } from "./get-deployer-wallet";
+import { chunkArray } from "./utils";
+import {
+  createNetworkFork,
+  getDeploymentRehearsal,
+  impersonateAccount,
+  isDeploymentRehearsal,
+} from "../deploy/deploy-rehearsal";
+
+// default number of transactions batched in a single MultiSend transaction
+export const DEFAULT_SAFE_BATCH_SIZE = 50;
+
+// version of the Safe Transaction Builder app the exported JSON targets
+const TRANSACTION_BUILDER_VERSION = "1.16.5";
+
+export type SafeProposalSigner = SignerWithAddress | Wallet;
+
+// @dev only the Safe Transaction Service endpoints used to propose
+// transactions, so a local service may be substituted in tests
+export type SafeTransactionService = Pick<
+  SafeApiKit,
+  "getPendingTransactions" | "proposeTransaction"
+>;
+
+export type SafeProposalConfig = {
+  safeAddress: string;
+  transactionServiceUrl: string;
+  // when defined, batches are exported as Safe Transaction Builder JSON files
+  // to this directory, relative to packages/contracts, instead of proposed
+  transactionBuilderExportDirectory?: string;
+};
+
+export type SafeProposalContext = {
+  signer: SafeProposalSigner;
+  safeAddress: string;
+  protocolKit: Safe;
+  transactionService: SafeTransactionService;
+};
+
+export type SafeProposalOptions = {
+  // max number of transactions per batch
+  batchSize?: number;
+  // name of the proposal, used to name exported files
+  name: string;
+  // simulate each batch on a local fork before proposing it
+  simulate?: boolean;
+};
+
+/**
+ * Returns the signer that sends or proposes transactions: the first ledger
+ * account of the network if `useLedgerSigner` is set, otherwise the deployer
+ * wallet.
+ * During a deployment rehearsal, the impersonated signer is returned instead.
+ */
+export async function getLedgerOrDeployerSigner(
+  useLedgerSigner: boolean
+): Promise<SafeProposalSigner> {
+  if (isDeploymentRehearsal()) {
+    // rehearsals impersonate the ledger or deployer wallet on a local fork
+    return ethers.getSigner(getDeploymentRehearsal().signerAddress);
+  }
+  if (useLedgerSigner) {
+    // Ethers adapter requires a signer with a provider so create one here
+    const ledgerAddress = hre.network.config.ledgerAccounts[0];
+    const ledgerSigner = await ethers.getSigner(ledgerAddress);
+    console.log(`[INFO] Using ledger wallet ${ledgerSigner.address}`);
+    return ledgerSigner;
+  }
+  const deployerWallet = getDeployerWallet();
+  if (!deployerWallet) {
+    throw new Error("[ERROR] Deployer wallet not found");
+  }
+  return deployerWallet.connect(ethers.provider);
+}
+
+/**
+ * Sets up the Safe SDK to propose transactions to the Safe at `safeAddress`
+ * from `signer`.
+ * @dev `contractNetworks` is only required for Safes on networks without
+ * official Safe deployments, e.g. local test networks
+ */
+export async function createSafeProposalContext({
+  signer,
+  safeAddress,
+  transactionServiceUrl,
+  transactionService,
+  contractNetworks,
+}: {
+  signer: SafeProposalSigner;
+  safeAddress: string;
+  transactionServiceUrl?: string;
+  transactionService?: SafeTransactionService;
+  contractNetworks?: ContractNetworksConfig;
+}): Promise<SafeProposalContext> {
+  const ethAdapter = new EthersAdapter({
+    ethers,
+    signerOrProvider: signer,
+  });
+  if (!transactionService) {
+    if (!transactionServiceUrl) {
+      throw new Error(
+        "[ERROR] A transaction service url is required to propose Safe transactions"
+      );
+    }
+    transactionService = new SafeApiKit({
+      txServiceUrl: transactionServiceUrl,
+      ethAdapter,
+    });
+  }
+  const protocolKit = await Safe.create({
+    ethAdapter,
+    safeAddress,
+    contractNetworks,
+  });
+  return { signer, safeAddress, protocolKit, transactionService };
+}
+
+/**
+ * Splits transactions into batches of at most `batchSize` transactions, each
+ * of which is sent as a single (MultiSend) Safe transaction.
+ */
+export function buildSafeBatches(
+  transactions: MetaTransactionData[],
+  batchSize: number = DEFAULT_SAFE_BATCH_SIZE
+): MetaTransactionData[][] {
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`[ERROR] Invalid Safe batch size ${batchSize}`);
+  }
+  return chunkArray(transactions, batchSize);
+}
+
+// local fork of the remote network Safe batches are simulated on, created on
+// first use and reset to the network's latest block by each simulation
+let simulationFork: EthereumProvider | null = null;
+
+/**
+ * Gets a local fork of the remote network hardhat is connected to, forked at
+ * the network's latest block.
+ */
+async function forkNetworkForSimulation(): Promise<EthereumProvider> {
+  const networkConfig = hre.network.config;
+  if (!simulationFork) {
+    simulationFork = await createNetworkFork(hre);
+  } else if ("url" in networkConfig) {
+    await simulationFork.request({
+      method: "hardhat_reset",
+      params: [
+        {
+          forking: {
+            jsonRpcUrl: networkConfig.url,
+            httpHeaders: networkConfig.httpHeaders,
+          },
+        },
+      ],
+    });
+  }
+  return simulationFork;
+}
+
+/**
+ * Executes every batch, in order, from the impersonated Safe on a local fork
+ * of the network, so failing batches are caught before they are proposed.
+ * The in-process hardhat network is not forked, but restored to a snapshot
+ * once the simulation completes. Forks of remote networks are reset to an
+ * empty local chain instead, releasing the remote state they cached.
+ * @dev transactions of a batch are executed as calls from the Safe, which is
+ * how the MultiSend contract executes them
+ */
+export async function simulateSafeBatches(
+  safeAddress: string,
+  batches: MetaTransactionData[][]
+) {
+  const isLocalNetwork = !("url" in hre.network.config);
+  const provider: EIP1193Provider = isLocalNetwork
+    ? hre.network.provider
+    : await forkNetworkForSimulation();
+  const snapshotId = isLocalNetwork
+    ? await provider.request({ method: "evm_snapshot" })
+    : null;
+  try {
+    await impersonateAccount(provider, safeAddress);
+    for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
+      const batch = batches[batchIndex];
+      for (let index = 0; index < batch.length; index++) {
+        const { to, value, data } = batch[index];
+        try {
+          await provider.request({
+            method: "eth_sendTransaction",
+            params: [
+              {
+                from: safeAddress,
+                to,
+                value: ethers.utils.hexValue(BigNumber.from(value)),
+                data,
+              },
+            ],
+          });
+        } catch (error) {
+          throw new Error(
+            `[ERROR] Simulation of Safe batch ${batchIndex + 1} failed at transaction ${index + 1} to ${to}: ${error instanceof Error ? error.message : error}`
+          );
+        }
+      }
+    }
+    console.log(
+      `[INFO] Simulated ${batches.length} Safe batches from ${safeAddress}`
+    );
+  } finally {
+    if (snapshotId !== null) {
+      await provider.request({ method: "evm_revert", params: [snapshotId] });
+      await provider.request({
+        method: "hardhat_stopImpersonatingAccount",
+        params: [safeAddress],
+      });
+    } else {
+      await provider.request({ method: "hardhat_reset", params: [] });
+    }
+  }
+}
+
+function isSameSafeTransaction(
+  pendingTransaction: SafeMultisigTransactionResponse,
+  transaction: { to: string; value: string; data: string; operation: number }
+): boolean {
+  return (
+    pendingTransaction.to.toLowerCase() === transaction.to.toLowerCase() &&
+    BigNumber.from(pendingTransaction.value).eq(transaction.value) &&
+    (pendingTransaction.data ?? "0x").toLowerCase() ===
+      transaction.data.toLowerCase() &&
+    pendingTransaction.operation === transaction.operation
+  );
+}
+
+/**
+ * Proposes each batch of transactions to the Safe, signed by the context's
+ * signer, after simulating all batches.
+ * Batches matching a transaction already pending on the Safe are not proposed
+ * again, and new batches are proposed with nonces following the pending
+ * transactions, so an interrupted proposal may safely be rerun.
+ * Returns the Safe transaction hash of each batch, in order.
+ */
+export async function proposeSafeTransactions(
+  context: SafeProposalContext,
+  transactions: MetaTransactionData[],
+  { batchSize, simulate = true }: Omit<SafeProposalOptions, "name">
+): Promise<string[]> {
+  const { signer, safeAddress, protocolKit, transactionService } = context;
+  const batches = buildSafeBatches(transactions, batchSize);
+  if (simulate) {
+    await simulateSafeBatches(safeAddress, batches);
+  }
+
+  const currentNonce = await protocolKit.getNonce();
+  const { results: pendingTransactions } =
+    await transactionService.getPendingTransactions(safeAddress, currentNonce);
+  let nonce = pendingTransactions.reduce(
+    (nextNonce, { nonce }) => Math.max(nextNonce, nonce + 1),
+    currentNonce
+  );
+  const senderAddress = await signer.getAddress();
+
+  const safeTxHashes: string[] = [];
+  for (let index = 0; index < batches.length; index++) {
+    const safeTransaction = await protocolKit.createTransaction({
+      safeTransactionData: batches[index],
+      options: { nonce },
+    });
+    const pendingTransaction = pendingTransactions.find((pending) =>
+      isSameSafeTransaction(pending, safeTransaction.data)
+    );
+    if (pendingTransaction) {
+      console.log(
+        `[INFO] Safe batch ${index + 1} is already pending with nonce ${pendingTransaction.nonce}, skipping`
+      );
+      safeTxHashes.push(pendingTransaction.safeTxHash);
+      continue;
+    }
+    const safeTxHash = await protocolKit.getTransactionHash(safeTransaction);
+    const signature = await protocolKit.signTransactionHash(safeTxHash);
+    await transactionService.proposeTransaction({
+      safeAddress,
+      safeTransactionData: safeTransaction.data,
+      safeTxHash,
+      senderAddress,
+      senderSignature: signature.data,
+    });
+    console.log(
+      `[INFO] Proposed Safe batch ${index + 1} of ${batches.length} with nonce ${nonce}`
+    );
+    safeTxHashes.push(safeTxHash);
+    nonce++;
+  }
+  return safeTxHashes;
+}
+
+/**
+ * Writes each batch of transactions to a JSON file that may be imported in the
+ * Safe Transaction Builder app, after simulating all batches, so transactions
+ * may be proposed without connecting a signer to this script.
+ * Returns the path of each written file, in order.
+ */
+export async function exportSafeTransactionBuilderBatches(
+  safeAddress: string,
+  transactions: MetaTransactionData[],
+  exportDirectory: string,
+  { batchSize, name, simulate = true }: SafeProposalOptions
+): Promise<string[]> {
+  const batches = buildSafeBatches(transactions, batchSize);
+  if (simulate) {
+    await simulateSafeBatches(safeAddress, batches);
+  }
+  const { chainId } = await ethers.provider.getNetwork();
+  const outputDirectory = path.resolve(hre.config.paths.root, exportDirectory);
+  fs.mkdirSync(outputDirectory, { recursive: true });
+
+  return batches.map((batch, index) => {
+    const batchName =
+      batches.length > 1 ? `${name}-${index + 1}-of-${batches.length}` : name;
+    const transactionBuilderBatch = {
+      version: "1.0",
+      chainId: chainId.toString(),
+      createdAt: Date.now(),
+      meta: {
+        name: batchName,
+        description: "",
+        txBuilderVersion: TRANSACTION_BUILDER_VERSION,
+        createdFromSafeAddress: safeAddress,
+        createdFromOwnerAddress: "",
+      },
+      transactions: batch.map(({ to, value, data }) => ({
+        to,
+        // @dev the Transaction Builder expects decimal wei values
+        value: BigNumber.from(value).toString(),
+        data,
+        contractMethod: null,
+        contractInputsValues: null,
+      })),
+    };
+    const outputPath = path.join(outputDirectory, `${batchName}.json`);
+    fs.writeFileSync(
+      outputPath,
+      `${JSON.stringify(transactionBuilderBatch, null, 2)}\n`
+    );
+    console.log(`[INFO] Exported Safe batch ${index + 1} to ${outputPath}`);
+    return outputPath;
+  });
+}
+
+/**
+ * Proposes transactions to the configured Safe from `signer`, or exports them
+ * for the Safe Transaction Builder if an export directory is configured.
+ */
+export async function submitSafeTransactions(
+  signer: SafeProposalSigner,
+  config: SafeProposalConfig,
+  transactions: MetaTransactionData[],
+  options: SafeProposalOptions
+) {
+  if (config.transactionBuilderExportDirectory) {
+    await exportSafeTransactionBuilderBatches(
+      config.safeAddress,
+      transactions,
+      config.transactionBuilderExportDirectory,
+      options
+    );
+    return;
+  }
+  const context = await createSafeProposalContext({
+    signer,
+    safeAddress: config.safeAddress,
+    transactionServiceUrl: config.transactionServiceUrl,
+  });
+  await proposeSafeTransactions(context, transactions, options);
+}
@@ -1,5 +1,4 @@
 import prompt from "prompt";
-import fs from "fs";
 import path from "path";
 import { ProductClassEnum } from "./constants";
 var util = require("util");
@@ -135,19 +134,6 @@ export async function getConfigInputs(
       Please ensure the file exists (e.g. deployments/engine/V3/internal-testing/dev-example/minter-deploy-config-01.dev.ts)`
     );
   }
-  // record all deployment logs to a markdown file
-  try {
-    const pathToMyLogFile = path.join(inputFileDirectory, "DEPLOYMENT_LOGS.md");
-    const outputMD = `
-      ----------------------------------------
-      [INFO] Datetime of deployment: ${new Date().toISOString()}
-      [INFO] Deployment configuration file: ${fullDeploymentConfigPath}
-
-    `;
-    fs.writeFileSync(pathToMyLogFile, outputMD, { flag: "as+" });
-  } catch (error) {
-    console.error("[ERROR] Updating deployment file failed:", error);
-  }
   return {
     deployConfigDetailsArray,
     deployNetworkConfiguration,
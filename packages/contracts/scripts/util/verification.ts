@@ -1,32 +1,523 @@
-import hre from "hardhat";
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
 
-// Perform automated verification on etherscan, and if it fails, provide the standard verification command
-// @dev does not support complex constructor arguments that require external json files for constructor args (e.g. V3 Engine core)
-export async function tryVerify(
+import hre, { ethers } from "hardhat";
+import fetch from "node-fetch";
+import { Etherscan } from "@nomicfoundation/hardhat-verify/etherscan";
+import {
+  DeploymentManifestEntry,
+  readDeploymentManifest,
+} from "./deployment-manifest";
+import { delay } from "./utils";
+import { isDeploymentRehearsal } from "../deploy/deploy-rehearsal";
+
+// default number of verification attempts per contract
+export const DEFAULT_VERIFICATION_MAX_ATTEMPTS = 5;
+// default delay before retrying a failed verification, doubled after every
+// failed attempt
+export const DEFAULT_VERIFICATION_INITIAL_BACKOFF_MS = 15000;
+
+// block explorers of the networks contracts are verified on, and the env
+// variable holding the explorer's API key
+const VERIFICATION_EXPLORERS: {
+  [network: string]: { name: string; apiKeyEnv: string };
+} = {
+  mainnet: { name: "Etherscan", apiKeyEnv: "ETHERSCAN_API_KEY" },
+  sepolia: { name: "Etherscan", apiKeyEnv: "ETHERSCAN_API_KEY" },
+  arbitrum: { name: "Arbiscan", apiKeyEnv: "ARBISCAN_API_KEY" },
+  "arbitrum-sepolia": { name: "Arbiscan", apiKeyEnv: "ARBISCAN_API_KEY" },
+  base: { name: "Basescan", apiKeyEnv: "BASESCAN_API_KEY" },
+};
+
+// hardhat-verify errors caused by the explorer not having indexed a contract
+// yet, or by the explorer being unavailable, which may succeed when retried
+const RETRYABLE_VERIFICATION_ERRORS = [
+  "ContractVerificationMissingBytecodeError",
+  "ContractVerificationInvalidStatusCodeError",
+  "ContractStatusPollingInvalidStatusCodeError",
+  "ContractStatusPollingResponseNotOkError",
+  "DeployedBytecodeNotFoundError",
+  "NetworkRequestError",
+  "VerificationAPIUnexpectedMessageError",
+];
+
+// delay before checking the status of a submitted proxy verification
+const PROXY_VERIFICATION_POLL_DELAY_MS = 5000;
+
+// runtime bytecode of EIP-1167 minimal proxies, e.g. the Engine contracts
+// cloned by EngineFactoryV0
+const EIP1167_BYTECODE_REGEX =
+  /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/i;
+
+export type VerificationTask = {
+  contractName: string;
+  address: string;
+  // passed to hardhat-verify as is, so may be any ABI encodable values
+  constructorArgs: unknown[];
+  // fully qualified library names, to the address they are linked to
+  libraries: { [libraryName: string]: string };
+  // implementation of an EIP-1167 clone, which is verified as a proxy of its
+  // implementation
+  cloneOf?: string;
+};
+
+// outcome of a single verification attempt
+export type VerificationAttempt =
+  | { status: "verified" | "already verified" }
+  | { status: "failed"; retryable: boolean; message: string };
+
+export type VerificationResult = {
+  task: VerificationTask;
+  status: "verified" | "already verified" | "failed";
+  attempts: number;
+  message?: string;
+};
+
+export type VerificationQueueOptions = {
+  maxAttempts?: number;
+  initialBackoffMs?: number;
+};
+
+/**
+ * Returns the implementation address of an EIP-1167 clone from its runtime
+ * bytecode, or undefined if the bytecode is not a minimal proxy.
+ */
+export function getCloneImplementation(bytecode: string): string | undefined {
+  const match = EIP1167_BYTECODE_REGEX.exec(bytecode);
+  return match ? ethers.utils.getAddress(`0x${match[1]}`) : undefined;
+}
+
+// entry of a contract that is not recorded in the manifest, assumed to have no
+// constructor args
+function getUnrecordedEntry(
   contractName: string,
-  contractAddress: string,
-  constructorArguments: any[],
+  address: string
+): DeploymentManifestEntry {
+  return {
+    contractName,
+    address,
+    transactionHash: null,
+    deployer: null,
+    deployedAt: null,
+    compiler: null,
+    constructorArgs: [],
+    libraries: {},
+  };
+}
+
+/**
+ * Builds the verification tasks of deployment manifest entries. Libraries
+ * linked by an entry are verified before it, and contracts created by a
+ * factory are verified as proxies of their implementation if they are
+ * EIP-1167 clones, after their implementation.
+ * @param entries manifest entries to verify
+ * @param manifestEntries all entries of the manifest, used to look up the
+ * constructor args and libraries of implementations that are also recorded
+ */
+export async function getVerificationTasks(
+  entries: DeploymentManifestEntry[],
+  manifestEntries: DeploymentManifestEntry[] = entries
+): Promise<VerificationTask[]> {
+  const tasks: VerificationTask[] = [];
+  const cloneTasks: VerificationTask[] = [];
+  const queuedAddresses = new Set<string>();
+
+  const queueEntry = (entry: DeploymentManifestEntry) => {
+    if (queuedAddresses.has(entry.address.toLowerCase())) {
+      return;
+    }
+    Object.entries(entry.libraries).forEach(([libraryName, address]) =>
+      queueEntry(
+        manifestEntries.find(
+          (manifestEntry) =>
+            manifestEntry.address.toLowerCase() === address.toLowerCase()
+        ) ?? getUnrecordedEntry(libraryName, address)
+      )
+    );
+    queuedAddresses.add(entry.address.toLowerCase());
+    tasks.push({
+      contractName: entry.contractName,
+      address: entry.address,
+      constructorArgs: entry.constructorArgs,
+      libraries: entry.libraries,
+    });
+  };
+
+  for (const entry of entries) {
+    const implementation = entry.factory
+      ? getCloneImplementation(await ethers.provider.getCode(entry.address))
+      : undefined;
+    if (!implementation) {
+      queueEntry(entry);
+      continue;
+    }
+    // @dev clones share the contract name of their implementation, whose
+    // libraries are detected from its bytecode if it is not recorded
+    queueEntry(
+      manifestEntries.find(
+        (manifestEntry) =>
+          manifestEntry.address.toLowerCase() === implementation.toLowerCase()
+      ) ?? getUnrecordedEntry(entry.contractName, implementation)
+    );
+    if (!queuedAddresses.has(entry.address.toLowerCase())) {
+      queuedAddresses.add(entry.address.toLowerCase());
+      cloneTasks.push({
+        contractName: entry.contractName,
+        address: entry.address,
+        constructorArgs: [],
+        libraries: {},
+        cloneOf: implementation,
+      });
+    }
+  }
+  return [...tasks, ...cloneTasks];
+}
+
+/**
+ * Gets the block explorer of the network hardhat is connected to, e.g.
+ * Etherscan, Arbiscan or Basescan.
+ */
+export async function getVerificationExplorer(
   networkName: string
-) {
-  const standardVerify = "yarn hardhat verify";
+): Promise<Etherscan> {
+  const explorer = VERIFICATION_EXPLORERS[networkName];
+  if (!explorer) {
+    throw new Error(
+      `[ERROR] Verification is not supported on network ${networkName}, must be one of: ${Object.keys(
+        VERIFICATION_EXPLORERS
+      ).join(", ")}`
+    );
+  }
+  const chainConfig = await Etherscan.getCurrentChainConfig(
+    hre.network.name,
+    hre.network.provider,
+    hre.config.etherscan.customChains
+  );
   try {
-    console.log(`[INFO] Verifying ${contractName} contract deployment...`);
+    return Etherscan.fromChainConfig(hre.config.etherscan.apiKey, chainConfig);
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.constructor.name === "MissingApiKeyError"
+    ) {
+      throw new Error(
+        `[ERROR] ${explorer.name} API key is not configured, set ${explorer.apiKeyEnv} in your .env file`
+      );
+    }
+    throw error;
+  }
+}
+
+async function getFullyQualifiedName(
+  contractName: string
+): Promise<string | undefined> {
+  if (contractName.includes(":")) {
+    return contractName;
+  }
+  // @dev hardhat-verify infers the contract from its bytecode if the contract
+  // name does not match an artifact, e.g. for contracts imported from legacy
+  // deployment logs
+  if (!(await hre.artifacts.artifactExists(contractName))) {
+    return undefined;
+  }
+  const { sourceName } = await hre.artifacts.readArtifact(contractName);
+  return `${sourceName}:${contractName}`;
+}
+
+// calls the API shared by Etherscan-family explorers
+async function requestExplorerApi(
+  explorer: Etherscan,
+  params: { [param: string]: string },
+  method: "GET" | "POST"
+): Promise<{ status: string; result: string }> {
+  const url = new URL(explorer.apiUrl);
+  if (explorer.chainId !== undefined) {
+    url.searchParams.set("chainid", String(explorer.chainId));
+  }
+  const requestParams = new URLSearchParams({
+    ...params,
+    apikey: explorer.apiKey,
+  });
+  if (method === "GET") {
+    requestParams.forEach((value, param) => url.searchParams.set(param, value));
+    return (await fetch(url.toString())).json();
+  }
+  return (await fetch(url.toString(), { method, body: requestParams })).json();
+}
+
+async function verifyClone(
+  explorer: Etherscan,
+  task: VerificationTask
+): Promise<VerificationAttempt> {
+  // @dev the explorer links a proxy to its implementation's verified source
+  if (!(await explorer.isVerified(task.cloneOf!))) {
+    return {
+      status: "failed",
+      retryable: true,
+      message: `implementation ${task.cloneOf} is not verified`,
+    };
+  }
+  const { status, result: guid } = await requestExplorerApi(
+    explorer,
+    {
+      module: "contract",
+      action: "verifyproxycontract",
+      address: task.address,
+      expectedimplementation: task.cloneOf!,
+    },
+    "POST"
+  );
+  if (status !== "1") {
+    return { status: "failed", retryable: true, message: guid };
+  }
+  // @dev proxy verification is processed asynchronously
+  await delay(PROXY_VERIFICATION_POLL_DELAY_MS);
+  const { status: checkStatus, result } = await requestExplorerApi(
+    explorer,
+    { module: "contract", action: "checkproxyverification", guid },
+    "GET"
+  );
+  if (checkStatus === "1") {
+    return { status: "verified" };
+  }
+  return {
+    status: "failed",
+    retryable: /pending/i.test(result),
+    message: result,
+  };
+}
+
+/**
+ * Attempts to verify a single contract on the explorer, as a proxy of its
+ * implementation if it is a clone.
+ */
+export async function attemptVerification(
+  explorer: Etherscan,
+  task: VerificationTask
+): Promise<VerificationAttempt> {
+  try {
+    if (task.cloneOf) {
+      return await verifyClone(explorer, task);
+    }
+    if (await explorer.isVerified(task.address)) {
+      return { status: "already verified" };
+    }
     await hre.run("verify:verify", {
-      address: contractAddress,
-      constructorArguments: constructorArguments,
+      address: task.address,
+      constructorArguments: task.constructorArgs,
+      libraries: task.libraries,
+      contract: await getFullyQualifiedName(task.contractName),
     });
+    return { status: "verified" };
+  } catch (error) {
+    return {
+      status: "failed",
+      retryable:
+        error instanceof Error &&
+        RETRYABLE_VERIFICATION_ERRORS.includes(error.constructor.name),
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Verifies each task in order, using `verify`. Tasks that fail with a
+ * retryable error are queued again after an exponential backoff, while the
+ * remaining tasks are verified, until they succeed or run out of attempts.
+ * Clones fail without further attempts once their implementation has failed.
+ * Returns the result of each task, in order of completion.
+ */
+export async function runVerificationQueue(
+  tasks: VerificationTask[],
+  verify: (task: VerificationTask) => Promise<VerificationAttempt>,
+  {
+    maxAttempts = DEFAULT_VERIFICATION_MAX_ATTEMPTS,
+    initialBackoffMs = DEFAULT_VERIFICATION_INITIAL_BACKOFF_MS,
+  }: VerificationQueueOptions = {}
+): Promise<VerificationResult[]> {
+  const queue = tasks.map((task) => ({ task, attempts: 0, retryAt: 0 }));
+  const results: VerificationResult[] = [];
+  // lowercase addresses of tasks that failed without further attempts
+  const failedAddresses = new Set<string>();
+  while (queue.length > 0) {
+    // @dev sort is stable, so tasks that are due keep their order
+    queue.sort((a, b) => a.retryAt - b.retryAt);
+    const queued = queue.shift()!;
+    // @dev the explorer only verifies clones of verified implementations
+    if (
+      queued.task.cloneOf &&
+      failedAddresses.has(queued.task.cloneOf.toLowerCase())
+    ) {
+      const message = `implementation ${queued.task.cloneOf} failed verification`;
+      console.log(
+        `[ERROR] Verification of ${queued.task.contractName} at ${queued.task.address} failed: ${message}`
+      );
+      failedAddresses.add(queued.task.address.toLowerCase());
+      results.push({
+        task: queued.task,
+        status: "failed",
+        attempts: queued.attempts,
+        message,
+      });
+      continue;
+    }
+    const wait = queued.retryAt - Date.now();
+    if (wait > 0) {
+      await delay(wait);
+    }
+    const { task } = queued;
+    const attempts = queued.attempts + 1;
+    const attempt = await verify(task);
+    if (attempt.status !== "failed") {
+      console.log(
+        `[INFO] ${task.contractName} at ${task.address} is ${attempt.status}`
+      );
+      results.push({ task, status: attempt.status, attempts });
+    } else if (attempt.retryable && attempts < maxAttempts) {
+      const backoffMs = initialBackoffMs * 2 ** (attempts - 1);
+      console.log(
+        `[WARN] Verification of ${task.contractName} at ${task.address} failed (attempt ${attempts} of ${maxAttempts}), retrying in ${backoffMs / 1000}s: ${attempt.message}`
+      );
+      queue.push({ task, attempts, retryAt: Date.now() + backoffMs });
+    } else {
+      console.log(
+        `[ERROR] Verification of ${task.contractName} at ${task.address} failed: ${attempt.message}`
+      );
+      failedAddresses.add(task.address.toLowerCase());
+      results.push({
+        task,
+        status: "failed",
+        attempts,
+        message: attempt.message,
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Logs a status report of verification results, listing every contract that
+ * remains unverified.
+ * Returns the results of unverified contracts.
+ */
+export function logVerificationReport(
+  results: VerificationResult[],
+  explorer?: Etherscan
+): VerificationResult[] {
+  const unverified = results.filter(({ status }) => status === "failed");
+  console.log(
+    `[INFO] Verification report: ${results.length - unverified.length} of ${results.length} contracts verified`
+  );
+  for (const { task, attempts, message } of unverified) {
+    const url = explorer ? ` (${explorer.getContractUrl(task.address)})` : "";
     console.log(
-      `[INFO] ${contractName} contract verified on Etherscan at ${contractAddress}`
+      `[WARN] ${task.contractName} at ${task.address}${url} is unverified after ${attempts} attempts: ${message}`
     );
-  } catch (error) {
+  }
+  if (unverified.length > 0) {
     console.log(
-      `[WARN] Etherscan verification of ${contractName} failed: ${error}`
+      `[ACTION] Fix the issues above, then run \`yarn verify <network>\` to retry verification`
+    );
+  }
+  return unverified;
+}
+
+/**
+ * Verifies contracts on the explorer of the network hardhat is connected to,
+ * retrying with backoff, and logs a status report.
+ * Returns the results of unverified contracts.
+ */
+export async function verifyContracts(
+  networkName: string,
+  tasks: VerificationTask[],
+  options?: VerificationQueueOptions
+): Promise<VerificationResult[]> {
+  // @dev contracts deployed during a rehearsal only exist on a local fork
+  if (isDeploymentRehearsal()) {
+    console.log(`[INFO] Skipping verification during rehearsal`);
+    return [];
+  }
+  const explorer = await getVerificationExplorer(networkName);
+  const results = await runVerificationQueue(
+    tasks,
+    (task) => attemptVerification(explorer, task),
+    options
+  );
+  return logVerificationReport(results, explorer);
+}
+
+/**
+ * Verifies contracts recorded in the deployment manifest of a network and
+ * environment, with their recorded constructor args and libraries.
+ * Returns the results of unverified contracts.
+ * @param addresses verify only these recorded contracts, if defined
+ * @param fromIndex verify only contracts recorded from this manifest index,
+ * e.g. the contracts recorded by a deployment
+ */
+export async function verifyDeployments({
+  networkName,
+  environment,
+  addresses,
+  fromIndex = 0,
+  ...options
+}: {
+  networkName: string;
+  environment: string;
+  addresses?: string[];
+  fromIndex?: number;
+} & VerificationQueueOptions): Promise<VerificationResult[]> {
+  if (isDeploymentRehearsal()) {
+    console.log(`[INFO] Skipping verification during rehearsal`);
+    return [];
+  }
+  const { contracts } = readDeploymentManifest(networkName, environment);
+  const entries = contracts
+    .slice(fromIndex)
+    .filter(
+      ({ address }) =>
+        !addresses ||
+        addresses.some(
+          (verifiedAddress) =>
+            verifiedAddress.toLowerCase() === address.toLowerCase()
+        )
     );
+  console.log(
+    `[INFO] Verifying ${entries.length} contracts recorded on ${networkName} ${environment}`
+  );
+  return verifyContracts(
+    networkName,
+    await getVerificationTasks(entries, contracts),
+    options
+  );
+}
+
+/**
+ * Verifies a single contract that is not recorded in a deployment manifest,
+ * retrying with backoff, and logs the standard verification command if it
+ * remains unverified.
+ * @dev does not support complex constructor arguments that require external
+ * json files for constructor args (e.g. V3 Engine core)
+ */
+export async function tryVerify(
+  contractName: string,
+  contractAddress: string,
+  constructorArguments: any[],
+  networkName: string
+) {
+  const unverified = await verifyContracts(networkName, [
+    {
+      contractName,
+      address: contractAddress,
+      constructorArgs: constructorArguments,
+      libraries: {},
+    },
+  ]);
+  if (unverified.length > 0) {
     console.log(`[ACTION] Verify ${contractName} contract deployment with:`);
     console.log(
-      `${standardVerify} --network ${networkName} ${contractAddress} ${constructorArguments.join(
-        " "
-      )}`
+      `yarn hardhat verify --network ${networkName} ${contractAddress} ${constructorArguments
+        .map(String)
+        .join(" ")}`
     );
   }
 }
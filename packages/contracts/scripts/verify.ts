@@ -1,25 +1,46 @@
-import { tryVerify } from "./util/verification";
+// SPDX-License-Identifier: LGPL-3.0-only
+// Created By: Art Blocks Inc.
 
-type T_Inputs = {
-  address: string;
-  network: string;
-  contractName: string;
-  args: any[];
-};
-
-// FILL THIS OUT
-
-const inputs: T_Inputs = {
-  address: "",
-  network: "",
-  contractName: "",
-  args: [],
-};
+import { readAllDeploymentManifests } from "./util/deployment-manifest";
+import { verifyDeployments } from "./util/verification";
+import { getNetworkName } from "./util/utils";
 
+/**
+ * This script verifies every contract recorded in the deployment manifests of
+ * the network it is run on, e.g.:
+ *
+ *   yarn verify mainnet
+ *
+ * Contracts that are already verified are skipped, failed verifications are
+ * retried with backoff, and contracts that remain unverified are listed in a
+ * status report at the end, so the script may be rerun until all contracts are
+ * verified.
+ */
 async function main() {
-  const { address, network, contractName, args } = inputs;
-  // verify
-  await tryVerify(contractName, address, args, network);
+  const networkName = await getNetworkName();
+  const manifests = readAllDeploymentManifests().filter(
+    ({ manifest }) => manifest.network === networkName
+  );
+  if (manifests.length === 0) {
+    throw new Error(
+      `[ERROR] No deployment manifests found for network ${networkName}`
+    );
+  }
+
+  let unverifiedCount = 0;
+  for (const { manifest } of manifests) {
+    const unverified = await verifyDeployments({
+      networkName,
+      environment: manifest.environment,
+    });
+    unverifiedCount += unverified.length;
+  }
+  if (unverifiedCount > 0) {
+    throw new Error(
+      `[ERROR] ${unverifiedCount} contracts on ${networkName} remain unverified`
+    );
+  }
+  console.log(`[INFO] All contracts on ${networkName} are verified`);
 }
 
 main()
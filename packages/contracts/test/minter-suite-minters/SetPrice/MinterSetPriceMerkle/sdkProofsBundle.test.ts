@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { setupConfigWitMinterFilterV2Suite } from "../../../util/fixtures";
+import { deployAndGet, deployCore, safeAddProject } from "../../../util/common";
+// proofs bundle exported by the SDK's allowlist toolkit, which asserts that
+// its own output matches this fixture
+import proofsBundle from "../../../../../sdk/src/allowlist/fixtures/proofs-bundle.json";
+
+const TARGET_MINTER_NAME = "MinterSetPriceMerkleV5";
+
+/**
+ * These tests verify that proofs exported by the SDK are accepted by the
+ * on-chain MerkleLib verifier, so that the SDK's hashing stays in sync with
+ * MerkleLib.sol.
+ */
+describe(`${TARGET_MINTER_NAME} SDK proofs bundle`, async function () {
+  async function _beforeEach() {
+    const config = await loadFixture(setupConfigWitMinterFilterV2Suite);
+    ({
+      genArt721Core: config.genArt721Core,
+      randomizer: config.randomizer,
+      adminACL: config.adminACL,
+    } = await deployCore(config, "GenArt721CoreV3", config.coreRegistry));
+
+    config.delegationRegistry = await deployAndGet(
+      config,
+      "DelegationRegistry",
+      []
+    );
+
+    await config.genArt721Core.updateMinterContract(
+      config.minterFilter.address
+    );
+    config.minter = await deployAndGet(config, TARGET_MINTER_NAME, [
+      config.minterFilter.address,
+      config.delegationRegistry.address,
+    ]);
+    await config.minterFilter
+      .connect(config.accounts.deployer)
+      .approveMinterGlobally(config.minter.address);
+
+    await safeAddProject(
+      config.genArt721Core,
+      config.accounts.deployer,
+      config.accounts.artist.address
+    );
+    await config.minterFilter
+      .connect(config.accounts.deployer)
+      .setMinterForProject(
+        config.projectZero,
+        config.genArt721Core.address,
+        config.minter.address
+      );
+    await config.minter
+      .connect(config.accounts.artist)
+      .updateMerkleRoot(
+        config.projectZero,
+        config.genArt721Core.address,
+        proofsBundle.merkleRoot
+      );
+
+    return config;
+  }
+
+  it("stores the bundle's merkle root for the project", async function () {
+    const config = await loadFixture(_beforeEach);
+    const [, , merkleRoot] = await config.minter.merkleProjectConfig(
+      config.projectZero,
+      config.genArt721Core.address
+    );
+    expect(merkleRoot).to.equal(proofsBundle.merkleRoot);
+  });
+
+  it("hashes every bundle address the same way as the SDK", async function () {
+    const config = await loadFixture(_beforeEach);
+    for (const { address } of proofsBundle.entries) {
+      expect(await config.minter.hashAddress(address)).to.equal(
+        ethers.utils.solidityKeccak256(["address"], [address])
+      );
+    }
+  });
+
+  it("verifies every proof in the bundle on-chain", async function () {
+    const config = await loadFixture(_beforeEach);
+    for (const { address, proof } of proofsBundle.entries) {
+      expect(
+        await config.minter.processProofForAddress(proof, address)
+      ).to.equal(proofsBundle.merkleRoot);
+    }
+  });
+
+  it("does not verify a bundle proof for a different address", async function () {
+    const config = await loadFixture(_beforeEach);
+    const [firstEntry] = proofsBundle.entries;
+    expect(
+      await config.minter.processProofForAddress(
+        firstEntry.proof,
+        config.accounts.user.address
+      )
+    ).to.not.equal(proofsBundle.merkleRoot);
+  });
+});
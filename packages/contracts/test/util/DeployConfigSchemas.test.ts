@@ -0,0 +1,128 @@
+import { assert } from "chai";
+import {
+  deployNetworkConfigurationSchema,
+  engineContractDeployConfigSchema,
+  formatDeployConfigIssues,
+  sharedMinterDeployConfigSchema,
+  sharedMinterFilterDeployConfigSchema,
+} from "../../scripts/deploy/deploy-config-schemas";
+import { ZERO_ADDRESS } from "../../scripts/util/constants";
+
+const checksummedAddress = "0xf4AC1A3904A1ED2c9E969666A24541bB6e4Cd39f";
+
+const validSharedMinterConfig = {
+  network: "sepolia",
+  environment: "dev",
+  minterName: "MinterSetPriceV5",
+  minterFilterAddress: checksummedAddress,
+  approveMinterGlobally: true,
+};
+
+const validEngineConfig = {
+  productClass: "Studio",
+  engineCoreContractType: 0,
+  tokenName: "Art Blocks Studio | 1",
+  tokenTicker: "ABSTUDIO_1",
+  newSuperAdminAddress: checksummedAddress,
+  renderProviderAddress: checksummedAddress,
+  platformProviderAddress: ZERO_ADDRESS,
+  startingProjectId: 0,
+  autoApproveArtistSplitProposals: true,
+  nullPlatformProvider: true,
+  allowArtistProjectActivation: true,
+  adminACLContract: ZERO_ADDRESS,
+};
+
+function getIssues(
+  result: ReturnType<typeof sharedMinterDeployConfigSchema.safeParse>
+) {
+  return result.success ? [] : formatDeployConfigIssues("config", result.error);
+}
+
+describe("Deployment config schemas", async function () {
+  it("accepts a valid shared minter config", function () {
+    const result = sharedMinterDeployConfigSchema.safeParse(
+      validSharedMinterConfig
+    );
+    assert.isTrue(result.success);
+  });
+
+  it("rejects non-checksummed addresses", function () {
+    const result = sharedMinterDeployConfigSchema.safeParse({
+      ...validSharedMinterConfig,
+      minterFilterAddress: checksummedAddress.toLowerCase(),
+    });
+    assert.deepEqual(getIssues(result), [
+      "config.minterFilterAddress: Must be a checksummed address",
+    ]);
+  });
+
+  it("rejects unknown fields", function () {
+    const result = sharedMinterDeployConfigSchema.safeParse({
+      ...validSharedMinterConfig,
+      minterFilterAdress: checksummedAddress,
+    });
+    assert.isFalse(result.success);
+  });
+
+  it("requires a min mint fee for min price minters", function () {
+    const result = sharedMinterDeployConfigSchema.safeParse({
+      ...validSharedMinterConfig,
+      minterName: "MinterMinPriceV1",
+    });
+    assert.deepEqual(getIssues(result), [
+      "config.minMintFeeETH: minMintFeeETH must be defined for min price minters",
+    ]);
+  });
+
+  it("requires an existing or new admin ACL for minter filters", function () {
+    const result = sharedMinterFilterDeployConfigSchema.safeParse({
+      network: "sepolia",
+      environment: "dev",
+      minterFilterName: "MinterFilterV2",
+      coreRegistryContractName: "CoreRegistryV1",
+    });
+    assert.isFalse(result.success);
+  });
+
+  it("requires Safe settings when using a Safe", function () {
+    const result = deployNetworkConfigurationSchema.safeParse({
+      network: "sepolia",
+      environment: "dev",
+      useLedgerSigner: false,
+      useGnosisSafe: true,
+    });
+    assert.isFalse(result.success);
+    const withSafe = deployNetworkConfigurationSchema.safeParse({
+      network: "sepolia",
+      environment: "dev",
+      useLedgerSigner: false,
+      useGnosisSafe: true,
+      safeAddress: checksummedAddress,
+      transactionServiceUrl: "https://safe-transaction-sepolia.safe.global",
+    });
+    assert.isTrue(withSafe.success);
+  });
+
+  it("accepts a valid engine contract config", function () {
+    const result =
+      engineContractDeployConfigSchema.safeParse(validEngineConfig);
+    assert.isTrue(result.success);
+  });
+
+  it("requires a null platform provider to be the zero address", function () {
+    const result = engineContractDeployConfigSchema.safeParse({
+      ...validEngineConfig,
+      platformProviderAddress: checksummedAddress,
+    });
+    assert.isFalse(result.success);
+  });
+
+  it("requires a super admin when deploying a new admin ACL", function () {
+    const result = engineContractDeployConfigSchema.safeParse({
+      ...validEngineConfig,
+      newSuperAdminAddress: ZERO_ADDRESS,
+    });
+    assert.isFalse(result.success);
+  });
+});
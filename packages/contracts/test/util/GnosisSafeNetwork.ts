@@ -1,54 +1,103 @@
 import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
-import EthersAdapter from "@gnosis.pm/safe-ethers-lib";
 import Safe, {
-  SafeFactory,
-  SafeAccountConfig,
   ContractNetworksConfig,
-} from "@gnosis.pm/safe-core-sdk";
+  EthersAdapter,
+  SafeFactory,
+} from "@safe-global/protocol-kit";
+// prebuilt Safe v1.3.0 contracts, for Safes deployed with the protocol kit
+import GnosisSafeArtifact from "@gnosis.pm/safe-contracts/build/artifacts/contracts/GnosisSafe.sol/GnosisSafe.json";
+import GnosisSafeProxyFactoryArtifact from "@gnosis.pm/safe-contracts/build/artifacts/contracts/proxies/GnosisSafeProxyFactory.sol/GnosisSafeProxyFactory.json";
+import MultiSendArtifact from "@gnosis.pm/safe-contracts/build/artifacts/contracts/libraries/MultiSend.sol/MultiSend.json";
+import MultiSendCallOnlyArtifact from "@gnosis.pm/safe-contracts/build/artifacts/contracts/libraries/MultiSendCallOnly.sol/MultiSendCallOnly.json";
+import CompatibilityFallbackHandlerArtifact from "@gnosis.pm/safe-contracts/build/artifacts/contracts/handler/CompatibilityFallbackHandler.sol/CompatibilityFallbackHandler.json";
+import SignMessageLibArtifact from "@gnosis.pm/safe-contracts/build/artifacts/contracts/examples/libraries/SignMessage.sol/SignMessageLib.json";
+import CreateCallArtifact from "@gnosis.pm/safe-contracts/build/artifacts/contracts/libraries/CreateCall.sol/CreateCall.json";
+import SimulateTxAccessorArtifact from "@gnosis.pm/safe-contracts/build/artifacts/contracts/accessors/SimulateTxAccessor.sol/SimulateTxAccessor.json";
 
-export const getGnosisSafe = async (
-  account1: SignerWithAddress,
-  account2: SignerWithAddress,
-  account3: SignerWithAddress
-): Promise<Safe> => {
-  // instantiate an EthAdapter for gnosis sdk
-  const ethAdapter = new EthersAdapter({
-    ethers,
-    signer: account1,
-  });
-  // deploy new gnosis safe contract network
-  const multiSendFactory = await ethers.getContractFactory("MultiSendMock");
-  const gnosisSafeFactory = await ethers.getContractFactory("GnosisSafeMock");
-  const gnosisProxyFactoryFactory = await ethers.getContractFactory(
-    "GnosisSafeProxyFactoryMock"
+type ContractArtifact = { abi: any[]; bytecode: string };
+
+const deployArtifact = async (
+  artifact: ContractArtifact,
+  deployer: SignerWithAddress
+): Promise<string> => {
+  const factory = await ethers.getContractFactory(
+    artifact.abi,
+    artifact.bytecode,
+    deployer
   );
-  const multiSend = await multiSendFactory.connect(account1).deploy();
-  const gnosisSafe = await gnosisSafeFactory.connect(account1).deploy();
-  const gnosisProxyFactory = await gnosisProxyFactoryFactory
-    .connect(account1)
-    .deploy();
+  const contract = await factory.deploy();
+  return contract.address;
+};
 
-  // generate new safeFactory using new safe core
-  const id = await ethAdapter.getChainId();
-  const contractNetworks: ContractNetworksConfig = {
-    [id]: {
-      multiSendAddress: multiSend.address,
-      safeMasterCopyAddress: gnosisSafe.address,
-      safeProxyFactoryAddress: gnosisProxyFactory.address,
+/**
+ * Deploys the prebuilt Safe v1.3.0 contracts used by the Safe protocol kit to
+ * the local network, and returns their addresses as protocol kit contract
+ * networks.
+ */
+export const deploySafeContractNetworks = async (
+  deployer: SignerWithAddress
+): Promise<ContractNetworksConfig> => {
+  const { chainId } = await ethers.provider.getNetwork();
+  return {
+    [chainId]: {
+      safeMasterCopyAddress: await deployArtifact(GnosisSafeArtifact, deployer),
+      safeProxyFactoryAddress: await deployArtifact(
+        GnosisSafeProxyFactoryArtifact,
+        deployer
+      ),
+      multiSendAddress: await deployArtifact(MultiSendArtifact, deployer),
+      multiSendCallOnlyAddress: await deployArtifact(
+        MultiSendCallOnlyArtifact,
+        deployer
+      ),
+      fallbackHandlerAddress: await deployArtifact(
+        CompatibilityFallbackHandlerArtifact,
+        deployer
+      ),
+      signMessageLibAddress: await deployArtifact(
+        SignMessageLibArtifact,
+        deployer
+      ),
+      createCallAddress: await deployArtifact(CreateCallArtifact, deployer),
+      simulateTxAccessorAddress: await deployArtifact(
+        SimulateTxAccessorArtifact,
+        deployer
+      ),
     },
   };
+};
+
+/**
+ * Deploys a new Safe owned by `owners` to the local network, using the Safe
+ * protocol kit.
+ */
+export const deployLocalSafe = async (
+  owners: SignerWithAddress[],
+  threshold: number,
+  contractNetworks: ContractNetworksConfig
+): Promise<Safe> => {
   const safeFactory = await SafeFactory.create({
-    ethAdapter,
-    isL1SafeMasterCopy: true,
+    ethAdapter: new EthersAdapter({
+      ethers,
+      signerOrProvider: owners[0],
+    }),
     contractNetworks,
   });
-  const owners = [account1.address, account2.address, account3.address];
-  const threshold = 2;
-  const safeAccountConfig: SafeAccountConfig = {
-    owners,
-    threshold,
-  };
-  const safeSdk: Safe = await safeFactory.deploySafe({ safeAccountConfig });
-  return safeSdk;
+  return safeFactory.deploySafe({
+    safeAccountConfig: {
+      owners: owners.map((owner) => owner.address),
+      threshold,
+    },
+  });
+};
+
+export const getGnosisSafe = async (
+  account1: SignerWithAddress,
+  account2: SignerWithAddress,
+  account3: SignerWithAddress
+): Promise<Safe> => {
+  // deploy new gnosis safe contract network, and a 2 of 3 safe on it
+  const contractNetworks = await deploySafeContractNetworks(account1);
+  return deployLocalSafe([account1, account2, account3], 2, contractNetworks);
 };
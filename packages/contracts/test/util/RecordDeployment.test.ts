@@ -0,0 +1,63 @@
+import { assert } from "chai";
+import { ethers } from "hardhat";
+import { serializeConstructorArgs } from "../../scripts/util/record-deployment";
+
+describe("Deployment recording", async function () {
+  it("records constructor args as they are ABI encoded", function () {
+    const address = ethers.Wallet.createRandom().address;
+    const constructorArgs = [
+      address,
+      ethers.BigNumber.from("1000000000000000000"),
+      BigInt(5),
+      false,
+      [address, address],
+      { basePrice: ethers.BigNumber.from(100), enabled: true, ids: [1, 2] },
+      new Uint8Array([0xab, 0xcd]),
+    ];
+
+    const serializedArgs = serializeConstructorArgs(constructorArgs);
+
+    assert.deepEqual(serializedArgs, [
+      address,
+      "1000000000000000000",
+      "5",
+      false,
+      [address, address],
+      { basePrice: "100", enabled: true, ids: [1, 2] },
+      "0xabcd",
+    ]);
+    // recorded args round trip through the manifest and encode to the same
+    // constructor calldata
+    const types = [
+      "address",
+      "uint256",
+      "uint8",
+      "bool",
+      "address[]",
+      "tuple(uint256 basePrice, bool enabled, uint8[] ids)",
+      "bytes",
+    ];
+    assert.equal(
+      ethers.utils.defaultAbiCoder.encode(
+        types,
+        JSON.parse(JSON.stringify(serializedArgs))
+      ),
+      ethers.utils.defaultAbiCoder.encode(types, [
+        ...constructorArgs.slice(0, 2),
+        5,
+        ...constructorArgs.slice(3),
+      ])
+    );
+  });
+
+  it("rejects args that are not ABI encodable", function () {
+    assert.throws(
+      () => serializeConstructorArgs([undefined]),
+      "Unsupported constructor arg undefined"
+    );
+    assert.throws(
+      () => serializeConstructorArgs([[null]]),
+      "Unsupported constructor arg null"
+    );
+  });
+});
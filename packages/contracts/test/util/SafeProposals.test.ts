@@ -0,0 +1,234 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { assert, expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { ContractNetworksConfig } from "@safe-global/protocol-kit";
+import { ProposeTransactionProps } from "@safe-global/api-kit";
+import {
+  MetaTransactionData,
+  SafeMultisigTransactionResponse,
+} from "@safe-global/safe-core-sdk-types";
+import {
+  buildSafeBatches,
+  createSafeProposalContext,
+  exportSafeTransactionBuilderBatches,
+  proposeSafeTransactions,
+  SafeTransactionService,
+  simulateSafeBatches,
+} from "../../scripts/util/safe-proposals";
+import {
+  deployLocalSafe,
+  deploySafeContractNetworks,
+} from "./GnosisSafeNetwork";
+
+const safeInterface = new ethers.utils.Interface([
+  "function addOwnerWithThreshold(address owner, uint256 _threshold)",
+  "function changeThreshold(uint256 _threshold)",
+]);
+
+/**
+ * Minimal in-memory Safe Transaction Service, on which every proposed
+ * transaction stays pending.
+ */
+function getLocalTransactionService(safeAddress: string) {
+  const proposals: ProposeTransactionProps[] = [];
+  const transactionService: SafeTransactionService = {
+    getPendingTransactions: async (_safeAddress, currentNonce = 0) => {
+      const results = proposals
+        .filter(
+          ({ safeTransactionData }) => safeTransactionData.nonce >= currentNonce
+        )
+        .map(
+          ({
+            safeTransactionData,
+            safeTxHash,
+          }): SafeMultisigTransactionResponse => ({
+            ...safeTransactionData,
+            safe: safeAddress,
+            safeTxGas: Number(safeTransactionData.safeTxGas),
+            baseGas: Number(safeTransactionData.baseGas),
+            executionDate: "",
+            submissionDate: "",
+            modified: "",
+            transactionHash: "",
+            safeTxHash,
+            isExecuted: false,
+            origin: "",
+            confirmationsRequired: 1,
+            trusted: true,
+          })
+        );
+      return { count: results.length, results };
+    },
+    proposeTransaction: async (proposal) => {
+      proposals.push(proposal);
+    },
+  };
+  return { proposals, transactionService };
+}
+
+describe("Safe proposals", async function () {
+  let owner: SignerWithAddress;
+  let newOwners: SignerWithAddress[];
+  let contractNetworks: ContractNetworksConfig;
+  let safeAddress: string;
+  let addOwnerTransactions: MetaTransactionData[];
+
+  beforeEach(async function () {
+    [owner, ...newOwners] = await ethers.getSigners();
+    contractNetworks = await deploySafeContractNetworks(owner);
+    const safe = await deployLocalSafe([owner], 1, contractNetworks);
+    safeAddress = await safe.getAddress();
+    addOwnerTransactions = newOwners.slice(0, 3).map((newOwner) => ({
+      to: safeAddress,
+      value: "0x00",
+      data: safeInterface.encodeFunctionData("addOwnerWithThreshold", [
+        newOwner.address,
+        1,
+      ]),
+    }));
+  });
+
+  it("chunks transactions into batches", function () {
+    const batches = buildSafeBatches(addOwnerTransactions, 2);
+    assert.deepEqual(
+      batches.map((batch) => batch.length),
+      [2, 1]
+    );
+    expect(() => buildSafeBatches(addOwnerTransactions, 0)).to.throw(
+      "Invalid Safe batch size"
+    );
+  });
+
+  it("simulates batches without changing the Safe", async function () {
+    const safeContract = new ethers.Contract(
+      safeAddress,
+      ["function getOwners() view returns (address[])"],
+      owner
+    );
+    await simulateSafeBatches(
+      safeAddress,
+      buildSafeBatches(addOwnerTransactions, 2)
+    );
+    assert.deepEqual(await safeContract.getOwners(), [owner.address]);
+  });
+
+  it("rejects batches that fail simulation", async function () {
+    const failingTransaction = {
+      to: safeAddress,
+      value: "0",
+      // threshold may not exceed the number of owners
+      data: safeInterface.encodeFunctionData("changeThreshold", [10]),
+    };
+    let error: Error | null = null;
+    try {
+      await simulateSafeBatches(safeAddress, [
+        [addOwnerTransactions[0]],
+        [addOwnerTransactions[1], failingTransaction, failingTransaction],
+      ]);
+    } catch (caughtError) {
+      error = caughtError as Error;
+    }
+    assert.include(
+      error?.message,
+      "Simulation of Safe batch 2 failed at transaction 2"
+    );
+  });
+
+  it("proposes batches with consecutive nonces", async function () {
+    const { proposals, transactionService } =
+      getLocalTransactionService(safeAddress);
+    const context = await createSafeProposalContext({
+      signer: owner,
+      safeAddress,
+      transactionService,
+      contractNetworks,
+    });
+    const safeTxHashes = await proposeSafeTransactions(
+      context,
+      addOwnerTransactions,
+      { batchSize: 2 }
+    );
+    assert.equal(proposals.length, 2);
+    assert.deepEqual(
+      proposals.map(({ safeTransactionData }) => safeTransactionData.nonce),
+      [0, 1]
+    );
+    assert.deepEqual(
+      proposals.map(({ safeTxHash }) => safeTxHash),
+      safeTxHashes
+    );
+    for (const { safeTxHash, senderAddress, senderSignature } of proposals) {
+      assert.equal(senderAddress, owner.address);
+      const signature = ethers.utils.splitSignature(senderSignature);
+      // @dev eth_sign signatures are offset by 4 to distinguish them
+      const recoveredAddress = ethers.utils.verifyMessage(
+        ethers.utils.arrayify(safeTxHash),
+        { ...signature, v: signature.v - 4 }
+      );
+      assert.equal(recoveredAddress, owner.address);
+    }
+  });
+
+  it("does not propose batches that are already pending", async function () {
+    const { proposals, transactionService } =
+      getLocalTransactionService(safeAddress);
+    const context = await createSafeProposalContext({
+      signer: owner,
+      safeAddress,
+      transactionService,
+      contractNetworks,
+    });
+    const safeTxHashes = await proposeSafeTransactions(
+      context,
+      addOwnerTransactions.slice(0, 2),
+      { batchSize: 1 }
+    );
+    // rerunning with an additional transaction only proposes the new one,
+    // after the pending ones
+    const rerunSafeTxHashes = await proposeSafeTransactions(
+      context,
+      addOwnerTransactions,
+      { batchSize: 1 }
+    );
+    assert.equal(proposals.length, 3);
+    assert.deepEqual(rerunSafeTxHashes.slice(0, 2), safeTxHashes);
+    assert.equal(proposals[2].safeTransactionData.nonce, 2);
+    assert.equal(proposals[2].safeTxHash, rerunSafeTxHashes[2]);
+  });
+
+  it("exports batches for the Safe Transaction Builder", async function () {
+    const exportDirectory = fs.mkdtempSync(
+      path.join(os.tmpdir(), "safe-proposals-")
+    );
+    try {
+      const exportedPaths = await exportSafeTransactionBuilderBatches(
+        safeAddress,
+        addOwnerTransactions,
+        exportDirectory,
+        { batchSize: 2, name: "add-owners" }
+      );
+      assert.deepEqual(
+        exportedPaths.map((exportedPath) => path.basename(exportedPath)),
+        ["add-owners-1-of-2.json", "add-owners-2-of-2.json"]
+      );
+      const exportedBatch = JSON.parse(
+        fs.readFileSync(exportedPaths[0], "utf8")
+      );
+      assert.equal(exportedBatch.chainId, "31337");
+      assert.equal(exportedBatch.meta.createdFromSafeAddress, safeAddress);
+      assert.deepEqual(
+        exportedBatch.transactions.map(
+          ({ to, value, data }: MetaTransactionData) => ({ to, value, data })
+        ),
+        addOwnerTransactions
+          .slice(0, 2)
+          .map(({ to, data }) => ({ to, value: "0", data }))
+      );
+    } finally {
+      fs.rmSync(exportDirectory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,281 @@
+import { assert } from "chai";
+import hre, { ethers, network } from "hardhat";
+import { Etherscan } from "@nomicfoundation/hardhat-verify/etherscan";
+import { DeploymentManifestEntry } from "../../scripts/util/deployment-manifest";
+import {
+  attemptVerification,
+  getCloneImplementation,
+  getVerificationTasks,
+  logVerificationReport,
+  runVerificationQueue,
+  VerificationAttempt,
+  VerificationTask,
+} from "../../scripts/util/verification";
+
+const BYTECODE_STORAGE_READER =
+  "contracts/libs/v0.8.x/BytecodeStorageV2.sol:BytecodeStorageReader";
+const V3_FLEX_LIB = "contracts/libs/v0.8.x/V3FlexLib.sol:V3FlexLib";
+
+function getCloneBytecode(implementation: string) {
+  return `0x363d3d373d3d3d363d73${implementation
+    .slice(2)
+    .toLowerCase()}5af43d82803e903d91602b57fd5bf3`;
+}
+
+function getManifestEntry(
+  contractName: string,
+  entry: Partial<DeploymentManifestEntry> = {}
+): DeploymentManifestEntry {
+  return {
+    contractName,
+    address: ethers.Wallet.createRandom().address,
+    transactionHash: null,
+    deployer: null,
+    deployedAt: null,
+    compiler: null,
+    constructorArgs: [],
+    libraries: {},
+    ...entry,
+  };
+}
+
+describe("Contract verification", async function () {
+  it("detects EIP-1167 clones from their bytecode", function () {
+    const implementation = ethers.Wallet.createRandom().address;
+    assert.equal(
+      getCloneImplementation(getCloneBytecode(implementation)),
+      implementation
+    );
+    assert.isUndefined(getCloneImplementation("0x6080604052"));
+    assert.isUndefined(getCloneImplementation("0x"));
+  });
+
+  it("verifies linked libraries before contracts linking them", async function () {
+    const flexLibAddress = ethers.Wallet.createRandom().address;
+    const readerAddress = ethers.Wallet.createRandom().address;
+    const flexImplementation = getManifestEntry("GenArt721CoreV3_Engine_Flex", {
+      libraries: {
+        [BYTECODE_STORAGE_READER]: readerAddress,
+        [V3_FLEX_LIB]: flexLibAddress,
+      },
+    });
+    const engineImplementation = getManifestEntry("GenArt721CoreV3_Engine", {
+      libraries: { [BYTECODE_STORAGE_READER]: readerAddress },
+    });
+    const reader = getManifestEntry("BytecodeStorageReader", {
+      address: readerAddress,
+    });
+    const tasks = await getVerificationTasks(
+      [flexImplementation, engineImplementation],
+      [reader, flexImplementation, engineImplementation]
+    );
+    assert.deepEqual(
+      tasks.map(({ contractName, address }) => ({ contractName, address })),
+      [
+        // recorded libraries keep their recorded name
+        { contractName: "BytecodeStorageReader", address: readerAddress },
+        { contractName: V3_FLEX_LIB, address: flexLibAddress },
+        {
+          contractName: "GenArt721CoreV3_Engine_Flex",
+          address: flexImplementation.address,
+        },
+        {
+          contractName: "GenArt721CoreV3_Engine",
+          address: engineImplementation.address,
+        },
+      ]
+    );
+    assert.deepEqual(tasks[2].libraries, flexImplementation.libraries);
+  });
+
+  it("verifies clones as proxies after their implementation", async function () {
+    const implementation = getManifestEntry("GenArt721CoreV3_Engine", {
+      constructorArgs: ["0x0000000000000000000000000000000000000001"],
+    });
+    const factory = ethers.Wallet.createRandom().address;
+    const clones = [
+      getManifestEntry("GenArt721CoreV3_Engine", { factory }),
+      getManifestEntry("GenArt721CoreV3_Engine", { factory }),
+    ];
+    for (const clone of clones) {
+      await network.provider.send("hardhat_setCode", [
+        clone.address,
+        getCloneBytecode(implementation.address),
+      ]);
+    }
+    // contracts created by a factory that are not clones are verified directly
+    const created = getManifestEntry("SplitAtomicV0", { factory });
+    await network.provider.send("hardhat_setCode", [
+      created.address,
+      "0x6080604052",
+    ]);
+
+    const tasks = await getVerificationTasks(
+      [...clones, created],
+      [implementation, ...clones, created]
+    );
+    assert.deepEqual(
+      tasks.map(({ address, cloneOf }) => ({ address, cloneOf })),
+      [
+        { address: implementation.address, cloneOf: undefined },
+        { address: created.address, cloneOf: undefined },
+        ...clones.map(({ address }) => ({
+          address,
+          cloneOf: implementation.address,
+        })),
+      ]
+    );
+    // recorded implementations are verified with their constructor args
+    assert.deepEqual(tasks[0].constructorArgs, implementation.constructorArgs);
+  });
+
+  it("passes constructor args to hardhat-verify as they were deployed with", async function () {
+    const constructorArgs = [
+      ethers.BigNumber.from(1),
+      [ethers.Wallet.createRandom().address],
+      { basePrice: "100", enabled: true },
+      false,
+    ];
+    const explorer = {
+      isVerified: async () => false,
+    } as unknown as Etherscan;
+    // @dev hre.run is read only, so is replaced through a writable view of hre
+    const writableHre = hre as { run: typeof hre.run };
+    const run = hre.run;
+    const verifyArgs: { [argName: string]: unknown }[] = [];
+    writableHre.run = (async (
+      _taskName: string,
+      taskArgs: { [argName: string]: unknown }
+    ) => {
+      verifyArgs.push(taskArgs);
+    }) as typeof hre.run;
+
+    try {
+      const attempt = await attemptVerification(explorer, {
+        contractName: "contracts/Example.sol:Example",
+        address: ethers.Wallet.createRandom().address,
+        constructorArgs,
+        libraries: {},
+      });
+      assert.deepEqual(attempt, { status: "verified" });
+    } finally {
+      writableHre.run = run;
+    }
+    assert.strictEqual(verifyArgs[0].constructorArguments, constructorArgs);
+  });
+
+  it("retries retryable failures with backoff", async function () {
+    const tasks: VerificationTask[] = ["A", "B", "C"].map((contractName) => ({
+      contractName,
+      address: ethers.Wallet.createRandom().address,
+      constructorArgs: [],
+      libraries: {},
+    }));
+    const attempts: string[] = [];
+    const attemptTimes: { [contractName: string]: number[] } = {};
+    const verify = async ({
+      contractName,
+    }: VerificationTask): Promise<VerificationAttempt> => {
+      attempts.push(contractName);
+      attemptTimes[contractName] = [
+        ...(attemptTimes[contractName] ?? []),
+        Date.now(),
+      ];
+      if (contractName === "A" && attemptTimes.A.length < 3) {
+        return { status: "failed", retryable: true, message: "not indexed" };
+      }
+      if (contractName === "B") {
+        return { status: "failed", retryable: false, message: "mismatch" };
+      }
+      if (contractName === "C") {
+        return { status: "failed", retryable: true, message: "unavailable" };
+      }
+      return { status: "verified" };
+    };
+
+    const results = await runVerificationQueue(tasks, verify, {
+      maxAttempts: 3,
+      initialBackoffMs: 50,
+    });
+
+    // other tasks are attempted while a failed task waits to be retried
+    assert.deepEqual(attempts.slice(0, 3), ["A", "B", "C"]);
+    assert.equal(attemptTimes.A.length, 3);
+    assert.equal(attemptTimes.B.length, 1);
+    assert.equal(attemptTimes.C.length, 3);
+    // backoff doubles after every failed attempt
+    assert.isAtLeast(attemptTimes.A[1] - attemptTimes.A[0], 45);
+    assert.isAtLeast(attemptTimes.A[2] - attemptTimes.A[1], 95);
+
+    const statuses = Object.fromEntries(
+      results.map(({ task, status, attempts }) => [
+        task.contractName,
+        { status, attempts },
+      ])
+    );
+    assert.deepEqual(statuses, {
+      A: { status: "verified", attempts: 3 },
+      B: { status: "failed", attempts: 1 },
+      C: { status: "failed", attempts: 3 },
+    });
+    assert.deepEqual(
+      logVerificationReport(results).map(({ task }) => task.contractName),
+      ["B", "C"]
+    );
+  });
+
+  it("fails clones of implementations that failed verification", async function () {
+    const implementation: VerificationTask = {
+      contractName: "GenArt721CoreV3_Engine",
+      address: ethers.Wallet.createRandom().address,
+      constructorArgs: [],
+      libraries: {},
+    };
+    const clone: VerificationTask = {
+      ...implementation,
+      address: ethers.Wallet.createRandom().address,
+      cloneOf: implementation.address,
+    };
+    const attempts: string[] = [];
+    const verify = async ({
+      address,
+    }: VerificationTask): Promise<VerificationAttempt> => {
+      attempts.push(address);
+      return address === implementation.address
+        ? { status: "failed", retryable: false, message: "mismatch" }
+        : {
+            status: "failed",
+            retryable: true,
+            message: "implementation is not verified",
+          };
+    };
+
+    const results = await runVerificationQueue(
+      [implementation, clone],
+      verify,
+      { maxAttempts: 5, initialBackoffMs: 50 }
+    );
+
+    // the clone is not retried once its implementation has failed
+    assert.deepEqual(attempts, [implementation.address]);
+    assert.deepEqual(
+      results.map(({ task, status, message }) => ({
+        address: task.address,
+        status,
+        message,
+      })),
+      [
+        {
+          address: implementation.address,
+          status: "failed",
+          message: "mismatch",
+        },
+        {
+          address: clone.address,
+          status: "failed",
+          message: `implementation ${implementation.address} failed verification`,
+        },
+      ]
+    );
+  });
+});
@@ -0,0 +1,21 @@
+export const iGenArt721CoreContractExposesHashSeedAbi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenIdToHashSeed",
+    outputs: [
+      {
+        internalType: "bytes12",
+        name: "",
+        type: "bytes12",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
@@ -0,0 +1,120 @@
+export const iMinterFilterV1Abi = [
+  {
+    inputs: [],
+    name: "coreRegistry",
+    outputs: [
+      {
+        internalType: "contract ICoreRegistryV1",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllGloballyApprovedMinters",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "minterAddress",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "minterType",
+            type: "string",
+          },
+        ],
+        internalType: "struct IMinterFilterV1.MinterWithType[]",
+        name: "mintersWithTypes",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "getMinterForProject",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "isRegisteredCoreContract",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minterFilterType",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "projectHasMinter",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
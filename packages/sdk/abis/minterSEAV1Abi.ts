@@ -0,0 +1,438 @@
+export const minterSEAV1Abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bidAmount",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionBid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bidAmount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "minBidIncrementPercentage",
+        type: "uint8",
+      },
+    ],
+    name: "AuctionInitialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "AuctionSettled",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "createBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "getNextTokenId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "nextTokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "getPriceInfo",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isConfigured",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenPriceInWei",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "currencySymbol",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "currencyAddress",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "getTokenToBid",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minterConfigurationDetails",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "minAuctionDurationSeconds",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "minterTimeBufferSeconds",
+        type: "uint32",
+      },
+      {
+        internalType: "uint24",
+        name: "minterRefundGasLimit",
+        type: "uint24",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minterType",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "projectActiveAuctionDetails",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "tokenId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "currentBid",
+            type: "uint256",
+          },
+          {
+            internalType: "address payable",
+            name: "currentBidder",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "endTime",
+            type: "uint64",
+          },
+          {
+            internalType: "uint8",
+            name: "minBidIncrementPercentage",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "settled",
+            type: "bool",
+          },
+        ],
+        internalType: "struct SEALib.Auction",
+        name: "auction",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "SEAProjectConfigurationDetails",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "nextTokenNumberIsPopulated",
+            type: "bool",
+          },
+          {
+            internalType: "uint64",
+            name: "timestampStart",
+            type: "uint64",
+          },
+          {
+            internalType: "uint32",
+            name: "auctionDurationSeconds",
+            type: "uint32",
+          },
+          {
+            internalType: "uint8",
+            name: "minBidIncrementPercentage",
+            type: "uint8",
+          },
+          {
+            internalType: "uint24",
+            name: "nextTokenNumber",
+            type: "uint24",
+          },
+          {
+            internalType: "uint256",
+            name: "basePrice",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "tokenId",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "currentBid",
+                type: "uint256",
+              },
+              {
+                internalType: "address payable",
+                name: "currentBidder",
+                type: "address",
+              },
+              {
+                internalType: "uint64",
+                name: "endTime",
+                type: "uint64",
+              },
+              {
+                internalType: "uint8",
+                name: "minBidIncrementPercentage",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "settled",
+                type: "bool",
+              },
+            ],
+            internalType: "struct SEALib.Auction",
+            name: "activeAuction",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct SEALib.SEAProjectConfig",
+        name: "SEAProjectConfig_",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "settleAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "settleTokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "bidTokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "settleAuctionAndCreateBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
@@ -0,0 +1,327 @@
+export const minterSetPricePolyptychERC20V5Abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "ownedNFTAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "ownedNFTProjectId",
+        type: "uint256",
+      },
+    ],
+    name: "allowedProjectHolders",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "getCurrentPolyptychPanelId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "panelId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes12",
+        name: "hashSeed",
+        type: "bytes12",
+      },
+    ],
+    name: "getPolyptychPanelHashSeedIsMinted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+    ],
+    name: "getPriceInfo",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isConfigured",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenPriceInWei",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "currencySymbol",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "currencyAddress",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "ownedNFTAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "ownedNFTTokenId",
+        type: "uint256",
+      },
+    ],
+    name: "isAllowlistedNFT",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minterType",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPricePerToken",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "currencyAddress",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "ownedNFTAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "ownedNFTTokenId",
+        type: "uint256",
+      },
+    ],
+    name: "purchase",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPricePerToken",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "currencyAddress",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "ownedNFTAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "ownedNFTTokenId",
+        type: "uint256",
+      },
+    ],
+    name: "purchaseTo",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "coreContract",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPricePerToken",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "currencyAddress",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "ownedNFTAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "ownedNFTTokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "vault",
+        type: "address",
+      },
+    ],
+    name: "purchaseTo",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
@@ -0,0 +1,230 @@
+import { describe, it, expect } from "@jest/globals";
+import { Hex } from "viem";
+import {
+  ALLOWLIST_ENTRY_ISSUE,
+  InvalidAllowlistError,
+  InvalidAllowlistProofsBundleError,
+  diffAllowlists,
+  exportAllowlistProofsBundle,
+  importAllowlistProofsBundle,
+  normalizeAllowlistAddress,
+  serializeAllowlistProofsBundle,
+  validateAllowlist,
+  verifyAllowlistMerkleRoot,
+  verifyAllowlistProof,
+} from ".";
+import { getMerkleRoot } from "../utils/merkle";
+import { generateUserMerkleProof } from "../purchase/allowlist";
+import proofsBundleFixture from "./fixtures/proofs-bundle.json";
+
+const ALLOWLIST = [
+  "0x81c41D4405bd22A2012830870A10E26D3F740A31",
+  "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3",
+  "0xC433E65449165848180779521CA99eCe75D7DB69",
+  "0x313918a167152209d91F7182A407169f5327CaE3",
+  "0x9267df035F6d7566d410B9Af153574f87481Eb00",
+  "0xd31E891ad9a1e47e4D3d9B15cccCd188BeBC7A48",
+];
+const NOT_ALLOWLISTED = "0xE523cCE52746962e4d2FB181E59b3A5DcEB65B44";
+
+describe("normalizeAllowlistAddress", () => {
+  it("checksums lowercase and uppercase addresses", () => {
+    expect(normalizeAllowlistAddress(ALLOWLIST[0].toLowerCase())).toEqual({
+      address: ALLOWLIST[0],
+    });
+    expect(
+      normalizeAllowlistAddress(`0x${ALLOWLIST[0].slice(2).toUpperCase()}`)
+    ).toEqual({ address: ALLOWLIST[0] });
+  });
+
+  it("rejects mixed-case addresses with an invalid checksum", () => {
+    expect(
+      normalizeAllowlistAddress("0x81C41D4405bd22A2012830870A10E26D3F740A31")
+    ).toEqual({ issue: ALLOWLIST_ENTRY_ISSUE.InvalidChecksum });
+  });
+
+  it("rejects ENS names and malformed addresses", () => {
+    expect(normalizeAllowlistAddress("artblocks.eth")).toEqual({
+      issue: ALLOWLIST_ENTRY_ISSUE.InvalidAddress,
+    });
+    expect(normalizeAllowlistAddress("0x1234")).toEqual({
+      issue: ALLOWLIST_ENTRY_ISSUE.InvalidAddress,
+    });
+  });
+});
+
+describe("validateAllowlist", () => {
+  it("reports invalid and duplicate entries from a file", () => {
+    const report = validateAllowlist(
+      [
+        ALLOWLIST[0],
+        "artblocks.eth",
+        ALLOWLIST[1].toLowerCase(),
+        ` ${ALLOWLIST[0].toLowerCase()} `,
+        ALLOWLIST[1],
+      ].join("\n")
+    );
+
+    expect(report).toEqual({
+      isValid: false,
+      addresses: [ALLOWLIST[0], ALLOWLIST[1]],
+      invalidEntries: [
+        {
+          index: 1,
+          entry: "artblocks.eth",
+          issue: ALLOWLIST_ENTRY_ISSUE.InvalidAddress,
+        },
+      ],
+      duplicateEntries: [
+        { address: ALLOWLIST[0], indices: [0, 3] },
+        { address: ALLOWLIST[1], indices: [2, 4] },
+      ],
+    });
+  });
+
+  it("treats duplicate entries as valid", () => {
+    const report = validateAllowlist([ALLOWLIST[0], ALLOWLIST[0]]);
+
+    expect(report.isValid).toBe(true);
+    expect(report.addresses).toEqual([ALLOWLIST[0]]);
+  });
+});
+
+describe("exportAllowlistProofsBundle", () => {
+  it("exports a deterministic bundle matching the fixture", () => {
+    const bundle = exportAllowlistProofsBundle(ALLOWLIST);
+
+    expect(bundle).toEqual(proofsBundleFixture);
+    expect(
+      exportAllowlistProofsBundle(ALLOWLIST.map((a) => a.toLowerCase()))
+    ).toEqual(bundle);
+  });
+
+  it("matches the root and proofs used for purchases", () => {
+    const bundle = exportAllowlistProofsBundle(ALLOWLIST);
+
+    expect(bundle.merkleRoot).toEqual(getMerkleRoot(ALLOWLIST));
+    bundle.entries.forEach(({ address, proof }) => {
+      expect(proof).toEqual(generateUserMerkleProof(ALLOWLIST, address));
+    });
+  });
+
+  it("matches the root of uploaded allowlists with duplicate and mixed-case entries", () => {
+    const allowlist = [...ALLOWLIST, ALLOWLIST[2].toLowerCase(), ALLOWLIST[0]];
+    const bundle = exportAllowlistProofsBundle(allowlist);
+
+    expect(bundle.merkleRoot).toEqual(getMerkleRoot(allowlist));
+    expect(bundle.entries.map(({ address }) => address)).toEqual(ALLOWLIST);
+    bundle.entries.forEach((entry) => {
+      expect(
+        verifyAllowlistProof({ merkleRoot: bundle.merkleRoot, ...entry })
+      ).toBe(true);
+    });
+    expect(verifyAllowlistMerkleRoot(allowlist, bundle.merkleRoot)).toBe(true);
+  });
+
+  it("throws InvalidAllowlistError with the report for invalid entries", () => {
+    expect.assertions(2);
+
+    try {
+      exportAllowlistProofsBundle([...ALLOWLIST, "artblocks.eth"]);
+    } catch (e) {
+      expect(e).toBeInstanceOf(InvalidAllowlistError);
+      expect((e as InvalidAllowlistError).report.invalidEntries).toHaveLength(
+        1
+      );
+    }
+  });
+});
+
+describe("importAllowlistProofsBundle", () => {
+  it("round trips a serialized bundle", () => {
+    const bundle = exportAllowlistProofsBundle(ALLOWLIST);
+
+    expect(
+      importAllowlistProofsBundle(serializeAllowlistProofsBundle(bundle))
+    ).toEqual(bundle);
+  });
+
+  it("rejects malformed bundles", () => {
+    expect(() => importAllowlistProofsBundle("not json")).toThrow(
+      InvalidAllowlistProofsBundleError
+    );
+    expect(() =>
+      importAllowlistProofsBundle({ version: 2, merkleRoot: "0x" })
+    ).toThrow(InvalidAllowlistProofsBundleError);
+  });
+
+  it("rejects bundles with a proof that does not verify", () => {
+    const bundle = exportAllowlistProofsBundle(ALLOWLIST);
+    const [firstEntry, ...entries] = bundle.entries;
+
+    expect(() =>
+      importAllowlistProofsBundle({
+        ...bundle,
+        entries: [{ ...firstEntry, address: NOT_ALLOWLISTED }, ...entries],
+      })
+    ).toThrow(`Proof for ${NOT_ALLOWLISTED} does not verify`);
+  });
+});
+
+describe("verifyAllowlistProof", () => {
+  const bundle = exportAllowlistProofsBundle(ALLOWLIST);
+
+  it("verifies every proof in the bundle", () => {
+    bundle.entries.forEach(({ address, proof }) => {
+      expect(
+        verifyAllowlistProof({ merkleRoot: bundle.merkleRoot, address, proof })
+      ).toBe(true);
+    });
+  });
+
+  it("rejects a proof for a different address", () => {
+    expect(
+      verifyAllowlistProof({
+        merkleRoot: bundle.merkleRoot,
+        address: NOT_ALLOWLISTED,
+        proof: bundle.entries[0].proof,
+      })
+    ).toBe(false);
+  });
+
+  it("verifies single-entry allowlists with an empty proof", () => {
+    const singleEntryBundle = exportAllowlistProofsBundle([ALLOWLIST[0]]);
+
+    expect(singleEntryBundle.entries[0].proof).toEqual([]);
+    expect(
+      verifyAllowlistProof({
+        merkleRoot: singleEntryBundle.merkleRoot,
+        address: ALLOWLIST[0] as Hex,
+        proof: [],
+      })
+    ).toBe(true);
+  });
+});
+
+describe("verifyAllowlistMerkleRoot", () => {
+  it("checks an allowlist against a merkle root", () => {
+    const { merkleRoot } = exportAllowlistProofsBundle(ALLOWLIST);
+
+    expect(verifyAllowlistMerkleRoot(ALLOWLIST, merkleRoot)).toBe(true);
+    expect(verifyAllowlistMerkleRoot(ALLOWLIST.slice(1), merkleRoot)).toBe(
+      false
+    );
+  });
+});
+
+describe("diffAllowlists", () => {
+  it("lists added, removed and unchanged addresses", () => {
+    expect(
+      diffAllowlists(ALLOWLIST.slice(0, 4), [
+        ...ALLOWLIST.slice(2).map((address) => address.toLowerCase()),
+        NOT_ALLOWLISTED,
+      ])
+    ).toEqual({
+      added: [ALLOWLIST[4], ALLOWLIST[5], NOT_ALLOWLISTED],
+      removed: [ALLOWLIST[0], ALLOWLIST[1]],
+      unchanged: [ALLOWLIST[2], ALLOWLIST[3]],
+    });
+  });
+});
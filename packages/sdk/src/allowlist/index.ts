@@ -0,0 +1,355 @@
+import { MerkleTree } from "merkletreejs";
+import { Hex, concat, getAddress, isAddress, isHex, keccak256 } from "viem";
+import { z } from "zod";
+import { hashAddress, textOrCsvAddressListToArray } from "../utils/merkle";
+
+export const ALLOWLIST_ENTRY_ISSUE = {
+  InvalidAddress: "InvalidAddress", // Entry is not a hex address, e.g. an ENS name
+  InvalidChecksum: "InvalidChecksum", // Mixed-case address with a bad EIP-55 checksum
+} as const;
+
+export type AllowlistEntryIssue =
+  (typeof ALLOWLIST_ENTRY_ISSUE)[keyof typeof ALLOWLIST_ENTRY_ISSUE];
+
+export type AllowlistValidationReport = {
+  // True if every entry is a valid address
+  isValid: boolean;
+  // Checksummed, deduplicated addresses in the order they first appear
+  addresses: Hex[];
+  invalidEntries: Array<{
+    index: number;
+    entry: string;
+    issue: AllowlistEntryIssue;
+  }>;
+  duplicateEntries: Array<{
+    address: Hex;
+    indices: number[];
+  }>;
+};
+
+export type AllowlistProofsBundle = {
+  version: 1;
+  merkleRoot: Hex;
+  entries: Array<{
+    address: Hex;
+    proof: Hex[];
+  }>;
+};
+
+export type AllowlistDiff = {
+  added: Hex[];
+  removed: Hex[];
+  unchanged: Hex[];
+};
+
+/**
+ * @summary Error thrown when an allowlist contains entries that are not
+ * valid addresses.
+ * @description The validation report is attached so that callers can show
+ * every invalid entry rather than only the first.
+ */
+export class InvalidAllowlistError extends Error {
+  report: AllowlistValidationReport;
+
+  constructor(report: AllowlistValidationReport) {
+    super(
+      `The allowlist contains ${report.invalidEntries.length} invalid ${
+        report.invalidEntries.length === 1 ? "entry" : "entries"
+      }.`
+    );
+    this.name = "InvalidAllowlistError";
+    this.report = report;
+  }
+}
+
+/**
+ * @summary Error thrown when an imported proofs bundle is malformed or
+ * contains a proof that does not verify against its merkle root.
+ */
+export class InvalidAllowlistProofsBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidAllowlistProofsBundleError";
+  }
+}
+
+const hexSchema = z.string().refine((value): value is Hex => isHex(value));
+
+const allowlistProofsBundleSchema = z.object({
+  version: z.literal(1),
+  merkleRoot: hexSchema,
+  entries: z.array(
+    z.object({
+      address: hexSchema,
+      proof: z.array(hexSchema),
+    })
+  ),
+});
+
+/**
+ * @summary Normalize an allowlist entry to a checksummed address.
+ * @description Entries are trimmed and must be hex addresses. ENS names are
+ * not resolved. All lowercase and all uppercase addresses are accepted, but
+ * mixed-case addresses must have a valid EIP-55 checksum.
+ * @param entry the allowlist entry to normalize
+ * @returns the checksummed address, or the issue with the entry
+ */
+export function normalizeAllowlistAddress(
+  entry: string
+): { address: Hex } | { issue: AllowlistEntryIssue } {
+  const trimmedEntry = entry.trim();
+
+  if (!isAddress(trimmedEntry, { strict: false })) {
+    return { issue: ALLOWLIST_ENTRY_ISSUE.InvalidAddress };
+  }
+
+  const body = trimmedEntry.slice(2);
+  const isSingleCase =
+    body === body.toLowerCase() || body === body.toUpperCase();
+
+  if (!isSingleCase && !isAddress(trimmedEntry, { strict: true })) {
+    return { issue: ALLOWLIST_ENTRY_ISSUE.InvalidChecksum };
+  }
+
+  return { address: getAddress(trimmedEntry) };
+}
+
+/**
+ * @summary Validate an allowlist before it is uploaded.
+ * @description Reports entries that are not valid addresses and addresses
+ * that appear more than once. Addresses are compared case-insensitively.
+ * @param allowlist the allowlist entries, or the contents of a text or csv
+ * allowlist file
+ * @returns the validation report
+ */
+export function validateAllowlist(
+  allowlist: string[] | string
+): AllowlistValidationReport {
+  const entries = getAllowlistEntries(allowlist);
+
+  const report: AllowlistValidationReport = {
+    isValid: true,
+    addresses: [],
+    invalidEntries: [],
+    duplicateEntries: [],
+  };
+  const indicesByAddress = new Map<Hex, number[]>();
+
+  entries.forEach((entry, index) => {
+    const normalized = normalizeAllowlistAddress(entry);
+
+    if ("issue" in normalized) {
+      report.invalidEntries.push({ index, entry, issue: normalized.issue });
+      return;
+    }
+
+    const indices = indicesByAddress.get(normalized.address);
+    if (indices) {
+      indices.push(index);
+      return;
+    }
+
+    indicesByAddress.set(normalized.address, [index]);
+    report.addresses.push(normalized.address);
+  });
+
+  indicesByAddress.forEach((indices, address) => {
+    if (indices.length > 1) {
+      report.duplicateEntries.push({ address, indices });
+    }
+  });
+  report.isValid = report.invalidEntries.length === 0;
+
+  return report;
+}
+
+function getAllowlistEntries(allowlist: string[] | string): string[] {
+  return typeof allowlist === "string"
+    ? textOrCsvAddressListToArray(allowlist)
+    : allowlist;
+}
+
+function getValidatedAddresses(allowlist: string[] | string): Hex[] {
+  const report = validateAllowlist(allowlist);
+
+  if (!report.isValid) {
+    throw new InvalidAllowlistError(report);
+  }
+
+  return report.addresses;
+}
+
+// Builds the tree the same way `getMerkleRoot` does for uploaded allowlists,
+// with a leaf for every entry in order, duplicates included
+function getAllowlistMerkleTree(allowlist: string[] | string) {
+  return new MerkleTree(
+    getAllowlistEntries(allowlist).map((entry) =>
+      hashAddress(getAddress(entry.trim()))
+    ),
+    keccak256,
+    { sortPairs: true }
+  );
+}
+
+/**
+ * @summary Verify a merkle proof for an address.
+ * @description Matches the `MerkleLib.sol` verification, which hashes each
+ * address as `keccak256(abi.encodePacked(address))` and combines sorted
+ * pairs with OpenZeppelin's `MerkleProof`.
+ * @param params.merkleRoot the merkle root to verify against
+ * @param params.address the address the proof is for
+ * @param params.proof the merkle proof
+ * @returns true if the proof is valid for the address and root
+ */
+export function verifyAllowlistProof({
+  merkleRoot,
+  address,
+  proof,
+}: {
+  merkleRoot: Hex;
+  address: Hex;
+  proof: Hex[];
+}): boolean {
+  const computedRoot = proof.reduce<Hex>(
+    (hash, proofElement) =>
+      keccak256(
+        BigInt(hash) < BigInt(proofElement)
+          ? concat([hash, proofElement])
+          : concat([proofElement, hash])
+      ),
+    `0x${hashAddress(address).toString("hex")}`
+  );
+
+  return computedRoot.toLowerCase() === merkleRoot.toLowerCase();
+}
+
+/**
+ * @summary Check that an allowlist produces the expected merkle root.
+ * @description Useful for confirming that a local allowlist matches the
+ * merkle root configured on a project's minter before changing it.
+ * @param allowlist the allowlist entries, or the contents of a text or csv
+ * allowlist file
+ * @param merkleRoot the expected merkle root
+ * @returns true if the allowlist's merkle root matches
+ * @throws {InvalidAllowlistError} if the allowlist has invalid entries
+ */
+export function verifyAllowlistMerkleRoot(
+  allowlist: string[] | string,
+  merkleRoot: Hex
+): boolean {
+  getValidatedAddresses(allowlist);
+
+  return (
+    getAllowlistMerkleTree(allowlist).getHexRoot().toLowerCase() ===
+    merkleRoot.toLowerCase()
+  );
+}
+
+/**
+ * @summary Export a bundle with the merkle root and a proof for every
+ * address in an allowlist.
+ * @description The merkle root is built from every entry in order, like the
+ * root of an uploaded allowlist, and the bundle has an entry for each
+ * checksummed address that appears in it.
+ * @param allowlist the allowlist entries, or the contents of a text or csv
+ * allowlist file
+ * @returns the proofs bundle
+ * @throws {InvalidAllowlistError} if the allowlist has invalid entries
+ */
+export function exportAllowlistProofsBundle(
+  allowlist: string[] | string
+): AllowlistProofsBundle {
+  const addresses = getValidatedAddresses(allowlist);
+  const merkleTree = getAllowlistMerkleTree(allowlist);
+
+  return {
+    version: 1,
+    merkleRoot: merkleTree.getHexRoot() as Hex,
+    entries: addresses.map((address) => ({
+      address,
+      proof: merkleTree.getHexProof(hashAddress(address)) as Hex[],
+    })),
+  };
+}
+
+/**
+ * @summary Serialize a proofs bundle to JSON.
+ * @param bundle the proofs bundle
+ * @returns the JSON representation of the bundle
+ */
+export function serializeAllowlistProofsBundle(
+  bundle: AllowlistProofsBundle
+): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * @summary Import a proofs bundle, checking every proof against its root.
+ * @param json the JSON representation of the bundle, or the parsed bundle
+ * @returns the proofs bundle
+ * @throws {InvalidAllowlistProofsBundleError} if the bundle is malformed or
+ * any proof does not verify
+ */
+export function importAllowlistProofsBundle(
+  json: string | unknown
+): AllowlistProofsBundle {
+  let value: unknown = json;
+  if (typeof json === "string") {
+    try {
+      value = JSON.parse(json);
+    } catch (e) {
+      throw new InvalidAllowlistProofsBundleError(
+        "Proofs bundle is not valid JSON"
+      );
+    }
+  }
+
+  const result = allowlistProofsBundleSchema.safeParse(value);
+  if (!result.success) {
+    throw new InvalidAllowlistProofsBundleError(
+      `Proofs bundle is malformed: ${result.error.message}`
+    );
+  }
+
+  const bundle = result.data as AllowlistProofsBundle;
+  for (const entry of bundle.entries) {
+    const normalized = normalizeAllowlistAddress(entry.address);
+
+    if (
+      "issue" in normalized ||
+      !verifyAllowlistProof({ merkleRoot: bundle.merkleRoot, ...entry })
+    ) {
+      throw new InvalidAllowlistProofsBundleError(
+        `Proof for ${entry.address} does not verify against the merkle root`
+      );
+    }
+  }
+
+  return bundle;
+}
+
+/**
+ * @summary Compare two allowlists.
+ * @description Addresses are compared case-insensitively. Invalid entries
+ * are not allowed in either allowlist.
+ * @param previous the current allowlist, e.g. the one behind the merkle root
+ * configured on the minter
+ * @param next the proposed allowlist
+ * @returns the checksummed addresses added, removed and unchanged
+ * @throws {InvalidAllowlistError} if either allowlist has invalid entries
+ */
+export function diffAllowlists(
+  previous: string[],
+  next: string[]
+): AllowlistDiff {
+  const previousAddresses = getValidatedAddresses(previous);
+  const nextAddresses = getValidatedAddresses(next);
+  const previousSet = new Set(previousAddresses);
+  const nextSet = new Set(nextAddresses);
+
+  return {
+    added: nextAddresses.filter((address) => !previousSet.has(address)),
+    removed: previousAddresses.filter((address) => !nextSet.has(address)),
+    unchanged: nextAddresses.filter((address) => previousSet.has(address)),
+  };
+}
@@ -0,0 +1,8 @@
+import { handleAllowlistMerkleWorkerMessages } from "./streaming-merkle";
+
+// Entry point of the Web Worker that builds allowlist merkle trees off the
+// main thread, e.g.
+// new Worker(new URL("@artblocks/sdk/allowlist/merkle-worker", import.meta.url))
+handleAllowlistMerkleWorkerMessages(
+  self as unknown as Parameters<typeof handleAllowlistMerkleWorkerMessages>[0]
+);
@@ -0,0 +1,244 @@
+/**
+ * @jest-environment ./src/test-env.ts
+ */
+import { MerkleTree } from "merkletreejs";
+import { Hex, keccak256, toHex } from "viem";
+import { getMerkleRoot, hashAddress } from "../utils/merkle";
+import {
+  AllowlistProcessingCancelledError,
+  IncrementalAllowlistMerkleTree,
+  buildAllowlistMerkleTree,
+  buildAllowlistMerkleTreeInWorker,
+  handleAllowlistMerkleWorkerMessages,
+  streamAllowlistEntries,
+} from "./streaming-merkle";
+
+// Deterministic addresses, as deriving them from private keys is slow
+function createAddresses(count: number, offset = 0): Hex[] {
+  return Array.from(
+    { length: count },
+    (_, i) => keccak256(toHex(i + offset)).slice(0, 42) as Hex
+  );
+}
+
+function getMerkleTreejsProof(addresses: Hex[], address: Hex) {
+  return new MerkleTree(addresses.map(hashAddress), keccak256, {
+    sortPairs: true,
+  }).getHexProof(hashAddress(address));
+}
+
+async function* toAsyncIterable(chunks: string[]) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+async function collectEntries(chunks: string[]) {
+  const entries: string[] = [];
+  for await (const chunk of streamAllowlistEntries(toAsyncIterable(chunks))) {
+    entries.push(...chunk.entries);
+  }
+  return entries;
+}
+
+describe("streamAllowlistEntries", () => {
+  it("splits entries across chunk boundaries", async () => {
+    expect(
+      await collectEntries(["0xab", "c, 0xdef\r", "\n0x12", "3,,", "\n 0x456 "])
+    ).toEqual(["0xabc", "0xdef", "0x123", "0x456"]);
+  });
+
+  it("reads Blobs in slices", async () => {
+    const addresses = createAddresses(50);
+    const entries: string[] = [];
+    let chunkCount = 0;
+
+    for await (const chunk of streamAllowlistEntries(
+      new Blob([addresses.join("\n")]),
+      100
+    )) {
+      entries.push(...chunk.entries);
+      chunkCount++;
+    }
+
+    expect(entries).toEqual(addresses);
+    expect(chunkCount).toBeGreaterThan(20);
+  });
+});
+
+describe("IncrementalAllowlistMerkleTree", () => {
+  it("has the same root as getMerkleRoot for any number of addresses", () => {
+    for (let count = 0; count <= 40; count++) {
+      const addresses = createAddresses(count);
+      const tree = new IncrementalAllowlistMerkleTree();
+      addresses.forEach((address) => tree.addAddress(address));
+
+      expect(tree.finalize().merkleRoot).toEqual(getMerkleRoot(addresses));
+    }
+  });
+
+  it("has the same proofs as merkletreejs", () => {
+    for (const count of [1, 2, 7, 13, 64, 100]) {
+      const addresses = createAddresses(count);
+      const tree = new IncrementalAllowlistMerkleTree(
+        // Proofs are requested in any case
+        addresses.map((address) => address.toUpperCase().replace("0X", "0x"))
+      );
+      addresses.forEach((address) => tree.addAddress(address));
+      const { proofs } = tree.finalize();
+
+      for (const address of addresses) {
+        expect(proofs[address.toLowerCase()]).toEqual(
+          getMerkleTreejsProof(addresses, address)
+        );
+      }
+    }
+  });
+
+  it("proves the last occurrence of duplicate addresses", () => {
+    const addresses = [...createAddresses(5), ...createAddresses(3)];
+    const tree = new IncrementalAllowlistMerkleTree([addresses[1]]);
+    addresses.forEach((address) => tree.addAddress(address));
+    const { merkleRoot, proofs } = tree.finalize();
+
+    expect(merkleRoot).toEqual(getMerkleRoot(addresses));
+    expect(proofs).toEqual({
+      [addresses[1]]: getMerkleTreejsProof(addresses, addresses[1]),
+    });
+  });
+
+  it("doesn't accept addresses once finalized", () => {
+    const tree = new IncrementalAllowlistMerkleTree();
+    tree.finalize();
+
+    expect(() => tree.addAddress(createAddresses(1)[0])).toThrow(
+      "Cannot add addresses to a finalized merkle tree"
+    );
+  });
+});
+
+describe("buildAllowlistMerkleTree", () => {
+  const addresses = createAddresses(1000);
+  const file = new Blob([addresses.join(",\n")]);
+
+  it("builds the tree of a file with progress", async () => {
+    const onProgress = jest.fn();
+
+    const result = await buildAllowlistMerkleTree(file, {
+      proofsFor: [addresses[500]],
+      includeAddresses: true,
+      onProgress,
+      chunkSize: 4096,
+    });
+
+    expect(result).toEqual({
+      merkleRoot: getMerkleRoot(addresses),
+      addressCount: 1000,
+      proofs: {
+        [addresses[500]]: getMerkleTreejsProof(addresses, addresses[500]),
+      },
+      addresses,
+    });
+    expect(onProgress).toHaveBeenLastCalledWith({
+      addressCount: 1000,
+      bytesRead: file.size,
+      totalBytes: file.size,
+    });
+  });
+
+  it("reads async iterables like Node.js streams", async () => {
+    const result = await buildAllowlistMerkleTree(
+      toAsyncIterable([addresses.slice(0, 10).join("\n")])
+    );
+
+    expect(result).toEqual({
+      merkleRoot: getMerkleRoot(addresses.slice(0, 10)),
+      addressCount: 10,
+      proofs: {},
+    });
+  });
+
+  it("stops once cancelled", async () => {
+    const abortController = new AbortController();
+
+    await expect(
+      buildAllowlistMerkleTree(file, {
+        signal: abortController.signal,
+        chunkSize: 4096,
+        onProgress: () => abortController.abort(),
+      })
+    ).rejects.toThrow(AllowlistProcessingCancelledError);
+  });
+});
+
+describe("buildAllowlistMerkleTreeInWorker", () => {
+  const addresses = createAddresses(20);
+  const file = new Blob([addresses.join("\n")]);
+
+  // Connects a fake worker to the worker message handler on the same thread
+  function createFakeWorker() {
+    const workerScope = {
+      onmessage: null as ((event: MessageEvent) => void) | null,
+      postMessage: (message: unknown) =>
+        worker.onmessage?.({ data: message } as MessageEvent),
+    };
+    const worker = {
+      onmessage: null as ((event: MessageEvent) => void) | null,
+      postMessage: jest.fn((message: unknown) =>
+        workerScope.onmessage?.({ data: message } as MessageEvent)
+      ),
+      terminate: jest.fn(),
+    };
+    handleAllowlistMerkleWorkerMessages(workerScope);
+    return worker;
+  }
+
+  it("builds the tree in the worker", async () => {
+    const worker = createFakeWorker();
+    const onProgress = jest.fn();
+
+    const result = await buildAllowlistMerkleTreeInWorker(file, {
+      createWorker: () => worker as unknown as Worker,
+      onProgress,
+    });
+
+    expect(result.merkleRoot).toEqual(getMerkleRoot(addresses));
+    expect(onProgress).toHaveBeenCalled();
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+
+  it("rejects with errors from the worker", async () => {
+    const worker = createFakeWorker();
+
+    await expect(
+      buildAllowlistMerkleTreeInWorker(new Blob(["artblocks.eth"]), {
+        createWorker: () => worker as unknown as Worker,
+      })
+    ).rejects.toThrow('Address "artblocks.eth" is invalid');
+  });
+
+  it("terminates the worker when cancelled", async () => {
+    const worker = {
+      onmessage: null,
+      postMessage: jest.fn(),
+      terminate: jest.fn(),
+    };
+    const abortController = new AbortController();
+
+    const result = buildAllowlistMerkleTreeInWorker(file, {
+      createWorker: () => worker as unknown as Worker,
+      signal: abortController.signal,
+    });
+    abortController.abort();
+
+    await expect(result).rejects.toThrow(AllowlistProcessingCancelledError);
+    expect(worker.postMessage).toHaveBeenLastCalledWith({ type: "cancel" });
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+
+  it("builds the tree on the calling thread without a worker", async () => {
+    const result = await buildAllowlistMerkleTreeInWorker(file);
+
+    expect(result.merkleRoot).toEqual(getMerkleRoot(addresses));
+  });
+});
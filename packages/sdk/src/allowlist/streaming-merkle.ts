@@ -0,0 +1,472 @@
+import { Hex, bytesToHex, encodePacked, keccak256 } from "viem";
+
+// Allowlist entries are separated by newlines, commas or both, as in
+// textOrCsvAddressListToArray
+const ENTRY_SEPARATOR_REGEX = /[\r\n,]+/;
+
+// Files are read a megabyte at a time, so a 100k address allowlist is read
+// in a handful of chunks while memory stays bounded for larger ones
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * An allowlist file to read incrementally: a browser `Blob` or `File`, a web
+ * `ReadableStream` or an async iterable like a Node.js `fs.ReadStream`.
+ */
+export type AllowlistSource =
+  Blob | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+
+export type AllowlistProcessingProgress = {
+  addressCount: number;
+  bytesRead: number;
+  // Only known for Blob and File sources
+  totalBytes?: number;
+};
+
+export type BuildAllowlistMerkleTreeOptions = {
+  // Addresses to get merkle proofs for, in any case
+  proofsFor?: string[];
+  // Whether to return the parsed addresses, e.g. to upload them
+  includeAddresses?: boolean;
+  onProgress?: (progress: AllowlistProcessingProgress) => void;
+  signal?: AbortSignal;
+  chunkSize?: number;
+};
+
+export type AllowlistMerkleTreeResult = {
+  merkleRoot: Hex;
+  addressCount: number;
+  // Proofs of the addresses in `proofsFor` found in the allowlist, keyed by
+  // lowercased address
+  proofs: Record<string, Hex[]>;
+  addresses?: string[];
+};
+
+/**
+ * @summary Error thrown when processing an allowlist is cancelled with its
+ * abort signal.
+ */
+export class AllowlistProcessingCancelledError extends Error {
+  constructor() {
+    super("Allowlist processing was cancelled");
+    this.name = "AllowlistProcessingCancelledError";
+  }
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new AllowlistProcessingCancelledError();
+  }
+}
+
+function readBlobSlice(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const fr = new FileReader();
+    fr.onload = () => resolve(fr.result as ArrayBuffer);
+    fr.onerror = reject;
+    fr.readAsArrayBuffer(blob);
+  });
+}
+
+async function* readSourceChunks(
+  source: AllowlistSource,
+  chunkSize: number
+): AsyncGenerator<Uint8Array | string> {
+  if (typeof Blob !== "undefined" && source instanceof Blob) {
+    // Blobs are sliced rather than streamed, as not every environment
+    // implements Blob.stream
+    for (let start = 0; start < source.size; start += chunkSize) {
+      yield new Uint8Array(
+        await readBlobSlice(source.slice(start, start + chunkSize))
+      );
+    }
+    return;
+  }
+
+  if ("getReader" in source) {
+    const reader = source.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return;
+        }
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  yield* source as AsyncIterable<Uint8Array | string>;
+}
+
+/**
+ * Reads the entries of an allowlist file without holding the whole file in
+ * memory. Entries are split and trimmed the same way as
+ * `textOrCsvAddressListToArray`, and yielded a chunk of the file at a time.
+ *
+ * @param source - The allowlist file to read.
+ * @param chunkSize - The size in bytes of the slices Blobs are read in.
+ */
+export async function* streamAllowlistEntries(
+  source: AllowlistSource,
+  chunkSize = DEFAULT_CHUNK_SIZE
+): AsyncGenerator<{ entries: string[]; bytesRead: number }> {
+  const decoder = new TextDecoder();
+  let bytesRead = 0;
+  // The end of the previous chunk, which may be the start of an entry
+  let remainder = "";
+
+  for await (const chunk of readSourceChunks(source, chunkSize)) {
+    const text =
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    bytesRead += typeof chunk === "string" ? chunk.length : chunk.byteLength;
+
+    const parts = (remainder + text).split(ENTRY_SEPARATOR_REGEX);
+    remainder = parts.pop() ?? "";
+    yield { entries: cleanEntries(parts), bytesRead };
+  }
+
+  yield {
+    entries: cleanEntries([remainder + decoder.decode()]),
+    bytesRead,
+  };
+}
+
+function cleanEntries(entries: string[]) {
+  return entries.map((entry) => entry.trim()).filter((entry) => entry !== "");
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array) {
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+// Hashes a pair of nodes the way merkletreejs does with sortPairs and
+// MerkleLib.sol's proof verification does, smaller node first
+function hashPair(a: Uint8Array, b: Uint8Array) {
+  const combined = new Uint8Array(a.length + b.length);
+  const [first, second] = compareBytes(a, b) <= 0 ? [a, b] : [b, a];
+  combined.set(first);
+  combined.set(second, first.length);
+  return keccak256(combined, "bytes");
+}
+
+type MerkleNode = {
+  hash: Uint8Array;
+  // The leaves the node is the root of, from `start` up to `end`
+  start: number;
+  end: number;
+};
+
+/**
+ * A merkle tree of allowlisted addresses built one address at a time. Only
+ * the root of each complete subtree is kept, so memory grows with the log of
+ * the number of addresses, plus the proofs requested up front.
+ *
+ * The root and proofs are identical to those of `getMerkleRoot`, which uses
+ * merkletreejs with sorted pairs: nodes without a pair are moved up a layer
+ * unhashed.
+ */
+export class IncrementalAllowlistMerkleTree {
+  private pendingNodes: Array<MerkleNode | undefined> = [];
+  private leafCount = 0;
+  private finalized = false;
+  // Leaf indices of the addresses to get proofs for, keyed by lowercased
+  // address. Unset until the address is added. Like merkletreejs, the last
+  // occurrence of duplicate addresses is proven.
+  private proofIndices = new Map<string, number | undefined>();
+  // Leaf indices with proofs, in increasing order
+  private provenLeaves: number[] = [];
+  private proofs = new Map<number, Uint8Array[]>();
+
+  constructor(proofsFor: string[] = []) {
+    for (const address of proofsFor) {
+      this.proofIndices.set(address.toLowerCase(), undefined);
+    }
+  }
+
+  get addressCount() {
+    return this.leafCount;
+  }
+
+  addAddress(address: string) {
+    if (this.finalized) {
+      throw new Error("Cannot add addresses to a finalized merkle tree");
+    }
+
+    const index = this.leafCount++;
+    const key = address.toLowerCase();
+    if (this.proofIndices.has(key)) {
+      const previousIndex = this.proofIndices.get(key);
+      if (previousIndex !== undefined) {
+        this.provenLeaves.splice(this.provenLeaves.indexOf(previousIndex), 1);
+        this.proofs.delete(previousIndex);
+      }
+      this.proofIndices.set(key, index);
+      this.provenLeaves.push(index);
+      this.proofs.set(index, []);
+    }
+
+    let node: MerkleNode = {
+      hash: keccak256(encodePacked(["address"], [address as Hex]), "bytes"),
+      start: index,
+      end: index + 1,
+    };
+
+    // Merge complete subtrees of the same size, like carrying in a binary
+    // counter
+    let level = 0;
+    let pending = this.pendingNodes[level];
+    while (pending) {
+      node = this.combine(pending, node);
+      this.pendingNodes[level] = undefined;
+      pending = this.pendingNodes[++level];
+    }
+    this.pendingNodes[level] = node;
+  }
+
+  private combine(left: MerkleNode, right: MerkleNode): MerkleNode {
+    for (const index of this.getProvenLeavesBetween(left.start, right.end)) {
+      this.proofs.get(index)?.push(index < left.end ? right.hash : left.hash);
+    }
+
+    return {
+      hash: hashPair(left.hash, right.hash),
+      start: left.start,
+      end: right.end,
+    };
+  }
+
+  private getProvenLeavesBetween(start: number, end: number) {
+    // Binary search for the first proven leaf from `start`
+    let low = 0;
+    let high = this.provenLeaves.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.provenLeaves[mid] < start) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const leaves: number[] = [];
+    for (let i = low; i < this.provenLeaves.length; i++) {
+      if (this.provenLeaves[i] >= end) {
+        break;
+      }
+      leaves.push(this.provenLeaves[i]);
+    }
+    return leaves;
+  }
+
+  /**
+   * Completes the tree, after which no more addresses can be added.
+   *
+   * @returns The merkle root, and the proofs of the requested addresses that
+   * were added, keyed by lowercased address.
+   */
+  finalize(): { merkleRoot: Hex; proofs: Record<string, Hex[]> } {
+    if (!this.finalized) {
+      this.finalized = true;
+
+      // The remaining subtrees are merged from the smallest, which holds the
+      // last leaves. A subtree without a pair on its layer moves up unhashed.
+      let root: MerkleNode | undefined;
+      for (const node of this.pendingNodes) {
+        if (node) {
+          root = root ? this.combine(node, root) : node;
+        }
+      }
+      this.pendingNodes = root ? [root] : [];
+    }
+
+    const [root] = this.pendingNodes;
+    const proofs: Record<string, Hex[]> = {};
+    for (const [address, index] of this.proofIndices) {
+      const proof = index === undefined ? undefined : this.proofs.get(index);
+      if (proof) {
+        proofs[address] = proof.map((hash) => bytesToHex(hash));
+      }
+    }
+
+    return {
+      // merkletreejs returns an empty root for empty trees
+      merkleRoot: root ? bytesToHex(root.hash) : "0x",
+      proofs,
+    };
+  }
+}
+
+/**
+ * Builds the merkle tree of an allowlist file while reading it, without
+ * holding the file or the tree in memory. Runs on the calling thread, so use
+ * `buildAllowlistMerkleTreeInWorker` in browsers to keep pages responsive.
+ *
+ * @param source - The allowlist file.
+ * @param options.proofsFor - Addresses to get merkle proofs for.
+ * @param options.includeAddresses - Whether to return the parsed addresses.
+ * @param options.onProgress - Optional callback invoked after each chunk of the file.
+ * @param options.signal - Optional signal to cancel processing with.
+ * @returns The merkle root, address count and requested proofs.
+ * @throws AllowlistProcessingCancelledError if the signal is aborted.
+ */
+export async function buildAllowlistMerkleTree(
+  source: AllowlistSource,
+  options: BuildAllowlistMerkleTreeOptions = {}
+): Promise<AllowlistMerkleTreeResult> {
+  const { proofsFor, includeAddresses, onProgress, signal, chunkSize } =
+    options;
+  const totalBytes =
+    typeof Blob !== "undefined" && source instanceof Blob
+      ? source.size
+      : undefined;
+  const tree = new IncrementalAllowlistMerkleTree(proofsFor);
+  const addresses: string[] = [];
+
+  throwIfAborted(signal);
+  for await (const { entries, bytesRead } of streamAllowlistEntries(
+    source,
+    chunkSize
+  )) {
+    throwIfAborted(signal);
+    for (const entry of entries) {
+      tree.addAddress(entry);
+    }
+    if (includeAddresses) {
+      addresses.push(...entries);
+    }
+    onProgress?.({ addressCount: tree.addressCount, bytesRead, totalBytes });
+  }
+
+  return {
+    ...tree.finalize(),
+    addressCount: tree.addressCount,
+    ...(includeAddresses ? { addresses } : {}),
+  };
+}
+
+type AllowlistMerkleWorkerRequest =
+  | {
+      type: "build";
+      file: Blob;
+      options: Omit<BuildAllowlistMerkleTreeOptions, "onProgress" | "signal">;
+    }
+  | { type: "cancel" };
+
+type AllowlistMerkleWorkerResponse =
+  | { type: "progress"; progress: AllowlistProcessingProgress }
+  | { type: "result"; result: AllowlistMerkleTreeResult }
+  | { type: "error"; name: string; message: string };
+
+// The parts of a worker's global scope, or of a Worker, that the merkle
+// worker protocol uses
+type AllowlistMerkleWorkerPort = {
+  postMessage: (message: unknown) => void;
+  onmessage: ((event: MessageEvent) => void) | null;
+};
+
+/**
+ * Handles allowlist merkle tree requests posted to a worker. Called by the
+ * SDK's `allowlist/merkle-worker` entry point, and by custom workers that
+ * bundle the SDK themselves.
+ *
+ * @param scope - The worker's global scope.
+ */
+export function handleAllowlistMerkleWorkerMessages(
+  scope: AllowlistMerkleWorkerPort
+) {
+  let abortController: AbortController | undefined;
+  const respond = (response: AllowlistMerkleWorkerResponse) =>
+    scope.postMessage(response);
+
+  scope.onmessage = async (event) => {
+    const request = event.data as AllowlistMerkleWorkerRequest;
+    if (request.type === "cancel") {
+      abortController?.abort();
+      return;
+    }
+
+    abortController = new AbortController();
+    try {
+      const result = await buildAllowlistMerkleTree(request.file, {
+        ...request.options,
+        signal: abortController.signal,
+        onProgress: (progress) => respond({ type: "progress", progress }),
+      });
+      respond({ type: "result", result });
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      respond({ type: "error", name: error.name, message: error.message });
+    }
+  };
+}
+
+/**
+ * Builds the merkle tree of an allowlist file in a Web Worker, so that large
+ * allowlists don't freeze the page. Without `createWorker`, such as in
+ * Node.js, the tree is built on the calling thread instead.
+ *
+ * @param file - The allowlist file.
+ * @param options.createWorker - Creates a worker running the SDK's `allowlist/merkle-worker` entry point.
+ * @returns The merkle root, address count and requested proofs.
+ * @throws AllowlistProcessingCancelledError if the signal is aborted.
+ */
+export async function buildAllowlistMerkleTreeInWorker(
+  file: Blob,
+  options: BuildAllowlistMerkleTreeOptions & {
+    createWorker?: () => Worker;
+  } = {}
+): Promise<AllowlistMerkleTreeResult> {
+  const { createWorker, onProgress, signal, ...buildOptions } = options;
+  if (!createWorker) {
+    return buildAllowlistMerkleTree(file, options);
+  }
+
+  throwIfAborted(signal);
+  const worker: AllowlistMerkleWorkerPort & { terminate: () => void } =
+    createWorker();
+
+  return new Promise<AllowlistMerkleTreeResult>((resolve, reject) => {
+    const onAbort = () => {
+      worker.postMessage({ type: "cancel" });
+      worker.terminate();
+      reject(new AllowlistProcessingCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const settle = () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event) => {
+      const response = event.data as AllowlistMerkleWorkerResponse;
+      if (response.type === "progress") {
+        onProgress?.(response.progress);
+      } else if (response.type === "result") {
+        settle();
+        resolve(response.result);
+      } else {
+        settle();
+        const error = new Error(response.message);
+        error.name = response.name;
+        reject(error);
+      }
+    };
+
+    const request: AllowlistMerkleWorkerRequest = {
+      type: "build",
+      file,
+      options: buildOptions,
+    };
+    worker.postMessage(request);
+  });
+}
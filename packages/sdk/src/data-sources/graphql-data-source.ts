@@ -0,0 +1,126 @@
+import { GraphQLClient } from "graphql-request";
+import {
+  getProjectMinterConfigurationQueryDocument,
+  getProjectMinterConfigurationUpdatesQueryDocument,
+  getProjectsMetadataUpdatesQueryDocument,
+} from "../minter-configuration/graphql-operations";
+import {
+  getProjectDetailsDocument,
+  getReceiptDocument,
+  getReceiptsWithExcessSettlementFundsForUserDocument,
+  getTokenDetailsDocument,
+  getUserBidsDocument,
+  getUserTokensInAllowlistDocument,
+} from "./graphql-operations";
+import { DataSource } from "./types";
+
+/**
+ * Reads from the Art Blocks GraphQL API. This is the data source used by
+ * `ArtBlocksClient` when none is provided.
+ */
+export class GraphQLDataSource implements DataSource {
+  graphqlClient: GraphQLClient;
+
+  constructor(graphqlClient: GraphQLClient) {
+    this.graphqlClient = graphqlClient;
+  }
+
+  async getProjectDetails(projectId: string) {
+    const res = await this.graphqlClient.request(getProjectDetailsDocument, {
+      projectId,
+    });
+
+    return res.projects_metadata_by_pk ?? null;
+  }
+
+  async getTokenDetails(tokenId: string) {
+    const res = await this.graphqlClient.request(getTokenDetailsDocument, {
+      tokenId,
+    });
+
+    return res.tokens_metadata_by_pk ?? null;
+  }
+
+  async getTokensOwnedBy({
+    projectIds,
+    ownerAddresses,
+  }: {
+    projectIds: string[];
+    ownerAddresses: string[];
+  }) {
+    const res = await this.graphqlClient.request(
+      getUserTokensInAllowlistDocument,
+      {
+        allowedProjectIds: projectIds,
+        userAddressAndVaults: ownerAddresses,
+      }
+    );
+
+    return res.tokens_metadata;
+  }
+
+  async getUserBids({
+    projectId,
+    userAddress,
+  }: {
+    projectId: string;
+    userAddress: string;
+  }) {
+    const res = await this.graphqlClient.request(getUserBidsDocument, {
+      projectId,
+      userAddress: userAddress.toLowerCase(),
+    });
+
+    return res.project_ranked_bids;
+  }
+
+  async getReceiptsWithExcessSettlementFunds({
+    userAddress,
+    minterTypes,
+  }: Parameters<DataSource["getReceiptsWithExcessSettlementFunds"]>[0]) {
+    const res = await this.graphqlClient.request(
+      getReceiptsWithExcessSettlementFundsForUserDocument,
+      {
+        userAddress: userAddress.toLowerCase(),
+        supportedMinterTypes: minterTypes,
+      }
+    );
+
+    return res.receipt_metadata;
+  }
+
+  async getReceiptExcessSettlementFunds(receiptId: string) {
+    const res = await this.graphqlClient.request(getReceiptDocument, {
+      id: receiptId,
+    });
+
+    return res.receipt_metadata_by_pk ?? null;
+  }
+
+  async getProjectMinterConfiguration(projectId: string) {
+    const res = await this.graphqlClient.request(
+      getProjectMinterConfigurationQueryDocument,
+      { projectId }
+    );
+
+    return res.projects_metadata_by_pk;
+  }
+
+  async getProjectMinterConfigurationUpdates(projectId: string) {
+    const res = await this.graphqlClient.request(
+      getProjectMinterConfigurationUpdatesQueryDocument,
+      { projectId }
+    );
+
+    return res.projects_metadata_by_pk;
+  }
+
+  async getProjectUpdates(projectId: string) {
+    const res = await this.graphqlClient.request(
+      getProjectsMetadataUpdatesQueryDocument,
+      { projectId }
+    );
+
+    return res.projects_metadata_by_pk;
+  }
+}
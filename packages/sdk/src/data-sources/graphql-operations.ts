@@ -0,0 +1,88 @@
+import { graphql } from "../generated/index";
+
+export const getProjectDetailsDocument = graphql(/* GraphQL */ `
+  query GetProjectDetails($projectId: String!) {
+    projects_metadata_by_pk(id: $projectId) {
+      ...ProjectDetails
+    }
+  }
+`);
+
+export const getTokenDetailsDocument = graphql(/* GraphQL */ `
+  query GetTokenDetails($tokenId: String!) {
+    tokens_metadata_by_pk(id: $tokenId) {
+      id
+      token_id
+      invocation
+      contract_address
+      invocation
+      live_view_url
+      project {
+        name
+      }
+    }
+  }
+`);
+
+export const getUserTokensInAllowlistDocument = graphql(/* GraphQL */ `
+  query getUserTokensInAllowlistDocument(
+    $allowedProjectIds: [String!]!
+    $userAddressAndVaults: [String!]!
+  ) {
+    tokens_metadata(
+      where: {
+        project_id: { _in: $allowedProjectIds }
+        owner_address: { _in: $userAddressAndVaults }
+      }
+    ) {
+      id
+      owner_address
+    }
+  }
+`);
+
+export const getUserBidsDocument = graphql(/* GraphQL */ `
+  query GetUserBids($projectId: String!, $userAddress: String!) {
+    project_ranked_bids(
+      args: { project: $projectId }
+      where: { bidder_address: { _eq: $userAddress } }
+      order_by: { rank: asc }
+    ) {
+      ...BidDetails
+    }
+  }
+`);
+
+export const getReceiptDocument = graphql(/* GraphQL */ `
+  query GetReceipt($id: String!) {
+    receipt_metadata_by_pk(id: $id) {
+      id
+      excess_settlement_funds
+    }
+  }
+`);
+
+export const getReceiptsWithExcessSettlementFundsForUserDocument = graphql(
+  /* GraphQL */ `
+    query GetReceiptsWithExcessSettlementFundsForUser(
+      $userAddress: String!
+      $supportedMinterTypes: [minter_type_names_enum!]!
+    ) {
+      receipt_metadata(
+        where: {
+          user_address: { _eq: $userAddress }
+          excess_settlement_funds: { _neq: "0" }
+          minter: { type: { type: { _in: $supportedMinterTypes } } }
+          project_minter_configuration: {
+            _or: [
+              { complete: { _eq: true } }
+              { auction_end_time: { _lt: "now()" } }
+            ]
+          }
+        }
+      ) {
+        ...ReceiptSettlementData
+      }
+    }
+  `
+);
@@ -0,0 +1,3 @@
+export * from "./types";
+export { GraphQLDataSource } from "./graphql-data-source";
+export { RpcDataSource, type RpcDataSourceOptions } from "./rpc-data-source";
@@ -0,0 +1,392 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { PublicClient, zeroHash } from "viem";
+import { RpcDataSource } from "./rpc-data-source";
+
+const CORE_CONTRACT = "0xa7d8d9ef8d8ce8992df33d8b8cf4aebabd5bd270";
+const MINTER_FILTER = "0x94560abecb897f359ee1a6ed0e922315da11752d";
+const MINTER = "0x1111111111111111111111111111111111111111";
+const HOLDER_CONTRACT = "0x2222222222222222222222222222222222222222";
+const USER = "0x81c41d4405bd22a2012830870a10e26d3f740a31";
+const OTHER_USER = "0x3333333333333333333333333333333333333333";
+
+type ReadContractArgs = { functionName: string; args?: readonly unknown[] };
+type GetContractEventsArgs = { eventName: string };
+type GetCodeArgs = { blockNumber: bigint };
+
+function createPublicClient({
+  reads,
+  events = {},
+  deploymentBlock = BigInt(0),
+}: {
+  reads: Record<string, (args?: readonly unknown[]) => unknown>;
+  events?: Record<string, unknown[]>;
+  deploymentBlock?: bigint;
+}) {
+  return {
+    readContract: jest.fn(async ({ functionName, args }: ReadContractArgs) => {
+      const read = reads[functionName];
+      if (!read) {
+        throw new Error(`Unexpected read of ${functionName}`);
+      }
+      return read(args);
+    }),
+    getContractEvents: jest.fn(
+      async ({ eventName }: GetContractEventsArgs) => events[eventName] ?? []
+    ),
+    getBlock: jest.fn(async () => ({ timestamp: BigInt(1700000000) })),
+    getBlockNumber: jest.fn(async () => BigInt(1000)),
+    getCode: jest.fn(async ({ blockNumber }: GetCodeArgs) =>
+      blockNumber >= deploymentBlock ? "0x6080" : undefined
+    ),
+  } as unknown as PublicClient;
+}
+
+const projectReads = {
+  nextProjectId: () => BigInt(10),
+  coreType: () => "GenArt721CoreV3",
+  projectDetails: () => ["Chromie Squiggle", "Snowfro", "", "", ""],
+  projectStateData: () => [
+    BigInt(5),
+    BigInt(100),
+    true,
+    false,
+    BigInt(0),
+    false,
+  ],
+  projectScriptDetails: () => ["p5js@1.0.0", "1.5", BigInt(1)],
+  projectIdToArtistAddress: () => USER,
+  projectHasMinter: () => true,
+  getMinterForProject: () => MINTER,
+  getPriceInfo: () => [true, BigInt(100), "ETH", zeroHash.slice(0, 42)],
+};
+
+describe("RpcDataSource", () => {
+  describe("getProjectDetails", () => {
+    it("returns null for projects that don't exist", async () => {
+      const dataSource = new RpcDataSource({
+        publicClient: createPublicClient({ reads: projectReads }),
+        minterFilterAddress: MINTER_FILTER,
+      });
+
+      await expect(
+        dataSource.getProjectDetails(`${CORE_CONTRACT}-10`)
+      ).resolves.toBeNull();
+    });
+
+    it("reads project state and the minter assigned by the minter filter", async () => {
+      const dataSource = new RpcDataSource({
+        publicClient: createPublicClient({
+          reads: {
+            ...projectReads,
+            minterType: () => "MinterSetPriceMerkleV5",
+            merkleProjectConfig: () => [false, 0, `0x${"ab".repeat(32)}`],
+            projectMaxInvocationsPerAddress: () => BigInt(2),
+          },
+        }),
+        minterFilterAddress: MINTER_FILTER,
+      });
+
+      const project = await dataSource.getProjectDetails(`${CORE_CONTRACT}-3`);
+
+      expect(project).toMatchObject({
+        id: `${CORE_CONTRACT}-3`,
+        name: "Chromie Squiggle",
+        artist_name: "Snowfro",
+        invocations: 5,
+        max_invocations: 100,
+        complete: false,
+        aspect_ratio: 1.5,
+        minter_configuration: {
+          base_price: "100",
+          currency_symbol: "ETH",
+          extra_minter_details: {
+            merkleRoot: `0x${"ab".repeat(32)}`,
+            maxInvocationsPerAddress: 2,
+          },
+          minter: {
+            address: MINTER,
+            minter_type: "MinterSetPriceMerkleV5",
+          },
+        },
+      });
+    });
+
+    it("replays holder allowlist changes in the order they were made", async () => {
+      const dataSource = new RpcDataSource({
+        publicClient: createPublicClient({
+          reads: {
+            ...projectReads,
+            minterType: () => "MinterSetPriceHolderV5",
+          },
+          events: {
+            AllowedHoldersOfProjects: [
+              {
+                eventName: "AllowedHoldersOfProjects",
+                blockNumber: BigInt(1),
+                logIndex: 0,
+                args: {
+                  ownedNFTAddresses: [HOLDER_CONTRACT, HOLDER_CONTRACT],
+                  ownedNFTProjectIds: [BigInt(0), BigInt(1)],
+                },
+              },
+              {
+                eventName: "AllowedHoldersOfProjects",
+                blockNumber: BigInt(3),
+                logIndex: 0,
+                args: {
+                  ownedNFTAddresses: [HOLDER_CONTRACT],
+                  ownedNFTProjectIds: [BigInt(1)],
+                },
+              },
+            ],
+            RemovedHoldersOfProjects: [
+              {
+                eventName: "RemovedHoldersOfProjects",
+                blockNumber: BigInt(2),
+                logIndex: 0,
+                args: {
+                  ownedNFTAddresses: [HOLDER_CONTRACT, HOLDER_CONTRACT],
+                  ownedNFTProjectIds: [BigInt(0), BigInt(1)],
+                },
+              },
+            ],
+          },
+        }),
+        minterFilterAddress: MINTER_FILTER,
+      });
+
+      const project = await dataSource.getProjectDetails(`${CORE_CONTRACT}-3`);
+
+      expect(project?.minter_configuration?.extra_minter_details).toStrictEqual(
+        {
+          allowlistedAddressAndProjectId: [`${HOLDER_CONTRACT}-1`],
+        }
+      );
+    });
+  });
+
+  it("returns tokens that are still held by the owners", async () => {
+    const dataSource = new RpcDataSource({
+      publicClient: createPublicClient({
+        reads: {
+          ownerOf: (args) =>
+            args?.[0] === BigInt(1_000_001) ? OTHER_USER : USER,
+        },
+        events: {
+          Transfer: [
+            { args: { tokenId: BigInt(1_000_000) } },
+            { args: { tokenId: BigInt(1_000_001) } },
+            { args: { tokenId: BigInt(2_000_000) } },
+          ],
+        },
+      }),
+      minterFilterAddress: MINTER_FILTER,
+    });
+
+    const tokens = await dataSource.getTokensOwnedBy({
+      projectIds: [`${CORE_CONTRACT}-1`],
+      ownerAddresses: [USER],
+    });
+
+    expect(tokens).toStrictEqual([
+      { id: `${CORE_CONTRACT}-1000000`, owner_address: USER },
+    ]);
+  });
+
+  it("ranks active bids by slot and returns removed bids last", async () => {
+    const dataSource = new RpcDataSource({
+      publicClient: createPublicClient({
+        reads: {
+          getMinterForProject: () => MINTER,
+          slotIndexToBidValue: (args) => BigInt(args?.[2] as number),
+        },
+        events: {
+          BidCreated: [
+            { args: { bidId: BigInt(1), bidder: USER, slotIndex: BigInt(1) } },
+            {
+              args: {
+                bidId: BigInt(2),
+                bidder: OTHER_USER,
+                slotIndex: BigInt(5),
+              },
+            },
+            { args: { bidId: BigInt(3), bidder: USER, slotIndex: BigInt(2) } },
+            { args: { bidId: BigInt(4), bidder: USER, slotIndex: BigInt(9) } },
+          ],
+          BidToppedUp: [
+            { args: { bidId: BigInt(1), newSlotIndex: BigInt(7) } },
+          ],
+          BidRemoved: [{ args: { bidId: BigInt(4) } }],
+        },
+      }),
+      minterFilterAddress: MINTER_FILTER,
+    });
+
+    const bids = await dataSource.getUserBids({
+      projectId: `${CORE_CONTRACT}-3`,
+      userAddress: USER,
+    });
+
+    expect(
+      bids.map(({ id, rank, slot_index, is_removed }) => ({
+        id,
+        rank,
+        slot_index,
+        is_removed,
+      }))
+    ).toStrictEqual([
+      {
+        id: `${MINTER}-${CORE_CONTRACT}-3-1`,
+        rank: 1,
+        slot_index: 7,
+        is_removed: false,
+      },
+      {
+        id: `${MINTER}-${CORE_CONTRACT}-3-3`,
+        rank: 3,
+        slot_index: 2,
+        is_removed: false,
+      },
+      {
+        id: `${MINTER}-${CORE_CONTRACT}-3-4`,
+        rank: null,
+        slot_index: 9,
+        is_removed: true,
+      },
+    ]);
+  });
+
+  it("reads events from the block each contract was deployed at", async () => {
+    const publicClient = createPublicClient({
+      reads: { ownerOf: () => USER },
+      events: { Transfer: [] },
+      deploymentBlock: BigInt(421),
+    });
+    const dataSource = new RpcDataSource({
+      publicClient,
+      minterFilterAddress: MINTER_FILTER,
+    });
+
+    await dataSource.getTokensOwnedBy({
+      projectIds: [`${CORE_CONTRACT}-1`],
+      ownerAddresses: [USER],
+    });
+    await dataSource.getTokensOwnedBy({
+      projectIds: [`${CORE_CONTRACT}-2`],
+      ownerAddresses: [USER],
+    });
+
+    expect(publicClient.getContractEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: BigInt(421) })
+    );
+    // The deployment block is only searched for once
+    expect(publicClient.getBlockNumber).toHaveBeenCalledTimes(1);
+  });
+
+  describe("minter configuration", () => {
+    const minterConfigurationReads = {
+      ...projectReads,
+      minterType: () => "MinterSetPriceMerkleV5",
+      merkleProjectConfig: () => [false, 0, zeroHash],
+      projectMaxInvocationsPerAddress: () => BigInt(1),
+      maxInvocationsProjectConfig: () => ({
+        maxHasBeenInvoked: false,
+        maxInvocations: 50,
+      }),
+      minterFilterType: () => "MinterFilterV2",
+      getAllGloballyApprovedMinters: () => [
+        { minterAddress: MINTER, minterType: "MinterSetPriceMerkleV5" },
+      ],
+    };
+
+    it("describes the project's minter with the local schemas", async () => {
+      const dataSource = new RpcDataSource({
+        publicClient: createPublicClient({ reads: minterConfigurationReads }),
+        minterFilterAddress: MINTER_FILTER,
+      });
+
+      const project = await dataSource.getProjectMinterConfiguration(
+        `${CORE_CONTRACT}-3`
+      );
+
+      expect(project).toMatchObject({
+        project_id: "3",
+        contract: {
+          minter_filter: {
+            type: "MinterFilterV2",
+            address: MINTER_FILTER,
+            globally_allowed_minters: [
+              {
+                address: MINTER,
+                minter_type: "MinterSetPriceMerkleV5",
+                type: {
+                  label: "Fixed price allowlist minter",
+                  unversioned_type: "MinterSetPriceMerkle",
+                  version_number: 5,
+                },
+              },
+            ],
+          },
+        },
+        minter_configuration: {
+          id: `${MINTER}-${CORE_CONTRACT}-3`,
+          project_id: `${CORE_CONTRACT}-3`,
+          base_price: "100",
+          max_invocations: 50,
+          extra_minter_details: { maxInvocationsPerAddress: 1 },
+          minter: {
+            address: MINTER,
+            minter_type: "MinterSetPriceMerkleV5",
+            type: {
+              unversioned_type: "MinterSetPriceMerkle",
+              version_number: 5,
+            },
+          },
+        },
+      });
+      expect(
+        Object.keys(
+          project?.minter_configuration?.minter?.type
+            ?.project_configuration_schema.properties
+        )
+      ).toContain("updateMerkleRoot");
+    });
+
+    it("returns null for projects that don't exist", async () => {
+      const dataSource = new RpcDataSource({
+        publicClient: createPublicClient({ reads: minterConfigurationReads }),
+        minterFilterAddress: MINTER_FILTER,
+      });
+
+      await expect(
+        dataSource.getProjectMinterConfiguration(`${CORE_CONTRACT}-10`)
+      ).resolves.toBeNull();
+    });
+
+    it("reports the properties of the minter's forms as synced at the latest block", async () => {
+      const dataSource = new RpcDataSource({
+        publicClient: createPublicClient({ reads: minterConfigurationReads }),
+        minterFilterAddress: MINTER_FILTER,
+      });
+      const latestBlockTime = new Date(1700000000 * 1000).toISOString();
+
+      const minterConfigurationUpdates =
+        await dataSource.getProjectMinterConfigurationUpdates(
+          `${CORE_CONTRACT}-3`
+        );
+      const projectUpdates = await dataSource.getProjectUpdates(
+        `${CORE_CONTRACT}-3`
+      );
+
+      expect(
+        minterConfigurationUpdates?.minter_configuration?.properties_updated_at
+      ).toMatchObject({
+        "extra_minter_details.merkleRoot": latestBlockTime,
+        "extra_minter_details.maxInvocationsPerAddress": latestBlockTime,
+      });
+      expect(projectUpdates?.properties_updated_at).toStrictEqual({
+        minter_configuration_id: latestBlockTime,
+      });
+    });
+  });
+});
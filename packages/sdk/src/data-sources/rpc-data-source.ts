@@ -0,0 +1,965 @@
+import {
+  BlockNumber,
+  BlockTag,
+  ContractFunctionExecutionError,
+  Hex,
+  PublicClient,
+  erc721Abi,
+  parseAbi,
+  zeroHash,
+} from "viem";
+import { iGenArt721CoreContractV3BaseAbi } from "../../abis/iGenArt721CoreContractV3BaseAbi";
+import { iMinterFilterV1Abi } from "../../abis/iMinterFilterV1Abi";
+import { iSharedMinterV0Abi } from "../../abis/iSharedMinterV0Abi";
+import { iSharedMinterDAExpSettlementV0Abi } from "../../abis/iSharedMinterDAExpSettlementV0Abi";
+import { minterRAMV0Abi } from "../../abis/minterRAMV0Abi";
+import { minterSetPriceMerkleV5Abi } from "../../abis/minterSetPriceMerkleV5Abi";
+import {
+  GetProjectMinterConfigurationQuery,
+  GetProjectMinterConfigurationUpdatesQuery,
+  GetProjectsMetadataUpdatesQueryQuery,
+} from "../generated/graphql";
+import {
+  getMinterConfigurationSchema,
+  getMinterTypeDetails,
+} from "../minter-configuration/schemas";
+import { getAddressBook } from "../utils/addresses";
+import { getPublicClientChainId } from "../utils/chains";
+import { getDeploymentBlock } from "../utils/deployment-block";
+import {
+  DataSource,
+  DataSourceBid,
+  DataSourceOwnedToken,
+  DataSourceProjectDetails,
+  DataSourceReceipt,
+  DataSourceReceiptExcessSettlementFunds,
+  DataSourceTokenDetails,
+} from "./types";
+
+// Events emitted by the shared minter libraries that aren't part of the
+// minter interfaces
+const tokenHolderLibAbi = parseAbi([
+  "event AllowedHoldersOfProjects(uint256 indexed projectId, address indexed coreContract, address[] ownedNFTAddresses, uint256[] ownedNFTProjectIds)",
+  "event RemovedHoldersOfProjects(uint256 indexed projectId, address indexed coreContract, address[] ownedNFTAddresses, uint256[] ownedNFTProjectIds)",
+]);
+const daExpLibAbi = parseAbi([
+  "event SetAuctionDetailsExp(uint256 indexed projectId, address indexed coreContract, uint40 auctionTimestampStart, uint40 priceDecayHalfLifeSeconds, uint256 startPrice, uint256 basePrice)",
+]);
+const settlementExpLibAbi = parseAbi([
+  "event ReceiptUpdated(address indexed purchaser, uint256 indexed projectId, address indexed coreContract, uint24 numPurchased, uint256 netPosted)",
+]);
+const maxInvocationsLibAbi = parseAbi([
+  "function maxInvocationsProjectConfig(uint256 projectId, address coreContract) view returns ((bool maxHasBeenInvoked, uint24 maxInvocations))",
+]);
+
+// Token numbers are the project index followed by a six digit invocation
+const ONE_MILLION = BigInt(1_000_000);
+
+// Minter families are identified from the on-chain `minterType()` names
+const MERKLE_MINTER_TYPE_REGEX = /Merkle/;
+const TOKEN_HOLDER_MINTER_TYPE_REGEX = /(Holder|Polyptych)/;
+const DA_EXP_MINTER_TYPE_REGEX = /^MinterDAExp/;
+const RAM_MINTER_TYPE_REGEX = /^MinterRAM/;
+
+// The project property the minter selection form syncs
+const MINTER_CONFIGURATION_ID_PROPERTY = "minter_configuration_id";
+
+export type RpcDataSourceOptions = {
+  publicClient: PublicClient;
+  // The shared minter filter that assigns minters to projects. Defaults to
+  // the address book entry for the public client's chain, and is required for
+  // chains without one, such as a local Hardhat node.
+  minterFilterAddress?: Hex;
+  // The block to start reading event logs from. Defaults to the block each
+  // contract whose events are read was deployed at.
+  fromBlock?: BlockNumber | BlockTag;
+};
+
+type ParsedId = {
+  coreContractAddress: Hex;
+  tokenOrProjectId: bigint;
+};
+
+// Parses a project or token id in the form `<core contract address>-<id>`
+function parseId(id: string): ParsedId {
+  const [coreContractAddress, tokenOrProjectId] = id.split("-");
+
+  if (!coreContractAddress || !tokenOrProjectId) {
+    throw new Error(`Invalid project or token ID ${id}`);
+  }
+
+  return {
+    coreContractAddress: coreContractAddress.toLowerCase() as Hex,
+    tokenOrProjectId: BigInt(tokenOrProjectId),
+  };
+}
+
+function formatId(address: string, ...parts: Array<bigint | string>) {
+  return [address, ...parts].join("-").toLowerCase();
+}
+
+function timestampToISOString(timestamp: bigint | number) {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+/**
+ * Reads directly from Art Blocks contracts through a viem public client, so
+ * the SDK can be used without the Art Blocks API. Project state is read from
+ * the `GenArt721CoreV3` core contract, minter assignments from the shared
+ * minter filter and minter configuration from minter views and event logs.
+ *
+ * Records that the API derives from off-chain data are left empty, e.g.
+ * featured token media and live view URLs. Minter configuration forms are
+ * generated from the SDK's local schemas, and every property is synced as of
+ * the latest block.
+ */
+export class RpcDataSource implements DataSource {
+  publicClient: PublicClient;
+  minterFilterAddress?: Hex;
+  fromBlock?: BlockNumber | BlockTag;
+  private deploymentBlocks = new Map<string, Promise<bigint>>();
+
+  constructor({
+    publicClient,
+    minterFilterAddress,
+    fromBlock,
+  }: RpcDataSourceOptions) {
+    this.publicClient = publicClient;
+    this.minterFilterAddress = minterFilterAddress;
+    this.fromBlock = fromBlock;
+  }
+
+  async getMinterFilterAddress(): Promise<Hex> {
+    if (this.minterFilterAddress) {
+      return this.minterFilterAddress;
+    }
+
+    const chainId = await getPublicClientChainId(this.publicClient);
+    const sharedMinterFilter = getAddressBook(chainId)?.sharedMinterFilter;
+
+    if (!sharedMinterFilter) {
+      throw new Error(
+        `No shared minter filter is known for chain ${chainId}, a minterFilterAddress must be provided`
+      );
+    }
+
+    return sharedMinterFilter;
+  }
+
+  // Reads a contract's events from the configured block, or from the block
+  // the contract was deployed at
+  private async getFromBlock(address: Hex): Promise<BlockNumber | BlockTag> {
+    if (this.fromBlock !== undefined) {
+      return this.fromBlock;
+    }
+
+    const key = address.toLowerCase();
+    let deploymentBlock = this.deploymentBlocks.get(key);
+    if (!deploymentBlock) {
+      deploymentBlock = getDeploymentBlock(this.publicClient, address);
+      // Don't cache failed lookups, so they're retried on the next read
+      deploymentBlock.catch(() => this.deploymentBlocks.delete(key));
+      this.deploymentBlocks.set(key, deploymentBlock);
+    }
+
+    return deploymentBlock;
+  }
+
+  async getProjectDetails(
+    projectId: string
+  ): Promise<DataSourceProjectDetails | null> {
+    const { coreContractAddress, tokenOrProjectId: projectIndex } =
+      parseId(projectId);
+    const coreContract = {
+      address: coreContractAddress,
+      abi: iGenArt721CoreContractV3BaseAbi,
+    } as const;
+
+    const nextProjectId = await this.publicClient.readContract({
+      ...coreContract,
+      functionName: "nextProjectId",
+    });
+
+    if (projectIndex >= nextProjectId) {
+      return null;
+    }
+
+    const [
+      coreType,
+      [projectName, artistName],
+      [invocations, maxInvocations, , paused, completedTimestamp],
+      [, aspectRatio],
+      artistAddress,
+      minterConfiguration,
+    ] = await Promise.all([
+      this.publicClient.readContract({
+        ...coreContract,
+        functionName: "coreType",
+      }),
+      this.publicClient.readContract({
+        ...coreContract,
+        functionName: "projectDetails",
+        args: [projectIndex],
+      }),
+      this.publicClient.readContract({
+        ...coreContract,
+        functionName: "projectStateData",
+        args: [projectIndex],
+      }),
+      this.publicClient.readContract({
+        ...coreContract,
+        functionName: "projectScriptDetails",
+        args: [projectIndex],
+      }),
+      this.publicClient.readContract({
+        ...coreContract,
+        functionName: "projectIdToArtistAddress",
+        args: [projectIndex],
+      }),
+      this.getMinterConfiguration(coreContractAddress, projectIndex),
+    ]);
+
+    return {
+      id: formatId(coreContractAddress, projectIndex),
+      artist_address: artistAddress.toLowerCase(),
+      artist_name: artistName,
+      complete: completedTimestamp > BigInt(0),
+      start_datetime: null,
+      auction_start_time: minterConfiguration?.auctionStartTime ?? null,
+      auction_end_time: minterConfiguration?.auctionEndTime ?? null,
+      aspect_ratio: Number(aspectRatio) || null,
+      name: projectName,
+      invocations: Number(invocations),
+      max_invocations: Number(maxInvocations),
+      paused,
+      featured_token: null,
+      contract: {
+        address: coreContractAddress,
+        contract_type: coreType,
+        default_vertical: null,
+      },
+      minter_configuration: minterConfiguration?.details ?? null,
+    } as DataSourceProjectDetails;
+  }
+
+  private async getMinterConfiguration(
+    coreContractAddress: Hex,
+    projectIndex: bigint
+  ) {
+    const minterFilterAddress = await this.getMinterFilterAddress();
+    const minterFilter = {
+      address: minterFilterAddress,
+      abi: iMinterFilterV1Abi,
+    } as const;
+
+    const projectHasMinter = await this.publicClient.readContract({
+      ...minterFilter,
+      functionName: "projectHasMinter",
+      args: [projectIndex, coreContractAddress],
+    });
+
+    if (!projectHasMinter) {
+      return null;
+    }
+
+    const minterAddress = await this.publicClient.readContract({
+      ...minterFilter,
+      functionName: "getMinterForProject",
+      args: [projectIndex, coreContractAddress],
+    });
+    const minter = { address: minterAddress, abi: iSharedMinterV0Abi } as const;
+
+    const [minterType, [, tokenPriceInWei, currencySymbol, currencyAddress]] =
+      await Promise.all([
+        this.publicClient.readContract({
+          ...minter,
+          functionName: "minterType",
+        }),
+        this.publicClient.readContract({
+          ...minter,
+          functionName: "getPriceInfo",
+          args: [projectIndex, coreContractAddress],
+        }),
+      ]);
+
+    const auctionDetails = await this.getAuctionDetails(
+      minterAddress,
+      minterType,
+      coreContractAddress,
+      projectIndex
+    );
+
+    return {
+      auctionStartTime: auctionDetails?.auctionStartTime ?? null,
+      auctionEndTime: auctionDetails?.auctionEndTime ?? null,
+      details: {
+        currency_symbol: currencySymbol,
+        currency_address: currencyAddress.toLowerCase(),
+        base_price: (auctionDetails?.basePrice ?? tokenPriceInWei).toString(),
+        extra_minter_details: {
+          ...auctionDetails?.extraMinterDetails,
+          ...(await this.getAllowlistExtraMinterDetails(
+            minterAddress,
+            minterType,
+            coreContractAddress,
+            projectIndex
+          )),
+        },
+        offchain_extra_minter_details: {},
+        minter: {
+          address: minterAddress.toLowerCase(),
+          minter_type: minterType,
+          type: null,
+        },
+      },
+    };
+  }
+
+  // Reads the auction configuration of DA exponential and RAM minters
+  private async getAuctionDetails(
+    minterAddress: Hex,
+    minterType: string,
+    coreContractAddress: Hex,
+    projectIndex: bigint
+  ) {
+    if (DA_EXP_MINTER_TYPE_REGEX.test(minterType)) {
+      const auctionLogs = await this.publicClient.getContractEvents({
+        address: minterAddress,
+        abi: daExpLibAbi,
+        eventName: "SetAuctionDetailsExp",
+        args: { projectId: projectIndex, coreContract: coreContractAddress },
+        fromBlock: await this.getFromBlock(minterAddress),
+      });
+      const latestAuction = auctionLogs[auctionLogs.length - 1]?.args;
+
+      if (!latestAuction) {
+        return null;
+      }
+
+      return {
+        auctionStartTime: timestampToISOString(
+          latestAuction.auctionTimestampStart ?? 0
+        ),
+        auctionEndTime: null,
+        basePrice: latestAuction.basePrice ?? BigInt(0),
+        extraMinterDetails: {
+          startTime: latestAuction.auctionTimestampStart,
+          halfLifeSeconds: latestAuction.priceDecayHalfLifeSeconds,
+          startPrice: latestAuction.startPrice?.toString(),
+        },
+      };
+    }
+
+    if (RAM_MINTER_TYPE_REGEX.test(minterType)) {
+      const [auctionTimestampStart, auctionTimestampEnd, basePrice] =
+        await this.publicClient.readContract({
+          address: minterAddress,
+          abi: minterRAMV0Abi,
+          functionName: "getAuctionDetails",
+          args: [projectIndex, coreContractAddress],
+        });
+
+      if (auctionTimestampStart === BigInt(0)) {
+        return null;
+      }
+
+      return {
+        auctionStartTime: timestampToISOString(auctionTimestampStart),
+        auctionEndTime: timestampToISOString(auctionTimestampEnd),
+        basePrice,
+        extraMinterDetails: {},
+      };
+    }
+
+    return null;
+  }
+
+  // Reads the merkle root and mints per address of merkle minters and the
+  // allowed projects of token holder and polyptych minters
+  private async getAllowlistExtraMinterDetails(
+    minterAddress: Hex,
+    minterType: string,
+    coreContractAddress: Hex,
+    projectIndex: bigint
+  ): Promise<Record<string, unknown>> {
+    if (MERKLE_MINTER_TYPE_REGEX.test(minterType)) {
+      const merkleMinter = {
+        address: minterAddress,
+        abi: minterSetPriceMerkleV5Abi,
+        args: [projectIndex, coreContractAddress],
+      } as const;
+      const [[, , merkleRoot], maxInvocationsPerAddress] = await Promise.all([
+        this.publicClient.readContract({
+          ...merkleMinter,
+          functionName: "merkleProjectConfig",
+        }),
+        this.publicClient.readContract({
+          ...merkleMinter,
+          functionName: "projectMaxInvocationsPerAddress",
+        }),
+      ]);
+
+      return {
+        ...(merkleRoot === zeroHash ? {} : { merkleRoot }),
+        maxInvocationsPerAddress: Number(maxInvocationsPerAddress),
+      };
+    }
+
+    if (TOKEN_HOLDER_MINTER_TYPE_REGEX.test(minterType)) {
+      const args = {
+        projectId: projectIndex,
+        coreContract: coreContractAddress,
+      };
+      const fromBlock = await this.getFromBlock(minterAddress);
+      const [allowedLogs, removedLogs] = await Promise.all([
+        this.publicClient.getContractEvents({
+          address: minterAddress,
+          abi: tokenHolderLibAbi,
+          eventName: "AllowedHoldersOfProjects",
+          args,
+          fromBlock,
+        }),
+        this.publicClient.getContractEvents({
+          address: minterAddress,
+          abi: tokenHolderLibAbi,
+          eventName: "RemovedHoldersOfProjects",
+          args,
+          fromBlock,
+        }),
+      ]);
+
+      // Replay the changes to the allowlist in the order they were made
+      const allowlistLogs = [...allowedLogs, ...removedLogs].sort(
+        (a, b) =>
+          Number((a.blockNumber ?? BigInt(0)) - (b.blockNumber ?? BigInt(0))) ||
+          (a.logIndex ?? 0) - (b.logIndex ?? 0)
+      );
+      const allowedProjectIds = new Set<string>();
+
+      for (const log of allowlistLogs) {
+        const { ownedNFTAddresses = [], ownedNFTProjectIds = [] } = log.args;
+
+        ownedNFTAddresses.forEach((ownedNFTAddress, index) => {
+          const allowedProjectId = formatId(
+            ownedNFTAddress,
+            ownedNFTProjectIds[index]
+          );
+
+          if (log.eventName === "AllowedHoldersOfProjects") {
+            allowedProjectIds.add(allowedProjectId);
+          } else {
+            allowedProjectIds.delete(allowedProjectId);
+          }
+        });
+      }
+
+      return {
+        allowlistedAddressAndProjectId: Array.from(allowedProjectIds),
+      };
+    }
+
+    return {};
+  }
+
+  async getTokenDetails(
+    tokenId: string
+  ): Promise<DataSourceTokenDetails | null> {
+    const { coreContractAddress, tokenOrProjectId: tokenNumber } =
+      parseId(tokenId);
+
+    try {
+      // Reverts if the token has not been minted
+      await this.publicClient.readContract({
+        address: coreContractAddress,
+        abi: erc721Abi,
+        functionName: "ownerOf",
+        args: [tokenNumber],
+      });
+    } catch (error) {
+      if (error instanceof ContractFunctionExecutionError) {
+        return null;
+      }
+
+      throw error;
+    }
+
+    const [projectName] = await this.publicClient.readContract({
+      address: coreContractAddress,
+      abi: iGenArt721CoreContractV3BaseAbi,
+      functionName: "projectDetails",
+      args: [tokenNumber / ONE_MILLION],
+    });
+
+    return {
+      id: formatId(coreContractAddress, tokenNumber),
+      token_id: tokenNumber.toString(),
+      invocation: Number(tokenNumber % ONE_MILLION),
+      contract_address: coreContractAddress,
+      live_view_url: null,
+      project: {
+        name: projectName,
+      },
+    } as DataSourceTokenDetails;
+  }
+
+  /**
+   * Finds tokens by replaying their transfers to the owners, then confirms
+   * each is still held by one of the owners.
+   */
+  async getTokensOwnedBy({
+    projectIds,
+    ownerAddresses,
+  }: {
+    projectIds: string[];
+    ownerAddresses: string[];
+  }): Promise<DataSourceOwnedToken[]> {
+    const projectIndexesByContract = new Map<Hex, Set<bigint>>();
+
+    for (const projectId of projectIds) {
+      const { coreContractAddress, tokenOrProjectId } = parseId(projectId);
+      const projectIndexes =
+        projectIndexesByContract.get(coreContractAddress) ?? new Set();
+
+      projectIndexes.add(tokenOrProjectId);
+      projectIndexesByContract.set(coreContractAddress, projectIndexes);
+    }
+
+    const owners = new Set(
+      ownerAddresses.map((ownerAddress) => ownerAddress.toLowerCase())
+    );
+
+    const tokensByContract = await Promise.all(
+      Array.from(projectIndexesByContract.entries()).map(
+        async ([coreContractAddress, projectIndexes]) => {
+          const transferLogs = await this.publicClient.getContractEvents({
+            address: coreContractAddress,
+            abi: erc721Abi,
+            eventName: "Transfer",
+            args: { to: ownerAddresses as Hex[] },
+            fromBlock: await this.getFromBlock(coreContractAddress),
+          });
+
+          const candidateTokenNumbers = Array.from(
+            new Set(
+              transferLogs.flatMap(({ args: { tokenId } }) =>
+                tokenId !== undefined &&
+                projectIndexes.has(tokenId / ONE_MILLION)
+                  ? [tokenId]
+                  : []
+              )
+            )
+          );
+
+          const currentOwners = await Promise.all(
+            candidateTokenNumbers.map((tokenNumber) =>
+              this.publicClient.readContract({
+                address: coreContractAddress,
+                abi: erc721Abi,
+                functionName: "ownerOf",
+                args: [tokenNumber],
+              })
+            )
+          );
+
+          return candidateTokenNumbers.flatMap((tokenNumber, index) => {
+            const ownerAddress = currentOwners[index].toLowerCase();
+
+            return owners.has(ownerAddress)
+              ? [
+                  {
+                    id: formatId(coreContractAddress, tokenNumber),
+                    owner_address: ownerAddress,
+                  },
+                ]
+              : [];
+          });
+        }
+      )
+    );
+
+    return tokensByContract.flat();
+  }
+
+  /**
+   * Replays the bid events of a RAM minter. Active bids are ranked by slot,
+   * then by the order they were placed, and removed bids are returned last
+   * without a rank.
+   */
+  async getUserBids({
+    projectId,
+    userAddress,
+  }: {
+    projectId: string;
+    userAddress: string;
+  }): Promise<DataSourceBid[]> {
+    const { coreContractAddress, tokenOrProjectId: projectIndex } =
+      parseId(projectId);
+    const minterAddress = await this.publicClient.readContract({
+      address: await this.getMinterFilterAddress(),
+      abi: iMinterFilterV1Abi,
+      functionName: "getMinterForProject",
+      args: [projectIndex, coreContractAddress],
+    });
+    const events = {
+      address: minterAddress,
+      abi: minterRAMV0Abi,
+      args: { projectId: projectIndex, coreContract: coreContractAddress },
+      fromBlock: await this.getFromBlock(minterAddress),
+    } as const;
+
+    const [createdLogs, toppedUpLogs, removedLogs] = await Promise.all([
+      this.publicClient.getContractEvents({
+        ...events,
+        eventName: "BidCreated",
+      }),
+      this.publicClient.getContractEvents({
+        ...events,
+        eventName: "BidToppedUp",
+      }),
+      this.publicClient.getContractEvents({
+        ...events,
+        eventName: "BidRemoved",
+      }),
+    ]);
+
+    // Top ups are logged after the bids they raise, so the latest slot of
+    // each bid is the last one set
+    const slotIndexByBidId = new Map<bigint, bigint>();
+    for (const { args } of createdLogs) {
+      slotIndexByBidId.set(args.bidId as bigint, args.slotIndex as bigint);
+    }
+    for (const { args } of toppedUpLogs) {
+      slotIndexByBidId.set(args.bidId as bigint, args.newSlotIndex as bigint);
+    }
+    const removedBidIds = new Set(removedLogs.map(({ args }) => args.bidId));
+
+    const activeBidIdsByRank = createdLogs
+      .map(({ args }) => args.bidId as bigint)
+      .filter((bidId) => !removedBidIds.has(bidId))
+      .sort((a, b) => {
+        const slotIndexDifference =
+          (slotIndexByBidId.get(b) ?? BigInt(0)) -
+          (slotIndexByBidId.get(a) ?? BigInt(0));
+
+        return Number(slotIndexDifference) || Number(a - b);
+      });
+
+    const userBidLogs = createdLogs.filter(
+      ({ args }) => args.bidder?.toLowerCase() === userAddress.toLowerCase()
+    );
+    const userBidBlocks = await Promise.all(
+      userBidLogs.map(({ blockNumber }) =>
+        this.publicClient.getBlock({ blockNumber: blockNumber ?? undefined })
+      )
+    );
+
+    const userBids = await Promise.all(
+      userBidLogs.map(async ({ args, logIndex, transactionHash }, index) => {
+        const bidId = args.bidId as bigint;
+        const slotIndex = slotIndexByBidId.get(bidId) ?? BigInt(0);
+        const bidValue = await this.publicClient.readContract({
+          address: minterAddress,
+          abi: minterRAMV0Abi,
+          functionName: "slotIndexToBidValue",
+          args: [projectIndex, coreContractAddress, Number(slotIndex)],
+        });
+        const isRemoved = removedBidIds.has(bidId);
+
+        return {
+          id: formatId(minterAddress, coreContractAddress, projectIndex, bidId),
+          slot_index: Number(slotIndex),
+          bid_value: bidValue.toString(),
+          rank: isRemoved ? null : activeBidIdsByRank.indexOf(bidId) + 1,
+          time_of_bid: timestampToISOString(userBidBlocks[index].timestamp),
+          bidder_address: userAddress.toLowerCase(),
+          is_removed: isRemoved,
+          log_index: logIndex,
+          tx_hash: transactionHash,
+        } as DataSourceBid;
+      })
+    );
+
+    return userBids.sort(
+      (a: DataSourceBid, b: DataSourceBid) =>
+        (a.rank ?? Number.MAX_SAFE_INTEGER) -
+        (b.rank ?? Number.MAX_SAFE_INTEGER)
+    );
+  }
+
+  /**
+   * Finds the projects the user has purchased from on the shared minter
+   * filter's globally approved settlement minters, from their receipt events.
+   * Unlike the Art Blocks API, receipts for auctions that are still in
+   * progress are included.
+   */
+  async getReceiptsWithExcessSettlementFunds({
+    userAddress,
+    minterTypes,
+  }: Parameters<
+    DataSource["getReceiptsWithExcessSettlementFunds"]
+  >[0]): Promise<DataSourceReceipt[]> {
+    const minters = await this.publicClient.readContract({
+      address: await this.getMinterFilterAddress(),
+      abi: iMinterFilterV1Abi,
+      functionName: "getAllGloballyApprovedMinters",
+    });
+    const settlementMinters = minters.filter(({ minterType }) =>
+      (minterTypes as string[]).includes(minterType)
+    );
+
+    const receiptsByMinter = await Promise.all(
+      settlementMinters.map(async ({ minterAddress, minterType }) => {
+        const receiptLogs = await this.publicClient.getContractEvents({
+          address: minterAddress,
+          abi: settlementExpLibAbi,
+          eventName: "ReceiptUpdated",
+          args: { purchaser: userAddress as Hex },
+          fromBlock: await this.getFromBlock(minterAddress),
+        });
+        const projectIds = Array.from(
+          new Set(
+            receiptLogs.map(({ args }) =>
+              formatId(args.coreContract as Hex, args.projectId as bigint)
+            )
+          )
+        );
+
+        const receipts = await Promise.all(
+          projectIds.map(async (projectId) => {
+            const receipt = await this.getReceiptExcessSettlementFunds(
+              formatId(minterAddress, projectId, userAddress)
+            );
+
+            if (!receipt || receipt.excess_settlement_funds === "0") {
+              return null;
+            }
+
+            const { coreContractAddress, tokenOrProjectId: projectIndex } =
+              parseId(projectId);
+            const [projectName] = await this.publicClient.readContract({
+              address: coreContractAddress,
+              abi: iGenArt721CoreContractV3BaseAbi,
+              functionName: "projectDetails",
+              args: [projectIndex],
+            });
+
+            return {
+              ...receipt,
+              project: {
+                id: projectId,
+                name: projectName,
+                index: Number(projectIndex),
+                contract_address: coreContractAddress,
+                featured_token: null,
+              },
+              minter: {
+                address: minterAddress.toLowerCase(),
+                minter_type: minterType,
+              },
+              project_minter_configuration: {
+                extra_minter_details: {},
+              },
+            } as DataSourceReceipt;
+          })
+        );
+
+        return receipts.filter(
+          (receipt: DataSourceReceipt | null): receipt is DataSourceReceipt =>
+            receipt !== null
+        );
+      })
+    );
+
+    return receiptsByMinter.flat();
+  }
+
+  /**
+   * Reads the excess settlement funds of a receipt. Receipt ids are in the
+   * form `<minter address>-<core contract address>-<project index>-<purchaser>`.
+   */
+  async getReceiptExcessSettlementFunds(
+    receiptId: string
+  ): Promise<DataSourceReceiptExcessSettlementFunds | null> {
+    const [minterAddress, coreContractAddress, projectIndex, purchaser] =
+      receiptId.split("-");
+
+    if (!minterAddress || !coreContractAddress || !projectIndex || !purchaser) {
+      return null;
+    }
+
+    const excessSettlementFunds = await this.publicClient.readContract({
+      address: minterAddress as Hex,
+      abi: iSharedMinterDAExpSettlementV0Abi,
+      functionName: "getProjectExcessSettlementFunds",
+      args: [
+        BigInt(projectIndex),
+        coreContractAddress as Hex,
+        purchaser as Hex,
+      ],
+    });
+
+    return {
+      id: receiptId,
+      excess_settlement_funds: excessSettlementFunds.toString(),
+    } as DataSourceReceiptExcessSettlementFunds;
+  }
+
+  /**
+   * Reads a project's minter configuration, and the minters the shared
+   * minter filter allows, in the shape the Art Blocks API serves them.
+   * Minter types are described and configured with the SDK's local schemas.
+   * Whether the user is the project's artist or allowlisted on the core
+   * contract is unknown, so form access is checked on-chain.
+   */
+  async getProjectMinterConfiguration(
+    projectId: string
+  ): Promise<GetProjectMinterConfigurationQuery["projects_metadata_by_pk"]> {
+    const { coreContractAddress, tokenOrProjectId: projectIndex } =
+      parseId(projectId);
+
+    const nextProjectId = await this.publicClient.readContract({
+      address: coreContractAddress,
+      abi: iGenArt721CoreContractV3BaseAbi,
+      functionName: "nextProjectId",
+    });
+
+    if (projectIndex >= nextProjectId) {
+      return null;
+    }
+
+    const minterFilter = {
+      address: await this.getMinterFilterAddress(),
+      abi: iMinterFilterV1Abi,
+    } as const;
+    const [minterFilterType, globallyAllowedMinters, minterConfiguration] =
+      await Promise.all([
+        this.publicClient.readContract({
+          ...minterFilter,
+          functionName: "minterFilterType",
+        }),
+        this.publicClient.readContract({
+          ...minterFilter,
+          functionName: "getAllGloballyApprovedMinters",
+        }),
+        this.getMinterConfiguration(coreContractAddress, projectIndex),
+      ]);
+
+    let projectMinterConfiguration = null;
+    if (minterConfiguration) {
+      const { minter, ...details } = minterConfiguration.details;
+      const { maxInvocations } = await this.publicClient.readContract({
+        address: minter.address as Hex,
+        abi: maxInvocationsLibAbi,
+        functionName: "maxInvocationsProjectConfig",
+        args: [projectIndex, coreContractAddress],
+      });
+      const { unversioned_type, version_number } = getMinterTypeDetails(
+        minter.minter_type
+      );
+
+      projectMinterConfiguration = {
+        ...details,
+        id: formatId(minter.address, coreContractAddress, projectIndex),
+        project_id: formatId(coreContractAddress, projectIndex),
+        max_invocations: Number(maxInvocations),
+        minter: {
+          address: minter.address,
+          minter_type: minter.minter_type,
+          type: {
+            project_configuration_schema: getMinterConfigurationSchema(
+              minter.minter_type
+            ),
+            unversioned_type,
+            version_number,
+          },
+          extra_minter_details: {},
+        },
+      };
+    }
+
+    return {
+      project_id: projectIndex.toString(),
+      user_is_artist: null,
+      contract: {
+        user_is_allowlisted: null,
+        minter_filter: {
+          type: minterFilterType,
+          address: minterFilter.address.toLowerCase(),
+          globally_allowed_minters: globallyAllowedMinters.map(
+            ({ minterAddress, minterType }) => ({
+              address: minterAddress.toLowerCase(),
+              minter_type: minterType,
+              type: getMinterTypeDetails(minterType),
+            })
+          ),
+        },
+      },
+      minter_configuration: projectMinterConfiguration,
+    } as GetProjectMinterConfigurationQuery["projects_metadata_by_pk"];
+  }
+
+  /**
+   * Reads are made at the latest block, so every property the project's
+   * minter configuration forms update is synced as of its timestamp.
+   */
+  async getProjectMinterConfigurationUpdates(
+    projectId: string
+  ): Promise<
+    GetProjectMinterConfigurationUpdatesQuery["projects_metadata_by_pk"]
+  > {
+    const { coreContractAddress, tokenOrProjectId: projectIndex } =
+      parseId(projectId);
+    const [minterConfiguration, syncedAt] = await Promise.all([
+      this.getMinterConfiguration(coreContractAddress, projectIndex),
+      this.getLatestBlockTimestamp(),
+    ]);
+
+    if (!minterConfiguration) {
+      return { minter_configuration: null };
+    }
+
+    const schema = getMinterConfigurationSchema(
+      minterConfiguration.details.minter.minter_type
+    );
+    const syncCheckFields = Object.values(schema?.properties ?? {}).flatMap(
+      (formSchema) =>
+        formSchema.onChain
+          ? (formSchema.transactionDetails.syncCheckFieldsOverride ??
+            formSchema.transactionDetails.args)
+          : []
+    );
+
+    return {
+      minter_configuration: {
+        properties_updated_at: Object.fromEntries(
+          syncCheckFields.map((field) => [field, syncedAt])
+        ),
+      },
+    };
+  }
+
+  /**
+   * Reads are made at the latest block, so the project's minter is synced as
+   * of its timestamp.
+   */
+  async getProjectUpdates(
+    projectId: string
+  ): Promise<GetProjectsMetadataUpdatesQueryQuery["projects_metadata_by_pk"]> {
+    parseId(projectId);
+
+    return {
+      properties_updated_at: {
+        [MINTER_CONFIGURATION_ID_PROPERTY]:
+          await this.getLatestBlockTimestamp(),
+      },
+    };
+  }
+
+  private async getLatestBlockTimestamp() {
+    const { timestamp } = await this.publicClient.getBlock({
+      blockTag: "latest",
+    });
+
+    return timestampToISOString(timestamp);
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  GetProjectDetailsQuery,
+  GetProjectMinterConfigurationQuery,
+  GetProjectMinterConfigurationUpdatesQuery,
+  GetProjectsMetadataUpdatesQueryQuery,
+  GetReceiptQuery,
+  GetReceiptsWithExcessSettlementFundsForUserQuery,
+  GetTokenDetailsQuery,
+  GetUserBidsQuery,
+  GetUserTokensInAllowlistDocumentQuery,
+  Minter_Type_Names_Enum,
+} from "../generated/graphql";
+
+export type DataSourceProjectDetails = NonNullable<
+  GetProjectDetailsQuery["projects_metadata_by_pk"]
+>;
+
+export type DataSourceTokenDetails = NonNullable<
+  GetTokenDetailsQuery["tokens_metadata_by_pk"]
+>;
+
+// Token ids are in the form `<core contract address>-<token id>`
+export type DataSourceOwnedToken =
+  GetUserTokensInAllowlistDocumentQuery["tokens_metadata"][number];
+
+export type DataSourceBid = GetUserBidsQuery["project_ranked_bids"][number];
+
+export type DataSourceReceipt =
+  GetReceiptsWithExcessSettlementFundsForUserQuery["receipt_metadata"][number];
+
+export type DataSourceReceiptExcessSettlementFunds = NonNullable<
+  GetReceiptQuery["receipt_metadata_by_pk"]
+>;
+
+/**
+ * The reads made by the SDK's machines and minter configuration forms. The
+ * `GraphQLDataSource` reads from the Art Blocks API and is used by default.
+ * The `RpcDataSource` reads directly from the contracts of a chain, so the
+ * SDK can be used without the API, e.g. against a local Hardhat node.
+ *
+ * Data sources return `null` for records that don't exist and throw a
+ * `DataSourceOperationNotSupportedError` for reads they can't make.
+ */
+export type DataSource = {
+  getProjectDetails(
+    projectId: string
+  ): Promise<DataSourceProjectDetails | null>;
+
+  // Token ids are in the form `<core contract address>-<token id>`
+  getTokenDetails(tokenId: string): Promise<DataSourceTokenDetails | null>;
+
+  getTokensOwnedBy(params: {
+    projectIds: string[];
+    ownerAddresses: string[];
+  }): Promise<DataSourceOwnedToken[]>;
+
+  // Bids are returned best ranked first
+  getUserBids(params: {
+    projectId: string;
+    userAddress: string;
+  }): Promise<DataSourceBid[]>;
+
+  getReceiptsWithExcessSettlementFunds(params: {
+    userAddress: string;
+    minterTypes: Minter_Type_Names_Enum[];
+  }): Promise<DataSourceReceipt[]>;
+
+  getReceiptExcessSettlementFunds(
+    receiptId: string
+  ): Promise<DataSourceReceiptExcessSettlementFunds | null>;
+
+  getProjectMinterConfiguration(
+    projectId: string
+  ): Promise<GetProjectMinterConfigurationQuery["projects_metadata_by_pk"]>;
+
+  getProjectMinterConfigurationUpdates(
+    projectId: string
+  ): Promise<
+    GetProjectMinterConfigurationUpdatesQuery["projects_metadata_by_pk"]
+  >;
+
+  getProjectUpdates(
+    projectId: string
+  ): Promise<GetProjectsMetadataUpdatesQueryQuery["projects_metadata_by_pk"]>;
+};
+
+/**
+ * @summary Error thrown when a data source can't make a read.
+ * @description For example, the fixture data sources of the minter
+ * configuration test helpers only serve minter configurations.
+ */
+export class DataSourceOperationNotSupportedError extends Error {
+  constructor(dataSourceName: string, operation: string, reason: string) {
+    super(`${dataSourceName} does not support ${operation}: ${reason}`);
+    this.name = "DataSourceOperationNotSupportedError";
+  }
+}
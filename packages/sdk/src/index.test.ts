@@ -1,6 +1,18 @@
-import { ArtBlocksClient } from "./index";
-import { PublicClient } from "viem";
+import {
+  ArtBlocksClient,
+  ContractChainNotFoundError,
+  DataSource,
+  UnsupportedChainError,
+} from "./index";
+import { PublicClient, WalletClient } from "viem";
 import { generateProjectMinterConfigurationForms } from "./minter-configuration";
+import { pollForSyncedMinterConfigurationChanges } from "./minter-configuration/utils/polling";
+import {
+  getLiveSaleData,
+  getPurchaseEligibility,
+  purchase,
+  purchaseMany,
+} from "./purchase";
 import { FormBlueprint } from "./types";
 import { GraphQLClient } from "graphql-request";
 
@@ -8,6 +20,18 @@ import { GraphQLClient } from "graphql-request";
 jest.mock("./minter-configuration", () => ({
   generateProjectMinterConfigurationForms: jest.fn(),
 }));
+jest.mock("./minter-configuration/utils/polling", () => ({
+  pollForSyncedMinterConfigurationChanges: jest.fn(),
+}));
+jest.mock("./data-sources/graphql-data-source", () => ({
+  GraphQLDataSource: jest.fn(),
+}));
+jest.mock("./purchase", () => ({
+  getLiveSaleData: jest.fn(),
+  getPurchaseEligibility: jest.fn(),
+  purchase: jest.fn(),
+  purchaseMany: jest.fn(),
+}));
 
 describe("ArtBlocksClient", () => {
   let abClient: ArtBlocksClient;
@@ -29,14 +53,69 @@ describe("ArtBlocksClient", () => {
       expect(abClient.context.userIsStaff).toBe(false);
 
       const headers =
-        typeof abClient.context.graphqlClient.requestConfig.headers ===
+        typeof abClient.context.graphqlClient?.requestConfig.headers ===
         "function"
           ? abClient.context.graphqlClient.requestConfig.headers()
-          : abClient.context.graphqlClient.requestConfig.headers;
+          : abClient.context.graphqlClient?.requestConfig.headers;
       expect(abClient.context.graphqlClient).toBeInstanceOf(GraphQLClient);
       expect((abClient.context.graphqlClient as any).url).toBe(graphqlEndpoint);
       expect(headers).toHaveProperty("Authorization", `Bearer ${jwt}`);
     });
+
+    it("throws if neither a graphqlEndpoint nor a dataSource is provided", () => {
+      expect(
+        () => new ArtBlocksClient({ publicClient: mockPublicClient })
+      ).toThrow("A graphqlEndpoint or dataSource is required");
+    });
+
+    it("uses the provided dataSource without a graphqlEndpoint", async () => {
+      const dataSource = {} as DataSource;
+      const client = new ArtBlocksClient({
+        publicClient: mockPublicClient,
+        dataSource,
+      });
+
+      expect(client.getDataSource()).toBe(dataSource);
+      expect(client.context.graphqlClient).toBeUndefined();
+      await expect(client.graphqlRequest({} as any, {})).rejects.toThrow(
+        "A graphqlEndpoint is required to make GraphQL requests"
+      );
+    });
+  });
+
+  describe("processors", () => {
+    it("registers the processors passed to the constructor", () => {
+      const basisPoints = { process: (value: number) => value * 100 };
+      const client = new ArtBlocksClient({
+        publicClient: mockPublicClient,
+        graphqlEndpoint,
+        submissionProcessors: { basisPoints },
+      });
+
+      expect(client.context.submissionProcessors?.get("basisPoints")).toBe(
+        basisPoints
+      );
+      expect(client.context.displayProcessors?.names()).toEqual([]);
+    });
+
+    it("registers submission and display processors", () => {
+      const toUpperCase = {
+        process: (value: string) => value.toUpperCase(),
+      };
+      const toLowerCase = {
+        process: (value: string) => value.toLowerCase(),
+      };
+
+      abClient.registerSubmissionProcessor("toUpperCase", toUpperCase);
+      abClient.registerDisplayProcessor("toLowerCase", toLowerCase);
+
+      expect(abClient.context.submissionProcessors?.get("toUpperCase")).toBe(
+        toUpperCase
+      );
+      expect(abClient.context.displayProcessors?.get("toLowerCase")).toBe(
+        toLowerCase
+      );
+    });
   });
 
   describe("getProjectMinterConfiguration", () => {
@@ -77,13 +156,12 @@ describe("ArtBlocksClient", () => {
     const projectId = "test-project-id";
 
     beforeEach(() => {
-      // Mock `generateProjectMinterConfigurationForms` to immediately invoke the `onConfigurationChange` callback
-      // with dummy data to simulate a configuration change.
+      // Mock `generateProjectMinterConfigurationForms` to return dummy data,
+      // which refreshing the configuration notifies subscribers with
       (generateProjectMinterConfigurationForms as jest.Mock).mockImplementation(
-        async ({ onConfigurationChange }) => {
+        async () => {
           const mockForms: FormBlueprint[] = [];
           const mockData = {};
-          onConfigurationChange({ forms: mockForms, data: mockData });
           return { forms: mockForms, data: mockData };
         }
       );
@@ -140,6 +218,391 @@ describe("ArtBlocksClient", () => {
       expect(firstSubscriberMock).toHaveBeenCalledTimes(1);
       expect(secondSubscriberMock).toHaveBeenCalledTimes(1);
     });
+
+    it("returns the regenerated configuration when refreshed", async () => {
+      const config =
+        await abClient.getProjectMinterConfigurationContext(projectId);
+
+      await expect(config.refresh()).resolves.toEqual({
+        forms: [],
+        data: {},
+      });
+    });
+  });
+
+  describe("Watching on-chain changes", () => {
+    const projectId = "0x0e4e004e1f31b40bf4d7eefbd99d376a23065122-0";
+    const minterAddress = "0x725b18673125bb1384c65a558d24a13fbb88d812";
+    const mockData = {
+      contract: {
+        minter_filter: {
+          address: "0x29e9f09244497503f304fa549d50efc751d818d2",
+        },
+      },
+      minter_configuration: { minter: { address: minterAddress } },
+    };
+    const unwatch = jest.fn();
+    let onMinterLogs: (logs: unknown[]) => void;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      unwatch.mockClear();
+      abClient.setPublicClient({
+        watchContractEvent: jest.fn(({ address, onLogs }) => {
+          if (address === minterAddress) {
+            onMinterLogs = onLogs;
+          }
+          return unwatch;
+        }),
+      } as unknown as PublicClient);
+      (generateProjectMinterConfigurationForms as jest.Mock).mockResolvedValue({
+        forms: [],
+        data: mockData,
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("notifies subscribers of changes made elsewhere", async () => {
+      const config = await abClient.getProjectMinterConfigurationContext(
+        projectId,
+        { debounceMs: 100 }
+      );
+      const subscriberMock = jest.fn();
+      config.subscribe(subscriberMock);
+
+      onMinterLogs([
+        {
+          address: minterAddress,
+          eventName: "PricePerTokenUpdated",
+          args: {
+            projectId: BigInt(0),
+            coreContract: "0x0e4e004e1f31b40bf4d7eefbd99d376a23065122",
+            pricePerToken: BigInt(1),
+          },
+          blockNumber: BigInt(1),
+          transactionHash: "0x1234",
+        },
+      ]);
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(pollForSyncedMinterConfigurationChanges).toHaveBeenCalledWith(
+        expect.objectContaining({
+          publicClient: abClient.context.publicClient,
+        }),
+        projectId,
+        [expect.objectContaining({ eventName: "PricePerTokenUpdated" })],
+        []
+      );
+      expect(subscriberMock).toHaveBeenCalledWith({
+        forms: [],
+        data: mockData,
+        changes: [
+          expect.objectContaining({
+            source: "minter",
+            eventName: "PricePerTokenUpdated",
+          }),
+        ],
+      });
+    });
+
+    it("waits for the data source to sync changes before regenerating the forms", async () => {
+      const forms = [{ key: "updatePricePerTokenInWei" }];
+      (generateProjectMinterConfigurationForms as jest.Mock).mockClear();
+      (generateProjectMinterConfigurationForms as jest.Mock).mockResolvedValue({
+        forms,
+        data: mockData,
+      });
+      let resolveSync: () => void = () => undefined;
+      (
+        pollForSyncedMinterConfigurationChanges as jest.Mock
+      ).mockReturnValueOnce(
+        new Promise<void>((resolve) => {
+          resolveSync = resolve;
+        })
+      );
+      const config = await abClient.getProjectMinterConfigurationContext(
+        projectId,
+        { debounceMs: 100 }
+      );
+      const subscriberMock = jest.fn();
+      config.subscribe(subscriberMock);
+
+      onMinterLogs([
+        {
+          address: minterAddress,
+          eventName: "PricePerTokenUpdated",
+          args: {
+            projectId: BigInt(0),
+            coreContract: "0x0e4e004e1f31b40bf4d7eefbd99d376a23065122",
+            pricePerToken: BigInt(1),
+          },
+          blockNumber: BigInt(1),
+          transactionHash: "0x1234",
+        },
+      ]);
+      await jest.advanceTimersByTimeAsync(100);
+
+      // The sync is checked with the fields of the current forms
+      expect(pollForSyncedMinterConfigurationChanges).toHaveBeenCalledWith(
+        expect.anything(),
+        projectId,
+        expect.any(Array),
+        forms
+      );
+      expect(generateProjectMinterConfigurationForms).toHaveBeenCalledTimes(1);
+      expect(subscriberMock).not.toHaveBeenCalled();
+
+      resolveSync();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(generateProjectMinterConfigurationForms).toHaveBeenCalledTimes(2);
+      expect(subscriberMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops watching once the last subscriber unsubscribes", async () => {
+      const config =
+        await abClient.getProjectMinterConfigurationContext(projectId);
+
+      const unsubscribeFirst = config.subscribe(jest.fn());
+      const unsubscribeSecond = config.subscribe(jest.fn());
+      unsubscribeFirst();
+      expect(unwatch).not.toHaveBeenCalled();
+
+      unsubscribeSecond();
+      // Both the minter filter and minter watchers are stopped
+      expect(unwatch).toHaveBeenCalledTimes(2);
+    });
+
+    it("doesn't watch when watching changes is disabled", async () => {
+      const config = await abClient.getProjectMinterConfigurationContext(
+        projectId,
+        { watchChanges: false }
+      );
+      config.subscribe(jest.fn());
+
+      expect(
+        abClient.context.publicClient?.watchContractEvent
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Purchase methods", () => {
+    const projectId = "test-project-id";
+    const account = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+
+    it("calls getLiveSaleData with the correct parameters", async () => {
+      const mockLiveSaleData = { tokenPriceInWei: BigInt(1) };
+      (getLiveSaleData as jest.Mock).mockResolvedValue(mockLiveSaleData);
+
+      const liveSaleData = await abClient.getLiveSaleData(projectId);
+
+      expect(getLiveSaleData).toHaveBeenCalledWith({
+        artblocksClient: abClient,
+        projectId,
+      });
+      expect(liveSaleData).toBe(mockLiveSaleData);
+    });
+
+    it("calls getPurchaseEligibility with the provided account", async () => {
+      const mockEligibility = { isEligible: true };
+      (getPurchaseEligibility as jest.Mock).mockResolvedValue(mockEligibility);
+
+      const eligibility = await abClient.getPurchaseEligibility(
+        projectId,
+        account
+      );
+
+      expect(getPurchaseEligibility).toHaveBeenCalledWith({
+        artblocksClient: abClient,
+        projectId,
+        userAddress: account,
+      });
+      expect(eligibility).toBe(mockEligibility);
+    });
+
+    it("calls purchase with the provided options", async () => {
+      (purchase as jest.Mock).mockResolvedValue("0x1234");
+      const options = { to: account, maxPrice: BigInt(100) } as const;
+
+      const txHash = await abClient.purchase(projectId, options);
+
+      expect(purchase).toHaveBeenCalledWith({
+        artblocksClient: abClient,
+        projectId,
+        options,
+      });
+      expect(txHash).toBe("0x1234");
+    });
+
+    it("calls purchaseMany with the quantity and options", async () => {
+      const transactions = [{ txHash: "0x1234", mintCount: 3 }];
+      (purchaseMany as jest.Mock).mockResolvedValue(transactions);
+      const onTransactionSubmitted = jest.fn();
+
+      const result = await abClient.purchaseMany(
+        projectId,
+        3,
+        undefined,
+        onTransactionSubmitted
+      );
+
+      expect(purchaseMany).toHaveBeenCalledWith({
+        artblocksClient: abClient,
+        projectId,
+        quantity: 3,
+        options: undefined,
+        onTransactionSubmitted,
+      });
+      expect(result).toBe(transactions);
+    });
+
+    it("throws an error if a purchase method is called without a publicClient in context", async () => {
+      abClient.setPublicClient(undefined);
+
+      await expect(abClient.getLiveSaleData(projectId)).rejects.toThrow(
+        "A publicClient is required to get live sale data"
+      );
+      await expect(abClient.purchase(projectId)).rejects.toThrow(
+        "A publicClient is required to purchase"
+      );
+    });
+  });
+
+  describe("Multiple chains", () => {
+    const mainnetContract = "0x99a9b7c1116f9ceeb1652de04d5969cce509b069";
+    const arbitrumContract = "0x313918a167152209d91f7182a407169f5327cae3";
+
+    const createChainPublicClient = (
+      chainId: number,
+      registeredContracts: string[]
+    ) =>
+      ({
+        chain: { id: chainId },
+        readContract: jest.fn(async ({ args: [contractAddress] }) =>
+          registeredContracts.includes(contractAddress)
+        ),
+      }) as unknown as PublicClient;
+
+    let mainnetPublicClient: PublicClient;
+    let arbitrumPublicClient: PublicClient;
+
+    beforeEach(() => {
+      mainnetPublicClient = createChainPublicClient(1, [mainnetContract]);
+      arbitrumPublicClient = createChainPublicClient(42161, [arbitrumContract]);
+      abClient = new ArtBlocksClient({
+        publicClient: mainnetPublicClient,
+        publicClients: {
+          1: mainnetPublicClient,
+          42161: arbitrumPublicClient,
+        },
+        graphqlEndpoint,
+      });
+    });
+
+    it("resolves the chain of a contract from the shared minter filters", async () => {
+      await expect(
+        abClient.getChainIdForContract(arbitrumContract)
+      ).resolves.toBe(42161);
+      await expect(
+        abClient.getChainIdForProject(`${mainnetContract}-0`)
+      ).resolves.toBe(1);
+    });
+
+    it("caches resolved contract chains", async () => {
+      await abClient.getChainIdForContract(arbitrumContract);
+      await abClient.getChainIdForContract(arbitrumContract);
+
+      expect(arbitrumPublicClient.readContract).toHaveBeenCalledTimes(1);
+    });
+
+    it("throws if no configured chain services the contract", async () => {
+      await expect(
+        abClient.getChainIdForContract(
+          "0x0000000000000000000000000000000000000001"
+        )
+      ).rejects.toThrow(ContractChainNotFoundError);
+    });
+
+    it("ignores chains whose RPC fails when resolving the chain of a contract", async () => {
+      (mainnetPublicClient.readContract as jest.Mock).mockRejectedValue(
+        new Error("RPC unavailable")
+      );
+
+      await expect(
+        abClient.getChainIdForContract(arbitrumContract)
+      ).resolves.toBe(42161);
+      await expect(
+        abClient.getChainIdForContract(mainnetContract)
+      ).rejects.toThrow(ContractChainNotFoundError);
+    });
+
+    it("uses the project's chain for the minter configuration context", async () => {
+      const client = new ArtBlocksClient({
+        publicClients: {
+          1: mainnetPublicClient,
+          42161: arbitrumPublicClient,
+        },
+        graphqlEndpoint,
+      });
+      (generateProjectMinterConfigurationForms as jest.Mock)
+        .mockClear()
+        .mockResolvedValue({ data: {}, forms: [] });
+
+      const configurationContext =
+        await client.getProjectMinterConfigurationContext(
+          `${arbitrumContract}-3`,
+          { watchChanges: false }
+        );
+      await configurationContext.refresh();
+
+      expect(generateProjectMinterConfigurationForms).toHaveBeenCalledTimes(2);
+      for (const [{ clientContext }] of (
+        generateProjectMinterConfigurationForms as jest.Mock
+      ).mock.calls as [{ clientContext: { publicClient: PublicClient } }][]) {
+        expect(clientContext.publicClient).toBe(arbitrumPublicClient);
+      }
+    });
+
+    it("uses the project's chain for purchase methods", async () => {
+      (getLiveSaleData as jest.Mock).mockResolvedValue({});
+
+      await abClient.getLiveSaleData(`${arbitrumContract}-3`);
+
+      const [{ artblocksClient }] = (getLiveSaleData as jest.Mock).mock
+        .lastCall as [{ artblocksClient: ArtBlocksClient }];
+      expect(artblocksClient.getPublicClient()).toBe(arbitrumPublicClient);
+      expect(artblocksClient.context.graphqlClient).toBe(
+        abClient.context.graphqlClient
+      );
+    });
+
+    it("shares the wallet client with clients scoped to a chain", () => {
+      const walletClient = {} as WalletClient;
+      const arbitrumClient = abClient.getClientForChain(42161);
+
+      abClient.setWalletClient(walletClient);
+
+      expect(arbitrumClient.getWalletClient()).toBe(walletClient);
+      expect(() => abClient.getClientForChain(8453)).toThrow(
+        UnsupportedChainError
+      );
+    });
+
+    it("switches the wallet to the client's chain", async () => {
+      const walletClient = {
+        getChainId: jest.fn(async () => 1),
+        switchChain: jest.fn(async () => undefined),
+      } as unknown as WalletClient;
+      abClient.setWalletClient(walletClient);
+
+      await abClient.getClientForChain(42161).switchWalletChain();
+
+      expect(walletClient.switchChain).toHaveBeenCalledWith({ id: 42161 });
+      expect(abClient.getWalletClient()).toBe(walletClient);
+    });
   });
 
   // Add tests for other methods within the ArtBlocksSDK class as needed
@@ -1,23 +1,180 @@
-import { PublicClient, WalletClient } from "viem";
-import { FormBlueprint, SubmissionStatusEnum, SubmissionStatus } from "./types";
-import { generateProjectMinterConfigurationForms } from "./minter-configuration";
-import { ProjectMinterConfigurationData } from "./minter-configuration/types";
+import { BlockNumber, BlockTag, Hex, PublicClient, WalletClient } from "viem";
+import {
+  FormAccess,
+  FormAccessLevel,
+  FormAccessLevelEnum,
+  FormBlueprint,
+  FormPreview,
+  FormPreviewChange,
+  PreparedFormTransaction,
+  SubmissionStatusEnum,
+  SubmissionStatus,
+} from "./types";
+import {
+  generateProjectMinterConfigurationForms,
+  submitProjectMinterConfigurationForms,
+} from "./minter-configuration";
+import { BatchSubmissionMode } from "./utils/submit-batch";
+import { pollForSyncedMinterConfigurationChanges } from "./minter-configuration/utils/polling";
+import {
+  ProjectMinterConfigurationData,
+  ProjectMinterConfigurationUpdate,
+} from "./minter-configuration/types";
+import {
+  MinterConfigurationChange,
+  MinterConfigurationChangeSource,
+  MinterConfigurationChangeSourceEnum,
+  watchProjectMinterConfigurationChanges,
+} from "./minter-configuration/watch-changes";
+import {
+  DEFAULT_HOLDER_ALLOWLIST_LOG_BLOCK_RANGE,
+  DEFAULT_MAX_HOLDER_ALLOWLIST_CHANGES_PER_TRANSACTION,
+  HolderAllowlistDiff,
+  HolderAllowlistEditor,
+  HolderAllowlistProject,
+  HolderAllowlistEventsError,
+  InvalidHolderAllowlistProjectsError,
+  diffHolderAllowlist,
+  getHolderAllowlistEditor,
+  isHolderAllowlistMinterType,
+} from "./minter-configuration/holder-allowlist";
+import {
+  LOCAL_MINTER_CONFIGURATION_SCHEMAS,
+  LOCAL_MINTER_CONFIGURATION_SCHEMAS_VERSION,
+  MinterConfigurationSchemaIssue,
+  MinterConfigurationSchemaRegistry,
+  getMinterConfigurationSchema,
+  validateMinterConfigurationSchema,
+} from "./minter-configuration/schemas";
+import {
+  TransactionAccess,
+  TransactionAccessEnum,
+  ValidationConditionEnum,
+  ValidationExpression,
+  ValidationRule,
+} from "./json-schema";
+import {
+  DisplayProcessor,
+  DisplayProcessorContext,
+  DisplayProcessorRegistry,
+  InvalidProcessorInputError,
+  ProcessorRegistry,
+  SubmissionProcessor,
+  SubmissionProcessorContext,
+  SubmissionProcessorRegistry,
+} from "./minter-configuration/processor-registry";
 import { GraphQLClient, RequestDocument, Variables } from "graphql-request";
 import { TypedDocumentNode } from "@graphql-typed-document-node/core";
 import { VariablesAndRequestHeadersArgs } from "graphql-request/build/esm/types";
+import {
+  AllowlistEntryDoesNotExist,
+  BatchPurchaseTransaction,
+  InsufficientERC20AllowanceError,
+  ProjectIneligibleForPrimarySaleError,
+  PurchaseOptions,
+  PurchasePriceExceedsMaxPriceError,
+  UserIneligibleForPurchaseError,
+  getLiveSaleData,
+  getPurchaseEligibility,
+  purchase,
+  purchaseMany,
+} from "./purchase";
+import {
+  ALLOWLIST_ENTRY_ISSUE,
+  AllowlistDiff,
+  AllowlistEntryIssue,
+  AllowlistProofsBundle,
+  AllowlistValidationReport,
+  InvalidAllowlistError,
+  InvalidAllowlistProofsBundleError,
+  diffAllowlists,
+  exportAllowlistProofsBundle,
+  importAllowlistProofsBundle,
+  normalizeAllowlistAddress,
+  serializeAllowlistProofsBundle,
+  validateAllowlist,
+  verifyAllowlistMerkleRoot,
+  verifyAllowlistProof,
+} from "./allowlist";
+import {
+  AllowlistMerkleTreeResult,
+  AllowlistProcessingCancelledError,
+  AllowlistProcessingProgress,
+  AllowlistSource,
+  BuildAllowlistMerkleTreeOptions,
+  IncrementalAllowlistMerkleTree,
+  buildAllowlistMerkleTree,
+  buildAllowlistMerkleTreeInWorker,
+  handleAllowlistMerkleWorkerMessages,
+  streamAllowlistEntries,
+} from "./allowlist/streaming-merkle";
+import {
+  DELEGATION_REGISTRY_VERSION,
+  DELEGATION_SCOPE,
+  Delegation,
+  DelegationRegistryVersion,
+  DelegationScope,
+  getDelegationRegistryAddresses,
+  getDelegations,
+  isDelegationValidFor,
+} from "./purchase/delegation";
+import {
+  ContractChainNotFoundError,
+  UnsupportedChainError,
+  getPublicClientChainId,
+  switchWalletChainIfNeeded,
+} from "./utils/chains";
+import {
+  AddressBookEntry,
+  SUPPORTED_CHAIN_IDS,
+  getAddressBook,
+} from "./utils/addresses";
+import { iMinterFilterV1Abi } from "../abis/iMinterFilterV1Abi";
+import {
+  DataSource,
+  DataSourceOperationNotSupportedError,
+  GraphQLDataSource,
+  RpcDataSource,
+  RpcDataSourceOptions,
+} from "./data-sources";
 
 export type ArtBlocksClientOptions = {
-  graphqlEndpoint: string;
+  // Required unless a dataSource is provided
+  graphqlEndpoint?: string;
+  // Where the SDK reads project, token, bid and receipt data from. Defaults
+  // to a GraphQLDataSource for the graphqlEndpoint.
+  dataSource?: DataSource;
   publicClient?: PublicClient;
+  // Public clients keyed by chain id, for apps serving projects on more than
+  // one chain
+  publicClients?: Record<number, PublicClient>;
   authToken?: string;
   walletClient?: WalletClient;
+  // Processors to register in addition to the built-in ones, keyed by the
+  // name form fields refer to them by
+  submissionProcessors?: Record<string, SubmissionProcessor>;
+  displayProcessors?: Record<string, DisplayProcessor>;
+  // Creates a worker running the SDK's allowlist/merkle-worker entry point,
+  // so that large allowlist files are processed off the main thread
+  createAllowlistWorker?: () => Worker;
 };
 
 export type ArtBlocksClientContext = {
-  graphqlClient: GraphQLClient;
+  // Unset when the client was created without a graphqlEndpoint
+  graphqlClient?: GraphQLClient;
+  dataSource: DataSource;
   publicClient?: PublicClient;
+  publicClients: Record<number, PublicClient>;
   walletClient?: WalletClient;
   userIsStaff: boolean;
+  // Chain ids of core contracts, keyed by lowercased contract address
+  contractChainIds: Map<string, number>;
+  // Processors registered for the names form fields use in
+  // submissionProcessing and displayProcessing. They take precedence over
+  // the built-in processors.
+  submissionProcessors?: SubmissionProcessorRegistry;
+  displayProcessors?: DisplayProcessorRegistry;
+  createAllowlistWorker?: () => Worker;
 };
 
 type ArtBlocksClientContextWithPublicClient = ArtBlocksClientContext & {
@@ -29,22 +186,33 @@ export class ArtBlocksClient {
 
   constructor({
     publicClient,
+    publicClients = {},
     walletClient,
     authToken,
     graphqlEndpoint,
+    dataSource,
+    submissionProcessors = {},
+    displayProcessors = {},
+    createAllowlistWorker,
   }: ArtBlocksClientOptions) {
     // Create a GraphQL client with the provided endpoint and auth token
-    const graphqlClient = new GraphQLClient(graphqlEndpoint, {
-      headers: (): { Authorization?: string } => {
-        if (!authToken) {
-          return {};
-        }
+    const graphqlClient = graphqlEndpoint
+      ? new GraphQLClient(graphqlEndpoint, {
+          headers: (): { Authorization?: string } => {
+            if (!authToken) {
+              return {};
+            }
 
-        return {
-          Authorization: `Bearer ${authToken}`,
-        };
-      },
-    });
+            return {
+              Authorization: `Bearer ${authToken}`,
+            };
+          },
+        })
+      : undefined;
+
+    if (!dataSource && !graphqlClient) {
+      throw new Error("A graphqlEndpoint or dataSource is required");
+    }
 
     // Parse the JWT to determine if the user is staff
     const jwtString = Buffer.from(
@@ -56,25 +224,49 @@ export class ArtBlocksClient {
 
     this.context = {
       graphqlClient,
+      dataSource:
+        dataSource ?? new GraphQLDataSource(graphqlClient as GraphQLClient),
       publicClient,
+      publicClients,
       walletClient,
       userIsStaff,
+      contractChainIds: new Map(),
+      submissionProcessors: new ProcessorRegistry(submissionProcessors),
+      displayProcessors: new ProcessorRegistry(displayProcessors),
+      createAllowlistWorker,
     };
   }
 
   setAuthToken(authToken?: string) {
     if (!authToken) {
-      this.context.graphqlClient.setHeaders({});
+      this.context.graphqlClient?.setHeaders({});
       return;
     }
 
-    this.context.graphqlClient.setHeaders({
+    this.context.graphqlClient?.setHeaders({
       Authorization: `Bearer ${authToken}`,
     });
   }
 
-  getPublicClient(): PublicClient | undefined {
-    return this.context.publicClient;
+  /**
+   * Gets a public client.
+   *
+   * @param chainId - The chain to get the public client for. Defaults to the
+   * client's `publicClient`.
+   * @returns The public client, or undefined if none is configured.
+   */
+  getPublicClient(chainId?: number): PublicClient | undefined {
+    if (chainId === undefined) {
+      return this.context.publicClient;
+    }
+
+    if (this.context.publicClients[chainId]) {
+      return this.context.publicClients[chainId];
+    }
+
+    return this.context.publicClient?.chain?.id === chainId
+      ? this.context.publicClient
+      : undefined;
   }
 
   setPublicClient(publicClient: PublicClient | undefined) {
@@ -89,35 +281,262 @@ export class ArtBlocksClient {
     return this.context.walletClient;
   }
 
+  getDataSource() {
+    return this.context.dataSource;
+  }
+
+  /**
+   * Registers a processor that form fields can name with
+   * `submissionProcessing` to transform their values before submission.
+   * Registered processors take precedence over built-in processors of the
+   * same name.
+   *
+   * @param name - The name form fields refer to the processor by.
+   * @param processor - The processor, with an optional zod schema of its input.
+   */
+  registerSubmissionProcessor<TInput>(
+    name: string,
+    processor: SubmissionProcessor<TInput>
+  ) {
+    if (!this.context.submissionProcessors) {
+      this.context.submissionProcessors = new ProcessorRegistry();
+    }
+    this.context.submissionProcessors.register(name, processor);
+  }
+
+  /**
+   * Registers a processor that form fields can name with `displayProcessing`
+   * to transform on-chain values into their initial form values. Registered
+   * processors take precedence over built-in processors of the same name.
+   *
+   * @param name - The name form fields refer to the processor by.
+   * @param processor - The processor, with an optional zod schema of its input.
+   */
+  registerDisplayProcessor<TInput>(
+    name: string,
+    processor: DisplayProcessor<TInput>
+  ) {
+    if (!this.context.displayProcessors) {
+      this.context.displayProcessors = new ProcessorRegistry();
+    }
+    this.context.displayProcessors.register(name, processor);
+  }
+
+  /**
+   * Gets the Art Blocks contract addresses for a chain.
+   *
+   * @param chainId - The chain id.
+   * @returns The chain's address book, or undefined if Art Blocks has no
+   * shared minter suite deployed to the chain.
+   */
+  getAddressBook(chainId: number): AddressBookEntry | undefined {
+    return getAddressBook(chainId);
+  }
+
+  /**
+   * Resolves the chain a core contract is deployed to. When public clients
+   * for more than one chain are configured, this checks which chain's shared
+   * minter filter services the contract. Results are cached.
+   *
+   * @param contractAddress - The address of the core contract.
+   * @returns The chain id of the contract.
+   * @throws {ContractChainNotFoundError} If the contract is not serviced by
+   * exactly one configured chain.
+   */
+  async getChainIdForContract(contractAddress: Hex): Promise<number> {
+    const chainIds = Object.keys(this.context.publicClients).map(Number);
+
+    if (chainIds.length === 0) {
+      this.assertPublicClient("resolve the chain of a contract");
+
+      return getPublicClientChainId(this.context.publicClient as PublicClient);
+    }
+
+    if (chainIds.length === 1) {
+      return chainIds[0];
+    }
+
+    const cachedChainId = this.context.contractChainIds.get(
+      contractAddress.toLowerCase()
+    );
+    if (cachedChainId !== undefined) {
+      return cachedChainId;
+    }
+
+    // A chain whose RPC fails is treated as not servicing the contract, so one
+    // unavailable chain doesn't prevent resolving contracts on the others
+    const isRegisteredResults = await Promise.allSettled(
+      chainIds.map(async (chainId) => {
+        const sharedMinterFilter = getAddressBook(chainId)?.sharedMinterFilter;
+
+        if (!sharedMinterFilter) {
+          return false;
+        }
+
+        return this.context.publicClients[chainId].readContract({
+          address: sharedMinterFilter,
+          abi: iMinterFilterV1Abi,
+          functionName: "isRegisteredCoreContract",
+          args: [contractAddress],
+        });
+      })
+    );
+    const matchingChainIds = chainIds.filter((_, index) => {
+      const result = isRegisteredResults[index];
+      return result.status === "fulfilled" && result.value;
+    });
+
+    if (matchingChainIds.length > 1) {
+      throw new ContractChainNotFoundError(
+        contractAddress,
+        `Core contract ${contractAddress} is registered on more than one configured chain (${matchingChainIds.join(", ")})`
+      );
+    }
+
+    if (matchingChainIds.length === 0) {
+      throw new ContractChainNotFoundError(contractAddress);
+    }
+
+    const [chainId] = matchingChainIds;
+    this.context.contractChainIds.set(contractAddress.toLowerCase(), chainId);
+
+    return chainId;
+  }
+
+  /**
+   * Resolves the chain a project is deployed to.
+   *
+   * @param projectId - The ID of the project, e.g. `0x...-0`.
+   * @returns The chain id of the project's core contract.
+   */
+  async getChainIdForProject(projectId: string): Promise<number> {
+    const [coreContractAddress, projectIndex] = projectId.split("-");
+
+    if (!coreContractAddress || !projectIndex) {
+      throw new Error("Invalid project ID");
+    }
+
+    return this.getChainIdForContract(coreContractAddress as Hex);
+  }
+
+  /**
+   * Creates a client scoped to a chain. The scoped client uses the chain's
+   * public client as its `publicClient` and shares everything else, including
+   * the wallet client, with this client. Pass it to the machines to work with
+   * a project on another chain.
+   *
+   * @param chainId - The chain id.
+   * @returns The client scoped to the chain.
+   * @throws {UnsupportedChainError} If no public client is configured for the chain.
+   */
+  getClientForChain(chainId: number): ArtBlocksClient {
+    const publicClient = this.getPublicClient(chainId);
+
+    if (!publicClient) {
+      throw new UnsupportedChainError(chainId);
+    }
+
+    // Skip the constructor, which would create a new GraphQL client
+    const client = Object.create(ArtBlocksClient.prototype) as ArtBlocksClient;
+    const parentContext = this.context;
+    client.context = Object.defineProperty(
+      { ...parentContext, publicClient },
+      "walletClient",
+      {
+        enumerable: true,
+        get: () => parentContext.walletClient,
+        set: (walletClient: WalletClient | undefined) => {
+          parentContext.walletClient = walletClient;
+        },
+      }
+    );
+
+    return client;
+  }
+
+  /**
+   * Gets a client for the chain a project is deployed to. Returns this client
+   * when no `publicClients` are configured.
+   *
+   * @param projectId - The ID of the project, e.g. `0x...-0`.
+   * @returns The client scoped to the project's chain.
+   */
+  async getClientForProject(projectId: string): Promise<ArtBlocksClient> {
+    if (Object.keys(this.context.publicClients).length === 0) {
+      return this;
+    }
+
+    return this.getClientForChain(await this.getChainIdForProject(projectId));
+  }
+
+  /**
+   * Prompts the wallet to switch to the chain of this client's public client
+   * if it is connected to a different chain. Called before transactions are
+   * submitted.
+   */
+  async switchWalletChain() {
+    const { publicClient, walletClient } = this.context;
+
+    if (!publicClient || !walletClient) {
+      return;
+    }
+
+    this.context.walletClient = await switchWalletChainIfNeeded({
+      walletClient,
+      publicClient,
+    });
+  }
+
   async graphqlRequest<T, V extends Variables = Variables>(
     document: RequestDocument | TypedDocumentNode<T, V>,
     ...variablesAndRequestHeaders: VariablesAndRequestHeadersArgs<V>
   ): Promise<T> {
+    if (!this.context.graphqlClient) {
+      throw new Error("A graphqlEndpoint is required to make GraphQL requests");
+    }
+
     return this.context.graphqlClient.request(
       document,
       ...variablesAndRequestHeaders
     );
   }
 
-  async getProjectMinterConfigurationContext(projectId: string) {
-    if (!this.context.publicClient) {
-      throw new Error(
-        "A publicClient is required to get project minter configuration context"
-      );
-    }
+  /**
+   * Gets the minter configuration forms of a project, with methods to
+   * refresh them, submit several of them in a batch and subscribe to their
+   * changes. While there are subscribers, the project's minter filter and
+   * minter are watched for changes made elsewhere, such as by a co-artist,
+   * and subscribers are notified with the events that caused them.
+   *
+   * @param projectId - The ID of the project, e.g. `0x...-0`.
+   * @param options.watchChanges - Whether to watch for on-chain changes, defaults to true.
+   * @param options.debounceMs - How long to wait for further events before updating the forms, in milliseconds.
+   * @returns The project's minter configuration context.
+   */
+  async getProjectMinterConfigurationContext(
+    projectId: string,
+    options: { watchChanges?: boolean; debounceMs?: number } = {}
+  ) {
+    const { watchChanges = true, debounceMs } = options;
+    const artblocksClient = await this.getClientForProject(projectId);
+    artblocksClient.assertPublicClient(
+      "get project minter configuration context"
+    );
+    const clientContext =
+      artblocksClient.context as ArtBlocksClientContextWithPublicClient;
 
     // Create a list of subscribers
-    let subscribers: Array<
-      (config: {
-        data: ProjectMinterConfigurationData;
-        forms: FormBlueprint[];
-      }) => void
-    > = [];
-
-    const notifySubscribers = (updatedConfig: {
-      data: ProjectMinterConfigurationData;
-      forms: FormBlueprint[];
-    }) => {
+    let subscribers: Array<(config: ProjectMinterConfigurationUpdate) => void> =
+      [];
+
+    // The latest forms, whose sync check fields tell when the data source has
+    // synced on-chain changes
+    let currentForms: FormBlueprint[] = [];
+
+    const notifySubscribers = (
+      updatedConfig: ProjectMinterConfigurationUpdate
+    ) => {
+      currentForms = updatedConfig.forms;
       for (const subscriber of subscribers) {
         subscriber(updatedConfig);
       }
@@ -127,52 +546,331 @@ export class ArtBlocksClient {
     const { forms, data } = await generateProjectMinterConfigurationForms({
       projectId,
       onConfigurationChange: notifySubscribers,
-      clientContext: this.context as ArtBlocksClientContextWithPublicClient,
+      clientContext,
     });
+    currentForms = forms;
+
+    // Watches for on-chain changes while there are subscribers
+    let unwatch: (() => void) | undefined;
+    const startWatching = () =>
+      watchProjectMinterConfigurationChanges({
+        publicClient: clientContext.publicClient,
+        projectId,
+        data,
+        debounceMs,
+        onChanges: async (changes) => {
+          // Regenerate the forms once the data source has synced the changes
+          await pollForSyncedMinterConfigurationChanges(
+            clientContext,
+            projectId,
+            changes,
+            currentForms
+          );
+          const updatedConfig = await generateProjectMinterConfigurationForms({
+            projectId,
+            onConfigurationChange: notifySubscribers,
+            clientContext,
+          });
+          notifySubscribers({ ...updatedConfig, changes });
+          return updatedConfig.data;
+        },
+      });
 
     return {
       data,
       // Provide a method to access the current configuration
       forms,
 
-      // Provide a method to refresh the configuration
+      // Provide a method to refresh the configuration, which notifies
+      // subscribers with the regenerated forms
       refresh: async () => {
-        if (!this.context.publicClient) {
-          throw new Error(
-            "A publicClient is required to get project minter configuration context"
-          );
-        }
+        const updatedConfig = await generateProjectMinterConfigurationForms({
+          projectId,
+          onConfigurationChange: notifySubscribers,
+          clientContext,
+        });
+        notifySubscribers(updatedConfig);
+        return updatedConfig;
+      },
 
-        await generateProjectMinterConfigurationForms({
+      // Provide a method to generate the forms of another globally allowed
+      // minter, to submit in a batch with the minter selection form
+      getTargetMinterForms: async (targetMinterAddress: string) => {
+        const { forms } = await generateProjectMinterConfigurationForms({
           projectId,
           onConfigurationChange: notifySubscribers,
-          clientContext: this.context as ArtBlocksClientContextWithPublicClient,
+          clientContext,
+          targetMinterAddress,
+        });
+        return forms;
+      },
+
+      // Provide a method to submit several forms in a single batch
+      submitMany: async (
+        forms: FormBlueprint[],
+        values: Record<string, Record<string, any>>,
+        options: {
+          mode: BatchSubmissionMode;
+          onProgress?: (status: SubmissionStatus) => void;
+          onSafeProposed?: (safeTxHash: Hex) => void;
+        }
+      ) => {
+        await submitProjectMinterConfigurationForms({
+          projectId,
+          onConfigurationChange: notifySubscribers,
+          clientContext,
+          forms,
+          values,
+          ...options,
         });
       },
 
       // Provide a method to subscribe to changes in the configuration
       subscribe: (
-        callback: (config: {
-          data: ProjectMinterConfigurationData;
-          forms: FormBlueprint[];
-        }) => void
+        callback: (config: ProjectMinterConfigurationUpdate) => void
       ) => {
         subscribers.push(callback);
+        if (watchChanges && !unwatch) {
+          unwatch = startWatching();
+        }
 
-        // Provide a way to unsubscribe
+        // Provide a way to unsubscribe, which stops watching for changes
+        // once the last subscriber is gone
         return () => {
           subscribers = subscribers.filter(
             (subscriber) => subscriber !== callback
           );
+          if (subscribers.length === 0) {
+            unwatch?.();
+            unwatch = undefined;
+          }
         };
       },
     };
   }
+
+  /**
+   * Loads the projects whose token holders may purchase a project from its
+   * holder minter, confirmed on-chain and with their names, and returns an
+   * editor that validates, diffs and submits changes to them. Large changes
+   * are split across several `allowAndRemoveHoldersOfProjects` transactions.
+   *
+   * @param projectId - The ID of the project, e.g. `0x...-0`.
+   * @param options.fromBlock - The block to read the minter's events from. Defaults to the minter's deployment block.
+   * @param options.logBlockRange - The most blocks to read the minter's events from at once.
+   * @param options.maxChangesPerTransaction - The most projects to add or remove in one transaction.
+   * @returns The project's holder allowlist editor.
+   */
+  async getProjectHolderAllowlistEditor(
+    projectId: string,
+    options: {
+      fromBlock?: BlockNumber | BlockTag;
+      logBlockRange?: number;
+      maxChangesPerTransaction?: number;
+    } = {}
+  ): Promise<HolderAllowlistEditor> {
+    const artblocksClient = await this.getClientForProject(projectId);
+    artblocksClient.assertPublicClient("edit holder allowlists");
+
+    const project =
+      await this.context.dataSource.getProjectMinterConfiguration(projectId);
+    const minter = project?.minter_configuration?.minter;
+    const minterFilterAddress = project?.contract?.minter_filter?.address;
+
+    if (
+      !minter ||
+      !minterFilterAddress ||
+      !isHolderAllowlistMinterType(minter.minter_type)
+    ) {
+      throw new Error(`Project ${projectId} doesn't use a holder minter`);
+    }
+
+    return getHolderAllowlistEditor({
+      publicClient: artblocksClient.context.publicClient as PublicClient,
+      getWalletClient: () => this.context.walletClient,
+      projectId,
+      minterAddress: minter.address as Hex,
+      minterFilterAddress: minterFilterAddress as Hex,
+      candidateProjectIds:
+        project.minter_configuration?.extra_minter_details
+          ?.allowlistedAddressAndProjectId,
+      ...options,
+    });
+  }
+
+  /**
+   * Gets the live sale data for a project, read directly from its minter and
+   * core contracts.
+   *
+   * @param projectId - The ID of the project, e.g. `0x...-0`.
+   * @returns The live sale data for the project.
+   */
+  async getLiveSaleData(projectId: string) {
+    const artblocksClient = await this.getClientForProject(projectId);
+    artblocksClient.assertPublicClient("get live sale data");
+
+    return getLiveSaleData({ artblocksClient, projectId });
+  }
+
+  /**
+   * Checks whether an account is eligible to purchase a token from a project.
+   *
+   * @param projectId - The ID of the project, e.g. `0x...-0`.
+   * @param account - The account to check, defaults to the wallet client's account.
+   * @returns The account's eligibility and any additional purchase data.
+   */
+  async getPurchaseEligibility(projectId: string, account?: Hex) {
+    const artblocksClient = await this.getClientForProject(projectId);
+    artblocksClient.assertPublicClient("get purchase eligibility");
+
+    return getPurchaseEligibility({
+      artblocksClient,
+      projectId,
+      userAddress: account,
+    });
+  }
+
+  /**
+   * Purchases a token from a project using the wallet client's account.
+   *
+   * @param projectId - The ID of the project, e.g. `0x...-0`.
+   * @param options - Optional recipient and maximum token price.
+   * @returns The hash of the submitted purchase transaction.
+   */
+  async purchase(projectId: string, options?: PurchaseOptions) {
+    const artblocksClient = await this.getClientForProject(projectId);
+    artblocksClient.assertPublicClient("purchase");
+
+    return purchase({ artblocksClient, projectId, options });
+  }
+
+  /**
+   * Purchases multiple tokens from a project using the wallet client's
+   * account, batching the purchases into one EIP-5792 call bundle when the
+   * wallet supports it.
+   *
+   * @param projectId - The ID of the project, e.g. `0x...-0`.
+   * @param quantity - The number of tokens to purchase.
+   * @param options - Optional recipient and maximum token price.
+   * @param onTransactionSubmitted - Optional callback invoked as each purchase
+   * transaction is submitted.
+   * @returns The submitted purchase transactions.
+   */
+  async purchaseMany(
+    projectId: string,
+    quantity: number,
+    options?: PurchaseOptions,
+    onTransactionSubmitted?: (transaction: BatchPurchaseTransaction) => void
+  ) {
+    const artblocksClient = await this.getClientForProject(projectId);
+    artblocksClient.assertPublicClient("purchase");
+
+    return purchaseMany({
+      artblocksClient,
+      projectId,
+      quantity,
+      options,
+      onTransactionSubmitted,
+    });
+  }
+
+  private assertPublicClient(action: string) {
+    if (!this.context.publicClient) {
+      throw new Error(`A publicClient is required to ${action}`);
+    }
+  }
 }
 
 export {
   type FormBlueprint as ConfigurationForm,
   type SubmissionStatus,
+  type PreparedFormTransaction,
+  type BatchSubmissionMode,
+  type FormPreview,
+  type FormPreviewChange,
+  type FormAccess,
+  type FormAccessLevel,
+  FormAccessLevelEnum,
   type ProjectMinterConfigurationData as ProjectConfigData,
+  type ProjectMinterConfigurationUpdate as ProjectConfigUpdate,
+  type MinterConfigurationChange,
+  type MinterConfigurationChangeSource,
+  MinterConfigurationChangeSourceEnum,
+  DEFAULT_HOLDER_ALLOWLIST_LOG_BLOCK_RANGE,
+  DEFAULT_MAX_HOLDER_ALLOWLIST_CHANGES_PER_TRANSACTION,
+  type HolderAllowlistDiff,
+  type HolderAllowlistEditor,
+  type HolderAllowlistProject,
+  HolderAllowlistEventsError,
+  InvalidHolderAllowlistProjectsError,
+  diffHolderAllowlist,
   SubmissionStatusEnum,
+  type PurchaseOptions,
+  type BatchPurchaseTransaction,
+  AllowlistEntryDoesNotExist,
+  InsufficientERC20AllowanceError,
+  ProjectIneligibleForPrimarySaleError,
+  PurchasePriceExceedsMaxPriceError,
+  UserIneligibleForPurchaseError,
+  type AllowlistDiff,
+  type AllowlistEntryIssue,
+  type AllowlistProofsBundle,
+  type AllowlistValidationReport,
+  ALLOWLIST_ENTRY_ISSUE,
+  InvalidAllowlistError,
+  InvalidAllowlistProofsBundleError,
+  diffAllowlists,
+  exportAllowlistProofsBundle,
+  importAllowlistProofsBundle,
+  normalizeAllowlistAddress,
+  serializeAllowlistProofsBundle,
+  validateAllowlist,
+  verifyAllowlistMerkleRoot,
+  verifyAllowlistProof,
+  type AllowlistMerkleTreeResult,
+  type AllowlistProcessingProgress,
+  type AllowlistSource,
+  type BuildAllowlistMerkleTreeOptions,
+  AllowlistProcessingCancelledError,
+  IncrementalAllowlistMerkleTree,
+  buildAllowlistMerkleTree,
+  buildAllowlistMerkleTreeInWorker,
+  handleAllowlistMerkleWorkerMessages,
+  streamAllowlistEntries,
+  type DataSource,
+  DataSourceOperationNotSupportedError,
+  GraphQLDataSource,
+  RpcDataSource,
+  type RpcDataSourceOptions,
+  type AddressBookEntry,
+  ContractChainNotFoundError,
+  getAddressBook,
+  SUPPORTED_CHAIN_IDS,
+  UnsupportedChainError,
+  type Delegation,
+  type DelegationRegistryVersion,
+  type DelegationScope,
+  DELEGATION_REGISTRY_VERSION,
+  DELEGATION_SCOPE,
+  getDelegationRegistryAddresses,
+  getDelegations,
+  isDelegationValidFor,
+  type MinterConfigurationSchemaIssue,
+  type MinterConfigurationSchemaRegistry,
+  getMinterConfigurationSchema,
+  LOCAL_MINTER_CONFIGURATION_SCHEMAS,
+  LOCAL_MINTER_CONFIGURATION_SCHEMAS_VERSION,
+  validateMinterConfigurationSchema,
+  ValidationConditionEnum,
+  type ValidationExpression,
+  type ValidationRule,
+  TransactionAccessEnum,
+  type TransactionAccess,
+  type DisplayProcessor,
+  type DisplayProcessorContext,
+  type DisplayProcessorRegistry,
+  InvalidProcessorInputError,
+  type SubmissionProcessor,
+  type SubmissionProcessorContext,
+  type SubmissionProcessorRegistry,
 };
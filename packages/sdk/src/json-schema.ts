@@ -32,8 +32,30 @@ export type TransactionDetails = {
 
   /** The ABI (Application Binary Interface) of the function. */
   abi: Abi;
+
+  /**
+   * Who may call the function. Defaults to the project's artist or the core
+   * contract's admin ACL.
+   */
+  access?: TransactionAccess;
 };
 
+/**
+ * TransactionAccessEnum defines who may call a function, mirroring the
+ * checks of the minter suite's AuthLib.
+ */
+export const TransactionAccessEnum = {
+  /** Only the project's artist. */
+  ARTIST: "artist",
+  /** Only accounts the core contract's admin ACL allows to call the function. */
+  CORE_ADMIN_ACL: "coreAdminACL",
+  /** The project's artist or accounts allowed by the core contract's admin ACL. */
+  CORE_ADMIN_ACL_OR_ARTIST: "coreAdminACLOrArtist",
+} as const;
+
+export type TransactionAccess =
+  (typeof TransactionAccessEnum)[keyof typeof TransactionAccessEnum];
+
 /**
  * ValidationConditions is a constant object that defines the possible conditions for validation.
  * These conditions can be used to determine the validity of a field's value.
@@ -71,6 +93,49 @@ interface ValidationDependency {
   condition: ValidationCondition;
 }
 
+/**
+ * ValidationExpression is a JSON expression evaluated to a number when validating form values.
+ * Date-time fields evaluate to unix timestamps in seconds, so that they can be compared to `now`
+ * and durations. Expressions that reference a missing value leave their rule unchecked.
+ */
+export type ValidationExpression =
+  /** The value of a field, by its name relative to the schema that declares the rule. */
+  | { field: string }
+  /** A constant. */
+  | { value: number }
+  /** The current time as a unix timestamp in seconds. */
+  | { now: true }
+  /** The uint256 returned by a view function of the minter that takes no arguments. */
+  | { minterView: string }
+  /** An arithmetic operation on two expressions. */
+  | {
+      op: "add" | "sub" | "mul" | "div";
+      args: [ValidationExpression, ValidationExpression];
+    }
+  /**
+   * The base 2 logarithm of an expression, or the number of half-lives a price
+   * decays by to be divided by it, interpolated linearly within each half-life
+   * like exponential Dutch auction minters do.
+   */
+  | {
+      op: "log2" | "halfLives";
+      args: [ValidationExpression];
+    };
+
+/**
+ * ValidationRule compares two expressions, reporting `message` on `field` when
+ * the comparison fails.
+ */
+export interface ValidationRule {
+  /** The name of the field the error is reported on. */
+  field: string;
+  left: ValidationExpression;
+  condition: ValidationCondition;
+  right: ValidationExpression;
+  /** The error message shown when the condition isn't met. */
+  message: string;
+}
+
 /**
  * BaseFormFieldAttributes extends ConfigurationSchema7 to describe a basic property in the schema.
  */
@@ -86,6 +151,12 @@ export interface BaseFormFieldSchema extends JSONSchema7 {
 
   validationDependencies?: ValidationDependency[];
 
+  /** Optional cross-field validation rules of the properties of this object. */
+  validationRules?: ValidationRule[];
+
+  /** Optional property indicating who may set the field, when it differs from who may submit the form. */
+  access?: TransactionAccess;
+
   /** Optional property indicating the order the fields should be displayed */
   "ui:order"?: string[];
 
@@ -121,8 +192,7 @@ interface NonCompoundDetails {
 }
 
 type CompoundType =
-  | CompoundConcatenateDetails
-  | CompoundTransactionGroupDetails;
+  CompoundConcatenateDetails | CompoundTransactionGroupDetails;
 
 export type ItemsSchema = Omit<JSONSchema7, "items"> & {
   properties?: {
@@ -167,8 +237,7 @@ export type OnChainCompoundArrayFormFieldSchema = Partial<FormFieldProperties> &
     transactionDetails: TransactionDetails;
   };
 export type OnChainFormFieldSchema =
-  | OnChainNonArrayFormFieldSchema
-  | OnChainCompoundNonArrayFormFieldSchema;
+  OnChainNonArrayFormFieldSchema | OnChainCompoundNonArrayFormFieldSchema;
 
 export type OffChainNonArrayFormFieldSchema = FormFieldProperties &
   NonArrayFormFieldSchema & { onChain: false };
@@ -7,7 +7,6 @@ import {
   ReceiptSettlementDataFragment,
 } from "../../generated/graphql";
 import { iSharedMinterDAExpSettlementV0Abi } from "../../../abis/iSharedMinterDAExpSettlementV0Abi";
-import { graphql } from "../../generated/index";
 import { ArtBlocksClient } from "../..";
 import { iUnsharedDAExpSettlementAbi } from "../../../abis/iUnsharedDAExpSettlementAbi";
 
@@ -18,15 +17,6 @@ import { iUnsharedDAExpSettlementAbi } from "../../../abis/iUnsharedDAExpSettlem
  * - Revisit error handling
  */
 
-const getReceiptDocument = graphql(/* GraphQL */ `
-  query GetReceipt($id: String!) {
-    receipt_metadata_by_pk(id: $id) {
-      id
-      excess_settlement_funds
-    }
-  }
-`);
-
 const SYNC_POLLING_INTERVAL = 5000;
 
 type ExcessSettlementFundsClaimMachineContext = {
@@ -55,6 +45,8 @@ export const excessSettlementFundsClaimMachine = setup({
           artblocksClient: ArtBlocksClient;
         };
       }): Promise<Hex> => {
+        await artblocksClient.switchWalletChain();
+
         const walletClient = artblocksClient.getWalletClient();
         const publicClient = artblocksClient.getPublicClient();
 
@@ -139,11 +131,9 @@ export const excessSettlementFundsClaimMachine = setup({
           artblocksClient: ArtBlocksClient;
         };
       }) => {
-        const res = await artblocksClient.graphqlRequest(getReceiptDocument, {
-          id: receipt.id,
-        });
-
-        return res.receipt_metadata_by_pk;
+        return artblocksClient
+          .getDataSource()
+          .getReceiptExcessSettlementFunds(receipt.id);
       }
     ),
   },
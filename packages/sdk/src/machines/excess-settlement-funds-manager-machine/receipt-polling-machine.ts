@@ -37,31 +37,6 @@ export const receiptSettlementDataFragment = graphql(/* GraphQL */ `
   }
 `);
 
-export const getReceiptsWithExcessSettlementFundsForUserDocument = graphql(
-  /* GraphQL */ `
-    query GetReceiptsWithExcessSettlementFundsForUser(
-      $userAddress: String!
-      $supportedMinterTypes: [minter_type_names_enum!]!
-    ) {
-      receipt_metadata(
-        where: {
-          user_address: { _eq: $userAddress }
-          excess_settlement_funds: { _neq: "0" }
-          minter: { type: { type: { _in: $supportedMinterTypes } } }
-          project_minter_configuration: {
-            _or: [
-              { complete: { _eq: true } }
-              { auction_end_time: { _lt: "now()" } }
-            ]
-          }
-        }
-      ) {
-        ...ReceiptSettlementData
-      }
-    }
-  `
-);
-
 class WalletClientUnavailableError extends Error {
   constructor() {
     super("Wallet client is unavailable");
@@ -96,15 +71,12 @@ export const receiptPollingMachine = setup({
           throw new WalletClientUnavailableError();
         }
 
-        const res = await artblocksClient.graphqlRequest(
-          getReceiptsWithExcessSettlementFundsForUserDocument,
-          {
-            userAddress: userAddress.toLowerCase(),
-            supportedMinterTypes: SUPPORTED_SETTLEMENT_CLAIM_MINTER_TYPES,
-          }
-        );
-        const receipts = res.receipt_metadata;
-        return receipts;
+        return artblocksClient
+          .getDataSource()
+          .getReceiptsWithExcessSettlementFunds({
+            userAddress,
+            minterTypes: SUPPORTED_SETTLEMENT_CLAIM_MINTER_TYPES,
+          });
       }
     ),
   },
@@ -1,9 +1,6 @@
 import { assign, fromPromise, setup } from "xstate";
 import { ArtBlocksClient } from "../..";
-import {
-  BidDetailsFragment,
-  GetUserBidsDocument,
-} from "../../generated/graphql";
+import { BidDetailsFragment } from "../../generated/graphql";
 import { ProjectDetails } from "../project-sale-manager-machine/utils";
 import { getMessageFromError } from "../utils";
 
@@ -53,12 +50,10 @@ export const postRAMMachine = setup({
           throw new Error("Wallet client not connected");
         }
 
-        const bids = await artblocksClient.graphqlRequest(GetUserBidsDocument, {
+        return artblocksClient.getDataSource().getUserBids({
           projectId: project.id,
-          userAddress: walletClient.account.address.toLowerCase(),
+          userAddress: walletClient.account.address,
         });
-
-        return bids.project_ranked_bids;
       }
     ),
   },
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { Actor, createActor, fromPromise, waitFor } from "xstate";
+import { Hex, parseEther } from "viem";
+import { ArtBlocksClient } from "../..";
+import { projectSaleManagerMachine } from ".";
+import { liveSaleDataPollingMachine } from "./live-sale-data-polling-machine";
+import { LiveSaleData, ProjectDetails } from "./utils";
+import { Minter_Type_Names_Enum } from "../../generated/graphql";
+
+const USER_ADDRESS: Hex = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const CORE_ADDRESS: Hex = "0x99a9b7c1116f9ceeb1652de04d5969cce509b069";
+const MINTER_ADDRESS: Hex = "0xa2ccfe293bc2cdd78d8166a82d1e18cd2148122b";
+
+const project = {
+  id: `${CORE_ADDRESS}-3`,
+  complete: false,
+  artist_address: USER_ADDRESS.toLowerCase(),
+  contract: { address: CORE_ADDRESS },
+  minter_configuration: {
+    minter: {
+      address: MINTER_ADDRESS,
+      minter_type: Minter_Type_Names_Enum.MinterSeav1,
+    },
+  },
+} as unknown as NonNullable<ProjectDetails>;
+
+const createLiveSaleData = (tokenToBid?: bigint): LiveSaleData => ({
+  tokenPriceInWei: parseEther("0.5"),
+  invocations: BigInt(1),
+  maxInvocations: BigInt(10),
+  active: true,
+  paused: false,
+  completedTimestamp: BigInt(0),
+  isConfigured: true,
+  seaMinterAuctionDetails: {
+    auctionStartDate: new Date(Date.now() - 86400 * 1000),
+    auctionDurationSeconds: 3600,
+    basePrice: parseEther("0.5"),
+    minBidIncrementPercentage: 5,
+    minterTimeBufferSeconds: 300,
+    nextTokenIsPopulated: tokenToBid !== undefined,
+    tokenToBid,
+  },
+});
+
+describe("projectSaleManagerMachine SEA projects", () => {
+  let liveSaleData: LiveSaleData;
+  let actor: Actor<typeof projectSaleManagerMachine>;
+
+  beforeEach(() => {
+    liveSaleData = createLiveSaleData(BigInt(3000001));
+
+    const artblocksClient = {
+      getPublicClient: () => ({}),
+      getWalletClient: () => ({ account: { address: USER_ADDRESS } }),
+    } as unknown as ArtBlocksClient;
+
+    actor = createActor(
+      projectSaleManagerMachine.provide({
+        actors: {
+          fetchProjectDetails: fromPromise(async () => project),
+          liveSaleDataPollingMachine: liveSaleDataPollingMachine.provide({
+            actors: {
+              fetchLiveSaleData: fromPromise(async () => liveSaleData),
+            },
+          }),
+        },
+      }),
+      { input: { project, artblocksClient } }
+    );
+    actor.start();
+  });
+
+  afterEach(() => {
+    actor.stop();
+  });
+
+  it("spawns the SEA machine when a token is available to bid on", async () => {
+    const snapshot = await waitFor(actor, (snapshot) =>
+      snapshot.matches("readyForSEA")
+    );
+
+    expect(snapshot.context.seaMachine).toBeDefined();
+    expect(snapshot.context.purchaseInitiationMachine).toBeUndefined();
+  });
+
+  it("stops the SEA machine once there is no token to bid on", async () => {
+    await waitFor(actor, (snapshot) => snapshot.matches("readyForSEA"));
+
+    actor.send({
+      type: "LIVE_SALE_DATA_FETCHED",
+      data: createLiveSaleData(),
+    });
+
+    const snapshot = actor.getSnapshot();
+    expect(snapshot.matches("idle")).toBe(true);
+    expect(snapshot.context.seaMachine).toBeUndefined();
+  });
+});
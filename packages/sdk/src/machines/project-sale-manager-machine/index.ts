@@ -11,18 +11,20 @@ import {
   LiveSaleData,
   ProjectDetails,
   ProjectIneligibleForPrimarySaleError,
-  getProjectDetailsDocument,
+  fetchProjectDetails,
   isProjectComplete,
   isProjectIneligibleForPrimarySale,
   isProjectPostRAM,
   isProjectPurchasable,
   isProjectRAMBiddable,
+  isProjectSEABiddable,
 } from "./utils";
 import { liveSaleDataPollingMachine } from "./live-sale-data-polling-machine";
 import { purchaseInitiationMachine } from "../purchase-initiation-machine";
 import { ArtBlocksClient } from "../..";
 import { ramMachine } from "../ram-machine";
 import { postRAMMachine } from "../post-ram-machine";
+import { seaMachine } from "../sea-machine";
 
 type ProjectSaleManagerMachineEvents =
   | {
@@ -61,6 +63,7 @@ export type ProjectSaleManagerMachineContext = {
   purchaseInitiationMachine?: ActorRefFrom<typeof purchaseInitiationMachine>;
   ramMachine?: ActorRefFrom<typeof ramMachine>;
   postRAMMachine?: ActorRefFrom<typeof postRAMMachine>;
+  seaMachine?: ActorRefFrom<typeof seaMachine>;
 };
 
 /**
@@ -108,7 +111,9 @@ export type ProjectSaleManagerMachineContext = {
  * determine the next appropriate state transition. If the project is eligible for
  * sale and all necessary context is available, the machine transitions to the
  * 'readyForPurchase' state, where it spawns the PurchaseInitiationMachine to handle
- * the sale process.
+ * the sale process. Projects on RAM and SEA minters are instead routed to the
+ * 'readyForRam' and 'readyForSEA' states, which spawn the corresponding bidding
+ * machines.
  *
  * A project is considered ineligible for sale when it does not have a minter
  * assigned or configured, or if it is configured with an unsupported minter type.
@@ -143,38 +148,14 @@ export const projectSaleManagerMachine = setup({
       }: {
         input: { projectId?: string; artblocksClient: ArtBlocksClient };
       }): Promise<NonNullable<ProjectDetails>> => {
-        const { projectId, artblocksClient } = input;
-
-        // This is an expected case for non-AB projects so we throw a custom error
-        // and transition to a non-error state.
-        if (!projectId) {
-          throw new ProjectIneligibleForPrimarySaleError(
-            "No Art Blocks project ID provided. Primary sale not available."
-          );
-        }
-
-        const res = await artblocksClient.graphqlRequest(
-          getProjectDetailsDocument,
-          {
-            projectId,
-          }
-        );
-
-        // We don't expect this to happen, so throw a normal error
-        // instead of a custom one to trigger a transition to the
-        // error state
-        const project = res.projects_metadata_by_pk;
-        if (!project) {
-          throw new Error("Project not found");
-        }
-
-        return project;
+        return await fetchProjectDetails(input);
       }
     ),
     liveSaleDataPollingMachine,
     purchaseInitiationMachine,
     ramMachine,
     postRAMMachine,
+    seaMachine,
   },
   actions: {
     assignArtBlocksClient: assign({
@@ -323,6 +304,36 @@ export const projectSaleManagerMachine = setup({
         ramMachine: undefined,
       });
     }),
+    spawnAndAssignSEAMachine: assign({
+      seaMachine: ({ spawn, context, system }) => {
+        if (!context.project) {
+          return;
+        }
+
+        const liveSaleDataPollingMachineRef = system.get(
+          "liveSaleDataPollingMachine"
+        );
+        if (!liveSaleDataPollingMachineRef) {
+          return;
+        }
+
+        return spawn("seaMachine", {
+          systemId: "seaMachine",
+          id: "seaMachine",
+          input: {
+            artblocksClient: context.artblocksClient,
+            project: context.project,
+            liveSaleDataPollingMachineRef: liveSaleDataPollingMachineRef,
+          },
+        });
+      },
+    }),
+    stopAndAssignSEAMachine: enqueueActions(({ enqueue }) => {
+      enqueue.stopChild("seaMachine");
+      enqueue.assign({
+        seaMachine: undefined,
+      });
+    }),
     spawnAndAssignPostRAMMachine: assign({
       postRAMMachine: ({ spawn, context }) => {
         if (!context.project) {
@@ -353,6 +364,12 @@ export const projectSaleManagerMachine = setup({
     isNotRAMBiddable: ({ context }) => {
       return !isProjectRAMBiddable(context);
     },
+    isSEABiddable: ({ context }) => {
+      return isProjectSEABiddable(context);
+    },
+    isNotSEABiddable: ({ context }) => {
+      return !isProjectSEABiddable(context);
+    },
     isPostRAM: ({ context }) => {
       return isProjectPostRAM(context);
     },
@@ -488,6 +505,10 @@ export const projectSaleManagerMachine = setup({
           target: "readyForRam",
           guard: "isRAMBiddable",
         },
+        {
+          target: "readyForSEA",
+          guard: "isSEABiddable",
+        },
         {
           target: "postRAM",
           guard: "isPostRAM",
@@ -529,6 +550,20 @@ export const projectSaleManagerMachine = setup({
         },
       ],
     },
+    readyForSEA: {
+      description:
+        "This state is activated when the project is configured on a serial English auction minter and a token is available to bid on. The SEA machine is spawned to manage bidding, and is stopped if the project is no longer biddable.",
+      entry: {
+        type: "spawnAndAssignSEAMachine",
+      },
+      always: [
+        {
+          target: "idle",
+          guard: "isNotSEABiddable",
+          actions: "stopAndAssignSEAMachine",
+        },
+      ],
+    },
     postRAM: {
       entry: {
         type: "spawnAndAssignPostRAMMachine",
@@ -543,5 +578,6 @@ export const projectSaleManagerMachine = setup({
 export {
   deserializeSnapshot,
   getSerializedSnapshotWithProjectData,
+  serializeSnapshot,
   generateMinterDescription, // TODO: This should be moved to a more appropriate location, general utils
 } from "./utils";
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { AnyEventObject, assign, createActor, setup, waitFor } from "xstate";
+import { ContractFunctionRevertedError, Hex, parseEther } from "viem";
+import { ArtBlocksClient } from "../..";
+import { liveSaleDataPollingMachine } from "./live-sale-data-polling-machine";
+import { ProjectDetails } from "./utils";
+import { Minter_Type_Names_Enum } from "../../generated/graphql";
+import { minterSEAV1Abi } from "../../../abis/minterSEAV1Abi";
+
+const USER_ADDRESS: Hex = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const CORE_ADDRESS: Hex = "0x99a9b7c1116f9ceeb1652de04d5969cce509b069";
+const MINTER_ADDRESS: Hex = "0xa2ccfe293bc2cdd78d8166a82d1e18cd2148122b";
+const TOKEN_TO_BID = BigInt(3000001);
+
+const project = {
+  id: `${CORE_ADDRESS}-3`,
+  contract: { address: CORE_ADDRESS },
+  minter_configuration: {
+    minter: {
+      address: MINTER_ADDRESS,
+      minter_type: Minter_Type_Names_Enum.MinterSeav1,
+    },
+  },
+} as unknown as NonNullable<ProjectDetails>;
+
+describe("liveSaleDataPollingMachine for SEA minters", () => {
+  let getTokenToBid: () => Promise<bigint>;
+  let artblocksClient: ArtBlocksClient;
+
+  // Runs a single poll, returning the events sent to the parent machine
+  const fetchLiveSaleData = async () => {
+    const parent = createActor(
+      setup({
+        types: { context: {} as { events: AnyEventObject[] } },
+        actors: { liveSaleDataPollingMachine },
+      }).createMachine({
+        context: { events: [] },
+        invoke: {
+          src: "liveSaleDataPollingMachine",
+          input: { project, artblocksClient },
+        },
+        on: {
+          "*": {
+            actions: assign({
+              events: ({ context, event }) => [...context.events, event],
+            }),
+          },
+        },
+      })
+    );
+    parent.start();
+    const snapshot = await waitFor(
+      parent,
+      (snapshot) => snapshot.context.events.length > 0
+    );
+    parent.stop();
+
+    return snapshot.context.events;
+  };
+
+  beforeEach(() => {
+    getTokenToBid = async () => TOKEN_TO_BID;
+
+    const readContract = jest.fn(
+      async ({ functionName }: { functionName: string }) => {
+        switch (functionName) {
+          case "getPriceInfo":
+            return [true, parseEther("0.5"), "ETH", CORE_ADDRESS];
+          case "projectStateData":
+            return [BigInt(1), BigInt(10), true, false, BigInt(0)];
+          case "SEAProjectConfigurationDetails":
+            return {
+              timestampStart: BigInt(1717243200),
+              auctionDurationSeconds: 3600,
+              basePrice: parseEther("0.5"),
+              minBidIncrementPercentage: 5,
+              nextTokenNumberIsPopulated: true,
+              activeAuction: {
+                tokenId: TOKEN_TO_BID,
+                currentBid: parseEther("1"),
+                currentBidder: USER_ADDRESS,
+                endTime: BigInt(1717246800),
+                minBidIncrementPercentage: 5,
+                settled: false,
+              },
+            };
+          case "minterConfigurationDetails":
+            return [BigInt(0), 300];
+          case "getTokenToBid":
+            return getTokenToBid();
+          default:
+            throw new Error(`Unexpected read of ${functionName}`);
+        }
+      }
+    );
+
+    artblocksClient = {
+      getPublicClient: () => ({ readContract }),
+    } as unknown as ArtBlocksClient;
+  });
+
+  it("includes the token to bid on", async () => {
+    const [event] = await fetchLiveSaleData();
+
+    expect(event.type).toEqual("LIVE_SALE_DATA_FETCHED");
+    expect(event.data.seaMinterAuctionDetails).toMatchObject({
+      minterTimeBufferSeconds: 300,
+      nextTokenIsPopulated: true,
+      tokenToBid: TOKEN_TO_BID,
+      activeAuction: {
+        tokenId: TOKEN_TO_BID,
+        currentBidder: USER_ADDRESS,
+        endDate: new Date(1717246800 * 1000),
+      },
+    });
+  });
+
+  it("has no token to bid on when getTokenToBid reverts", async () => {
+    getTokenToBid = async () => {
+      throw new ContractFunctionRevertedError({
+        abi: minterSEAV1Abi,
+        functionName: "getTokenToBid",
+        message: "No auction and next token not populated",
+      });
+    };
+
+    const [event] = await fetchLiveSaleData();
+
+    expect(event.type).toEqual("LIVE_SALE_DATA_FETCHED");
+    expect(event.data.seaMinterAuctionDetails).toBeDefined();
+    expect(event.data.seaMinterAuctionDetails.tokenToBid).toBeUndefined();
+  });
+
+  it("fails on getTokenToBid errors that are not reverts", async () => {
+    getTokenToBid = async () => {
+      throw new Error("HTTP request failed");
+    };
+
+    expect(await fetchLiveSaleData()).toEqual([
+      { type: "ERROR", data: "HTTP request failed" },
+    ]);
+  });
+});
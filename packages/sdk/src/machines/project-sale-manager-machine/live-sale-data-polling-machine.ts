@@ -1,19 +1,14 @@
 import { setup, assign, fromPromise, enqueueActions, sendParent } from "xstate";
-import { Hex, getContract } from "viem";
 
-import { iSharedMinterV0Abi } from "../../../abis/iSharedMinterV0Abi";
-import { iGenArt721CoreContractV3BaseAbi } from "../../../abis/iGenArt721CoreContractV3BaseAbi";
-import {
-  LiveSaleData,
-  ProjectDetails,
-  ProjectMinterStateNumberToEnum,
-  bigintTimestampToDate,
-} from "./utils";
-import { getMessageFromError, isRAMMinterType } from "../utils";
+import { LiveSaleData, ProjectDetails, fetchLiveSaleData } from "./utils";
+import { getMessageFromError } from "../utils";
 import { ArtBlocksClient } from "../..";
-import { minterRAMV0Abi } from "../../../abis/minterRAMV0Abi";
+import { isSEAAuctionInExtensionWindow } from "../sea-machine/utils";
 
 const POLLING_DELAY = 10000;
+// Poll more frequently while a SEA auction is within its extension window so
+// that late bids and end time extensions are reflected promptly
+const SEA_AUCTION_ENDING_POLLING_DELAY = 2000;
 
 type LiveSaleDataPollingMachineContext = {
   project: NonNullable<ProjectDetails>;
@@ -43,7 +38,9 @@ type LiveSaleDataPollingMachineContext = {
  * - waiting: Introduces a delay between live sale data polling attempts to
  *   manage request frequency. After successfully fetching live sale data, this
  *   state is entered, and transitions back to fetchingLiveSaleData after a
- *   specified delay, facilitating continuous polling.
+ *   specified delay, facilitating continuous polling. The delay is shortened
+ *   while a SEA auction is close enough to its end that new bids would
+ *   extend it.
  * - error: Captures and handles errors that occur during the fetching of live
  *   sale data. This state is final and indicates an unrecoverable error in the
  *   polling process.
@@ -65,141 +62,35 @@ export const liveSaleDataPollingMachine = setup({
   actors: {
     fetchLiveSaleData: fromPromise(
       async ({
-        input: { project, artblocksClient },
+        input,
       }: {
         input: Pick<
           LiveSaleDataPollingMachineContext,
           "project" | "artblocksClient"
         >;
       }) => {
-        const publicClient = artblocksClient.getPublicClient();
-
-        if (!publicClient) {
-          throw new Error("Public client is unavailable");
-        }
-
-        if (!project.minter_configuration?.minter) {
-          throw new Error("Project has no minter configured");
-        }
-
-        const projectIndex = BigInt(project.id.split("-")[1]);
-
-        const minterContract = getContract({
-          address: project.minter_configuration.minter.address as Hex,
-          abi: iSharedMinterV0Abi,
-          client: publicClient,
-        });
-
-        const coreContract = getContract({
-          address: project.contract.address as Hex,
-          abi: iGenArt721CoreContractV3BaseAbi,
-          client: publicClient,
-        });
-
-        const [priceInfo, projectStateData] = await Promise.all([
-          minterContract.read.getPriceInfo([
-            projectIndex,
-            coreContract.address,
-          ]),
-          coreContract.read.projectStateData([projectIndex]),
-        ]);
-
-        const [isConfigured, tokenPriceInWei] = priceInfo;
-
-        const [
-          invocations,
-          maxInvocations,
-          active,
-          paused,
-          completedTimestamp,
-        ] = projectStateData;
-
-        const liveSaleData: LiveSaleData = {
-          tokenPriceInWei,
-          invocations,
-          maxInvocations,
-          active,
-          paused,
-          completedTimestamp,
-          isConfigured,
-        };
-
-        if (isRAMMinterType(project.minter_configuration.minter.minter_type)) {
-          const ramMinterContract = getContract({
-            address: project.minter_configuration.minter.address as Hex,
-            abi: minterRAMV0Abi,
-            client: publicClient,
-          });
-
-          const [
-            [
-              auctionTimestampStart,
-              auctionTimestampEnd,
-              basePrice,
-              numTokensInAuction,
-              numBids,
-              numBidsMintedTokens,
-              numBidsErrorRefunded,
-              minBidSlotIndex,
-              allowExtraTime,
-              adminArtistOnlyMintPeriodIfSellout,
-              revenuesCollected,
-              projectMinterState,
-            ],
-            { maxHasBeenInvoked, maxInvocations: ramMaxInvocations },
-          ] = await Promise.all([
-            ramMinterContract.read.getAuctionDetails([
-              projectIndex,
-              coreContract.address,
-            ]),
-            ramMinterContract.read.maxInvocationsProjectConfig([
-              projectIndex,
-              coreContract.address,
-            ]),
-          ]);
-
-          let [minNextBidValue, minNextBidSlotIndex]: [bigint, bigint] = [
-            tokenPriceInWei,
-            BigInt(0),
-          ];
-
-          try {
-            [minNextBidValue, minNextBidSlotIndex] =
-              await ramMinterContract.read.getMinimumNextBid([
-                projectIndex,
-                coreContract.address,
-              ]);
-          } catch (error) {
-            // Minimum next bid reverts at the end of the auction. Assume this is the case.
-          }
-
-          liveSaleData.ramMinterAuctionDetails = {
-            auctionStartDate: bigintTimestampToDate(auctionTimestampStart),
-            auctionEndDate: bigintTimestampToDate(auctionTimestampEnd),
-            basePrice,
-            numTokensInAuction,
-            numBids,
-            numBidsMintedTokens,
-            numBidsErrorRefunded,
-            minBidSlotIndex,
-            allowExtraTime,
-            adminArtistOnlyMintPeriodIfSellout,
-            revenuesCollected,
-            projectMinterState:
-              ProjectMinterStateNumberToEnum[
-                projectMinterState as 0 | 1 | 2 | 3 | 4
-              ],
-            minNextBidValue,
-            minNextBidSlotIndex,
-            maxHasBeenInvoked,
-            maxInvocations: BigInt(ramMaxInvocations),
-          };
-        }
-
-        return liveSaleData;
+        return await fetchLiveSaleData(input);
       }
     ),
   },
+  delays: {
+    pollingDelay: ({ context }) => {
+      const seaMinterAuctionDetails =
+        context.liveSaleData?.seaMinterAuctionDetails;
+
+      if (
+        seaMinterAuctionDetails &&
+        isSEAAuctionInExtensionWindow(
+          seaMinterAuctionDetails.activeAuction,
+          seaMinterAuctionDetails.minterTimeBufferSeconds
+        )
+      ) {
+        return SEA_AUCTION_ENDING_POLLING_DELAY;
+      }
+
+      return POLLING_DELAY;
+    },
+  },
   actions: {
     assignLiveSaleDataAndSendToParent: enqueueActions(
       ({ enqueue, self }, { liveSaleData }: { liveSaleData: LiveSaleData }) => {
@@ -272,7 +163,7 @@ export const liveSaleDataPollingMachine = setup({
     },
     waiting: {
       after: {
-        [POLLING_DELAY]: {
+        pollingDelay: {
           target: "fetchingLiveSaleData",
         },
       },
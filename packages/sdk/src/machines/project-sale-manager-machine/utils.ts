@@ -2,9 +2,24 @@ import { Snapshot, createActor } from "xstate";
 import { projectSaleManagerMachine, ProjectSaleManagerMachineContext } from ".";
 import { graphql } from "../../generated/index";
 import { GetProjectDetailsQuery } from "../../generated/graphql";
-import { isRAMMinterType, isSupportedMinterType } from "../utils";
+import {
+  isRAMMinterType,
+  isSEAMinterType,
+  isSupportedMinterType,
+} from "../utils";
 import { ArtBlocksClient } from "../..";
-import { formatEther } from "viem";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  Hex,
+  formatEther,
+  getContract,
+  zeroAddress,
+} from "viem";
+import { iSharedMinterV0Abi } from "../../../abis/iSharedMinterV0Abi";
+import { iGenArt721CoreContractV3BaseAbi } from "../../../abis/iGenArt721CoreContractV3BaseAbi";
+import { minterRAMV0Abi } from "../../../abis/minterRAMV0Abi";
+import { minterSEAV1Abi } from "../../../abis/minterSEAV1Abi";
 
 export class ProjectIneligibleForPrimarySaleError extends Error {
   constructor(message: string) {
@@ -71,14 +86,6 @@ const getProjectDetailsFragmentsDocument = graphql(/* GraphQL */ `
   }
 `);
 
-export const getProjectDetailsDocument = graphql(/* GraphQL */ `
-  query GetProjectDetails($projectId: String!) {
-    projects_metadata_by_pk(id: $projectId) {
-      ...ProjectDetails
-    }
-  }
-`);
-
 /**
  * Stable details relevant to the sale of a project, pulled from Hasura.
  */
@@ -114,8 +121,257 @@ export type LiveSaleData = {
     maxHasBeenInvoked: boolean;
     maxInvocations: bigint;
   };
+  seaMinterAuctionDetails?: SEAMinterAuctionDetails;
+};
+
+/**
+ * Live auction data for projects configured on a serial English auction
+ * (SEA) minter. Token auctions run one at a time, so only the most recent
+ * auction for the project is included.
+ */
+export type SEAMinterAuctionDetails = {
+  // Time at/after which new auctions may be created
+  auctionStartDate: Date;
+  // Duration of each new auction before any extensions due to late bids
+  auctionDurationSeconds: number;
+  // Minimum starting bid for a new token auction
+  basePrice: bigint;
+  // Minimum percentage each bid must exceed the previous bid by
+  minBidIncrementPercentage: number;
+  // Bids placed within this many seconds of the end extend the auction
+  minterTimeBufferSeconds: number;
+  // Whether the minter holds a token ready for the next auction
+  nextTokenIsPopulated: boolean;
+  // Token that a bid should currently target, if any
+  tokenToBid?: bigint;
+  // Most recent auction for the project, undefined if none has been initialized
+  activeAuction?: SEAAuction;
+};
+
+export type SEAAuction = {
+  tokenId: bigint;
+  currentBid: bigint;
+  currentBidder: Hex;
+  endDate: Date;
+  minBidIncrementPercentage: number;
+  settled: boolean;
 };
 
+/**
+ * Fetches the details of a project relevant to its primary sale.
+ *
+ * @param params - The parameters for fetching project details.
+ * @param params.projectId - The ID of the project to fetch.
+ * @param params.artblocksClient - The ArtBlocksClient used for the request.
+ * @returns The details of the project.
+ * @throws {ProjectIneligibleForPrimarySaleError} If no project ID is provided.
+ */
+export async function fetchProjectDetails({
+  projectId,
+  artblocksClient,
+}: {
+  projectId?: string;
+  artblocksClient: ArtBlocksClient;
+}): Promise<NonNullable<ProjectDetails>> {
+  // This is an expected case for non-AB projects so we throw a custom error
+  // and transition to a non-error state.
+  if (!projectId) {
+    throw new ProjectIneligibleForPrimarySaleError(
+      "No Art Blocks project ID provided. Primary sale not available."
+    );
+  }
+
+  const project = await artblocksClient
+    .getDataSource()
+    .getProjectDetails(projectId);
+
+  // We don't expect this to happen, so throw a normal error
+  // instead of a custom one to trigger a transition to the
+  // error state
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  return project;
+}
+
+/**
+ * Fetches live sale data for a project directly from its minter and core
+ * contracts.
+ *
+ * @param params - The parameters for fetching live sale data.
+ * @param params.project - The project to fetch live sale data for.
+ * @param params.artblocksClient - The ArtBlocksClient used for contract reads.
+ * @returns The live sale data for the project.
+ */
+export async function fetchLiveSaleData({
+  project,
+  artblocksClient,
+}: {
+  project: NonNullable<ProjectDetails>;
+  artblocksClient: ArtBlocksClient;
+}): Promise<LiveSaleData> {
+  const publicClient = artblocksClient.getPublicClient();
+
+  if (!publicClient) {
+    throw new Error("Public client is unavailable");
+  }
+
+  if (!project.minter_configuration?.minter) {
+    throw new Error("Project has no minter configured");
+  }
+
+  const projectIndex = BigInt(project.id.split("-")[1]);
+
+  const minterContract = getContract({
+    address: project.minter_configuration.minter.address as Hex,
+    abi: iSharedMinterV0Abi,
+    client: publicClient,
+  });
+
+  const coreContract = getContract({
+    address: project.contract.address as Hex,
+    abi: iGenArt721CoreContractV3BaseAbi,
+    client: publicClient,
+  });
+
+  const [priceInfo, projectStateData] = await Promise.all([
+    minterContract.read.getPriceInfo([projectIndex, coreContract.address]),
+    coreContract.read.projectStateData([projectIndex]),
+  ]);
+
+  const [isConfigured, tokenPriceInWei] = priceInfo;
+
+  const [invocations, maxInvocations, active, paused, completedTimestamp] =
+    projectStateData;
+
+  const liveSaleData: LiveSaleData = {
+    tokenPriceInWei,
+    invocations,
+    maxInvocations,
+    active,
+    paused,
+    completedTimestamp,
+    isConfigured,
+  };
+
+  if (isRAMMinterType(project.minter_configuration.minter.minter_type)) {
+    const ramMinterContract = getContract({
+      address: project.minter_configuration.minter.address as Hex,
+      abi: minterRAMV0Abi,
+      client: publicClient,
+    });
+
+    const [
+      [
+        auctionTimestampStart,
+        auctionTimestampEnd,
+        basePrice,
+        numTokensInAuction,
+        numBids,
+        numBidsMintedTokens,
+        numBidsErrorRefunded,
+        minBidSlotIndex,
+        allowExtraTime,
+        adminArtistOnlyMintPeriodIfSellout,
+        revenuesCollected,
+        projectMinterState,
+      ],
+      { maxHasBeenInvoked, maxInvocations: ramMaxInvocations },
+    ] = await Promise.all([
+      ramMinterContract.read.getAuctionDetails([
+        projectIndex,
+        coreContract.address,
+      ]),
+      ramMinterContract.read.maxInvocationsProjectConfig([
+        projectIndex,
+        coreContract.address,
+      ]),
+    ]);
+
+    let [minNextBidValue, minNextBidSlotIndex]: [bigint, bigint] = [
+      tokenPriceInWei,
+      BigInt(0),
+    ];
+
+    try {
+      [minNextBidValue, minNextBidSlotIndex] =
+        await ramMinterContract.read.getMinimumNextBid([
+          projectIndex,
+          coreContract.address,
+        ]);
+    } catch (error) {
+      // Minimum next bid reverts at the end of the auction. Assume this is the case.
+    }
+
+    liveSaleData.ramMinterAuctionDetails = {
+      auctionStartDate: bigintTimestampToDate(auctionTimestampStart),
+      auctionEndDate: bigintTimestampToDate(auctionTimestampEnd),
+      basePrice,
+      numTokensInAuction,
+      numBids,
+      numBidsMintedTokens,
+      numBidsErrorRefunded,
+      minBidSlotIndex,
+      allowExtraTime,
+      adminArtistOnlyMintPeriodIfSellout,
+      revenuesCollected,
+      projectMinterState:
+        ProjectMinterStateNumberToEnum[projectMinterState as 0 | 1 | 2 | 3 | 4],
+      minNextBidValue,
+      minNextBidSlotIndex,
+      maxHasBeenInvoked,
+      maxInvocations: BigInt(ramMaxInvocations),
+    };
+  }
+
+  if (isSEAMinterType(project.minter_configuration.minter.minter_type)) {
+    const seaMinterContract = getContract({
+      address: project.minter_configuration.minter.address as Hex,
+      abi: minterSEAV1Abi,
+      client: publicClient,
+    });
+
+    const [seaProjectConfig, [, minterTimeBufferSeconds]] = await Promise.all([
+      seaMinterContract.read.SEAProjectConfigurationDetails([
+        projectIndex,
+        coreContract.address,
+      ]),
+      seaMinterContract.read.minterConfigurationDetails(),
+    ]);
+
+    let tokenToBid: bigint | undefined;
+    try {
+      tokenToBid = await seaMinterContract.read.getTokenToBid([
+        projectIndex,
+        coreContract.address,
+      ]);
+    } catch (error) {
+      // Reverts when there is no live auction and the next token has not
+      // been populated. Assume there is currently nothing to bid on.
+      if (
+        !(error instanceof BaseError) ||
+        !error.walk((err) => err instanceof ContractFunctionRevertedError)
+      ) {
+        throw error;
+      }
+    }
+
+    liveSaleData.seaMinterAuctionDetails = {
+      auctionStartDate: bigintTimestampToDate(seaProjectConfig.timestampStart),
+      auctionDurationSeconds: seaProjectConfig.auctionDurationSeconds,
+      basePrice: seaProjectConfig.basePrice,
+      minBidIncrementPercentage: seaProjectConfig.minBidIncrementPercentage,
+      minterTimeBufferSeconds,
+      nextTokenIsPopulated: seaProjectConfig.nextTokenNumberIsPopulated,
+      tokenToBid,
+      activeAuction: parseSEAAuction(seaProjectConfig.activeAuction),
+    };
+  }
+
+  return liveSaleData;
+}
+
 export const PROJECT_MINTER_STATE = {
   PreAuction: "PreAuction",
   LiveAuction: "LiveAuction", // Ram bid flow - all data available
@@ -147,6 +403,11 @@ export const ProjectMinterStateNumberToEnum = {
  * to be able to look up user data, so we don't transition to the complete state.
  * This ensures that user bid information remains accessible even after the
  * auction has ended.
+ *
+ * SEA minters mint each token to the minter before it is auctioned, so the
+ * core contract may report the project as complete while the final token
+ * auctions are still pending. These projects are only considered complete
+ * once no auction remains to be bid on or settled.
  */
 export function isProjectComplete(
   project?: ProjectDetails,
@@ -154,12 +415,33 @@ export function isProjectComplete(
 ): boolean {
   return (
     !isRAMMinterType(project?.minter_configuration?.minter?.minter_type) &&
+    !isSEAAuctionPending(liveSaleData) &&
     Boolean(
       project?.complete || (liveSaleData && liveSaleData.completedTimestamp)
     )
   );
 }
 
+/**
+ * Determines if a SEA project still has a token auction to bid on or settle.
+ *
+ * @param liveSaleData - The live sale data for the project.
+ * @returns A boolean indicating whether a SEA auction is pending.
+ */
+export function isSEAAuctionPending(liveSaleData?: LiveSaleData): boolean {
+  const seaMinterAuctionDetails = liveSaleData?.seaMinterAuctionDetails;
+
+  if (!seaMinterAuctionDetails) {
+    return false;
+  }
+
+  const { nextTokenIsPopulated, activeAuction } = seaMinterAuctionDetails;
+
+  return (
+    nextTokenIsPopulated || Boolean(activeAuction && !activeAuction.settled)
+  );
+}
+
 export function isProjectIneligibleForPrimarySale(
   context: ProjectSaleManagerMachineContext
 ) {
@@ -214,6 +496,11 @@ export function isProjectPurchasable(
     }
   }
 
+  // SEA projects are sold through bidding rather than direct purchase
+  if (liveSaleData.seaMinterAuctionDetails) {
+    return false;
+  }
+
   if (liveSaleData.ramMinterAuctionDetails) {
     const { maxHasBeenInvoked, projectMinterState } =
       liveSaleData.ramMinterAuctionDetails;
@@ -263,6 +550,51 @@ export function isProjectRAMBiddable(
   return true;
 }
 
+export function isProjectSEABiddable(
+  context: ProjectSaleManagerMachineContext
+) {
+  const { artblocksClient, project, liveSaleData } = context;
+  const walletClient = artblocksClient.getWalletClient();
+
+  if (!liveSaleData) {
+    return false;
+  }
+
+  if (!walletClient || !walletClient.account) {
+    return false;
+  }
+
+  if (!project) {
+    return false;
+  }
+
+  if (!liveSaleData.seaMinterAuctionDetails) {
+    return false;
+  }
+
+  if (isProjectIneligibleForPrimarySale(context)) {
+    return false;
+  }
+
+  // If the project is paused, only allow the artist to bid
+  if (
+    liveSaleData.paused &&
+    project.artist_address !== walletClient.account.address.toLowerCase()
+  ) {
+    return false;
+  }
+
+  const { auctionStartDate, tokenToBid } = liveSaleData.seaMinterAuctionDetails;
+
+  if (auctionStartDate > new Date()) {
+    return false;
+  }
+
+  // A token must be available to bid on, either in a live auction or
+  // waiting in the minter for the next auction
+  return tokenToBid !== undefined;
+}
+
 export function isProjectPostRAM(context: ProjectSaleManagerMachineContext) {
   const { artblocksClient, project, liveSaleData } = context;
   const walletClient = artblocksClient.getWalletClient();
@@ -532,3 +864,33 @@ export function generateMinterDescription(
 export function bigintTimestampToDate(bigintTimestamp: bigint): Date {
   return new Date(Number(bigintTimestamp) * 1000);
 }
+
+/**
+ * Converts an auction returned by a SEA minter into a SEAAuction. Auctions
+ * are only initialized once they receive a bid, so an auction with no bidder
+ * is treated as nonexistent.
+ *
+ * @param auction - The auction struct returned by the minter.
+ * @returns The parsed auction, or undefined if no auction has been initialized.
+ */
+export function parseSEAAuction(auction: {
+  tokenId: bigint;
+  currentBid: bigint;
+  currentBidder: Hex;
+  endTime: bigint;
+  minBidIncrementPercentage: number;
+  settled: boolean;
+}): SEAAuction | undefined {
+  if (auction.currentBidder === zeroAddress) {
+    return undefined;
+  }
+
+  return {
+    tokenId: auction.tokenId,
+    currentBid: auction.currentBid,
+    currentBidder: auction.currentBidder,
+    endDate: bigintTimestampToDate(auction.endTime),
+    minBidIncrementPercentage: auction.minBidIncrementPercentage,
+    settled: auction.settled,
+  };
+}
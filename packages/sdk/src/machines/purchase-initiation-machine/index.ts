@@ -4,6 +4,7 @@ import {
   AnyActorRef,
   assign,
   emit,
+  fromCallback,
   fromPromise,
   setup,
 } from "xstate";
@@ -11,23 +12,16 @@ import { projectSaleManagerMachine } from "../project-sale-manager-machine";
 import {
   getMessageFromError,
   isERC20MinterType,
-  isHolderMinterType,
-  isMerkleMinterType,
-  isRAMMinterType,
   isUserRejectedError,
 } from "../utils";
 import { ProjectDetails } from "../project-sale-manager-machine/utils";
 import {
+  BatchPurchaseTransaction,
   checkERC20Allowance,
-  getERC20Decimals,
-  getHolderMinterUserPurchaseContext,
-  getMerkleMinterUserPurchaseContext,
-  getRAMMinterUserPurchaseContext,
-  initiateBasePurchase,
+  getUserPurchaseContext,
+  initiateBatchPurchase,
   initiateERC20AllowanceApproval,
-  initiateERC20Purchase,
-  initiateHolderMinterPurchase,
-  initiateMerkleMinterPurchase,
+  initiatePurchase,
   isERC20AllowanceSufficient,
 } from "./utils";
 import { ArtBlocksClient } from "../..";
@@ -37,6 +31,9 @@ export type PurchaseInitiationMachineEvents =
   | {
       type: "INITIATE_PURCHASE";
       purchaseToAddress?: Hex;
+      maxPrice?: bigint;
+      // Number of tokens to purchase, defaults to 1
+      quantity?: number;
     }
   | {
       type: "RESET";
@@ -44,8 +41,28 @@ export type PurchaseInitiationMachineEvents =
   | {
       type: "APPROVE_ERC20_ALLOWANCE";
       amount: bigint;
+    }
+  | {
+      type: "SELECT_POLYPTYCH_TOKEN";
+      tokenId: string;
+    }
+  | {
+      type: "BATCH_PURCHASE_TRANSACTION_SUBMITTED";
+      transaction: BatchPurchaseTransaction;
+    }
+  | {
+      type: "BATCH_PURCHASE_COMPLETED";
+    }
+  | {
+      type: "BATCH_PURCHASE_FAILED";
+      error: unknown;
     };
 
+export type EligiblePolyptychToken = {
+  id: string;
+  ownerAddress: Hex;
+};
+
 type AdditionalPurchaseData = {
   allowlist?: Hex[];
   decimals?: number;
@@ -53,6 +70,9 @@ type AdditionalPurchaseData = {
   vaultAddress?: Hex;
   erc20Allowance?: bigint;
   userBids?: Array<BidDetailsFragment>;
+  eligiblePolyptychTokens?: Array<EligiblePolyptychToken>;
+  // Remaining mints for the purchasing address on minters with per-address limits
+  remainingMintsForAddress?: bigint;
 };
 
 export type PurchaseInitiationMachineContext = {
@@ -60,6 +80,9 @@ export type PurchaseInitiationMachineContext = {
   project: NonNullable<ProjectDetails>;
   projectSaleManagerMachine: AnyActorRef; // This is necessary to avoid circular dependencies
   purchaseToAddress?: Hex;
+  maxPrice?: bigint;
+  purchaseQuantity?: number;
+  batchPurchaseTransactions?: Array<BatchPurchaseTransaction>;
   errorMessage?: string;
   additionalPurchaseData?: AdditionalPurchaseData;
   userIneligibilityReason?: string;
@@ -99,7 +122,12 @@ export type UserPurchaseContext =
  * it determines the user's eligibility to make a purchase and retrieves any additional
  * context required for the purchase process. This includes checking whether the user
  * is on the allowlist for allowlist-based minters (MerkleMinter) and fetching the
- * necessary data, such as the user's token balance and allowance.
+ * necessary data, such as the user's token balance and allowance. For
+ * polyptych minters, this step lists the tokens from the previous panel that
+ * the user (or one of their delegate.xyz vaults) owns and that have not yet
+ * been used to mint the current panel. The first eligible token is selected
+ * by default, and a different one can be selected by sending the
+ * 'SELECT_POLYPTYCH_TOKEN' event while in the 'readyForPurchase' state.
  *
  * If the user is eligible for the purchase, the machine transitions to the
  * 'readyForPurchase' state, indicating that it is prepared to initiate the purchase
@@ -112,7 +140,22 @@ export type UserPurchaseContext =
  * interacts with the appropriate minter contract (e.g., SharedMinterSimplePurchase or
  * SharedMinterMerkle) based on the project's minter type. It prepares the necessary
  * transaction parameters, such as the purchase price and any required proofs, and
- * submits the purchase transaction to the blockchain.
+ * submits the purchase transaction to the blockchain. The 'INITIATE_PURCHASE' event
+ * can include a user-approved 'maxPrice'. When provided, the minter's current price is
+ * read immediately before submission and the purchase fails with a
+ * PurchasePriceExceedsMaxPriceError if it is above that cap, which protects purchases
+ * from Dutch auctions whose price has moved since the last poll.
+ *
+ * For fixed price minters (SetPrice and MinPrice, including their allowlist variants),
+ * the 'INITIATE_PURCHASE' event can include a 'quantity' to purchase several tokens in
+ * one flow. The machine transitions to the 'initiatingBatchPurchase' state, which sends
+ * every purchase as a single EIP-5792 batch of calls when the wallet supports atomic
+ * batching, or otherwise submits one transaction per token in sequence. The quantity
+ * is limited by the project's remaining invocations and any per-address mint limit.
+ * Each submitted transaction is added to 'batchPurchaseTransactions' and sent to the
+ * PurchaseTrackingManagerMachine, which tracks every token it mints. If a sequential
+ * batch fails after some purchases were submitted, the machine still moves to the
+ * 'purchaseInitiated' state with the reason recorded in 'errorMessage'.
  *
  * If the purchase transaction is successful, the machine sends the transaction hash to
  * the PurchaseTrackingManagerMachine (via the ProjectSaleManagerMachine) for further
@@ -154,57 +197,7 @@ export const purchaseInitiationMachine = setup({
           "artblocksClient" | "project" | "projectSaleManagerMachine"
         >;
       }): Promise<UserPurchaseContext> => {
-        const { artblocksClient, project } = input;
-        const publicClient = artblocksClient.getPublicClient();
-        const walletClient = artblocksClient.getWalletClient();
-
-        if (!publicClient) {
-          throw new Error("Public client unavailable");
-        }
-
-        // This shouldn't happen but is necessary for type checking
-        if (!walletClient?.account) {
-          throw new Error("Wallet client not connected");
-        }
-
-        if (
-          isMerkleMinterType(project.minter_configuration?.minter?.minter_type)
-        ) {
-          return await getMerkleMinterUserPurchaseContext(input);
-        }
-
-        if (
-          isHolderMinterType(project.minter_configuration?.minter?.minter_type)
-        ) {
-          return await getHolderMinterUserPurchaseContext(input);
-        }
-
-        if (
-          isERC20MinterType(project.minter_configuration?.minter?.minter_type)
-        ) {
-          const [decimals, erc20Allowance] = await Promise.all([
-            getERC20Decimals(input),
-            checkERC20Allowance(input),
-          ]);
-
-          return {
-            isEligible: true,
-            additionalPurchaseData: {
-              decimals,
-              erc20Allowance,
-            },
-          };
-        }
-
-        if (
-          isRAMMinterType(project.minter_configuration?.minter?.minter_type)
-        ) {
-          return await getRAMMinterUserPurchaseContext(input);
-        }
-
-        return {
-          isEligible: true,
-        };
+        return await getUserPurchaseContext(input);
       }
     ),
     initiatePurchase: fromPromise(
@@ -217,32 +210,56 @@ export const purchaseInitiationMachine = setup({
           | "project"
           | "projectSaleManagerMachine"
           | "purchaseToAddress"
+          | "maxPrice"
           | "additionalPurchaseData"
         >;
       }): Promise<Hex> => {
-        const { project } = input;
-
-        if (
-          isMerkleMinterType(project.minter_configuration?.minter?.minter_type)
-        ) {
-          return await initiateMerkleMinterPurchase(input);
-        }
-
-        if (
-          isHolderMinterType(project.minter_configuration?.minter?.minter_type)
-        ) {
-          return await initiateHolderMinterPurchase(input);
-        }
-
-        if (
-          isERC20MinterType(project.minter_configuration?.minter?.minter_type)
-        ) {
-          return await initiateERC20Purchase(input);
-        }
+        const liveSaleData = (
+          input.projectSaleManagerMachine as ActorRefFrom<
+            typeof projectSaleManagerMachine
+          >
+        ).getSnapshot().context.liveSaleData;
 
-        return await initiateBasePurchase(input);
+        return await initiatePurchase({ ...input, liveSaleData });
       }
     ),
+    initiateBatchPurchase: fromCallback<
+      PurchaseInitiationMachineEvents,
+      Pick<
+        PurchaseInitiationMachineContext,
+        | "artblocksClient"
+        | "project"
+        | "projectSaleManagerMachine"
+        | "purchaseToAddress"
+        | "maxPrice"
+        | "purchaseQuantity"
+        | "additionalPurchaseData"
+      >
+    >(({ sendBack, input }) => {
+      const liveSaleData = (
+        input.projectSaleManagerMachine as ActorRefFrom<
+          typeof projectSaleManagerMachine
+        >
+      ).getSnapshot().context.liveSaleData;
+      const abortController = new AbortController();
+
+      initiateBatchPurchase({
+        ...input,
+        liveSaleData,
+        quantity: input.purchaseQuantity ?? 1,
+        signal: abortController.signal,
+        onTransactionSubmitted: (transaction) => {
+          sendBack({
+            type: "BATCH_PURCHASE_TRANSACTION_SUBMITTED",
+            transaction,
+          });
+        },
+      })
+        .then(() => sendBack({ type: "BATCH_PURCHASE_COMPLETED" }))
+        .catch((error) => sendBack({ type: "BATCH_PURCHASE_FAILED", error }));
+
+      return () => abortController.abort();
+    }),
     checkERC20Allowance: fromPromise(
       async ({
         input,
@@ -298,6 +315,18 @@ export const purchaseInitiationMachine = setup({
       purchaseToAddress: (_, params: { purchaseToAddress?: Hex }) =>
         params.purchaseToAddress,
     }),
+    assignMaxPrice: assign({
+      maxPrice: (_, params: { maxPrice?: bigint }) => params.maxPrice,
+    }),
+    assignPurchaseQuantity: assign({
+      purchaseQuantity: (_, params: { quantity?: number }) => params.quantity,
+    }),
+    appendBatchPurchaseTransaction: assign({
+      batchPurchaseTransactions: (
+        { context },
+        params: { transaction: BatchPurchaseTransaction }
+      ) => [...(context.batchPurchaseTransactions ?? []), params.transaction],
+    }),
     assignErrorMessageFromError: assign({
       errorMessage: (
         _,
@@ -313,12 +342,15 @@ export const purchaseInitiationMachine = setup({
     resetPurchaseContext: assign({
       additionalPurchaseData: undefined,
       purchaseToAddress: undefined,
+      maxPrice: undefined,
+      purchaseQuantity: undefined,
+      batchPurchaseTransactions: undefined,
       errorMessage: undefined,
       initiatedTxHash: undefined,
     }),
     sendTransactionHashToPurchaseTrackingManagerMachine: (
       { context },
-      params: { txHash: Hex }
+      params: { txHash: Hex; mintCount?: number }
     ) => {
       const purchaseTrackingManagerMachine = (
         context.projectSaleManagerMachine as ActorRefFrom<
@@ -333,6 +365,7 @@ export const purchaseInitiationMachine = setup({
       purchaseTrackingManagerMachine.send({
         type: "PURCHASE_INITIATED",
         txHash: params.txHash,
+        mintCount: params.mintCount,
       });
     },
     assignAdditionalPurchaseData: assign({
@@ -341,6 +374,26 @@ export const purchaseInitiationMachine = setup({
         params: { additionalPurchaseData?: AdditionalPurchaseData }
       ) => params.additionalPurchaseData,
     }),
+    assignSelectedPolyptychToken: assign({
+      additionalPurchaseData: ({ context }, params: { tokenId: string }) => {
+        const token =
+          context.additionalPurchaseData?.eligiblePolyptychTokens?.find(
+            (token) => token.id === params.tokenId
+          );
+        const walletAddress =
+          context.artblocksClient.getWalletClient()?.account?.address;
+
+        return {
+          ...context.additionalPurchaseData,
+          allowedTokenId: token?.id,
+          vaultAddress:
+            token &&
+            token.ownerAddress.toLowerCase() !== walletAddress?.toLowerCase()
+              ? token.ownerAddress
+              : undefined,
+        };
+      },
+    }),
     assignUserIneligibilityReason: assign({
       userIneligibilityReason: (
         _,
@@ -366,12 +419,28 @@ export const purchaseInitiationMachine = setup({
     isUserRejectedError: (_, { error }: { error: unknown }) => {
       return isUserRejectedError(error);
     },
+    isBatchPurchase: (_, { quantity }: { quantity?: number }) => {
+      return (quantity ?? 1) > 1;
+    },
+    hasBatchPurchaseTransactions: ({ context }) => {
+      return Boolean(context.batchPurchaseTransactions?.length);
+    },
     isUserEligibleForPurchase: (
       _,
       { userPurchaseContext }: { userPurchaseContext: UserPurchaseContext }
     ) => {
       return userPurchaseContext.isEligible;
     },
+    isEligiblePolyptychToken: (
+      { context },
+      { tokenId }: { tokenId: string }
+    ) => {
+      return Boolean(
+        context.additionalPurchaseData?.eligiblePolyptychTokens?.some(
+          (token) => token.id === tokenId
+        )
+      );
+    },
     isERC20MinterType: ({ context }) => {
       return isERC20MinterType(
         context.project.minter_configuration?.minter?.minter_type
@@ -453,15 +522,66 @@ export const purchaseInitiationMachine = setup({
     },
     readyForPurchase: {
       on: {
+        SELECT_POLYPTYCH_TOKEN: {
+          actions: {
+            type: "assignSelectedPolyptychToken",
+            params: ({ event }) => ({
+              tokenId: event.tokenId,
+            }),
+          },
+          guard: {
+            type: "isEligiblePolyptychToken",
+            params: ({ event }) => ({
+              tokenId: event.tokenId,
+            }),
+          },
+        },
         INITIATE_PURCHASE: [
           {
-            target: "initiatingPurchase",
-            actions: {
-              type: "assignPurchaseToAddress",
+            target: "initiatingBatchPurchase",
+            actions: [
+              {
+                type: "assignPurchaseToAddress",
+                params: ({ event }) => ({
+                  purchaseToAddress: event.purchaseToAddress,
+                }),
+              },
+              {
+                type: "assignMaxPrice",
+                params: ({ event }) => ({
+                  maxPrice: event.maxPrice,
+                }),
+              },
+              {
+                type: "assignPurchaseQuantity",
+                params: ({ event }) => ({
+                  quantity: event.quantity,
+                }),
+              },
+            ],
+            guard: {
+              type: "isBatchPurchase",
               params: ({ event }) => ({
-                purchaseToAddress: event.purchaseToAddress,
+                quantity: event.quantity,
               }),
             },
+          },
+          {
+            target: "initiatingPurchase",
+            actions: [
+              {
+                type: "assignPurchaseToAddress",
+                params: ({ event }) => ({
+                  purchaseToAddress: event.purchaseToAddress,
+                }),
+              },
+              {
+                type: "assignMaxPrice",
+                params: ({ event }) => ({
+                  maxPrice: event.maxPrice,
+                }),
+              },
+            ],
             guard: {
               type: "isERC20AllowanceSufficient",
               params: ({ context }) => ({
@@ -471,12 +591,20 @@ export const purchaseInitiationMachine = setup({
           },
           {
             target: "awaitingERC20AllowanceApprovalAmount",
-            actions: {
-              type: "assignPurchaseToAddress",
-              params: ({ event }) => ({
-                purchaseToAddress: event.purchaseToAddress,
-              }),
-            },
+            actions: [
+              {
+                type: "assignPurchaseToAddress",
+                params: ({ event }) => ({
+                  purchaseToAddress: event.purchaseToAddress,
+                }),
+              },
+              {
+                type: "assignMaxPrice",
+                params: ({ event }) => ({
+                  maxPrice: event.maxPrice,
+                }),
+              },
+            ],
           },
         ],
       },
@@ -586,6 +714,7 @@ export const purchaseInitiationMachine = setup({
           artblocksClient: context.artblocksClient,
           project: context.project,
           purchaseToAddress: context.purchaseToAddress,
+          maxPrice: context.maxPrice,
           projectSaleManagerMachine: context.projectSaleManagerMachine,
           additionalPurchaseData: context.additionalPurchaseData,
         }),
@@ -636,6 +765,86 @@ export const purchaseInitiationMachine = setup({
         ],
       },
     },
+    initiatingBatchPurchase: {
+      invoke: {
+        src: "initiateBatchPurchase",
+        input: ({ context }) => ({
+          artblocksClient: context.artblocksClient,
+          project: context.project,
+          purchaseToAddress: context.purchaseToAddress,
+          maxPrice: context.maxPrice,
+          purchaseQuantity: context.purchaseQuantity,
+          projectSaleManagerMachine: context.projectSaleManagerMachine,
+          additionalPurchaseData: context.additionalPurchaseData,
+        }),
+      },
+      on: {
+        BATCH_PURCHASE_TRANSACTION_SUBMITTED: {
+          actions: [
+            {
+              type: "appendBatchPurchaseTransaction",
+              params: ({ event }) => ({
+                transaction: event.transaction,
+              }),
+            },
+            {
+              type: "assignInitiatedTxHash",
+              params: ({ event }) => ({
+                txHash: event.transaction.txHash,
+              }),
+            },
+            {
+              type: "sendTransactionHashToPurchaseTrackingManagerMachine",
+              params: ({ event }) => ({
+                txHash: event.transaction.txHash,
+                mintCount: event.transaction.mintCount,
+              }),
+            },
+            {
+              type: "emitPurchaseInitiatedEvent",
+              params: ({ event }) => ({
+                txHash: event.transaction.txHash,
+              }),
+            },
+          ],
+        },
+        BATCH_PURCHASE_COMPLETED: {
+          target: "purchaseInitiated",
+        },
+        BATCH_PURCHASE_FAILED: [
+          {
+            // Some purchases were submitted before the failure, so keep
+            // tracking them and surface the reason the rest were not
+            target: "purchaseInitiated",
+            actions: {
+              type: "assignErrorMessageFromError",
+              params: ({ event }) => ({
+                error: event.error,
+              }),
+            },
+            guard: "hasBatchPurchaseTransactions",
+          },
+          {
+            target: "readyForPurchase",
+            guard: {
+              type: "isUserRejectedError",
+              params: ({ event }) => ({
+                error: event.error,
+              }),
+            },
+          },
+          {
+            target: "error",
+            actions: {
+              type: "assignErrorMessageFromError",
+              params: ({ event }) => ({
+                error: event.error,
+              }),
+            },
+          },
+        ],
+      },
+    },
     purchaseInitiated: {
       on: {
         RESET: {
@@ -0,0 +1,532 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { Hex, zeroAddress } from "viem";
+import { ArtBlocksClient } from "../..";
+import {
+  InitiatePurchaseInput,
+  getPolyptychMinterUserPurchaseContext,
+  initiatePolyptychERC20MinterPurchase,
+  initiatePolyptychMinterPurchase,
+  initiatePurchase,
+} from "./utils";
+import { PurchasePriceExceedsMaxPriceError } from "../../purchase/errors";
+import {
+  DELEGATION_REGISTRY_VERSION,
+  DELEGATION_SCOPE,
+  Delegation,
+  getDelegations,
+} from "../../purchase/delegation";
+
+jest.mock("../utils", () => ({
+  getCoreContractAddressAndProjectIndexFromProjectId: (projectId: string) => {
+    const [coreContractAddress, projectIndex] = projectId.split("-");
+    return { coreContractAddress, projectIndex: BigInt(projectIndex) };
+  },
+  isPolyptychMinterType: (minterType: string) =>
+    minterType === "MinterSetPricePolyptychV5" ||
+    minterType === "MinterSetPricePolyptychERC20V5",
+  isERC20MinterType: (minterType: string) =>
+    minterType === "MinterSetPricePolyptychERC20V5",
+  isBatchPurchaseMinterType: jest.fn(),
+  isHolderMinterType: jest.fn(),
+  isMerkleMinterType: jest.fn(),
+  isRAMMinterType: jest.fn(),
+}));
+jest.mock("../../purchase/delegation", () => ({
+  ...jest.requireActual<object>("../../purchase/delegation"),
+  getDelegations: jest.fn(),
+}));
+
+const USER_ADDRESS: Hex = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const VAULT_ADDRESS: Hex = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const CORE_ADDRESS: Hex = "0x99a9b7c1116f9ceeb1652de04d5969cce509b069";
+const OTHER_ADDRESS: Hex = "0xa7d8d9ef8d8ce8992df33d8b8cf4aebabd5bd270";
+const MINTER_ADDRESS: Hex = "0xa2ccfe293bc2cdd78d8166a82d1e18cd2148122b";
+const DELEGATION_REGISTRY_ADDRESS: Hex =
+  "0x00000000000076a84fef008cdabe6409d2fe638b";
+const CURRENCY_ADDRESS: Hex = "0x6b175474e89094c44da98b954eedeac495271d0f";
+const TX_HASH: Hex = "0x1234";
+const PANEL_ID = BigInt(1);
+const ZERO_HASH_SEED = "0x000000000000000000000000";
+
+// Tokens of the previous panel (project 2) of the polyptych (project 3)
+const PROJECT_ID = `${CORE_ADDRESS}-3`;
+const PREVIOUS_PANEL_PROJECT_ID = `${CORE_ADDRESS}-2`;
+const getTokenId = (tokenNumber: number) =>
+  `${CORE_ADDRESS}-${2_000_000 + tokenNumber}`;
+
+const createProject = (minterType = "MinterSetPricePolyptychV5") =>
+  ({
+    id: PROJECT_ID,
+    minter_configuration: {
+      base_price: "1000",
+      currency_address: CURRENCY_ADDRESS,
+      extra_minter_details: {
+        allowlistedAddressAndProjectId: [PREVIOUS_PANEL_PROJECT_ID],
+      },
+      minter: {
+        address: MINTER_ADDRESS,
+        minter_type: minterType,
+      },
+    },
+  }) as unknown as InitiatePurchaseInput["project"];
+
+describe("polyptych minter purchases", () => {
+  let ownedTokens: Array<{ id: string; owner_address: string }>;
+  let hashSeeds: Record<string, Hex | Error>;
+  let mintedHashSeeds: Hex[];
+  let allowedProjectHolders: string[];
+  let currentTokenPrice: bigint;
+  let getTokensOwnedBy: jest.Mock;
+  let readContract: jest.Mock;
+  let simulateContract: jest.Mock;
+  let writeContract: jest.Mock;
+  let artblocksClient: ArtBlocksClient;
+
+  beforeEach(() => {
+    ownedTokens = [];
+    hashSeeds = {};
+    mintedHashSeeds = [];
+    allowedProjectHolders = [PREVIOUS_PANEL_PROJECT_ID];
+    currentTokenPrice = BigInt(1000);
+    (getDelegations as jest.Mock).mockResolvedValue([]);
+
+    getTokensOwnedBy = jest.fn(async () => ownedTokens);
+    readContract = jest.fn(
+      async ({
+        address,
+        functionName,
+        args,
+      }: {
+        address: Hex;
+        functionName: string;
+        args: readonly unknown[];
+      }) => {
+        switch (functionName) {
+          case "delegationRegistryAddress":
+            return DELEGATION_REGISTRY_ADDRESS;
+          case "getCurrentPolyptychPanelId":
+            return PANEL_ID;
+          case "allowedProjectHolders":
+            return allowedProjectHolders.includes(`${args[2]}-${args[3]}`);
+          case "tokenIdToHashSeed": {
+            const hashSeed = hashSeeds[`${address}-${args[0]}`];
+            if (!hashSeed || hashSeed instanceof Error) {
+              throw hashSeed ?? new Error("execution reverted");
+            }
+            return hashSeed;
+          }
+          case "getPolyptychPanelHashSeedIsMinted":
+            return mintedHashSeeds.includes(args[3] as Hex);
+          case "getPriceInfo":
+            return [true, currentTokenPrice, "ETH", zeroAddress];
+          default:
+            throw new Error(`Unexpected read of ${functionName}`);
+        }
+      }
+    );
+    simulateContract = jest.fn(async (request) => ({ request }));
+    writeContract = jest.fn(async () => TX_HASH);
+
+    artblocksClient = {
+      getPublicClient: () => ({ readContract, simulateContract }),
+      getWalletClient: () => ({
+        account: { address: USER_ADDRESS },
+        writeContract,
+      }),
+      getDataSource: () => ({ getTokensOwnedBy }),
+      switchWalletChain: jest.fn(),
+    } as unknown as ArtBlocksClient;
+  });
+
+  const ownToken = (
+    tokenNumber: number,
+    {
+      ownerAddress = USER_ADDRESS,
+      hashSeed = `0x${tokenNumber.toString(16).padStart(24, "0")}` as Hex,
+    }: { ownerAddress?: Hex; hashSeed?: Hex | Error } = {}
+  ) => {
+    const id = getTokenId(tokenNumber);
+    ownedTokens.push({ id, owner_address: ownerAddress.toLowerCase() });
+    hashSeeds[id] = hashSeed;
+    return { id, hashSeed };
+  };
+
+  describe("getPolyptychMinterUserPurchaseContext", () => {
+    it("is ineligible when the user owns no tokens of allowed projects", async () => {
+      const context = await getPolyptychMinterUserPurchaseContext({
+        artblocksClient,
+        project: createProject(),
+      });
+
+      expect(context.isEligible).toBe(false);
+      expect(getTokensOwnedBy).toHaveBeenCalledWith({
+        projectIds: [PREVIOUS_PANEL_PROJECT_ID],
+        ownerAddresses: [USER_ADDRESS.toLowerCase()],
+      });
+    });
+
+    it("only uses tokens of projects still allowed on-chain", async () => {
+      ownToken(1);
+      allowedProjectHolders = [];
+
+      const context = await getPolyptychMinterUserPurchaseContext({
+        artblocksClient,
+        project: createProject(),
+      });
+
+      expect(context).toEqual({
+        isEligible: false,
+        ineligibilityReason: expect.stringContaining("already been used"),
+      });
+      expect(readContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "allowedProjectHolders",
+          args: [BigInt(3), CORE_ADDRESS, CORE_ADDRESS, BigInt(2)],
+        })
+      );
+    });
+
+    it("excludes tokens without a hash seed or whose hash seed was already minted on the current panel", async () => {
+      const mintedToken = ownToken(1);
+      mintedHashSeeds = [mintedToken.hashSeed as Hex];
+      ownToken(2, { hashSeed: ZERO_HASH_SEED });
+      // core contracts before V3 don't expose token hash seeds
+      ownToken(3, { hashSeed: new Error("execution reverted") });
+      const eligibleToken = ownToken(4);
+
+      const context = await getPolyptychMinterUserPurchaseContext({
+        artblocksClient,
+        project: createProject(),
+      });
+
+      expect(context).toEqual({
+        isEligible: true,
+        additionalPurchaseData: {
+          eligiblePolyptychTokens: [
+            { id: eligibleToken.id, ownerAddress: USER_ADDRESS.toLowerCase() },
+          ],
+          allowedTokenId: eligibleToken.id,
+          vaultAddress: undefined,
+        },
+      });
+      expect(readContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "getPolyptychPanelHashSeedIsMinted",
+          args: [BigInt(3), CORE_ADDRESS, PANEL_ID, mintedToken.hashSeed],
+        })
+      );
+    });
+
+    it("is ineligible when every token's hash seed was already minted on the current panel", async () => {
+      mintedHashSeeds = [
+        ownToken(1).hashSeed as Hex,
+        ownToken(2).hashSeed as Hex,
+      ];
+
+      const context = await getPolyptychMinterUserPurchaseContext({
+        artblocksClient,
+        project: createProject(),
+      });
+
+      expect(context.isEligible).toBe(false);
+    });
+
+    it("uses tokens held in delegated vaults after the user's own tokens", async () => {
+      const delegation: Delegation = {
+        registryVersion: DELEGATION_REGISTRY_VERSION.V1,
+        registryAddress: DELEGATION_REGISTRY_ADDRESS,
+        scope: DELEGATION_SCOPE.Contract,
+        vault: VAULT_ADDRESS,
+        contract: CORE_ADDRESS,
+      };
+      (getDelegations as jest.Mock).mockResolvedValue([delegation]);
+      const vaultToken = ownToken(1, { ownerAddress: VAULT_ADDRESS });
+      const userToken = ownToken(2);
+      // tokens of vaults that did not delegate to the user can't be used
+      ownToken(3, { ownerAddress: OTHER_ADDRESS });
+
+      const context = await getPolyptychMinterUserPurchaseContext({
+        artblocksClient,
+        project: createProject(),
+      });
+
+      expect(getTokensOwnedBy).toHaveBeenCalledWith({
+        projectIds: [PREVIOUS_PANEL_PROJECT_ID],
+        ownerAddresses: [
+          USER_ADDRESS.toLowerCase(),
+          VAULT_ADDRESS.toLowerCase(),
+        ],
+      });
+      expect(context).toEqual({
+        isEligible: true,
+        additionalPurchaseData: {
+          eligiblePolyptychTokens: [
+            { id: userToken.id, ownerAddress: USER_ADDRESS.toLowerCase() },
+            { id: vaultToken.id, ownerAddress: VAULT_ADDRESS.toLowerCase() },
+          ],
+          allowedTokenId: userToken.id,
+          vaultAddress: undefined,
+        },
+      });
+    });
+
+    it("sets the vault address when only a vault token is eligible", async () => {
+      (getDelegations as jest.Mock).mockResolvedValue([
+        {
+          registryVersion: DELEGATION_REGISTRY_VERSION.V1,
+          registryAddress: DELEGATION_REGISTRY_ADDRESS,
+          scope: DELEGATION_SCOPE.Wallet,
+          vault: VAULT_ADDRESS,
+        },
+      ]);
+      const vaultToken = ownToken(1, { ownerAddress: VAULT_ADDRESS });
+
+      const context = await getPolyptychMinterUserPurchaseContext({
+        artblocksClient,
+        project: createProject(),
+      });
+
+      expect(context).toEqual(
+        expect.objectContaining({
+          isEligible: true,
+          additionalPurchaseData: expect.objectContaining({
+            allowedTokenId: vaultToken.id,
+            vaultAddress: VAULT_ADDRESS.toLowerCase(),
+          }),
+        })
+      );
+    });
+
+    it("throws for projects without a polyptych minter", async () => {
+      await expect(
+        getPolyptychMinterUserPurchaseContext({
+          artblocksClient,
+          project: createProject("MinterSetPriceV5"),
+        })
+      ).rejects.toThrow("Project is not a polyptych minter");
+    });
+  });
+
+  describe("initiatePolyptychMinterPurchase", () => {
+    const liveSaleData = {
+      tokenPriceInWei: BigInt(1000),
+    } as InitiatePurchaseInput["liveSaleData"];
+    const allowedTokenId = getTokenId(1);
+
+    it("purchases with the allowed token, paying the token price", async () => {
+      const txHash = await initiatePolyptychMinterPurchase({
+        artblocksClient,
+        project: createProject(),
+        liveSaleData,
+        additionalPurchaseData: { allowedTokenId },
+      });
+
+      expect(txHash).toBe(TX_HASH);
+      expect(simulateContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: MINTER_ADDRESS,
+          functionName: "purchase",
+          args: [BigInt(3), CORE_ADDRESS, CORE_ADDRESS, BigInt(2_000_001)],
+          value: BigInt(1000),
+        })
+      );
+      expect(writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({ functionName: "purchase" })
+      );
+    });
+
+    it("purchases to the recipient with the vault holding the allowed token", async () => {
+      await initiatePolyptychMinterPurchase({
+        artblocksClient,
+        project: createProject(),
+        liveSaleData,
+        additionalPurchaseData: { allowedTokenId, vaultAddress: VAULT_ADDRESS },
+      });
+
+      expect(simulateContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "purchaseTo",
+          args: [
+            USER_ADDRESS,
+            BigInt(3),
+            CORE_ADDRESS,
+            CORE_ADDRESS,
+            BigInt(2_000_001),
+            VAULT_ADDRESS,
+          ],
+          value: BigInt(1000),
+        })
+      );
+    });
+
+    it("purchases to another address without a vault", async () => {
+      await initiatePolyptychMinterPurchase({
+        artblocksClient,
+        project: createProject(),
+        liveSaleData,
+        purchaseToAddress: VAULT_ADDRESS,
+        additionalPurchaseData: { allowedTokenId },
+      });
+
+      expect(simulateContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "purchaseTo",
+          args: [
+            VAULT_ADDRESS,
+            BigInt(3),
+            CORE_ADDRESS,
+            CORE_ADDRESS,
+            BigInt(2_000_001),
+            zeroAddress,
+          ],
+        })
+      );
+    });
+
+    it("throws without an eligible token", async () => {
+      await expect(
+        initiatePolyptychMinterPurchase({
+          artblocksClient,
+          project: createProject(),
+          liveSaleData,
+        })
+      ).rejects.toThrow("User has no eligible token for this polyptych panel");
+      expect(writeContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("initiatePolyptychERC20MinterPurchase", () => {
+    const allowedTokenId = getTokenId(1);
+
+    it("purchases with the allowed token, capping the price at the base price", async () => {
+      const txHash = await initiatePolyptychERC20MinterPurchase({
+        artblocksClient,
+        project: createProject("MinterSetPricePolyptychERC20V5"),
+        additionalPurchaseData: { allowedTokenId },
+      });
+
+      expect(txHash).toBe(TX_HASH);
+      expect(simulateContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "purchase",
+          args: [
+            BigInt(3),
+            CORE_ADDRESS,
+            BigInt(1000),
+            CURRENCY_ADDRESS,
+            CORE_ADDRESS,
+            BigInt(2_000_001),
+          ],
+        })
+      );
+      expect(simulateContract.mock.calls[0][0]).not.toHaveProperty("value");
+    });
+
+    it("purchases to the recipient with the vault and max price", async () => {
+      await initiatePolyptychERC20MinterPurchase({
+        artblocksClient,
+        project: createProject("MinterSetPricePolyptychERC20V5"),
+        maxPrice: BigInt(1200),
+        additionalPurchaseData: { allowedTokenId, vaultAddress: VAULT_ADDRESS },
+      });
+
+      expect(simulateContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "purchaseTo",
+          args: [
+            USER_ADDRESS,
+            BigInt(3),
+            CORE_ADDRESS,
+            BigInt(1200),
+            CURRENCY_ADDRESS,
+            CORE_ADDRESS,
+            BigInt(2_000_001),
+            VAULT_ADDRESS,
+          ],
+        })
+      );
+    });
+
+    it("throws for polyptych minters that are not ERC-20 minters", async () => {
+      await expect(
+        initiatePolyptychERC20MinterPurchase({
+          artblocksClient,
+          project: createProject(),
+          additionalPurchaseData: { allowedTokenId },
+        })
+      ).rejects.toThrow("Project is not a polyptych ERC-20 minter");
+    });
+  });
+
+  describe("initiatePurchase with a maximum price", () => {
+    // The live sale data price polled before the user confirmed the purchase
+    const liveSaleData = {
+      tokenPriceInWei: BigInt(900),
+    } as InitiatePurchaseInput["liveSaleData"];
+    const purchaseWithMaxPrice = (maxPrice?: bigint) =>
+      initiatePurchase({
+        artblocksClient,
+        project: createProject("MinterSetPriceV5"),
+        liveSaleData,
+        maxPrice,
+      });
+
+    it("throws without purchasing when the current price is above the maximum price", async () => {
+      const purchase = purchaseWithMaxPrice(BigInt(999));
+
+      await expect(purchase).rejects.toThrow(PurchasePriceExceedsMaxPriceError);
+      await expect(purchase).rejects.toMatchObject({
+        tokenPriceInWei: BigInt(1000),
+        maxPrice: BigInt(999),
+      });
+      expect(readContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: MINTER_ADDRESS,
+          functionName: "getPriceInfo",
+          args: [BigInt(3), CORE_ADDRESS],
+        })
+      );
+      expect(simulateContract).not.toHaveBeenCalled();
+      expect(writeContract).not.toHaveBeenCalled();
+    });
+
+    it("purchases at the current price when it equals the maximum price", async () => {
+      const txHash = await purchaseWithMaxPrice(BigInt(1000));
+
+      expect(txHash).toBe(TX_HASH);
+      expect(simulateContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "purchase",
+          value: BigInt(1000),
+        })
+      );
+    });
+
+    it("purchases at the current price rather than the polled price when it is below the maximum price", async () => {
+      const txHash = await purchaseWithMaxPrice(BigInt(2000));
+
+      expect(txHash).toBe(TX_HASH);
+      expect(simulateContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "purchase",
+          value: BigInt(1000),
+        })
+      );
+    });
+
+    it("purchases at the polled price without a maximum price", async () => {
+      const txHash = await purchaseWithMaxPrice();
+
+      expect(txHash).toBe(TX_HASH);
+      expect(readContract).not.toHaveBeenCalledWith(
+        expect.objectContaining({ functionName: "getPriceInfo" })
+      );
+      expect(simulateContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "purchase",
+          value: BigInt(900),
+        })
+      );
+    });
+  });
+});
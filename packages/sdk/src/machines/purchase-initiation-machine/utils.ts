@@ -1,46 +1,79 @@
 import MerkleTree from "merkletreejs";
 import {
   Account,
+  encodeFunctionData,
   erc20Abi,
+  getAbiItem,
   getContract,
   Hex,
   keccak256,
   PublicClient,
+  toEventSelector,
   WalletClient,
   zeroAddress,
 } from "viem";
 import {
+  EligiblePolyptychToken,
   PurchaseInitiationMachineContext,
-  PurchaseInitiationMachineContextWithFullTypes,
   UserPurchaseContext,
 } from ".";
 import { minterSetPriceMerkleV5Abi } from "../../../abis/minterSetPriceMerkleV5Abi";
 import { iSharedMinterSimplePurchaseV0Abi } from "../../../abis/iSharedMinterSimplePurchaseV0Abi";
 import {
   getCoreContractAddressAndProjectIndexFromProjectId,
+  isBatchPurchaseMinterType,
   isERC20MinterType,
   isHolderMinterType,
   isMerkleMinterType,
+  isPolyptychMinterType,
   isRAMMinterType,
 } from "../utils";
-import { graphql } from "../../generated/index";
 import { iSharedMinterHolderV0Abi } from "../../../abis/iSharedMinterHolderV0Abi";
 import {
-  GetUserBidsDocument,
   MinterConfigurationDetailsFragment,
   MinterDetailsFragment,
   ProjectDetailsFragment,
 } from "../../generated/graphql";
 import { LiveSaleData } from "../project-sale-manager-machine/utils";
-import { iDelegationRegistryAbi } from "../../../abis/iDelegationRegistryAbi";
-import { DELEGATION_REGISTRY_ADDRESS } from "../../utils/addresses";
 import { minterSetPriceERC20V5Abi } from "../../../abis/minterSetPriceERC20V5Abi";
+import { minterSetPricePolyptychV5Abi } from "../../../abis/minterSetPricePolyptychV5Abi";
+import { minterSetPricePolyptychERC20V5Abi } from "../../../abis/minterSetPricePolyptychERC20V5Abi";
+import { iGenArt721CoreContractExposesHashSeedAbi } from "../../../abis/iGenArt721CoreContractExposesHashSeedAbi";
+import { AllowlistEntryDoesNotExist } from "../../purchase/allowlist";
+import {
+  DELEGATION_SCOPE,
+  Delegation,
+  getDelegations,
+  isDelegationValidFor,
+} from "../../purchase/delegation";
+import { PurchasePriceExceedsMaxPriceError } from "../../purchase/errors";
+import { iSharedMinterV0Abi } from "../../../abis/iSharedMinterV0Abi";
+import { iGenArt721CoreContractV3BaseAbi } from "../../../abis/iGenArt721CoreContractV3BaseAbi";
 
 /** Shared Helpers **/
 type WalletClientWithAccount = WalletClient & {
   account: Account;
 };
 
+export type UserPurchaseContextInput = Pick<
+  PurchaseInitiationMachineContext,
+  "project" | "artblocksClient"
+> & {
+  // Address to check eligibility for, defaults to the connected wallet account
+  userAddress?: Hex;
+};
+
+export type InitiatePurchaseInput = Pick<
+  PurchaseInitiationMachineContext,
+  | "artblocksClient"
+  | "project"
+  | "purchaseToAddress"
+  | "maxPrice"
+  | "additionalPurchaseData"
+> & {
+  liveSaleData?: LiveSaleData;
+};
+
 type ProjectWithValidMinterConfiguration = ProjectDetailsFragment & {
   minter_configuration: MinterConfigurationDetailsFragment & {
     minter: MinterDetailsFragment;
@@ -63,6 +96,17 @@ function assertWalletClientWithAccount(
   }
 }
 
+function getUserAddress(input: UserPurchaseContextInput): Hex {
+  if (input.userAddress) {
+    return input.userAddress;
+  }
+
+  const walletClient = input.artblocksClient.getWalletClient();
+  assertWalletClientWithAccount(walletClient);
+
+  return walletClient.account.address;
+}
+
 function assertProjectWithValidMinterConfiguration(
   project: ProjectDetailsFragment
 ): asserts project is ProjectWithValidMinterConfiguration {
@@ -80,32 +124,14 @@ function assertLiveSaleData(
 }
 
 /** Token Gated Minter Helpers **/
-const getUserTokensInAllowlistDocument = graphql(/* GraphQL */ `
-  query getUserTokensInAllowlistDocument(
-    $allowedProjectIds: [String!]!
-    $userAddressAndVaults: [String!]!
-  ) {
-    tokens_metadata(
-      where: {
-        project_id: { _in: $allowedProjectIds }
-        owner_address: { _in: $userAddressAndVaults }
-      }
-    ) {
-      id
-      owner_address
-    }
-  }
-`);
-
 export async function getHolderMinterUserPurchaseContext(
-  input: Pick<PurchaseInitiationMachineContext, "project" | "artblocksClient">
+  input: UserPurchaseContextInput
 ): Promise<UserPurchaseContext> {
   const { project, artblocksClient } = input;
-  const walletClient = artblocksClient.getWalletClient();
   const publicClient = artblocksClient.getPublicClient();
+  const userAddress = getUserAddress(input);
 
   assertPublicClientAvailable(publicClient);
-  assertWalletClientWithAccount(walletClient);
   assertProjectWithValidMinterConfiguration(project);
 
   if (!isHolderMinterType(project.minter_configuration?.minter?.minter_type)) {
@@ -120,26 +146,24 @@ export async function getHolderMinterUserPurchaseContext(
     throw new Error("No projects have been allowed for this token gated sale");
   }
 
-  const userVaults = (
-    await getDelegateVaultsForAccount(
-      walletClient.account.address,
-      publicClient
-    )
-  ).map((vault) => vault.toLowerCase());
-  const userAddressAndVaults = [
-    walletClient.account.address.toLowerCase(),
-    ...userVaults,
-  ];
-
-  const userTokensRes = await artblocksClient.graphqlRequest(
-    getUserTokensInAllowlistDocument,
-    {
-      allowedProjectIds,
-      userAddressAndVaults,
-    }
+  const { coreContractAddress } =
+    getCoreContractAddressAndProjectIndexFromProjectId(project.id);
+  const delegations = await getMinterDelegationsForUser(
+    userAddress,
+    publicClient,
+    project
+  );
+  const userAddressAndVaults = getUserAddressAndVaults(
+    userAddress,
+    delegations
   );
 
-  if (userTokensRes.tokens_metadata.length === 0) {
+  const userTokens = await artblocksClient.getDataSource().getTokensOwnedBy({
+    projectIds: allowedProjectIds,
+    ownerAddresses: userAddressAndVaults,
+  });
+
+  if (userTokens.length === 0) {
     return {
       isEligible: false,
       ineligibilityReason:
@@ -149,10 +173,8 @@ export async function getHolderMinterUserPurchaseContext(
 
   // If the user has a token that is allowed for this project, we can proceed
   // with the purchase. No need to specify a vault.
-  const userToken = userTokensRes.tokens_metadata.find(
-    (token) =>
-      token.owner_address.toLowerCase() ===
-      walletClient.account.address.toLowerCase()
+  const userToken = userTokens.find(
+    (token) => token.owner_address.toLowerCase() === userAddress.toLowerCase()
   );
 
   if (userToken) {
@@ -164,10 +186,26 @@ export async function getHolderMinterUserPurchaseContext(
     };
   }
 
-  // If no token was found for the user's address, we can assume that
-  // the user has a token in one of their vaults. Return the first token
-  // in the response and us its owner address as the vault address.
-  const userVaultToken = userTokensRes.tokens_metadata[0];
+  // If no token was found for the user's address, the user has a token in
+  // one of their vaults. Use the first token whose delegation covers it and
+  // its owner address as the vault address.
+  const userVaultToken = userTokens.find((token) =>
+    canUserMintWithToken({
+      userAddress,
+      delegations,
+      coreContractAddress,
+      token: { id: token.id, ownerAddress: token.owner_address as Hex },
+    })
+  );
+
+  if (!userVaultToken) {
+    return {
+      isEligible: false,
+      ineligibilityReason:
+        "Your delegated vaults hold tokens that are allowed for this project, but their delegations to this wallet do not cover them. Please check your delegations on delegate.xyz.",
+    };
+  }
+
   const vaultAddress = userVaultToken.owner_address as Hex;
 
   return {
@@ -179,41 +217,95 @@ export async function getHolderMinterUserPurchaseContext(
   };
 }
 
-async function getDelegateVaultsForAccount(
-  account: Hex,
-  publicClient: PublicClient
+/**
+ * Returns the delegate.xyz delegations of the user that the project's minter
+ * accepts when minting from the project's core contract. Minters only check
+ * the registry they were deployed with, so delegations from other registries
+ * are dropped. Token scoped delegations must still be checked against the
+ * token used to mint.
+ */
+async function getMinterDelegationsForUser(
+  userAddress: Hex,
+  publicClient: PublicClient,
+  project: ProjectWithValidMinterConfiguration
 ) {
-  const contract = getContract({
-    abi: iDelegationRegistryAbi,
-    address: DELEGATION_REGISTRY_ADDRESS,
-    client: publicClient,
-  });
-  const vaults = await contract.read.getDelegationsByDelegate([account]);
+  const { coreContractAddress } =
+    getCoreContractAddressAndProjectIndexFromProjectId(project.id);
+
+  const [minterDelegationRegistryAddress, delegations] = await Promise.all([
+    // All minters that support delegation expose the registry they check
+    publicClient.readContract({
+      address: project.minter_configuration.minter.address as Hex,
+      abi: minterSetPriceMerkleV5Abi,
+      functionName: "delegationRegistryAddress",
+    }),
+    getDelegations(publicClient, userAddress),
+  ]);
+
+  return delegations.filter(
+    (delegation) =>
+      delegation.registryAddress.toLowerCase() ===
+        minterDelegationRegistryAddress.toLowerCase() &&
+      (delegation.scope === DELEGATION_SCOPE.Wallet ||
+        delegation.contract?.toLowerCase() ===
+          coreContractAddress.toLowerCase())
+  );
+}
+
+/**
+ * Returns the lowercased address of the user followed by the lowercased
+ * addresses of any vaults they are a delegate for.
+ */
+function getUserAddressAndVaults(userAddress: Hex, delegations: Delegation[]) {
+  const userVaults = delegations.map((delegation) =>
+    delegation.vault.toLowerCase()
+  );
 
-  return vaults.map((vault) => vault.vault);
+  return Array.from(new Set([userAddress.toLowerCase(), ...userVaults]));
+}
+
+/**
+ * Checks whether the user can mint with a token, either because they own it
+ * or because its owner has delegated it to them. Minters check delegations
+ * for the owned token's id on the core contract being minted from.
+ */
+function canUserMintWithToken({
+  userAddress,
+  delegations,
+  coreContractAddress,
+  token,
+}: {
+  userAddress: Hex;
+  delegations: Delegation[];
+  coreContractAddress: Hex;
+  token: { id: string; ownerAddress: Hex };
+}) {
+  const ownerAddress = token.ownerAddress.toLowerCase();
+
+  if (ownerAddress === userAddress.toLowerCase()) {
+    return true;
+  }
+
+  const [, tokenId] = token.id.split("-");
+
+  return delegations.some(
+    (delegation) =>
+      delegation.vault.toLowerCase() === ownerAddress &&
+      isDelegationValidFor(delegation, {
+        contract: coreContractAddress,
+        tokenId: BigInt(tokenId),
+      })
+  );
 }
 
 export async function initiateHolderMinterPurchase(
-  input: Pick<
-    PurchaseInitiationMachineContextWithFullTypes,
-    | "artblocksClient"
-    | "project"
-    | "projectSaleManagerMachine"
-    | "purchaseToAddress"
-    | "additionalPurchaseData"
-  >
+  input: InitiatePurchaseInput
 ) {
-  const {
-    artblocksClient,
-    project,
-    projectSaleManagerMachine,
-    additionalPurchaseData,
-  } = input;
+  const { artblocksClient, project, liveSaleData, additionalPurchaseData } =
+    input;
 
   const walletClient = artblocksClient.getWalletClient();
   const publicClient = artblocksClient.getPublicClient();
-  const liveSaleData =
-    projectSaleManagerMachine.getSnapshot().context.liveSaleData;
 
   assertPublicClientAvailable(publicClient);
   assertWalletClientWithAccount(walletClient);
@@ -288,6 +380,16 @@ function hashAddress(address: Hex) {
 }
 
 function generateUserMerkleProof(addresses: Hex[], userAddress: Hex): Hex[] {
+  // merkletreejs returns an empty proof for leaves that aren't in the tree, so
+  // check allowlist membership explicitly to surface a meaningful error
+  if (
+    !addresses.some(
+      (address) => address.toLowerCase() === userAddress.toLowerCase()
+    )
+  ) {
+    throw new AllowlistEntryDoesNotExist();
+  }
+
   const merkleTree = new MerkleTree(
     addresses.map((addr) => hashAddress(addr)),
     keccak256,
@@ -300,14 +402,13 @@ function generateUserMerkleProof(addresses: Hex[], userAddress: Hex): Hex[] {
 }
 
 export async function getMerkleMinterUserPurchaseContext(
-  input: Pick<PurchaseInitiationMachineContext, "project" | "artblocksClient">
+  input: UserPurchaseContextInput
 ): Promise<UserPurchaseContext> {
   const { project, artblocksClient } = input;
-  const walletClient = artblocksClient.getWalletClient();
   const publicClient = artblocksClient.getPublicClient();
+  const userAddress = getUserAddress(input);
 
   assertPublicClientAvailable(publicClient);
-  assertWalletClientWithAccount(walletClient);
   assertProjectWithValidMinterConfiguration(project);
 
   if (!isMerkleMinterType(project.minter_configuration?.minter?.minter_type)) {
@@ -325,16 +426,10 @@ export async function getMerkleMinterUserPurchaseContext(
   const { projectIndex, coreContractAddress } =
     getCoreContractAddressAndProjectIndexFromProjectId(project.id);
 
-  const userVaults = (
-    await getDelegateVaultsForAccount(
-      walletClient.account.address,
-      publicClient
-    )
-  ).map((vault) => vault.toLowerCase());
-  const userAddressAndVaults = [
-    walletClient.account.address.toLowerCase(),
-    ...userVaults,
-  ];
+  const userAddressAndVaults = getUserAddressAndVaults(
+    userAddress,
+    await getMinterDelegationsForUser(userAddress, publicClient, project)
+  );
 
   try {
     const allowlistedAddressesRes = await fetch(allowlistedAddressesUrl);
@@ -363,10 +458,7 @@ export async function getMerkleMinterUserPurchaseContext(
     const minterContract = getContract({
       address: project.minter_configuration.minter.address as Hex,
       abi: minterSetPriceMerkleV5Abi,
-      client: {
-        public: publicClient,
-        wallet: walletClient,
-      },
+      client: publicClient,
     });
     const remainingInvocationsPromises = allowlistedUserAddressAndVaults.map(
       async (address) => {
@@ -402,33 +494,46 @@ export async function getMerkleMinterUserPurchaseContext(
     const userHasRemainingMints = remainingInvocationsResults.find(
       ([address, projectLimitsMintInvocationsPerAddress, remaining]) => {
         return (
-          address.toLowerCase() ===
-            walletClient.account.address.toLowerCase() &&
+          address.toLowerCase() === userAddress.toLowerCase() &&
           (!projectLimitsMintInvocationsPerAddress || remaining > BigInt(0))
         );
       }
     );
     if (userHasRemainingMints) {
+      const [, projectLimitsMintInvocationsPerAddress, remaining] =
+        userHasRemainingMints;
+
       return {
         isEligible: true,
         additionalPurchaseData: {
           allowlist: allowlistedAddresses,
+          remainingMintsForAddress: projectLimitsMintInvocationsPerAddress
+            ? remaining
+            : undefined,
         },
       };
     }
 
-    // Find the first vault with remaining mints
-    const firstVaultWithRemainingMints = remainingInvocationsResults.find(
+    // Find the first vault with remaining mints. We know this will be defined
+    // because of the hasRemainingMints check
+    const [
+      firstVaultWithRemainingMints,
+      projectLimitsMintInvocationsPerAddress,
+      remaining,
+    ] = remainingInvocationsResults.find(
       ([, projectLimitsMintInvocationsPerAddress, remaining]) => {
         return !projectLimitsMintInvocationsPerAddress || remaining > BigInt(0);
       }
-    )?.[0] as Hex; // We know this will be defined because of the hasRemainingMints check
+    ) as [Hex, boolean, bigint];
 
     return {
       isEligible: true,
       additionalPurchaseData: {
         allowlist: allowlistedAddresses,
         vaultAddress: firstVaultWithRemainingMints,
+        remainingMintsForAddress: projectLimitsMintInvocationsPerAddress
+          ? remaining
+          : undefined,
       },
     };
   } catch (e) {
@@ -439,26 +544,13 @@ export async function getMerkleMinterUserPurchaseContext(
 }
 
 export async function initiateMerkleMinterPurchase(
-  input: Pick<
-    PurchaseInitiationMachineContextWithFullTypes,
-    | "artblocksClient"
-    | "project"
-    | "projectSaleManagerMachine"
-    | "purchaseToAddress"
-    | "additionalPurchaseData"
-  >
+  input: InitiatePurchaseInput
 ) {
-  const {
-    artblocksClient,
-    project,
-    projectSaleManagerMachine,
-    additionalPurchaseData,
-  } = input;
+  const { artblocksClient, project, liveSaleData, additionalPurchaseData } =
+    input;
 
   const walletClient = artblocksClient.getWalletClient();
   const publicClient = artblocksClient.getPublicClient();
-  const liveSaleData =
-    projectSaleManagerMachine.getSnapshot().context.liveSaleData;
 
   assertPublicClientAvailable(publicClient);
   assertWalletClientWithAccount(walletClient);
@@ -530,14 +622,13 @@ export async function initiateMerkleMinterPurchase(
 
 /** ERC20 Minter Helpers **/
 export async function checkERC20Allowance(
-  input: Pick<PurchaseInitiationMachineContext, "artblocksClient" | "project">
+  input: UserPurchaseContextInput
 ): Promise<bigint> {
   const { artblocksClient, project } = input;
   const publicClient = artblocksClient.getPublicClient();
-  const walletClient = artblocksClient.getWalletClient();
+  const userAddress = getUserAddress(input);
 
   assertPublicClientAvailable(publicClient);
-  assertWalletClientWithAccount(walletClient);
   assertProjectWithValidMinterConfiguration(project);
 
   if (!isERC20MinterType(project.minter_configuration?.minter?.minter_type)) {
@@ -553,7 +644,7 @@ export async function checkERC20Allowance(
   });
 
   const allowance = await erc20Contract.read.allowance([
-    walletClient.account.address,
+    userAddress,
     project.minter_configuration.minter.address as Hex,
   ]);
 
@@ -587,6 +678,9 @@ export async function initiateERC20AllowanceApproval(
   >
 ) {
   const { artblocksClient, project, erc20ApprovalAmount } = input;
+
+  await artblocksClient.switchWalletChain();
+
   const walletClient = artblocksClient.getWalletClient();
   const publicClient = artblocksClient.getPublicClient();
 
@@ -635,20 +729,12 @@ export function isERC20AllowanceSufficient(
 }
 
 export async function initiateERC20Purchase(
-  input: Pick<
-    PurchaseInitiationMachineContextWithFullTypes,
-    | "artblocksClient"
-    | "project"
-    | "projectSaleManagerMachine"
-    | "purchaseToAddress"
-  >
+  input: InitiatePurchaseInput
 ): Promise<Hex> {
-  const { artblocksClient, project, projectSaleManagerMachine } = input;
+  const { artblocksClient, project, liveSaleData } = input;
 
   const walletClient = artblocksClient.getWalletClient();
   const publicClient = artblocksClient.getPublicClient();
-  const liveSaleData =
-    projectSaleManagerMachine.getSnapshot().context.liveSaleData;
 
   assertPublicClientAvailable(publicClient);
   assertWalletClientWithAccount(walletClient);
@@ -668,7 +754,8 @@ export async function initiateERC20Purchase(
   });
 
   const currencyAddress = project.minter_configuration.currency_address as Hex;
-  const basePrice = BigInt(project.minter_configuration.base_price ?? 0);
+  const maxPricePerToken =
+    input.maxPrice ?? BigInt(project.minter_configuration.base_price ?? 0);
 
   if (input.purchaseToAddress) {
     const { request } = await minterContract.simulate.purchaseTo(
@@ -676,7 +763,7 @@ export async function initiateERC20Purchase(
         input.purchaseToAddress,
         projectIndex,
         coreContractAddress,
-        basePrice,
+        maxPricePerToken,
         currencyAddress,
       ],
       {
@@ -690,7 +777,376 @@ export async function initiateERC20Purchase(
   }
 
   const { request } = await minterContract.simulate.purchase(
-    [projectIndex, coreContractAddress, basePrice, currencyAddress],
+    [projectIndex, coreContractAddress, maxPricePerToken, currencyAddress],
+    {
+      account: walletClient.account.address,
+    }
+  );
+
+  const purchaseTransactionHash = await walletClient.writeContract(request);
+
+  return purchaseTransactionHash;
+}
+
+/** Polyptych Minter Helpers **/
+const ZERO_HASH_SEED = "0x000000000000000000000000";
+
+// Token IDs are derived as projectIndex * 1_000_000 + tokenNumber
+function getProjectIdFromTokenId(tokenId: string) {
+  const [tokenCoreContractAddress, tokenIndex] = tokenId.split("-");
+
+  return `${tokenCoreContractAddress}-${BigInt(tokenIndex) / BigInt(1_000_000)}`;
+}
+
+/**
+ * Determines whether a token can be used to mint the current panel of a
+ * polyptych project. A token is eligible if its project has been allowed by
+ * the artist and its hash seed has not already been used on the current
+ * panel.
+ */
+async function isEligiblePolyptychToken({
+  publicClient,
+  minterAddress,
+  projectIndex,
+  coreContractAddress,
+  panelId,
+  token,
+}: {
+  publicClient: PublicClient;
+  minterAddress: Hex;
+  projectIndex: bigint;
+  coreContractAddress: Hex;
+  panelId: bigint;
+  token: EligiblePolyptychToken;
+}): Promise<boolean> {
+  const [tokenCoreContractAddress, tokenId] = token.id.split("-");
+
+  // Token hash seeds are only exposed by V3 and later core contracts, tokens
+  // on other core contracts can't be used to mint a polyptych panel
+  let hashSeed: Hex;
+  try {
+    hashSeed = await publicClient.readContract({
+      address: tokenCoreContractAddress as Hex,
+      abi: iGenArt721CoreContractExposesHashSeedAbi,
+      functionName: "tokenIdToHashSeed",
+      args: [BigInt(tokenId)],
+    });
+  } catch (e) {
+    return false;
+  }
+
+  if (hashSeed === ZERO_HASH_SEED) {
+    return false;
+  }
+
+  const hashSeedIsMinted = await publicClient.readContract({
+    address: minterAddress,
+    abi: minterSetPricePolyptychV5Abi,
+    functionName: "getPolyptychPanelHashSeedIsMinted",
+    args: [projectIndex, coreContractAddress, panelId, hashSeed],
+  });
+
+  return !hashSeedIsMinted;
+}
+
+export async function getPolyptychMinterUserPurchaseContext(
+  input: UserPurchaseContextInput
+): Promise<UserPurchaseContext> {
+  const { project, artblocksClient } = input;
+  const publicClient = artblocksClient.getPublicClient();
+  const userAddress = getUserAddress(input);
+
+  assertPublicClientAvailable(publicClient);
+  assertProjectWithValidMinterConfiguration(project);
+
+  if (
+    !isPolyptychMinterType(project.minter_configuration?.minter?.minter_type)
+  ) {
+    throw new Error("Project is not a polyptych minter");
+  }
+
+  const allowedProjectIds =
+    project.minter_configuration.extra_minter_details
+      .allowlistedAddressAndProjectId;
+
+  if (!allowedProjectIds) {
+    throw new Error("No projects have been allowed for this polyptych sale");
+  }
+
+  const { projectIndex, coreContractAddress } =
+    getCoreContractAddressAndProjectIndexFromProjectId(project.id);
+  const minterAddress = project.minter_configuration.minter.address as Hex;
+
+  const delegations = await getMinterDelegationsForUser(
+    userAddress,
+    publicClient,
+    project
+  );
+  const userAddressAndVaults = getUserAddressAndVaults(
+    userAddress,
+    delegations
+  );
+
+  const [ownedTokens, panelId] = await Promise.all([
+    artblocksClient.getDataSource().getTokensOwnedBy({
+      projectIds: allowedProjectIds,
+      ownerAddresses: userAddressAndVaults,
+    }),
+    publicClient.readContract({
+      address: minterAddress,
+      abi: minterSetPricePolyptychV5Abi,
+      functionName: "getCurrentPolyptychPanelId",
+      args: [projectIndex, coreContractAddress],
+    }),
+  ]);
+
+  if (ownedTokens.length === 0) {
+    return {
+      isEligible: false,
+      ineligibilityReason:
+        "This project is currently available only to owners of tokens from the previous panel of this polyptych. If you believe you should have access to purchase this project, please double-check the wallet address you are using and ensure it holds a valid token.",
+    };
+  }
+
+  // Confirm on-chain that the projects of the user's tokens are still allowed,
+  // the indexed allowlist may lag behind recent changes made by the artist
+  const tokenProjectIds = Array.from(
+    new Set<string>(
+      ownedTokens.map((token) => getProjectIdFromTokenId(token.id))
+    )
+  );
+  const allowedTokenProjectIds = (
+    await Promise.all(
+      tokenProjectIds.map(async (tokenProjectId) => {
+        const [tokenCoreContractAddress, tokenProjectIndex] =
+          tokenProjectId.split("-");
+        const isAllowed = await publicClient.readContract({
+          address: minterAddress,
+          abi: minterSetPricePolyptychV5Abi,
+          functionName: "allowedProjectHolders",
+          args: [
+            projectIndex,
+            coreContractAddress,
+            tokenCoreContractAddress as Hex,
+            BigInt(tokenProjectIndex),
+          ],
+        });
+
+        return isAllowed ? tokenProjectId : undefined;
+      })
+    )
+  ).filter((tokenProjectId) => tokenProjectId !== undefined);
+
+  const userTokens: EligiblePolyptychToken[] = ownedTokens
+    .filter((token) =>
+      allowedTokenProjectIds.includes(getProjectIdFromTokenId(token.id))
+    )
+    .map((token) => ({
+      id: token.id,
+      ownerAddress: token.owner_address as Hex,
+    }))
+    .filter((token) =>
+      canUserMintWithToken({
+        userAddress,
+        delegations,
+        coreContractAddress,
+        token,
+      })
+    );
+
+  const eligibilityResults = await Promise.all(
+    userTokens.map((token) =>
+      isEligiblePolyptychToken({
+        publicClient,
+        minterAddress,
+        projectIndex,
+        coreContractAddress,
+        panelId,
+        token,
+      })
+    )
+  );
+
+  // Prioritize tokens held directly by the user over tokens held in vaults
+  const isUserToken = (token: EligiblePolyptychToken) =>
+    token.ownerAddress.toLowerCase() === userAddress.toLowerCase();
+  const eligiblePolyptychTokens = userTokens
+    .filter((_, index) => eligibilityResults[index])
+    .sort((a, b) => Number(isUserToken(b)) - Number(isUserToken(a)));
+
+  if (eligiblePolyptychTokens.length === 0) {
+    return {
+      isEligible: false,
+      ineligibilityReason:
+        "All of your tokens from the previous panel of this polyptych have already been used to mint the current panel.",
+    };
+  }
+
+  const [defaultToken] = eligiblePolyptychTokens;
+
+  return {
+    isEligible: true,
+    additionalPurchaseData: {
+      eligiblePolyptychTokens,
+      allowedTokenId: defaultToken.id,
+      vaultAddress: isUserToken(defaultToken)
+        ? undefined
+        : defaultToken.ownerAddress,
+    },
+  };
+}
+
+export async function initiatePolyptychMinterPurchase(
+  input: InitiatePurchaseInput
+): Promise<Hex> {
+  const { artblocksClient, project, liveSaleData, additionalPurchaseData } =
+    input;
+
+  const walletClient = artblocksClient.getWalletClient();
+  const publicClient = artblocksClient.getPublicClient();
+
+  assertPublicClientAvailable(publicClient);
+  assertWalletClientWithAccount(walletClient);
+  assertProjectWithValidMinterConfiguration(project);
+  assertLiveSaleData(liveSaleData);
+
+  if (
+    !isPolyptychMinterType(project.minter_configuration?.minter?.minter_type)
+  ) {
+    throw new Error("Project is not a polyptych minter");
+  }
+
+  if (!additionalPurchaseData?.allowedTokenId) {
+    throw new Error("User has no eligible token for this polyptych panel");
+  }
+
+  const [tokenCoreContractAddress, tokenId] =
+    additionalPurchaseData.allowedTokenId.split("-");
+
+  const { projectIndex, coreContractAddress } =
+    getCoreContractAddressAndProjectIndexFromProjectId(project.id);
+
+  const minterContract = getContract({
+    address: project.minter_configuration?.minter.address as Hex,
+    abi: minterSetPricePolyptychV5Abi,
+    client: {
+      public: publicClient,
+      wallet: walletClient,
+    },
+  });
+
+  if (input.purchaseToAddress || additionalPurchaseData.vaultAddress) {
+    const { request } = await minterContract.simulate.purchaseTo(
+      [
+        input.purchaseToAddress ?? walletClient.account.address,
+        projectIndex,
+        coreContractAddress,
+        tokenCoreContractAddress as Hex,
+        BigInt(tokenId),
+        additionalPurchaseData.vaultAddress ?? zeroAddress,
+      ],
+      {
+        value: liveSaleData.tokenPriceInWei,
+        account: walletClient.account.address,
+      }
+    );
+
+    const purchaseTransactionHash = await walletClient.writeContract(request);
+
+    return purchaseTransactionHash;
+  }
+
+  const { request } = await minterContract.simulate.purchase(
+    [
+      projectIndex,
+      coreContractAddress,
+      tokenCoreContractAddress as Hex,
+      BigInt(tokenId),
+    ],
+    {
+      value: liveSaleData.tokenPriceInWei,
+      account: walletClient.account.address,
+    }
+  );
+
+  const purchaseTransactionHash = await walletClient.writeContract(request);
+
+  return purchaseTransactionHash;
+}
+
+export async function initiatePolyptychERC20MinterPurchase(
+  input: InitiatePurchaseInput
+): Promise<Hex> {
+  const { artblocksClient, project, additionalPurchaseData } = input;
+
+  const walletClient = artblocksClient.getWalletClient();
+  const publicClient = artblocksClient.getPublicClient();
+
+  assertPublicClientAvailable(publicClient);
+  assertWalletClientWithAccount(walletClient);
+  assertProjectWithValidMinterConfiguration(project);
+
+  if (
+    !isPolyptychMinterType(project.minter_configuration?.minter?.minter_type) ||
+    !isERC20MinterType(project.minter_configuration?.minter?.minter_type)
+  ) {
+    throw new Error("Project is not a polyptych ERC-20 minter");
+  }
+
+  if (!additionalPurchaseData?.allowedTokenId) {
+    throw new Error("User has no eligible token for this polyptych panel");
+  }
+
+  const [tokenCoreContractAddress, tokenId] =
+    additionalPurchaseData.allowedTokenId.split("-");
+
+  const { projectIndex, coreContractAddress } =
+    getCoreContractAddressAndProjectIndexFromProjectId(project.id);
+
+  const minterContract = getContract({
+    address: project.minter_configuration?.minter.address as Hex,
+    abi: minterSetPricePolyptychERC20V5Abi,
+    client: {
+      public: publicClient,
+      wallet: walletClient,
+    },
+  });
+
+  const currencyAddress = project.minter_configuration.currency_address as Hex;
+  const maxPricePerToken =
+    input.maxPrice ?? BigInt(project.minter_configuration.base_price ?? 0);
+
+  if (input.purchaseToAddress || additionalPurchaseData.vaultAddress) {
+    const { request } = await minterContract.simulate.purchaseTo(
+      [
+        input.purchaseToAddress ?? walletClient.account.address,
+        projectIndex,
+        coreContractAddress,
+        maxPricePerToken,
+        currencyAddress,
+        tokenCoreContractAddress as Hex,
+        BigInt(tokenId),
+        additionalPurchaseData.vaultAddress ?? zeroAddress,
+      ],
+      {
+        account: walletClient.account.address,
+      }
+    );
+
+    const purchaseTransactionHash = await walletClient.writeContract(request);
+
+    return purchaseTransactionHash;
+  }
+
+  const { request } = await minterContract.simulate.purchase(
+    [
+      projectIndex,
+      coreContractAddress,
+      maxPricePerToken,
+      currencyAddress,
+      tokenCoreContractAddress as Hex,
+      BigInt(tokenId),
+    ],
     {
       account: walletClient.account.address,
     }
@@ -703,49 +1159,40 @@ export async function initiateERC20Purchase(
 
 /** RAM Minter Helpers **/
 export async function getRAMMinterUserPurchaseContext(
-  input: Pick<PurchaseInitiationMachineContext, "artblocksClient" | "project">
+  input: UserPurchaseContextInput
 ): Promise<UserPurchaseContext> {
   const { artblocksClient, project } = input;
-  const walletClient = artblocksClient.getWalletClient();
   const publicClient = artblocksClient.getPublicClient();
+  const userAddress = getUserAddress(input);
 
   assertPublicClientAvailable(publicClient);
-  assertWalletClientWithAccount(walletClient);
   assertProjectWithValidMinterConfiguration(project);
 
   if (!isRAMMinterType(project.minter_configuration?.minter?.minter_type)) {
     throw new Error("Project is not a RAM minter");
   }
 
-  const userBids = await artblocksClient.graphqlRequest(GetUserBidsDocument, {
+  const userBids = await artblocksClient.getDataSource().getUserBids({
     projectId: project.id,
-    userAddress: walletClient.account.address.toLowerCase(),
+    userAddress,
   });
 
   return {
     isEligible: true,
     additionalPurchaseData: {
-      userBids: userBids.project_ranked_bids,
+      userBids,
     },
   };
 }
 
 /** Base Minter Helpers **/
 export async function initiateBasePurchase(
-  input: Pick<
-    PurchaseInitiationMachineContextWithFullTypes,
-    | "artblocksClient"
-    | "project"
-    | "projectSaleManagerMachine"
-    | "purchaseToAddress"
-  >
+  input: InitiatePurchaseInput
 ): Promise<Hex> {
-  const { artblocksClient, project, projectSaleManagerMachine } = input;
+  const { artblocksClient, project, liveSaleData } = input;
 
   const walletClient = artblocksClient.getWalletClient();
   const publicClient = artblocksClient.getPublicClient();
-  const liveSaleData =
-    projectSaleManagerMachine.getSnapshot().context.liveSaleData;
 
   assertPublicClientAvailable(publicClient);
   assertWalletClientWithAccount(walletClient);
@@ -790,3 +1237,448 @@ export async function initiateBasePurchase(
 
   return purchaseTransactionHash;
 }
+
+/** Minter Agnostic Helpers **/
+/**
+ * Determines whether a user is eligible to purchase a token from a project and
+ * gathers any additional data required to initiate the purchase, based on the
+ * project's minter type.
+ *
+ * @param input - The project, client and optional user address to check.
+ * @returns The user's purchase eligibility and any additional purchase data.
+ */
+export async function getUserPurchaseContext(
+  input: UserPurchaseContextInput
+): Promise<UserPurchaseContext> {
+  const { artblocksClient, project } = input;
+  const publicClient = artblocksClient.getPublicClient();
+
+  assertPublicClientAvailable(publicClient);
+
+  const minterType = project.minter_configuration?.minter?.minter_type;
+
+  if (isMerkleMinterType(minterType)) {
+    return await getMerkleMinterUserPurchaseContext(input);
+  }
+
+  if (isHolderMinterType(minterType)) {
+    return await getHolderMinterUserPurchaseContext(input);
+  }
+
+  if (isPolyptychMinterType(minterType)) {
+    const userPurchaseContext =
+      await getPolyptychMinterUserPurchaseContext(input);
+
+    if (!userPurchaseContext.isEligible || !isERC20MinterType(minterType)) {
+      return userPurchaseContext;
+    }
+
+    const [decimals, erc20Allowance] = await Promise.all([
+      getERC20Decimals(input),
+      checkERC20Allowance(input),
+    ]);
+
+    return {
+      isEligible: true,
+      additionalPurchaseData: {
+        ...userPurchaseContext.additionalPurchaseData,
+        decimals,
+        erc20Allowance,
+      },
+    };
+  }
+
+  if (isERC20MinterType(minterType)) {
+    const [decimals, erc20Allowance] = await Promise.all([
+      getERC20Decimals(input),
+      checkERC20Allowance(input),
+    ]);
+
+    return {
+      isEligible: true,
+      additionalPurchaseData: {
+        decimals,
+        erc20Allowance,
+      },
+    };
+  }
+
+  if (isRAMMinterType(minterType)) {
+    return await getRAMMinterUserPurchaseContext(input);
+  }
+
+  return {
+    isEligible: true,
+  };
+}
+
+/**
+ * Reads the project's current price from its minter and checks it against
+ * the maximum price approved by the user. Auction prices can change between
+ * the last live sale data poll and submission, so this is done immediately
+ * before the purchase is simulated.
+ *
+ * @param input - The project, client and maximum price for the purchase.
+ * @returns The current token price, in wei or the ERC-20 base unit.
+ * @throws {PurchasePriceExceedsMaxPriceError} if the current price is above
+ * the maximum price.
+ */
+async function getTokenPriceWithinMaxPrice(
+  input: InitiatePurchaseInput & { maxPrice: bigint }
+): Promise<bigint> {
+  const { artblocksClient, project, maxPrice } = input;
+  const publicClient = artblocksClient.getPublicClient();
+
+  assertPublicClientAvailable(publicClient);
+  assertProjectWithValidMinterConfiguration(project);
+
+  const { projectIndex, coreContractAddress } =
+    getCoreContractAddressAndProjectIndexFromProjectId(project.id);
+
+  const [, tokenPriceInWei] = await publicClient.readContract({
+    address: project.minter_configuration.minter.address as Hex,
+    abi: iSharedMinterV0Abi,
+    functionName: "getPriceInfo",
+    args: [projectIndex, coreContractAddress],
+  });
+
+  if (tokenPriceInWei > maxPrice) {
+    throw new PurchasePriceExceedsMaxPriceError(tokenPriceInWei, maxPrice);
+  }
+
+  return tokenPriceInWei;
+}
+
+/**
+ * Initiates a purchase using the minter-specific purchase flow for the
+ * project's minter type. If a maximum price is provided, the minter's current
+ * price is checked against it before submitting and sent as the purchase
+ * value in place of the polled live sale data price.
+ *
+ * @param input - The project, client, live sale data, optional maximum price
+ * and any additional purchase data gathered by `getUserPurchaseContext`.
+ * @returns The hash of the submitted purchase transaction.
+ * @throws {PurchasePriceExceedsMaxPriceError} if the current price is above
+ * the maximum price.
+ */
+export async function initiatePurchase(
+  purchaseInput: InitiatePurchaseInput
+): Promise<Hex> {
+  let input = purchaseInput;
+
+  await input.artblocksClient.switchWalletChain();
+
+  if (input.maxPrice !== undefined) {
+    const tokenPriceInWei = await getTokenPriceWithinMaxPrice({
+      ...input,
+      maxPrice: input.maxPrice,
+    });
+
+    input = {
+      ...input,
+      liveSaleData: input.liveSaleData && {
+        ...input.liveSaleData,
+        tokenPriceInWei,
+      },
+    };
+  }
+
+  const minterType = input.project.minter_configuration?.minter?.minter_type;
+
+  if (isMerkleMinterType(minterType)) {
+    return await initiateMerkleMinterPurchase(input);
+  }
+
+  if (isHolderMinterType(minterType)) {
+    return await initiateHolderMinterPurchase(input);
+  }
+
+  if (isPolyptychMinterType(minterType)) {
+    if (isERC20MinterType(minterType)) {
+      return await initiatePolyptychERC20MinterPurchase(input);
+    }
+
+    return await initiatePolyptychMinterPurchase(input);
+  }
+
+  if (isERC20MinterType(minterType)) {
+    return await initiateERC20Purchase(input);
+  }
+
+  return await initiateBasePurchase(input);
+}
+
+/** Batch Purchase Helpers **/
+export type BatchPurchaseTransaction = {
+  txHash: Hex;
+  // Number of tokens minted by the transaction
+  mintCount: number;
+};
+
+export type InitiateBatchPurchaseInput = InitiatePurchaseInput & {
+  quantity: number;
+  // Called as each purchase transaction is submitted, to report progress
+  onTransactionSubmitted?: (transaction: BatchPurchaseTransaction) => void;
+  // Aborting stops any remaining sequential purchases from being submitted
+  signal?: AbortSignal;
+};
+
+/**
+ * Calculates the maximum number of tokens that can be purchased in a single
+ * batch, respecting both the project's remaining invocations and any
+ * per-address mint limit of the purchasing address.
+ *
+ * @param input - The project, client, live sale data and additional purchase
+ * data gathered by `getUserPurchaseContext`.
+ * @returns The maximum batch purchase quantity.
+ */
+export async function getMaxBatchPurchaseQuantity(
+  input: Pick<
+    InitiatePurchaseInput,
+    "artblocksClient" | "project" | "liveSaleData" | "additionalPurchaseData"
+  >
+): Promise<number> {
+  const { artblocksClient, project, liveSaleData, additionalPurchaseData } =
+    input;
+  const publicClient = artblocksClient.getPublicClient();
+
+  assertPublicClientAvailable(publicClient);
+  assertProjectWithValidMinterConfiguration(project);
+  assertLiveSaleData(liveSaleData);
+
+  if (
+    !isBatchPurchaseMinterType(project.minter_configuration.minter.minter_type)
+  ) {
+    return 1;
+  }
+
+  const { projectIndex, coreContractAddress } =
+    getCoreContractAddressAndProjectIndexFromProjectId(project.id);
+
+  // The minter may limit a project to fewer invocations than the core contract
+  const minterMaxInvocations = await publicClient.readContract({
+    address: project.minter_configuration.minter.address as Hex,
+    abi: minterSetPriceMerkleV5Abi,
+    functionName: "projectMaxInvocations",
+    args: [projectIndex, coreContractAddress],
+  });
+
+  const maxInvocations =
+    minterMaxInvocations < liveSaleData.maxInvocations
+      ? minterMaxInvocations
+      : liveSaleData.maxInvocations;
+  let remaining = maxInvocations - liveSaleData.invocations;
+
+  const remainingMintsForAddress =
+    additionalPurchaseData?.remainingMintsForAddress;
+  if (
+    remainingMintsForAddress !== undefined &&
+    remainingMintsForAddress < remaining
+  ) {
+    remaining = remainingMintsForAddress;
+  }
+
+  return remaining > BigInt(0) ? Number(remaining) : 0;
+}
+
+/**
+ * Determines whether the connected wallet can execute a batch of calls
+ * atomically using EIP-5792 `wallet_sendCalls`.
+ *
+ * @param walletClient - The connected wallet client.
+ * @param chainId - The chain the calls will be sent on.
+ * @returns A boolean indicating whether atomic batching is supported.
+ */
+export async function isAtomicBatchSupported(
+  walletClient: WalletClientWithAccount,
+  chainId: number
+): Promise<boolean> {
+  try {
+    const capabilities = await walletClient.getCapabilities({
+      account: walletClient.account,
+      chainId,
+    });
+
+    return (
+      capabilities.atomic?.status === "supported" ||
+      capabilities.atomic?.status === "ready"
+    );
+  } catch (e) {
+    // Wallets that don't implement EIP-5792 reject the request
+    return false;
+  }
+}
+
+function getBatchPurchaseCall(
+  input: InitiatePurchaseInput,
+  walletClient: WalletClientWithAccount
+) {
+  const { project, liveSaleData, additionalPurchaseData } = input;
+
+  assertProjectWithValidMinterConfiguration(project);
+  assertLiveSaleData(liveSaleData);
+
+  const { projectIndex, coreContractAddress } =
+    getCoreContractAddressAndProjectIndexFromProjectId(project.id);
+  const purchaseToAddress =
+    input.purchaseToAddress ?? walletClient.account.address;
+  const to = project.minter_configuration.minter.address as Hex;
+
+  if (isMerkleMinterType(project.minter_configuration.minter.minter_type)) {
+    if (!additionalPurchaseData?.allowlist) {
+      throw new Error("No allowlist has been configured for this project");
+    }
+
+    const merkleProof = generateUserMerkleProof(
+      additionalPurchaseData.allowlist,
+      additionalPurchaseData.vaultAddress ?? walletClient.account.address
+    );
+
+    return {
+      to,
+      value: liveSaleData.tokenPriceInWei,
+      data: encodeFunctionData({
+        abi: minterSetPriceMerkleV5Abi,
+        functionName: "purchaseTo",
+        args: [
+          purchaseToAddress,
+          projectIndex,
+          coreContractAddress,
+          merkleProof,
+          additionalPurchaseData.vaultAddress ?? zeroAddress,
+        ],
+      }),
+    };
+  }
+
+  return {
+    to,
+    value: liveSaleData.tokenPriceInWei,
+    data: encodeFunctionData({
+      abi: iSharedMinterSimplePurchaseV0Abi,
+      functionName: "purchaseTo",
+      args: [purchaseToAddress, projectIndex, coreContractAddress],
+    }),
+  };
+}
+
+function getMintCount(receipt: { logs: Array<{ topics: Hex[] }> }): number {
+  const mintEventSelector = toEventSelector(
+    getAbiItem({ abi: iGenArt721CoreContractV3BaseAbi, name: "Mint" })
+  );
+
+  return receipt.logs.filter((log) => log.topics[0] === mintEventSelector)
+    .length;
+}
+
+/**
+ * Purchases multiple tokens from a project in a single flow. If the wallet
+ * supports atomic EIP-5792 batching, every purchase is sent as one batch of
+ * calls. Otherwise a purchase transaction is submitted for each token, one
+ * after another, reporting each as it is submitted.
+ *
+ * @param input - The purchase input, quantity and progress callback.
+ * @returns The submitted purchase transactions.
+ * @throws {PurchasePriceExceedsMaxPriceError} if the current price is above
+ * the maximum price.
+ */
+export async function initiateBatchPurchase(
+  input: InitiateBatchPurchaseInput
+): Promise<Array<BatchPurchaseTransaction>> {
+  const {
+    artblocksClient,
+    project,
+    quantity,
+    maxPrice,
+    onTransactionSubmitted,
+    signal,
+  } = input;
+
+  await artblocksClient.switchWalletChain();
+
+  const walletClient = artblocksClient.getWalletClient();
+  const publicClient = artblocksClient.getPublicClient();
+
+  assertPublicClientAvailable(publicClient);
+  assertWalletClientWithAccount(walletClient);
+  assertProjectWithValidMinterConfiguration(project);
+
+  if (
+    !isBatchPurchaseMinterType(project.minter_configuration.minter.minter_type)
+  ) {
+    throw new Error("Project minter does not support batch purchases");
+  }
+
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new Error("Purchase quantity must be a positive integer");
+  }
+
+  const maxQuantity = await getMaxBatchPurchaseQuantity(input);
+  if (quantity > maxQuantity) {
+    throw new Error(
+      `Only ${maxQuantity} more tokens can be purchased from this project`
+    );
+  }
+
+  let purchaseInput: InitiatePurchaseInput = input;
+  if (maxPrice !== undefined) {
+    const tokenPriceInWei = await getTokenPriceWithinMaxPrice({
+      ...input,
+      maxPrice,
+    });
+
+    purchaseInput = {
+      ...input,
+      liveSaleData: input.liveSaleData && {
+        ...input.liveSaleData,
+        tokenPriceInWei,
+      },
+    };
+  }
+
+  const chainId = await publicClient.getChainId();
+
+  if (quantity > 1 && (await isAtomicBatchSupported(walletClient, chainId))) {
+    const call = getBatchPurchaseCall(purchaseInput, walletClient);
+    const { id } = await walletClient.sendCalls({
+      account: walletClient.account,
+      chain: walletClient.chain,
+      calls: Array.from({ length: quantity }, () => call),
+      forceAtomic: true,
+    });
+
+    const { status, receipts } = await walletClient.waitForCallsStatus({
+      id,
+    });
+
+    if (status !== "success" || !receipts?.length) {
+      throw new Error("Batch purchase failed");
+    }
+
+    const transactions = receipts.map((receipt) => ({
+      txHash: receipt.transactionHash,
+      mintCount: getMintCount(receipt),
+    }));
+    transactions.forEach((transaction) =>
+      onTransactionSubmitted?.(transaction)
+    );
+
+    return transactions;
+  }
+
+  const transactions: Array<BatchPurchaseTransaction> = [];
+  for (let i = 0; i < quantity; i++) {
+    if (signal?.aborted) {
+      break;
+    }
+
+    const transaction = {
+      txHash: await initiatePurchase({ ...purchaseInput, maxPrice: undefined }),
+      mintCount: 1,
+    };
+    transactions.push(transaction);
+    onTransactionSubmitted?.(transaction);
+  }
+
+  return transactions;
+}
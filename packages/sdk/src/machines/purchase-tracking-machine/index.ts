@@ -21,6 +21,9 @@ export type TokenDetails = GetTokenDetailsQuery["tokens_metadata_by_pk"];
 export type PurchaseTrackingMachineContext = {
   artblocksClient: ArtBlocksClient;
   purchaseTransactionHash: Hex;
+  // Index of the tracked mint among the transaction's Mint events, used when
+  // a single batched transaction mints multiple tokens
+  mintIndex: number;
   mintedTokenId?: string;
   mintedToken?: TokenDetails;
   errorMessage?: string;
@@ -33,6 +36,7 @@ export const purchaseTrackingMachine = setup({
       purchaseTransactionHash: Hex;
       artblocksClient: ArtBlocksClient;
       marketplaceUrl?: string;
+      mintIndex?: number;
     },
     context: {} as PurchaseTrackingMachineContext,
     emitted: {} as
@@ -49,9 +53,10 @@ export const purchaseTrackingMachine = setup({
         input: {
           artblocksClient: ArtBlocksClient;
           purchaseTransactionHash: Hex;
+          mintIndex: number;
         };
       }) => {
-        const { purchaseTransactionHash, artblocksClient } = input;
+        const { purchaseTransactionHash, artblocksClient, mintIndex } = input;
         const publicClient = artblocksClient.getPublicClient();
 
         if (!publicClient) {
@@ -73,7 +78,7 @@ export const purchaseTrackingMachine = setup({
             abi: iGenArt721CoreContractV3BaseAbi,
             eventName: "Mint",
           });
-          const mintEvent = events[0];
+          const mintEvent = events[mintIndex];
 
           if (!mintEvent) {
             throw new Error("Mint event not found");
@@ -128,6 +133,7 @@ export const purchaseTrackingMachine = setup({
   context: ({ input }) => ({
     artblocksClient: input.artblocksClient,
     purchaseTransactionHash: input.purchaseTransactionHash,
+    mintIndex: input.mintIndex ?? 0,
     marketplaceUrl: input.marketplaceUrl,
   }),
   initial: "awaitingPurchaseConfirmation",
@@ -139,6 +145,7 @@ export const purchaseTrackingMachine = setup({
         input: ({ context }) => ({
           artblocksClient: context.artblocksClient,
           purchaseTransactionHash: context.purchaseTransactionHash,
+          mintIndex: context.mintIndex,
         }),
         onDone: {
           target: "awaitingTokenSync",
@@ -25,6 +25,8 @@ type PurchaseTrackingManagerMachineEvents =
   | {
       type: "PURCHASE_INITIATED";
       txHash: Hex;
+      // Number of tokens minted by the transaction, defaults to 1
+      mintCount?: number;
     }
   | {
       type: "PURCHASE_COMPLETED";
@@ -53,7 +55,7 @@ export const purchaseTrackingManagerMachine = setup({
     spawnPurchaseTrackingMachine: assign({
       purchaseTrackingMachines: (
         { spawn, context },
-        params: { txHash: Hex }
+        params: { txHash: Hex; mintCount?: number }
       ) => {
         const publicClient = context.artblocksClient.getPublicClient();
 
@@ -61,18 +63,33 @@ export const purchaseTrackingManagerMachine = setup({
           return context.purchaseTrackingMachines;
         }
 
-        return {
+        // Spawn a tracking machine for each token minted by the transaction.
+        // The first keeps the transaction hash as its id so single mint
+        // purchases can be looked up by hash.
+        const purchaseTrackingMachines = {
           ...context.purchaseTrackingMachines,
-          [params.txHash]: spawn("purchaseTrackingMachine", {
-            id: params.txHash,
-            systemId: params.txHash,
+        };
+        for (
+          let mintIndex = 0;
+          mintIndex < (params.mintCount ?? 1);
+          mintIndex++
+        ) {
+          const id =
+            mintIndex === 0 ? params.txHash : `${params.txHash}-${mintIndex}`;
+
+          purchaseTrackingMachines[id] = spawn("purchaseTrackingMachine", {
+            id,
+            systemId: id,
             input: {
               artblocksClient: context.artblocksClient,
               purchaseTransactionHash: params.txHash,
               marketplaceUrl: context.marketplaceUrl,
+              mintIndex,
             },
-          }),
-        };
+          });
+        }
+
+        return purchaseTrackingMachines;
       },
     }),
   },
@@ -100,7 +117,7 @@ export const purchaseTrackingManagerMachine = setup({
         {
           type: "spawnPurchaseTrackingMachine",
           params({ event }) {
-            return { txHash: event.txHash };
+            return { txHash: event.txHash, mintCount: event.mintCount };
           },
         },
       ],
@@ -1,5 +1,4 @@
 import { setup, assign, fromPromise, not } from "xstate";
-import { graphql } from "../../generated/index";
 import { TokenDetails } from "../purchase-tracking-machine";
 import { ArtBlocksClient } from "../..";
 
@@ -10,22 +9,6 @@ import { ArtBlocksClient } from "../..";
  * - Don't poll sansa directly in this machine
  */
 
-const getTokenDetailsDocument = graphql(/* GraphQL */ `
-  query GetTokenDetails($tokenId: String!) {
-    tokens_metadata_by_pk(id: $tokenId) {
-      id
-      token_id
-      invocation
-      contract_address
-      invocation
-      live_view_url
-      project {
-        name
-      }
-    }
-  }
-`);
-
 const POLLING_INTERVAL = 5000;
 
 type TokenPollingMachineContext = {
@@ -114,23 +97,20 @@ export const tokenPollingMachine = setup({
         }
         const { tokenId, artblocksClient } = input;
 
-        const res = await artblocksClient.graphqlRequest(
-          getTokenDetailsDocument,
-          {
-            tokenId,
-          }
-        );
+        const token = await artblocksClient
+          .getDataSource()
+          .getTokenDetails(tokenId);
 
         // Check to see if the token has been indexed by Sansa
         // before returning the token details and moving to the
         // `complete` state. If we have a marketplace URL, make
         // sure the asset exists there as well.
-        if (res.tokens_metadata_by_pk && input.marketplaceUrl) {
+        if (token && input.marketplaceUrl) {
           try {
             const asset = await getMarketplaceAsset(
               input.marketplaceUrl,
-              res.tokens_metadata_by_pk.contract_address,
-              res.tokens_metadata_by_pk.token_id
+              token.contract_address,
+              token.token_id
             );
 
             if (!asset) {
@@ -141,7 +121,7 @@ export const tokenPollingMachine = setup({
           }
         }
 
-        return res.tokens_metadata_by_pk;
+        return token;
       }
     ),
   },
@@ -121,18 +121,6 @@ graphql(/* GraphQL */ `
   }
 `);
 
-const getUserBidsDocument = graphql(/* GraphQL */ `
-  query GetUserBids($projectId: String!, $userAddress: String!) {
-    project_ranked_bids(
-      args: { project: $projectId }
-      where: { bidder_address: { _eq: $userAddress } }
-      order_by: { rank: asc }
-    ) {
-      ...BidDetails
-    }
-  }
-`);
-
 const MAX_RETRIES = 10;
 
 export const ramMachine = setup({
@@ -164,12 +152,10 @@ export const ramMachine = setup({
           throw new Error("Wallet client not connected");
         }
 
-        const bids = await artblocksClient.graphqlRequest(getUserBidsDocument, {
+        return artblocksClient.getDataSource().getUserBids({
           projectId: project.id,
-          userAddress: walletClient.account.address.toLowerCase(),
+          userAddress: walletClient.account.address,
         });
-
-        return bids.project_ranked_bids;
       }
     ),
     initiateBidTx: fromPromise(
@@ -190,6 +176,9 @@ export const ramMachine = setup({
         txRequest: SimulateCreateOrTopUpBidRequest;
       }> => {
         const { project, artblocksClient } = input;
+
+        await artblocksClient.switchWalletChain();
+
         const publicClient = artblocksClient.getPublicClient();
         const walletClient = artblocksClient.getWalletClient();
 
@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { Actor, createActor, fromPromise, waitFor } from "xstate";
+import { Hex, encodeAbiParameters, encodeEventTopics, parseEther } from "viem";
+import { ArtBlocksClient } from "../..";
+import { seaMachine } from ".";
+import { SEA_BID_STATUS } from "./utils";
+import { liveSaleDataPollingMachine } from "../project-sale-manager-machine/live-sale-data-polling-machine";
+import {
+  LiveSaleData,
+  ProjectDetails,
+  parseSEAAuction,
+} from "../project-sale-manager-machine/utils";
+import { Minter_Type_Names_Enum } from "../../generated/graphql";
+import { minterSEAV1Abi } from "../../../abis/minterSEAV1Abi";
+
+const USER_ADDRESS: Hex = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const OTHER_ADDRESS: Hex = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+const CORE_ADDRESS: Hex = "0x99a9b7c1116f9ceeb1652de04d5969cce509b069";
+const MINTER_ADDRESS: Hex = "0xa2ccfe293bc2cdd78d8166a82d1e18cd2148122b";
+const TX_HASH: Hex = "0x1234";
+const TOKEN_ID = BigInt(3000001);
+const NEXT_TOKEN_ID = BigInt(3000002);
+
+const project = {
+  id: `${CORE_ADDRESS}-3`,
+  contract: { address: CORE_ADDRESS },
+  minter_configuration: {
+    minter: {
+      address: MINTER_ADDRESS,
+      minter_type: Minter_Type_Names_Enum.MinterSeav1,
+    },
+  },
+} as unknown as NonNullable<ProjectDetails>;
+
+type OnchainSEAAuction = Parameters<typeof parseSEAAuction>[0];
+
+const secondsFromNow = (seconds: number) =>
+  BigInt(Math.floor(Date.now() / 1000) + seconds);
+
+const createLiveSaleData = (
+  activeAuction: OnchainSEAAuction
+): LiveSaleData => ({
+  tokenPriceInWei: parseEther("0.5"),
+  invocations: BigInt(1),
+  maxInvocations: BigInt(10),
+  active: true,
+  paused: false,
+  completedTimestamp: BigInt(0),
+  isConfigured: true,
+  seaMinterAuctionDetails: {
+    auctionStartDate: new Date(Date.now() - 86400 * 1000),
+    auctionDurationSeconds: 3600,
+    basePrice: parseEther("0.5"),
+    minBidIncrementPercentage: 5,
+    minterTimeBufferSeconds: 300,
+    nextTokenIsPopulated: true,
+    tokenToBid: activeAuction.settled ? NEXT_TOKEN_ID : activeAuction.tokenId,
+    activeAuction: parseSEAAuction(activeAuction),
+  },
+});
+
+const createAuctionBidLog = (tokenId: bigint, bidAmount: bigint) => ({
+  address: MINTER_ADDRESS,
+  topics: encodeEventTopics({
+    abi: minterSEAV1Abi,
+    eventName: "AuctionBid",
+    args: { tokenId, coreContract: CORE_ADDRESS, bidder: USER_ADDRESS },
+  }),
+  data: encodeAbiParameters([{ type: "uint256" }], [bidAmount]),
+});
+
+describe("seaMachine", () => {
+  let activeAuction: OnchainSEAAuction;
+  let tokenToBid: bigint;
+  let readContract: jest.Mock;
+  let simulateContract: jest.Mock;
+  let writeContract: jest.Mock;
+  let waitForTransactionReceipt: jest.Mock;
+  let artblocksClient: ArtBlocksClient;
+  let pollingActor: Actor<typeof liveSaleDataPollingMachine>;
+  let actor: Actor<typeof seaMachine>;
+
+  const startActor = async () => {
+    const liveSaleData = createLiveSaleData(activeAuction);
+
+    pollingActor = createActor(
+      liveSaleDataPollingMachine.provide({
+        actors: {
+          fetchLiveSaleData: fromPromise(async () => liveSaleData),
+        },
+      }),
+      { input: { project, artblocksClient } }
+    );
+    pollingActor.start();
+    await waitFor(pollingActor, (snapshot) => snapshot.matches("waiting"));
+
+    actor = createActor(seaMachine, {
+      input: {
+        artblocksClient,
+        project,
+        liveSaleDataPollingMachineRef: pollingActor,
+      },
+    });
+    actor.start();
+  };
+
+  beforeEach(() => {
+    activeAuction = {
+      tokenId: TOKEN_ID,
+      currentBid: parseEther("1"),
+      currentBidder: OTHER_ADDRESS,
+      endTime: secondsFromNow(3600),
+      minBidIncrementPercentage: 5,
+      settled: false,
+    };
+    tokenToBid = TOKEN_ID;
+
+    readContract = jest.fn(
+      async ({ functionName }: { functionName: string }) => {
+        switch (functionName) {
+          case "SEAProjectConfigurationDetails":
+            return { activeAuction };
+          case "getTokenToBid":
+            return tokenToBid;
+          default:
+            throw new Error(`Unexpected read of ${functionName}`);
+        }
+      }
+    );
+    simulateContract = jest.fn(async (request) => ({ request }));
+    writeContract = jest.fn(async () => TX_HASH);
+    waitForTransactionReceipt = jest.fn(async () => ({
+      status: "success",
+      logs: [createAuctionBidLog(tokenToBid, parseEther("1.05"))],
+    }));
+
+    artblocksClient = {
+      getPublicClient: () => ({
+        readContract,
+        simulateContract,
+        waitForTransactionReceipt,
+      }),
+      getWalletClient: () => ({
+        account: { address: USER_ADDRESS },
+        writeContract,
+      }),
+      switchWalletChain: jest.fn(),
+    } as unknown as ArtBlocksClient;
+  });
+
+  afterEach(() => {
+    actor.stop();
+    pollingActor.stop();
+  });
+
+  it("ignores bids below the minimum next bid", async () => {
+    await startActor();
+
+    actor.send({ type: "SUBMIT_BID", bidValue: parseEther("1.04") });
+
+    expect(actor.getSnapshot().matches("awaitingBidAmount")).toBe(true);
+    expect(simulateContract).not.toHaveBeenCalled();
+  });
+
+  it("bids on the live auction and emits the confirmed bid", async () => {
+    await startActor();
+    const bidConfirmed = jest.fn();
+    actor.on("bidConfirmed", bidConfirmed);
+
+    actor.send({ type: "SUBMIT_BID", bidValue: parseEther("1.05") });
+    const snapshot = await waitFor(actor, (snapshot) =>
+      snapshot.matches("bidSuccess")
+    );
+
+    expect(simulateContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: "createBid",
+        args: [TOKEN_ID, CORE_ADDRESS],
+        value: parseEther("1.05"),
+      })
+    );
+    expect(writeContract).toHaveBeenCalledTimes(1);
+    const bid = { tokenId: TOKEN_ID, bidValue: parseEther("1.05") };
+    expect(snapshot.context.confirmedBid).toEqual(bid);
+    expect(snapshot.context.userBidStatus).toEqual(
+      SEA_BID_STATUS.HighestBidder
+    );
+    expect(bidConfirmed).toHaveBeenCalledWith({ type: "bidConfirmed", bid });
+  });
+
+  it("settles an ended auction when bidding on the next token", async () => {
+    activeAuction = { ...activeAuction, endTime: secondsFromNow(-60) };
+    tokenToBid = NEXT_TOKEN_ID;
+    await startActor();
+
+    actor.send({ type: "SUBMIT_BID", bidValue: parseEther("0.5") });
+    await waitFor(actor, (snapshot) => snapshot.matches("bidSuccess"));
+
+    expect(simulateContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: "settleAuctionAndCreateBid",
+        args: [TOKEN_ID, NEXT_TOKEN_ID, CORE_ADDRESS],
+        value: parseEther("0.5"),
+      })
+    );
+  });
+
+  it("returns to awaiting a bid amount when the user rejects the transaction", async () => {
+    writeContract.mockRejectedValue(
+      new Error("User denied transaction signature")
+    );
+    await startActor();
+
+    actor.send({ type: "SUBMIT_BID", bidValue: parseEther("1.05") });
+    await waitFor(actor, (snapshot) => snapshot.matches("initiatingBidTx"));
+    const snapshot = await waitFor(actor, (snapshot) =>
+      snapshot.matches("awaitingBidAmount")
+    );
+
+    expect(snapshot.context.errorMessage).toBeUndefined();
+    expect(waitForTransactionReceipt).not.toHaveBeenCalled();
+  });
+
+  it("moves to the error state when the bid transaction reverts", async () => {
+    waitForTransactionReceipt.mockResolvedValue({
+      status: "reverted",
+      logs: [],
+    });
+    await startActor();
+
+    actor.send({ type: "SUBMIT_BID", bidValue: parseEther("1.05") });
+    const snapshot = await waitFor(actor, (snapshot) =>
+      snapshot.matches("error")
+    );
+
+    expect(snapshot.context.errorMessage).toEqual("Bid transaction reverted");
+  });
+
+  it("emits outbid when another bidder takes the lead", async () => {
+    await startActor();
+    const outbid = jest.fn();
+    actor.on("outbid", outbid);
+
+    actor.send({ type: "SUBMIT_BID", bidValue: parseEther("1.05") });
+    await waitFor(actor, (snapshot) => snapshot.matches("bidSuccess"));
+
+    actor.send({
+      type: "LIVE_SALE_DATA_UPDATED",
+      liveSaleData: createLiveSaleData({
+        ...activeAuction,
+        currentBid: parseEther("1.2"),
+      }),
+    });
+
+    expect(actor.getSnapshot().context.userBidStatus).toEqual(
+      SEA_BID_STATUS.Outbid
+    );
+    expect(outbid).toHaveBeenCalledWith({ type: "outbid", tokenId: TOKEN_ID });
+  });
+});
@@ -0,0 +1,579 @@
+import {
+  Chain,
+  Hex,
+  JsonRpcAccount,
+  SimulateContractReturnType,
+  getContract,
+  parseEventLogs,
+} from "viem";
+import {
+  ActorRefFrom,
+  assign,
+  emit,
+  enqueueActions,
+  fromCallback,
+  fromPromise,
+  setup,
+} from "xstate";
+import { ArtBlocksClient } from "../..";
+import { minterSEAV1Abi } from "../../../abis/minterSEAV1Abi";
+import { liveSaleDataPollingMachine } from "../project-sale-manager-machine/live-sale-data-polling-machine";
+import {
+  LiveSaleData,
+  ProjectDetails,
+  parseSEAAuction,
+} from "../project-sale-manager-machine/utils";
+import {
+  getCoreContractAddressAndProjectIndexFromProjectId,
+  getMessageFromError,
+  isUserRejectedError,
+} from "../utils";
+import {
+  SEABidStatus,
+  SEA_BID_STATUS,
+  getSEABidArgs,
+  getSEAMinimumNextBid,
+  getUserSEABidStatus,
+} from "./utils";
+
+export type SEAMachineEvents =
+  | {
+      type: "SUBMIT_BID";
+      bidValue: bigint;
+    }
+  | {
+      type: "RESET";
+    }
+  | {
+      type: "LIVE_SALE_DATA_UPDATED";
+      liveSaleData?: LiveSaleData;
+    };
+
+type SimulateCreateBidRequest = SimulateContractReturnType<
+  typeof minterSEAV1Abi,
+  "createBid",
+  readonly [bigint, `0x${string}`],
+  Chain | undefined,
+  JsonRpcAccount | undefined,
+  Chain | undefined,
+  JsonRpcAccount | undefined
+>["request"];
+
+type SimulateSettleAuctionAndCreateBidRequest = SimulateContractReturnType<
+  typeof minterSEAV1Abi,
+  "settleAuctionAndCreateBid",
+  readonly [bigint, bigint, `0x${string}`],
+  Chain | undefined,
+  JsonRpcAccount | undefined,
+  Chain | undefined,
+  JsonRpcAccount | undefined
+>["request"];
+
+type SimulateSEABidRequest =
+  SimulateCreateBidRequest | SimulateSettleAuctionAndCreateBidRequest;
+
+export type SEABid = {
+  tokenId: bigint;
+  bidValue: bigint;
+};
+
+export type SEAMachineContext = {
+  // Client used to interact with ArtBlocks API with access to walletClient and publicClient
+  artblocksClient: ArtBlocksClient;
+  // Details of the project relevant to sale
+  project: NonNullable<ProjectDetails>;
+  // Reference to the live sale data polling machine actor
+  liveSaleDataPollingMachineRef: ActorRefFrom<
+    typeof liveSaleDataPollingMachine
+  >;
+  // Error message that may arise during the bidding process
+  errorMessage?: string;
+  // Value of the bid being submitted
+  bidValue?: bigint;
+  // Transaction hash of the createBid or settleAuctionAndCreateBid transaction
+  txHash?: Hex;
+  // Transaction request object for the bid transaction
+  // Useful to resimulate a transaction that fails while waiting for confirmation
+  txRequest?: SimulateSEABidRequest;
+  // Most recently confirmed bid placed by the user
+  confirmedBid?: SEABid;
+  // Token IDs the user has bid on during this session, used to detect outbids
+  userBidTokenIds: bigint[];
+  // The user's status in the most recent auction for the project
+  userBidStatus: SEABidStatus;
+};
+
+export type SEAMachineInput = Pick<
+  SEAMachineContext,
+  "artblocksClient" | "project" | "liveSaleDataPollingMachineRef"
+>;
+
+export type SEAMachineEmitted =
+  | {
+      type: "bidConfirmed";
+      bid: SEABid;
+    }
+  | {
+      type: "outbid";
+      tokenId: bigint;
+    };
+
+/**
+ * The SEAMachine manages bidding on projects configured on a serial English
+ * auction (SEA) minter. It is spawned by the ProjectSaleManagerMachine when a
+ * project has a token available to bid on.
+ *
+ * SEA minters auction one token at a time. The current auction details (the
+ * token being auctioned, highest bid and bidder, and end time) are read from
+ * the minter by the LiveSaleDataPollingMachine, which this machine watches for
+ * the lifetime of the actor. On every update the user's high bid status is
+ * recomputed and an `outbid` event is emitted if the user loses the lead.
+ *
+ * The machine starts in the 'awaitingBidAmount' state. When a 'SUBMIT_BID'
+ * event with a value of at least the minimum next bid is received, the machine
+ * reads the latest auction state from the minter and submits a bid. If the
+ * previous auction has ended but not yet been settled, the bid is placed via
+ * `settleAuctionAndCreateBid`, otherwise `createBid` is used. Bids placed
+ * within the minter's time buffer extend the auction, which is reflected in
+ * subsequent live sale data.
+ *
+ * Once the bid transaction is confirmed the machine moves to the 'bidSuccess'
+ * state. User-rejected transactions return the machine to 'awaitingBidAmount'
+ * and any other failure moves it to the 'error' state. Both 'bidSuccess' and
+ * 'error' accept a 'RESET' event to allow another bid.
+ */
+export const seaMachine = setup({
+  types: {
+    input: {} as SEAMachineInput,
+    context: {} as SEAMachineContext,
+    events: {} as SEAMachineEvents,
+    emitted: {} as SEAMachineEmitted,
+  },
+  actors: {
+    watchLiveSaleData: fromCallback<
+      SEAMachineEvents,
+      Pick<SEAMachineContext, "liveSaleDataPollingMachineRef">
+    >(({ sendBack, input }) => {
+      const subscription = input.liveSaleDataPollingMachineRef.subscribe(
+        (snapshot) => {
+          sendBack({
+            type: "LIVE_SALE_DATA_UPDATED",
+            liveSaleData: snapshot.context.liveSaleData,
+          });
+        }
+      );
+
+      return () => subscription.unsubscribe();
+    }),
+    initiateBidTx: fromPromise(
+      async ({
+        input,
+      }: {
+        input: Pick<
+          SEAMachineContext,
+          "artblocksClient" | "project" | "bidValue"
+        >;
+      }): Promise<{
+        txHash: Hex;
+        txRequest: SimulateSEABidRequest;
+      }> => {
+        const { artblocksClient, project, bidValue } = input;
+
+        await artblocksClient.switchWalletChain();
+
+        const publicClient = artblocksClient.getPublicClient();
+        const walletClient = artblocksClient.getWalletClient();
+
+        if (!publicClient) {
+          throw new Error("Public client unavailable");
+        }
+
+        if (!walletClient?.account) {
+          throw new Error("Wallet client not connected");
+        }
+
+        const minterAddress = project.minter_configuration?.minter?.address;
+
+        if (!minterAddress) {
+          throw new Error("Minter is not configured for this project");
+        }
+
+        if (bidValue == null) {
+          throw new Error("Bid value is required");
+        }
+
+        const { projectIndex, coreContractAddress } =
+          getCoreContractAddressAndProjectIndexFromProjectId(project.id);
+
+        const minterContract = getContract({
+          abi: minterSEAV1Abi,
+          address: minterAddress as Hex,
+          client: {
+            public: publicClient,
+            wallet: walletClient,
+          },
+        });
+
+        // Read the latest auction state directly from the minter so that the
+        // bid targets the correct token even if an auction has just ended
+        const [seaProjectConfig, tokenToBid] = await Promise.all([
+          minterContract.read.SEAProjectConfigurationDetails([
+            projectIndex,
+            coreContractAddress,
+          ]),
+          minterContract.read.getTokenToBid([
+            projectIndex,
+            coreContractAddress,
+          ]),
+        ]);
+
+        const auction = parseSEAAuction(seaProjectConfig.activeAuction);
+
+        const bidArgs = getSEABidArgs(auction, tokenToBid);
+
+        if (bidArgs.functionName === "settleAuctionAndCreateBid") {
+          const { request } =
+            await minterContract.simulate.settleAuctionAndCreateBid(
+              [bidArgs.settleTokenId, bidArgs.tokenId, coreContractAddress],
+              {
+                value: bidValue,
+                account: walletClient.account.address,
+              }
+            );
+
+          const txHash = await walletClient.writeContract(request);
+
+          return {
+            txHash,
+            txRequest: request,
+          };
+        }
+
+        const { request } = await minterContract.simulate.createBid(
+          [bidArgs.tokenId, coreContractAddress],
+          {
+            value: bidValue,
+            account: walletClient.account.address,
+          }
+        );
+
+        const txHash = await walletClient.writeContract(request);
+
+        return {
+          txHash,
+          txRequest: request,
+        };
+      }
+    ),
+    waitForBidTxConfirmation: fromPromise(
+      async ({
+        input,
+      }: {
+        input: Pick<
+          SEAMachineContext,
+          "artblocksClient" | "txHash" | "txRequest"
+        >;
+      }): Promise<SEABid> => {
+        const { artblocksClient, txHash, txRequest } = input;
+        const publicClient = artblocksClient.getPublicClient();
+        const walletClient = artblocksClient.getWalletClient();
+
+        if (!publicClient) {
+          throw new Error("Public client unavailable");
+        }
+
+        if (!walletClient?.account) {
+          throw new Error("Wallet client not connected");
+        }
+
+        if (!txHash || !txRequest) {
+          throw new Error("Transaction hash and request are required");
+        }
+
+        const txReceipt = await publicClient.waitForTransactionReceipt({
+          hash: txHash,
+        });
+
+        if (txReceipt.status === "reverted") {
+          // Resimulate the transaction to surface the revert reason. Chain
+          // state may have changed since the transaction was included, so
+          // fall back to a generic error if the simulation succeeds.
+          // These if statements are necessary for type checking
+          if (txRequest.functionName === "createBid") {
+            await publicClient.simulateContract(txRequest);
+          }
+
+          if (txRequest.functionName === "settleAuctionAndCreateBid") {
+            await publicClient.simulateContract(txRequest);
+          }
+
+          throw new Error("Bid transaction reverted");
+        }
+
+        const userAddress = walletClient.account.address.toLowerCase();
+        const events = parseEventLogs({
+          logs: txReceipt.logs,
+          abi: minterSEAV1Abi,
+          eventName: ["AuctionInitialized", "AuctionBid"],
+        });
+
+        const event = events.find(
+          (event) => event.args.bidder.toLowerCase() === userAddress
+        );
+
+        if (!event) {
+          throw new Error("No event found");
+        }
+
+        return {
+          tokenId: event.args.tokenId,
+          bidValue: event.args.bidAmount,
+        };
+      }
+    ),
+  },
+  actions: {
+    assignErrorMessageFromError: assign({
+      errorMessage: (
+        _,
+        params: { error: unknown; fallbackMessage?: string }
+      ) => {
+        return getMessageFromError(params.error, params.fallbackMessage);
+      },
+    }),
+    assignBidValue: assign({
+      bidValue: (_, params: { bidValue: bigint }) => params.bidValue,
+    }),
+    assignInitiatedTxHash: assign({
+      txHash: (_, params: { txHash: Hex }) => params.txHash,
+    }),
+    assignInitiatedTxRequest: assign({
+      txRequest: (_, params: { txRequest: SimulateSEABidRequest }) =>
+        params.txRequest,
+    }),
+    assignConfirmedBid: assign({
+      confirmedBid: (_, params: { bid: SEABid }) => params.bid,
+      userBidTokenIds: ({ context }, params: { bid: SEABid }) =>
+        context.userBidTokenIds.includes(params.bid.tokenId)
+          ? context.userBidTokenIds
+          : [...context.userBidTokenIds, params.bid.tokenId],
+      userBidStatus: SEA_BID_STATUS.HighestBidder,
+    }),
+    emitBidConfirmedEvent: emit((_, params: { bid: SEABid }) => ({
+      type: "bidConfirmed" as const,
+      bid: params.bid,
+    })),
+    assignUserBidStatusFromLiveSaleData: enqueueActions(
+      (
+        { context, enqueue },
+        { liveSaleData }: { liveSaleData?: LiveSaleData }
+      ) => {
+        const walletClient = context.artblocksClient.getWalletClient();
+
+        if (!walletClient?.account || !liveSaleData?.seaMinterAuctionDetails) {
+          return;
+        }
+
+        const userBidStatus = getUserSEABidStatus({
+          seaMinterAuctionDetails: liveSaleData.seaMinterAuctionDetails,
+          userAddress: walletClient.account.address,
+          userBidTokenIds: context.userBidTokenIds,
+        });
+
+        const activeAuction =
+          liveSaleData.seaMinterAuctionDetails.activeAuction;
+        if (
+          activeAuction &&
+          context.userBidStatus === SEA_BID_STATUS.HighestBidder &&
+          userBidStatus === SEA_BID_STATUS.Outbid
+        ) {
+          enqueue.emit({
+            type: "outbid",
+            tokenId: activeAuction.tokenId,
+          });
+        }
+
+        enqueue.assign({
+          userBidStatus,
+        });
+      }
+    ),
+    resetBidContext: assign({
+      errorMessage: undefined,
+      bidValue: undefined,
+      txHash: undefined,
+      txRequest: undefined,
+    }),
+  },
+  guards: {
+    isUserRejectedError: (_, { error }: { error: unknown }) => {
+      return isUserRejectedError(error);
+    },
+    isValidBidValue: ({ context }, { bidValue }: { bidValue: bigint }) => {
+      const seaMinterAuctionDetails =
+        context.liveSaleDataPollingMachineRef.getSnapshot().context.liveSaleData
+          ?.seaMinterAuctionDetails;
+
+      if (!seaMinterAuctionDetails) {
+        return false;
+      }
+
+      return bidValue >= getSEAMinimumNextBid(seaMinterAuctionDetails);
+    },
+  },
+}).createMachine({
+  id: "seaBidMachine",
+  context: ({ input }) => ({
+    artblocksClient: input.artblocksClient,
+    project: input.project,
+    liveSaleDataPollingMachineRef: input.liveSaleDataPollingMachineRef,
+    userBidTokenIds: [],
+    userBidStatus: SEA_BID_STATUS.NoBid,
+  }),
+  invoke: {
+    src: "watchLiveSaleData",
+    input: ({ context }) => ({
+      liveSaleDataPollingMachineRef: context.liveSaleDataPollingMachineRef,
+    }),
+  },
+  on: {
+    LIVE_SALE_DATA_UPDATED: {
+      actions: {
+        type: "assignUserBidStatusFromLiveSaleData",
+        params: ({ event }) => ({
+          liveSaleData: event.liveSaleData,
+        }),
+      },
+    },
+  },
+  initial: "awaitingBidAmount",
+  states: {
+    awaitingBidAmount: {
+      on: {
+        SUBMIT_BID: {
+          target: "initiatingBidTx",
+          actions: {
+            type: "assignBidValue",
+            params: ({ event }) => ({
+              bidValue: event.bidValue,
+            }),
+          },
+          guard: {
+            type: "isValidBidValue",
+            params: ({ event }) => ({
+              bidValue: event.bidValue,
+            }),
+          },
+        },
+      },
+    },
+    initiatingBidTx: {
+      invoke: {
+        src: "initiateBidTx",
+        input: ({ context }) => ({
+          artblocksClient: context.artblocksClient,
+          project: context.project,
+          bidValue: context.bidValue,
+        }),
+        onDone: {
+          target: "confirmingBidTx",
+          actions: [
+            {
+              type: "assignInitiatedTxHash",
+              params: ({ event }) => ({
+                txHash: event.output.txHash,
+              }),
+            },
+            {
+              type: "assignInitiatedTxRequest",
+              params: ({ event }) => ({
+                txRequest: event.output.txRequest,
+              }),
+            },
+          ],
+        },
+        onError: [
+          {
+            target: "awaitingBidAmount",
+            guard: {
+              type: "isUserRejectedError",
+              params: ({ event }) => ({
+                error: event.error,
+              }),
+            },
+          },
+          {
+            target: "error",
+            actions: {
+              type: "assignErrorMessageFromError",
+              params: ({ event }) => ({
+                error: event.error,
+              }),
+            },
+          },
+        ],
+      },
+    },
+    confirmingBidTx: {
+      invoke: {
+        src: "waitForBidTxConfirmation",
+        input: ({ context }) => ({
+          artblocksClient: context.artblocksClient,
+          txHash: context.txHash,
+          txRequest: context.txRequest,
+        }),
+        onDone: {
+          target: "bidSuccess",
+          actions: [
+            {
+              type: "assignConfirmedBid",
+              params: ({ event }) => ({
+                bid: event.output,
+              }),
+            },
+            {
+              type: "emitBidConfirmedEvent",
+              params: ({ event }) => ({
+                bid: event.output,
+              }),
+            },
+          ],
+        },
+        onError: {
+          target: "error",
+          actions: {
+            type: "assignErrorMessageFromError",
+            params: ({ event }) => ({
+              error: event.error,
+            }),
+          },
+        },
+      },
+    },
+    bidSuccess: {
+      on: {
+        RESET: {
+          target: "awaitingBidAmount",
+          actions: "resetBidContext",
+        },
+      },
+    },
+    error: {
+      on: {
+        RESET: {
+          target: "awaitingBidAmount",
+          actions: "resetBidContext",
+        },
+      },
+    },
+  },
+});
+
+export {
+  SEA_BID_STATUS,
+  type SEABidStatus,
+  getSEAAuctionEndDateAfterBid,
+  getSEAMinimumNextBid,
+  isSEAAuctionInExtensionWindow,
+  isSEAAuctionLive,
+} from "./utils";
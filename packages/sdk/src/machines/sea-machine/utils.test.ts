@@ -0,0 +1,260 @@
+import { describe, it, expect } from "@jest/globals";
+import { Hex, parseEther } from "viem";
+import {
+  SEA_BID_STATUS,
+  getSEAAuctionEndDateAfterBid,
+  getSEABidArgs,
+  getSEAMinimumNextBid,
+  getUserSEABidStatus,
+  isSEAAuctionInExtensionWindow,
+  isSEAAuctionLive,
+} from "./utils";
+import {
+  SEAAuction,
+  SEAMinterAuctionDetails,
+} from "../project-sale-manager-machine/utils";
+
+const USER_ADDRESS: Hex = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const OTHER_ADDRESS: Hex = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
+
+const NOW = new Date("2024-06-01T12:00:00Z");
+const secondsFromNow = (seconds: number) =>
+  new Date(NOW.getTime() + seconds * 1000);
+
+const createAuction = (overrides: Partial<SEAAuction> = {}): SEAAuction => ({
+  tokenId: BigInt(3000001),
+  currentBid: parseEther("1"),
+  currentBidder: OTHER_ADDRESS,
+  endDate: secondsFromNow(3600),
+  minBidIncrementPercentage: 5,
+  settled: false,
+  ...overrides,
+});
+
+const createAuctionDetails = (
+  overrides: Partial<SEAMinterAuctionDetails> = {}
+): SEAMinterAuctionDetails => ({
+  auctionStartDate: secondsFromNow(-86400),
+  auctionDurationSeconds: 3600,
+  basePrice: parseEther("0.5"),
+  minBidIncrementPercentage: 5,
+  minterTimeBufferSeconds: 300,
+  nextTokenIsPopulated: true,
+  tokenToBid: BigInt(3000001),
+  activeAuction: createAuction(),
+  ...overrides,
+});
+
+describe("isSEAAuctionLive", () => {
+  it("returns false when there is no auction", () => {
+    expect(isSEAAuctionLive(undefined, NOW)).toBe(false);
+  });
+
+  it("returns true before the auction end date", () => {
+    expect(isSEAAuctionLive(createAuction(), NOW)).toBe(true);
+  });
+
+  it("returns false once the auction end date has passed", () => {
+    expect(
+      isSEAAuctionLive(createAuction({ endDate: secondsFromNow(-1) }), NOW)
+    ).toBe(false);
+  });
+});
+
+describe("getSEAMinimumNextBid", () => {
+  it("applies the minimum bid increment to the current bid of a live auction", () => {
+    expect(getSEAMinimumNextBid(createAuctionDetails(), NOW)).toEqual(
+      parseEther("1.05")
+    );
+  });
+
+  it("returns the base price when no auction is live", () => {
+    expect(
+      getSEAMinimumNextBid(
+        createAuctionDetails({
+          activeAuction: createAuction({ endDate: secondsFromNow(-60) }),
+        }),
+        NOW
+      )
+    ).toEqual(parseEther("0.5"));
+
+    expect(
+      getSEAMinimumNextBid(
+        createAuctionDetails({ activeAuction: undefined }),
+        NOW
+      )
+    ).toEqual(parseEther("0.5"));
+  });
+});
+
+describe("isSEAAuctionInExtensionWindow", () => {
+  it("returns true when the auction ends within the time buffer", () => {
+    expect(
+      isSEAAuctionInExtensionWindow(
+        createAuction({ endDate: secondsFromNow(120) }),
+        300,
+        NOW
+      )
+    ).toBe(true);
+  });
+
+  it("returns false when the auction ends after the time buffer", () => {
+    expect(isSEAAuctionInExtensionWindow(createAuction(), 300, NOW)).toBe(
+      false
+    );
+  });
+
+  it("returns false when the auction has ended", () => {
+    expect(
+      isSEAAuctionInExtensionWindow(
+        createAuction({ endDate: secondsFromNow(-10) }),
+        300,
+        NOW
+      )
+    ).toBe(false);
+  });
+});
+
+describe("getSEAAuctionEndDateAfterBid", () => {
+  it("extends the auction when a bid is placed within the time buffer", () => {
+    expect(
+      getSEAAuctionEndDateAfterBid(
+        createAuction({ endDate: secondsFromNow(120) }),
+        300,
+        NOW
+      )
+    ).toEqual(secondsFromNow(300));
+  });
+
+  it("keeps the end date when a bid is placed before the time buffer", () => {
+    const auction = createAuction();
+
+    expect(getSEAAuctionEndDateAfterBid(auction, 300, NOW)).toEqual(
+      auction.endDate
+    );
+  });
+});
+
+describe("getSEABidArgs", () => {
+  it("bids on the live auction token", () => {
+    expect(getSEABidArgs(createAuction(), BigInt(3000001), NOW)).toEqual({
+      functionName: "createBid",
+      tokenId: BigInt(3000001),
+    });
+  });
+
+  it("bids on the next token when there is no auction", () => {
+    expect(getSEABidArgs(undefined, BigInt(3000000), NOW)).toEqual({
+      functionName: "createBid",
+      tokenId: BigInt(3000000),
+    });
+  });
+
+  it("bids on the next token when the previous auction is settled", () => {
+    expect(
+      getSEABidArgs(
+        createAuction({ endDate: secondsFromNow(-60), settled: true }),
+        BigInt(3000002),
+        NOW
+      )
+    ).toEqual({
+      functionName: "createBid",
+      tokenId: BigInt(3000002),
+    });
+  });
+
+  it("settles an ended auction before bidding on the next token", () => {
+    expect(
+      getSEABidArgs(
+        createAuction({ endDate: secondsFromNow(-60) }),
+        BigInt(3000002),
+        NOW
+      )
+    ).toEqual({
+      functionName: "settleAuctionAndCreateBid",
+      settleTokenId: BigInt(3000001),
+      tokenId: BigInt(3000002),
+    });
+  });
+});
+
+describe("getUserSEABidStatus", () => {
+  it("returns NoBid when there is no auction", () => {
+    expect(
+      getUserSEABidStatus({
+        seaMinterAuctionDetails: createAuctionDetails({
+          activeAuction: undefined,
+        }),
+        userAddress: USER_ADDRESS,
+        userBidTokenIds: [],
+        now: NOW,
+      })
+    ).toEqual(SEA_BID_STATUS.NoBid);
+  });
+
+  it("returns HighestBidder when the user leads a live auction", () => {
+    expect(
+      getUserSEABidStatus({
+        seaMinterAuctionDetails: createAuctionDetails({
+          activeAuction: createAuction({
+            currentBidder: USER_ADDRESS.toLowerCase() as Hex,
+          }),
+        }),
+        userAddress: USER_ADDRESS,
+        userBidTokenIds: [],
+        now: NOW,
+      })
+    ).toEqual(SEA_BID_STATUS.HighestBidder);
+  });
+
+  it("returns Outbid when the user bid on a live auction but no longer leads", () => {
+    expect(
+      getUserSEABidStatus({
+        seaMinterAuctionDetails: createAuctionDetails(),
+        userAddress: USER_ADDRESS,
+        userBidTokenIds: [BigInt(3000001)],
+        now: NOW,
+      })
+    ).toEqual(SEA_BID_STATUS.Outbid);
+  });
+
+  it("returns NoBid when the user only bid on a previous auction", () => {
+    expect(
+      getUserSEABidStatus({
+        seaMinterAuctionDetails: createAuctionDetails(),
+        userAddress: USER_ADDRESS,
+        userBidTokenIds: [BigInt(3000000)],
+        now: NOW,
+      })
+    ).toEqual(SEA_BID_STATUS.NoBid);
+  });
+
+  it("returns Won or Lost once the auction has ended", () => {
+    const endDate = secondsFromNow(-60);
+
+    expect(
+      getUserSEABidStatus({
+        seaMinterAuctionDetails: createAuctionDetails({
+          activeAuction: createAuction({
+            currentBidder: USER_ADDRESS,
+            endDate,
+          }),
+        }),
+        userAddress: USER_ADDRESS,
+        userBidTokenIds: [BigInt(3000001)],
+        now: NOW,
+      })
+    ).toEqual(SEA_BID_STATUS.Won);
+
+    expect(
+      getUserSEABidStatus({
+        seaMinterAuctionDetails: createAuctionDetails({
+          activeAuction: createAuction({ endDate }),
+        }),
+        userAddress: USER_ADDRESS,
+        userBidTokenIds: [BigInt(3000001)],
+        now: NOW,
+      })
+    ).toEqual(SEA_BID_STATUS.Lost);
+  });
+});
@@ -0,0 +1,183 @@
+import { Hex } from "viem";
+import {
+  SEAAuction,
+  SEAMinterAuctionDetails,
+} from "../project-sale-manager-machine/utils";
+
+export const SEA_BID_STATUS = {
+  NoBid: "NoBid", // User has not bid on the current auction
+  HighestBidder: "HighestBidder", // User holds the highest bid in a live auction
+  Outbid: "Outbid", // User bid on the live auction but has been outbid
+  Won: "Won", // User held the highest bid when the auction ended
+  Lost: "Lost", // User bid on the auction but did not win
+} as const;
+
+export type SEABidStatus = (typeof SEA_BID_STATUS)[keyof typeof SEA_BID_STATUS];
+
+export type SEABidArgs =
+  | {
+      functionName: "createBid";
+      tokenId: bigint;
+    }
+  | {
+      functionName: "settleAuctionAndCreateBid";
+      settleTokenId: bigint;
+      tokenId: bigint;
+    };
+
+/**
+ * Determines if a SEA auction is currently accepting bids.
+ *
+ * @param auction - The auction to check.
+ * @param now - The current date, defaults to now.
+ * @returns A boolean indicating whether the auction is live.
+ */
+export function isSEAAuctionLive(
+  auction: SEAAuction | undefined,
+  now: Date = new Date()
+): boolean {
+  return Boolean(auction && auction.endDate > now);
+}
+
+/**
+ * Calculates the minimum bid that would make the user the highest bidder.
+ * This replicates the logic in the SEA minter's `getPriceInfo` view.
+ *
+ * @param seaMinterAuctionDetails - Live SEA auction details for the project.
+ * @param now - The current date, defaults to now.
+ * @returns The minimum bid value in wei.
+ */
+export function getSEAMinimumNextBid(
+  seaMinterAuctionDetails: SEAMinterAuctionDetails,
+  now: Date = new Date()
+): bigint {
+  const { activeAuction, basePrice } = seaMinterAuctionDetails;
+
+  if (!activeAuction || !isSEAAuctionLive(activeAuction, now)) {
+    return basePrice;
+  }
+
+  return (
+    (activeAuction.currentBid *
+      BigInt(100 + activeAuction.minBidIncrementPercentage)) /
+    BigInt(100)
+  );
+}
+
+/**
+ * Determines if a bid placed now would extend the end of the auction.
+ *
+ * @param auction - The auction to check.
+ * @param minterTimeBufferSeconds - The minter's time buffer.
+ * @param now - The current date, defaults to now.
+ * @returns A boolean indicating whether the auction is in its extension window.
+ */
+export function isSEAAuctionInExtensionWindow(
+  auction: SEAAuction | undefined,
+  minterTimeBufferSeconds: number,
+  now: Date = new Date()
+): boolean {
+  if (!auction || !isSEAAuctionLive(auction, now)) {
+    return false;
+  }
+
+  return (
+    auction.endDate.getTime() - now.getTime() <= minterTimeBufferSeconds * 1000
+  );
+}
+
+/**
+ * Calculates the end date of an auction after a bid is placed. Bids placed
+ * within the minter's time buffer push the end of the auction out so that at
+ * least `minterTimeBufferSeconds` remain. This replicates the logic in
+ * `SEALib.auctionUpdateBid`.
+ *
+ * @param auction - The auction being bid on.
+ * @param minterTimeBufferSeconds - The minter's time buffer.
+ * @param bidDate - The time of the bid, defaults to now.
+ * @returns The end date of the auction after the bid.
+ */
+export function getSEAAuctionEndDateAfterBid(
+  auction: SEAAuction,
+  minterTimeBufferSeconds: number,
+  bidDate: Date = new Date()
+): Date {
+  const minEndDate = new Date(
+    bidDate.getTime() + minterTimeBufferSeconds * 1000
+  );
+
+  return auction.endDate < minEndDate ? minEndDate : auction.endDate;
+}
+
+/**
+ * Determines which minter function and token IDs should be used to place a
+ * bid. If the most recent auction has ended but has not been settled, it is
+ * settled in the same transaction as the bid on the next token.
+ *
+ * @param activeAuction - The most recent auction for the project, if any.
+ * @param tokenToBid - The token ID returned by the minter's `getTokenToBid`.
+ * @param now - The current date, defaults to now.
+ * @returns The function name and token IDs to use when bidding.
+ */
+export function getSEABidArgs(
+  activeAuction: SEAAuction | undefined,
+  tokenToBid: bigint,
+  now: Date = new Date()
+): SEABidArgs {
+  if (
+    activeAuction &&
+    !activeAuction.settled &&
+    !isSEAAuctionLive(activeAuction, now)
+  ) {
+    return {
+      functionName: "settleAuctionAndCreateBid",
+      settleTokenId: activeAuction.tokenId,
+      tokenId: tokenToBid,
+    };
+  }
+
+  return {
+    functionName: "createBid",
+    tokenId: tokenToBid,
+  };
+}
+
+/**
+ * Determines the user's bid status for the most recent auction of a project.
+ *
+ * @param params - The parameters for determining bid status.
+ * @param params.seaMinterAuctionDetails - Live SEA auction details for the project.
+ * @param params.userAddress - The address of the user.
+ * @param params.userBidTokenIds - Token IDs the user is known to have bid on.
+ * @param params.now - The current date, defaults to now.
+ * @returns The user's bid status.
+ */
+export function getUserSEABidStatus({
+  seaMinterAuctionDetails,
+  userAddress,
+  userBidTokenIds,
+  now = new Date(),
+}: {
+  seaMinterAuctionDetails?: SEAMinterAuctionDetails;
+  userAddress: Hex;
+  userBidTokenIds: bigint[];
+  now?: Date;
+}): SEABidStatus {
+  const auction = seaMinterAuctionDetails?.activeAuction;
+
+  if (!auction) {
+    return SEA_BID_STATUS.NoBid;
+  }
+
+  const isLive = isSEAAuctionLive(auction, now);
+
+  if (auction.currentBidder.toLowerCase() === userAddress.toLowerCase()) {
+    return isLive ? SEA_BID_STATUS.HighestBidder : SEA_BID_STATUS.Won;
+  }
+
+  if (!userBidTokenIds.includes(auction.tokenId)) {
+    return SEA_BID_STATUS.NoBid;
+  }
+
+  return isLive ? SEA_BID_STATUS.Outbid : SEA_BID_STATUS.Lost;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "@jest/globals";
+import { getWorstCaseExcessSettlementRefund } from "./utils";
+import { Minter_Type_Names_Enum } from "../generated/graphql";
+
+const createProject = (
+  minterType: Minter_Type_Names_Enum,
+  basePrice?: string | null
+) =>
+  ({
+    minter_configuration: {
+      base_price: basePrice,
+      minter: { minter_type: minterType },
+    },
+  }) as unknown as Parameters<
+    typeof getWorstCaseExcessSettlementRefund
+  >[0]["project"];
+
+describe("getWorstCaseExcessSettlementRefund", () => {
+  it("is the purchase price above the auction's resting price", () => {
+    expect(
+      getWorstCaseExcessSettlementRefund({
+        project: createProject(
+          Minter_Type_Names_Enum.MinterDaExpSettlementV3,
+          "100"
+        ),
+        purchasePrice: BigInt(250),
+      })
+    ).toEqual(BigInt(150));
+  });
+
+  it("is zero for purchases at or below the resting price", () => {
+    const project = createProject(
+      Minter_Type_Names_Enum.MinterDaExpSettlementV3,
+      "100"
+    );
+
+    expect(
+      getWorstCaseExcessSettlementRefund({
+        project,
+        purchasePrice: BigInt(100),
+      })
+    ).toEqual(BigInt(0));
+    expect(
+      getWorstCaseExcessSettlementRefund({ project, purchasePrice: BigInt(50) })
+    ).toEqual(BigInt(0));
+  });
+
+  it("is the full purchase price for settlement minters without a base price", () => {
+    expect(
+      getWorstCaseExcessSettlementRefund({
+        project: createProject(
+          Minter_Type_Names_Enum.MinterDaExpSettlementV3,
+          null
+        ),
+        purchasePrice: BigInt(250),
+      })
+    ).toEqual(BigInt(250));
+  });
+
+  it("is undefined for minters without settlement", () => {
+    expect(
+      getWorstCaseExcessSettlementRefund({
+        project: createProject(Minter_Type_Names_Enum.MinterDaExpV5, "100"),
+        purchasePrice: BigInt(250),
+      })
+    ).toBeUndefined();
+  });
+});
@@ -1,4 +1,7 @@
-import { Minter_Type_Names_Enum } from "../generated/graphql";
+import {
+  Minter_Type_Names_Enum,
+  ProjectDetailsFragment,
+} from "../generated/graphql";
 import {
   BaseError,
   Hex,
@@ -23,6 +26,9 @@ export const SUPPORTED_MINTER_TYPES = [
   Minter_Type_Names_Enum.MinterSetPriceErc20V5,
   Minter_Type_Names_Enum.MinterMinPriceV0,
   Minter_Type_Names_Enum.MinterMinPriceMerkleV0,
+  Minter_Type_Names_Enum.MinterSeav1,
+  Minter_Type_Names_Enum.MinterSetPricePolyptychV5,
+  Minter_Type_Names_Enum.MinterSetPricePolyptychErc20V5,
 ];
 
 export const SUPPORTED_SETTLEMENT_CLAIM_MINTER_TYPES = [
@@ -42,10 +48,31 @@ const HOLDER_MINTER_TYPES = [
   Minter_Type_Names_Enum.MinterSetPriceHolderV5,
 ];
 
-const ERC20_MINTER_TYPES = [Minter_Type_Names_Enum.MinterSetPriceErc20V5];
+const ERC20_MINTER_TYPES = [
+  Minter_Type_Names_Enum.MinterSetPriceErc20V5,
+  Minter_Type_Names_Enum.MinterSetPricePolyptychErc20V5,
+];
+
+const POLYPTYCH_MINTER_TYPES = [
+  Minter_Type_Names_Enum.MinterSetPricePolyptychV5,
+  Minter_Type_Names_Enum.MinterSetPricePolyptychErc20V5,
+];
 
 const RAM_MINTER_TYPES = [Minter_Type_Names_Enum.MinterRamv0];
 
+const SEA_MINTER_TYPES = [Minter_Type_Names_Enum.MinterSeav1];
+
+/**
+ * Minter types that support purchasing multiple tokens in a single flow.
+ * These have a fixed price, so every purchase in the batch costs the same.
+ */
+const BATCH_PURCHASE_MINTER_TYPES = [
+  Minter_Type_Names_Enum.MinterSetPriceV5,
+  Minter_Type_Names_Enum.MinterSetPriceMerkleV5,
+  Minter_Type_Names_Enum.MinterMinPriceV0,
+  Minter_Type_Names_Enum.MinterMinPriceMerkleV0,
+];
+
 /**
  * Checks if a minter type is supported by the purchase machine.
  *
@@ -100,6 +127,21 @@ export function isERC20MinterType(
   ).includes(minterType);
 }
 
+/**
+ * Checks if a minter type is a Polyptych minter. Note that the ERC20 variant
+ * of the Polyptych minter is also considered an ERC20 minter.
+ *
+ * @param minterType - The minter type to check.
+ * @returns A boolean indicating whether the minter type is a Polyptych minter.
+ */
+export function isPolyptychMinterType(
+  minterType: Minter_Type_Names_Enum | undefined
+) {
+  return (
+    POLYPTYCH_MINTER_TYPES as Array<Minter_Type_Names_Enum | undefined>
+  ).includes(minterType);
+}
+
 /**
  * Checks if a minter type is a RAM minter.
  *
@@ -114,6 +156,86 @@ export function isRAMMinterType(
   ).includes(minterType);
 }
 
+/**
+ * Checks if a minter type is a serial English auction (SEA) minter.
+ *
+ * @param minterType - The minter type to check.
+ * @returns A boolean indicating whether the minter type is a SEA minter.
+ */
+export function isSEAMinterType(
+  minterType: Minter_Type_Names_Enum | undefined
+) {
+  return (
+    SEA_MINTER_TYPES as Array<Minter_Type_Names_Enum | undefined>
+  ).includes(minterType);
+}
+
+/**
+ * Checks if a minter type supports purchasing multiple tokens in one flow.
+ *
+ * @param minterType - The minter type to check.
+ * @returns A boolean indicating whether the minter type supports batch purchases.
+ */
+export function isBatchPurchaseMinterType(
+  minterType: Minter_Type_Names_Enum | undefined
+) {
+  return (
+    BATCH_PURCHASE_MINTER_TYPES as Array<Minter_Type_Names_Enum | undefined>
+  ).includes(minterType);
+}
+
+/**
+ * Checks if a minter type is a settlement auction minter, where purchasers
+ * can claim excess funds once the auction's final price is known.
+ *
+ * @param minterType - The minter type to check.
+ * @returns A boolean indicating whether the minter type is a settlement minter.
+ */
+export function isSettlementMinterType(
+  minterType: Minter_Type_Names_Enum | undefined
+) {
+  return (
+    SUPPORTED_SETTLEMENT_CLAIM_MINTER_TYPES as Array<
+      Minter_Type_Names_Enum | undefined
+    >
+  ).includes(minterType);
+}
+
+/**
+ * Calculates the worst-case excess settlement funds for a purchase from a
+ * settlement auction. Settlement minters keep the full purchase price and
+ * refund the difference from the auction's final price once it is known.
+ * The final price can fall as low as the auction's resting price, so this is
+ * the most that could be held by the minter and later refunded to the
+ * purchaser.
+ *
+ * @param params - The parameters for the calculation.
+ * @param params.project - The project being purchased from.
+ * @param params.purchasePrice - The price paid for the token, e.g. the maximum
+ * price approved by the user.
+ * @returns The worst-case excess settlement refund in wei, or undefined if
+ * the project is not configured with a settlement minter.
+ */
+export function getWorstCaseExcessSettlementRefund({
+  project,
+  purchasePrice,
+}: {
+  project: Pick<ProjectDetailsFragment, "minter_configuration">;
+  purchasePrice: bigint;
+}): bigint | undefined {
+  const minterConfiguration = project.minter_configuration;
+
+  if (!isSettlementMinterType(minterConfiguration?.minter?.minter_type)) {
+    return undefined;
+  }
+
+  const restingPrice = BigInt(minterConfiguration?.base_price ?? 0);
+
+  return purchasePrice > restingPrice
+    ? purchasePrice - restingPrice
+    : BigInt(0);
+}
+
 /**
  * Checks if an error is a user-rejected transaction error.
  *
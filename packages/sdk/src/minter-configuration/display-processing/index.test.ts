@@ -1,5 +1,6 @@
 import { PublicClient, zeroAddress } from "viem";
 import { processValueForDisplay } from "./index";
+import { ProcessorRegistry } from "../processor-registry";
 import { ProjectMinterConfigurationDetailsFragment } from "../../generated/graphql";
 
 function generateArgs(value: any, displayProcessing?: string) {
@@ -78,6 +79,36 @@ describe("processValueForDisplay", () => {
     await expect(processValueForDisplay(args)).rejects.toThrow();
   });
 
+  it("should convert basis points to a percentage", async () => {
+    const result = await processValueForDisplay(
+      generateArgs("250", "basisPointsToPercent")
+    );
+    expect(result).toEqual(2.5);
+  });
+
+  it("should convert seconds to a duration", async () => {
+    const result = await processValueForDisplay(
+      generateArgs(5400, "secondsToDuration")
+    );
+    expect(result).toEqual("1h 30m");
+  });
+
+  it("should throw an error for invalid input of a processor", async () => {
+    await expect(
+      processValueForDisplay(generateArgs(-1, "secondsToDuration"))
+    ).rejects.toThrow("Invalid input for secondsToDuration processing");
+  });
+
+  it("should prefer registered processors over built-in ones", async () => {
+    const result = await processValueForDisplay({
+      ...generateArgs("250", "basisPointsToPercent"),
+      displayProcessors: new ProcessorRegistry({
+        basisPointsToPercent: { process: (value) => `${value} bps` },
+      }),
+    });
+    expect(result).toEqual("250 bps");
+  });
+
   it("should return the value as is for undefined displayProcessing", async () => {
     const value = "some value";
     const args = generateArgs(value);
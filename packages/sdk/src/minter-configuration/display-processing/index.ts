@@ -1,15 +1,125 @@
 import { ProjectMinterConfigurationDetailsFragment } from "../../generated/graphql";
 import { BaseFormFieldSchema } from "../../json-schema";
 import { formatEther, formatUnits, Hex, PublicClient, zeroAddress } from "viem";
+import { z } from "zod";
+import {
+  DisplayProcessor,
+  DisplayProcessorRegistry,
+  ProcessorRegistry,
+  runProcessor,
+} from "../processor-registry";
+import { formatSecondsAsDuration } from "../utils/duration";
+
+const weiToEth: DisplayProcessor = {
+  process: async (value: unknown, { minterConfiguration, publicClient }) => {
+    const valueType = typeof value;
+    if (
+      value &&
+      valueType !== "string" &&
+      valueType !== "number" &&
+      valueType !== "bigint"
+    ) {
+      throw new Error(
+        `Unexpected value type for weiToEth transformation. Expected string, number, or bigint, received ${valueType}`
+      );
+    }
+
+    if (value === undefined || value === null) {
+      return "";
+    }
+
+    if (
+      minterConfiguration?.currency_address &&
+      minterConfiguration.currency_address !== zeroAddress
+    ) {
+      try {
+        const decimals = await publicClient.readContract({
+          address: minterConfiguration.currency_address as Hex,
+          abi: [
+            {
+              inputs: [],
+              name: "decimals",
+              outputs: [
+                {
+                  internalType: "uint8",
+                  name: "",
+                  type: "uint8",
+                },
+              ],
+              stateMutability: "view",
+              type: "function",
+            },
+          ] as const,
+          functionName: "decimals",
+        });
+
+        return Number(
+          formatUnits(BigInt(value as string | number | bigint), decimals)
+        );
+      } catch (e) {
+        console.warn(
+          "Failed to fetch currency decimals, falling back to 18",
+          e
+        );
+      }
+    }
+
+    return Number(formatEther(BigInt(value as string | number | bigint)));
+  },
+};
+
+const unixTimestampToDatetime: DisplayProcessor = {
+  process: (value: unknown) => {
+    const valueType = typeof value;
+    if (value && valueType !== "number" && valueType !== "string") {
+      throw new Error(
+        `Unexpected value type for unixTimestampToDatetime transformation. Expected string or number, received ${valueType}`
+      );
+    }
+    return value
+      ? new Date(Number(value) * 1000).toISOString()
+      : new Date().toISOString();
+  },
+};
+
+const basisPointsToPercent: DisplayProcessor<number | null | undefined> = {
+  input: z.coerce.number().nullish(),
+  process: (value) => (value == null ? "" : value / 100),
+};
+
+const secondsToDuration: DisplayProcessor<number | null | undefined> = {
+  input: z.coerce.number().int().nonnegative().nullish(),
+  process: (value) => (value == null ? "" : formatSecondsAsDuration(value)),
+};
+
+/**
+ * The built-in display processors, used for names without a processor
+ * registered on the client:
+ *
+ * - `weiToEth`: an amount in base units of the project's currency to a
+ *   decimal amount, reading the decimals of ERC20 currencies.
+ * - `unixTimestampToDatetime`: a unix timestamp to an ISO date string,
+ *   defaulting to now.
+ * - `basisPointsToPercent`: basis points to a percentage.
+ * - `secondsToDuration`: seconds to a duration like "1h 30m".
+ */
+export const BUILT_IN_DISPLAY_PROCESSORS: DisplayProcessorRegistry =
+  new ProcessorRegistry<DisplayProcessor>({
+    weiToEth,
+    unixTimestampToDatetime,
+    basisPointsToPercent,
+    secondsToDuration,
+  });
 
 /**
- * This function processes a value for display based on the provided displayProcessing type.
- * It currently supports two types of transformations: 'weiToEth' and 'unixTimestampToDatetime'.
+ * This function processes a value for display based on the provided displayProcessing type,
+ * using the processor registered under that name, or the built-in processor of that name.
  *
  * @param value - The value to be processed for display.
- * @param displayProcessing - The type of processing to be applied. It can be 'weiToEth' or 'unixTimestampToDatetime'.
+ * @param displayProcessing - The name of the processor to apply, for example 'weiToEth' or 'unixTimestampToDatetime'.
+ * @param displayProcessors - Processors registered on the client, which take precedence over the built-in processors.
  *
- * @returns The processed value ready for display.
+ * @returns The processed value ready for display, or the value itself if no processor is registered under the name.
  *
  * @throws Will throw an error if the value type is not compatible with the transformation type.
  */
@@ -18,76 +128,26 @@ export async function processValueForDisplay(args: {
   displayProcessing?: BaseFormFieldSchema["displayProcessing"];
   minterConfiguration: ProjectMinterConfigurationDetailsFragment | null;
   publicClient: PublicClient;
+  displayProcessors?: DisplayProcessorRegistry;
 }): Promise<any> {
-  const { value, displayProcessing, minterConfiguration, publicClient } = args;
-
-  const valueType = typeof value;
-  switch (displayProcessing) {
-    case "weiToEth": {
-      if (
-        value &&
-        valueType !== "string" &&
-        valueType !== "number" &&
-        valueType !== "bigint"
-      ) {
-        throw new Error(
-          `Unexpected value type for weiToEth transformation. Expected string, number, or bigint, received ${valueType}`
-        );
-      }
-
-      if (value === undefined || value === null) {
-        return "";
-      }
+  const {
+    value,
+    displayProcessing,
+    minterConfiguration,
+    publicClient,
+    displayProcessors,
+  } = args;
 
-      if (
-        minterConfiguration?.currency_address &&
-        minterConfiguration.currency_address !== zeroAddress
-      ) {
-        try {
-          const decimals = await publicClient.readContract({
-            address: minterConfiguration.currency_address as Hex,
-            abi: [
-              {
-                inputs: [],
-                name: "decimals",
-                outputs: [
-                  {
-                    internalType: "uint8",
-                    name: "",
-                    type: "uint8",
-                  },
-                ],
-                stateMutability: "view",
-                type: "function",
-              },
-            ] as const,
-            functionName: "decimals",
-          });
-
-          return Number(
-            formatUnits(BigInt(value as string | number | bigint), decimals)
-          );
-        } catch (e) {
-          console.warn(
-            "Failed to fetch currency decimals, falling back to 18",
-            e
-          );
-        }
-      }
-
-      return Number(formatEther(BigInt(value as string | number | bigint)));
-    }
-    case "unixTimestampToDatetime": {
-      if (value && valueType !== "number" && valueType !== "string") {
-        throw new Error(
-          `Unexpected value type for unixTimestampToDatetime transformation. Expected string or number, received ${valueType}`
-        );
-      }
-      return value
-        ? new Date(Number(value) * 1000).toISOString()
-        : new Date().toISOString();
-    }
-    default:
-      return value;
+  const processor = displayProcessing
+    ? (displayProcessors?.get(displayProcessing) ??
+      BUILT_IN_DISPLAY_PROCESSORS.get(displayProcessing))
+    : undefined;
+  if (!displayProcessing || !processor) {
+    return value;
   }
+
+  return runProcessor(displayProcessing, processor, value, {
+    minterConfiguration,
+    publicClient,
+  });
 }
@@ -17,6 +17,7 @@ export const getProjectMinterConfigurationQueryDocument = graphql(
               minter_type
               type {
                 label
+                project_configuration_schema
                 unversioned_type
                 version_number
               }
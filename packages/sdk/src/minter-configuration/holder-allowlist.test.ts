@@ -0,0 +1,464 @@
+import {
+  Hex,
+  PublicClient,
+  WalletClient,
+  decodeFunctionData,
+  encodeFunctionData,
+} from "viem";
+import { submitBatch } from "../utils/submit-batch";
+import { submitTransaction } from "../utils/submit-transaction";
+import {
+  HolderAllowlistEventsError,
+  InvalidHolderAllowlistProjectsError,
+  diffHolderAllowlist,
+  getHolderAllowlistEditor,
+  getHolderAllowlistProjectIds,
+  isHolderAllowlistMinterType,
+  normalizeHolderAllowlistProjectId,
+  prepareHolderAllowlistCalls,
+  resolveHolderAllowlistProjects,
+} from "./holder-allowlist";
+
+jest.mock("../utils/submit-batch", () => ({
+  submitBatch: jest.fn().mockResolvedValue({ blockHash: "0xbatch" }),
+}));
+jest.mock("../utils/submit-transaction", () => ({
+  submitTransaction: jest.fn().mockResolvedValue({ blockHash: "0xblock" }),
+}));
+
+const CORE_CONTRACT: Hex = "0x0e4e004e1f31b40bf4d7eefbd99d376a23065122";
+const OTHER_CORE_CONTRACT: Hex = "0x99a9b7c1116f9ceeb1652de04d5969cce509b069";
+const UNREGISTERED_CORE_CONTRACT: Hex =
+  "0x1111111111111111111111111111111111111111";
+const MINTER: Hex = "0xb3f8b4cb7ed8f5d2d9ab1e1a9a2b4fd6e1a28b1f";
+const MINTER_FILTER: Hex = "0x29e9f09244497503f304fa549d50efc751d818d2";
+const CORE_REGISTRY: Hex = "0x2ee7b9bb2e038be7323a119701a191c030a61ec6";
+const projectId = `${CORE_CONTRACT}-3`;
+
+// Mocks a holder minter deployed at block 100 with the given projects
+// allowlisted, and core contracts with 10 projects each
+function createMockPublicClient({
+  allowedProjectIds = [] as string[],
+  logs = [] as unknown[],
+} = {}) {
+  return {
+    getBlockNumber: jest.fn().mockResolvedValue(BigInt(1000)),
+    getBlock: jest.fn().mockResolvedValue({ number: BigInt(900) }),
+    getCode: jest.fn(async ({ blockNumber }: { blockNumber: bigint }) =>
+      blockNumber >= BigInt(100) ? "0x1234" : undefined
+    ),
+    getContractEvents: jest.fn().mockResolvedValue(logs),
+    readContract: jest.fn(async ({ address, functionName, args }) => {
+      switch (functionName) {
+        case "allowedProjectHolders":
+          return allowedProjectIds.includes(`${args[2]}-${args[3]}`);
+        case "coreRegistry":
+          return CORE_REGISTRY;
+        case "isRegisteredContract":
+          return args[0] !== UNREGISTERED_CORE_CONTRACT;
+        case "nextProjectId":
+          return BigInt(10);
+        case "projectDetails":
+          return [`Project ${args[0]} on ${address.slice(0, 6)}`, "", ""];
+        default:
+          throw new Error(`Unexpected read of ${functionName}`);
+      }
+    }),
+  } as unknown as PublicClient & {
+    getBlock: jest.Mock;
+    getBlockNumber: jest.Mock;
+    getCode: jest.Mock;
+    getContractEvents: jest.Mock;
+    readContract: jest.Mock;
+  };
+}
+
+function createLog(
+  eventName: string,
+  ownedNFTAddresses: Hex[],
+  ownedNFTProjectIds: bigint[]
+) {
+  return { eventName, args: { ownedNFTAddresses, ownedNFTProjectIds } };
+}
+
+describe("isHolderAllowlistMinterType", () => {
+  it("matches holder and polyptych minters", () => {
+    expect(isHolderAllowlistMinterType("MinterSetPriceHolderV5")).toBe(true);
+    expect(isHolderAllowlistMinterType("MinterDAExpHolderV5")).toBe(true);
+    expect(isHolderAllowlistMinterType("MinterSetPricePolyptychV5")).toBe(true);
+    expect(isHolderAllowlistMinterType("MinterSetPriceV5")).toBe(false);
+    expect(isHolderAllowlistMinterType(undefined)).toBe(false);
+  });
+});
+
+describe("normalizeHolderAllowlistProjectId", () => {
+  it("lowercases addresses and removes leading zeros", () => {
+    expect(
+      normalizeHolderAllowlistProjectId(
+        " 0x0E4E004E1F31B40BF4D7EEFBD99D376A23065122-007 "
+      )
+    ).toEqual(`${CORE_CONTRACT}-7`);
+  });
+
+  it("throws for invalid project ids", () => {
+    for (const id of ["0x123-1", `${CORE_CONTRACT}`, `${CORE_CONTRACT}-a`]) {
+      expect(() => normalizeHolderAllowlistProjectId(id)).toThrow(
+        `Invalid project ID ${id}`
+      );
+    }
+  });
+});
+
+describe("getHolderAllowlistProjectIds", () => {
+  it("replays events and confirms the projects on-chain", async () => {
+    const publicClient = createMockPublicClient({
+      allowedProjectIds: [`${CORE_CONTRACT}-1`, `${OTHER_CORE_CONTRACT}-2`],
+      logs: [
+        createLog(
+          "AllowedHoldersOfProjects",
+          [CORE_CONTRACT, CORE_CONTRACT],
+          [BigInt(1), BigInt(5)]
+        ),
+        createLog("RemovedHoldersOfProjects", [CORE_CONTRACT], [BigInt(5)]),
+      ],
+    });
+
+    const projectIds = await getHolderAllowlistProjectIds({
+      publicClient,
+      minterAddress: MINTER,
+      projectId,
+      // Indexed projects that were missed in the events are confirmed too
+      candidateProjectIds: [
+        `${OTHER_CORE_CONTRACT.toUpperCase().replace("0X", "0x")}-2`,
+      ],
+    });
+
+    expect(projectIds.sort()).toEqual(
+      [`${CORE_CONTRACT}-1`, `${OTHER_CORE_CONTRACT}-2`].sort()
+    );
+    expect(publicClient.getContractEvents).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: MINTER,
+        args: { projectId: BigInt(3), coreContract: CORE_CONTRACT },
+        // Read from the minter's deployment to the latest block
+        fromBlock: BigInt(100),
+        toBlock: BigInt(1000),
+      })
+    );
+  });
+
+  it("reads events in pages of blocks", async () => {
+    const publicClient = createMockPublicClient({
+      allowedProjectIds: [`${CORE_CONTRACT}-1`, `${CORE_CONTRACT}-2`],
+    });
+    publicClient.getContractEvents
+      .mockResolvedValueOnce([
+        createLog("AllowedHoldersOfProjects", [CORE_CONTRACT], [BigInt(1)]),
+      ])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        createLog("AllowedHoldersOfProjects", [CORE_CONTRACT], [BigInt(2)]),
+      ]);
+
+    const projectIds = await getHolderAllowlistProjectIds({
+      publicClient,
+      minterAddress: MINTER,
+      projectId,
+      logBlockRange: 400,
+    });
+
+    expect(projectIds.sort()).toEqual(
+      [`${CORE_CONTRACT}-1`, `${CORE_CONTRACT}-2`].sort()
+    );
+    expect(
+      publicClient.getContractEvents.mock.calls.map(
+        ([{ fromBlock, toBlock }]) => [fromBlock, toBlock]
+      )
+    ).toEqual([
+      [BigInt(100), BigInt(499)],
+      [BigInt(500), BigInt(899)],
+      [BigInt(900), BigInt(1000)],
+    ]);
+  });
+
+  it("reads events from the given block", async () => {
+    const publicClient = createMockPublicClient();
+
+    await getHolderAllowlistProjectIds({
+      publicClient,
+      minterAddress: MINTER,
+      projectId,
+      fromBlock: BigInt(500),
+    });
+
+    expect(publicClient.getContractEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: BigInt(500) })
+    );
+  });
+
+  it("reads events from the block of the given tag", async () => {
+    const publicClient = createMockPublicClient();
+
+    await getHolderAllowlistProjectIds({
+      publicClient,
+      minterAddress: MINTER,
+      projectId,
+      fromBlock: "finalized",
+    });
+
+    expect(publicClient.getBlock).toHaveBeenCalledWith({
+      blockTag: "finalized",
+    });
+    expect(publicClient.getContractEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: BigInt(900) })
+    );
+  });
+
+  it("reads events from the earliest block if the deployment block can't be found", async () => {
+    const publicClient = createMockPublicClient();
+    publicClient.getCode.mockRejectedValueOnce(new Error("Missing trie node"));
+
+    await getHolderAllowlistProjectIds({
+      publicClient,
+      minterAddress: MINTER,
+      projectId,
+      logBlockRange: 1000,
+    });
+
+    expect(publicClient.getContractEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: BigInt(0), toBlock: BigInt(999) })
+    );
+  });
+
+  it("throws when events can't be read", async () => {
+    const publicClient = createMockPublicClient({
+      allowedProjectIds: [`${CORE_CONTRACT}-1`],
+    });
+    publicClient.getContractEvents.mockRejectedValueOnce(
+      new Error("Log range too large")
+    );
+
+    await expect(
+      getHolderAllowlistProjectIds({
+        publicClient,
+        minterAddress: MINTER,
+        projectId,
+        candidateProjectIds: [`${CORE_CONTRACT}-1`],
+      })
+    ).rejects.toThrow(HolderAllowlistEventsError);
+    expect(publicClient.readContract).not.toHaveBeenCalled();
+  });
+});
+
+describe("resolveHolderAllowlistProjects", () => {
+  it("resolves names and core registration", async () => {
+    const publicClient = createMockPublicClient();
+
+    const projects = await resolveHolderAllowlistProjects({
+      publicClient,
+      minterFilterAddress: MINTER_FILTER,
+      projectIds: [
+        `${CORE_CONTRACT}-1`,
+        `${CORE_CONTRACT}-2`,
+        `${CORE_CONTRACT}-12`,
+        `${UNREGISTERED_CORE_CONTRACT}-0`,
+      ],
+    });
+
+    expect(projects).toEqual([
+      {
+        projectId: `${CORE_CONTRACT}-1`,
+        coreContractAddress: CORE_CONTRACT,
+        projectIndex: BigInt(1),
+        projectName: "Project 1 on 0x0e4e",
+        coreRegistered: true,
+      },
+      expect.objectContaining({ projectName: "Project 2 on 0x0e4e" }),
+      expect.objectContaining({ projectName: null, coreRegistered: true }),
+      expect.objectContaining({
+        projectName: "Project 0 on 0x1111",
+        coreRegistered: false,
+      }),
+    ]);
+    // The core contract is only checked once for its three projects
+    expect(
+      publicClient.readContract.mock.calls.filter(
+        ([{ functionName }]) => functionName === "isRegisteredContract"
+      )
+    ).toHaveLength(2);
+  });
+});
+
+describe("diffHolderAllowlist", () => {
+  it("computes the minimal change", () => {
+    expect(
+      diffHolderAllowlist(
+        [`${CORE_CONTRACT}-1`, `${CORE_CONTRACT}-2`],
+        [
+          `${CORE_CONTRACT.toUpperCase().replace("0X", "0x")}-1`,
+          `${CORE_CONTRACT}-3`,
+          `${CORE_CONTRACT}-3`,
+        ]
+      )
+    ).toEqual({
+      add: [`${CORE_CONTRACT}-3`],
+      remove: [`${CORE_CONTRACT}-2`],
+    });
+  });
+});
+
+describe("prepareHolderAllowlistCalls", () => {
+  it("splits large changes across calls", () => {
+    const add = Array.from(
+      { length: 5 },
+      (_, index) => `${CORE_CONTRACT}-${index}`
+    );
+    const remove = [`${OTHER_CORE_CONTRACT}-9`];
+
+    const calls = prepareHolderAllowlistCalls({
+      minterAddress: MINTER,
+      projectId,
+      diff: { add, remove },
+      maxChangesPerTransaction: 4,
+    });
+
+    expect(calls).toHaveLength(2);
+    expect(calls[0].address).toEqual(MINTER);
+    expect(calls.map(({ args }) => args)).toEqual([
+      [
+        BigInt(3),
+        CORE_CONTRACT,
+        Array(4).fill(CORE_CONTRACT),
+        [BigInt(0), BigInt(1), BigInt(2), BigInt(3)],
+        [],
+        [],
+      ],
+      [
+        BigInt(3),
+        CORE_CONTRACT,
+        [CORE_CONTRACT],
+        [BigInt(4)],
+        [OTHER_CORE_CONTRACT],
+        [BigInt(9)],
+      ],
+    ]);
+    // The calls encode with the holder minter ABI
+    const { abi, functionName, args } = calls[1];
+    expect(
+      decodeFunctionData({
+        abi,
+        data: encodeFunctionData({ abi, functionName, args }),
+      }).functionName
+    ).toEqual("allowAndRemoveHoldersOfProjects");
+  });
+
+  it("makes no calls without changes", () => {
+    expect(
+      prepareHolderAllowlistCalls({
+        minterAddress: MINTER,
+        projectId,
+        diff: { add: [], remove: [] },
+      })
+    ).toEqual([]);
+  });
+});
+
+describe("getHolderAllowlistEditor", () => {
+  const walletClient = { account: {} } as WalletClient;
+
+  function getEditor(publicClient: PublicClient) {
+    return getHolderAllowlistEditor({
+      publicClient,
+      getWalletClient: () => walletClient,
+      projectId,
+      minterAddress: MINTER,
+      minterFilterAddress: MINTER_FILTER,
+      candidateProjectIds: [`${CORE_CONTRACT}-1`, `${CORE_CONTRACT}-2`],
+      maxChangesPerTransaction: 1,
+    });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("loads the current projects", async () => {
+    const editor = await getEditor(
+      createMockPublicClient({ allowedProjectIds: [`${CORE_CONTRACT}-1`] })
+    );
+
+    expect(editor.projects).toEqual([
+      expect.objectContaining({
+        projectId: `${CORE_CONTRACT}-1`,
+        projectName: "Project 1 on 0x0e4e",
+      }),
+    ]);
+  });
+
+  it("rejects updates adding invalid projects", async () => {
+    const editor = await getEditor(createMockPublicClient());
+
+    const update = editor.prepareUpdate([
+      `${CORE_CONTRACT}-2`,
+      `${CORE_CONTRACT}-20`,
+      `${UNREGISTERED_CORE_CONTRACT}-1`,
+    ]);
+
+    await expect(update).rejects.toThrow(InvalidHolderAllowlistProjectsError);
+    await expect(update).rejects.toMatchObject({
+      projects: [
+        expect.objectContaining({ projectId: `${CORE_CONTRACT}-20` }),
+        expect.objectContaining({
+          projectId: `${UNREGISTERED_CORE_CONTRACT}-1`,
+        }),
+      ],
+    });
+  });
+
+  it("submits the change one transaction after another", async () => {
+    const editor = await getEditor(
+      createMockPublicClient({ allowedProjectIds: [`${CORE_CONTRACT}-1`] })
+    );
+    const onTransactionConfirmed = jest.fn();
+
+    const result = await editor.submitUpdate([`${CORE_CONTRACT}-2`], {
+      onTransactionConfirmed,
+    });
+
+    expect(result).toEqual({
+      diff: { add: [`${CORE_CONTRACT}-2`], remove: [`${CORE_CONTRACT}-1`] },
+      blockHashes: ["0xblock", "0xblock"],
+    });
+    expect(submitTransaction).toHaveBeenCalledTimes(2);
+    expect(onTransactionConfirmed).toHaveBeenLastCalledWith({
+      index: 1,
+      count: 2,
+      blockHash: "0xblock",
+    });
+    expect(editor.projects).toEqual([
+      expect.objectContaining({ projectId: `${CORE_CONTRACT}-2` }),
+    ]);
+    // Later updates are diffed against the submitted change
+    expect((await editor.prepareUpdate([`${CORE_CONTRACT}-2`])).calls).toEqual(
+      []
+    );
+  });
+
+  it("submits the change as a batch with a batch submission mode", async () => {
+    const editor = await getEditor(createMockPublicClient());
+
+    const result = await editor.submitUpdate(
+      [`${CORE_CONTRACT}-1`, `${CORE_CONTRACT}-2`],
+      { mode: { type: "eip5792" } }
+    );
+
+    expect(result.blockHashes).toEqual(["0xbatch"]);
+    expect(submitBatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        calls: [expect.anything(), expect.anything()],
+        mode: { type: "eip5792" },
+      })
+    );
+    expect(submitTransaction).not.toHaveBeenCalled();
+  });
+});
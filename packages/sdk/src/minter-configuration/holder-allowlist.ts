@@ -0,0 +1,590 @@
+import {
+  BlockNumber,
+  BlockTag,
+  Hex,
+  PublicClient,
+  WalletClient,
+  isAddress,
+  parseAbi,
+} from "viem";
+import { iGenArt721CoreContractV3BaseAbi } from "../../abis/iGenArt721CoreContractV3BaseAbi";
+import { iMinterFilterV1Abi } from "../../abis/iMinterFilterV1Abi";
+import { getDeploymentBlock } from "../utils/deployment-block";
+import {
+  BatchCall,
+  BatchSubmissionMode,
+  submitBatch,
+} from "../utils/submit-batch";
+import { submitTransaction } from "../utils/submit-transaction";
+
+// The TokenHolderLib functions and events shared by the holder minters and
+// the polyptych minters
+const tokenHolderMinterAbi = parseAbi([
+  "function allowedProjectHolders(uint256 projectId, address coreContract, address ownedNFTAddress, uint256 ownedNFTProjectId) view returns (bool)",
+  "function allowAndRemoveHoldersOfProjects(uint256 projectId, address coreContract, address[] ownedNFTAddressesAdd, uint256[] ownedNFTProjectIdsAdd, address[] ownedNFTAddressesRemove, uint256[] ownedNFTProjectIdsRemove)",
+  "event AllowedHoldersOfProjects(uint256 indexed projectId, address indexed coreContract, address[] ownedNFTAddresses, uint256[] ownedNFTProjectIds)",
+  "event RemovedHoldersOfProjects(uint256 indexed projectId, address indexed coreContract, address[] ownedNFTAddresses, uint256[] ownedNFTProjectIds)",
+]);
+
+const coreRegistryAbi = parseAbi([
+  "function isRegisteredContract(address contractAddress) view returns (bool)",
+]);
+
+// Minter types with a holder allowlist, e.g. MinterSetPriceHolderV5 and
+// MinterSetPricePolyptychV5
+const HOLDER_ALLOWLIST_MINTER_TYPE_REGEX = /(Holder|Polyptych)/;
+
+// Each entry adds a storage write and event data, so large changes are split
+// to stay well within block gas limits
+export const DEFAULT_MAX_HOLDER_ALLOWLIST_CHANGES_PER_TRANSACTION = 100;
+
+// RPC providers limit the block range of log reads, so events are read in
+// pages of at most this many blocks
+export const DEFAULT_HOLDER_ALLOWLIST_LOG_BLOCK_RANGE = 10000;
+
+/**
+ * A project whose token holders are allowed to purchase from a holder minter.
+ */
+export type HolderAllowlistProject = {
+  // `<core contract address>-<project index>`, lowercased
+  projectId: string;
+  coreContractAddress: Hex;
+  projectIndex: bigint;
+  // Null for projects that don't exist on the core contract
+  projectName: string | null;
+  // Whether the core contract is registered in the minter filter's
+  // CoreRegistryV1
+  coreRegistered: boolean;
+};
+
+export type HolderAllowlistDiff = {
+  add: string[];
+  remove: string[];
+};
+
+/**
+ * @summary Error thrown when a holder allowlist update adds projects that
+ * don't exist or are on core contracts that aren't registered.
+ */
+export class InvalidHolderAllowlistProjectsError extends Error {
+  projects: HolderAllowlistProject[];
+
+  constructor(projects: HolderAllowlistProject[]) {
+    super(
+      `Holder allowlists can only include existing projects on registered core contracts: ${projects
+        .map(({ projectId }) => projectId)
+        .join(", ")}`
+    );
+    this.name = "InvalidHolderAllowlistProjectsError";
+    this.projects = projects;
+  }
+}
+
+/**
+ * @summary Error thrown when a holder minter's events can't be read, so its
+ * current allowlist can't be known.
+ */
+export class HolderAllowlistEventsError extends Error {
+  constructor(minterAddress: Hex, cause: unknown) {
+    super(
+      `Failed to read the holder allowlist events of minter ${minterAddress}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = "HolderAllowlistEventsError";
+  }
+}
+
+/**
+ * Checks whether a minter type has a holder allowlist, which includes the
+ * polyptych minters.
+ *
+ * @param minterType - The minter type to check.
+ * @returns A boolean indicating whether the minter has a holder allowlist.
+ */
+export function isHolderAllowlistMinterType(minterType: string | undefined) {
+  return HOLDER_ALLOWLIST_MINTER_TYPE_REGEX.test(minterType ?? "");
+}
+
+/**
+ * Normalizes a project ID of the form `<core contract address>-<project
+ * index>` so that IDs of the same project compare equal.
+ *
+ * @param projectId - The project ID to normalize.
+ * @returns The lowercased project ID with a decimal project index.
+ * @throws Error if the project ID isn't valid.
+ */
+export function normalizeHolderAllowlistProjectId(projectId: string) {
+  const [coreContractAddress, projectIndex, ...rest] = projectId
+    .trim()
+    .split("-");
+
+  if (
+    rest.length > 0 ||
+    !isAddress(coreContractAddress ?? "", { strict: false }) ||
+    !/^\d+$/.test(projectIndex ?? "")
+  ) {
+    throw new Error(`Invalid project ID ${projectId}`);
+  }
+
+  return `${coreContractAddress.toLowerCase()}-${BigInt(projectIndex)}`;
+}
+
+function parseProjectId(projectId: string) {
+  const [coreContractAddress, projectIndex] = projectId.split("-");
+  return {
+    coreContractAddress: coreContractAddress as Hex,
+    projectIndex: BigInt(projectIndex),
+  };
+}
+
+function bigIntMin(a: bigint, b: bigint) {
+  return a < b ? a : b;
+}
+
+// The minter has no events before its deployment, which is found by
+// searching historical state and read from the earliest block without it
+async function getFirstEventBlock(
+  publicClient: PublicClient,
+  minterAddress: Hex,
+  fromBlock: BlockNumber | BlockTag | undefined
+): Promise<bigint> {
+  if (typeof fromBlock === "bigint") {
+    return fromBlock;
+  }
+  if (fromBlock === undefined) {
+    return getDeploymentBlock(publicClient, minterAddress).catch(() =>
+      BigInt(0)
+    );
+  }
+  if (fromBlock === "earliest") {
+    return BigInt(0);
+  }
+
+  const { number } = await publicClient.getBlock({ blockTag: fromBlock });
+  return number ?? publicClient.getBlockNumber();
+}
+
+/**
+ * Reads the projects whose holders a holder minter currently allows to
+ * purchase a project. Minters don't expose their allowlists, so the
+ * allowlist is replayed from the minter's events, read in pages of blocks,
+ * and each project, along with the `candidateProjectIds` such as those
+ * indexed by the Art Blocks API, is confirmed with `allowedProjectHolders`.
+ *
+ * @param args.publicClient - The public client to read the minter with.
+ * @param args.minterAddress - The address of the project's holder minter.
+ * @param args.projectId - The ID of the project, e.g. `0x...-0`.
+ * @param args.candidateProjectIds - Projects that may be allowlisted, checked in addition to those from events.
+ * @param args.fromBlock - The block to read events from. Defaults to the minter's deployment block, or the earliest block if the RPC provider doesn't serve historical state.
+ * @param args.logBlockRange - The most blocks to read events from at once.
+ * @returns The normalized IDs of the allowlisted projects.
+ * @throws {HolderAllowlistEventsError} if the minter's events can't be read.
+ */
+export async function getHolderAllowlistProjectIds({
+  publicClient,
+  minterAddress,
+  projectId,
+  candidateProjectIds = [],
+  fromBlock,
+  logBlockRange = DEFAULT_HOLDER_ALLOWLIST_LOG_BLOCK_RANGE,
+}: {
+  publicClient: PublicClient;
+  minterAddress: Hex;
+  projectId: string;
+  candidateProjectIds?: string[];
+  fromBlock?: BlockNumber | BlockTag;
+  logBlockRange?: number;
+}): Promise<string[]> {
+  const { coreContractAddress, projectIndex } = parseProjectId(projectId);
+  const candidates = new Set(
+    candidateProjectIds.map(normalizeHolderAllowlistProjectId)
+  );
+
+  // Projects missing from both the events and the candidates would be left
+  // allowlisted by updates, so the allowlist can't be read without events
+  try {
+    const latestBlock = await publicClient.getBlockNumber();
+    let pageStartBlock = await getFirstEventBlock(
+      publicClient,
+      minterAddress,
+      fromBlock
+    );
+    while (pageStartBlock <= latestBlock) {
+      const pageEndBlock = bigIntMin(
+        pageStartBlock + BigInt(logBlockRange - 1),
+        latestBlock
+      );
+      const logs = await publicClient.getContractEvents({
+        address: minterAddress,
+        abi: tokenHolderMinterAbi,
+        args: { projectId: projectIndex, coreContract: coreContractAddress },
+        fromBlock: pageStartBlock,
+        toBlock: pageEndBlock,
+      });
+      for (const log of logs) {
+        const { ownedNFTAddresses = [], ownedNFTProjectIds = [] } = log.args;
+        ownedNFTAddresses.forEach((ownedNFTAddress, index) =>
+          candidates.add(
+            normalizeHolderAllowlistProjectId(
+              `${ownedNFTAddress}-${ownedNFTProjectIds[index]}`
+            )
+          )
+        );
+      }
+      pageStartBlock = pageEndBlock + BigInt(1);
+    }
+  } catch (e) {
+    throw new HolderAllowlistEventsError(minterAddress, e);
+  }
+
+  const allowedProjectIds = await Promise.all(
+    Array.from(candidates).map(async (candidateProjectId) => {
+      const candidate = parseProjectId(candidateProjectId);
+      const isAllowed = await publicClient.readContract({
+        address: minterAddress,
+        abi: tokenHolderMinterAbi,
+        functionName: "allowedProjectHolders",
+        args: [
+          projectIndex,
+          coreContractAddress,
+          candidate.coreContractAddress,
+          candidate.projectIndex,
+        ],
+      });
+
+      return isAllowed ? candidateProjectId : undefined;
+    })
+  );
+
+  return allowedProjectIds.filter(
+    (allowedProjectId): allowedProjectId is string =>
+      allowedProjectId !== undefined
+  );
+}
+
+/**
+ * Resolves the names of holder allowlist projects, and whether they exist on
+ * core contracts registered in the minter filter's CoreRegistryV1.
+ *
+ * @param args.publicClient - The public client to read the contracts with.
+ * @param args.minterFilterAddress - The minter filter of the project whose allowlist the projects are on.
+ * @param args.projectIds - The IDs of the projects to resolve.
+ * @returns The resolved projects, in the order of `projectIds`.
+ */
+export async function resolveHolderAllowlistProjects({
+  publicClient,
+  minterFilterAddress,
+  projectIds,
+}: {
+  publicClient: PublicClient;
+  minterFilterAddress: Hex;
+  projectIds: string[];
+}): Promise<HolderAllowlistProject[]> {
+  const normalizedProjectIds = projectIds.map(
+    normalizeHolderAllowlistProjectId
+  );
+  if (normalizedProjectIds.length === 0) {
+    return [];
+  }
+
+  const coreRegistryAddress = await publicClient.readContract({
+    address: minterFilterAddress,
+    abi: iMinterFilterV1Abi,
+    functionName: "coreRegistry",
+  });
+
+  // Core contracts are read once, however many of their projects are listed
+  const coreContracts = new Map<
+    string,
+    Promise<{ registered: boolean; nextProjectId: bigint }>
+  >();
+  const getCoreContract = (coreContractAddress: Hex) => {
+    let coreContract = coreContracts.get(coreContractAddress);
+    if (!coreContract) {
+      coreContract = Promise.all([
+        publicClient.readContract({
+          address: coreRegistryAddress,
+          abi: coreRegistryAbi,
+          functionName: "isRegisteredContract",
+          args: [coreContractAddress],
+        }),
+        // Contracts that aren't Art Blocks cores have no projects
+        publicClient
+          .readContract({
+            address: coreContractAddress,
+            abi: iGenArt721CoreContractV3BaseAbi,
+            functionName: "nextProjectId",
+          })
+          .catch(() => BigInt(0)),
+      ]).then(([registered, nextProjectId]) => ({
+        registered,
+        nextProjectId,
+      }));
+      coreContracts.set(coreContractAddress, coreContract);
+    }
+    return coreContract;
+  };
+
+  return Promise.all(
+    normalizedProjectIds.map(async (projectId) => {
+      const { coreContractAddress, projectIndex } = parseProjectId(projectId);
+      const { registered, nextProjectId } =
+        await getCoreContract(coreContractAddress);
+
+      let projectName: string | null = null;
+      if (projectIndex < nextProjectId) {
+        [projectName] = await publicClient.readContract({
+          address: coreContractAddress,
+          abi: iGenArt721CoreContractV3BaseAbi,
+          functionName: "projectDetails",
+          args: [projectIndex],
+        });
+      }
+
+      return {
+        projectId,
+        coreContractAddress,
+        projectIndex,
+        projectName,
+        coreRegistered: registered,
+      };
+    })
+  );
+}
+
+/**
+ * Computes the projects to add to and remove from a holder allowlist to
+ * change it to the given projects. Duplicates and differences in case are
+ * ignored.
+ *
+ * @param currentProjectIds - The projects currently allowlisted.
+ * @param projectIds - The projects the allowlist should have.
+ * @returns The normalized IDs of the projects to add and remove.
+ */
+export function diffHolderAllowlist(
+  currentProjectIds: string[],
+  projectIds: string[]
+): HolderAllowlistDiff {
+  const current = new Set(
+    currentProjectIds.map(normalizeHolderAllowlistProjectId)
+  );
+  const updated = new Set(projectIds.map(normalizeHolderAllowlistProjectId));
+
+  return {
+    add: Array.from(updated).filter((projectId) => !current.has(projectId)),
+    remove: Array.from(current).filter((projectId) => !updated.has(projectId)),
+  };
+}
+
+/**
+ * Prepares the `allowAndRemoveHoldersOfProjects` calls that make a holder
+ * allowlist change, split so that no call makes more than
+ * `maxChangesPerTransaction` changes. The calls don't depend on each other,
+ * so they can be submitted in any order or as a batch.
+ *
+ * @param args.minterAddress - The address of the project's holder minter.
+ * @param args.projectId - The ID of the project, e.g. `0x...-0`.
+ * @param args.diff - The change to make.
+ * @param args.maxChangesPerTransaction - The most projects to add or remove in one call.
+ * @returns The calls to make, none if the diff is empty.
+ */
+export function prepareHolderAllowlistCalls({
+  minterAddress,
+  projectId,
+  diff,
+  maxChangesPerTransaction = DEFAULT_MAX_HOLDER_ALLOWLIST_CHANGES_PER_TRANSACTION,
+}: {
+  minterAddress: Hex;
+  projectId: string;
+  diff: HolderAllowlistDiff;
+  maxChangesPerTransaction?: number;
+}): BatchCall[] {
+  const { coreContractAddress, projectIndex } = parseProjectId(projectId);
+  const changes = [
+    ...diff.add.map((id) => ({ isAdded: true, ...parseProjectId(id) })),
+    ...diff.remove.map((id) => ({ isAdded: false, ...parseProjectId(id) })),
+  ];
+
+  const calls: BatchCall[] = [];
+  for (let i = 0; i < changes.length; i += maxChangesPerTransaction) {
+    const chunk = changes.slice(i, i + maxChangesPerTransaction);
+    const added = chunk.filter(({ isAdded }) => isAdded);
+    const removed = chunk.filter(({ isAdded }) => !isAdded);
+
+    calls.push({
+      address: minterAddress,
+      abi: tokenHolderMinterAbi,
+      functionName: "allowAndRemoveHoldersOfProjects",
+      args: [
+        projectIndex,
+        coreContractAddress,
+        added.map((change) => change.coreContractAddress),
+        added.map((change) => change.projectIndex),
+        removed.map((change) => change.coreContractAddress),
+        removed.map((change) => change.projectIndex),
+      ],
+    });
+  }
+
+  return calls;
+}
+
+/**
+ * Loads the holder allowlist of a project from its minter, and returns an
+ * editor that validates, diffs and submits changes to it. Works with all
+ * holder minters, including the polyptych minters.
+ *
+ * @param args.publicClient - The public client to read the contracts with.
+ * @param args.getWalletClient - Gets the wallet client to submit changes with.
+ * @param args.projectId - The ID of the project, e.g. `0x...-0`.
+ * @param args.minterAddress - The address of the project's holder minter.
+ * @param args.minterFilterAddress - The address of the project's minter filter.
+ * @param args.candidateProjectIds - Projects that may be allowlisted, such as those indexed by the Art Blocks API.
+ * @param args.fromBlock - The block to read the minter's events from. Defaults to the minter's deployment block.
+ * @param args.logBlockRange - The most blocks to read the minter's events from at once.
+ * @param args.maxChangesPerTransaction - The most projects to add or remove in one transaction.
+ * @returns The allowlisted projects and methods to change them.
+ */
+export async function getHolderAllowlistEditor({
+  publicClient,
+  getWalletClient,
+  projectId,
+  minterAddress,
+  minterFilterAddress,
+  candidateProjectIds,
+  fromBlock,
+  logBlockRange,
+  maxChangesPerTransaction,
+}: {
+  publicClient: PublicClient;
+  getWalletClient: () => WalletClient | undefined;
+  projectId: string;
+  minterAddress: Hex;
+  minterFilterAddress: Hex;
+  candidateProjectIds?: string[];
+  fromBlock?: BlockNumber | BlockTag;
+  logBlockRange?: number;
+  maxChangesPerTransaction?: number;
+}) {
+  let currentProjectIds = await getHolderAllowlistProjectIds({
+    publicClient,
+    minterAddress,
+    projectId,
+    candidateProjectIds,
+    fromBlock,
+    logBlockRange,
+  });
+  const projects = await resolveHolderAllowlistProjects({
+    publicClient,
+    minterFilterAddress,
+    projectIds: currentProjectIds,
+  });
+
+  const prepareUpdate = async (projectIds: string[]) => {
+    const diff = diffHolderAllowlist(currentProjectIds, projectIds);
+
+    // Projects already on the allowlist can stay, even if they're invalid
+    const addedProjects = await resolveHolderAllowlistProjects({
+      publicClient,
+      minterFilterAddress,
+      projectIds: diff.add,
+    });
+    const invalidProjects = addedProjects.filter(
+      ({ projectName, coreRegistered }) =>
+        projectName === null || !coreRegistered
+    );
+    if (invalidProjects.length > 0) {
+      throw new InvalidHolderAllowlistProjectsError(invalidProjects);
+    }
+
+    return {
+      diff,
+      addedProjects,
+      calls: prepareHolderAllowlistCalls({
+        minterAddress,
+        projectId,
+        diff,
+        maxChangesPerTransaction,
+      }),
+    };
+  };
+
+  const editor = {
+    // The currently allowlisted projects, updated once changes are submitted
+    projects,
+
+    // Validates a change to the given projects and prepares its transactions
+    prepareUpdate,
+
+    // Changes the allowlist to the given projects, in a single batch with a
+    // batch submission mode or in one transaction after another otherwise
+    submitUpdate: async (
+      projectIds: string[],
+      options: {
+        mode?: BatchSubmissionMode;
+        onTransactionConfirmed?: (args: {
+          index: number;
+          count: number;
+          blockHash: Hex;
+        }) => void;
+      } = {}
+    ) => {
+      const walletClient = getWalletClient();
+      if (!walletClient) {
+        throw new Error("A walletClient is required to update allowlists");
+      }
+
+      const { diff, addedProjects, calls } = await prepareUpdate(projectIds);
+      const blockHashes: Hex[] = [];
+
+      if (options.mode && calls.length > 0) {
+        const { blockHash } = await submitBatch({
+          publicClient,
+          walletClient,
+          calls,
+          mode: options.mode,
+        });
+        blockHashes.push(blockHash);
+        options.onTransactionConfirmed?.({ index: 0, count: 1, blockHash });
+      } else {
+        // If a transaction fails, those before it have still changed the
+        // allowlist, so the editor should be loaded again
+        for (const [index, call] of calls.entries()) {
+          const { blockHash } = await submitTransaction({
+            publicClient,
+            walletClient,
+            ...call,
+          });
+          blockHashes.push(blockHash);
+          options.onTransactionConfirmed?.({
+            index,
+            count: calls.length,
+            blockHash,
+          });
+        }
+      }
+
+      currentProjectIds = [
+        ...currentProjectIds.filter(
+          (currentProjectId) => !diff.remove.includes(currentProjectId)
+        ),
+        ...diff.add,
+      ];
+      editor.projects = [
+        ...editor.projects.filter(
+          (project) => !diff.remove.includes(project.projectId)
+        ),
+        ...addedProjects,
+      ];
+
+      return { diff, blockHashes };
+    },
+  };
+
+  return editor;
+}
+
+export type HolderAllowlistEditor = Awaited<
+  ReturnType<typeof getHolderAllowlistEditor>
+>;
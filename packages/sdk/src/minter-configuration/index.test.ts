@@ -1,8 +1,9 @@
 import { generateProjectMinterConfigurationForms } from "./index";
 import { ArtBlocksClientContext, SubmissionStatusEnum } from "..";
-import request from "graphql-request";
+import request, { GraphQLClient } from "graphql-request";
 import { Block, PublicClient, TransactionReceipt, WalletClient } from "viem";
 import * as submitTransactionHelpers from "../utils/submit-transaction";
+import { GraphQLDataSource } from "../data-sources";
 import {
   pollForProjectUpdates,
   pollForSyncedMinterConfigUpdates,
@@ -16,17 +17,28 @@ jest.mock("./utils/polling", () => ({
 
 function createMockArtBlocksClientContext(): ArtBlocksClientContext & {
   publicClient: PublicClient;
+  graphqlClient: GraphQLClient;
 } {
+  const graphqlClient = {
+    request: request as jest.MockedFunction<any>,
+  } as unknown as GraphQLClient;
+
   return {
     publicClient: {
+      // The connected wallet is the project's artist
+      readContract: jest.fn(async ({ functionName }) => {
+        if (functionName === "projectIdToArtistAddress") {
+          return "0x1234";
+        }
+        throw new Error(`Unexpected read of ${functionName}`);
+      }),
       simulateContract: jest.fn(),
       waitForTransactionReceipt: jest.fn(),
       writeContract: jest.fn(),
       getBlock: jest.fn(),
     } as unknown as PublicClient,
-    graphqlClient: {
-      request: request as jest.MockedFunction<any>,
-    },
+    graphqlClient,
+    dataSource: new GraphQLDataSource(graphqlClient),
     userIsStaff: false,
     walletClient: {
       account: { address: "0x1234" },
@@ -34,6 +46,7 @@ function createMockArtBlocksClientContext(): ArtBlocksClientContext & {
     } as unknown as WalletClient,
   } as unknown as ArtBlocksClientContext & {
     publicClient: PublicClient;
+    graphqlClient: GraphQLClient;
   };
 }
 
@@ -104,8 +117,10 @@ describe("generateProjectMinterConfigurationForms", () => {
       expect(forms.length).toEqual(1);
       expect(forms[0].key).toEqual("setMinterForProject");
     });
-    it("returns only the minter selection form if the project minter has no configuration schema", async () => {
+    it("returns only the minter selection form if there is no configuration schema for the project minter", async () => {
       const mockProjectData = getTestResponse();
+      mockProjectData.projects_metadata_by_pk.minter_configuration.minter.minter_type =
+        "MinterUnknownV0";
       mockProjectData.projects_metadata_by_pk.minter_configuration.minter.type.project_configuration_schema =
         {} as any;
       (
@@ -120,6 +135,26 @@ describe("generateProjectMinterConfigurationForms", () => {
       expect(forms.length).toEqual(1);
       expect(forms[0].key).toEqual("setMinterForProject");
     });
+    it("falls back to the SDK's configuration schema if the API has none for the project minter", async () => {
+      const mockProjectData = getTestResponse();
+      mockProjectData.projects_metadata_by_pk.minter_configuration.minter.type.project_configuration_schema =
+        {} as any;
+      (
+        artblocksClientContext.graphqlClient.request as jest.Mock
+      ).mockResolvedValueOnce(mockProjectData);
+      const { forms } = await generateProjectMinterConfigurationForms({
+        projectId,
+        onConfigurationChange: jest.fn(),
+        clientContext: artblocksClientContext,
+      });
+
+      expect(forms.map(({ key }) => key)).toEqual([
+        "setMinterForProject",
+        "setAuctionDetails",
+        "resetAuctionDetails",
+        "manuallyLimitProjectMaxInvocations",
+      ]);
+    });
     it("returns the minter selection form and the minter configuration form if the project minter has a configuration schema", async () => {
       (
         artblocksClientContext.graphqlClient.request as jest.Mock
@@ -136,6 +171,46 @@ describe("generateProjectMinterConfigurationForms", () => {
       expect(forms[2].key).toEqual("resetAuctionDetails");
       expect(forms[3].key).toEqual("manuallyLimitProjectMaxInvocations");
     });
+    it("returns the configuration forms of a target minter", async () => {
+      (
+        artblocksClientContext.graphqlClient.request as jest.Mock
+      ).mockResolvedValueOnce(getTestResponse());
+      const { forms } = await generateProjectMinterConfigurationForms({
+        projectId,
+        onConfigurationChange: jest.fn(),
+        clientContext: artblocksClientContext,
+        targetMinterAddress: "0x42c250c81cd2d38143a89a21cab6434092c2f52b",
+      });
+
+      expect(forms.map(({ key }) => key)).toEqual([
+        "setMinterForProject",
+        "updatePricePerTokenInWei",
+        "manuallyLimitProjectMaxInvocations",
+      ]);
+      await expect(
+        forms[1].handleSubmit(
+          { pricePerTokenInWei: "1000000000000000000" },
+          jest.fn()
+        )
+      ).rejects.toThrow(
+        "Forms of a minter that isn't set for the project must be submitted in a batch with the minter selection form"
+      );
+    });
+    it("throws an error if the target minter isn't allowed by the project's minter filter", async () => {
+      (
+        artblocksClientContext.graphqlClient.request as jest.Mock
+      ).mockResolvedValueOnce(getTestResponse());
+      await expect(
+        generateProjectMinterConfigurationForms({
+          projectId,
+          onConfigurationChange: jest.fn(),
+          clientContext: artblocksClientContext,
+          targetMinterAddress: "0x0000000000000000000000000000000000000001",
+        })
+      ).rejects.toThrow(
+        `Minter 0x0000000000000000000000000000000000000001 is not allowed by the minter filter of project ${projectId}`
+      );
+    });
     it("successfully submits the setMinterForProject form", async () => {
       (
         artblocksClientContext.graphqlClient.request as jest.Mock
@@ -474,6 +549,48 @@ describe("generateProjectMinterConfigurationForms", () => {
         ]
       );
     });
+    it("marks forms as read-only and rejects their submission for wallets without permission on chain", async () => {
+      (
+        artblocksClientContext.graphqlClient.request as jest.Mock
+      ).mockResolvedValueOnce(getTestResponse());
+      (
+        artblocksClientContext.publicClient.readContract as jest.Mock
+      ).mockResolvedValueOnce("0x5678");
+      // The core contract's admin ACL doesn't allow the wallet either
+      (
+        artblocksClientContext.publicClient.simulateContract as jest.Mock
+      ).mockResolvedValue({ request: {}, result: false });
+
+      const { forms } = await generateProjectMinterConfigurationForms({
+        projectId,
+        onConfigurationChange: jest.fn(),
+        clientContext: artblocksClientContext,
+      });
+
+      const [setMinterForm, setAuctionDetailsForm] = forms;
+      expect(setMinterForm.access).toEqual({
+        level: "readOnly",
+        reason:
+          "Only the project's artist or the core contract's admin can call setMinterForProject",
+      });
+      expect(
+        setAuctionDetailsForm.fieldAccess?.["extra_minter_details.startPrice"]
+          ?.level
+      ).toEqual("readOnly");
+
+      const submitTransaction = jest.spyOn(
+        submitTransactionHelpers,
+        "submitTransaction"
+      );
+      await expect(
+        setMinterForm.handleSubmit({
+          "minter.address": "0x725b18673125bb1384c65a558d24a13fbb88d812",
+        })
+      ).rejects.toThrow(
+        "Only the project's artist or the core contract's admin can call setMinterForProject"
+      );
+      expect(submitTransaction).not.toHaveBeenCalled();
+    });
     it("throws an error if setAuctionDetails form is submitted without a walletClient in context", async () => {
       (
         artblocksClientContext.graphqlClient.request as jest.Mock
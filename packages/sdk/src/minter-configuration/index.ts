@@ -5,6 +5,8 @@ import get from "lodash/get";
 // Type imports
 import {
   FormBlueprint,
+  FormPreview,
+  PreparedFormTransaction,
   SubmissionStatus,
   SubmissionStatusEnum,
 } from "../types";
@@ -12,14 +14,15 @@ import {
 // Utility functions related to form and schema processing
 import { processFormSchema } from "../utils/process-form-schema";
 import { formFieldSchemaToZod } from "../utils/zod";
+import { readValidationRuleMinterViews } from "../utils/validation-rules";
 import { getAllowedPrivilegedRoles } from "../utils/get-allowed-privileged-roles";
 import {
   mapFormValuesToArgs,
   submitTransaction,
 } from "../utils/submit-transaction";
+import { BatchSubmissionMode, submitBatch } from "../utils/submit-batch";
 
 // GraphQL types and operations
-import { getProjectMinterConfigurationQueryDocument } from "./graphql-operations";
 import {
   GetProjectMinterConfigurationQuery,
   Minter_Filter_Type_Names_Enum,
@@ -34,13 +37,16 @@ import {
   pollForProjectUpdates,
   pollForSyncedMinterConfigUpdates,
 } from "./utils/polling";
+import { getMinterConfigurationSchema } from "./schemas";
+import { getFormValueChanges, simulateFormTransaction } from "./preview";
+import {
+  assertFormEditable,
+  createProjectAccessChecker,
+  getFormAccess,
+} from "./utils/form-access";
 
 // JSON schema and type checks
-import {
-  ConfigurationSchema,
-  FormFieldSchema,
-  isOnChainFormFieldSchema,
-} from "../json-schema";
+import { FormFieldSchema, isOnChainFormFieldSchema } from "../json-schema";
 
 // Types specific to project minter configuration
 import {
@@ -60,14 +66,8 @@ export async function generateProjectMinterConfigurationForms(
   const projectIndex = Number(projectIndexString);
 
   // Get current minter configuration details from the database
-  const res = await clientContext.graphqlClient.request(
-    getProjectMinterConfigurationQueryDocument,
-    {
-      projectId,
-    }
-  );
-
-  const project = res.projects_metadata_by_pk;
+  const project =
+    await clientContext.dataSource.getProjectMinterConfiguration(projectId);
 
   if (!project) {
     throw new Error(`Could not find project with id ${projectId}`);
@@ -85,31 +85,50 @@ export async function generateProjectMinterConfigurationForms(
     project.user_is_artist ?? false
   );
 
+  // Permissions are read from the core contract rather than trusted from
+  // the API, so forms match what the chain will allow the wallet to do
+  const account = clientContext.walletClient?.account?.address;
+  const accessChecker = account
+    ? await createProjectAccessChecker({
+        publicClient: clientContext.publicClient,
+        account,
+        coreContractAddress: coreContractAddress as Hex,
+        projectIndex,
+      })
+    : undefined;
+
   const context: GenerateProjectMinterConfigurationFormsContext = {
     ...args,
     allowedPrivilegedRolesForProject,
     coreContractAddress,
     projectIndex,
     project: project as ProjectWithMinterFilter,
+    accessChecker,
   };
 
   const minterSelectionForm = await generateSelectMinterForm(context);
   let configurationForms = [minterSelectionForm];
 
   // If no minter has been selected, return only the minter selection form
-  const minterConfiguration = res.projects_metadata_by_pk?.minter_configuration;
+  const minterConfiguration = args.targetMinterAddress
+    ? getTargetMinterConfiguration(
+        context.project,
+        projectId,
+        args.targetMinterAddress
+      )
+    : project.minter_configuration;
 
   if (!minterConfiguration || !minterConfiguration.minter) {
     return { data: project, forms: configurationForms };
   }
 
-  const minterConfigurationSchema: ConfigurationSchema =
-    minterConfiguration.minter.type?.project_configuration_schema;
+  // Schemas from the API override the SDK's local schemas
+  const minterConfigurationSchema = getMinterConfigurationSchema(
+    minterConfiguration.minter.minter_type,
+    minterConfiguration.minter.type?.project_configuration_schema
+  );
 
-  if (
-    !minterConfigurationSchema ||
-    Object.keys(minterConfigurationSchema).length === 0
-  ) {
+  if (!minterConfigurationSchema) {
     console.warn("No minter configuration schema found for project", projectId);
     return { data: project, forms: configurationForms };
   }
@@ -131,6 +150,50 @@ export async function generateProjectMinterConfigurationForms(
   return { data: project, forms: configurationForms };
 }
 
+// The configuration of a project on a minter it may be set to. The project
+// hasn't been configured on other minters, so their forms start from the
+// schema defaults.
+function getTargetMinterConfiguration(
+  project: ProjectWithMinterFilter,
+  projectId: string,
+  targetMinterAddress: string
+): NonNullable<ProjectMinterConfigurationDetailsFragment> {
+  const minterAddress = targetMinterAddress.toLowerCase();
+  if (project.minter_configuration?.minter?.address === minterAddress) {
+    return project.minter_configuration;
+  }
+
+  const minter = project.contract.minter_filter.globally_allowed_minters?.find(
+    ({ address }) => address === minterAddress
+  );
+  if (!minter) {
+    throw new Error(
+      `Minter ${targetMinterAddress} is not allowed by the minter filter of project ${projectId}`
+    );
+  }
+
+  return {
+    id: `${minterAddress}-${projectId}`,
+    project_id: projectId,
+    base_price: null,
+    currency_address: null,
+    currency_symbol: null,
+    max_invocations: null,
+    extra_minter_details: {},
+    minter: {
+      address: minterAddress,
+      minter_type: minter.minter_type,
+      type: {
+        project_configuration_schema:
+          minter.type?.project_configuration_schema ?? null,
+        unversioned_type: minter.type?.unversioned_type ?? null,
+        version_number: minter.type?.version_number ?? null,
+      },
+      extra_minter_details: {},
+    },
+  } as NonNullable<ProjectMinterConfigurationDetailsFragment>;
+}
+
 // Form to choose a minter
 async function generateSelectMinterForm({
   clientContext,
@@ -139,6 +202,7 @@ async function generateSelectMinterForm({
   projectIndex,
   coreContractAddress,
   onConfigurationChange,
+  accessChecker,
 }: GenerateProjectMinterConfigurationFormsContext): Promise<FormBlueprint> {
   const minterConfiguration = project.minter_configuration;
   const minterSelectionFormSchema = generateMinterSelectionFormSchema(
@@ -175,16 +239,74 @@ async function generateSelectMinterForm({
         .sort((a, b) => b.title.localeCompare(a.title));
   }
 
+  const transactionDetails =
+    minterSelectionFormSchemaWithMinters.transactionDetails;
+
+  const prepareTransaction = async (
+    formValues: Record<string, any>
+  ): Promise<PreparedFormTransaction> => {
+    if (!get(formValues, "minter.address")) {
+      throw new Error("A minter address is required to set the minter");
+    }
+
+    return {
+      // Minters are set for a project on the minter filter
+      address: project.contract.minter_filter.address as Hex,
+      abi: transactionDetails.abi as Abi,
+      functionName: transactionDetails.functionName,
+      // Map the form values to an array of arguments expected by the smart contract function
+      args: mapFormValuesToArgs(
+        transactionDetails.args,
+        formValues,
+        projectIndex,
+        coreContractAddress
+      ),
+      // The minter_configuration_id column is updated to a time after the
+      // transaction was confirmed once the new minter is synced
+      syncCheckFields: ["minter_configuration_id"],
+      syncsProject: true,
+    };
+  };
+
   // Initialize configurationForms with the minter selection form
-  const form = {
+  const form: FormBlueprint = {
     key: "setMinterForProject",
     formSchema: minterSelectionFormSchemaWithMinters,
+    ...(accessChecker
+      ? await getFormAccess({
+          formSchema: minterSelectionFormSchemaWithMinters,
+          contractAddress: project.contract.minter_filter.address as Hex,
+          checker: accessChecker,
+        })
+      : {}),
     initialFormValues: await getInitialMinterConfigurationValuesForFormField(
       minterSelectionFormSchemaWithMinters,
       minterConfiguration ?? null,
-      clientContext.publicClient
+      clientContext.publicClient,
+      clientContext.displayProcessors
     ),
     zodSchema: formFieldSchemaToZod(minterSelectionFormSchemaWithMinters),
+    prepareTransaction,
+    preview: async (
+      formValues: Record<string, unknown>
+    ): Promise<FormPreview> => {
+      const transaction = await prepareTransaction(formValues);
+
+      return {
+        changes: await getFormValueChanges({
+          formSchema: minterSelectionFormSchemaWithMinters,
+          formValues,
+          transformedFormValues: formValues,
+          minterConfiguration: minterConfiguration ?? null,
+          publicClient: clientContext.publicClient,
+        }),
+        simulation: await simulateFormTransaction({
+          publicClient: clientContext.publicClient,
+          account: clientContext.walletClient?.account,
+          transaction,
+        }),
+      };
+    },
     handleSubmit: async (
       formValues: Record<string, any>,
       onProgress?: (status: SubmissionStatus) => void
@@ -195,6 +317,7 @@ async function generateSelectMinterForm({
           "A walletClient is required to submit the set minter form"
         );
       }
+      assertFormEditable(form);
       // We need basic information about the project and the
       // minter to submit the transaction
       if (
@@ -209,26 +332,21 @@ async function generateSelectMinterForm({
 
       onProgress?.(SubmissionStatusEnum.SIMULATING_TRANSACTION);
 
-      // Get the minter filter address for minter selection
-      const minterFilterAddress: Hex = project.contract.minter_filter
-        .address as Hex;
-
-      // Map the form values to an array of arguments expected by the smart contract function
-      const functionArgs = mapFormValuesToArgs(
-        minterSelectionFormSchemaWithMinters.transactionDetails.args,
-        formValues,
-        projectIndex,
-        coreContractAddress
-      );
+      const {
+        address,
+        abi,
+        functionName,
+        args: functionArgs,
+        syncCheckFields,
+      } = await prepareTransaction(formValues);
 
       // Submit the transaction
       const { blockHash } = await submitTransaction({
         publicClient: clientContext.publicClient,
         walletClient,
-        address: minterFilterAddress,
-        abi: minterSelectionFormSchemaWithMinters.transactionDetails.abi as Abi,
-        functionName:
-          minterSelectionFormSchemaWithMinters.transactionDetails.functionName,
+        address,
+        abi,
+        functionName,
         args: functionArgs,
         onSimulationSuccess: () =>
           onProgress?.(SubmissionStatusEnum.AWAITING_USER_SIGNATURE),
@@ -252,7 +370,7 @@ async function generateSelectMinterForm({
         clientContext,
         projectId,
         transactionConfirmedAt,
-        ["minter_configuration_id"]
+        syncCheckFields
       );
 
       const updatedForms = await generateProjectMinterConfigurationForms({
@@ -289,22 +407,123 @@ async function generateMinterForm(
     coreContractAddress,
     minterConfiguration,
     onConfigurationChange,
+    accessChecker,
+    project,
   } = args;
 
   const processedFormSchema = processFormSchema(formSchema);
 
+  const access =
+    accessChecker && minterConfiguration.minter
+      ? await getFormAccess({
+          formSchema: processedFormSchema,
+          contractAddress: minterConfiguration.minter.address as Hex,
+          checker: accessChecker,
+        })
+      : {};
+
   const initialFormValues =
     await getInitialMinterConfigurationValuesForFormField(
       processedFormSchema,
       minterConfiguration,
-      clientContext.publicClient
+      clientContext.publicClient,
+      clientContext.displayProcessors
     );
 
-  return {
+  // Read the minter limits referenced by the form's validation rules up
+  // front, so that the zod schema can check them synchronously
+  const minterViewValues = minterConfiguration.minter
+    ? await readValidationRuleMinterViews({
+        publicClient: clientContext.publicClient,
+        minterAddress: minterConfiguration.minter.address as Hex,
+        schema: processedFormSchema,
+      })
+    : {};
+
+  // Processes the form values and prepares the transaction to submit them,
+  // without side effects on dry runs
+  const prepare = async (
+    formValues: Record<string, any>,
+    dryRun: boolean
+  ): Promise<{
+    transaction: PreparedFormTransaction;
+    transformedFormValues: Record<string, any>;
+  }> => {
+    if (
+      !minterConfiguration.minter ||
+      !isOnChainFormFieldSchema(processedFormSchema) ||
+      !processedFormSchema.transactionDetails
+    ) {
+      throw new Error("Invalid form configuration");
+    }
+
+    // Narrow the type of processedFormSchema.transactionDetails
+    const transactionDetails = processedFormSchema.transactionDetails;
+
+    // Transform the form values to the format expected by the smart contract
+    const transformedFormValues =
+      await processProjectMinterConfigurationFormValuesForSubmission({
+        ...args,
+        formValues,
+        schema: formSchema,
+        dryRun,
+      });
+
+    const transaction: PreparedFormTransaction = {
+      address: minterConfiguration.minter.address as Hex,
+      abi: transactionDetails.abi as Abi,
+      functionName: transactionDetails.functionName,
+      args: mapFormValuesToArgs(
+        transactionDetails.args,
+        transformedFormValues,
+        projectIndex,
+        coreContractAddress
+      ),
+      syncCheckFields:
+        transactionDetails.syncCheckFieldsOverride ?? transactionDetails.args,
+      syncsProject: false,
+    };
+
+    return { transaction, transformedFormValues };
+  };
+
+  const prepareTransaction = async (formValues: Record<string, any>) =>
+    (await prepare(formValues, false)).transaction;
+
+  const preview = async (
+    formValues: Record<string, unknown>
+  ): Promise<FormPreview> => {
+    const { transaction, transformedFormValues } = await prepare(
+      formValues,
+      true
+    );
+
+    return {
+      changes: await getFormValueChanges({
+        formSchema: processedFormSchema,
+        formValues,
+        transformedFormValues,
+        minterConfiguration,
+        publicClient: clientContext.publicClient,
+      }),
+      simulation: await simulateFormTransaction({
+        publicClient: clientContext.publicClient,
+        account: clientContext.walletClient?.account,
+        transaction,
+      }),
+    };
+  };
+
+  const form: FormBlueprint = {
     key,
     formSchema: processedFormSchema,
+    ...access,
     initialFormValues,
-    zodSchema: formFieldSchemaToZod(processedFormSchema),
+    zodSchema: formFieldSchemaToZod(processedFormSchema, {
+      minterViewValues,
+    }),
+    prepareTransaction,
+    preview,
     handleSubmit: async (
       formValues: Record<string, any>,
       onProgress?: (status: SubmissionStatus) => void
@@ -316,42 +535,36 @@ async function generateMinterForm(
         );
       }
 
+      if (!walletClient.account) {
+        throw new Error("Invalid form configuration");
+      }
+      assertFormEditable(form);
       if (
-        !minterConfiguration.minter ||
-        !isOnChainFormFieldSchema(processedFormSchema) ||
-        !processedFormSchema.transactionDetails ||
-        !walletClient.account
+        project.minter_configuration?.minter?.address !==
+        minterConfiguration.minter?.address
       ) {
-        throw new Error("Invalid form configuration");
+        throw new Error(
+          "Forms of a minter that isn't set for the project must be submitted in a batch with the minter selection form"
+        );
       }
 
-      // Narrow the type of processedFormSchema.transactionDetails
-      const transactionDetails = processedFormSchema.transactionDetails;
-
       onProgress?.(SubmissionStatusEnum.SIMULATING_TRANSACTION);
 
-      // Transform the form values to the format expected by the smart contract
-      const transformedFormValues =
-        await processProjectMinterConfigurationFormValuesForSubmission({
-          ...args,
-          formValues,
-          schema: formSchema,
-        });
-
-      const functionArgs = mapFormValuesToArgs(
-        transactionDetails.args,
-        transformedFormValues,
-        projectIndex,
-        coreContractAddress
-      );
+      const {
+        address,
+        abi,
+        functionName,
+        args: functionArgs,
+        syncCheckFields,
+      } = await prepareTransaction(formValues);
 
       const { blockHash } = await submitTransaction({
         publicClient: clientContext.publicClient,
         walletClient,
-        address: minterConfiguration.minter.address as `0x${string}`,
-        abi: transactionDetails.abi as Abi,
-        functionName: transactionDetails.functionName,
-        args: functionArgs, // sdk needs to come from values,
+        address,
+        abi,
+        functionName,
+        args: functionArgs,
         onSimulationSuccess: () =>
           onProgress?.(SubmissionStatusEnum.AWAITING_USER_SIGNATURE),
         onUserAccepted: () => onProgress?.(SubmissionStatusEnum.CONFIRMING),
@@ -365,20 +578,134 @@ async function generateMinterForm(
       });
       const transactionConfirmedAt = new Date(Number(timestamp) * 1000);
 
-      const expectedUpdates =
-        transactionDetails.syncCheckFieldsOverride ?? transactionDetails.args;
-
       // Poll for updates to the configuration
       await pollForSyncedMinterConfigUpdates(
         clientContext,
         projectId,
         transactionConfirmedAt,
-        expectedUpdates
+        syncCheckFields
       );
 
       onConfigurationChange(
-        await generateProjectMinterConfigurationForms(args)
+        await generateProjectMinterConfigurationForms({
+          clientContext,
+          onConfigurationChange,
+          projectId,
+        })
       );
     },
   };
+
+  return form;
+}
+
+/**
+ * Submits several project minter configuration forms in a single batch,
+ * either as an EIP-5792 call batch or as a Safe MultiSend proposal, and waits
+ * once for all of their changes to be synced.
+ *
+ * @param args.forms - The forms to submit, in the order their transactions are made.
+ * @param args.values - The values of each form, keyed by form key.
+ * @param args.mode - How the batch is submitted.
+ * @param args.onProgress - Optional callback invoked as the submission progresses.
+ * @param args.onSafeProposed - Optional callback invoked with the Safe transaction hash once a Safe batch is proposed.
+ */
+export async function submitProjectMinterConfigurationForms(
+  args: GenerateProjectMinterConfigurationFormsArgs & {
+    forms: FormBlueprint[];
+    values: Record<string, Record<string, any>>;
+    mode: BatchSubmissionMode;
+    onProgress?: (status: SubmissionStatus) => void;
+    onSafeProposed?: (safeTxHash: Hex) => void;
+  }
+) {
+  const {
+    clientContext,
+    projectId,
+    forms,
+    values,
+    mode,
+    onProgress,
+    onSafeProposed,
+  } = args;
+
+  const walletClient = clientContext.walletClient;
+  if (!walletClient) {
+    throw new Error(
+      "A walletClient is required to submit minter configuration forms"
+    );
+  }
+  forms.forEach(assertFormEditable);
+
+  onProgress?.(SubmissionStatusEnum.SIMULATING_TRANSACTION);
+
+  const transactions: PreparedFormTransaction[] = [];
+  for (const form of forms) {
+    const formValues = values[form.key];
+    if (!formValues) {
+      throw new Error(`No values provided for form ${form.key}`);
+    }
+    transactions.push(await form.prepareTransaction(formValues));
+  }
+
+  const { blockHash } = await submitBatch({
+    publicClient: clientContext.publicClient,
+    walletClient,
+    calls: transactions,
+    mode,
+    onSimulationSuccess: () =>
+      onProgress?.(SubmissionStatusEnum.AWAITING_USER_SIGNATURE),
+    onUserAccepted: () =>
+      onProgress?.(
+        mode.type === "safe"
+          ? SubmissionStatusEnum.AWAITING_SAFE_EXECUTION
+          : SubmissionStatusEnum.CONFIRMING
+      ),
+    onSafeProposed,
+  });
+
+  onProgress?.(SubmissionStatusEnum.SYNCING);
+
+  // Get block confirmation timestamp
+  const { timestamp } = await clientContext.publicClient.getBlock({
+    blockHash,
+  });
+  const transactionConfirmedAt = new Date(Number(timestamp) * 1000);
+
+  const projectUpdates = transactions.filter(
+    ({ syncsProject }) => syncsProject
+  );
+  if (projectUpdates.length > 0) {
+    await pollForProjectUpdates(
+      clientContext,
+      projectId,
+      transactionConfirmedAt,
+      projectUpdates.flatMap(({ syncCheckFields }) => syncCheckFields)
+    );
+  }
+
+  // Poll once for the changes of all minter configuration forms
+  const minterConfigUpdates = Array.from(
+    new Set(
+      transactions
+        .filter(({ syncsProject }) => !syncsProject)
+        .flatMap(({ syncCheckFields }) => syncCheckFields)
+    )
+  );
+  if (minterConfigUpdates.length > 0) {
+    await pollForSyncedMinterConfigUpdates(
+      clientContext,
+      projectId,
+      transactionConfirmedAt,
+      minterConfigUpdates
+    );
+  }
+
+  args.onConfigurationChange(
+    await generateProjectMinterConfigurationForms({
+      clientContext,
+      projectId,
+      onConfigurationChange: args.onConfigurationChange,
+    })
+  );
 }
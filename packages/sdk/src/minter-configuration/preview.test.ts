@@ -0,0 +1,243 @@
+/**
+ * @jest-environment ./src/test-env.ts
+ */
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  PublicClient,
+  encodeErrorResult,
+  zeroAddress,
+} from "viem";
+import { ProjectMinterConfigurationDetailsFragment } from "../generated/graphql";
+import { PreparedFormTransaction } from "../types";
+import {
+  getFormValueChanges,
+  getRevertReason,
+  simulateFormTransaction,
+} from "./preview";
+import {
+  allowAndRemoveHoldersOfProjectsForm,
+  setDAExpAuctionDetailsForm,
+  updateMerkleRootForm,
+  updatePricePerTokenInWeiForm,
+} from "./schemas/forms";
+
+const publicClient = {
+  readContract: jest.fn(),
+  simulateContract: jest.fn(),
+} as unknown as PublicClient;
+
+const minterConfiguration = {
+  base_price: "100000000000000000",
+  currency_address: zeroAddress,
+  currency_symbol: "ETH",
+  extra_minter_details: {
+    startTime: 1700000000,
+    startPrice: "1000000000000000000",
+    halfLifeSeconds: 600,
+    merkleRoot: "0xoldroot",
+    allowlistedAddressAndProjectId: ["0xcore-1"],
+  },
+} as unknown as ProjectMinterConfigurationDetailsFragment;
+
+const transaction: PreparedFormTransaction = {
+  address: "0x1111111111111111111111111111111111111111",
+  abi: [
+    {
+      type: "error",
+      name: "OnlyArtist",
+      inputs: [],
+    },
+  ],
+  functionName: "updatePricePerTokenInWei",
+  args: [],
+  syncCheckFields: ["base_price"],
+  syncsProject: false,
+};
+
+describe("getFormValueChanges", () => {
+  it("formats prices in the project's currency", async () => {
+    const changes = await getFormValueChanges({
+      formSchema: updatePricePerTokenInWeiForm,
+      formValues: { base_price: 0.2 },
+      transformedFormValues: { base_price: "200000000000000000" },
+      minterConfiguration,
+      publicClient,
+    });
+
+    expect(changes).toEqual([
+      {
+        field: "base_price",
+        title: "Price",
+        currentValue: "0.1 ETH",
+        newValue: "0.2 ETH",
+        changed: true,
+      },
+    ]);
+  });
+
+  it("formats auction times as dates and the derived half-life", async () => {
+    const changes = await getFormValueChanges({
+      formSchema: setDAExpAuctionDetailsForm,
+      formValues: {},
+      transformedFormValues: {
+        extra_minter_details: {
+          startTime: 1700000000,
+          approximateDAExpEndTime: "900",
+          startPrice: "1000000000000000000",
+        },
+        base_price: "100000000000000000",
+      },
+      minterConfiguration,
+      publicClient,
+    });
+
+    expect(changes).toEqual([
+      {
+        field: "extra_minter_details.startTime",
+        title: "Start time",
+        currentValue: "2023-11-14T22:13:20.000Z",
+        newValue: "2023-11-14T22:13:20.000Z",
+        changed: false,
+      },
+      {
+        field: "extra_minter_details.approximateDAExpEndTime",
+        title: "Price decay half-life",
+        currentValue: "600 seconds",
+        newValue: "900 seconds",
+        changed: true,
+      },
+      {
+        field: "extra_minter_details.startPrice",
+        title: "Starting price",
+        currentValue: "1 ETH",
+        newValue: "1 ETH",
+        changed: false,
+      },
+      {
+        field: "base_price",
+        title: "Ending price",
+        currentValue: "0.1 ETH",
+        newValue: "0.1 ETH",
+        changed: false,
+      },
+    ]);
+  });
+
+  it("includes the address count of new allowlists", async () => {
+    const dataTransfer = new DataTransfer();
+    dataTransfer.items.add(
+      new File(["0x1,0x2,0x3"], "allowlist.csv", { type: "text/csv" })
+    );
+
+    const changes = await getFormValueChanges({
+      formSchema: updateMerkleRootForm,
+      formValues: { allowlistFile: dataTransfer.files },
+      transformedFormValues: { allowlistFile: "0xnewroot" },
+      minterConfiguration,
+      publicClient,
+    });
+
+    expect(changes).toEqual([
+      {
+        field: "allowlistFile",
+        title: "Allowlist file",
+        currentValue: "0xoldroot",
+        newValue: "0xnewroot (3 addresses)",
+        changed: true,
+      },
+    ]);
+  });
+
+  it("compares allowed projects rather than their additions and removals", async () => {
+    const changes = await getFormValueChanges({
+      formSchema: allowAndRemoveHoldersOfProjectsForm,
+      formValues: {
+        "extra_minter_details.allowlistedAddressAndProjectId": [
+          "0xcore-1",
+          "0xcore-2",
+        ],
+      },
+      transformedFormValues: {
+        ownedNFTAddressesAdd: ["0xcore"],
+        ownedNFTProjectIdsAdd: [2],
+      },
+      minterConfiguration,
+      publicClient,
+    });
+
+    expect(changes).toEqual([
+      {
+        field: "extra_minter_details.allowlistedAddressAndProjectId",
+        title: "Allowed projects",
+        currentValue: "0xcore-1",
+        newValue: "0xcore-1, 0xcore-2",
+        changed: true,
+      },
+    ]);
+  });
+});
+
+describe("getRevertReason", () => {
+  function revertError(
+    revertedError: ConstructorParameters<
+      typeof ContractFunctionRevertedError
+    >[0]
+  ) {
+    return new ContractFunctionExecutionError(
+      new ContractFunctionRevertedError(revertedError),
+      { abi: revertedError.abi, functionName: revertedError.functionName }
+    );
+  }
+
+  it("returns the revert reason of the contract", () => {
+    expect(
+      getRevertReason(
+        revertError({
+          abi: [],
+          functionName: "setAuctionDetails",
+          message: "Only future auctions",
+        })
+      )
+    ).toBe("Only future auctions");
+  });
+
+  it("returns the name of custom errors", () => {
+    expect(
+      getRevertReason(
+        revertError({
+          abi: transaction.abi,
+          functionName: "updatePricePerTokenInWei",
+          data: encodeErrorResult({
+            abi: transaction.abi,
+            errorName: "OnlyArtist",
+          }),
+        })
+      )
+    ).toBe("OnlyArtist");
+  });
+
+  it("returns the message of other errors", () => {
+    expect(getRevertReason(new Error("Network error"))).toBe("Network error");
+  });
+});
+
+describe("simulateFormTransaction", () => {
+  it("reports successful simulations", async () => {
+    (publicClient.simulateContract as jest.Mock).mockResolvedValueOnce({});
+
+    await expect(
+      simulateFormTransaction({ publicClient, transaction })
+    ).resolves.toEqual({ success: true });
+  });
+
+  it("reports the revert reason of failed simulations", async () => {
+    (publicClient.simulateContract as jest.Mock).mockRejectedValueOnce(
+      new Error("Only artist")
+    );
+
+    await expect(
+      simulateFormTransaction({ publicClient, transaction })
+    ).resolves.toEqual({ success: false, revertReason: "Only artist" });
+  });
+});
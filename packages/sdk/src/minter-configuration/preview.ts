@@ -0,0 +1,209 @@
+import get from "lodash/get";
+import {
+  Account,
+  BaseError,
+  ContractFunctionRevertedError,
+  Hex,
+  PublicClient,
+} from "viem";
+import { ProjectMinterConfigurationDetailsFragment } from "../generated/graphql";
+import { FormFieldSchema } from "../json-schema";
+import {
+  FormPreview,
+  FormPreviewChange,
+  PreparedFormTransaction,
+} from "../types";
+import { readFileAsText, textOrCsvAddressListToArray } from "../utils/merkle";
+import { processValueForDisplay } from "./display-processing";
+
+// Fields set from the project rather than the form
+const PROJECT_FIELDS = ["projectIndex", "coreContractAddress"];
+
+type FormatValue = (value: unknown) => Promise<string | null> | string | null;
+
+function isEmpty(value: unknown) {
+  return value === undefined || value === null || value === "";
+}
+
+function formatTimestamp(value: unknown) {
+  return isEmpty(value) ? null : new Date(Number(value) * 1000).toISOString();
+}
+
+function formatList(value: unknown) {
+  return Array.isArray(value) ? value.join(", ") : null;
+}
+
+async function countAllowlistAddresses(value: unknown) {
+  if (!(value instanceof FileList && value.length > 0)) {
+    return 0;
+  }
+
+  return textOrCsvAddressListToArray(await readFileAsText(value[0])).length;
+}
+
+/**
+ * Gets the changes a form submission would make, comparing the project's
+ * current minter configuration to the processed form values. Values are
+ * formatted for display: prices in the project's currency, timestamps as
+ * dates and allowlists as their merkle root and address count.
+ *
+ * @param args.formSchema - The schema of the form.
+ * @param args.formValues - The values entered in the form.
+ * @param args.transformedFormValues - The form values processed for submission.
+ * @param args.minterConfiguration - The project's current minter configuration.
+ * @param args.publicClient - A public client to read ERC20 currency decimals.
+ * @returns The changes for each field of the form.
+ */
+export async function getFormValueChanges({
+  formSchema,
+  formValues,
+  transformedFormValues,
+  minterConfiguration,
+  publicClient,
+}: {
+  formSchema: FormFieldSchema;
+  formValues: Record<string, unknown>;
+  transformedFormValues: Record<string, unknown>;
+  minterConfiguration: ProjectMinterConfigurationDetailsFragment | null;
+  publicClient: PublicClient;
+}): Promise<FormPreviewChange[]> {
+  const changes: FormPreviewChange[] = [];
+
+  for (const [field, fieldSchema] of Object.entries(
+    formSchema.properties ?? {}
+  )) {
+    if (PROJECT_FIELDS.includes(field) || typeof fieldSchema !== "object") {
+      continue;
+    }
+
+    // Where the current value is stored, and how both values are displayed
+    let currentValueKey = field;
+    let title = fieldSchema.title ?? field;
+    let newValue: unknown = get(transformedFormValues, field);
+    let format: FormatValue = (value) =>
+      isEmpty(value) ? null : String(value);
+    // Details of the new value that aren't compared to the current value
+    let newValueSuffix = "";
+
+    switch (fieldSchema.submissionProcessing) {
+      case "ethToWei": {
+        const currencySymbol = minterConfiguration?.currency_symbol ?? "ETH";
+        format = async (value) =>
+          isEmpty(value)
+            ? null
+            : `${await processValueForDisplay({
+                value: BigInt(value as string | number | bigint),
+                displayProcessing: "weiToEth",
+                minterConfiguration,
+                publicClient,
+              })} ${currencySymbol}`;
+        break;
+      }
+      case "datetimeToUnixTimestamp": {
+        format = formatTimestamp;
+        break;
+      }
+      case "auctionEndDatetimeToHalfLifeSeconds": {
+        // The end of the auction is derived from its price decay half-life
+        currentValueKey = "extra_minter_details.halfLifeSeconds";
+        title = "Price decay half-life";
+        format = (value) => (isEmpty(value) ? null : `${value} seconds`);
+        break;
+      }
+      case "merkleRoot": {
+        currentValueKey = "extra_minter_details.merkleRoot";
+        const addressCount = await countAllowlistAddresses(
+          get(formValues, field)
+        );
+        newValueSuffix = ` (${addressCount} addresses)`;
+        break;
+      }
+      case "tokenHolderAllowlist": {
+        // The processed values are the additions and removals, so compare
+        // the allowed projects themselves
+        newValue = get(formValues, field);
+        format = formatList;
+        break;
+      }
+    }
+
+    const currentValue = await format(
+      get(minterConfiguration, currentValueKey)
+    );
+    const formattedNewValue = await format(newValue);
+
+    changes.push({
+      field,
+      title,
+      currentValue,
+      newValue:
+        formattedNewValue === null
+          ? null
+          : `${formattedNewValue}${newValueSuffix}`,
+      changed: currentValue !== formattedNewValue,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Gets the reason a simulated transaction reverted, decoding the revert
+ * reason or custom error of the contract if there is one.
+ *
+ * @param error - The error thrown by the simulation.
+ * @returns The revert reason.
+ */
+export function getRevertReason(error: unknown) {
+  if (error instanceof BaseError) {
+    const revertError = error.walk(
+      (err) => err instanceof ContractFunctionRevertedError
+    );
+
+    if (revertError instanceof ContractFunctionRevertedError) {
+      return (
+        revertError.reason ??
+        revertError.data?.errorName ??
+        revertError.shortMessage
+      );
+    }
+
+    return error.shortMessage;
+  }
+
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * Simulates the transaction of a form submission.
+ *
+ * @param args.publicClient - The public client to simulate the transaction with.
+ * @param args.account - The account that would send the transaction, if connected.
+ * @param args.transaction - The prepared transaction of the form.
+ * @returns Whether the transaction would succeed, and its revert reason if not.
+ */
+export async function simulateFormTransaction({
+  publicClient,
+  account,
+  transaction,
+}: {
+  publicClient: PublicClient;
+  account?: Account | Hex;
+  transaction: PreparedFormTransaction;
+}): Promise<FormPreview["simulation"]> {
+  const { address, abi, functionName, args } = transaction;
+
+  try {
+    await publicClient.simulateContract({
+      address,
+      abi,
+      functionName,
+      args,
+      account,
+    });
+
+    return { success: true };
+  } catch (e) {
+    return { success: false, revertReason: getRevertReason(e) };
+  }
+}
@@ -0,0 +1,68 @@
+import { PublicClient } from "viem";
+import { z } from "zod";
+import {
+  DisplayProcessor,
+  InvalidProcessorInputError,
+  ProcessorRegistry,
+  runProcessor,
+} from "./processor-registry";
+
+const context = {
+  minterConfiguration: null,
+  publicClient: {} as PublicClient,
+};
+
+describe("ProcessorRegistry", () => {
+  it("gets registered processors by name", () => {
+    const double: DisplayProcessor<number> = {
+      process: (value) => value * 2,
+    };
+    const registry = new ProcessorRegistry<DisplayProcessor>({ double });
+
+    expect(registry.get("double")).toBe(double);
+    expect(registry.has("half")).toBe(false);
+    expect(registry.get("half")).toBeUndefined();
+  });
+
+  it("replaces processors registered under the same name", () => {
+    const first: DisplayProcessor = { process: () => "first" };
+    const second: DisplayProcessor = { process: () => "second" };
+    const registry = new ProcessorRegistry<DisplayProcessor>({ first });
+
+    registry.register("first", second).register("second", second);
+
+    expect(registry.get("first")).toBe(second);
+    expect(registry.names()).toEqual(["first", "second"]);
+  });
+});
+
+describe("runProcessor", () => {
+  const double: DisplayProcessor<number> = {
+    input: z.coerce.number(),
+    process: (value, { minterConfiguration }) =>
+      minterConfiguration === null ? value * 2 : value,
+  };
+
+  it("passes the parsed input and context to the processor", async () => {
+    await expect(runProcessor("double", double, "21", context)).resolves.toBe(
+      42
+    );
+  });
+
+  it("throws an InvalidProcessorInputError for invalid input", async () => {
+    const promise = runProcessor("double", double, "twenty", context);
+
+    await expect(promise).rejects.toThrow(InvalidProcessorInputError);
+    await expect(promise).rejects.toThrow(
+      "Invalid input for double processing: Expected number, received nan"
+    );
+  });
+
+  it("passes values through without an input schema", async () => {
+    const identity: DisplayProcessor = { process: (value) => value };
+
+    await expect(
+      runProcessor("identity", identity, { some: "object" }, context)
+    ).resolves.toEqual({ some: "object" });
+  });
+});
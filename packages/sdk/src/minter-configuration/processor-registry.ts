@@ -0,0 +1,130 @@
+import { PublicClient } from "viem";
+import { ZodType, ZodTypeDef } from "zod";
+import { ProjectMinterConfigurationDetailsFragment } from "../generated/graphql";
+import { BaseFormFieldSchema } from "../json-schema";
+import { TransformProjectMinterConfigurationFormValuesArgs } from "./types";
+
+export type SubmissionProcessorContext =
+  TransformProjectMinterConfigurationFormValuesArgs & {
+    // The name of the field being processed, in dot notation
+    fieldName: string;
+    fieldSchema: BaseFormFieldSchema;
+  };
+
+/**
+ * Transforms a form value for on-chain submission. Fields name their
+ * processor with `submissionProcessing`.
+ *
+ * `process` is declared as a method so that processors of different inputs
+ * can be registered together. Values are checked against `input`, when set,
+ * before they are processed.
+ */
+export type SubmissionProcessor<TInput = unknown> = {
+  // Validates the form value before it is processed
+  input?: ZodType<TInput, ZodTypeDef, unknown>;
+  // Merges the returned object into the processed form values rather than
+  // setting it as the field's value, for processors producing several
+  // transaction arguments
+  mergeResult?: boolean;
+  process(
+    value: TInput,
+    context: SubmissionProcessorContext
+  ): Promise<unknown> | unknown;
+};
+
+export type DisplayProcessorContext = {
+  minterConfiguration: ProjectMinterConfigurationDetailsFragment | null;
+  publicClient: PublicClient;
+};
+
+/**
+ * Transforms an on-chain value for display as the initial value of a form
+ * field. Fields name their processor with `displayProcessing`, and like
+ * submission processors may narrow the type of their input.
+ */
+export type DisplayProcessor<TInput = unknown> = {
+  // Validates the on-chain value before it is processed
+  input?: ZodType<TInput, ZodTypeDef, unknown>;
+  process(
+    value: TInput,
+    context: DisplayProcessorContext
+  ): Promise<unknown> | unknown;
+};
+
+/**
+ * @summary Error thrown when a value doesn't match the input of the
+ * processor it is passed to.
+ */
+export class InvalidProcessorInputError extends Error {
+  constructor(processorName: string, reason: string) {
+    super(`Invalid input for ${processorName} processing: ${reason}`);
+    this.name = "InvalidProcessorInputError";
+  }
+}
+
+/**
+ * A named set of form value processors. Registering a processor under a
+ * name that is already registered replaces it.
+ */
+export class ProcessorRegistry<
+  TProcessor extends SubmissionProcessor | DisplayProcessor,
+> {
+  private processors: Map<string, TProcessor>;
+
+  constructor(processors: Record<string, TProcessor> = {}) {
+    this.processors = new Map(Object.entries(processors));
+  }
+
+  register(name: string, processor: TProcessor): this {
+    this.processors.set(name, processor);
+    return this;
+  }
+
+  get(name: string): TProcessor | undefined {
+    return this.processors.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.processors.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.processors.keys());
+  }
+}
+
+export type SubmissionProcessorRegistry =
+  ProcessorRegistry<SubmissionProcessor>;
+export type DisplayProcessorRegistry = ProcessorRegistry<DisplayProcessor>;
+
+/**
+ * Runs a processor on a value, validating the value against the processor's
+ * input first.
+ *
+ * @throws {InvalidProcessorInputError} If the value doesn't match the input.
+ */
+export async function runProcessor<
+  TContext extends SubmissionProcessorContext | DisplayProcessorContext,
+>(
+  name: string,
+  processor: {
+    input?: ZodType<unknown, ZodTypeDef, unknown>;
+    process(value: unknown, context: TContext): Promise<unknown> | unknown;
+  },
+  value: unknown,
+  context: TContext
+): Promise<unknown> {
+  let input = value;
+  if (processor.input) {
+    const result = processor.input.safeParse(value);
+    if (!result.success) {
+      throw new InvalidProcessorInputError(
+        name,
+        result.error.issues.map(({ message }) => message).join(", ")
+      );
+    }
+    input = result.data;
+  }
+
+  return processor.process(input, context);
+}
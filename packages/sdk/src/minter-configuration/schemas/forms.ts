@@ -0,0 +1,518 @@
+import { Abi } from "viem";
+import {
+  BaseFormFieldSchema,
+  OnChainFormFieldSchema,
+  TransactionAccess,
+  TransactionAccessEnum,
+  ValidationConditionEnum,
+  ValidationRule,
+} from "../../json-schema";
+
+// Form schemas for the project configuration functions shared by the minters
+// in the minter suite. Every function takes the project index and core
+// contract address as its first two arguments.
+
+const projectIndexField: BaseFormFieldSchema = {
+  type: "integer",
+  title: "Project index",
+  minimum: 0,
+};
+
+const coreContractAddressField: BaseFormFieldSchema = {
+  type: "string",
+  title: "Core contract address",
+};
+
+const basePriceField: BaseFormFieldSchema = {
+  type: "number",
+  title: "Price",
+  format: "ETH",
+  default: 0,
+  displayProcessing: "weiToEth",
+  submissionProcessing: "ethToWei",
+};
+
+const startTimeField: BaseFormFieldSchema = {
+  type: "string",
+  title: "Start time",
+  format: "date-time",
+  default: "",
+  displayProcessing: "unixTimestampToDatetime",
+  submissionProcessing: "datetimeToUnixTimestamp",
+};
+
+const endTimeField: BaseFormFieldSchema = {
+  type: "string",
+  title: "End time",
+  format: "date-time",
+  default: "",
+  displayProcessing: "unixTimestampToDatetime",
+  submissionProcessing: "datetimeToUnixTimestamp",
+};
+
+const startTimeInFutureRule: ValidationRule = {
+  field: "extra_minter_details.startTime",
+  left: { field: "extra_minter_details.startTime" },
+  condition: ValidationConditionEnum.GREATER_THAN,
+  right: { now: true },
+  message: "Start time must be in the future",
+};
+
+function endTimeAfterStartTimeRule(endTimeField: string): ValidationRule {
+  return {
+    field: endTimeField,
+    left: { field: endTimeField },
+    condition: ValidationConditionEnum.GREATER_THAN,
+    right: { field: "extra_minter_details.startTime" },
+    message: "End time must be after the start time",
+  };
+}
+
+const endPriceBelowStartPriceRule: ValidationRule = {
+  field: "base_price",
+  left: { field: "base_price" },
+  condition: ValidationConditionEnum.LESS_THAN,
+  right: { field: "extra_minter_details.startPrice" },
+  message: "Ending price must be less than the starting price",
+};
+
+/**
+ * Requires the auction to last at least the minimum length returned by a
+ * view of the minter.
+ */
+function minimumAuctionLengthRule(minterView: string): ValidationRule {
+  return {
+    field: "extra_minter_details.endTime",
+    left: {
+      op: "sub",
+      args: [
+        { field: "extra_minter_details.endTime" },
+        { field: "extra_minter_details.startTime" },
+      ],
+    },
+    condition: ValidationConditionEnum.GREATER_THAN_OR_EQUAL,
+    right: { minterView },
+    message: "Auction is shorter than the minimum length allowed by the minter",
+  };
+}
+
+/**
+ * Builds the ABI of a project configuration function from the inputs that
+ * follow its project index and core contract address.
+ */
+function projectConfigurationFunctionAbi(
+  functionName: string,
+  inputs: Array<[name: string, type: string]>
+): Abi {
+  return [
+    {
+      name: functionName,
+      type: "function",
+      inputs: (
+        [
+          ["_projectId", "uint256"],
+          ["_coreContract", "address"],
+          ...inputs,
+        ] as Array<[string, string]>
+      ).map(([name, type]) => ({ name, type, internalType: type })),
+      outputs: [],
+      stateMutability: "nonpayable",
+    },
+  ];
+}
+
+/**
+ * Builds an on-chain form for a project configuration function. `fields`
+ * are the form fields passed as arguments after the project index and core
+ * contract address, in order. Most functions may only be called by the
+ * project's artist.
+ */
+function projectConfigurationForm({
+  title,
+  description,
+  functionName,
+  inputs,
+  fields,
+  args = Object.keys(fields),
+  syncCheckFieldsOverride,
+  validationRules,
+  access = TransactionAccessEnum.ARTIST,
+}: {
+  title: string;
+  description?: string;
+  functionName: string;
+  inputs: Array<[name: string, type: string]>;
+  fields: Record<string, BaseFormFieldSchema>;
+  args?: string[];
+  syncCheckFieldsOverride?: string[];
+  validationRules?: ValidationRule[];
+  access?: TransactionAccess;
+}): OnChainFormFieldSchema {
+  const fieldNames = Object.keys(fields);
+
+  return {
+    type: "object",
+    title,
+    ...(description ? { description } : {}),
+    onChain: true,
+    // Forms without fields are submitted with a single button
+    ...(fieldNames.length === 0
+      ? {
+          format: "button",
+          compound: true,
+          compoundBehavior: "transactionGroup",
+        }
+      : {}),
+    required: ["projectIndex", "coreContractAddress", ...fieldNames],
+    "ui:order": ["projectIndex", "coreContractAddress", ...fieldNames],
+    properties: {
+      projectIndex: projectIndexField,
+      coreContractAddress: coreContractAddressField,
+      ...fields,
+    },
+    ...(validationRules ? { validationRules } : {}),
+    transactionDetails: {
+      abi: projectConfigurationFunctionAbi(functionName, inputs),
+      args: ["projectIndex", "coreContractAddress", ...args],
+      functionName,
+      access,
+      ...(syncCheckFieldsOverride ? { syncCheckFieldsOverride } : {}),
+    },
+  } as OnChainFormFieldSchema;
+}
+
+export const manuallyLimitProjectMaxInvocationsForm = projectConfigurationForm({
+  title: "Manually limit project max invocations",
+  functionName: "manuallyLimitProjectMaxInvocations",
+  inputs: [["_maxInvocations", "uint24"]],
+  fields: {
+    max_invocations: {
+      type: "number",
+      title: "Max invocations",
+      minimum: 0,
+      multipleOf: 1,
+    },
+  },
+});
+
+export const updatePricePerTokenInWeiForm = projectConfigurationForm({
+  title: "Set price per token",
+  functionName: "updatePricePerTokenInWei",
+  inputs: [["_pricePerTokenInWei", "uint248"]],
+  fields: {
+    base_price: basePriceField,
+  },
+});
+
+export const updateProjectCurrencyInfoForm = projectConfigurationForm({
+  title: "Set currency",
+  description:
+    "The ERC20 token that purchases are paid in. Set the price per token after changing the currency, as it is denominated in the token's units.",
+  functionName: "updateProjectCurrencyInfo",
+  inputs: [
+    ["_currencySymbol", "string"],
+    ["_currencyAddress", "address"],
+  ],
+  fields: {
+    currency_symbol: {
+      type: "string",
+      title: "Currency symbol",
+      minLength: 1,
+    },
+    currency_address: {
+      type: "string",
+      title: "Currency address",
+      pattern: "^0x[a-fA-F0-9]{40}$",
+    },
+  },
+});
+
+export const updateMerkleRootForm = projectConfigurationForm({
+  title: "Update allowlist",
+  functionName: "updateMerkleRoot",
+  inputs: [["_root", "bytes32"]],
+  fields: {
+    allowlistFile: {
+      type: "string",
+      title: "Allowlist file",
+      default: "",
+      "ui:widget": "file",
+      description:
+        "Please upload a comma-separated .txt or .csv file of ETH addresses who may purchase mints",
+      submissionProcessing: "merkleRoot",
+    },
+  },
+  syncCheckFieldsOverride: ["extra_minter_details.merkleRoot"],
+});
+
+export const setProjectInvocationsPerAddressForm = projectConfigurationForm({
+  title: "Set mints per address",
+  functionName: "setProjectInvocationsPerAddress",
+  inputs: [["_maxInvocationsPerAddress", "uint24"]],
+  fields: {
+    "extra_minter_details.maxInvocationsPerAddress": {
+      type: "integer",
+      title: "Max mints per address",
+      description: "Set to 0 to allow unlimited mints per address",
+      minimum: 0,
+      default: 1,
+    },
+  },
+});
+
+export const allowAndRemoveHoldersOfProjectsForm = projectConfigurationForm({
+  title: "Add/remove allowed projects",
+  functionName: "allowAndRemoveHoldersOfProjects",
+  inputs: [
+    ["_ownedNFTAddressesAdd", "address[]"],
+    ["_ownedNFTProjectIdsAdd", "uint256[]"],
+    ["_ownedNFTAddressesRemove", "address[]"],
+    ["_ownedNFTProjectIdsRemove", "uint256[]"],
+  ],
+  fields: {
+    "extra_minter_details.allowlistedAddressAndProjectId": {
+      type: "array",
+      items: {
+        type: "string",
+      },
+      title: "Allowed projects",
+      description:
+        "Addresses and project IDs that are allowed to mint in the format <core contract address>-<project ID>",
+      submissionProcessing: "tokenHolderAllowlist",
+    },
+  },
+  // Produced from the allowed projects by the tokenHolderAllowlist
+  // submission processing
+  args: [
+    "ownedNFTAddressesAdd",
+    "ownedNFTProjectIdsAdd",
+    "ownedNFTAddressesRemove",
+    "ownedNFTProjectIdsRemove",
+  ],
+  syncCheckFieldsOverride: [
+    "extra_minter_details.allowlistedAddressAndProjectId",
+  ],
+});
+
+/**
+ * Requires the price of an exponential Dutch auction to decay no faster than
+ * the minimum half-life of the minter, which is derived from the length of
+ * the auction and its prices.
+ */
+const minimumPriceDecayHalfLifeRule: ValidationRule = {
+  field: "extra_minter_details.approximateDAExpEndTime",
+  left: {
+    op: "div",
+    args: [
+      {
+        op: "sub",
+        args: [
+          { field: "extra_minter_details.approximateDAExpEndTime" },
+          { field: "extra_minter_details.startTime" },
+        ],
+      },
+      {
+        op: "halfLives",
+        args: [
+          {
+            op: "div",
+            args: [
+              { field: "extra_minter_details.startPrice" },
+              { field: "base_price" },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  condition: ValidationConditionEnum.GREATER_THAN_OR_EQUAL,
+  right: { minterView: "minimumPriceDecayHalfLifeSeconds" },
+  message:
+    "Price decays faster than the minimum half-life allowed by the minter, lengthen the auction or raise the ending price",
+};
+
+export const setDAExpAuctionDetailsForm = projectConfigurationForm({
+  title: "Set auction details",
+  functionName: "setAuctionDetails",
+  inputs: [
+    ["_auctionTimestampStart", "uint40"],
+    ["_priceDecayHalfLifeSeconds", "uint40"],
+    ["_startPrice", "uint256"],
+    ["_basePrice", "uint256"],
+  ],
+  fields: {
+    "extra_minter_details.startTime": startTimeField,
+    "extra_minter_details.approximateDAExpEndTime": {
+      ...endTimeField,
+      submissionProcessing: "auctionEndDatetimeToHalfLifeSeconds",
+    },
+    "extra_minter_details.startPrice": {
+      ...basePriceField,
+      title: "Starting price",
+    },
+    base_price: { ...basePriceField, title: "Ending price" },
+  },
+  validationRules: [
+    startTimeInFutureRule,
+    endTimeAfterStartTimeRule("extra_minter_details.approximateDAExpEndTime"),
+    minimumPriceDecayHalfLifeRule,
+    endPriceBelowStartPriceRule,
+  ],
+});
+
+export const setDALinAuctionDetailsForm = projectConfigurationForm({
+  title: "Set auction details",
+  functionName: "setAuctionDetails",
+  inputs: [
+    ["_auctionTimestampStart", "uint40"],
+    ["_auctionTimestampEnd", "uint40"],
+    ["_startPrice", "uint256"],
+    ["_basePrice", "uint256"],
+  ],
+  fields: {
+    "extra_minter_details.startTime": startTimeField,
+    "extra_minter_details.endTime": endTimeField,
+    "extra_minter_details.startPrice": {
+      ...basePriceField,
+      title: "Starting price",
+    },
+    base_price: { ...basePriceField, title: "Ending price" },
+  },
+  validationRules: [
+    startTimeInFutureRule,
+    endTimeAfterStartTimeRule("extra_minter_details.endTime"),
+    minimumAuctionLengthRule("minimumAuctionLengthSeconds"),
+    endPriceBelowStartPriceRule,
+  ],
+});
+
+export function resetAuctionDetailsForm(syncCheckFieldsOverride: string[]) {
+  return projectConfigurationForm({
+    title: "Reset auction details",
+    functionName: "resetAuctionDetails",
+    inputs: [],
+    fields: {},
+    syncCheckFieldsOverride,
+    access: TransactionAccessEnum.CORE_ADMIN_ACL,
+  });
+}
+
+export const setRAMAuctionDetailsForm = projectConfigurationForm({
+  title: "Set auction details",
+  functionName: "setAuctionDetails",
+  inputs: [
+    ["_auctionTimestampStart", "uint40"],
+    ["_auctionTimestampEnd", "uint40"],
+    ["_basePrice", "uint256"],
+    ["_allowExtraTime", "bool"],
+    ["_adminArtistOnlyMintPeriodIfSellout", "bool"],
+  ],
+  fields: {
+    "extra_minter_details.startTime": startTimeField,
+    "extra_minter_details.endTime": endTimeField,
+    base_price: { ...basePriceField, title: "Minimum bid" },
+    "extra_minter_details.allowExtraTime": {
+      type: "boolean",
+      title: "Extend the auction for bids placed in its last minutes",
+      default: true,
+    },
+    "extra_minter_details.adminArtistOnlyMintPeriodIfSellout": {
+      type: "boolean",
+      title:
+        "Reserve an admin and artist only mint period if the auction sells out",
+      default: true,
+    },
+  },
+  validationRules: [
+    startTimeInFutureRule,
+    endTimeAfterStartTimeRule("extra_minter_details.endTime"),
+    minimumAuctionLengthRule("MIN_AUCTION_DURATION_SECONDS"),
+    {
+      field: "base_price",
+      left: { field: "base_price" },
+      condition: ValidationConditionEnum.GREATER_THAN_OR_EQUAL,
+      right: { value: 0.05 },
+      message: "Minimum bid must be at least 0.05 ETH",
+    },
+  ],
+});
+
+export const reduceAuctionLengthForm = projectConfigurationForm({
+  title: "Reduce auction length",
+  functionName: "reduceAuctionLength",
+  inputs: [["_auctionTimestampEnd", "uint40"]],
+  fields: {
+    "extra_minter_details.endTime": endTimeField,
+  },
+  validationRules: [
+    {
+      field: "extra_minter_details.endTime",
+      left: { field: "extra_minter_details.endTime" },
+      condition: ValidationConditionEnum.GREATER_THAN,
+      right: { now: true },
+      message: "End time must be in the future",
+    },
+  ],
+});
+
+export const configureFutureAuctionsForm = projectConfigurationForm({
+  title: "Configure future auctions",
+  functionName: "configureFutureAuctions",
+  inputs: [
+    ["_timestampStart", "uint256"],
+    ["_auctionDurationSeconds", "uint256"],
+    ["_basePrice", "uint256"],
+    ["_minBidIncrementPercentage", "uint8"],
+  ],
+  fields: {
+    "extra_minter_details.startTime": startTimeField,
+    "extra_minter_details.auctionDurationSeconds": {
+      type: "integer",
+      title: "Auction duration in seconds",
+      minimum: 60,
+      default: 3600,
+    },
+    base_price: { ...basePriceField, title: "Minimum bid" },
+    "extra_minter_details.minBidIncrementPercentage": {
+      type: "integer",
+      title: "Minimum bid increment percentage",
+      minimum: 1,
+      maximum: 100,
+      default: 5,
+    },
+  },
+  validationRules: [
+    {
+      field: "extra_minter_details.auctionDurationSeconds",
+      left: { field: "extra_minter_details.auctionDurationSeconds" },
+      condition: ValidationConditionEnum.GREATER_THAN_OR_EQUAL,
+      right: { minterView: "MIN_AUCTION_DURATION_SECONDS" },
+      message:
+        "Auction duration is shorter than the minimum allowed by the minter",
+    },
+  ],
+});
+
+export const resetFutureAuctionDetailsForm = projectConfigurationForm({
+  title: "Reset future auction details",
+  functionName: "resetFutureAuctionDetails",
+  inputs: [],
+  fields: {},
+  syncCheckFieldsOverride: [
+    "extra_minter_details.startTime",
+    "extra_minter_details.auctionDurationSeconds",
+    "extra_minter_details.minBidIncrementPercentage",
+    "base_price",
+  ],
+  access: TransactionAccessEnum.CORE_ADMIN_ACL_OR_ARTIST,
+});
+
+export const incrementPolyptychProjectPanelIdForm = projectConfigurationForm({
+  title: "Start next panel",
+  description:
+    "Allows holders of the previous panel to mint the next one. Each token of the previous panel can be used once per panel.",
+  functionName: "incrementPolyptychProjectPanelId",
+  inputs: [],
+  fields: {},
+  syncCheckFieldsOverride: ["extra_minter_details.polyptychPanelId"],
+});
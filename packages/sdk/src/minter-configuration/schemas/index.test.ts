@@ -0,0 +1,234 @@
+import { describe, expect, it } from "@jest/globals";
+import { Abi } from "viem";
+import { minterRAMV0Abi } from "../../../abis/minterRAMV0Abi";
+import { minterSetPriceERC20V5Abi } from "../../../abis/minterSetPriceERC20V5Abi";
+import { minterSetPriceMerkleV5Abi } from "../../../abis/minterSetPriceMerkleV5Abi";
+import {
+  ConfigurationSchema,
+  OnChainFormFieldSchema,
+  ValidationConditionEnum,
+} from "../../json-schema";
+import {
+  LOCAL_MINTER_CONFIGURATION_SCHEMAS,
+  getMinterConfigurationSchema,
+  validateMinterConfigurationSchema,
+} from "./index";
+import {
+  setRAMAuctionDetailsForm,
+  updatePricePerTokenInWeiForm,
+} from "./forms";
+
+function withTransactionDetails(
+  form: OnChainFormFieldSchema,
+  transactionDetails: Partial<OnChainFormFieldSchema["transactionDetails"]>
+): ConfigurationSchema {
+  return {
+    type: "object",
+    title: "Test schema",
+    properties: {
+      form: {
+        ...form,
+        transactionDetails: {
+          ...form.transactionDetails,
+          ...transactionDetails,
+        },
+      },
+    },
+  };
+}
+
+describe("LOCAL_MINTER_CONFIGURATION_SCHEMAS", () => {
+  // The SDK only bundles the full ABIs of these minters, the contracts
+  // package's validate:sdk-minter-schemas script checks the rest
+  const minterAbis: Array<[string, Abi]> = [
+    ["MinterRAMV0", minterRAMV0Abi],
+    ["MinterSetPriceERC20V5", minterSetPriceERC20V5Abi],
+    ["MinterSetPriceMerkleV5", minterSetPriceMerkleV5Abi],
+  ];
+
+  it.each(minterAbis)("matches the ABI of %s", (minterType, abi) => {
+    const schema =
+      LOCAL_MINTER_CONFIGURATION_SCHEMAS[
+        minterType as keyof typeof LOCAL_MINTER_CONFIGURATION_SCHEMAS
+      ];
+
+    expect(schema).toBeDefined();
+    expect(
+      validateMinterConfigurationSchema(schema as ConfigurationSchema, abi)
+    ).toEqual([]);
+  });
+});
+
+describe("validateMinterConfigurationSchema", () => {
+  it("reports functions that aren't on the minter", () => {
+    const schema = withTransactionDetails(updatePricePerTokenInWeiForm, {
+      functionName: "updatePricePerTokenInWei",
+    });
+
+    expect(validateMinterConfigurationSchema(schema, minterRAMV0Abi)).toEqual([
+      {
+        form: "form",
+        message: "updatePricePerTokenInWei is not a function of the minter",
+      },
+    ]);
+  });
+
+  it("reports functions missing from the form's abi", () => {
+    const schema = withTransactionDetails(updatePricePerTokenInWeiForm, {
+      functionName: "updatePrice",
+    });
+
+    expect(
+      validateMinterConfigurationSchema(schema, minterSetPriceMerkleV5Abi)
+    ).toEqual([
+      {
+        form: "form",
+        message: "transactionDetails.abi does not include updatePrice",
+      },
+    ]);
+  });
+
+  it("reports signatures that don't match the minter's", () => {
+    const schema = withTransactionDetails(updatePricePerTokenInWeiForm, {
+      abi: [
+        {
+          name: "updatePricePerTokenInWei",
+          type: "function",
+          inputs: [
+            { name: "_projectId", type: "uint256" },
+            { name: "_coreContract", type: "address" },
+            { name: "_pricePerTokenInWei", type: "uint256" },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+      ],
+    });
+
+    expect(
+      validateMinterConfigurationSchema(schema, minterSetPriceMerkleV5Abi)
+    ).toEqual([
+      {
+        form: "form",
+        message:
+          "updatePricePerTokenInWei(uint256,address,uint256) does not match the minter's updatePricePerTokenInWei(uint256,address,uint248)",
+      },
+    ]);
+  });
+
+  it("reports view functions", () => {
+    const schema = withTransactionDetails(updatePricePerTokenInWeiForm, {
+      functionName: "isEngineView",
+      abi: [
+        {
+          name: "isEngineView",
+          type: "function",
+          inputs: [{ name: "_coreContract", type: "address" }],
+          outputs: [{ name: "", type: "bool" }],
+          stateMutability: "view",
+        },
+      ],
+      args: ["coreContractAddress"],
+    });
+
+    expect(
+      validateMinterConfigurationSchema(schema, minterSetPriceMerkleV5Abi)
+    ).toEqual([
+      {
+        form: "form",
+        message: "isEngineView(address) is a view function",
+      },
+    ]);
+  });
+
+  it("reports args that don't match the function's inputs", () => {
+    const schema = withTransactionDetails(updatePricePerTokenInWeiForm, {
+      args: ["projectIndex", "coreContractAddress", "price", "extra"],
+    });
+
+    expect(
+      validateMinterConfigurationSchema(schema, minterSetPriceMerkleV5Abi)
+    ).toEqual([
+      {
+        form: "form",
+        message:
+          "transactionDetails.args has 4 arguments but updatePricePerTokenInWei(uint256,address,uint248) takes 3",
+      },
+      { form: "form", message: "Argument price is not a field of the form" },
+      { form: "form", message: "Argument extra is not a field of the form" },
+    ]);
+  });
+
+  it("reports validation rules reading views that aren't on the minter", () => {
+    const schema = withTransactionDetails(
+      {
+        ...setRAMAuctionDetailsForm,
+        validationRules: [
+          ...(setRAMAuctionDetailsForm.validationRules ?? []),
+          {
+            field: "base_price",
+            left: { field: "base_price" },
+            condition: ValidationConditionEnum.LESS_THAN,
+            right: { minterView: "maximumBasePrice" },
+            message: "Minimum bid is too high",
+          },
+        ],
+      },
+      {}
+    );
+
+    expect(validateMinterConfigurationSchema(schema, minterRAMV0Abi)).toEqual([
+      {
+        form: "form",
+        message:
+          "Validation rule minter view maximumBasePrice() is not a view of the minter",
+      },
+    ]);
+  });
+});
+
+describe("getMinterConfigurationSchema", () => {
+  const remoteSchema: ConfigurationSchema = {
+    type: "object",
+    title: "Remote schema",
+    properties: {
+      updatePricePerTokenInWei: {
+        ...updatePricePerTokenInWeiForm,
+        title: "Remote price form",
+      },
+    },
+  };
+
+  it("returns the local schema if there is no remote schema", () => {
+    expect(getMinterConfigurationSchema("MinterSetPriceV5", null)).toBe(
+      LOCAL_MINTER_CONFIGURATION_SCHEMAS.MinterSetPriceV5
+    );
+    expect(getMinterConfigurationSchema("MinterSetPriceV5", {} as any)).toBe(
+      LOCAL_MINTER_CONFIGURATION_SCHEMAS.MinterSetPriceV5
+    );
+  });
+
+  it("returns the remote schema for minters without a local schema", () => {
+    expect(getMinterConfigurationSchema("MinterUnknownV0", remoteSchema)).toBe(
+      remoteSchema
+    );
+    expect(getMinterConfigurationSchema("MinterUnknownV0")).toBeNull();
+    expect(getMinterConfigurationSchema(null)).toBeNull();
+  });
+
+  it("overrides local forms with remote ones", () => {
+    const schema = getMinterConfigurationSchema(
+      "MinterSetPriceV5",
+      remoteSchema
+    );
+
+    expect(schema?.title).toBe("Remote schema");
+    expect(Object.keys(schema?.properties ?? {})).toEqual([
+      "updatePricePerTokenInWei",
+      "manuallyLimitProjectMaxInvocations",
+    ]);
+    expect(schema?.properties.updatePricePerTokenInWei.title).toBe(
+      "Remote price form"
+    );
+  });
+});
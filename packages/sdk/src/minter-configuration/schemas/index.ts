@@ -0,0 +1,72 @@
+import { ConfigurationSchema } from "../../json-schema";
+import {
+  LOCAL_MINTER_CONFIGURATION_SCHEMAS,
+  MinterConfigurationSchemaRegistry,
+} from "./registry";
+
+/**
+ * Gets the project configuration schema of a minter type. The schema served
+ * by the Art Blocks API overrides the local one form by form, so forms can be
+ * updated remotely while the local registry covers minters the API doesn't
+ * have a schema for yet.
+ *
+ * @param minterType - The on-chain minter type, e.g. `MinterSetPriceV5`.
+ * @param remoteSchema - The minter type's schema from the Art Blocks API, if any.
+ * @returns The merged schema, or null if neither is available.
+ */
+export function getMinterConfigurationSchema(
+  minterType: string | null | undefined,
+  remoteSchema?: ConfigurationSchema | null
+): ConfigurationSchema | null {
+  const localSchema = minterType
+    ? LOCAL_MINTER_CONFIGURATION_SCHEMAS[
+        minterType as keyof MinterConfigurationSchemaRegistry
+      ]
+    : undefined;
+
+  if (!remoteSchema || Object.keys(remoteSchema).length === 0) {
+    return localSchema ?? null;
+  }
+
+  if (!localSchema) {
+    return remoteSchema;
+  }
+
+  return {
+    ...localSchema,
+    ...remoteSchema,
+    properties: {
+      ...localSchema.properties,
+      ...remoteSchema.properties,
+    },
+  };
+}
+
+/**
+ * Describes a minter type the way the Art Blocks API does, labelled with the
+ * title of its local schema.
+ *
+ * @param minterType - The on-chain minter type, e.g. `MinterDAExpV5`.
+ * @returns The minter type's label, unversioned type (`MinterDAExp`) and
+ * version number (5).
+ */
+export function getMinterTypeDetails(minterType: string) {
+  const match = minterType.match(/^(.*)V(\d+)$/);
+
+  return {
+    label:
+      LOCAL_MINTER_CONFIGURATION_SCHEMAS[
+        minterType as keyof MinterConfigurationSchemaRegistry
+      ]?.title ?? minterType,
+    unversioned_type: match ? match[1] : minterType,
+    version_number: match ? Number(match[2]) : 0,
+  };
+}
+
+export {
+  LOCAL_MINTER_CONFIGURATION_SCHEMAS,
+  LOCAL_MINTER_CONFIGURATION_SCHEMAS_VERSION,
+} from "./registry";
+export type { MinterConfigurationSchemaRegistry } from "./registry";
+export { validateMinterConfigurationSchema } from "./validate";
+export type { MinterConfigurationSchemaIssue } from "./validate";
@@ -0,0 +1,250 @@
+import { Minter_Type_Names_Enum } from "../../generated/graphql";
+import { ConfigurationSchema } from "../../json-schema";
+import {
+  allowAndRemoveHoldersOfProjectsForm,
+  configureFutureAuctionsForm,
+  incrementPolyptychProjectPanelIdForm,
+  manuallyLimitProjectMaxInvocationsForm,
+  reduceAuctionLengthForm,
+  resetAuctionDetailsForm,
+  resetFutureAuctionDetailsForm,
+  setDAExpAuctionDetailsForm,
+  setDALinAuctionDetailsForm,
+  setProjectInvocationsPerAddressForm,
+  setRAMAuctionDetailsForm,
+  updateMerkleRootForm,
+  updatePricePerTokenInWeiForm,
+  updateProjectCurrencyInfoForm,
+} from "./forms";
+
+/**
+ * The version of the local minter configuration schemas. Bump it whenever a
+ * schema changes so that apps caching forms can tell them apart.
+ */
+export const LOCAL_MINTER_CONFIGURATION_SCHEMAS_VERSION = 3;
+
+export type MinterConfigurationSchemaRegistry = Partial<
+  Record<`${Minter_Type_Names_Enum}`, ConfigurationSchema>
+>;
+
+const resetDAExpAuctionDetailsForm = resetAuctionDetailsForm([
+  "extra_minter_details.startTime",
+  "extra_minter_details.endTime",
+  "extra_minter_details.startPrice",
+  "extra_minter_details.halfLifeSeconds",
+  "base_price",
+]);
+
+const resetDALinAuctionDetailsForm = resetAuctionDetailsForm([
+  "extra_minter_details.startTime",
+  "extra_minter_details.endTime",
+  "extra_minter_details.startPrice",
+  "base_price",
+]);
+
+const setPriceV5Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Fixed price minter",
+  description: "Collectors pay a fixed price set by the artist.",
+  properties: {
+    updatePricePerTokenInWei: updatePricePerTokenInWeiForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+const setPriceERC20V5Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Fixed price ERC20 minter",
+  description:
+    "Collectors pay a fixed price in an ERC20 token chosen by the artist.",
+  properties: {
+    updateProjectCurrencyInfo: updateProjectCurrencyInfoForm,
+    updatePricePerTokenInWei: updatePricePerTokenInWeiForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+const setPriceMerkleV5Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Fixed price allowlist minter",
+  description:
+    "Collectors on an allowlist uploaded by the artist pay a fixed price, up to a number of mints per address.",
+  properties: {
+    updatePricePerTokenInWei: updatePricePerTokenInWeiForm,
+    updateMerkleRoot: updateMerkleRootForm,
+    setProjectInvocationsPerAddress: setProjectInvocationsPerAddressForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+const setPriceHolderV5Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Fixed price token holder minter",
+  description:
+    "Holders of tokens from projects allowed by the artist pay a fixed price.",
+  properties: {
+    updatePricePerTokenInWei: updatePricePerTokenInWeiForm,
+    allowAndRemoveHoldersOfProjects: allowAndRemoveHoldersOfProjectsForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+const setPricePolyptychV5Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Fixed price polyptych minter",
+  description:
+    "Holders of tokens from the previous panel of a polyptych mint a matching token of the next panel at a fixed price.",
+  properties: {
+    updatePricePerTokenInWei: updatePricePerTokenInWeiForm,
+    allowAndRemoveHoldersOfProjects: allowAndRemoveHoldersOfProjectsForm,
+    incrementPolyptychProjectPanelId: incrementPolyptychProjectPanelIdForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+const setPricePolyptychERC20V5Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Fixed price polyptych ERC20 minter",
+  description:
+    "Holders of tokens from the previous panel of a polyptych mint a matching token of the next panel at a fixed price in an ERC20 token.",
+  properties: {
+    updateProjectCurrencyInfo: updateProjectCurrencyInfoForm,
+    updatePricePerTokenInWei: updatePricePerTokenInWeiForm,
+    allowAndRemoveHoldersOfProjects: allowAndRemoveHoldersOfProjectsForm,
+    incrementPolyptychProjectPanelId: incrementPolyptychProjectPanelIdForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+const minPriceV0Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Minimum price minter",
+  description:
+    "Collectors pay a fixed price set by the artist, which can't be lower than the minter's minimum mint fee.",
+  properties: {
+    updatePricePerTokenInWei: updatePricePerTokenInWeiForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+const minPriceMerkleV0Schema: ConfigurationSchema = {
+  ...setPriceMerkleV5Schema,
+  title: "Minimum price allowlist minter",
+  description:
+    "Collectors on an allowlist uploaded by the artist pay a fixed price, which can't be lower than the minter's minimum mint fee.",
+};
+
+const daExpV5Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Automated exponential dutch auction minter",
+  description:
+    "For exponential Dutch auctions, artists specify the starting price, ending price, and the half-life for price drops. Collectors will pay more for tokens purchased earlier in the auction, and less for tokens purchased later in the auction.",
+  properties: {
+    setAuctionDetails: setDAExpAuctionDetailsForm,
+    resetAuctionDetails: resetDAExpAuctionDetailsForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+const daExpHolderV5Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Automated exponential dutch auction token holder minter",
+  description:
+    "An exponential Dutch auction open to holders of tokens from projects allowed by the artist.",
+  properties: {
+    ...daExpV5Schema.properties,
+    allowAndRemoveHoldersOfProjects: allowAndRemoveHoldersOfProjectsForm,
+  },
+  additionalProperties: true,
+};
+
+const daExpSettlementV3Schema: ConfigurationSchema = {
+  ...daExpV5Schema,
+  title: "Automated exponential dutch auction settlement minter",
+  description:
+    "An exponential Dutch auction where every collector pays the price of the final token sold. Collectors that paid more can claim the difference once the auction is complete.",
+};
+
+const daLinV5Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Automated linear dutch auction minter",
+  description:
+    "For linear Dutch auctions, artists specify the starting price, ending price, and the start and end times of the auction. The price drops linearly between them.",
+  properties: {
+    setAuctionDetails: setDALinAuctionDetailsForm,
+    resetAuctionDetails: resetDALinAuctionDetailsForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+const daLinHolderV5Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Automated linear dutch auction token holder minter",
+  description:
+    "A linear Dutch auction open to holders of tokens from projects allowed by the artist.",
+  properties: {
+    ...daLinV5Schema.properties,
+    allowAndRemoveHoldersOfProjects: allowAndRemoveHoldersOfProjectsForm,
+  },
+  additionalProperties: true,
+};
+
+const ramV0Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Ranked auction minter",
+  description:
+    "Collectors place bids during the auction, and the highest bids win a token for the price of the lowest winning bid.",
+  properties: {
+    setAuctionDetails: setRAMAuctionDetailsForm,
+    reduceAuctionLength: reduceAuctionLengthForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+const seaV1Schema: ConfigurationSchema = {
+  type: "object",
+  title: "Serial English auction minter",
+  description:
+    "Tokens are auctioned one at a time, with the next auction starting as soon as the previous one settles.",
+  properties: {
+    configureFutureAuctions: configureFutureAuctionsForm,
+    resetFutureAuctionDetails: resetFutureAuctionDetailsForm,
+    manuallyLimitProjectMaxInvocations: manuallyLimitProjectMaxInvocationsForm,
+  },
+  additionalProperties: true,
+};
+
+/**
+ * Project configuration schemas for the shared minters in
+ * `contracts/minter-suite/Minters`, keyed by minter type. They let
+ * configuration forms be generated for minters before the Art Blocks API
+ * serves their schemas.
+ */
+export const LOCAL_MINTER_CONFIGURATION_SCHEMAS: MinterConfigurationSchemaRegistry =
+  {
+    MinterSetPriceV5: setPriceV5Schema,
+    MinterSetPriceERC20V5: setPriceERC20V5Schema,
+    MinterSetPriceMerkleV5: setPriceMerkleV5Schema,
+    MinterSetPriceHolderV5: setPriceHolderV5Schema,
+    MinterSetPricePolyptychV5: setPricePolyptychV5Schema,
+    MinterSetPricePolyptychERC20V5: setPricePolyptychERC20V5Schema,
+    MinterMinPriceV0: minPriceV0Schema,
+    MinterMinPriceMerkleV0: minPriceMerkleV0Schema,
+    MinterDAExpV5: daExpV5Schema,
+    MinterDAExpHolderV5: daExpHolderV5Schema,
+    MinterDAExpSettlementV3: daExpSettlementV3Schema,
+    MinterDALinV5: daLinV5Schema,
+    MinterDALinHolderV5: daLinHolderV5Schema,
+    MinterRAMV0: ramV0Schema,
+    MinterSEAV1: seaV1Schema,
+  };
@@ -0,0 +1,143 @@
+import { Abi, AbiFunction } from "viem";
+import {
+  ConfigurationSchema,
+  isOnChainFormFieldSchema,
+} from "../../json-schema";
+import { getValidationRuleMinterViews } from "../../utils/validation-rules";
+
+// Arguments that mapFormValuesToArgs fills in from the project
+const PROJECT_ARGS = ["projectIndex", "coreContractAddress"];
+
+// Arguments produced from a form field by its submission processing, rather
+// than set on the form
+const SUBMISSION_PROCESSING_ARGS: Record<string, string[]> = {
+  tokenHolderAllowlist: [
+    "ownedNFTAddressesAdd",
+    "ownedNFTProjectIdsAdd",
+    "ownedNFTAddressesRemove",
+    "ownedNFTProjectIdsRemove",
+  ],
+};
+
+export type MinterConfigurationSchemaIssue = {
+  // The key of the form in the schema's properties
+  form: string;
+  message: string;
+};
+
+function getFunctionSignature({ name, inputs }: AbiFunction) {
+  return `${name}(${inputs.map(({ type }) => type).join(",")})`;
+}
+
+function getAbiFunctions(abi: Abi, functionName: string) {
+  return abi.filter(
+    (item): item is AbiFunction =>
+      item.type === "function" && item.name === functionName
+  );
+}
+
+/**
+ * Checks the transaction details of a minter configuration schema's on-chain
+ * forms against the compiled ABI of the minter. Each form's function must be
+ * a non-view function of the minter with the same inputs, each of its
+ * arguments must be set by the form, and each minter view its validation
+ * rules read must be a view function of the minter without inputs.
+ *
+ * @param schema - The project configuration schema of the minter.
+ * @param minterAbi - The compiled ABI of the minter.
+ * @returns The issues found, empty if the schema matches the ABI.
+ */
+export function validateMinterConfigurationSchema(
+  schema: ConfigurationSchema,
+  minterAbi: Abi
+): MinterConfigurationSchemaIssue[] {
+  const issues: MinterConfigurationSchemaIssue[] = [];
+
+  for (const [form, formSchema] of Object.entries(schema.properties)) {
+    if (!isOnChainFormFieldSchema(formSchema)) {
+      continue;
+    }
+
+    const addIssue = (message: string) => issues.push({ form, message });
+    const { transactionDetails } = formSchema;
+
+    if (!transactionDetails) {
+      addIssue("On-chain form is missing transactionDetails");
+      continue;
+    }
+
+    const { functionName, args } = transactionDetails;
+    const [schemaFunction, ...overloads] = getAbiFunctions(
+      transactionDetails.abi,
+      functionName
+    );
+
+    if (!schemaFunction) {
+      addIssue(`transactionDetails.abi does not include ${functionName}`);
+      continue;
+    }
+
+    if (overloads.length > 0) {
+      addIssue(`transactionDetails.abi includes overloads of ${functionName}`);
+    }
+
+    const signature = getFunctionSignature(schemaFunction);
+    const minterFunctions = getAbiFunctions(minterAbi, functionName);
+    const minterFunction = minterFunctions.find(
+      (minterFunction) => getFunctionSignature(minterFunction) === signature
+    );
+
+    if (!minterFunction) {
+      addIssue(
+        minterFunctions.length > 0
+          ? `${signature} does not match the minter's ${minterFunctions
+              .map(getFunctionSignature)
+              .join(", ")}`
+          : `${functionName} is not a function of the minter`
+      );
+    } else if (
+      minterFunction.stateMutability === "view" ||
+      minterFunction.stateMutability === "pure"
+    ) {
+      addIssue(`${signature} is a ${minterFunction.stateMutability} function`);
+    }
+
+    if (args.length !== schemaFunction.inputs.length) {
+      addIssue(
+        `transactionDetails.args has ${args.length} arguments but ${signature} takes ${schemaFunction.inputs.length}`
+      );
+    }
+
+    const formFields = formSchema.properties ?? {};
+    const availableArgs = new Set([
+      ...PROJECT_ARGS,
+      ...Object.keys(formFields),
+      ...Object.values(formFields).flatMap((field) =>
+        typeof field === "object" && field.submissionProcessing
+          ? (SUBMISSION_PROCESSING_ARGS[field.submissionProcessing] ?? [])
+          : []
+      ),
+    ]);
+
+    for (const arg of args) {
+      if (!availableArgs.has(arg)) {
+        addIssue(`Argument ${arg} is not a field of the form`);
+      }
+    }
+
+    for (const view of getValidationRuleMinterViews(formSchema)) {
+      const isView = getAbiFunctions(minterAbi, view).some(
+        ({ inputs, stateMutability }) =>
+          inputs.length === 0 &&
+          (stateMutability === "view" || stateMutability === "pure")
+      );
+      if (!isView) {
+        addIssue(
+          `Validation rule minter view ${view}() is not a view of the minter`
+        );
+      }
+    }
+  }
+
+  return issues;
+}
@@ -8,6 +8,7 @@ import { processProjectContractTokenHolderList } from "./process-project-contrac
 import { generateTransformProjectMinterConfigurationFormValuesArgs } from "./test-helpers";
 import { processAuctionDetailsToHalfLifeSeconds } from "./process-auction-details-to-half-life-seconds";
 import { generateRandomAddress } from "../../utils/test-helpers";
+import { ProcessorRegistry } from "../processor-registry";
 
 // Mock the necessary functions
 jest.mock("./process-allowlist-file-to-merkle-root");
@@ -537,4 +538,67 @@ describe("processProjectMinterConfigurationFormValuesForSubmission", () => {
       base_price: parseEther("1"),
     });
   });
+  it("does percentToBasisPoints and durationToSeconds submissionProcessing", async () => {
+    const args = generateTransformProjectMinterConfigurationFormValuesArgs({
+      formValues: {
+        royaltyPercentage: "2.5",
+        auctionDuration: "1h 30m",
+      },
+      schema: {
+        type: "object",
+        title: "Set royalties and auction duration",
+        onChain: false,
+        properties: {
+          royaltyPercentage: {
+            type: "number",
+            title: "Royalty percentage",
+            submissionProcessing: "percentToBasisPoints",
+          },
+          auctionDuration: {
+            type: "string",
+            title: "Auction duration",
+            submissionProcessing: "durationToSeconds",
+          },
+        },
+      },
+    });
+
+    const result =
+      await processProjectMinterConfigurationFormValuesForSubmission(args);
+
+    expect(result).toEqual({ royaltyPercentage: 250, auctionDuration: 5400 });
+  });
+  it("does submissionProcessing with processors registered on the client", async () => {
+    const args = generateTransformProjectMinterConfigurationFormValuesArgs({
+      formValues: { projects: "0xcore-1,0xcore-2" },
+      schema: {
+        type: "object",
+        title: "Allow projects",
+        onChain: false,
+        properties: {
+          projects: {
+            type: "string",
+            title: "Projects",
+            submissionProcessing: "projectIdList",
+          },
+        },
+      },
+    });
+    args.clientContext.submissionProcessors = new ProcessorRegistry({
+      projectIdList: {
+        mergeResult: true,
+        process: (value: string) => ({
+          projectIds: value.split(","),
+        }),
+      },
+    });
+
+    const result =
+      await processProjectMinterConfigurationFormValuesForSubmission(args);
+
+    expect(result).toEqual({
+      projects: "0xcore-1,0xcore-2",
+      projectIds: ["0xcore-1", "0xcore-2"],
+    });
+  });
 });
@@ -3,14 +3,14 @@ import set from "lodash/set";
 import merge from "lodash/merge";
 
 import { TransformProjectMinterConfigurationFormValuesArgs } from "../types";
-import { processAllowlistFileToMerkleRoot } from "./process-allowlist-file-to-merkle-root";
-import { processProjectContractTokenHolderList } from "./process-project-contract-token-holder-list";
-import { processAuctionDetailsToHalfLifeSeconds } from "./process-auction-details-to-half-life-seconds";
-import { processEthToWei } from "./process-eth-to-wei";
+import { runProcessor } from "../processor-registry";
+import { BUILT_IN_SUBMISSION_PROCESSORS } from "./processors";
 
 /**
  * Transforms project minter configuration form values for on-chain submission.
- * It uses the defined `schema` to determine the necessary transformations for each form value.
+ * It uses the defined `schema` to determine the necessary transformations for each form value,
+ * running the processor registered on the client under each field's `submissionProcessing` name,
+ * or the built-in processor of that name.
  * Specific field transformations include converting lists to merkle roots, adjusting ETH values to wei,
  * and transforming dates to Unix timestamps among others. The result is a set of values
  * formatted according to the requirements of the blockchain transaction.
@@ -35,42 +35,26 @@ export async function processProjectMinterConfigurationFormValuesForSubmission(
   )) {
     const formFieldValue = get(formValues, fieldName);
     if (typeof fieldSchema === "object" && fieldSchema.submissionProcessing) {
-      switch (fieldSchema.submissionProcessing) {
-        case "merkleRoot": {
-          const merkleRoot = await processAllowlistFileToMerkleRoot(
-            formFieldValue,
-            args
-          );
-          set(transformedFormValues, fieldName, merkleRoot);
-          break;
-        }
-        case "tokenHolderAllowlist": {
-          const allowRemoveArgs = processProjectContractTokenHolderList(
-            formFieldValue,
-            args
-          );
+      const processor =
+        args.clientContext.submissionProcessors?.get(
+          fieldSchema.submissionProcessing
+        ) ??
+        BUILT_IN_SUBMISSION_PROCESSORS.get(fieldSchema.submissionProcessing);
+      if (!processor) {
+        continue;
+      }
 
-          transformedFormValues = merge(transformedFormValues, allowRemoveArgs);
-          break;
-        }
-        case "ethToWei": {
-          const weiValue = await processEthToWei(formFieldValue, args);
-          set(transformedFormValues, fieldName, weiValue);
-          break;
-        }
-        case "datetimeToUnixTimestamp": {
-          const unixTimestamp = Math.floor(
-            new Date(formFieldValue as string).getTime() / 1000
-          );
+      const processedValue = await runProcessor(
+        fieldSchema.submissionProcessing,
+        processor,
+        formFieldValue,
+        { ...args, fieldName, fieldSchema }
+      );
 
-          set(transformedFormValues, fieldName, unixTimestamp);
-          break;
-        }
-        case "auctionEndDatetimeToHalfLifeSeconds": {
-          const halfLifeSeconds = processAuctionDetailsToHalfLifeSeconds(args);
-          set(transformedFormValues, fieldName, halfLifeSeconds);
-          break;
-        }
+      if (processor.mergeResult) {
+        transformedFormValues = merge(transformedFormValues, processedValue);
+      } else {
+        set(transformedFormValues, fieldName, processedValue);
       }
     } else {
       set(transformedFormValues, fieldName, formFieldValue);
@@ -2,7 +2,7 @@
  * @jest-environment ./src/test-env.ts
  */
 import { processAllowlistFileToMerkleRoot } from "./process-allowlist-file-to-merkle-root";
-import * as merkleUtils from "../../utils/merkle";
+import * as streamingMerkle from "../../allowlist/streaming-merkle";
 import * as graphqlRequest from "graphql-request";
 import { generateTransformProjectMinterConfigurationFormValuesArgs } from "./test-helpers";
 import {
@@ -11,12 +11,12 @@ import {
 } from "../graphql-operations";
 
 // Mock the necessary functions
-jest.mock("../../utils/merkle", () => {
-  const originalModule = jest.requireActual("../../utils/merkle");
+jest.mock("../../allowlist/streaming-merkle", () => {
+  const originalModule = jest.requireActual("../../allowlist/streaming-merkle");
 
   return {
     ...originalModule,
-    getMerkleRoot: jest.fn(),
+    buildAllowlistMerkleTreeInWorker: jest.fn(),
   };
 });
 jest.mock("graphql-request");
@@ -28,7 +28,7 @@ describe("processAllowlistFileToMerkleRoot", () => {
   beforeEach(() => {
     // Clear all instances and calls to constructor and all methods:
     (graphqlRequest.request as jest.Mock).mockClear();
-    (merkleUtils.getMerkleRoot as jest.Mock).mockClear();
+    (streamingMerkle.buildAllowlistMerkleTreeInWorker as jest.Mock).mockClear();
     (global.fetch as jest.Mock).mockClear();
   });
 
@@ -44,7 +44,7 @@ describe("processAllowlistFileToMerkleRoot", () => {
 
     // Mock the graphql request to get the url to upload the list to s3
     (
-      args.clientContext.graphqlClient.request as jest.Mock
+      args.clientContext.graphqlClient?.request as jest.Mock
     ).mockResolvedValueOnce({
       getAllowlistUploadUrl: { key: "fake-key", url: "fake-url" },
     });
@@ -56,31 +56,38 @@ describe("processAllowlistFileToMerkleRoot", () => {
     });
 
     // Mock generating the merkle root
-    (merkleUtils.getMerkleRoot as jest.Mock).mockReturnValue(
-      "fake-merkle-root"
-    );
+    (
+      streamingMerkle.buildAllowlistMerkleTreeInWorker as jest.Mock
+    ).mockResolvedValue({
+      merkleRoot: "fake-merkle-root",
+      addressCount: 2,
+      proofs: {},
+      addresses: ["address1", "address2"],
+    });
 
     // Mock the graphql request to update offchain_extra_minter_details
     // with the expected merkle root and s3 file url
     (
-      args.clientContext.graphqlClient.request as jest.Mock
+      args.clientContext.graphqlClient?.request as jest.Mock
     ).mockResolvedValueOnce({});
 
     const result = await processAllowlistFileToMerkleRoot(fakeFileList, args);
 
     // Request for the signed s3 upload url
-    expect(args.clientContext.graphqlClient.request).toHaveBeenCalledWith(
+    expect(args.clientContext.graphqlClient?.request).toHaveBeenCalledWith(
       getAllowlistUploadUrlQueryDocument,
       {
         projectId: args.projectId,
       }
     );
 
-    // Generate the merkle root from the file contents
-    expect(merkleUtils.getMerkleRoot).toHaveBeenCalledWith([
-      "address1",
-      "address2",
-    ]);
+    // Generate the merkle root from the file, keeping its addresses to upload
+    expect(
+      streamingMerkle.buildAllowlistMerkleTreeInWorker
+    ).toHaveBeenCalledWith(fakeFileList[0], {
+      includeAddresses: true,
+      createWorker: args.clientContext.createAllowlistWorker,
+    });
 
     // Upload the file to s3
     expect(global.fetch).toHaveBeenCalledWith("fake-url", {
@@ -92,7 +99,7 @@ describe("processAllowlistFileToMerkleRoot", () => {
     });
 
     // Update the offchain_extra_minter_details with the merkle root and s3 url
-    expect(args.clientContext.graphqlClient.request).toHaveBeenCalledWith(
+    expect(args.clientContext.graphqlClient?.request).toHaveBeenCalledWith(
       updateOffChainExtraMinterDetailsMutationDocument,
       {
         projectMinterConfigId: args.minterConfiguration.id,
@@ -107,10 +114,43 @@ describe("processAllowlistFileToMerkleRoot", () => {
     );
 
     expect(result).toEqual("fake-merkle-root");
-    expect(args.clientContext.graphqlClient.request).toHaveBeenCalledTimes(2);
+    expect(args.clientContext.graphqlClient?.request).toHaveBeenCalledTimes(2);
     expect(global.fetch).toHaveBeenCalledTimes(1);
   });
 
+  it("returns the merkle root without uploading the file on a dry run", async () => {
+    const args = {
+      ...generateTransformProjectMinterConfigurationFormValuesArgs(),
+      dryRun: true,
+    };
+
+    const dataTransfer = new DataTransfer();
+    dataTransfer.items.add(
+      new File(["address1,address2"], "filename", { type: "text/plain" })
+    );
+    const fakeFileList = dataTransfer.files;
+
+    (
+      streamingMerkle.buildAllowlistMerkleTreeInWorker as jest.Mock
+    ).mockResolvedValue({
+      merkleRoot: "fake-merkle-root",
+      addressCount: 2,
+      proofs: {},
+    });
+
+    const result = await processAllowlistFileToMerkleRoot(fakeFileList, args);
+
+    expect(result).toEqual("fake-merkle-root");
+    expect(
+      streamingMerkle.buildAllowlistMerkleTreeInWorker
+    ).toHaveBeenCalledWith(
+      fakeFileList[0],
+      expect.objectContaining({ includeAddresses: false })
+    );
+    expect(args.clientContext.graphqlClient?.request).not.toHaveBeenCalled();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
   it("throws an error if the input is not a FileList", async () => {
     const args = generateTransformProjectMinterConfigurationFormValuesArgs();
 
@@ -149,7 +189,7 @@ describe("processAllowlistFileToMerkleRoot", () => {
     // Mock the graphql request to get the url to upload the list to s3
     // but return an unexpected response (i.e. no key or url)
     (
-      args.clientContext.graphqlClient.request as jest.Mock
+      args.clientContext.graphqlClient?.request as jest.Mock
     ).mockResolvedValueOnce({});
 
     await expect(
@@ -166,12 +206,17 @@ describe("processAllowlistFileToMerkleRoot", () => {
 
     const args = generateTransformProjectMinterConfigurationFormValuesArgs();
 
-    (merkleUtils.getMerkleRoot as jest.Mock).mockReturnValue(
-      "fake-merkle-root"
-    );
+    (
+      streamingMerkle.buildAllowlistMerkleTreeInWorker as jest.Mock
+    ).mockResolvedValue({
+      merkleRoot: "fake-merkle-root",
+      addressCount: 2,
+      proofs: {},
+      addresses: ["address1", "address2"],
+    });
 
     (
-      args.clientContext.graphqlClient.request as jest.Mock
+      args.clientContext.graphqlClient?.request as jest.Mock
     ).mockResolvedValueOnce({
       getAllowlistUploadUrl: { key: "fake-key", url: "fake-url" },
     });
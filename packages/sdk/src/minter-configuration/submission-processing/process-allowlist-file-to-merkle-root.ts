@@ -1,8 +1,4 @@
-import {
-  getMerkleRoot,
-  readFileAsText,
-  textOrCsvAddressListToArray,
-} from "../../utils/merkle";
+import { buildAllowlistMerkleTreeInWorker } from "../../allowlist/streaming-merkle";
 import { TransformProjectMinterConfigurationFormValuesArgs } from "../types";
 import {
   getAllowlistUploadUrlQueryDocument,
@@ -47,12 +43,27 @@ export async function processAllowlistFileToMerkleRoot(
     );
   }
 
-  // If we have an expected type convert the contents of the file to an Array
-  const allowlistFileText = await readFileAsText(file);
-  const allowlist = textOrCsvAddressListToArray(allowlistFileText);
+  // Build the merkle tree while reading the file, in a worker if the client
+  // has one, as allowlists can hold hundreds of thousands of addresses.
+  // Previews only need the merkle root, so the addresses aren't kept.
+  const { merkleRoot, addresses: allowlist } =
+    await buildAllowlistMerkleTreeInWorker(file, {
+      includeAddresses: !args.dryRun,
+      createWorker: clientContext.createAllowlistWorker,
+    });
+
+  if (args.dryRun) {
+    return merkleRoot;
+  }
+
+  // Allowlist files are stored by the Art Blocks API
+  const { graphqlClient } = clientContext;
+  if (!graphqlClient) {
+    throw new Error("A graphqlEndpoint is required to upload allowlist files");
+  }
 
   // Get upload signed s3 upload url for allowlist file
-  const getAllowlistUploadUrlRes = await clientContext.graphqlClient.request(
+  const getAllowlistUploadUrlRes = await graphqlClient.request(
     getAllowlistUploadUrlQueryDocument,
     {
       projectId,
@@ -88,9 +99,6 @@ export async function processAllowlistFileToMerkleRoot(
     throw new Error("Unexpected error uploading allowlist file");
   }
 
-  // Generate merkle root from allowlist
-  const merkleRoot = getMerkleRoot(allowlist);
-
   // Store the proposed merkleRoot and allowlist file url in the database
   // the pendingRoot will be confirmed once the transaction is confirmed
   // and the merkle root syncs to our db. The pendingAllowlistedAddressesLink
@@ -98,7 +106,7 @@ export async function processAllowlistFileToMerkleRoot(
   // we can confirm the synced merkle root matches the merkle root we generated
   // from the pending list.
   // TODO: Handle error if the mutation fails
-  await clientContext.graphqlClient.request(
+  await graphqlClient.request(
     updateOffChainExtraMinterDetailsMutationDocument,
     {
       projectMinterConfigId: minterConfiguration.id,
@@ -0,0 +1,107 @@
+import get from "lodash/get";
+import omit from "lodash/omit";
+import { z } from "zod";
+import {
+  ProcessorRegistry,
+  SubmissionProcessor,
+  SubmissionProcessorRegistry,
+  SubmissionProcessorContext,
+} from "../processor-registry";
+import { TransformProjectMinterConfigurationFormValuesArgs } from "../types";
+import { parseDurationToSeconds } from "../utils/duration";
+import { processAllowlistFileToMerkleRoot } from "./process-allowlist-file-to-merkle-root";
+import { processProjectContractTokenHolderList } from "./process-project-contract-token-holder-list";
+import { processAuctionDetailsToHalfLifeSeconds } from "./process-auction-details-to-half-life-seconds";
+import { processEthToWei } from "./process-eth-to-wei";
+
+// The processing functions predate the registry and take the form's
+// processing args
+function toTransformArgs(
+  context: SubmissionProcessorContext
+): TransformProjectMinterConfigurationFormValuesArgs {
+  return omit(context, ["fieldName", "fieldSchema"]);
+}
+
+const merkleRoot: SubmissionProcessor = {
+  process: (value: unknown, context) =>
+    processAllowlistFileToMerkleRoot(value, toTransformArgs(context)),
+};
+
+const tokenHolderAllowlist: SubmissionProcessor = {
+  mergeResult: true,
+  process: (value: unknown, context) =>
+    processProjectContractTokenHolderList(value, toTransformArgs(context)),
+};
+
+const ethToWei: SubmissionProcessor = {
+  process: (value: unknown, context) =>
+    processEthToWei(value, toTransformArgs(context)),
+};
+
+// Reads the currency from the form's currency_address field when it has
+// one, so amounts can be set together with a new currency
+const tokenAmountToBaseUnits: SubmissionProcessor = {
+  process: (value: unknown, context) => {
+    const currencyAddress: string =
+      get(context.formValues, "currency_address") ||
+      context.minterConfiguration.currency_address;
+
+    return processEthToWei(value, {
+      ...toTransformArgs(context),
+      minterConfiguration: {
+        ...context.minterConfiguration,
+        currency_address: currencyAddress,
+      },
+    });
+  },
+};
+
+const datetimeToUnixTimestamp: SubmissionProcessor = {
+  process: (value: unknown) =>
+    Math.floor(new Date(value as string).getTime() / 1000),
+};
+
+const auctionEndDatetimeToHalfLifeSeconds: SubmissionProcessor = {
+  process: (_value: unknown, context) =>
+    processAuctionDetailsToHalfLifeSeconds(toTransformArgs(context)),
+};
+
+const percentToBasisPoints: SubmissionProcessor<number> = {
+  input: z.coerce.number().min(0).max(100),
+  process: (value) => Math.round(value * 100),
+};
+
+const durationToSeconds: SubmissionProcessor<string | number> = {
+  input: z.union([z.string(), z.number().int().nonnegative()]),
+  process: (value) => parseDurationToSeconds(value),
+};
+
+/**
+ * The built-in submission processors, used for names without a processor
+ * registered on the client:
+ *
+ * - `merkleRoot`: an allowlist file to its merkle root, uploading the
+ *   allowlist.
+ * - `tokenHolderAllowlist`: a list of `<contract address>-<project index>`
+ *   project ids to the projects to allow and remove holders of.
+ * - `ethToWei`: a decimal amount to base units of the project's currency,
+ *   reading the decimals of ERC20 currencies.
+ * - `tokenAmountToBaseUnits`: like `ethToWei`, in the currency of the form's
+ *   `currency_address` field if it has one.
+ * - `datetimeToUnixTimestamp`: a date to a unix timestamp.
+ * - `auctionEndDatetimeToHalfLifeSeconds`: the end of an exponential Dutch
+ *   auction to its price decay half-life.
+ * - `percentToBasisPoints`: a percentage to basis points.
+ * - `durationToSeconds`: a duration like "1h 30m" to seconds.
+ */
+export const BUILT_IN_SUBMISSION_PROCESSORS: SubmissionProcessorRegistry =
+  new ProcessorRegistry<SubmissionProcessor>({
+    merkleRoot,
+    tokenHolderAllowlist,
+    ethToWei,
+    tokenAmountToBaseUnits,
+    datetimeToUnixTimestamp,
+    auctionEndDatetimeToHalfLifeSeconds,
+    percentToBasisPoints,
+    durationToSeconds,
+  });
@@ -6,6 +6,7 @@ import { ProjectMinterConfigurationDetailsFragment } from "../../generated/graph
 import { FormFieldSchema } from "../../json-schema";
 import { GraphQLClient } from "graphql-request";
 import { PublicClient } from "viem";
+import { DataSource } from "../../data-sources";
 
 export function generateTransformProjectMinterConfigurationFormValuesArgs(
   overrides?: Partial<TransformProjectMinterConfigurationFormValuesArgs>
@@ -15,8 +16,11 @@ export function generateTransformProjectMinterConfigurationFormValuesArgs(
       graphqlClient: {
         request: jest.fn(),
       } as unknown as GraphQLClient,
+      dataSource: {} as DataSource,
       userIsStaff: false,
       publicClient: {} as unknown as PublicClient,
+      publicClients: {},
+      contractChainIds: new Map(),
     },
     projectId: "fake-project-id",
     minterConfiguration: {
@@ -0,0 +1,222 @@
+import { MinterConfigurationFixture } from ".";
+
+// The time fixture forms are generated at. Auctions in the fixtures start a
+// day later.
+export const FIXTURE_NOW = new Date("2024-01-10T00:00:00.000Z");
+
+const AUCTION_START_TIME = 1704931200; // 2024-01-11T00:00:00.000Z
+const AUCTION_END_TIME = 1704934800; // 2024-01-11T01:00:00.000Z
+
+const USDC_ADDRESS = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+const ALLOWLISTED_PROJECT_ID = "0xa7d8d9ef8d8ce8992df33d8b8cf4aebabd5bd270-78";
+
+const daExpConfiguration: MinterConfigurationFixture["minterConfiguration"] = {
+  base_price: "100000000000000000",
+  extra_minter_details: {
+    startTime: AUCTION_START_TIME,
+    startPrice: "1000000000000000000",
+    halfLifeSeconds: 600,
+    approximateDAExpEndTime: AUCTION_END_TIME,
+  },
+};
+
+const daLinConfiguration: MinterConfigurationFixture["minterConfiguration"] = {
+  base_price: "100000000000000000",
+  extra_minter_details: {
+    startTime: AUCTION_START_TIME,
+    endTime: AUCTION_END_TIME,
+    startPrice: "1000000000000000000",
+  },
+};
+
+// An auction that starts in the past and ends before it starts, failing the
+// auction forms' validation rules
+const invalidAuctionValues = {
+  extra_minter_details: {
+    startTime: "2024-01-09T00:00:00.000Z",
+    endTime: "2024-01-08T00:00:00.000Z",
+    approximateDAExpEndTime: "2024-01-08T00:00:00.000Z",
+    startPrice: 0.1,
+  },
+  base_price: 1,
+};
+
+/**
+ * A project state for each minter with a local configuration schema.
+ */
+export const MINTER_CONFIGURATION_FIXTURES: MinterConfigurationFixture[] = [
+  {
+    minterType: "MinterSetPriceV5",
+    minterConfiguration: { base_price: "1000000000000000000" },
+    formValues: {
+      updatePricePerTokenInWei: { base_price: 0.5 },
+      manuallyLimitProjectMaxInvocations: { max_invocations: 1.5 },
+    },
+  },
+  {
+    minterType: "MinterSetPriceERC20V5",
+    minterConfiguration: {
+      base_price: "25000000",
+      currency_address: USDC_ADDRESS,
+      currency_symbol: "USDC",
+    },
+    contractReads: { decimals: 6 },
+    formValues: {
+      updateProjectCurrencyInfo: {
+        currency_symbol: "USDC",
+        currency_address: "not an address",
+      },
+    },
+  },
+  {
+    minterType: "MinterSetPriceMerkleV5",
+    minterConfiguration: {
+      base_price: "50000000000000000",
+      extra_minter_details: {
+        merkleRoot:
+          "0x6e4b5e2a9f9c1c0e2c0c2b3c8f1a4f5e6d7c8b9a0a1b2c3d4e5f60718293a4b5",
+        maxInvocationsPerAddress: 2,
+      },
+    },
+    formValues: {
+      setProjectInvocationsPerAddress: {
+        extra_minter_details: { maxInvocationsPerAddress: -1 },
+      },
+    },
+  },
+  {
+    minterType: "MinterSetPriceHolderV5",
+    minterConfiguration: {
+      base_price: "50000000000000000",
+      extra_minter_details: {
+        allowlistedAddressAndProjectId: [ALLOWLISTED_PROJECT_ID],
+      },
+    },
+  },
+  {
+    minterType: "MinterSetPricePolyptychV5",
+    minterConfiguration: {
+      base_price: "0",
+      extra_minter_details: {
+        polyptychPanelId: 1,
+        allowlistedAddressAndProjectId: [ALLOWLISTED_PROJECT_ID],
+      },
+    },
+  },
+  {
+    minterType: "MinterSetPricePolyptychERC20V5",
+    minterConfiguration: {
+      base_price: "10000000",
+      currency_address: USDC_ADDRESS,
+      currency_symbol: "USDC",
+      extra_minter_details: {
+        polyptychPanelId: 0,
+      },
+    },
+    contractReads: { decimals: 6 },
+  },
+  {
+    minterType: "MinterMinPriceV0",
+    minterConfiguration: {
+      base_price: "10000000000000000",
+      extra_minter_details: { minMintFee: "10000000000000000" },
+    },
+  },
+  {
+    minterType: "MinterMinPriceMerkleV0",
+    minterConfiguration: {
+      base_price: "10000000000000000",
+      extra_minter_details: {
+        minMintFee: "10000000000000000",
+        maxInvocationsPerAddress: 1,
+      },
+    },
+  },
+  {
+    minterType: "MinterDAExpV5",
+    minterConfiguration: daExpConfiguration,
+    formValues: { setAuctionDetails: invalidAuctionValues },
+  },
+  {
+    minterType: "MinterDAExpHolderV5",
+    minterConfiguration: {
+      ...daExpConfiguration,
+      extra_minter_details: {
+        ...daExpConfiguration.extra_minter_details,
+        allowlistedAddressAndProjectId: [ALLOWLISTED_PROJECT_ID],
+      },
+    },
+  },
+  {
+    minterType: "MinterDAExpSettlementV3",
+    minterConfiguration: daExpConfiguration,
+  },
+  {
+    minterType: "MinterDALinV5",
+    minterConfiguration: daLinConfiguration,
+    contractReads: { minimumAuctionLengthSeconds: BigInt(3600) },
+    formValues: {
+      setAuctionDetails: {
+        extra_minter_details: {
+          startTime: "2024-01-11T00:00:00.000Z",
+          endTime: "2024-01-11T00:30:00.000Z",
+          startPrice: 1,
+        },
+        base_price: 0.1,
+      },
+    },
+  },
+  {
+    minterType: "MinterDALinHolderV5",
+    minterConfiguration: {
+      ...daLinConfiguration,
+      extra_minter_details: {
+        ...daLinConfiguration.extra_minter_details,
+        allowlistedAddressAndProjectId: [ALLOWLISTED_PROJECT_ID],
+      },
+    },
+    contractReads: { minimumAuctionLengthSeconds: BigInt(600) },
+  },
+  {
+    minterType: "MinterRAMV0",
+    minterConfiguration: {
+      base_price: "50000000000000000",
+      max_invocations: 100,
+      extra_minter_details: {
+        startTime: AUCTION_START_TIME,
+        endTime: AUCTION_END_TIME,
+        allowExtraTime: true,
+        adminArtistOnlyMintPeriodIfSellout: true,
+      },
+    },
+    contractReads: { MIN_AUCTION_DURATION_SECONDS: BigInt(600) },
+    formValues: {
+      setAuctionDetails: {
+        ...invalidAuctionValues,
+        base_price: 0.01,
+      },
+    },
+  },
+  {
+    minterType: "MinterSEAV1",
+    minterConfiguration: {
+      base_price: "100000000000000000",
+      extra_minter_details: {
+        startTime: AUCTION_START_TIME,
+        auctionDurationSeconds: 3600,
+        minBidIncrementPercentage: 5,
+      },
+    },
+    contractReads: { MIN_AUCTION_DURATION_SECONDS: BigInt(600) },
+    formValues: {
+      configureFutureAuctions: {
+        extra_minter_details: {
+          startTime: "2024-01-11T00:00:00.000Z",
+          auctionDurationSeconds: 300,
+          minBidIncrementPercentage: 5,
+        },
+        base_price: 0.1,
+      },
+    },
+  },
+];
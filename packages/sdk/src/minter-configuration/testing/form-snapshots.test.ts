@@ -0,0 +1,34 @@
+import { generateMinterConfigurationFormSnapshots } from ".";
+import { LOCAL_MINTER_CONFIGURATION_SCHEMAS } from "../schemas";
+import { FIXTURE_NOW, MINTER_CONFIGURATION_FIXTURES } from "./fixtures";
+
+describe("minter configuration form snapshots", () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(FIXTURE_NOW);
+    jest.spyOn(console, "warn");
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("has a fixture for every minter with a local schema", () => {
+    expect(
+      MINTER_CONFIGURATION_FIXTURES.map(({ minterType }) => minterType).sort()
+    ).toEqual(Object.keys(LOCAL_MINTER_CONFIGURATION_SCHEMAS).sort());
+  });
+
+  it.each(
+    MINTER_CONFIGURATION_FIXTURES.map((fixture) => [
+      fixture.minterType,
+      fixture,
+    ])
+  )("generates the forms of %s", async (_minterType, fixture) => {
+    const snapshots = await generateMinterConfigurationFormSnapshots(fixture);
+
+    expect(snapshots).toMatchSnapshot();
+    // Every contract read the forms make should have a fixture value
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,325 @@
+import { keccak256, PublicClient, stringToHex, WalletClient } from "viem";
+import { ZodType, ZodTypeDef } from "zod";
+import { ArtBlocksClientContext } from "../..";
+import {
+  DataSource,
+  DataSourceOperationNotSupportedError,
+} from "../../data-sources/types";
+import { ProjectMinterConfigurationDetailsFragment } from "../../generated/graphql";
+import { FormFieldSchema } from "../../json-schema";
+import { FormBlueprint } from "../../types";
+import { generateProjectMinterConfigurationForms } from "..";
+import {
+  getMinterTypeDetails,
+  LOCAL_MINTER_CONFIGURATION_SCHEMAS,
+  MinterConfigurationSchemaRegistry,
+} from "../schemas";
+import { ProjectMinterConfigurationData } from "../types";
+
+export type FixtureMinterType = keyof MinterConfigurationSchemaRegistry;
+
+/**
+ * The state of a project configured on a minter, from which configuration
+ * forms are generated without the Art Blocks API or a chain.
+ */
+export type MinterConfigurationFixture = {
+  minterType: FixtureMinterType;
+  // Minter configuration of the project, as synced by the Art Blocks API
+  minterConfiguration?: Partial<
+    Pick<
+      NonNullable<ProjectMinterConfigurationDetailsFragment>,
+      | "base_price"
+      | "currency_address"
+      | "currency_symbol"
+      | "max_invocations"
+      | "extra_minter_details"
+    >
+  >;
+  // Results of the contract reads made while generating the forms, keyed by
+  // function name, such as a currency's decimals or a minter's limits
+  contractReads?: Record<string, unknown>;
+  // Values to parse with each form's zod schema, keyed by form key
+  formValues?: Record<string, Record<string, unknown>>;
+  userIsStaff?: boolean;
+  userIsArtist?: boolean;
+};
+
+export type FixtureAddresses = {
+  coreContractAddress: string;
+  projectIndex: number;
+  minterFilterAddress: string;
+  // Globally allowed minters, keyed by minter type
+  minterAddresses: Partial<Record<FixtureMinterType, string>>;
+};
+
+// Derives a stable address for each minter type so snapshots don't change
+// when minters are added to the registry
+function getFixtureMinterAddress(minterType: string): string {
+  return `0x${keccak256(stringToHex(minterType)).slice(-40)}`;
+}
+
+export const DEFAULT_FIXTURE_ADDRESSES: FixtureAddresses = {
+  coreContractAddress: "0x0e4e004e1f31b40bf4d7eefbd99d376a23065122",
+  projectIndex: 0,
+  minterFilterAddress: "0x29e9f09244497503f304fa549d50efc751d818d2",
+  minterAddresses: Object.fromEntries(
+    Object.keys(LOCAL_MINTER_CONFIGURATION_SCHEMAS).map((minterType) => [
+      minterType,
+      getFixtureMinterAddress(minterType),
+    ])
+  ),
+};
+
+/**
+ * Builds the project a data source would return for a fixture, with the
+ * minter of the fixture's type assigned to it.
+ */
+export function createFixtureProject(
+  fixture: MinterConfigurationFixture,
+  addresses: FixtureAddresses = DEFAULT_FIXTURE_ADDRESSES
+): NonNullable<ProjectMinterConfigurationData> {
+  const { coreContractAddress, projectIndex, minterFilterAddress } = addresses;
+  const minterAddress = addresses.minterAddresses[fixture.minterType];
+  if (!minterAddress) {
+    throw new Error(`No fixture address for minter ${fixture.minterType}`);
+  }
+
+  const projectId = `${coreContractAddress}-${projectIndex}`;
+  const { unversioned_type, version_number } = getMinterTypeDetails(
+    fixture.minterType
+  );
+  const minterConfiguration = {
+    currency_address: "0x0000000000000000000000000000000000000000",
+    currency_symbol: "ETH",
+    base_price: null,
+    max_invocations: 1000,
+    ...fixture.minterConfiguration,
+    extra_minter_details:
+      fixture.minterConfiguration?.extra_minter_details ?? {},
+    id: `${minterAddress}-${projectId}`,
+    project_id: projectId,
+    minter: {
+      address: minterAddress,
+      minter_type: fixture.minterType,
+      type: {
+        // Forms are generated from the SDK's local schemas
+        project_configuration_schema: null,
+        unversioned_type,
+        version_number,
+      },
+      extra_minter_details: {},
+    },
+  };
+
+  return {
+    project_id: String(projectIndex),
+    user_is_artist: fixture.userIsArtist ?? true,
+    contract: {
+      user_is_allowlisted: false,
+      minter_filter: {
+        type: "MinterFilterV2",
+        address: minterFilterAddress,
+        globally_allowed_minters: Object.entries(addresses.minterAddresses).map(
+          ([minterType, address]) => ({
+            address,
+            minter_type: minterType,
+            type: getMinterTypeDetails(minterType),
+          })
+        ),
+      },
+    },
+    minter_configuration: minterConfiguration,
+  } as unknown as NonNullable<ProjectMinterConfigurationData>;
+}
+
+const FIXTURE_DATA_SOURCE_NAME = "FixtureDataSource";
+const FIXTURE_NOT_SUPPORTED_REASON =
+  "fixtures only provide minter configurations";
+
+/**
+ * A data source serving a single fixture project's minter configuration.
+ * Fixtures aren't synced from a chain, so submitting forms against them
+ * requires polling for updates to be mocked.
+ */
+export class FixtureDataSource implements DataSource {
+  private projectId: string;
+  private project: NonNullable<ProjectMinterConfigurationData>;
+
+  constructor(
+    projectId: string,
+    project: NonNullable<ProjectMinterConfigurationData>
+  ) {
+    this.projectId = projectId;
+    this.project = project;
+  }
+
+  async getProjectMinterConfiguration(projectId: string) {
+    return projectId === this.projectId ? this.project : null;
+  }
+
+  private notSupported(operation: string): never {
+    throw new DataSourceOperationNotSupportedError(
+      FIXTURE_DATA_SOURCE_NAME,
+      operation,
+      FIXTURE_NOT_SUPPORTED_REASON
+    );
+  }
+
+  async getProjectDetails(): Promise<never> {
+    return this.notSupported("getProjectDetails");
+  }
+
+  async getTokenDetails(): Promise<never> {
+    return this.notSupported("getTokenDetails");
+  }
+
+  async getTokensOwnedBy(): Promise<never> {
+    return this.notSupported("getTokensOwnedBy");
+  }
+
+  async getUserBids(): Promise<never> {
+    return this.notSupported("getUserBids");
+  }
+
+  async getReceiptsWithExcessSettlementFunds(): Promise<never> {
+    return this.notSupported("getReceiptsWithExcessSettlementFunds");
+  }
+
+  async getReceiptExcessSettlementFunds(): Promise<never> {
+    return this.notSupported("getReceiptExcessSettlementFunds");
+  }
+
+  async getProjectMinterConfigurationUpdates(): Promise<never> {
+    return this.notSupported("getProjectMinterConfigurationUpdates");
+  }
+
+  async getProjectUpdates(): Promise<never> {
+    return this.notSupported("getProjectUpdates");
+  }
+}
+
+/**
+ * Creates a public client answering contract reads from a fixture. Reads
+ * without a fixture value fail the way reverted calls do.
+ */
+export function createFixturePublicClient(
+  contractReads: Record<string, unknown> = {}
+): PublicClient {
+  return {
+    readContract: async ({ functionName }: { functionName: string }) => {
+      if (!(functionName in contractReads)) {
+        throw new Error(`No fixture value for ${functionName}()`);
+      }
+      return contractReads[functionName];
+    },
+  } as unknown as PublicClient;
+}
+
+/**
+ * Creates a client context serving a fixture project. The public client
+ * answers reads from the fixture unless one is passed, for example one
+ * connected to a local node the fixture's minters are deployed to.
+ */
+export function createFixtureClientContext(args: {
+  fixture: MinterConfigurationFixture;
+  addresses?: FixtureAddresses;
+  publicClient?: PublicClient;
+  walletClient?: WalletClient;
+}): ArtBlocksClientContext & { publicClient: PublicClient } {
+  const { fixture, addresses = DEFAULT_FIXTURE_ADDRESSES, walletClient } = args;
+  const projectId = `${addresses.coreContractAddress}-${addresses.projectIndex}`;
+
+  return {
+    dataSource: new FixtureDataSource(
+      projectId,
+      createFixtureProject(fixture, addresses)
+    ),
+    publicClient:
+      args.publicClient ?? createFixturePublicClient(fixture.contractReads),
+    publicClients: {},
+    walletClient,
+    userIsStaff: fixture.userIsStaff ?? false,
+    contractChainIds: new Map(),
+  };
+}
+
+type ZodParseResultSnapshot =
+  | { success: true; data: unknown }
+  | {
+      success: false;
+      issues: { path: (string | number)[]; message: string }[];
+    };
+
+export type MinterConfigurationFormSnapshot = {
+  key: string;
+  formSchema: FormFieldSchema;
+  initialFormValues: Record<string, unknown>;
+  initialFormValuesParseResult: ZodParseResultSnapshot;
+  // Only set for forms the fixture has values for
+  formValuesParseResult?: ZodParseResultSnapshot;
+};
+
+function snapshotParseResult(
+  zodSchema: ZodType<unknown, ZodTypeDef, unknown>,
+  values: Record<string, unknown>
+): ZodParseResultSnapshot {
+  const result = zodSchema.safeParse(values);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    issues: result.error.issues.map(({ path, message }) => ({
+      path,
+      message,
+    })),
+  };
+}
+
+/**
+ * Reduces generated forms to their serializable output: the form schema,
+ * the initial values and the results of parsing the initial values and the
+ * fixture's values with the form's zod schema.
+ */
+export function snapshotMinterConfigurationForms(
+  forms: FormBlueprint[],
+  formValues: MinterConfigurationFixture["formValues"] = {}
+): MinterConfigurationFormSnapshot[] {
+  return forms.map(({ key, formSchema, initialFormValues, zodSchema }) => ({
+    key,
+    formSchema,
+    initialFormValues,
+    initialFormValuesParseResult: snapshotParseResult(
+      zodSchema,
+      initialFormValues
+    ),
+    ...(formValues[key]
+      ? {
+          formValuesParseResult: snapshotParseResult(
+            zodSchema,
+            formValues[key]
+          ),
+        }
+      : {}),
+  }));
+}
+
+/**
+ * Generates the configuration forms of a fixture project and reduces them
+ * to snapshots. Forms with date fields default to the current time, so
+ * snapshots are only deterministic with the system time faked.
+ */
+export async function generateMinterConfigurationFormSnapshots(
+  fixture: MinterConfigurationFixture
+): Promise<MinterConfigurationFormSnapshot[]> {
+  const clientContext = createFixtureClientContext({ fixture });
+  const { coreContractAddress, projectIndex } = DEFAULT_FIXTURE_ADDRESSES;
+
+  const { forms } = await generateProjectMinterConfigurationForms({
+    projectId: `${coreContractAddress}-${projectIndex}`,
+    clientContext,
+    onConfigurationChange: () => undefined,
+  });
+
+  return snapshotMinterConfigurationForms(forms, fixture.formValues);
+}
@@ -0,0 +1,235 @@
+import fs from "fs";
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  Hex,
+  http,
+} from "viem";
+import { z } from "zod";
+import { createFixtureClientContext, FixtureMinterType } from ".";
+import { generateProjectMinterConfigurationForms } from "..";
+import { SubmissionStatusEnum } from "../../types";
+import { getMerkleRoot } from "../../utils/merkle";
+import { ProcessorRegistry, SubmissionProcessor } from "../processor-registry";
+import { LOCAL_MINTER_CONFIGURATION_SCHEMAS } from "../schemas";
+
+// Fixture projects aren't synced from the chain
+jest.mock("../utils/polling", () => ({
+  pollForProjectUpdates: jest.fn(),
+  pollForSyncedMinterConfigUpdates: jest.fn(),
+}));
+
+// Written by `yarn deploy:sdk-test-chain` in the contracts package, which
+// deploys every minter with a local schema to a local node
+type SdkTestChainDeployment = {
+  chainId: number;
+  rpcUrl?: string;
+  artistAddress: Hex;
+  coreContractAddress: Hex;
+  minterFilterAddress: Hex;
+  // An ERC20 token for the minters paid in custom currencies
+  currencyAddress: Hex;
+  minters: Record<FixtureMinterType, { address: Hex; projectIndex: number }>;
+};
+
+const deploymentPath = process.env.SDK_TEST_CHAIN_DEPLOYMENT;
+const deployment: SdkTestChainDeployment | undefined = deploymentPath
+  ? JSON.parse(fs.readFileSync(deploymentPath, "utf8"))
+  : undefined;
+
+// Allowlists are uploaded to the Art Blocks API, so the test builds their
+// merkle roots from lists of addresses instead
+const localMerkleRoot: SubmissionProcessor<string[]> = {
+  input: z.array(z.string()),
+  process: (addresses) => getMerkleRoot(addresses),
+};
+
+// The setAuctionDetails forms of each kind of auction minter
+function getAuctionDetailsValues(
+  minterType: FixtureMinterType,
+  startTime: string,
+  endTime: string
+): Record<string, unknown> {
+  if (minterType.startsWith("MinterDAExp")) {
+    return {
+      extra_minter_details: {
+        startTime,
+        approximateDAExpEndTime: endTime,
+        startPrice: 1,
+      },
+      base_price: 0.1,
+    };
+  }
+  if (minterType.startsWith("MinterDALin")) {
+    return {
+      extra_minter_details: { startTime, endTime, startPrice: 1 },
+      base_price: 0.1,
+    };
+  }
+  return {
+    extra_minter_details: {
+      startTime,
+      endTime,
+      allowExtraTime: true,
+      adminArtistOnlyMintPeriodIfSellout: true,
+    },
+    base_price: 0.1,
+  };
+}
+
+/**
+ * Gets the values of the forms that can be submitted to a newly configured
+ * project, keyed by form key. Auctions start an hour after the latest block
+ * and last an hour.
+ */
+function getChainFormValues(args: {
+  minterType: FixtureMinterType;
+  projectId: string;
+  artistAddress: Hex;
+  currencyAddress: Hex;
+  latestBlockTimestamp: number;
+}): Record<string, Record<string, unknown>> {
+  const {
+    minterType,
+    projectId,
+    artistAddress,
+    currencyAddress,
+    latestBlockTimestamp,
+  } = args;
+  const auctionStart =
+    Math.max(latestBlockTimestamp, Math.floor(Date.now() / 1000)) + 3600;
+  const startTime = new Date(auctionStart * 1000).toISOString();
+  const endTime = new Date((auctionStart + 3600) * 1000).toISOString();
+
+  return {
+    updateProjectCurrencyInfo: {
+      currency_symbol: "MOCK",
+      currency_address: currencyAddress,
+    },
+    updatePricePerTokenInWei: { base_price: 0.1 },
+    updateMerkleRoot: { allowlistFile: [artistAddress] },
+    setProjectInvocationsPerAddress: {
+      extra_minter_details: { maxInvocationsPerAddress: 2 },
+    },
+    // Holders of the project's own tokens
+    allowAndRemoveHoldersOfProjects: {
+      extra_minter_details: { allowlistedAddressAndProjectId: [projectId] },
+    },
+    incrementPolyptychProjectPanelId: {},
+    setAuctionDetails: getAuctionDetailsValues(minterType, startTime, endTime),
+    configureFutureAuctions: {
+      extra_minter_details: {
+        startTime,
+        auctionDurationSeconds: 3600,
+        minBidIncrementPercentage: 5,
+      },
+      base_price: 0.1,
+    },
+    manuallyLimitProjectMaxInvocations: { max_invocations: 10 },
+  };
+}
+
+// Skipped unless SDK_TEST_CHAIN_DEPLOYMENT is set, as `yarn test:on-chain`
+// does
+const describeOnChain = deployment ? describe : describe.skip;
+
+describeOnChain("minter configuration forms on chain", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createClientContext(minterType: FixtureMinterType) {
+    if (!deployment) {
+      throw new Error("SDK_TEST_CHAIN_DEPLOYMENT is not set");
+    }
+
+    const rpcUrl = deployment.rpcUrl ?? "http://127.0.0.1:8545";
+    const chain = defineChain({
+      id: deployment.chainId,
+      name: "Local",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: { default: { http: [rpcUrl] } },
+    });
+    const transport = http(rpcUrl);
+    const { address, projectIndex } = deployment.minters[minterType];
+    if (!address) {
+      throw new Error(`${minterType} is missing from the deployment`);
+    }
+
+    const projectId = `${deployment.coreContractAddress.toLowerCase()}-${projectIndex}`;
+    const clientContext = createFixtureClientContext({
+      // Projects start out without any minter configuration
+      fixture: { minterType },
+      addresses: {
+        coreContractAddress: deployment.coreContractAddress.toLowerCase(),
+        projectIndex,
+        minterFilterAddress: deployment.minterFilterAddress.toLowerCase(),
+        minterAddresses: Object.fromEntries(
+          Object.entries(deployment.minters).map(([type, { address }]) => [
+            type,
+            address.toLowerCase(),
+          ])
+        ),
+      },
+      publicClient: createPublicClient({ chain, transport }),
+      walletClient: createWalletClient({
+        account: deployment.artistAddress,
+        chain,
+        transport,
+      }),
+    });
+    clientContext.submissionProcessors = new ProcessorRegistry({
+      merkleRoot: localMerkleRoot,
+    });
+
+    return {
+      clientContext,
+      projectId,
+      artistAddress: deployment.artistAddress,
+      currencyAddress: deployment.currencyAddress,
+    };
+  }
+
+  it.each(Object.keys(LOCAL_MINTER_CONFIGURATION_SCHEMAS))(
+    "submits the forms of %s",
+    async (minterType) => {
+      const { clientContext, projectId, artistAddress, currencyAddress } =
+        createClientContext(minterType as FixtureMinterType);
+      const latestBlock = await clientContext.publicClient.getBlock();
+      const chainFormValues = getChainFormValues({
+        minterType: minterType as FixtureMinterType,
+        projectId,
+        artistAddress,
+        currencyAddress,
+        latestBlockTimestamp: Number(latestBlock.timestamp),
+      });
+      const onConfigurationChange = jest.fn();
+      const warn = jest.spyOn(console, "warn");
+
+      const { forms } = await generateProjectMinterConfigurationForms({
+        projectId,
+        clientContext,
+        onConfigurationChange,
+      });
+      // The minter views read by the forms' validation rules exist on chain
+      expect(warn).not.toHaveBeenCalled();
+
+      for (const form of forms) {
+        const formValues = chainFormValues[form.key];
+        if (!formValues) {
+          continue;
+        }
+
+        const onProgress = jest.fn();
+        await form.handleSubmit(formValues, onProgress);
+
+        expect(onProgress).toHaveBeenLastCalledWith(
+          SubmissionStatusEnum.SYNCING
+        );
+      }
+      expect(onConfigurationChange).toHaveBeenCalled();
+    },
+    60000
+  );
+});
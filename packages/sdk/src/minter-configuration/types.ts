@@ -6,6 +6,8 @@ import {
 } from "../generated/graphql";
 import { FormFieldSchema } from "../json-schema";
 import { FormBlueprint } from "../types";
+import { ProjectAccessChecker } from "./utils/form-access";
+import { MinterConfigurationChange } from "./watch-changes";
 
 export type GenerateProjectMinterConfigurationFormsArgs = {
   projectId: string;
@@ -16,6 +18,10 @@ export type GenerateProjectMinterConfigurationFormsArgs = {
   clientContext: ArtBlocksClientContext & {
     publicClient: PublicClient;
   };
+  // A globally allowed minter to generate configuration forms for instead of
+  // the project's current minter, so it can be configured in the same batch
+  // as the minter selection form sets it for the project
+  targetMinterAddress?: string;
 };
 
 export type GenerateProjectMinterConfigurationFormsContext =
@@ -24,6 +30,8 @@ export type GenerateProjectMinterConfigurationFormsContext =
     coreContractAddress: string;
     projectIndex: number;
     project: ProjectWithMinterFilter;
+    // Only set with a connected wallet, whose permissions gate the forms
+    accessChecker?: ProjectAccessChecker;
   };
 
 export type ProjectWithMinterFilter = NonNullable<
@@ -39,9 +47,18 @@ export type ProjectWithMinterFilter = NonNullable<
 export type ProjectMinterConfigurationData =
   GetProjectMinterConfigurationQuery["projects_metadata_by_pk"];
 
+export type ProjectMinterConfigurationUpdate = {
+  data: ProjectMinterConfigurationData;
+  forms: FormBlueprint[];
+  // The on-chain events that caused the update, when it was made elsewhere
+  changes?: MinterConfigurationChange[];
+};
+
 export type TransformProjectMinterConfigurationFormValuesArgs =
   GenerateProjectMinterConfigurationFormsContext & {
     formValues: Record<string, any>;
     schema: FormFieldSchema;
     minterConfiguration: NonNullable<ProjectMinterConfigurationDetailsFragment>;
+    // Skips side effects like uploading allowlist files, for previews
+    dryRun?: boolean;
   };
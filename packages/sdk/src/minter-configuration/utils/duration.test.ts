@@ -0,0 +1,35 @@
+import { formatSecondsAsDuration, parseDurationToSeconds } from "./duration";
+
+describe("parseDurationToSeconds", () => {
+  it.each([
+    [3600, 3600],
+    ["600", 600],
+    ["90m", 5400],
+    ["1h 30m", 5400],
+    ["1d12h", 129600],
+    ["2d 3h 4m 5s", 183845],
+  ])("parses %p as %p seconds", (duration, seconds) => {
+    expect(parseDurationToSeconds(duration)).toBe(seconds);
+  });
+
+  it.each(["", "1 hour", "30m 1h", "1.5h"])(
+    "throws for the invalid duration %p",
+    (duration) => {
+      expect(() => parseDurationToSeconds(duration)).toThrow(
+        `Invalid duration: ${duration}`
+      );
+    }
+  );
+});
+
+describe("formatSecondsAsDuration", () => {
+  it.each([
+    [0, "0s"],
+    [45, "45s"],
+    [5400, "1h 30m"],
+    [183845, "2d 3h 4m 5s"],
+  ])("formats %p seconds as %p", (seconds, duration) => {
+    expect(formatSecondsAsDuration(seconds)).toBe(duration);
+    expect(parseDurationToSeconds(duration)).toBe(seconds);
+  });
+});
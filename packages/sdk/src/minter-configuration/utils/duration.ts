@@ -0,0 +1,58 @@
+const DURATION_UNIT_SECONDS = {
+  d: 24 * 60 * 60,
+  h: 60 * 60,
+  m: 60,
+  s: 1,
+} as const;
+
+const DURATION_PATTERN =
+  /^(?:(\d+)d)?\s*(?:(\d+)h)?\s*(?:(\d+)m)?\s*(?:(\d+)s)?$/;
+
+/**
+ * Parses a duration into seconds. Durations are a number of seconds, or
+ * days, hours, minutes and seconds written like "1d 12h" or "90m".
+ *
+ * @param value - The duration to parse.
+ * @returns The duration in seconds.
+ * @throws Error if the duration can't be parsed.
+ */
+export function parseDurationToSeconds(value: string | number): number {
+  if (typeof value === "number" || /^\d+$/.test(value.trim())) {
+    return Number(value);
+  }
+
+  const match = value.trim().match(DURATION_PATTERN);
+  if (!match || !match.slice(1).some(Boolean)) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  const [, days, hours, minutes, seconds] = match;
+  return (
+    Number(days ?? 0) * DURATION_UNIT_SECONDS.d +
+    Number(hours ?? 0) * DURATION_UNIT_SECONDS.h +
+    Number(minutes ?? 0) * DURATION_UNIT_SECONDS.m +
+    Number(seconds ?? 0)
+  );
+}
+
+/**
+ * Formats a number of seconds as a duration that parseDurationToSeconds
+ * accepts, for example 5400 as "1h 30m".
+ */
+export function formatSecondsAsDuration(totalSeconds: number): string {
+  if (totalSeconds === 0) {
+    return "0s";
+  }
+
+  let remainingSeconds = totalSeconds;
+  const parts: string[] = [];
+  for (const [unit, unitSeconds] of Object.entries(DURATION_UNIT_SECONDS)) {
+    const count = Math.floor(remainingSeconds / unitSeconds);
+    if (count > 0) {
+      parts.push(`${count}${unit}`);
+      remainingSeconds -= count * unitSeconds;
+    }
+  }
+
+  return parts.join(" ");
+}
@@ -0,0 +1,193 @@
+import { Hex, PublicClient, toFunctionSelector } from "viem";
+import { FormAccessLevelEnum } from "../../types";
+import { FormFieldSchema, TransactionAccessEnum } from "../../json-schema";
+import {
+  manuallyLimitProjectMaxInvocationsForm,
+  resetAuctionDetailsForm,
+  resetFutureAuctionDetailsForm,
+} from "../schemas/forms";
+import {
+  assertFormEditable,
+  createProjectAccessChecker,
+  getFormAccess,
+} from "./form-access";
+
+const ARTIST: Hex = "0x1111111111111111111111111111111111111111";
+const ADMIN: Hex = "0x2222222222222222222222222222222222222222";
+const CORE_CONTRACT = "0x0e4e004e1f31b40bf4d7eefbd99d376a23065122";
+const MINTER = "0x725b18673125bb1384c65a558d24a13fbb88d812";
+
+function createMockPublicClient(allowedAccounts: Hex[] = [ADMIN]) {
+  return {
+    readContract: jest.fn().mockResolvedValue(ARTIST),
+    simulateContract: jest.fn(async ({ args: [account] }) => ({
+      request: {},
+      result: allowedAccounts.includes(account),
+    })),
+  } as unknown as PublicClient & {
+    readContract: jest.Mock;
+    simulateContract: jest.Mock;
+  };
+}
+
+function createChecker(publicClient: PublicClient, account: Hex) {
+  return createProjectAccessChecker({
+    publicClient,
+    account,
+    coreContractAddress: CORE_CONTRACT,
+    projectIndex: 0,
+  });
+}
+
+describe("createProjectAccessChecker", () => {
+  it("reads whether the account is the project's artist", async () => {
+    const publicClient = createMockPublicClient();
+
+    expect(
+      (await createChecker(publicClient, ARTIST.toUpperCase() as Hex)).isArtist
+    ).toBe(true);
+    expect((await createChecker(publicClient, ADMIN)).isArtist).toBe(false);
+    expect(publicClient.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: CORE_CONTRACT,
+        functionName: "projectIdToArtistAddress",
+        args: [BigInt(0)],
+      })
+    );
+  });
+
+  it("checks the core contract's admin ACL once per function", async () => {
+    const publicClient = createMockPublicClient();
+    const checker = await createChecker(publicClient, ADMIN);
+    const selector = toFunctionSelector("resetAuctionDetails(uint256,address)");
+
+    expect(await checker.coreAdminACLAllowed(MINTER, selector)).toBe(true);
+    expect(await checker.coreAdminACLAllowed(MINTER, selector)).toBe(true);
+    expect(publicClient.simulateContract).toHaveBeenCalledTimes(1);
+    expect(publicClient.simulateContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: CORE_CONTRACT,
+        functionName: "adminACLAllowed",
+        args: [ADMIN, MINTER, selector],
+      })
+    );
+  });
+
+  it("denies permissions it fails to read", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const publicClient = createMockPublicClient();
+    publicClient.readContract.mockRejectedValueOnce(new Error("reverted"));
+    publicClient.simulateContract.mockRejectedValueOnce(new Error("reverted"));
+
+    const checker = await createChecker(publicClient, ARTIST);
+
+    expect(checker.isArtist).toBe(false);
+    expect(warn).toHaveBeenCalled();
+    expect(await checker.coreAdminACLAllowed(MINTER, "0x12345678")).toBe(false);
+    warn.mockRestore();
+  });
+});
+
+describe("getFormAccess", () => {
+  async function getAccess(
+    account: Hex,
+    formSchema: FormFieldSchema = resetAuctionDetailsForm([])
+  ) {
+    const checker = await createChecker(createMockPublicClient(), account);
+    return getFormAccess({ formSchema, contractAddress: MINTER, checker });
+  }
+
+  it("lets the artist submit artist forms", async () => {
+    const { access, fieldAccess } = await getAccess(
+      ARTIST,
+      manuallyLimitProjectMaxInvocationsForm
+    );
+
+    expect(access).toEqual({ level: FormAccessLevelEnum.EDITABLE });
+    expect(fieldAccess.max_invocations).toEqual(access);
+  });
+
+  it("makes artist forms read-only for admins", async () => {
+    const { access } = await getAccess(
+      ADMIN,
+      manuallyLimitProjectMaxInvocationsForm
+    );
+
+    expect(access).toEqual({
+      level: FormAccessLevelEnum.READ_ONLY,
+      reason:
+        "Only the project's artist can call manuallyLimitProjectMaxInvocations",
+    });
+  });
+
+  it("hides admin forms from anyone the admin ACL doesn't allow", async () => {
+    expect((await getAccess(ADMIN)).access.level).toEqual(
+      FormAccessLevelEnum.EDITABLE
+    );
+    expect((await getAccess(ARTIST)).access).toEqual({
+      level: FormAccessLevelEnum.HIDDEN,
+      reason: "Only the core contract's admin can call resetAuctionDetails",
+    });
+  });
+
+  it("lets either the artist or an admin submit shared forms", async () => {
+    const other = "0x3333333333333333333333333333333333333333";
+
+    for (const account of [ARTIST, ADMIN]) {
+      expect(
+        (await getAccess(account, resetFutureAuctionDetailsForm)).access.level
+      ).toEqual(FormAccessLevelEnum.EDITABLE);
+    }
+    expect(
+      (await getAccess(other, resetFutureAuctionDetailsForm)).access.level
+    ).toEqual(FormAccessLevelEnum.READ_ONLY);
+  });
+
+  it("checks fields with an access of their own separately", async () => {
+    const { access, fieldAccess } = await getAccess(ARTIST, {
+      ...manuallyLimitProjectMaxInvocationsForm,
+      properties: {
+        ...manuallyLimitProjectMaxInvocationsForm.properties,
+        max_invocations: {
+          ...manuallyLimitProjectMaxInvocationsForm.properties?.max_invocations,
+          access: TransactionAccessEnum.CORE_ADMIN_ACL,
+        },
+      },
+    });
+
+    expect(access.level).toEqual(FormAccessLevelEnum.EDITABLE);
+    expect(fieldAccess.projectIndex.level).toEqual(
+      FormAccessLevelEnum.EDITABLE
+    );
+    expect(fieldAccess.max_invocations.level).toEqual(
+      FormAccessLevelEnum.HIDDEN
+    );
+  });
+
+  it("doesn't gate off-chain forms", async () => {
+    const { access } = await getAccess(ADMIN, {
+      type: "object",
+      title: "Off-chain form",
+      onChain: false,
+    });
+
+    expect(access).toEqual({ level: FormAccessLevelEnum.EDITABLE });
+  });
+});
+
+describe("assertFormEditable", () => {
+  it("throws the reason forms can't be submitted", () => {
+    expect(() =>
+      assertFormEditable({
+        key: "resetAuctionDetails",
+        access: {
+          level: FormAccessLevelEnum.HIDDEN,
+          reason: "Only the core contract's admin can call resetAuctionDetails",
+        },
+      })
+    ).toThrow("Only the core contract's admin can call resetAuctionDetails");
+    expect(() =>
+      assertFormEditable({ key: "resetAuctionDetails", access: undefined })
+    ).not.toThrow();
+  });
+});
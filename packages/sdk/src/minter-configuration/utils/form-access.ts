@@ -0,0 +1,196 @@
+import { AbiFunction, Hex, PublicClient, toFunctionSelector } from "viem";
+import { iGenArt721CoreContractV3BaseAbi } from "../../../abis/iGenArt721CoreContractV3BaseAbi";
+import {
+  FormFieldSchema,
+  isOnChainFormFieldSchema,
+  TransactionAccess,
+  TransactionAccessEnum,
+} from "../../json-schema";
+import { FormAccess, FormAccessLevelEnum, FormBlueprint } from "../../types";
+
+/**
+ * The permissions of an account on a project, read from its core contract.
+ */
+export type ProjectAccessChecker = {
+  account: Hex;
+  isArtist: boolean;
+  // Whether the core contract's admin ACL allows the account to call the
+  // function with `selector` on `contractAddress`
+  coreAdminACLAllowed: (
+    contractAddress: Hex,
+    selector: Hex
+  ) => Promise<boolean>;
+};
+
+/**
+ * Reads whether an account is the artist of a project, and checks the core
+ * contract's admin ACL for the account on demand, once per function.
+ *
+ * Reads that fail, for example on cores without an admin ACL, count as the
+ * account not having the permission.
+ */
+export async function createProjectAccessChecker({
+  publicClient,
+  account,
+  coreContractAddress,
+  projectIndex,
+}: {
+  publicClient: PublicClient;
+  account: Hex;
+  coreContractAddress: Hex;
+  projectIndex: number;
+}): Promise<ProjectAccessChecker> {
+  let isArtist = false;
+  try {
+    const artistAddress = await publicClient.readContract({
+      address: coreContractAddress,
+      abi: iGenArt721CoreContractV3BaseAbi,
+      functionName: "projectIdToArtistAddress",
+      args: [BigInt(projectIndex)],
+    });
+    isArtist = artistAddress.toLowerCase() === account.toLowerCase();
+  } catch (e) {
+    console.warn("Failed to read the artist of the project", e);
+  }
+
+  const allowedBySelector = new Map<string, Promise<boolean>>();
+
+  return {
+    account,
+    isArtist,
+    coreAdminACLAllowed: (contractAddress, selector) => {
+      const key = `${contractAddress.toLowerCase()}-${selector}`;
+      let allowed = allowedBySelector.get(key);
+      if (!allowed) {
+        allowed = (async () => {
+          try {
+            // adminACLAllowed isn't a view, as admin ACLs may emit events,
+            // so it is simulated rather than read
+            const { result } = await publicClient.simulateContract({
+              address: coreContractAddress,
+              abi: iGenArt721CoreContractV3BaseAbi,
+              functionName: "adminACLAllowed",
+              args: [account, contractAddress, selector],
+              account,
+            });
+            return result;
+          } catch {
+            return false;
+          }
+        })();
+        allowedBySelector.set(key, allowed);
+      }
+      return allowed;
+    },
+  };
+}
+
+const ACCESS_DESCRIPTIONS: Record<TransactionAccess, string> = {
+  [TransactionAccessEnum.ARTIST]: "the project's artist",
+  [TransactionAccessEnum.CORE_ADMIN_ACL]: "the core contract's admin",
+  [TransactionAccessEnum.CORE_ADMIN_ACL_OR_ARTIST]:
+    "the project's artist or the core contract's admin",
+};
+
+async function checkAccess({
+  access,
+  checker,
+  contractAddress,
+  selector,
+  functionName,
+}: {
+  access: TransactionAccess;
+  checker: ProjectAccessChecker;
+  contractAddress: Hex;
+  selector: Hex;
+  functionName: string;
+}): Promise<FormAccess> {
+  const allowed =
+    (access !== TransactionAccessEnum.CORE_ADMIN_ACL && checker.isArtist) ||
+    (access !== TransactionAccessEnum.ARTIST &&
+      (await checker.coreAdminACLAllowed(contractAddress, selector)));
+
+  if (allowed) {
+    return { level: FormAccessLevelEnum.EDITABLE };
+  }
+
+  return {
+    // Admin-only forms aren't relevant to anyone else, while the current
+    // values of other forms are still worth showing
+    level:
+      access === TransactionAccessEnum.CORE_ADMIN_ACL
+        ? FormAccessLevelEnum.HIDDEN
+        : FormAccessLevelEnum.READ_ONLY,
+    reason: `Only ${ACCESS_DESCRIPTIONS[access]} can call ${functionName}`,
+  };
+}
+
+/**
+ * Throws if a form's access doesn't allow it to be submitted.
+ */
+export function assertFormEditable(
+  form: Pick<FormBlueprint, "key" | "access">
+) {
+  if (form.access && form.access.level !== FormAccessLevelEnum.EDITABLE) {
+    throw new Error(
+      form.access.reason ?? `The connected wallet can't submit ${form.key}`
+    );
+  }
+}
+
+/**
+ * Gets whether the checked account may submit a form to `contractAddress`,
+ * and may set each of its fields. Fields without an `access` of their own
+ * share the access of the form's transaction.
+ */
+export async function getFormAccess({
+  formSchema,
+  contractAddress,
+  checker,
+}: {
+  formSchema: FormFieldSchema;
+  contractAddress: Hex;
+  checker: ProjectAccessChecker;
+}): Promise<{ access: FormAccess; fieldAccess: Record<string, FormAccess> }> {
+  if (!isOnChainFormFieldSchema(formSchema)) {
+    // Off-chain forms aren't gated on-chain
+    return {
+      access: { level: FormAccessLevelEnum.EDITABLE },
+      fieldAccess: {},
+    };
+  }
+
+  const { abi, functionName } = formSchema.transactionDetails;
+  const abiFunction = abi.find(
+    (item): item is AbiFunction =>
+      item.type === "function" && item.name === functionName
+  );
+  if (!abiFunction) {
+    throw new Error(`Function ${functionName} is missing from the form's ABI`);
+  }
+
+  const accessArgs = {
+    checker,
+    contractAddress,
+    selector: toFunctionSelector(abiFunction),
+    functionName,
+  };
+  const formAccess = await checkAccess({
+    ...accessArgs,
+    access:
+      formSchema.transactionDetails.access ??
+      TransactionAccessEnum.CORE_ADMIN_ACL_OR_ARTIST,
+  });
+
+  const fieldAccess: Record<string, FormAccess> = {};
+  for (const [fieldName, fieldSchema] of Object.entries(
+    formSchema.properties ?? {}
+  )) {
+    fieldAccess[fieldName] =
+      "access" in fieldSchema && fieldSchema.access
+        ? await checkAccess({ ...accessArgs, access: fieldSchema.access })
+        : formAccess;
+  }
+
+  return { access: formAccess, fieldAccess };
+}
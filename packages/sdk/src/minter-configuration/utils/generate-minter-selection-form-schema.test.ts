@@ -13,6 +13,7 @@ describe("generateMinterSelectionFormSchema", () => {
       transactionDetails: {
         functionName: "setMinterForProject",
         args: ["projectIndex", "minter.address"],
+        access: "coreAdminACLOrArtist",
         abi: [
           {
             inputs: [
@@ -56,6 +57,7 @@ describe("generateMinterSelectionFormSchema", () => {
       transactionDetails: {
         functionName: "setMinterForProject",
         args: ["projectIndex", "coreContractAddress", "minter.address"],
+        access: "coreAdminACLOrArtist",
         abi: [
           {
             inputs: [
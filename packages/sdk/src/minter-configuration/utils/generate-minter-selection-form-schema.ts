@@ -1,4 +1,7 @@
-import { OnChainCompoundNonArrayFormFieldSchema } from "../../json-schema";
+import {
+  OnChainCompoundNonArrayFormFieldSchema,
+  TransactionAccessEnum,
+} from "../../json-schema";
 
 export function generateMinterSelectionFormSchema(
   shared: boolean
@@ -35,6 +38,7 @@ export function generateMinterSelectionFormSchema(
     transactionDetails: {
       functionName: "setMinterForProject",
       args,
+      access: TransactionAccessEnum.CORE_ADMIN_ACL_OR_ARTIST,
       abi: [
         {
           inputs,
@@ -4,6 +4,7 @@ import { ProjectMinterConfigurationDetailsFragment } from "../../generated/graph
 import { FormFieldSchema, BaseFormFieldSchema } from "../../json-schema";
 import { processValueForDisplay } from "../display-processing";
 import { PublicClient } from "viem";
+import { DisplayProcessorRegistry } from "../processor-registry";
 
 /**
  * This function generates initial values for a form field based on the minter configuration of a project.
@@ -13,13 +14,16 @@ import { PublicClient } from "viem";
  *
  * @param formField - The form field for which to generate initial values.
  * @param projectMinterConfiguration - The minter configuration of the project.
+ * @param publicClient - The public client display processors read with.
+ * @param displayProcessors - Display processors registered on the client, which take precedence over the built-in processors.
  *
  * @returns {Record<string, any>} - An object containing the initial values for each property of the form field.
  */
 export async function getInitialMinterConfigurationValuesForFormField(
   formField: FormFieldSchema,
   projectMinterConfiguration: ProjectMinterConfigurationDetailsFragment | null,
-  publicClient: PublicClient
+  publicClient: PublicClient,
+  displayProcessors?: DisplayProcessorRegistry
 ): Promise<Record<string, any>> {
   // Object to hold the initial values
   const initialValues: Record<string, any> = {};
@@ -57,6 +61,7 @@ export async function getInitialMinterConfigurationValuesForFormField(
         displayProcessing: schema.displayProcessing,
         minterConfiguration: configuration,
         publicClient,
+        displayProcessors,
       });
 
       set(initialValues, parentKey, processedInitialValue);
@@ -1,9 +1,15 @@
 import {
   pollForSyncedMinterConfigUpdates,
   pollForProjectUpdates,
+  pollForSyncedMinterConfigurationChanges,
 } from "./polling";
 import { ArtBlocksClientContext } from "../..";
 import { asyncPoll } from "../../utils/async-poll";
+import { GraphQLDataSource } from "../../data-sources";
+import { GraphQLClient } from "graphql-request";
+import { PublicClient } from "viem";
+import { FormBlueprint } from "../../types";
+import { MinterConfigurationChange } from "../watch-changes";
 
 jest.mock("graphql-request");
 jest.mock("../../utils/async-poll");
@@ -13,13 +19,15 @@ describe("polling", () => {
     jest.resetAllMocks();
   });
 
+  const graphqlClient = {
+    request: jest.fn(),
+  } as unknown as GraphQLClient;
   const artblocksClientContext = {
     publicClient: {} as any,
-    graphqlClient: {
-      request: jest.fn(),
-    },
+    graphqlClient,
+    dataSource: new GraphQLDataSource(graphqlClient),
     userIsStaff: false,
-  } as unknown as ArtBlocksClientContext;
+  } as unknown as ArtBlocksClientContext & { graphqlClient: GraphQLClient };
   const projectId = "test-project-id";
   const transactionConfirmedAt = new Date();
   const updateProperties = ["property1", "property2"];
@@ -257,4 +265,96 @@ describe("polling", () => {
       ).rejects.toThrow("API error");
     });
   });
+
+  describe("pollForSyncedMinterConfigurationChanges", () => {
+    const syncedAt = new Date(1700000000 * 1000).toISOString();
+    const forms = [
+      { key: "setMinterForProject", formSchema: {} },
+      {
+        key: "updatePricePerTokenInWei",
+        formSchema: {
+          onChain: true,
+          transactionDetails: { args: ["base_price"] },
+        },
+      },
+    ] as unknown as FormBlueprint[];
+
+    function createChangesContext() {
+      return {
+        publicClient: {
+          getBlock: jest.fn().mockResolvedValue({
+            timestamp: BigInt(1700000000),
+          }),
+        } as unknown as PublicClient,
+        dataSource: {
+          getProjectUpdates: jest.fn().mockResolvedValue({
+            properties_updated_at: { minter_configuration_id: syncedAt },
+          }),
+          getProjectMinterConfigurationUpdates: jest.fn().mockResolvedValue({
+            minter_configuration: {
+              properties_updated_at: { base_price: syncedAt },
+            },
+          }),
+        },
+        userIsStaff: false,
+      } as unknown as ArtBlocksClientContext & { publicClient: PublicClient };
+    }
+
+    function createChange(
+      source: MinterConfigurationChange["source"],
+      blockNumber: bigint
+    ): MinterConfigurationChange {
+      return {
+        source,
+        address: "0x1234",
+        eventName: "PricePerTokenUpdated",
+        args: {},
+        blockNumber,
+        transactionHash: "0x5678",
+      };
+    }
+
+    beforeEach(() => {
+      (asyncPoll as jest.Mock).mockImplementation(async (callback) => {
+        await callback();
+      });
+    });
+
+    it("waits for the fields of the current forms as of the latest change", async () => {
+      const clientContext = createChangesContext();
+
+      await pollForSyncedMinterConfigurationChanges(
+        clientContext,
+        projectId,
+        [createChange("minter", BigInt(7)), createChange("minter", BigInt(5))],
+        forms
+      );
+
+      expect(clientContext.publicClient.getBlock).toHaveBeenCalledWith({
+        blockNumber: BigInt(7),
+      });
+      expect(
+        clientContext.dataSource.getProjectMinterConfigurationUpdates
+      ).toHaveBeenCalledWith(projectId);
+      expect(clientContext.dataSource.getProjectUpdates).not.toHaveBeenCalled();
+    });
+
+    it("waits for the project's minter after it changes", async () => {
+      const clientContext = createChangesContext();
+
+      await pollForSyncedMinterConfigurationChanges(
+        clientContext,
+        projectId,
+        [createChange("minterFilter", BigInt(7))],
+        forms
+      );
+
+      expect(clientContext.dataSource.getProjectUpdates).toHaveBeenCalledWith(
+        projectId
+      );
+      expect(
+        clientContext.dataSource.getProjectMinterConfigurationUpdates
+      ).not.toHaveBeenCalled();
+    });
+  });
 });
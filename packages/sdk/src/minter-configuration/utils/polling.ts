@@ -1,10 +1,13 @@
+import { PublicClient } from "viem";
 import { ArtBlocksClientContext } from "../..";
 import { GetProjectMinterConfigurationUpdatesQuery } from "../../generated/graphql";
+import { isOnChainFormFieldSchema } from "../../json-schema";
+import { FormBlueprint } from "../../types";
 import { AsyncData, asyncPoll } from "../../utils/async-poll";
 import {
-  getProjectMinterConfigurationUpdatesQueryDocument,
-  getProjectsMetadataUpdatesQueryDocument,
-} from "../graphql-operations";
+  MinterConfigurationChange,
+  MinterConfigurationChangeSourceEnum,
+} from "../watch-changes";
 
 /**
  * Polls the database to check if the minter configuration for a given project
@@ -35,13 +38,10 @@ export async function pollForSyncedMinterConfigUpdates(
       >
     > => {
       try {
-        const result = await clientContext.graphqlClient.request(
-          getProjectMinterConfigurationUpdatesQueryDocument,
-          {
-            projectId,
-          }
-        );
-        const project = result.projects_metadata_by_pk;
+        const project =
+          await clientContext.dataSource.getProjectMinterConfigurationUpdates(
+            projectId
+          );
 
         if (!project) {
           return Promise.reject(
@@ -59,7 +59,9 @@ export async function pollForSyncedMinterConfigUpdates(
 
           const propertyUpdatedAtTimestamp = propertyUpdatedAt.getTime();
 
-          return propertyUpdatedAtTimestamp > transactionConfirmedAtTimestamp;
+          // Data sources that read from the chain are synced as of the
+          // transaction's block
+          return propertyUpdatedAtTimestamp >= transactionConfirmedAtTimestamp;
         });
 
         if (hasUpdatedProperty) {
@@ -94,13 +96,8 @@ export async function pollForProjectUpdates(
       >
     > => {
       try {
-        const result = await clientContext.graphqlClient.request(
-          getProjectsMetadataUpdatesQueryDocument,
-          {
-            projectId,
-          }
-        );
-        const project = result.projects_metadata_by_pk;
+        const project =
+          await clientContext.dataSource.getProjectUpdates(projectId);
 
         if (!project) {
           return Promise.reject(
@@ -118,7 +115,9 @@ export async function pollForProjectUpdates(
 
           const propertyUpdatedAtTimestamp = propertyUpdatedAt.getTime();
 
-          return propertyUpdatedAtTimestamp > transactionConfirmedAtTimestamp;
+          // Data sources that read from the chain are synced as of the
+          // transaction's block
+          return propertyUpdatedAtTimestamp >= transactionConfirmedAtTimestamp;
         });
 
         if (hasUpdatedProperty) {
@@ -139,3 +138,70 @@ export async function pollForProjectUpdates(
     90000 // timeout
   );
 }
+
+/**
+ * Polls the data source until it has synced on-chain changes to a project's
+ * minter configuration made elsewhere, as of the block of the latest change.
+ * Changes of the project's minter are checked with the project's
+ * minter_configuration_id, and changes to its configuration with the sync
+ * check fields of the project's current configuration forms.
+ *
+ * @param clientContext - The client context, with a public client to read the block of the changes.
+ * @param projectId - The ID of the project whose minter configuration changed.
+ * @param changes - The on-chain events that changed the configuration.
+ * @param forms - The project's current configuration forms.
+ */
+export async function pollForSyncedMinterConfigurationChanges(
+  clientContext: ArtBlocksClientContext & { publicClient: PublicClient },
+  projectId: string,
+  changes: MinterConfigurationChange[],
+  forms: FormBlueprint[]
+) {
+  const blockNumbers = changes.flatMap(({ blockNumber }) =>
+    blockNumber === null ? [] : [blockNumber]
+  );
+  // Changes without a block number are pending, so wait for the latest block
+  const block = await clientContext.publicClient.getBlock(
+    blockNumbers.length > 0
+      ? {
+          blockNumber: blockNumbers.reduce((latest, blockNumber) =>
+            blockNumber > latest ? blockNumber : latest
+          ),
+        }
+      : undefined
+  );
+  const changesConfirmedAt = new Date(Number(block.timestamp) * 1000);
+
+  if (
+    changes.some(
+      ({ source }) =>
+        source === MinterConfigurationChangeSourceEnum.MINTER_FILTER
+    )
+  ) {
+    await pollForProjectUpdates(clientContext, projectId, changesConfirmedAt, [
+      "minter_configuration_id",
+    ]);
+  }
+
+  const syncCheckFields = forms.flatMap(({ key, formSchema }) =>
+    key !== "setMinterForProject" &&
+    isOnChainFormFieldSchema(formSchema) &&
+    formSchema.transactionDetails
+      ? (formSchema.transactionDetails.syncCheckFieldsOverride ??
+        formSchema.transactionDetails.args)
+      : []
+  );
+  if (
+    syncCheckFields.length > 0 &&
+    changes.some(
+      ({ source }) => source === MinterConfigurationChangeSourceEnum.MINTER
+    )
+  ) {
+    await pollForSyncedMinterConfigUpdates(
+      clientContext,
+      projectId,
+      changesConfirmedAt,
+      syncCheckFields
+    );
+  }
+}
@@ -0,0 +1,179 @@
+import { PublicClient } from "viem";
+import { ProjectMinterConfigurationData } from "./types";
+import {
+  MinterConfigurationChangeSourceEnum,
+  watchProjectMinterConfigurationChanges,
+} from "./watch-changes";
+
+const CORE_CONTRACT = "0x0e4e004e1f31b40bf4d7eefbd99d376a23065122";
+const MINTER_FILTER = "0x29e9f09244497503f304fa549d50efc751d818d2";
+const MINTER = "0x725b18673125bb1384c65a558d24a13fbb88d812";
+const NEW_MINTER = "0xb3f8b4cb7ed8f5d2d9ab1e1a9a2b4fd6e1a28b1f";
+const projectId = `${CORE_CONTRACT}-3`;
+
+function createData(minterAddress: string) {
+  return {
+    contract: { minter_filter: { address: MINTER_FILTER } },
+    minter_configuration: { minter: { address: minterAddress } },
+  } as unknown as ProjectMinterConfigurationData;
+}
+
+function createLog(
+  address: string,
+  eventName: string,
+  args: Record<string, unknown> = {}
+) {
+  return {
+    address,
+    eventName,
+    args: { projectId: BigInt(3), coreContract: CORE_CONTRACT, ...args },
+    blockNumber: BigInt(100),
+    transactionHash: "0xabc",
+  };
+}
+
+// Keeps the watchers of each address so tests can emit logs to them
+function createMockPublicClient() {
+  const watchers = new Map<
+    string,
+    { onLogs: (logs: unknown[]) => void; unwatch: jest.Mock }
+  >();
+  const publicClient = {
+    watchContractEvent: jest.fn(({ address, onLogs }) => {
+      const unwatch = jest.fn(() => watchers.delete(address));
+      watchers.set(address, { onLogs, unwatch });
+      return unwatch;
+    }),
+  } as unknown as PublicClient;
+
+  return { publicClient, watchers };
+}
+
+describe("watchProjectMinterConfigurationChanges", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("watches the minter filter and the project's minter", () => {
+    const { publicClient, watchers } = createMockPublicClient();
+
+    watchProjectMinterConfigurationChanges({
+      publicClient,
+      projectId,
+      data: createData(MINTER),
+      onChanges: jest.fn(),
+    });
+
+    expect(Array.from(watchers.keys())).toEqual([MINTER_FILTER, MINTER]);
+  });
+
+  it("passes debounced changes of the project to onChanges", async () => {
+    const { publicClient, watchers } = createMockPublicClient();
+    const onChanges = jest.fn().mockResolvedValue(createData(MINTER));
+
+    watchProjectMinterConfigurationChanges({
+      publicClient,
+      projectId,
+      data: createData(MINTER),
+      onChanges,
+      debounceMs: 500,
+    });
+
+    const minterWatcher = watchers.get(MINTER);
+    minterWatcher?.onLogs([
+      createLog(MINTER, "PricePerTokenUpdated", { pricePerToken: BigInt(1) }),
+      // Other projects on the same minter are ignored
+      createLog(MINTER, "PricePerTokenUpdated", { projectId: BigInt(4) }),
+    ]);
+    jest.advanceTimersByTime(400);
+    minterWatcher?.onLogs([
+      createLog(MINTER, "ProjectMaxInvocationsLimitUpdated"),
+    ]);
+    jest.advanceTimersByTime(400);
+    expect(onChanges).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(onChanges).toHaveBeenCalledTimes(1);
+    expect(onChanges).toHaveBeenCalledWith([
+      {
+        source: MinterConfigurationChangeSourceEnum.MINTER,
+        address: MINTER,
+        eventName: "PricePerTokenUpdated",
+        args: {
+          projectId: BigInt(3),
+          coreContract: CORE_CONTRACT,
+          pricePerToken: BigInt(1),
+        },
+        blockNumber: BigInt(100),
+        transactionHash: "0xabc",
+      },
+      expect.objectContaining({
+        eventName: "ProjectMaxInvocationsLimitUpdated",
+      }),
+    ]);
+  });
+
+  it("watches the new minter once the project's minter changes", async () => {
+    const { publicClient, watchers } = createMockPublicClient();
+    const onChanges = jest.fn().mockResolvedValue(createData(NEW_MINTER));
+
+    watchProjectMinterConfigurationChanges({
+      publicClient,
+      projectId,
+      data: createData(MINTER),
+      onChanges,
+    });
+
+    const unwatchMinter = watchers.get(MINTER)?.unwatch;
+    watchers.get(MINTER_FILTER)?.onLogs([
+      createLog(MINTER_FILTER, "ProjectMinterRegistered", {
+        minter: NEW_MINTER,
+      }),
+    ]);
+    await jest.runAllTimersAsync();
+
+    expect(onChanges).toHaveBeenCalledWith([
+      expect.objectContaining({
+        source: MinterConfigurationChangeSourceEnum.MINTER_FILTER,
+        eventName: "ProjectMinterRegistered",
+      }),
+    ]);
+    expect(unwatchMinter).toHaveBeenCalled();
+    expect(Array.from(watchers.keys())).toEqual([MINTER_FILTER, NEW_MINTER]);
+  });
+
+  it("stops watching and drops pending changes when unwatched", () => {
+    const { publicClient, watchers } = createMockPublicClient();
+    const onChanges = jest.fn();
+
+    const unwatch = watchProjectMinterConfigurationChanges({
+      publicClient,
+      projectId,
+      data: createData(MINTER),
+      onChanges,
+    });
+    watchers.get(MINTER)?.onLogs([createLog(MINTER, "ConfigValueSet")]);
+    unwatch();
+    jest.runAllTimers();
+
+    expect(onChanges).not.toHaveBeenCalled();
+    expect(watchers.size).toBe(0);
+  });
+
+  it("doesn't watch projects without a minter filter", () => {
+    const { publicClient } = createMockPublicClient();
+
+    watchProjectMinterConfigurationChanges({
+      publicClient,
+      projectId,
+      data: {} as ProjectMinterConfigurationData,
+      onChanges: jest.fn(),
+    });
+
+    expect(publicClient.watchContractEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,190 @@
+import { Hex, Log, parseAbi, PublicClient } from "viem";
+import { ProjectMinterConfigurationData } from "./types";
+
+// Events the minter filter emits when a project's minter changes
+const minterFilterEventsAbi = parseAbi([
+  "event ProjectMinterRegistered(uint256 indexed projectId, address indexed coreContract, address indexed minter, string minterType)",
+  "event ProjectMinterRemoved(uint256 indexed projectId, address indexed coreContract)",
+]);
+
+// Events the shared minter libraries emit when a project's configuration
+// changes, starting with the generic events of GenericMinterEventsLib. All of
+// them index the project id and core contract as their first arguments.
+const minterConfigurationEventsAbi = parseAbi([
+  "event ConfigKeyRemoved(uint256 indexed projectId, address indexed coreContract, bytes32 key)",
+  "event ConfigValueSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, bool value)",
+  "event ConfigValueSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, uint256 value)",
+  "event ConfigValueSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, address value)",
+  "event ConfigValueSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, bytes32 value)",
+  "event ConfigValueAddedToSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, uint256 value)",
+  "event ConfigValueAddedToSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, address value)",
+  "event ConfigValueAddedToSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, bytes32 value)",
+  "event ConfigValueRemovedFromSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, uint256 value)",
+  "event ConfigValueRemovedFromSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, address value)",
+  "event ConfigValueRemovedFromSet(uint256 indexed projectId, address indexed coreContract, bytes32 key, bytes32 value)",
+  "event PricePerTokenUpdated(uint256 indexed projectId, address indexed coreContract, uint256 indexed pricePerToken)",
+  "event PricePerTokenReset(uint256 indexed projectId, address indexed coreContract)",
+  "event ProjectCurrencyInfoUpdated(uint256 indexed projectId, address indexed coreContract, address indexed currencyAddress, string currencySymbol)",
+  "event ProjectMaxInvocationsLimitUpdated(uint256 indexed projectId, address indexed coreContract, uint256 maxInvocations)",
+  "event SetAuctionDetailsExp(uint256 indexed projectId, address indexed coreContract, uint40 auctionTimestampStart, uint40 priceDecayHalfLifeSeconds, uint256 startPrice, uint256 basePrice)",
+  "event SetAuctionDetailsLin(uint256 indexed projectId, address indexed coreContract, uint40 auctionTimestampStart, uint40 auctionTimestampEnd, uint256 startPrice, uint256 basePrice)",
+  "event ResetAuctionDetails(uint256 indexed projectId, address indexed coreContract)",
+  "event ConfiguredFutureAuctions(uint256 indexed projectId, address indexed coreContract, uint64 timestampStart, uint32 auctionDurationSeconds, uint256 basePrice, uint8 minBidIncrementPercentage)",
+  "event AllowedHoldersOfProjects(uint256 indexed projectId, address indexed coreContract, address[] ownedNFTAddresses, uint256[] ownedNFTProjectIds)",
+  "event RemovedHoldersOfProjects(uint256 indexed projectId, address indexed coreContract, address[] ownedNFTAddresses, uint256[] ownedNFTProjectIds)",
+  "event AuctionTimestampEndUpdated(uint256 indexed projectId, address indexed coreContract, uint256 timestampEnd)",
+  "event NumTokensInAuctionUpdated(uint256 indexed projectId, address indexed coreContract, uint256 numTokensInAuction)",
+]);
+
+export const DEFAULT_CONFIGURATION_CHANGE_DEBOUNCE_MS = 1000;
+
+export const MinterConfigurationChangeSourceEnum = {
+  MINTER_FILTER: "minterFilter",
+  MINTER: "minter",
+} as const;
+
+export type MinterConfigurationChangeSource =
+  (typeof MinterConfigurationChangeSourceEnum)[keyof typeof MinterConfigurationChangeSourceEnum];
+
+/**
+ * An on-chain event that changed a project's minter or its configuration.
+ */
+export type MinterConfigurationChange = {
+  source: MinterConfigurationChangeSource;
+  // The minter filter or minter that emitted the event
+  address: Hex;
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint | null;
+  transactionHash: Hex | null;
+};
+
+type ProjectEventLog = Log & {
+  eventName: string;
+  args: { projectId?: bigint; coreContract?: Hex } & Record<string, unknown>;
+};
+
+/**
+ * Watches the minter filter and the current minter of a project for events
+ * that change its minter configuration. Events arriving within `debounceMs`
+ * of each other are passed to `onChanges` together. When `onChanges` resolves
+ * to a configuration with a different minter, the new minter is watched
+ * instead.
+ *
+ * @param args.publicClient - The public client to watch events with.
+ * @param args.projectId - The ID of the project, e.g. `0x...-0`.
+ * @param args.data - The project's current minter configuration.
+ * @param args.onChanges - Invoked with the changes, resolving to the updated minter configuration.
+ * @param args.debounceMs - How long to wait for further events, in milliseconds.
+ * @returns A function that stops watching.
+ */
+export function watchProjectMinterConfigurationChanges({
+  publicClient,
+  projectId,
+  data,
+  onChanges,
+  debounceMs = DEFAULT_CONFIGURATION_CHANGE_DEBOUNCE_MS,
+}: {
+  publicClient: PublicClient;
+  projectId: string;
+  data: ProjectMinterConfigurationData;
+  onChanges: (
+    changes: MinterConfigurationChange[]
+  ) => Promise<ProjectMinterConfigurationData>;
+  debounceMs?: number;
+}): () => void {
+  const [coreContractAddress, projectIndex] = projectId.split("-");
+  const minterFilterAddress = data?.contract?.minter_filter?.address as
+    Hex | undefined;
+
+  if (!minterFilterAddress) {
+    // Projects without a minter filter can't change minters
+    return () => undefined;
+  }
+
+  let pendingChanges: MinterConfigurationChange[] = [];
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const isProjectLog = ({ args }: ProjectEventLog) =>
+    args.projectId === BigInt(projectIndex) &&
+    args.coreContract?.toLowerCase() === coreContractAddress.toLowerCase();
+
+  const flush = async () => {
+    timeout = undefined;
+    const changes = pendingChanges;
+    pendingChanges = [];
+
+    try {
+      const updatedData = await onChanges(changes);
+      if (!stopped) {
+        watchMinter(updatedData?.minter_configuration?.minter?.address);
+      }
+    } catch (e) {
+      console.warn("Failed to update minter configuration after changes", e);
+    }
+  };
+
+  const handleLogs =
+    (source: MinterConfigurationChangeSource) => (logs: ProjectEventLog[]) => {
+      const changes = logs
+        .filter(isProjectLog)
+        .map((log): MinterConfigurationChange => ({
+          source,
+          address: log.address,
+          eventName: log.eventName,
+          args: log.args,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+        }));
+      if (stopped || changes.length === 0) {
+        return;
+      }
+
+      pendingChanges.push(...changes);
+      clearTimeout(timeout);
+      timeout = setTimeout(flush, debounceMs);
+    };
+
+  const onError = (error: Error) => {
+    console.warn("Failed to watch minter configuration events", error);
+  };
+
+  const unwatchMinterFilter = publicClient.watchContractEvent({
+    address: minterFilterAddress,
+    abi: minterFilterEventsAbi,
+    onLogs: handleLogs(MinterConfigurationChangeSourceEnum.MINTER_FILTER) as (
+      logs: unknown[]
+    ) => void,
+    onError,
+  });
+
+  let watchedMinterAddress: string | undefined;
+  let unwatchMinter: (() => void) | undefined;
+  const watchMinter = (minterAddress: string | undefined) => {
+    if (minterAddress?.toLowerCase() === watchedMinterAddress?.toLowerCase()) {
+      return;
+    }
+
+    unwatchMinter?.();
+    unwatchMinter = minterAddress
+      ? publicClient.watchContractEvent({
+          address: minterAddress as Hex,
+          abi: minterConfigurationEventsAbi,
+          onLogs: handleLogs(MinterConfigurationChangeSourceEnum.MINTER) as (
+            logs: unknown[]
+          ) => void,
+          onError,
+        })
+      : undefined;
+    watchedMinterAddress = minterAddress;
+  };
+  watchMinter(data?.minter_configuration?.minter?.address);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timeout);
+    unwatchMinterFilter();
+    unwatchMinter?.();
+  };
+}
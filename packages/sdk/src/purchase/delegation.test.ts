@@ -1,20 +1,91 @@
 import { describe, it, expect, jest, beforeEach } from "@jest/globals";
-import { getDelegateVaults } from "./delegation";
-import { Hex, PublicClient, getContract } from "viem";
+import {
+  DELEGATION_REGISTRY_VERSION,
+  DELEGATION_SCOPE,
+  Delegation,
+  getDelegateVaults,
+  getDelegationRegistryAddresses,
+  getDelegations,
+  isDelegationValidFor,
+} from "./delegation";
+import { Hex, PublicClient, getContract, zeroAddress, zeroHash } from "viem";
+import {
+  DELEGATE_REGISTRY_V2_ADDRESS,
+  DELEGATION_REGISTRY_ADDRESSES,
+} from "../utils/addresses";
 
 // Mocking the necessary parts from viem
-jest.mock("viem");
+jest.mock("viem", () => ({
+  ...(jest.requireActual("viem") as object),
+  getContract: jest.fn(),
+}));
 
 const DELEGATE_TEST_ADDRESS: Hex = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
 const FAKE_VAULT_ADDRESS: Hex = "0xbea796E9f85E9821d4910AE9D2bA64A24b60Aae3";
 const FAKE_VAULT_ADDRESS_2: Hex = "0xC433E65449165848180779521CA99eCe75D7DB69";
+const CORE_CONTRACT_ADDRESS: Hex = "0x99a9B7c1116f9ceEB1652de04d5969CcE509B069";
+const OTHER_CONTRACT_ADDRESS: Hex =
+  "0x313918a167152209d91F7182A407169f5327CaE3";
 
-// Setup function to configure the mock for getContract
-const setupGetContractMock = (delegations: { vault: Hex }[]) => {
-  (getContract as jest.Mock).mockReturnValue({
-    read: {
-      getDelegationsByDelegate: async () => delegations,
-    },
+const mainnetPublicClient = { chain: { id: 1 } } as PublicClient;
+const DELEGATION_REGISTRY_ADDRESS = DELEGATION_REGISTRY_ADDRESSES[1].v1;
+
+type V1Delegation = {
+  type_: number;
+  vault: Hex;
+  contract_?: Hex;
+  tokenId?: bigint;
+};
+type V2Delegation = {
+  type_: number;
+  from: Hex;
+  rights?: Hex;
+  contract_?: Hex;
+  tokenId?: bigint;
+};
+
+// Setup function to configure the mock for getContract for each registry
+const setupGetContractMock = ({
+  v1 = [],
+  v2 = [],
+}: {
+  v1?: V1Delegation[];
+  v2?: V2Delegation[];
+}) => {
+  (getContract as jest.Mock).mockImplementation((params) => {
+    const { address } = params as { address: Hex };
+
+    if (address === DELEGATION_REGISTRY_ADDRESS) {
+      return {
+        read: {
+          getDelegationsByDelegate: async () =>
+            v1.map((delegation) => ({
+              contract_: zeroAddress,
+              tokenId: BigInt(0),
+              ...delegation,
+              delegate: DELEGATE_TEST_ADDRESS,
+            })),
+        },
+      };
+    }
+
+    if (address === DELEGATE_REGISTRY_V2_ADDRESS) {
+      return {
+        read: {
+          getIncomingDelegations: async () =>
+            v2.map((delegation) => ({
+              rights: zeroHash,
+              contract_: zeroAddress,
+              tokenId: BigInt(0),
+              amount: BigInt(0),
+              ...delegation,
+              to: DELEGATE_TEST_ADDRESS,
+            })),
+        },
+      };
+    }
+
+    throw new Error(`Unexpected registry address ${address}`);
   });
 };
 
@@ -25,35 +96,244 @@ describe("getDelegateVault", () => {
   });
 
   it("should return the vault address when the user has delegated", async () => {
-    setupGetContractMock([{ vault: FAKE_VAULT_ADDRESS }]);
+    setupGetContractMock({ v1: [{ type_: 1, vault: FAKE_VAULT_ADDRESS }] });
 
     const vaults = await getDelegateVaults(
-      {} as PublicClient,
+      mainnetPublicClient,
       DELEGATE_TEST_ADDRESS
     );
     expect(vaults).toEqual([FAKE_VAULT_ADDRESS]);
   });
 
-  it("returns 2 vaults when the user is a delegate for 2 vaults", async () => {
-    setupGetContractMock([
-      { vault: FAKE_VAULT_ADDRESS },
-      { vault: FAKE_VAULT_ADDRESS_2 },
-    ]);
+  it("returns vaults delegated in both the v1 and v2 registries", async () => {
+    setupGetContractMock({
+      v1: [{ type_: 1, vault: FAKE_VAULT_ADDRESS }],
+      v2: [{ type_: 1, from: FAKE_VAULT_ADDRESS_2 }],
+    });
 
     const vaults = await getDelegateVaults(
-      {} as PublicClient,
+      mainnetPublicClient,
       DELEGATE_TEST_ADDRESS
     );
-    expect(vaults).toHaveLength(2);
+    expect(vaults).toEqual([FAKE_VAULT_ADDRESS, FAKE_VAULT_ADDRESS_2]);
+  });
+
+  it("returns each vault once when it has several delegations", async () => {
+    setupGetContractMock({
+      v1: [
+        { type_: 1, vault: FAKE_VAULT_ADDRESS },
+        {
+          type_: 2,
+          vault: FAKE_VAULT_ADDRESS,
+          contract_: CORE_CONTRACT_ADDRESS,
+        },
+      ],
+      v2: [{ type_: 1, from: FAKE_VAULT_ADDRESS }],
+    });
+
+    const vaults = await getDelegateVaults(
+      mainnetPublicClient,
+      DELEGATE_TEST_ADDRESS
+    );
+    expect(vaults).toEqual([FAKE_VAULT_ADDRESS]);
   });
 
   it("should return empty array when the user has not delegated", async () => {
-    setupGetContractMock([]);
+    setupGetContractMock({});
 
     const vaults = await getDelegateVaults(
-      {} as PublicClient,
+      mainnetPublicClient,
       DELEGATE_TEST_ADDRESS
     );
     expect(vaults).toEqual([]);
   });
 });
+
+describe("getDelegations", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("returns wallet, contract and token scoped delegations from both registries", async () => {
+    setupGetContractMock({
+      v1: [
+        { type_: 1, vault: FAKE_VAULT_ADDRESS },
+        {
+          type_: 2,
+          vault: FAKE_VAULT_ADDRESS,
+          contract_: CORE_CONTRACT_ADDRESS,
+        },
+      ],
+      v2: [
+        {
+          type_: 3,
+          from: FAKE_VAULT_ADDRESS_2,
+          contract_: CORE_CONTRACT_ADDRESS,
+          tokenId: BigInt(7),
+        },
+      ],
+    });
+
+    const delegations = await getDelegations(
+      mainnetPublicClient,
+      DELEGATE_TEST_ADDRESS
+    );
+    expect(delegations).toEqual([
+      {
+        registryVersion: DELEGATION_REGISTRY_VERSION.V1,
+        registryAddress: DELEGATION_REGISTRY_ADDRESS,
+        scope: DELEGATION_SCOPE.Wallet,
+        vault: FAKE_VAULT_ADDRESS,
+        contract: undefined,
+        tokenId: undefined,
+      },
+      {
+        registryVersion: DELEGATION_REGISTRY_VERSION.V1,
+        registryAddress: DELEGATION_REGISTRY_ADDRESS,
+        scope: DELEGATION_SCOPE.Contract,
+        vault: FAKE_VAULT_ADDRESS,
+        contract: CORE_CONTRACT_ADDRESS,
+        tokenId: undefined,
+      },
+      {
+        registryVersion: DELEGATION_REGISTRY_VERSION.V2,
+        registryAddress: DELEGATE_REGISTRY_V2_ADDRESS,
+        scope: DELEGATION_SCOPE.Token,
+        vault: FAKE_VAULT_ADDRESS_2,
+        contract: CORE_CONTRACT_ADDRESS,
+        tokenId: BigInt(7),
+      },
+    ]);
+  });
+
+  it("ignores v2 delegations with specific rights or for fungible tokens", async () => {
+    setupGetContractMock({
+      v2: [
+        {
+          type_: 1,
+          from: FAKE_VAULT_ADDRESS,
+          rights: `0x${"1".padStart(64, "0")}`,
+        },
+        { type_: 4, from: FAKE_VAULT_ADDRESS_2 },
+        { type_: 5, from: FAKE_VAULT_ADDRESS_2 },
+      ],
+    });
+
+    const delegations = await getDelegations(
+      mainnetPublicClient,
+      DELEGATE_TEST_ADDRESS
+    );
+    expect(delegations).toEqual([]);
+  });
+
+  it("reads the chain id from the public client when it has no chain", async () => {
+    setupGetContractMock({ v1: [{ type_: 1, vault: FAKE_VAULT_ADDRESS }] });
+    const publicClient = {
+      getChainId: jest.fn(async () => 8453),
+    } as unknown as PublicClient;
+
+    const delegations = await getDelegations(
+      publicClient,
+      DELEGATE_TEST_ADDRESS
+    );
+    expect(publicClient.getChainId).toHaveBeenCalled();
+    expect(delegations).toHaveLength(1);
+  });
+
+  it("returns no delegations on chains without a registry", async () => {
+    setupGetContractMock({ v1: [{ type_: 1, vault: FAKE_VAULT_ADDRESS }] });
+
+    const delegations = await getDelegations(
+      { chain: { id: 31337 } } as PublicClient,
+      DELEGATE_TEST_ADDRESS
+    );
+    expect(delegations).toEqual([]);
+    expect(getContract).not.toHaveBeenCalled();
+  });
+});
+
+describe("getDelegationRegistryAddresses", () => {
+  it("returns the v1 and v2 registries for supported chains", () => {
+    expect(getDelegationRegistryAddresses(42161)).toEqual({
+      v1: "0x00000000000076A84feF008CDAbe6409d2FE638B",
+      v2: DELEGATE_REGISTRY_V2_ADDRESS,
+    });
+    expect(getDelegationRegistryAddresses(31337)).toBeUndefined();
+  });
+});
+
+describe("isDelegationValidFor", () => {
+  const delegation = (overrides: Partial<Delegation>): Delegation => ({
+    registryVersion: DELEGATION_REGISTRY_VERSION.V1,
+    registryAddress: DELEGATION_REGISTRY_ADDRESS,
+    scope: DELEGATION_SCOPE.Wallet,
+    vault: FAKE_VAULT_ADDRESS,
+    ...overrides,
+  });
+
+  it("accepts wallet delegations for any contract", () => {
+    expect(
+      isDelegationValidFor(delegation({}), {
+        contract: CORE_CONTRACT_ADDRESS,
+        tokenId: BigInt(1),
+      })
+    ).toBe(true);
+  });
+
+  it("only accepts contract delegations for their contract", () => {
+    const contractDelegation = delegation({
+      scope: DELEGATION_SCOPE.Contract,
+      contract: CORE_CONTRACT_ADDRESS,
+    });
+
+    expect(
+      isDelegationValidFor(contractDelegation, {
+        contract: CORE_CONTRACT_ADDRESS.toLowerCase() as Hex,
+      })
+    ).toBe(true);
+    expect(
+      isDelegationValidFor(contractDelegation, {
+        contract: OTHER_CONTRACT_ADDRESS,
+      })
+    ).toBe(false);
+  });
+
+  it("only accepts token delegations for their token", () => {
+    const tokenDelegation = delegation({
+      scope: DELEGATION_SCOPE.Token,
+      contract: CORE_CONTRACT_ADDRESS,
+      tokenId: BigInt(7),
+    });
+
+    expect(
+      isDelegationValidFor(tokenDelegation, {
+        contract: CORE_CONTRACT_ADDRESS,
+        tokenId: BigInt(7),
+      })
+    ).toBe(true);
+    expect(
+      isDelegationValidFor(tokenDelegation, {
+        contract: CORE_CONTRACT_ADDRESS,
+        tokenId: BigInt(8),
+      })
+    ).toBe(false);
+    expect(
+      isDelegationValidFor(tokenDelegation, { contract: CORE_CONTRACT_ADDRESS })
+    ).toBe(false);
+  });
+
+  it("rejects delegations from a registry the minter does not check", () => {
+    expect(
+      isDelegationValidFor(
+        delegation({
+          registryVersion: DELEGATION_REGISTRY_VERSION.V2,
+          registryAddress: DELEGATE_REGISTRY_V2_ADDRESS,
+        }),
+        {
+          registryAddress: DELEGATION_REGISTRY_ADDRESS,
+          contract: CORE_CONTRACT_ADDRESS,
+        }
+      )
+    ).toBe(false);
+  });
+});
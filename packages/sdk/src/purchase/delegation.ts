@@ -1,12 +1,204 @@
-import { PublicClient, getContract, Hex } from "viem";
+import { PublicClient, getContract, Hex, zeroHash } from "viem";
 import { iDelegationRegistryAbi } from "../../abis/iDelegationRegistryAbi";
-import { DELEGATION_REGISTRY_ADDRESS } from "../utils/addresses";
+import { iDelegateRegistryAbi } from "../../abis/iDelegateRegistryAbi";
+import { DELEGATION_REGISTRY_ADDRESSES } from "../utils/addresses";
+
+export const DELEGATION_REGISTRY_VERSION = {
+  V1: "v1",
+  V2: "v2",
+} as const;
+
+export type DelegationRegistryVersion =
+  (typeof DELEGATION_REGISTRY_VERSION)[keyof typeof DELEGATION_REGISTRY_VERSION];
+
+export const DELEGATION_SCOPE = {
+  Wallet: "Wallet", // Delegation of the entire vault wallet
+  Contract: "Contract", // Delegation of a single contract
+  Token: "Token", // Delegation of a single token of a contract
+} as const;
+
+export type DelegationScope =
+  (typeof DELEGATION_SCOPE)[keyof typeof DELEGATION_SCOPE];
+
+export type Delegation = {
+  registryVersion: DelegationRegistryVersion;
+  registryAddress: Hex;
+  scope: DelegationScope;
+  vault: Hex;
+  // Set for contract and token scoped delegations
+  contract?: Hex;
+  // Set for token scoped delegations
+  tokenId?: bigint;
+};
+
+// Values of the `DelegationType` enum shared by the v1 and v2 registries. The
+// v2 registry also has ERC20 and ERC1155 delegations, which can't be used to
+// mint and are ignored.
+const DELEGATION_TYPE_SCOPES: Record<number, DelegationScope> = {
+  1: DELEGATION_SCOPE.Wallet,
+  2: DELEGATION_SCOPE.Contract,
+  3: DELEGATION_SCOPE.Token,
+};
+
+/**
+ * @summary Get the delegation registry addresses for a chain.
+ * @param chainId the chain id
+ * @returns the v1 and v2 registry addresses, or undefined if the chain has no
+ * supported delegation registry
+ */
+export function getDelegationRegistryAddresses(
+  chainId: number
+): { v1: Hex; v2: Hex } | undefined {
+  return DELEGATION_REGISTRY_ADDRESSES[chainId];
+}
+
+async function getV1Delegations(
+  publicClient: PublicClient,
+  registryAddress: Hex,
+  account: Hex
+): Promise<Delegation[]> {
+  const contract = getContract({
+    abi: iDelegationRegistryAbi,
+    address: registryAddress,
+    client: {
+      public: publicClient,
+    },
+  });
+  const delegations = await contract.read.getDelegationsByDelegate([account]);
+
+  return delegations.flatMap((delegation) => {
+    const scope = DELEGATION_TYPE_SCOPES[delegation.type_];
+
+    if (!scope) {
+      return [];
+    }
+
+    return [
+      {
+        registryVersion: DELEGATION_REGISTRY_VERSION.V1,
+        registryAddress,
+        scope,
+        vault: delegation.vault,
+        contract:
+          scope === DELEGATION_SCOPE.Wallet ? undefined : delegation.contract_,
+        tokenId:
+          scope === DELEGATION_SCOPE.Token ? delegation.tokenId : undefined,
+      },
+    ];
+  });
+}
+
+async function getV2Delegations(
+  publicClient: PublicClient,
+  registryAddress: Hex,
+  account: Hex
+): Promise<Delegation[]> {
+  const contract = getContract({
+    abi: iDelegateRegistryAbi,
+    address: registryAddress,
+    client: {
+      public: publicClient,
+    },
+  });
+  const delegations = await contract.read.getIncomingDelegations([account]);
+
+  return delegations.flatMap((delegation) => {
+    const scope = DELEGATION_TYPE_SCOPES[delegation.type_];
+
+    // Minters don't request specific rights, so only delegations without
+    // rights apply to them
+    if (!scope || delegation.rights !== zeroHash) {
+      return [];
+    }
+
+    return [
+      {
+        registryVersion: DELEGATION_REGISTRY_VERSION.V2,
+        registryAddress,
+        scope,
+        vault: delegation.from,
+        contract:
+          scope === DELEGATION_SCOPE.Wallet ? undefined : delegation.contract_,
+        tokenId:
+          scope === DELEGATION_SCOPE.Token ? delegation.tokenId : undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * @summary Get the delegate.xyz delegations made to an account.
+ * @description Delegations are read from both the v1 and v2 registries of the
+ * public client's chain. Wallet, contract and token scoped delegations are
+ * returned, and the scope of each must be checked against the contract and
+ * token being minted with, for example with `isDelegationValidFor`.
+ * @param publicClient to use for the contract calls
+ * @param account the delegate's wallet address
+ * @returns the delegations made to the account, or an empty array if the
+ * chain has no supported delegation registry
+ */
+export async function getDelegations(
+  publicClient: PublicClient,
+  account: Hex
+): Promise<Delegation[]> {
+  const chainId = publicClient.chain?.id ?? (await publicClient.getChainId());
+  const registryAddresses = getDelegationRegistryAddresses(chainId);
+
+  if (!registryAddresses) {
+    return [];
+  }
+
+  const [v1Delegations, v2Delegations] = await Promise.all([
+    getV1Delegations(publicClient, registryAddresses.v1, account),
+    getV2Delegations(publicClient, registryAddresses.v2, account),
+  ]);
+
+  return [...v1Delegations, ...v2Delegations];
+}
+
+/**
+ * @summary Check whether a delegation lets the delegate act for its vault.
+ * @description Matches the checks made by Art Blocks minters. A minter only
+ * reads the registry it was deployed with, and token scoped delegations only
+ * apply when a token id is checked.
+ * @param delegation the delegation to check
+ * @param target.registryAddress the registry checked by the minter
+ * @param target.contract the contract the delegation must cover
+ * @param target.tokenId the token the delegation must cover, if any
+ * @returns true if the delegation covers the target
+ */
+export function isDelegationValidFor(
+  delegation: Delegation,
+  target: { registryAddress?: Hex; contract: Hex; tokenId?: bigint }
+): boolean {
+  if (
+    target.registryAddress &&
+    target.registryAddress.toLowerCase() !==
+      delegation.registryAddress.toLowerCase()
+  ) {
+    return false;
+  }
+
+  if (delegation.scope === DELEGATION_SCOPE.Wallet) {
+    return true;
+  }
+
+  if (delegation.contract?.toLowerCase() !== target.contract.toLowerCase()) {
+    return false;
+  }
+
+  return (
+    delegation.scope === DELEGATION_SCOPE.Contract ||
+    (target.tokenId !== undefined && delegation.tokenId === target.tokenId)
+  );
+}
 
 /**
  * @summary Get the vaults for which the user is a delegate.
  * @description This function is used to retrieve the vaults for which the user is a delegate. If
  * the user has delegated to a vault, then the user will be able to mint
- * allowlisted projects from that vault.
+ * allowlisted projects from that vault. Vaults from both the v1 and v2
+ * registries are returned, whatever the scope of their delegation.
  * @param publicClient to use for the contract call
  * @param account the current user's wallet address
  * @returns array of vault addresses for which the user is a delegate
@@ -15,15 +207,7 @@ export async function getDelegateVaults(
   publicClient: PublicClient,
   account: Hex
 ): Promise<string[]> {
-  const contract = getContract({
-    abi: iDelegationRegistryAbi,
-    address: DELEGATION_REGISTRY_ADDRESS,
-    client: {
-      public: publicClient,
-    },
-  });
-  const userDelegatedVault = await contract.read.getDelegationsByDelegate([
-    account,
-  ]);
-  return userDelegatedVault.map((vault) => vault.vault);
+  const delegations = await getDelegations(publicClient, account);
+
+  return Array.from(new Set(delegations.map((delegation) => delegation.vault)));
 }
@@ -0,0 +1,47 @@
+/**
+ * @summary Error thrown when a user is not eligible to purchase from a project.
+ * @description The message contains the reason the user is ineligible, such
+ * as not being on the project's allowlist or not holding a required token.
+ */
+export class UserIneligibleForPurchaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserIneligibleForPurchaseError";
+  }
+}
+
+/**
+ * @summary Error thrown when the current token price is above the maximum
+ * price the user is willing to pay.
+ */
+export class PurchasePriceExceedsMaxPriceError extends Error {
+  tokenPriceInWei: bigint;
+  maxPrice: bigint;
+
+  constructor(tokenPriceInWei: bigint, maxPrice: bigint) {
+    super(
+      `The current token price of ${tokenPriceInWei} exceeds the maximum price of ${maxPrice}.`
+    );
+    this.name = "PurchasePriceExceedsMaxPriceError";
+    this.tokenPriceInWei = tokenPriceInWei;
+    this.maxPrice = maxPrice;
+  }
+}
+
+/**
+ * @summary Error thrown when the user's ERC-20 allowance for the project's
+ * minter is too low to cover the token price.
+ * @description The allowance must be increased by approving the minter to
+ * spend the project's currency before purchasing.
+ */
+export class InsufficientERC20AllowanceError extends Error {
+  allowance: bigint;
+
+  constructor(allowance: bigint) {
+    super(
+      "The ERC-20 allowance for this project's minter is too low to cover the token price."
+    );
+    this.name = "InsufficientERC20AllowanceError";
+    this.allowance = allowance;
+  }
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { Hex } from "viem";
+import { ArtBlocksClient } from "..";
+import {
+  InsufficientERC20AllowanceError,
+  ProjectIneligibleForPrimarySaleError,
+  PurchasePriceExceedsMaxPriceError,
+  UserIneligibleForPurchaseError,
+  getPurchaseEligibility,
+  purchase,
+  purchaseMany,
+} from ".";
+import {
+  fetchLiveSaleData,
+  fetchProjectDetails,
+  isProjectPurchasable,
+} from "../machines/project-sale-manager-machine/utils";
+import {
+  getUserPurchaseContext,
+  initiateBatchPurchase,
+  initiatePurchase,
+  isERC20AllowanceSufficient,
+} from "../machines/purchase-initiation-machine/utils";
+
+jest.mock("../machines/project-sale-manager-machine/utils", () => ({
+  ProjectIneligibleForPrimarySaleError: class extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = "ProjectIneligibleForPrimarySaleError";
+    }
+  },
+  fetchLiveSaleData: jest.fn(),
+  fetchProjectDetails: jest.fn(),
+  isProjectPurchasable: jest.fn(),
+}));
+jest.mock("../machines/purchase-initiation-machine/utils", () => ({
+  getUserPurchaseContext: jest.fn(),
+  initiateBatchPurchase: jest.fn(),
+  initiatePurchase: jest.fn(),
+  isERC20AllowanceSufficient: jest.fn(),
+}));
+jest.mock("../machines/utils", () => ({
+  isSupportedMinterType: (minterType: string) =>
+    minterType === "MinterSetPriceV5",
+}));
+
+const USER_ADDRESS: Hex = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+const PROJECT_ID = "0x99a9b7c1116f9ceeb1652de04d5969cce509b069-0";
+const TX_HASH: Hex = "0x1234";
+
+const mockProject = {
+  id: PROJECT_ID,
+  minter_configuration: {
+    minter: {
+      address: "0xa2ccfe293bc2cdd78d8166a82d1e18cd2148122b",
+      minter_type: "MinterSetPriceV5",
+    },
+  },
+};
+
+const mockLiveSaleData = {
+  tokenPriceInWei: BigInt(100),
+  isConfigured: true,
+};
+
+const artblocksClient = {
+  getWalletClient: () => ({ account: { address: USER_ADDRESS } }),
+} as unknown as ArtBlocksClient;
+
+describe("purchase", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchProjectDetails as jest.Mock).mockResolvedValue(mockProject);
+    (fetchLiveSaleData as jest.Mock).mockResolvedValue(mockLiveSaleData);
+    (isProjectPurchasable as jest.Mock).mockReturnValue(true);
+    (getUserPurchaseContext as jest.Mock).mockResolvedValue({
+      isEligible: true,
+    });
+    (isERC20AllowanceSufficient as jest.Mock).mockReturnValue(true);
+    (initiatePurchase as jest.Mock).mockResolvedValue(TX_HASH);
+  });
+
+  it("initiates the purchase with the live sale data, recipient and max price", async () => {
+    const txHash = await purchase({
+      artblocksClient,
+      projectId: PROJECT_ID,
+      options: { to: USER_ADDRESS, maxPrice: BigInt(100) },
+    });
+
+    expect(txHash).toBe(TX_HASH);
+    expect(initiatePurchase).toHaveBeenCalledWith({
+      artblocksClient,
+      project: mockProject,
+      liveSaleData: mockLiveSaleData,
+      purchaseToAddress: USER_ADDRESS,
+      maxPrice: BigInt(100),
+      additionalPurchaseData: undefined,
+    });
+  });
+
+  it("throws ProjectIneligibleForPrimarySaleError for unsupported minters", async () => {
+    (fetchProjectDetails as jest.Mock).mockResolvedValue({
+      ...mockProject,
+      minter_configuration: {
+        minter: { ...mockProject.minter_configuration.minter, minter_type: "" },
+      },
+    });
+
+    await expect(
+      purchase({ artblocksClient, projectId: PROJECT_ID })
+    ).rejects.toThrow(ProjectIneligibleForPrimarySaleError);
+    expect(initiatePurchase).not.toHaveBeenCalled();
+  });
+
+  it("throws ProjectIneligibleForPrimarySaleError when the project is not purchasable", async () => {
+    (isProjectPurchasable as jest.Mock).mockReturnValue(false);
+
+    await expect(
+      purchase({ artblocksClient, projectId: PROJECT_ID })
+    ).rejects.toThrow("Project is not currently available for purchase");
+  });
+
+  it("propagates PurchasePriceExceedsMaxPriceError from the price check at submission", async () => {
+    (initiatePurchase as jest.Mock).mockRejectedValue(
+      new PurchasePriceExceedsMaxPriceError(BigInt(100), BigInt(99))
+    );
+
+    await expect(
+      purchase({
+        artblocksClient,
+        projectId: PROJECT_ID,
+        options: { maxPrice: BigInt(99) },
+      })
+    ).rejects.toThrow(PurchasePriceExceedsMaxPriceError);
+  });
+
+  it("throws UserIneligibleForPurchaseError with the ineligibility reason", async () => {
+    (getUserPurchaseContext as jest.Mock).mockResolvedValue({
+      isEligible: false,
+      ineligibilityReason: "Not on the allowlist",
+    });
+
+    const result = purchase({ artblocksClient, projectId: PROJECT_ID });
+
+    await expect(result).rejects.toThrow(UserIneligibleForPurchaseError);
+    await expect(result).rejects.toThrow("Not on the allowlist");
+  });
+
+  it("throws InsufficientERC20AllowanceError when the allowance is too low", async () => {
+    (isERC20AllowanceSufficient as jest.Mock).mockReturnValue(false);
+
+    await expect(
+      purchase({ artblocksClient, projectId: PROJECT_ID })
+    ).rejects.toThrow(InsufficientERC20AllowanceError);
+  });
+});
+
+describe("purchaseMany", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchProjectDetails as jest.Mock).mockResolvedValue(mockProject);
+    (fetchLiveSaleData as jest.Mock).mockResolvedValue(mockLiveSaleData);
+    (isProjectPurchasable as jest.Mock).mockReturnValue(true);
+    (getUserPurchaseContext as jest.Mock).mockResolvedValue({
+      isEligible: true,
+    });
+    (isERC20AllowanceSufficient as jest.Mock).mockReturnValue(true);
+  });
+
+  it("initiates a batch purchase with the quantity and progress callback", async () => {
+    const transactions = [{ txHash: TX_HASH, mintCount: 2 }];
+    (initiateBatchPurchase as jest.Mock).mockResolvedValue(transactions);
+    const onTransactionSubmitted = jest.fn();
+
+    await expect(
+      purchaseMany({
+        artblocksClient,
+        projectId: PROJECT_ID,
+        quantity: 2,
+        onTransactionSubmitted,
+      })
+    ).resolves.toBe(transactions);
+    expect(initiateBatchPurchase).toHaveBeenCalledWith({
+      artblocksClient,
+      project: mockProject,
+      liveSaleData: mockLiveSaleData,
+      additionalPurchaseData: undefined,
+      purchaseToAddress: undefined,
+      maxPrice: undefined,
+      quantity: 2,
+      onTransactionSubmitted,
+    });
+  });
+
+  it("throws UserIneligibleForPurchaseError before submitting any purchases", async () => {
+    (getUserPurchaseContext as jest.Mock).mockResolvedValue({
+      isEligible: false,
+      ineligibilityReason: "You have no remaining mints available",
+    });
+
+    await expect(
+      purchaseMany({ artblocksClient, projectId: PROJECT_ID, quantity: 2 })
+    ).rejects.toThrow(UserIneligibleForPurchaseError);
+    expect(initiateBatchPurchase).not.toHaveBeenCalled();
+  });
+});
+
+describe("getPurchaseEligibility", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchProjectDetails as jest.Mock).mockResolvedValue(mockProject);
+  });
+
+  it("checks eligibility for the provided account", async () => {
+    const userPurchaseContext = { isEligible: true };
+    (getUserPurchaseContext as jest.Mock).mockResolvedValue(
+      userPurchaseContext
+    );
+
+    await expect(
+      getPurchaseEligibility({
+        artblocksClient,
+        projectId: PROJECT_ID,
+        userAddress: USER_ADDRESS,
+      })
+    ).resolves.toBe(userPurchaseContext);
+    expect(getUserPurchaseContext).toHaveBeenCalledWith({
+      artblocksClient,
+      project: mockProject,
+      userAddress: USER_ADDRESS,
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { Hex } from "viem";
+import { ArtBlocksClient } from "..";
+import {
+  LiveSaleData,
+  ProjectDetails,
+  ProjectIneligibleForPrimarySaleError,
+  fetchLiveSaleData,
+  fetchProjectDetails,
+  isProjectPurchasable,
+} from "../machines/project-sale-manager-machine/utils";
+import {
+  BatchPurchaseTransaction,
+  InitiatePurchaseInput,
+  getUserPurchaseContext,
+  initiateBatchPurchase,
+  initiatePurchase,
+  isERC20AllowanceSufficient,
+} from "../machines/purchase-initiation-machine/utils";
+import { UserPurchaseContext } from "../machines/purchase-initiation-machine";
+import { isSupportedMinterType } from "../machines/utils";
+import { AllowlistEntryDoesNotExist } from "./allowlist";
+import {
+  InsufficientERC20AllowanceError,
+  PurchasePriceExceedsMaxPriceError,
+  UserIneligibleForPurchaseError,
+} from "./errors";
+
+export type PurchaseOptions = {
+  // Address to mint the token to, defaults to the purchasing account
+  to?: Hex;
+  // Maximum token price in wei (or the ERC-20 base unit) the user will pay
+  maxPrice?: bigint;
+};
+
+async function getProjectWithSupportedMinter(
+  artblocksClient: ArtBlocksClient,
+  projectId: string
+): Promise<NonNullable<ProjectDetails>> {
+  const project = await fetchProjectDetails({ projectId, artblocksClient });
+
+  if (
+    !project.minter_configuration?.minter ||
+    !isSupportedMinterType(project.minter_configuration.minter.minter_type)
+  ) {
+    throw new ProjectIneligibleForPrimarySaleError(
+      "Project is not configured with a supported minter"
+    );
+  }
+
+  return project;
+}
+
+/**
+ * @summary Get live sale data for a project.
+ * @description Fetches the project's current price, invocations and sale
+ * state directly from its minter and core contracts.
+ * @param params.artblocksClient client to use for requests
+ * @param params.projectId ID of the project, e.g. `0x...-0`
+ * @returns the live sale data for the project
+ * @throws {ProjectIneligibleForPrimarySaleError} if the project does not use
+ * a supported minter
+ */
+export async function getLiveSaleData({
+  artblocksClient,
+  projectId,
+}: {
+  artblocksClient: ArtBlocksClient;
+  projectId: string;
+}): Promise<LiveSaleData> {
+  const project = await getProjectWithSupportedMinter(
+    artblocksClient,
+    projectId
+  );
+
+  return await fetchLiveSaleData({ project, artblocksClient });
+}
+
+/**
+ * @summary Check whether an account is eligible to purchase from a project.
+ * @description Runs the same minter specific eligibility checks as the
+ * purchase machines, e.g. allowlist membership, token ownership and
+ * remaining mints, including any delegate.xyz vaults of the account.
+ * @param params.artblocksClient client to use for requests
+ * @param params.projectId ID of the project, e.g. `0x...-0`
+ * @param params.userAddress account to check, defaults to the connected wallet
+ * @returns the account's eligibility and any additional purchase data
+ * @throws {ProjectIneligibleForPrimarySaleError} if the project does not use
+ * a supported minter
+ */
+export async function getPurchaseEligibility({
+  artblocksClient,
+  projectId,
+  userAddress,
+}: {
+  artblocksClient: ArtBlocksClient;
+  projectId: string;
+  userAddress?: Hex;
+}): Promise<UserPurchaseContext> {
+  const project = await getProjectWithSupportedMinter(
+    artblocksClient,
+    projectId
+  );
+
+  return await getUserPurchaseContext({
+    artblocksClient,
+    project,
+    userAddress,
+  });
+}
+
+async function preparePurchase(
+  artblocksClient: ArtBlocksClient,
+  projectId: string
+): Promise<
+  Pick<
+    InitiatePurchaseInput,
+    "project" | "liveSaleData" | "additionalPurchaseData"
+  >
+> {
+  if (!artblocksClient.getWalletClient()?.account) {
+    throw new Error("A walletClient with an account is required to purchase");
+  }
+
+  const project = await getProjectWithSupportedMinter(
+    artblocksClient,
+    projectId
+  );
+  const liveSaleData = await fetchLiveSaleData({ project, artblocksClient });
+
+  if (!liveSaleData.isConfigured) {
+    throw new ProjectIneligibleForPrimarySaleError(
+      "Project is not configured for sale"
+    );
+  }
+
+  if (!isProjectPurchasable({ artblocksClient, project, liveSaleData })) {
+    throw new ProjectIneligibleForPrimarySaleError(
+      "Project is not currently available for purchase"
+    );
+  }
+
+  const userPurchaseContext = await getUserPurchaseContext({
+    artblocksClient,
+    project,
+  });
+
+  if (!userPurchaseContext.isEligible) {
+    throw new UserIneligibleForPurchaseError(
+      userPurchaseContext.ineligibilityReason
+    );
+  }
+
+  const { additionalPurchaseData } = userPurchaseContext;
+
+  if (
+    !isERC20AllowanceSufficient(project, additionalPurchaseData?.erc20Allowance)
+  ) {
+    throw new InsufficientERC20AllowanceError(
+      additionalPurchaseData?.erc20Allowance ?? BigInt(0)
+    );
+  }
+
+  return { project, liveSaleData, additionalPurchaseData };
+}
+
+/**
+ * @summary Purchase a token from a project.
+ * @description Checks that the project is available for purchase and that
+ * the connected wallet is eligible, then submits the purchase transaction
+ * using the minter specific purchase flow.
+ * @param params.artblocksClient client to use for requests, must have a
+ * wallet client with an account
+ * @param params.projectId ID of the project, e.g. `0x...-0`
+ * @param params.options optional recipient and maximum price
+ * @returns the hash of the submitted purchase transaction
+ * @throws {ProjectIneligibleForPrimarySaleError} if the project is not
+ * available for purchase
+ * @throws {PurchasePriceExceedsMaxPriceError} if the minter's price at
+ * submission time is above `options.maxPrice`
+ * @throws {UserIneligibleForPurchaseError} if the wallet is not eligible to
+ * purchase
+ * @throws {InsufficientERC20AllowanceError} if the wallet's ERC-20 allowance
+ * is too low
+ * @throws {AllowlistEntryDoesNotExist} if the wallet is missing from the
+ * project's allowlist
+ */
+export async function purchase({
+  artblocksClient,
+  projectId,
+  options = {},
+}: {
+  artblocksClient: ArtBlocksClient;
+  projectId: string;
+  options?: PurchaseOptions;
+}): Promise<Hex> {
+  const purchaseInput = await preparePurchase(artblocksClient, projectId);
+
+  return await initiatePurchase({
+    artblocksClient,
+    ...purchaseInput,
+    purchaseToAddress: options.to,
+    maxPrice: options.maxPrice,
+  });
+}
+
+/**
+ * @summary Purchase multiple tokens from a project.
+ * @description Runs the same checks as `purchase`, then purchases `quantity`
+ * tokens in one EIP-5792 batch of calls if the wallet supports atomic
+ * batching, or one transaction at a time otherwise. Only fixed price minters
+ * support batch purchases.
+ * @param params.artblocksClient client to use for requests, must have a
+ * wallet client with an account
+ * @param params.projectId ID of the project, e.g. `0x...-0`
+ * @param params.quantity number of tokens to purchase
+ * @param params.options optional recipient and maximum price
+ * @param params.onTransactionSubmitted optional callback invoked as each
+ * purchase transaction is submitted
+ * @returns the submitted purchase transactions and the number of tokens each
+ * one mints
+ * @throws {ProjectIneligibleForPrimarySaleError} if the project is not
+ * available for purchase
+ * @throws {PurchasePriceExceedsMaxPriceError} if the minter's price at
+ * submission time is above `options.maxPrice`
+ * @throws {UserIneligibleForPurchaseError} if the wallet is not eligible to
+ * purchase
+ */
+export async function purchaseMany({
+  artblocksClient,
+  projectId,
+  quantity,
+  options = {},
+  onTransactionSubmitted,
+}: {
+  artblocksClient: ArtBlocksClient;
+  projectId: string;
+  quantity: number;
+  options?: PurchaseOptions;
+  onTransactionSubmitted?: (transaction: BatchPurchaseTransaction) => void;
+}): Promise<Array<BatchPurchaseTransaction>> {
+  const purchaseInput = await preparePurchase(artblocksClient, projectId);
+
+  return await initiateBatchPurchase({
+    artblocksClient,
+    ...purchaseInput,
+    purchaseToAddress: options.to,
+    maxPrice: options.maxPrice,
+    quantity,
+    onTransactionSubmitted,
+  });
+}
+
+export {
+  type BatchPurchaseTransaction,
+  AllowlistEntryDoesNotExist,
+  InsufficientERC20AllowanceError,
+  ProjectIneligibleForPrimarySaleError,
+  PurchasePriceExceedsMaxPriceError,
+  UserIneligibleForPurchaseError,
+};
@@ -0,0 +1,19 @@
+export {
+  ArtBlocksProvider,
+  useArtBlocksClient,
+  useArtBlocksClientUpdates,
+} from "./provider";
+export type { ArtBlocksProviderProps } from "./provider";
+export { useProjectSale } from "./use-project-sale";
+export type {
+  ProjectSaleManagerMachineActorRef,
+  UseProjectSaleOptions,
+} from "./use-project-sale";
+export { useRamBid } from "./use-ram-bid";
+export {
+  useSettlementClaim,
+  useSettlementClaims,
+} from "./use-settlement-claims";
+export type { ExcessSettlementFundsClaimMachineActorRef } from "./use-settlement-claims";
+export { useMinterConfigForms } from "./use-minter-config-forms";
+export { parseSerializedSnapshot, syncArtBlocksClient } from "./utils";
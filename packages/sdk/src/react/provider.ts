@@ -0,0 +1,98 @@
+import {
+  ReactNode,
+  createContext,
+  createElement,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { PublicClient, WalletClient } from "viem";
+import { usePublicClient, useWalletClient } from "wagmi";
+import { AnyActorRef } from "xstate";
+import type { ArtBlocksClient } from "..";
+import { syncArtBlocksClient } from "./utils";
+
+type ArtBlocksContextValue = {
+  artblocksClient: ArtBlocksClient;
+  // Incremented whenever the clients of the ArtBlocksClient are updated, so
+  // hooks can notify the machines they run
+  clientsVersion: number;
+};
+
+const ArtBlocksContext = createContext<ArtBlocksContextValue | null>(null);
+
+export type ArtBlocksProviderProps = {
+  artblocksClient: ArtBlocksClient;
+  // Whether the public client follows the chain wagmi is connected to. Turn
+  // this off for clients created with `publicClients` for several chains,
+  // which pick the public client of each project's chain themselves.
+  syncPublicClient?: boolean;
+  children?: ReactNode;
+};
+
+/**
+ * Provides an ArtBlocksClient to the hooks, keeping its public and wallet
+ * clients in sync with the ones provided by wagmi. Must be rendered inside
+ * wagmi's `WagmiProvider`.
+ */
+export function ArtBlocksProvider({
+  artblocksClient,
+  syncPublicClient = true,
+  children,
+}: ArtBlocksProviderProps) {
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const [clientsVersion, setClientsVersion] = useState(0);
+
+  useEffect(() => {
+    const changed = syncArtBlocksClient(artblocksClient, {
+      publicClient: syncPublicClient
+        ? (publicClient as PublicClient | undefined)
+        : undefined,
+      walletClient: walletClient as WalletClient | undefined,
+    });
+
+    if (changed) {
+      setClientsVersion((version) => version + 1);
+    }
+  }, [artblocksClient, syncPublicClient, publicClient, walletClient]);
+
+  const value = useMemo(
+    () => ({ artblocksClient, clientsVersion }),
+    [artblocksClient, clientsVersion]
+  );
+
+  return createElement(ArtBlocksContext.Provider, { value }, children);
+}
+
+function useArtBlocksContext(): ArtBlocksContextValue {
+  const value = useContext(ArtBlocksContext);
+
+  if (!value) {
+    throw new Error(
+      "Art Blocks hooks must be used within an ArtBlocksProvider"
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Returns the ArtBlocksClient provided by the nearest ArtBlocksProvider.
+ */
+export function useArtBlocksClient(): ArtBlocksClient {
+  return useArtBlocksContext().artblocksClient;
+}
+
+/**
+ * Sends an `ART_BLOCKS_CLIENT_UPDATED` event to a machine whenever the
+ * provider updates the clients of the ArtBlocksClient.
+ */
+export function useArtBlocksClientUpdates(actorRef: AnyActorRef) {
+  const { artblocksClient, clientsVersion } = useArtBlocksContext();
+
+  useEffect(() => {
+    actorRef.send({ type: "ART_BLOCKS_CLIENT_UPDATED", artblocksClient });
+  }, [actorRef, artblocksClient, clientsVersion]);
+}
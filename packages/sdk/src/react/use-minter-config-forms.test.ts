@@ -0,0 +1,159 @@
+/**
+ * @jest-environment ./src/test-env.ts
+ */
+import { describe, it, expect, jest } from "@jest/globals";
+import { createElement, ReactNode } from "react";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import type { ArtBlocksClient } from "..";
+import { ProjectMinterConfigurationUpdate } from "../minter-configuration/types";
+import { FormBlueprint } from "../types";
+import { ArtBlocksProvider } from "./provider";
+import { useMinterConfigForms } from "./use-minter-config-forms";
+
+jest.mock("wagmi", () => ({
+  usePublicClient: () => undefined,
+  useWalletClient: () => ({ data: undefined }),
+}));
+
+jest.mock("../machines/utils", () => ({
+  getMessageFromError: (error: Error) => error.message,
+}));
+
+const PROJECT_ID = "0xa7d8d9ef8d8ce8992df33d8b8cf4aebabd5bd270-3";
+
+function createForm(key: string) {
+  return { key } as unknown as FormBlueprint;
+}
+
+// A configuration context whose refresh notifies subscribers, like the one
+// returned by getProjectMinterConfigurationContext
+function createConfigurationContext(forms: FormBlueprint[]) {
+  let subscribers: Array<(config: ProjectMinterConfigurationUpdate) => void> =
+    [];
+  const notifySubscribers = (config: ProjectMinterConfigurationUpdate) => {
+    for (const subscriber of subscribers) {
+      subscriber(config);
+    }
+  };
+
+  return {
+    data: null,
+    forms,
+    notifySubscribers,
+    refresh: jest.fn(async () => {
+      const updatedConfig = {
+        data: null,
+        forms: [...forms, createForm("refreshed")],
+      };
+      notifySubscribers(updatedConfig);
+      return updatedConfig;
+    }),
+    submitMany: jest.fn(async () => undefined),
+    subscribe: jest.fn(
+      (subscriber: (config: ProjectMinterConfigurationUpdate) => void) => {
+        subscribers.push(subscriber);
+        return () => {
+          subscribers = subscribers.filter((s) => s !== subscriber);
+        };
+      }
+    ),
+  };
+}
+
+function renderUseMinterConfigForms(
+  getProjectMinterConfigurationContext: () => Promise<unknown>
+) {
+  const artblocksClient = {
+    getProjectMinterConfigurationContext,
+    getWalletClient: () => undefined,
+  } as unknown as ArtBlocksClient;
+  const wrapper = ({ children }: { children: ReactNode }) =>
+    createElement(ArtBlocksProvider, { artblocksClient }, children);
+
+  return renderHook(() => useMinterConfigForms(PROJECT_ID), { wrapper });
+}
+
+describe("useMinterConfigForms", () => {
+  it("loads the project's forms", async () => {
+    const configurationContext = createConfigurationContext([
+      createForm("setMinterForProject"),
+    ]);
+    const { result } = renderUseMinterConfigForms(
+      async () => configurationContext
+    );
+
+    expect(result.current.isLoading).toBe(true);
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.forms.map(({ key }) => key)).toEqual([
+      "setMinterForProject",
+    ]);
+  });
+
+  it("re-renders with the regenerated forms when refreshed", async () => {
+    const configurationContext = createConfigurationContext([
+      createForm("setMinterForProject"),
+    ]);
+    const { result } = renderUseMinterConfigForms(
+      async () => configurationContext
+    );
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() => result.current.refresh());
+
+    expect(configurationContext.refresh).toHaveBeenCalledTimes(1);
+    expect(result.current.forms.map(({ key }) => key)).toEqual([
+      "setMinterForProject",
+      "refreshed",
+    ]);
+  });
+
+  it("re-renders when the forms change elsewhere", async () => {
+    const configurationContext = createConfigurationContext([]);
+    const { result } = renderUseMinterConfigForms(
+      async () => configurationContext
+    );
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    act(() =>
+      configurationContext.notifySubscribers({
+        data: null,
+        forms: [createForm("updatePricePerTokenInWei")],
+        changes: [],
+      })
+    );
+
+    expect(result.current.forms.map(({ key }) => key)).toEqual([
+      "updatePricePerTokenInWei",
+    ]);
+  });
+
+  it("unsubscribes when unmounted", async () => {
+    const unsubscribe = jest.fn();
+    const configurationContext = {
+      ...createConfigurationContext([]),
+      subscribe: jest.fn(() => unsubscribe),
+    };
+    const { result, unmount } = renderUseMinterConfigForms(
+      async () => configurationContext
+    );
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    unmount();
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the error message when the forms can't be loaded", async () => {
+    const { result } = renderUseMinterConfigForms(async () => {
+      throw new Error("Project not found");
+    });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.errorMessage).toBe("Project not found");
+    expect(result.current.forms).toEqual([]);
+    await expect(
+      result.current.submitMany([], {}, { mode: { type: "eip5792" } })
+    ).rejects.toThrow("Minter configuration forms are not loaded yet");
+  });
+});
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ArtBlocksClient } from "..";
+import { FormBlueprint } from "../types";
+import { ProjectMinterConfigurationData } from "../minter-configuration/types";
+import { getMessageFromError } from "../machines/utils";
+import { useArtBlocksClient } from "./provider";
+
+type ProjectMinterConfigurationContext = Awaited<
+  ReturnType<ArtBlocksClient["getProjectMinterConfigurationContext"]>
+>;
+
+type MinterConfigFormsState = {
+  data?: ProjectMinterConfigurationData;
+  forms: FormBlueprint[];
+  isLoading: boolean;
+  errorMessage?: string;
+};
+
+/**
+ * Loads the minter configuration forms of a project with
+ * `getProjectMinterConfigurationContext` and re-renders whenever the forms
+ * change, e.g. after a form is submitted and the change is indexed.
+ *
+ * @param projectId - The ID of the project, in the form `<core contract address>-<project index>`.
+ * @returns The project's minter configuration, its forms and methods to refresh them and submit several of them in one batch.
+ */
+export function useMinterConfigForms(projectId: string) {
+  const artblocksClient = useArtBlocksClient();
+  const configurationContextRef =
+    useRef<ProjectMinterConfigurationContext | null>(null);
+  const [state, setState] = useState<MinterConfigFormsState>({
+    forms: [],
+    isLoading: true,
+  });
+
+  useEffect(() => {
+    let isCancelled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    setState({ forms: [], isLoading: true });
+
+    artblocksClient
+      .getProjectMinterConfigurationContext(projectId)
+      .then((configurationContext) => {
+        if (isCancelled) {
+          return;
+        }
+
+        configurationContextRef.current = configurationContext;
+        setState({
+          data: configurationContext.data,
+          forms: configurationContext.forms,
+          isLoading: false,
+        });
+        unsubscribe = configurationContext.subscribe(({ data, forms }) => {
+          setState({ data, forms, isLoading: false });
+        });
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setState({
+            forms: [],
+            isLoading: false,
+            errorMessage: getMessageFromError(error),
+          });
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+      configurationContextRef.current = null;
+      unsubscribe?.();
+    };
+  }, [artblocksClient, projectId]);
+
+  const refresh = useCallback(async () => {
+    await configurationContextRef.current?.refresh();
+  }, []);
+
+  const submitMany = useCallback(
+    async (
+      ...args: Parameters<ProjectMinterConfigurationContext["submitMany"]>
+    ) => {
+      if (!configurationContextRef.current) {
+        throw new Error("Minter configuration forms are not loaded yet");
+      }
+
+      await configurationContextRef.current.submitMany(...args);
+    },
+    []
+  );
+
+  return { ...state, refresh, submitMany };
+}
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment ./src/test-env.ts
+ */
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+import { createElement, ReactNode } from "react";
+import { renderHook, waitFor } from "@testing-library/react";
+import type { ArtBlocksClient } from "..";
+import { deserializeSnapshot } from "../machines/project-sale-manager-machine";
+import { ArtBlocksProvider } from "./provider";
+import { useProjectSale } from "./use-project-sale";
+
+jest.mock("wagmi", () => ({
+  usePublicClient: () => undefined,
+  useWalletClient: () => ({ data: undefined }),
+}));
+
+// Stands in for the ProjectSaleManagerMachine, recording the events it's sent
+jest.mock("../machines/project-sale-manager-machine", () => {
+  const { assign, setup } =
+    jest.requireActual<typeof import("xstate")>("xstate");
+
+  return {
+    projectSaleManagerMachine: setup({
+      types: {
+        input: {} as { projectId: string },
+        context: {} as {
+          projectId: string;
+          project?: { id: string };
+          liveSaleData?: { invocations: number };
+          events: string[];
+        },
+      },
+    }).createMachine({
+      context: ({ input }) => ({
+        projectId: input.projectId,
+        project: { id: input.projectId },
+        events: [],
+      }),
+      on: {
+        "*": {
+          actions: assign({
+            events: ({ context, event }) => [...context.events, event.type],
+          }),
+        },
+      },
+    }),
+    deserializeSnapshot: jest.fn(
+      ({ snapshot }: { snapshot?: unknown }) => snapshot ?? undefined
+    ),
+  };
+});
+
+const PROJECT_ID = "0xa7d8d9ef8d8ce8992df33d8b8cf4aebabd5bd270-3";
+
+function renderUseProjectSale(options?: Parameters<typeof useProjectSale>[1]) {
+  const artblocksClient = {
+    getWalletClient: () => undefined,
+  } as unknown as ArtBlocksClient;
+  const wrapper = ({ children }: { children: ReactNode }) =>
+    createElement(ArtBlocksProvider, { artblocksClient }, children);
+
+  return {
+    artblocksClient,
+    ...renderHook(() => useProjectSale(PROJECT_ID, options), { wrapper }),
+  };
+}
+
+describe("useProjectSale", () => {
+  beforeEach(() => {
+    jest.mocked(deserializeSnapshot).mockClear();
+  });
+
+  it("runs a sale machine for the project", async () => {
+    const { result } = renderUseProjectSale();
+
+    expect(result.current.project).toEqual({ id: PROJECT_ID });
+    expect(result.current.liveSaleData).toBeUndefined();
+    // The machine is told about the provider's clients once mounted
+    await waitFor(() =>
+      expect(result.current.snapshot.context.events).toEqual([
+        "ART_BLOCKS_CLIENT_UPDATED",
+      ])
+    );
+  });
+
+  it("hydrates the machine from a serialized snapshot", () => {
+    const snapshot = {
+      status: "active",
+      value: {},
+      context: {
+        projectId: PROJECT_ID,
+        project: { id: PROJECT_ID },
+        liveSaleData: { invocations: 5 },
+        events: [],
+      },
+      children: {},
+    };
+
+    const { artblocksClient, result } = renderUseProjectSale({
+      snapshot: JSON.stringify(snapshot),
+    });
+
+    expect(deserializeSnapshot).toHaveBeenCalledTimes(1);
+    expect(deserializeSnapshot).toHaveBeenCalledWith({
+      snapshot,
+      artblocksClient,
+    });
+    expect(result.current.liveSaleData).toEqual({ invocations: 5 });
+  });
+
+  it("keeps the machine across renders", () => {
+    const { result, rerender } = renderUseProjectSale();
+    const { actorRef } = result.current;
+
+    rerender();
+
+    expect(result.current.actorRef).toBe(actorRef);
+    expect(deserializeSnapshot).toHaveBeenCalledTimes(1);
+  });
+});
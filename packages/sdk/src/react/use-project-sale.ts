@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { useActorRef, useSelector } from "@xstate/react";
+import { ActorRefFrom } from "xstate";
+import {
+  deserializeSnapshot,
+  projectSaleManagerMachine,
+} from "../machines/project-sale-manager-machine";
+import { useArtBlocksClient, useArtBlocksClientUpdates } from "./provider";
+import { parseSerializedSnapshot } from "./utils";
+
+export type ProjectSaleManagerMachineActorRef = ActorRefFrom<
+  typeof projectSaleManagerMachine
+>;
+
+export type UseProjectSaleOptions = {
+  // A snapshot of the machine rendered on the server, as returned by
+  // `getSerializedSnapshotWithProjectData` or `serializeSnapshot`
+  snapshot?: string | Record<string, unknown> | null;
+};
+
+/**
+ * Runs a ProjectSaleManagerMachine for a project. The machine is created on
+ * the first render, so give the component a `key` of the project ID to
+ * start a new sale when the project changes.
+ *
+ * @param projectId - The ID of the project, in the form `<core contract address>-<project index>`.
+ * @param options.snapshot - A serialized snapshot to hydrate the machine with.
+ * @returns The machine's actor ref and snapshot, with the project and its live sale data.
+ */
+export function useProjectSale(
+  projectId: string,
+  options: UseProjectSaleOptions = {}
+) {
+  const artblocksClient = useArtBlocksClient();
+
+  // Only read on the first render, as the machine is only created once
+  const [snapshot] = useState(() =>
+    deserializeSnapshot({
+      snapshot: parseSerializedSnapshot(options.snapshot),
+      artblocksClient,
+    })
+  );
+
+  const actorRef = useActorRef(projectSaleManagerMachine, {
+    input: { projectId, artblocksClient },
+    snapshot,
+  });
+  useArtBlocksClientUpdates(actorRef);
+
+  const state = useSelector(actorRef, (state) => state);
+
+  return {
+    actorRef,
+    snapshot: state,
+    project: state.context.project,
+    liveSaleData: state.context.liveSaleData,
+    errorMessage: state.context.errorMessage,
+    purchaseInitiationMachine: state.context.purchaseInitiationMachine,
+    ramMachine: state.context.ramMachine,
+    seaMachine: state.context.seaMachine,
+    postRAMMachine: state.context.postRAMMachine,
+  };
+}
@@ -0,0 +1,58 @@
+import { useCallback } from "react";
+import { useSelector } from "@xstate/react";
+import { ProjectSaleManagerMachineActorRef } from "./use-project-sale";
+
+/**
+ * Follows the RAMMachine spawned by a ProjectSaleManagerMachine for projects
+ * on RAM minters. The machine is only available once the sale is ready for
+ * bids, until then the returned snapshot is undefined and the actions do
+ * nothing.
+ *
+ * @param projectSaleManagerMachine - The actor ref returned by `useProjectSale`.
+ * @returns The RAM machine's snapshot, the user's bids and actions to place or top up a bid.
+ */
+export function useRamBid(
+  projectSaleManagerMachine: ProjectSaleManagerMachineActorRef
+) {
+  const ramMachine = useSelector(
+    projectSaleManagerMachine,
+    (state) => state.context.ramMachine
+  );
+  const state = useSelector(ramMachine, (state) => state);
+
+  const chooseBidAction = useCallback(
+    (bidAction: "create" | "topUp") =>
+      ramMachine?.send({ type: "BID_ACTION_CHOSEN", bidAction }),
+    [ramMachine]
+  );
+  const chooseTopUpBid = useCallback(
+    (bidId: string) => ramMachine?.send({ type: "TOP_UP_BID_CHOSEN", bidId }),
+    [ramMachine]
+  );
+  const submitBid = useCallback(
+    (bidSlotIndex: number) =>
+      ramMachine?.send({ type: "SUBMIT_BID", bidSlotIndex }),
+    [ramMachine]
+  );
+  const back = useCallback(
+    () => ramMachine?.send({ type: "BACK" }),
+    [ramMachine]
+  );
+  const reset = useCallback(
+    () => ramMachine?.send({ type: "RESET" }),
+    [ramMachine]
+  );
+
+  return {
+    actorRef: ramMachine,
+    snapshot: state,
+    userBids: state?.context.userBids ?? [],
+    errorMessage: state?.context.errorMessage,
+    txHash: state?.context.txHash,
+    chooseBidAction,
+    chooseTopUpBid,
+    submitBid,
+    back,
+    reset,
+  };
+}
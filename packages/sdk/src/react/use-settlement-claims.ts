@@ -0,0 +1,76 @@
+import { useCallback } from "react";
+import { useActorRef, useSelector } from "@xstate/react";
+import { ActorRefFrom } from "xstate";
+import { excessSettlementFundsClaimMachine } from "../machines/excess-settlement-funds-claim-machine";
+import {
+  ExcessSettlementFundsManagerMachineContext,
+  excessSettlementFundsManagerMachine,
+} from "../machines/excess-settlement-funds-manager-machine";
+import { useArtBlocksClient, useArtBlocksClientUpdates } from "./provider";
+
+export type ExcessSettlementFundsClaimMachineActorRef = ActorRefFrom<
+  typeof excessSettlementFundsClaimMachine
+>;
+
+/**
+ * Runs an ExcessSettlementFundsManagerMachine for the connected wallet,
+ * which polls for receipts with excess settlement funds and spawns a claim
+ * machine for each of them.
+ *
+ * @returns The machine's actor ref and snapshot, the claim machines keyed by receipt ID and an action to claim a receipt.
+ */
+export function useSettlementClaims() {
+  const artblocksClient = useArtBlocksClient();
+  const actorRef = useActorRef(excessSettlementFundsManagerMachine, {
+    input: { artblocksClient },
+  });
+  useArtBlocksClientUpdates(actorRef);
+
+  const state = useSelector(actorRef, (state) => state);
+  const claimMachines: ExcessSettlementFundsManagerMachineContext["claimMachines"] =
+    state.context.claimMachines;
+
+  const claim = useCallback(
+    (receiptId: string) =>
+      claimMachines?.get(receiptId)?.send({ type: "INITIATE_CLAIM" }),
+    [claimMachines]
+  );
+
+  return {
+    actorRef,
+    snapshot: state,
+    claimMachines: claimMachines
+      ? Array.from(claimMachines.entries()).map(
+          ([receiptId, claimMachine]) => ({
+            receiptId,
+            claimMachine,
+          })
+        )
+      : [],
+    claim,
+  };
+}
+
+/**
+ * Follows a claim machine returned by `useSettlementClaims`.
+ *
+ * @param claimMachine - The claim machine of a receipt.
+ * @returns The claim machine's snapshot, its receipt and an action to claim the excess settlement funds.
+ */
+export function useSettlementClaim(
+  claimMachine: ExcessSettlementFundsClaimMachineActorRef
+) {
+  const state = useSelector(claimMachine, (state) => state);
+
+  const claim = useCallback(
+    () => claimMachine.send({ type: "INITIATE_CLAIM" }),
+    [claimMachine]
+  );
+
+  return {
+    snapshot: state,
+    receipt: state.context.receipt,
+    txHash: state.context.txHash,
+    claim,
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "@jest/globals";
+import { PublicClient, WalletClient } from "viem";
+import type { ArtBlocksClient } from "..";
+import { parseSerializedSnapshot, syncArtBlocksClient } from "./utils";
+
+function createArtBlocksClient({
+  publicClient,
+  walletClient,
+}: {
+  publicClient?: PublicClient;
+  walletClient?: WalletClient;
+}) {
+  const context = { publicClient, walletClient };
+
+  return {
+    context,
+    getPublicClient: () => context.publicClient,
+    setPublicClient: (client?: PublicClient) => {
+      context.publicClient = client;
+    },
+    getWalletClient: () => context.walletClient,
+    setWalletClient: (client?: WalletClient) => {
+      context.walletClient = client;
+    },
+  } as unknown as ArtBlocksClient & { context: typeof context };
+}
+
+describe("syncArtBlocksClient", () => {
+  const publicClient = {} as PublicClient;
+  const walletClient = {} as WalletClient;
+
+  it("updates clients that changed", () => {
+    const artblocksClient = createArtBlocksClient({});
+
+    const changed = syncArtBlocksClient(artblocksClient, {
+      publicClient,
+      walletClient,
+    });
+
+    expect(changed).toBe(true);
+    expect(artblocksClient.context.publicClient).toBe(publicClient);
+    expect(artblocksClient.context.walletClient).toBe(walletClient);
+  });
+
+  it("reports no change when the clients are the same", () => {
+    const artblocksClient = createArtBlocksClient({
+      publicClient,
+      walletClient,
+    });
+
+    expect(
+      syncArtBlocksClient(artblocksClient, { publicClient, walletClient })
+    ).toBe(false);
+  });
+
+  it("clears the wallet client when the wallet disconnects but keeps the public client", () => {
+    const artblocksClient = createArtBlocksClient({
+      publicClient,
+      walletClient,
+    });
+
+    const changed = syncArtBlocksClient(artblocksClient, {});
+
+    expect(changed).toBe(true);
+    expect(artblocksClient.context.publicClient).toBe(publicClient);
+    expect(artblocksClient.context.walletClient).toBeUndefined();
+  });
+});
+
+describe("parseSerializedSnapshot", () => {
+  it("parses stringified snapshots", () => {
+    expect(
+      parseSerializedSnapshot(
+        JSON.stringify({ value: "idle", context: { artblocksClient: null } })
+      )
+    ).toEqual({ value: "idle", context: { artblocksClient: null } });
+  });
+
+  it("returns snapshot objects as is and undefined for missing snapshots", () => {
+    const snapshot = { value: "idle" };
+
+    expect(parseSerializedSnapshot(snapshot)).toBe(snapshot);
+    expect(parseSerializedSnapshot(null)).toBeUndefined();
+    expect(parseSerializedSnapshot(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { PublicClient, WalletClient } from "viem";
+import type { ArtBlocksClient } from "..";
+
+/**
+ * Updates the public and wallet clients of an ArtBlocksClient to the ones
+ * provided by wagmi. Machines hold a reference to the ArtBlocksClient, so the
+ * update is visible to them once they are sent an `ART_BLOCKS_CLIENT_UPDATED`
+ * event.
+ *
+ * @param artblocksClient - The client to update.
+ * @param params.publicClient - The public client from wagmi. Left unchanged when undefined.
+ * @param params.walletClient - The wallet client from wagmi, undefined when no wallet is connected.
+ * @returns Whether either client changed.
+ */
+export function syncArtBlocksClient(
+  artblocksClient: ArtBlocksClient,
+  {
+    publicClient,
+    walletClient,
+  }: {
+    publicClient?: PublicClient;
+    walletClient?: WalletClient;
+  }
+): boolean {
+  let changed = false;
+
+  if (publicClient && publicClient !== artblocksClient.getPublicClient()) {
+    artblocksClient.setPublicClient(publicClient);
+    changed = true;
+  }
+
+  if (walletClient !== artblocksClient.getWalletClient()) {
+    artblocksClient.setWalletClient(walletClient);
+    changed = true;
+  }
+
+  return changed;
+}
+
+/**
+ * Parses a snapshot serialized with `serializeSnapshot`, which may have been
+ * stringified to be passed from the server, e.g. the result of
+ * `getSerializedSnapshotWithProjectData`.
+ */
+export function parseSerializedSnapshot(
+  snapshot?: string | Record<string, unknown> | null
+): Record<string, unknown> | undefined {
+  if (!snapshot) {
+    return undefined;
+  }
+
+  return typeof snapshot === "string" ? JSON.parse(snapshot) : snapshot;
+}
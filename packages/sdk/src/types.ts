@@ -1,22 +1,77 @@
+import { Abi } from "abitype";
 import { FormFieldSchema } from "./json-schema";
 import { ZodType } from "zod";
 
 export type Hex = `0x${string}`;
 
+export type PreparedFormTransaction = {
+  address: Hex;
+  abi: Abi;
+  functionName: string;
+  args: (string | number)[];
+  // Fields that are updated once the transaction has been synced
+  syncCheckFields: string[];
+  // Whether the fields are on the project rather than its minter configuration
+  syncsProject: boolean;
+};
+
+export type FormPreviewChange = {
+  field: string;
+  title: string;
+  // Human-readable values, null if the field has no value yet
+  currentValue: string | null;
+  newValue: string | null;
+  changed: boolean;
+};
+
+export type FormPreview = {
+  changes: FormPreviewChange[];
+  simulation: { success: true } | { success: false; revertReason: string };
+};
+
+export const FormAccessLevelEnum = {
+  EDITABLE: "editable",
+  READ_ONLY: "readOnly",
+  HIDDEN: "hidden",
+} as const;
+
+export type FormAccessLevel =
+  (typeof FormAccessLevelEnum)[keyof typeof FormAccessLevelEnum];
+
+export type FormAccess = {
+  level: FormAccessLevel;
+  // Why the form or field can't be edited
+  reason?: string;
+};
+
 export type FormBlueprint = {
   key: string;
   formSchema: FormFieldSchema;
   initialFormValues: Record<string, any>;
   zodSchema: ZodType<any, any, any>;
+  // Whether the connected wallet may submit the form, read from the core
+  // contract. Unset without a connected wallet.
+  access?: FormAccess;
+  // The access of each of the form's fields, keyed by field name
+  fieldAccess?: Record<string, FormAccess>;
   handleSubmit: (
     formValues: Record<string, any>,
     onProgress?: (status: SubmissionStatus) => void
   ) => Promise<void>;
+  // Processes the form values into the transaction handleSubmit would send,
+  // so that several forms can be submitted together
+  prepareTransaction: (
+    formValues: Record<string, any>
+  ) => Promise<PreparedFormTransaction>;
+  // Dry-runs a submission of the form values without side effects, returning
+  // the changes it would make and whether its transaction would succeed
+  preview: (formValues: Record<string, unknown>) => Promise<FormPreview>;
 };
 
 export const SubmissionStatusEnum = {
   SIMULATING_TRANSACTION: "SIMULATING_TRANSACTION",
   AWAITING_USER_SIGNATURE: "AWAITING_USER_SIGNATURE",
+  AWAITING_SAFE_EXECUTION: "AWAITING_SAFE_EXECUTION",
   CONFIRMING: "CONFIRMING",
   SYNCING: "SYNCING",
 } as const;
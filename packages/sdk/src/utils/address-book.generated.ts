@@ -0,0 +1,31 @@
+// This file is generated from the contract deployment manifests by running
+// `yarn generate:sdk-address-book` in packages/contracts. Do not edit it
+// directly.
+
+export const ADDRESS_BOOK = {
+  1: {
+    network: "mainnet",
+    sharedMinterFilter: "0xa2ccfE293bc2CDD78D8166a82D1e18cD2148122b",
+    delegationRegistry: "0x00000000000076A84feF008CDAbe6409d2FE638B",
+  },
+  42161: {
+    network: "arbitrum",
+    sharedMinterFilter: "0x94560abECb897f359ee1A6Ed0E922315Da11752d",
+    delegationRegistry: "0x00000000000076A84feF008CDAbe6409d2FE638B",
+  },
+  8453: {
+    network: "base",
+    sharedMinterFilter: "0x1E615ee4C7AC89B525d48AeedF01d76E4e06a2d5",
+    delegationRegistry: "0x00000000000076A84feF008CDAbe6409d2FE638B",
+  },
+  11155111: {
+    network: "sepolia",
+    sharedMinterFilter: "0xa07f47c30C262adcC263A4D44595972c50e04db7",
+    delegationRegistry: "0x00000000000076A84feF008CDAbe6409d2FE638B",
+  },
+  421614: {
+    network: "arbitrum-sepolia",
+    sharedMinterFilter: "0xa07f47c30C262adcC263A4D44595972c50e04db7",
+    delegationRegistry: "0x00000000000076A84feF008CDAbe6409d2FE638B",
+  },
+} as const;
@@ -1,6 +1,74 @@
+import { Hex } from "viem";
+import { ADDRESS_BOOK } from "./address-book.generated";
+
 /**
  * Define the registry for delegating a hot wallet to mint/claim airdrops on behalf of a vault wallet
  * @see https://docs.delegate.xyz/v1-registry-legacy/technical-documentation
  */
 export const DELEGATION_REGISTRY_ADDRESS =
   "0x00000000000076a84fef008cdabe6409d2fe638b";
+
+/**
+ * Define the delegate.xyz v2 registry, which replaces the v1 registry but is
+ * deployed alongside it. Delegations made in one registry are not visible in
+ * the other.
+ * @see https://docs.delegate.xyz/technical-documentation/delegate-registry
+ */
+export const DELEGATE_REGISTRY_V2_ADDRESS =
+  "0x00000000000000447e69651d841bd8d104bed493";
+
+export type AddressBookEntry = {
+  network: string;
+  sharedMinterFilter: Hex;
+  // delegate.xyz v1 registry checked by the shared minters
+  delegationRegistry: Hex;
+};
+
+/**
+ * Get the Art Blocks contract addresses for a chain. The address book is
+ * generated from the contracts package's deployment logs.
+ * @param chainId the chain id
+ * @returns the chain's address book, or undefined if Art Blocks has no shared
+ * minter suite deployed to the chain
+ */
+export function getAddressBook(chainId: number): AddressBookEntry | undefined {
+  return (ADDRESS_BOOK as Record<number, AddressBookEntry>)[chainId];
+}
+
+/**
+ * Chain ids with an Art Blocks shared minter suite deployed.
+ */
+export const SUPPORTED_CHAIN_IDS = Object.keys(ADDRESS_BOOK).map(Number);
+
+/**
+ * Delegation registry addresses for each chain, keyed by chain id. Chains
+ * without an entry have no supported delegation registry.
+ */
+export const DELEGATION_REGISTRY_ADDRESSES: Record<
+  number,
+  { v1: Hex; v2: Hex }
+> = Object.fromEntries(
+  Object.entries(ADDRESS_BOOK).map(([chainId, { delegationRegistry }]) => [
+    chainId,
+    { v1: delegationRegistry, v2: DELEGATE_REGISTRY_V2_ADDRESS },
+  ])
+);
+
+/**
+ * Safe's MultiSendCallOnly v1.3.0, which Safe transactions delegatecall to
+ * batch several calls. It is deployed to the same address on every chain.
+ * @see https://github.com/safe-global/safe-deployments
+ */
+export const MULTI_SEND_CALL_ONLY_ADDRESS =
+  "0x40A2aCCbd92BCA938b02010E17A5b8929b49130D";
+
+/**
+ * Safe Transaction Service URLs, keyed by chain id. Chains without an entry
+ * need a service URL to be passed explicitly.
+ */
+export const SAFE_TRANSACTION_SERVICE_URLS: Record<number, string> = {
+  1: "https://safe-transaction-mainnet.safe.global",
+  42161: "https://safe-transaction-arbitrum.safe.global",
+  8453: "https://safe-transaction-base.safe.global",
+  11155111: "https://safe-transaction-sepolia.safe.global",
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { Chain, PublicClient, WalletClient } from "viem";
+import { switchWalletChainIfNeeded } from "./chains";
+
+const ACCOUNT = "0x81c41D4405bd22A2012830870A10E26D3F740A31";
+
+const mainnet = { id: 1, name: "Ethereum" } as Chain;
+const arbitrum = { id: 42161, name: "Arbitrum One" } as Chain;
+
+const createWalletClient = (chainId: number, chain?: Chain) =>
+  ({
+    account: { address: ACCOUNT, type: "json-rpc" },
+    chain,
+    getChainId: jest.fn(async () => chainId),
+    switchChain: jest.fn(async () => undefined),
+    request: jest.fn(),
+  }) as unknown as WalletClient;
+
+describe("switchWalletChainIfNeeded", () => {
+  it("does nothing when the wallet is on the public client's chain", async () => {
+    const walletClient = createWalletClient(1, mainnet);
+
+    const result = await switchWalletChainIfNeeded({
+      walletClient,
+      publicClient: { chain: mainnet } as unknown as PublicClient,
+    });
+
+    expect(walletClient.switchChain).not.toHaveBeenCalled();
+    expect(result).toBe(walletClient);
+  });
+
+  it("switches the wallet and rebinds it to the public client's chain", async () => {
+    const walletClient = createWalletClient(1, mainnet);
+
+    const result = await switchWalletChainIfNeeded({
+      walletClient,
+      publicClient: { chain: arbitrum } as unknown as PublicClient,
+    });
+
+    expect(walletClient.switchChain).toHaveBeenCalledWith({ id: arbitrum.id });
+    expect(result.chain?.id).toBe(arbitrum.id);
+    expect(result.account?.address).toBe(ACCOUNT);
+  });
+
+  it("reads the chain id from public clients created without a chain", async () => {
+    const walletClient = createWalletClient(1);
+    const publicClient = {
+      getChainId: jest.fn(async () => arbitrum.id),
+    } as unknown as PublicClient;
+
+    const result = await switchWalletChainIfNeeded({
+      walletClient,
+      publicClient,
+    });
+
+    expect(walletClient.switchChain).toHaveBeenCalledWith({ id: arbitrum.id });
+    expect(result).toBe(walletClient);
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  Hex,
+  PublicClient,
+  WalletClient,
+  createWalletClient,
+  custom,
+} from "viem";
+
+/**
+ * @summary Error thrown when no public client is configured for a chain.
+ */
+export class UnsupportedChainError extends Error {
+  chainId: number;
+
+  constructor(chainId: number) {
+    super(`No public client is configured for chain ${chainId}`);
+    this.name = "UnsupportedChainError";
+    this.chainId = chainId;
+  }
+}
+
+/**
+ * @summary Error thrown when the chain of a core contract can't be resolved.
+ * @description A core contract's chain is found by checking which configured
+ * chain's shared minter filter services it.
+ */
+export class ContractChainNotFoundError extends Error {
+  contractAddress: Hex;
+
+  constructor(contractAddress: Hex, message?: string) {
+    super(
+      message ??
+        `Core contract ${contractAddress} is not registered with a shared minter filter on any configured chain`
+    );
+    this.name = "ContractChainNotFoundError";
+    this.contractAddress = contractAddress;
+  }
+}
+
+/**
+ * Gets the chain id of a public client, without a request when the client was
+ * created with a chain.
+ *
+ * @param publicClient - The public client.
+ * @returns The chain id of the public client.
+ */
+export async function getPublicClientChainId(publicClient: PublicClient) {
+  return publicClient.chain?.id ?? (await publicClient.getChainId());
+}
+
+/**
+ * Prompts the wallet to switch to the public client's chain if it is
+ * connected to a different chain, so that transactions are submitted to the
+ * chain they were simulated on.
+ *
+ * @param params - The parameters for the switch.
+ * @param params.walletClient - The wallet client to switch.
+ * @param params.publicClient - The public client for the target chain.
+ * @returns A wallet client for the target chain. This is the given wallet
+ * client unless it was created for a different chain, in which case a wallet
+ * client for the target chain using the same account and provider is returned.
+ */
+export async function switchWalletChainIfNeeded({
+  walletClient,
+  publicClient,
+}: {
+  walletClient: WalletClient;
+  publicClient: PublicClient;
+}): Promise<WalletClient> {
+  const chainId = await getPublicClientChainId(publicClient);
+  const walletChainId = await walletClient.getChainId();
+
+  if (walletChainId !== chainId) {
+    await walletClient.switchChain({ id: chainId });
+  }
+
+  if (
+    !walletClient.chain ||
+    walletClient.chain.id === chainId ||
+    !publicClient.chain
+  ) {
+    return walletClient;
+  }
+
+  return createWalletClient({
+    account: walletClient.account,
+    chain: publicClient.chain,
+    transport: custom({ request: walletClient.request }),
+  });
+}
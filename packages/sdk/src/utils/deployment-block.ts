@@ -0,0 +1,34 @@
+import { Hex, PublicClient } from "viem";
+
+/**
+ * Finds the block a contract was deployed at by binary searching for the
+ * first block its code exists at. Event logs can be read from there instead
+ * of from the genesis block, which RPC providers that limit log ranges
+ * reject. The RPC provider must serve historical state.
+ *
+ * @param publicClient - The public client of the contract's chain.
+ * @param address - The address of the contract.
+ * @returns The contract's deployment block, or the latest block if the
+ * contract isn't deployed.
+ */
+export async function getDeploymentBlock(
+  publicClient: PublicClient,
+  address: Hex
+): Promise<bigint> {
+  const latestBlock = await publicClient.getBlockNumber();
+
+  let low = BigInt(0);
+  let high = latestBlock;
+  while (low < high) {
+    const middle = (low + high) / BigInt(2);
+    const code = await publicClient.getCode({ address, blockNumber: middle });
+
+    if (code && code !== "0x") {
+      high = middle;
+    } else {
+      low = middle + BigInt(1);
+    }
+  }
+
+  return low;
+}
@@ -0,0 +1,307 @@
+import { PublicClient, WalletClient, decodeFunctionData } from "viem";
+import {
+  BatchCall,
+  encodeMultiSendCallData,
+  submitBatch,
+} from "./submit-batch";
+import { MULTI_SEND_CALL_ONLY_ADDRESS } from "./addresses";
+
+const setPriceAbi = [
+  {
+    type: "function",
+    name: "updatePricePerTokenInWei",
+    inputs: [
+      { name: "projectId", type: "uint256" },
+      { name: "coreContract", type: "address" },
+      { name: "pricePerTokenInWei", type: "uint248" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
+
+const calls: BatchCall[] = [
+  {
+    address: "0x1111111111111111111111111111111111111111",
+    abi: setPriceAbi,
+    functionName: "updatePricePerTokenInWei",
+    args: [0, "0x2222222222222222222222222222222222222222", 100],
+  },
+  {
+    address: "0x1111111111111111111111111111111111111111",
+    abi: setPriceAbi,
+    functionName: "updatePricePerTokenInWei",
+    args: [1, "0x2222222222222222222222222222222222222222", 200],
+  },
+];
+
+const safeAddress = "0x3333333333333333333333333333333333333333";
+
+describe("encodeMultiSendCallData", () => {
+  it("packs each call as operation, to, value, data length and data", () => {
+    const { functionName, args } = decodeFunctionData({
+      abi: [
+        {
+          type: "function",
+          name: "multiSend",
+          inputs: [{ name: "transactions", type: "bytes" }],
+          outputs: [],
+          stateMutability: "payable",
+        },
+      ],
+      data: encodeMultiSendCallData(calls),
+    });
+
+    expect(functionName).toBe("multiSend");
+    // Each call is 1 + 20 + 32 + 32 bytes followed by 100 bytes of data
+    const transactions = args[0].slice(2);
+    expect(transactions.length).toBe(2 * 2 * (85 + 100));
+    expect(transactions.slice(0, 2)).toBe("00");
+    expect(transactions.slice(2, 42)).toBe(
+      "1111111111111111111111111111111111111111"
+    );
+  });
+});
+
+describe("submitBatch", () => {
+  let publicClient: PublicClient;
+  let walletClient: WalletClient;
+
+  beforeEach(() => {
+    publicClient = {
+      chain: { id: 1 },
+      call: jest.fn().mockResolvedValue({ data: "0x" }),
+      simulateContract: jest.fn().mockResolvedValue({ request: {} }),
+      readContract: jest.fn().mockResolvedValue(BigInt(7)),
+      waitForTransactionReceipt: jest.fn().mockResolvedValue({
+        status: "success",
+        blockHash: "0xblock",
+      }),
+    } as unknown as PublicClient;
+    walletClient = {
+      account: { address: "0x4444444444444444444444444444444444444444" },
+      sendCalls: jest.fn().mockResolvedValue({ id: "batch-id" }),
+      waitForCallsStatus: jest.fn(),
+      signTypedData: jest.fn().mockResolvedValue("0xsignature"),
+    } as unknown as WalletClient;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("throws an error if no account is selected", async () => {
+    walletClient.account = undefined;
+
+    await expect(
+      submitBatch({
+        publicClient,
+        walletClient,
+        calls,
+        mode: { type: "eip5792" },
+      })
+    ).rejects.toThrow("No account selected");
+  });
+
+  it("throws the error of a call that fails to simulate", async () => {
+    (
+      publicClient.call as jest.MockedFunction<PublicClient["call"]>
+    ).mockRejectedValueOnce(new Error("execution reverted"));
+    (
+      publicClient.simulateContract as jest.MockedFunction<
+        PublicClient["simulateContract"]
+      >
+    ).mockRejectedValueOnce({ shortMessage: "Price too low" });
+
+    await expect(
+      submitBatch({
+        publicClient,
+        walletClient,
+        calls,
+        mode: { type: "eip5792" },
+      })
+    ).rejects.toThrow("Price too low");
+    expect(walletClient.sendCalls).not.toHaveBeenCalled();
+  });
+
+  it("throws an error if the batch only fails as a whole", async () => {
+    (
+      publicClient.call as jest.MockedFunction<PublicClient["call"]>
+    ).mockRejectedValueOnce(new Error("execution reverted"));
+
+    await expect(
+      submitBatch({
+        publicClient,
+        walletClient,
+        calls,
+        mode: { type: "eip5792" },
+      })
+    ).rejects.toThrow("The batch reverted when simulated");
+    expect(publicClient.simulateContract).toHaveBeenCalledTimes(2);
+    expect(walletClient.sendCalls).not.toHaveBeenCalled();
+  });
+
+  it("sends an EIP-5792 call batch", async () => {
+    (
+      walletClient.waitForCallsStatus as jest.MockedFunction<
+        WalletClient["waitForCallsStatus"]
+      >
+    ).mockResolvedValue({
+      status: "success",
+      receipts: [{ blockHash: "0xfirst" }, { blockHash: "0xlast" }],
+    } as any);
+    const onSimulationSuccess = jest.fn();
+    const onUserAccepted = jest.fn();
+
+    const result = await submitBatch({
+      publicClient,
+      walletClient,
+      calls,
+      mode: { type: "eip5792" },
+      onSimulationSuccess,
+      onUserAccepted,
+    });
+
+    // The calls are simulated in order as one MultiSend from the account
+    expect(publicClient.call).toHaveBeenCalledWith({
+      account: "0x4444444444444444444444444444444444444444",
+      to: "0x4444444444444444444444444444444444444444",
+      data: encodeMultiSendCallData(calls),
+      stateOverride: [
+        {
+          address: "0x4444444444444444444444444444444444444444",
+          code: expect.stringMatching(/^0x6080/),
+        },
+      ],
+    });
+    expect(publicClient.simulateContract).not.toHaveBeenCalled();
+    expect(walletClient.sendCalls).toHaveBeenCalledWith(
+      expect.objectContaining({
+        calls: calls.map(({ address, abi, functionName, args }) => ({
+          to: address,
+          abi,
+          functionName,
+          args,
+        })),
+      })
+    );
+    expect(walletClient.waitForCallsStatus).toHaveBeenCalledWith({
+      id: "batch-id",
+    });
+    expect(onSimulationSuccess).toHaveBeenCalled();
+    expect(onUserAccepted).toHaveBeenCalled();
+    expect(result).toEqual({ blockHash: "0xlast" });
+  });
+
+  it("throws an error if the EIP-5792 batch fails", async () => {
+    (
+      walletClient.waitForCallsStatus as jest.MockedFunction<
+        WalletClient["waitForCallsStatus"]
+      >
+    ).mockResolvedValue({ status: "failure", receipts: [] } as any);
+
+    await expect(
+      submitBatch({
+        publicClient,
+        walletClient,
+        calls,
+        mode: { type: "eip5792" },
+      })
+    ).rejects.toThrow("Batch reverted");
+  });
+
+  it("proposes a Safe MultiSend transaction and waits for its execution", async () => {
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      // Pending proposals
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ results: [{ nonce: 8 }] }),
+      } as Response)
+      // Proposal
+      .mockResolvedValueOnce({ ok: true } as Response)
+      // Execution status
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          isExecuted: true,
+          isSuccessful: true,
+          transactionHash: "0xexecuted",
+        }),
+      } as Response);
+    const onSafeProposed = jest.fn();
+
+    const result = await submitBatch({
+      publicClient,
+      walletClient,
+      calls,
+      mode: { type: "safe", safeAddress },
+      onSafeProposed,
+    });
+
+    // Calls are simulated from the Safe
+    expect(publicClient.call).toHaveBeenCalledWith(
+      expect.objectContaining({ account: safeAddress, to: safeAddress })
+    );
+    expect(walletClient.signTypedData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        primaryType: "SafeTx",
+        message: expect.objectContaining({
+          to: MULTI_SEND_CALL_ONLY_ADDRESS,
+          data: encodeMultiSendCallData(calls),
+          operation: 1,
+          nonce: BigInt(9),
+        }),
+      })
+    );
+
+    const [proposalUrl, proposalInit] = fetchMock.mock.calls[1];
+    expect(proposalUrl).toBe(
+      `https://safe-transaction-mainnet.safe.global/api/v1/safes/${safeAddress}/multisig-transactions/`
+    );
+    const proposal = JSON.parse(proposalInit?.body as string);
+    expect(proposal).toMatchObject({
+      to: MULTI_SEND_CALL_ONLY_ADDRESS,
+      nonce: "9",
+      signature: "0xsignature",
+      sender: "0x4444444444444444444444444444444444444444",
+    });
+    expect(onSafeProposed).toHaveBeenCalledWith(
+      proposal.contractTransactionHash
+    );
+    expect(publicClient.waitForTransactionReceipt).toHaveBeenCalledWith({
+      hash: "0xexecuted",
+    });
+    expect(result).toEqual({ blockHash: "0xblock" });
+  });
+
+  it("throws an error if the Safe proposal is rejected", async () => {
+    jest
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ results: [] }),
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        text: async () => "Signer is not an owner",
+      } as Response);
+
+    await expect(
+      submitBatch({
+        publicClient,
+        walletClient,
+        calls,
+        mode: { type: "safe", safeAddress },
+      })
+    ).rejects.toThrow(
+      "Failed to propose Safe transaction: 422 Signer is not an owner"
+    );
+    expect(walletClient.signTypedData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: expect.objectContaining({ nonce: BigInt(7) }),
+      })
+    );
+  });
+});
@@ -0,0 +1,410 @@
+import { Abi } from "abitype";
+import {
+  Account,
+  Hex,
+  PublicClient,
+  WalletClient,
+  concat,
+  encodeFunctionData,
+  encodePacked,
+  getAddress,
+  hashTypedData,
+  size,
+  zeroAddress,
+} from "viem";
+import { asyncPoll } from "./async-poll";
+import { getPublicClientChainId } from "./chains";
+import {
+  MULTI_SEND_CALL_ONLY_ADDRESS,
+  SAFE_TRANSACTION_SERVICE_URLS,
+} from "./addresses";
+
+export type BatchCall = {
+  address: Hex;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+};
+
+export type BatchSubmissionMode =
+  | {
+      // Sends the calls with the wallet's EIP-5792 wallet_sendCalls
+      type: "eip5792";
+    }
+  | {
+      // Proposes the calls as a single MultiSend transaction of a Safe that
+      // the connected account is an owner of
+      type: "safe";
+      safeAddress: Hex;
+      // Defaults to the Safe Transaction Service of the public client's chain
+      safeTransactionServiceUrl?: string;
+      // How long to wait for the other owners to execute the proposal,
+      // defaults to 24 hours
+      executionTimeout?: number;
+    };
+
+const multiSendAbi = [
+  {
+    type: "function",
+    name: "multiSend",
+    inputs: [{ name: "transactions", type: "bytes" }],
+    outputs: [],
+    stateMutability: "payable",
+  },
+] as const;
+
+const safeNonceAbi = [
+  {
+    type: "function",
+    name: "nonce",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+] as const;
+
+// MultiSend delegatecall operation of a Safe transaction
+const SAFE_DELEGATE_CALL_OPERATION = 1;
+
+// Runtime code of Safe's MultiSendCallOnly v1.3.0, which batches are
+// simulated with
+const MULTI_SEND_CALL_ONLY_CODE =
+  "0x60806040526004361061001e5760003560e01c80638d80ff0a14610023575b600080fd5b6100dc6004803603602081101561003957600080fd5b810190808035906020019064010000000081111561005657600080fd5b82018360208201111561006857600080fd5b8035906020019184600183028401116401000000008311171561008a57600080fd5b91908080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f8201169050808301925050505050505091929192905050506100de565b005b805160205b8181101561015f578083015160f81c6001820184015160601c60158301850151603584018601516055850187016000856000811461012857600181146101385761013d565b6000808585888a5af1915061013d565b600080fd5b50600081141561014c57600080fd5b82605501870196505050505050506100e3565b50505056fea264697066735822122035246402746c96964495cae5b36461fd44dfb89f8e6cf6f6b8d60c0aa89f414864736f6c63430007060033";
+
+const SAFE_EXECUTION_POLL_INTERVAL = 5000;
+const DEFAULT_SAFE_EXECUTION_TIMEOUT = 24 * 60 * 60 * 1000;
+
+/**
+ * Encodes calls as the `transactions` argument of MultiSend, each packed as
+ * operation, to, value, data length and data.
+ *
+ * @param calls - The calls to encode, made without value.
+ * @returns The encoded multiSend call data.
+ */
+export function encodeMultiSendCallData(calls: BatchCall[]): Hex {
+  const transactions = concat(
+    calls.map(({ address, abi, functionName, args }) => {
+      const data = encodeFunctionData({ abi, functionName, args });
+      return encodePacked(
+        ["uint8", "address", "uint256", "uint256", "bytes"],
+        [0, address, BigInt(0), BigInt(size(data)), data]
+      );
+    })
+  );
+
+  return encodeFunctionData({
+    abi: multiSendAbi,
+    functionName: "multiSend",
+    args: [transactions],
+  });
+}
+
+/**
+ * Simulates calls in order from the sender in a single `eth_call`. The
+ * sender's code is overridden with MultiSendCallOnly's, which makes each call
+ * from the sender's address, so later calls see the effects of earlier ones.
+ *
+ * @param publicClient - An instance of PublicClient to simulate the calls.
+ * @param sender - The account or Safe that will make the calls.
+ * @param calls - The contract calls to simulate, in order.
+ * @throws The error of a call that fails on its own, or an error if the batch only fails as a whole.
+ */
+export async function simulateBatch({
+  publicClient,
+  sender,
+  calls,
+}: {
+  publicClient: PublicClient;
+  sender: Hex | Account;
+  calls: BatchCall[];
+}) {
+  const senderAddress = typeof sender === "string" ? sender : sender.address;
+
+  try {
+    await publicClient.call({
+      account: senderAddress,
+      to: senderAddress,
+      data: encodeMultiSendCallData(calls),
+      stateOverride: [
+        { address: senderAddress, code: MULTI_SEND_CALL_ONLY_CODE },
+      ],
+    });
+  } catch (e) {
+    // MultiSend doesn't return why a call reverted, so report the error of a
+    // call that reverts on its own
+    for (const { address, abi, functionName, args } of calls) {
+      await publicClient.simulateContract({
+        address,
+        abi,
+        functionName,
+        args,
+        account: sender,
+      });
+    }
+
+    throw new Error(
+      "The batch reverted when simulated, a call may depend on a change it doesn't make"
+    );
+  }
+}
+
+/**
+ * Submits several contract calls as a single batch, either through the
+ * wallet's EIP-5792 support or as a Safe MultiSend proposal. The batch is
+ * simulated as a whole first, from the account that will make it, so calls
+ * may depend on the effects of earlier calls in the batch, such as
+ * configuring a minter after setting it for a project.
+ *
+ * @param publicClient - An instance of PublicClient to simulate the calls.
+ * @param walletClient - An instance of WalletClient to send or propose the batch.
+ * @param calls - The contract calls to batch, in order.
+ * @param mode - How the batch is submitted.
+ * @param onSimulationSuccess - Optional callback invoked after all calls were simulated.
+ * @param onUserAccepted - Optional callback invoked when the user has sent the batch, or proposed it to their Safe.
+ * @param onSafeProposed - Optional callback invoked with the Safe transaction hash once a Safe batch is proposed.
+ * @returns The hash of the block the batch was confirmed in.
+ * @throws Error with a descriptive message if the batch fails at any stage.
+ */
+export async function submitBatch({
+  publicClient,
+  walletClient,
+  calls,
+  mode,
+  onSimulationSuccess,
+  onUserAccepted,
+  onSafeProposed,
+}: {
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  calls: BatchCall[];
+  mode: BatchSubmissionMode;
+  onSimulationSuccess?: () => void;
+  onUserAccepted?: () => void;
+  onSafeProposed?: (safeTxHash: Hex) => void;
+}): Promise<{ blockHash: Hex }> {
+  if (!walletClient.account) {
+    throw Error("No account selected");
+  }
+
+  if (calls.length === 0) {
+    throw new Error("No calls to submit");
+  }
+
+  try {
+    await simulateBatch({
+      publicClient,
+      sender: mode.type === "safe" ? mode.safeAddress : walletClient.account,
+      calls,
+    });
+
+    onSimulationSuccess?.();
+
+    if (mode.type === "safe") {
+      return await proposeSafeBatch({
+        publicClient,
+        walletClient,
+        account: walletClient.account,
+        calls,
+        mode,
+        onUserAccepted,
+        onSafeProposed,
+      });
+    }
+
+    const { id } = await walletClient.sendCalls({
+      account: walletClient.account,
+      chain: walletClient.chain,
+      calls: calls.map(({ address, abi, functionName, args }) => ({
+        to: address,
+        abi,
+        functionName,
+        args,
+      })),
+    });
+
+    onUserAccepted?.();
+
+    const { status, receipts } = await walletClient.waitForCallsStatus({ id });
+    const lastReceipt = receipts?.[receipts.length - 1];
+
+    if (status !== "success" || !lastReceipt) {
+      throw new Error("Batch reverted");
+    }
+
+    return { blockHash: lastReceipt.blockHash };
+  } catch (e) {
+    if (
+      e &&
+      typeof e === "object" &&
+      "shortMessage" in e &&
+      typeof e.shortMessage === "string"
+    ) {
+      throw new Error(e.shortMessage);
+    }
+
+    throw e;
+  }
+}
+
+/**
+ * Gets the nonce of the next Safe transaction, queued after the proposals
+ * that haven't been executed yet.
+ */
+async function getNextSafeNonce(
+  publicClient: PublicClient,
+  serviceUrl: string,
+  safeAddress: Hex
+) {
+  const onChainNonce = await publicClient.readContract({
+    address: safeAddress,
+    abi: safeNonceAbi,
+    functionName: "nonce",
+  });
+
+  const res = await fetch(
+    `${serviceUrl}/api/v1/safes/${safeAddress}/multisig-transactions/?executed=false&nonce__gte=${onChainNonce}&ordering=-nonce&limit=1`
+  );
+  if (!res.ok) {
+    throw new Error(`Failed to get pending Safe transactions: ${res.status}`);
+  }
+
+  const { results } = await res.json();
+  const lastPendingNonce = results?.[0]?.nonce;
+
+  return lastPendingNonce === undefined
+    ? onChainNonce
+    : BigInt(lastPendingNonce) + BigInt(1);
+}
+
+async function proposeSafeBatch({
+  publicClient,
+  walletClient,
+  account,
+  calls,
+  mode,
+  onUserAccepted,
+  onSafeProposed,
+}: {
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  account: Account;
+  calls: BatchCall[];
+  mode: Extract<BatchSubmissionMode, { type: "safe" }>;
+  onUserAccepted?: () => void;
+  onSafeProposed?: (safeTxHash: Hex) => void;
+}): Promise<{ blockHash: Hex }> {
+  const chainId = await getPublicClientChainId(publicClient);
+  const serviceUrl =
+    mode.safeTransactionServiceUrl ?? SAFE_TRANSACTION_SERVICE_URLS[chainId];
+  if (!serviceUrl) {
+    throw new Error(
+      `No Safe Transaction Service is known for chain ${chainId}`
+    );
+  }
+
+  const safeAddress = getAddress(mode.safeAddress);
+  const nonce = await getNextSafeNonce(publicClient, serviceUrl, safeAddress);
+
+  const typedData = {
+    domain: { chainId, verifyingContract: safeAddress },
+    types: {
+      SafeTx: [
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "data", type: "bytes" },
+        { name: "operation", type: "uint8" },
+        { name: "safeTxGas", type: "uint256" },
+        { name: "baseGas", type: "uint256" },
+        { name: "gasPrice", type: "uint256" },
+        { name: "gasToken", type: "address" },
+        { name: "refundReceiver", type: "address" },
+        { name: "nonce", type: "uint256" },
+      ],
+    },
+    primaryType: "SafeTx",
+    message: {
+      to: MULTI_SEND_CALL_ONLY_ADDRESS,
+      value: BigInt(0),
+      data: encodeMultiSendCallData(calls),
+      operation: SAFE_DELEGATE_CALL_OPERATION,
+      safeTxGas: BigInt(0),
+      baseGas: BigInt(0),
+      gasPrice: BigInt(0),
+      gasToken: zeroAddress,
+      refundReceiver: zeroAddress,
+      nonce,
+    },
+  } as const;
+
+  const signature = await walletClient.signTypedData({
+    account,
+    ...typedData,
+  });
+  const safeTxHash = hashTypedData(typedData);
+
+  const { message } = typedData;
+  const res = await fetch(
+    `${serviceUrl}/api/v1/safes/${safeAddress}/multisig-transactions/`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        to: message.to,
+        value: message.value.toString(),
+        data: message.data,
+        operation: message.operation,
+        safeTxGas: message.safeTxGas.toString(),
+        baseGas: message.baseGas.toString(),
+        gasPrice: message.gasPrice.toString(),
+        gasToken: message.gasToken,
+        refundReceiver: message.refundReceiver,
+        nonce: message.nonce.toString(),
+        contractTransactionHash: safeTxHash,
+        sender: getAddress(account.address),
+        signature,
+      }),
+    }
+  );
+
+  if (!res.ok) {
+    throw new Error(
+      `Failed to propose Safe transaction: ${res.status} ${await res.text()}`
+    );
+  }
+
+  onUserAccepted?.();
+  onSafeProposed?.(safeTxHash);
+
+  // Wait for the remaining owners to confirm and execute the proposal
+  const transactionHash = await asyncPoll<Hex>(
+    async () => {
+      const res = await fetch(
+        `${serviceUrl}/api/v1/multisig-transactions/${safeTxHash}/`
+      );
+      if (!res.ok) {
+        return { done: false };
+      }
+
+      const { isExecuted, isSuccessful, transactionHash } = await res.json();
+      if (isExecuted && isSuccessful === false) {
+        throw new Error("Safe transaction reverted");
+      }
+
+      return isExecuted && transactionHash
+        ? { done: true, data: transactionHash }
+        : { done: false };
+    },
+    SAFE_EXECUTION_POLL_INTERVAL,
+    mode.executionTimeout ?? DEFAULT_SAFE_EXECUTION_TIMEOUT
+  );
+
+  const { status, blockHash } = await publicClient.waitForTransactionReceipt({
+    hash: transactionHash,
+  });
+
+  if (status !== "success") {
+    throw new Error("Transaction reverted");
+  }
+
+  return { blockHash };
+}
@@ -68,7 +68,7 @@ export async function submitTransaction({
   address: Hex;
   abi: Abi;
   functionName: string;
-  args: (string | number)[];
+  args: readonly unknown[];
   onSimulationSuccess?: () => void;
   onUserAccepted?: () => void;
 }) {
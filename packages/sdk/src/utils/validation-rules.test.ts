@@ -0,0 +1,325 @@
+import { PublicClient } from "viem";
+import { FormFieldSchema, ValidationConditionEnum } from "../json-schema";
+import { setDAExpAuctionDetailsForm } from "../minter-configuration/schemas/forms";
+import {
+  evaluateValidationExpression,
+  getValidationRuleMinterViews,
+  readValidationRuleMinterViews,
+} from "./validation-rules";
+import { formFieldSchemaToZod } from "./zod";
+
+const auctionFormSchema: FormFieldSchema = {
+  type: "object",
+  onChain: false,
+  properties: {
+    "extra_minter_details.startTime": {
+      type: "string",
+      title: "Start time",
+      format: "date-time",
+    },
+    "extra_minter_details.endTime": {
+      type: "string",
+      title: "End time",
+      format: "date-time",
+    },
+    "extra_minter_details.startPrice": {
+      type: "number",
+      title: "Starting price",
+    },
+    base_price: {
+      type: "number",
+      title: "Ending price",
+    },
+  },
+  validationRules: [
+    {
+      field: "extra_minter_details.startTime",
+      left: { field: "extra_minter_details.startTime" },
+      condition: ValidationConditionEnum.GREATER_THAN,
+      right: { now: true },
+      message: "Start time must be in the future",
+    },
+    {
+      field: "extra_minter_details.endTime",
+      left: {
+        op: "sub",
+        args: [
+          { field: "extra_minter_details.endTime" },
+          { field: "extra_minter_details.startTime" },
+        ],
+      },
+      condition: ValidationConditionEnum.GREATER_THAN_OR_EQUAL,
+      right: { minterView: "minimumAuctionLengthSeconds" },
+      message: "Auction is too short",
+    },
+    {
+      field: "base_price",
+      left: { field: "base_price" },
+      condition: ValidationConditionEnum.LESS_THAN,
+      right: { field: "extra_minter_details.startPrice" },
+      message: "Ending price must be less than the starting price",
+    },
+  ],
+};
+
+const validAuction = {
+  extra_minter_details: {
+    startTime: "2024-01-01T12:00:00.000Z",
+    endTime: "2024-01-01T13:00:00.000Z",
+    startPrice: 1,
+  },
+  base_price: 0.1,
+};
+
+describe("evaluateValidationExpression", () => {
+  it("evaluates date-time fields as unix timestamps", () => {
+    expect(
+      evaluateValidationExpression(
+        { field: "extra_minter_details.startTime" },
+        validAuction
+      )
+    ).toBe(1704110400);
+  });
+
+  it("evaluates arithmetic on fields, constants and minter views", () => {
+    expect(
+      evaluateValidationExpression(
+        {
+          op: "mul",
+          args: [
+            { op: "add", args: [{ field: "base_price" }, { value: 0.4 }] },
+            { minterView: "multiplier" },
+          ],
+        },
+        validAuction,
+        { multiplier: 4 }
+      )
+    ).toBe(2);
+  });
+
+  it("evaluates logarithms and the half-lives of a price decay", () => {
+    expect(
+      evaluateValidationExpression(
+        { op: "log2", args: [{ field: "extra_minter_details.startPrice" }] },
+        { extra_minter_details: { startPrice: 8 } }
+      )
+    ).toBe(3);
+    // Three half-lives decay the price to 0.125, and 0.1 is 40% of the way
+    // to the price at the end of the fourth
+    expect(
+      evaluateValidationExpression(
+        {
+          op: "halfLives",
+          args: [
+            {
+              op: "div",
+              args: [
+                { field: "extra_minter_details.startPrice" },
+                { field: "base_price" },
+              ],
+            },
+          ],
+        },
+        validAuction
+      )
+    ).toBeCloseTo(3.4);
+    expect(
+      evaluateValidationExpression(
+        { op: "halfLives", args: [{ value: 0.5 }] },
+        {}
+      )
+    ).toBeUndefined();
+  });
+
+  it("is undefined when a referenced value is missing", () => {
+    expect(
+      evaluateValidationExpression(
+        { op: "sub", args: [{ field: "base_price" }, { minterView: "min" }] },
+        validAuction
+      )
+    ).toBeUndefined();
+    expect(
+      evaluateValidationExpression({ field: "base_price" }, { base_price: "" })
+    ).toBeUndefined();
+    expect(
+      evaluateValidationExpression(
+        { op: "div", args: [{ value: 1 }, { value: 0 }] },
+        {}
+      )
+    ).toBeUndefined();
+  });
+});
+
+describe("validation rules in formFieldSchemaToZod", () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("accepts values that meet every rule", () => {
+    const zodSchema = formFieldSchemaToZod(auctionFormSchema, {
+      minterViewValues: { minimumAuctionLengthSeconds: 600 },
+    });
+
+    expect(zodSchema.safeParse(validAuction).success).toBe(true);
+  });
+
+  it("reports the message of each failed rule on its field", () => {
+    const zodSchema = formFieldSchemaToZod(auctionFormSchema, {
+      minterViewValues: { minimumAuctionLengthSeconds: 600 },
+    });
+
+    const result = zodSchema.safeParse({
+      extra_minter_details: {
+        startTime: "2023-12-31T23:00:00.000Z",
+        endTime: "2023-12-31T23:05:00.000Z",
+        startPrice: 1,
+      },
+      base_price: 1,
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.issues).toEqual([
+      {
+        code: "custom",
+        message: "Start time must be in the future",
+        path: ["extra_minter_details", "startTime"],
+      },
+      {
+        code: "custom",
+        message: "Auction is too short",
+        path: ["extra_minter_details", "endTime"],
+      },
+      {
+        code: "custom",
+        message: "Ending price must be less than the starting price",
+        path: ["base_price"],
+      },
+    ]);
+  });
+
+  it("skips rules reading minter views without a value", () => {
+    const zodSchema = formFieldSchemaToZod(auctionFormSchema);
+
+    expect(
+      zodSchema.safeParse({
+        ...validAuction,
+        extra_minter_details: {
+          ...validAuction.extra_minter_details,
+          endTime: "2024-01-01T12:01:00.000Z",
+        },
+      }).success
+    ).toBe(true);
+  });
+
+  it("rejects exponential auctions whose price decays faster than the minter allows", () => {
+    const zodSchema = formFieldSchemaToZod(setDAExpAuctionDetailsForm, {
+      minterViewValues: { minimumPriceDecayHalfLifeSeconds: 1200 },
+    });
+    const auction = {
+      projectIndex: 0,
+      coreContractAddress: "0x0000000000000000000000000000000000000000",
+      extra_minter_details: {
+        startTime: "2024-01-01T12:00:00.000Z",
+        // A half-life of about 1059 seconds over 3.4 half-lives
+        approximateDAExpEndTime: "2024-01-01T13:00:00.000Z",
+        startPrice: 1,
+      },
+      base_price: 0.1,
+    };
+
+    const result = zodSchema.safeParse(auction);
+    expect(!result.success && result.error.issues).toEqual([
+      {
+        code: "custom",
+        message:
+          "Price decays faster than the minimum half-life allowed by the minter, lengthen the auction or raise the ending price",
+        path: ["extra_minter_details", "approximateDAExpEndTime"],
+      },
+    ]);
+    expect(zodSchema.safeParse({ ...auction, base_price: 0.2 }).success).toBe(
+      true
+    );
+  });
+
+  it("applies the rules of nested objects to their own values", () => {
+    const zodSchema = formFieldSchemaToZod(
+      {
+        type: "object",
+        onChain: false,
+        properties: {
+          auction: {
+            type: "object",
+            properties: {
+              durationSeconds: { type: "integer", title: "Duration" },
+            },
+            validationRules: [
+              {
+                field: "durationSeconds",
+                left: { field: "durationSeconds" },
+                condition: ValidationConditionEnum.GREATER_THAN_OR_EQUAL,
+                right: { minterView: "MIN_AUCTION_DURATION_SECONDS" },
+                message: "Auction is too short",
+              },
+            ],
+          },
+        },
+      } as FormFieldSchema,
+      {
+        minterViewValues: { MIN_AUCTION_DURATION_SECONDS: 60 },
+      }
+    );
+
+    const result = zodSchema.safeParse({ auction: { durationSeconds: 30 } });
+
+    expect(!result.success && result.error.issues).toEqual([
+      {
+        code: "custom",
+        message: "Auction is too short",
+        path: ["auction", "durationSeconds"],
+      },
+    ]);
+  });
+});
+
+describe("readValidationRuleMinterViews", () => {
+  it("reads each view referenced by the schema's rules once", async () => {
+    const readContract = jest.fn().mockResolvedValue(BigInt(600));
+    const publicClient = { readContract } as unknown as PublicClient;
+
+    expect(getValidationRuleMinterViews(auctionFormSchema)).toEqual([
+      "minimumAuctionLengthSeconds",
+    ]);
+    await expect(
+      readValidationRuleMinterViews({
+        publicClient,
+        minterAddress: "0x1111111111111111111111111111111111111111",
+        schema: auctionFormSchema,
+      })
+    ).resolves.toEqual({ minimumAuctionLengthSeconds: 600 });
+    expect(readContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: "0x1111111111111111111111111111111111111111",
+        functionName: "minimumAuctionLengthSeconds",
+      })
+    );
+  });
+
+  it("leaves out views the minter doesn't implement", async () => {
+    const publicClient = {
+      readContract: jest.fn().mockRejectedValue(new Error("reverted")),
+    } as unknown as PublicClient;
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    await expect(
+      readValidationRuleMinterViews({
+        publicClient,
+        minterAddress: "0x1111111111111111111111111111111111111111",
+        schema: auctionFormSchema,
+      })
+    ).resolves.toEqual({});
+  });
+});
@@ -0,0 +1,243 @@
+import get from "lodash/get";
+import { Hex, PublicClient } from "viem";
+import { z } from "zod";
+import {
+  BaseFormFieldSchema,
+  ValidationConditionEnum,
+  ValidationExpression,
+  ValidationRule,
+} from "../json-schema";
+
+// Values of the minter views referenced by validation rules, by view name
+export type MinterViewValues = Record<string, number>;
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  let result: number;
+  if (value instanceof Date) {
+    result = Math.floor(value.getTime() / 1000);
+  } else if (typeof value === "number" || typeof value === "bigint") {
+    result = Number(value);
+  } else if (typeof value === "string") {
+    // Date-time strings are compared as unix timestamps
+    result = isNaN(Number(value))
+      ? Math.floor(new Date(value).getTime() / 1000)
+      : Number(value);
+  } else {
+    return undefined;
+  }
+
+  return isNaN(result) ? undefined : result;
+}
+
+// The number of half-lives a price decays by to be divided by the ratio, when
+// it decays linearly between the prices at each half-life
+function countHalfLives(priceRatio: number): number | undefined {
+  if (!(priceRatio >= 1) || !isFinite(priceRatio)) {
+    return undefined;
+  }
+
+  const completedHalfLives = Math.floor(Math.log2(priceRatio));
+  // The fraction of the next half-life, at the end of which the price has
+  // halved again
+  const partialHalfLife =
+    2 * (1 - Math.pow(2, completedHalfLives) / priceRatio);
+
+  return completedHalfLives + partialHalfLife;
+}
+
+/**
+ * Evaluates a validation expression against form values.
+ *
+ * @param expression - The expression to evaluate.
+ * @param data - The form values of the schema that declares the rule.
+ * @param minterViewValues - The values of the minter views the expression may reference.
+ * @returns The value of the expression, or undefined if a value it references is missing.
+ */
+export function evaluateValidationExpression(
+  expression: ValidationExpression,
+  data: Record<string, unknown>,
+  minterViewValues: MinterViewValues = {}
+): number | undefined {
+  if ("field" in expression) {
+    return toNumber(get(data, expression.field));
+  }
+
+  if ("value" in expression) {
+    return expression.value;
+  }
+
+  if ("now" in expression) {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  if ("minterView" in expression) {
+    return minterViewValues[expression.minterView];
+  }
+
+  const args = expression.args.map((arg) =>
+    evaluateValidationExpression(arg, data, minterViewValues)
+  );
+  if (args.some((arg) => arg === undefined)) {
+    return undefined;
+  }
+  const [left, right] = args as number[];
+
+  switch (expression.op) {
+    case "log2":
+      return left > 0 ? Math.log2(left) : undefined;
+    case "halfLives":
+      return countHalfLives(left);
+    case "add":
+      return left + right;
+    case "sub":
+      return left - right;
+    case "mul":
+      return left * right;
+    case "div":
+      return right === 0 ? undefined : left / right;
+  }
+}
+
+function meetsCondition(
+  left: number,
+  condition: ValidationRule["condition"],
+  right: number
+) {
+  switch (condition) {
+    case ValidationConditionEnum.GREATER_THAN:
+      return left > right;
+    case ValidationConditionEnum.LESS_THAN:
+      return left < right;
+    case ValidationConditionEnum.GREATER_THAN_OR_EQUAL:
+      return left >= right;
+    case ValidationConditionEnum.LESS_THAN_OR_EQUAL:
+      return left <= right;
+    case ValidationConditionEnum.EQUAL:
+      return left === right;
+  }
+}
+
+/**
+ * Adds an issue on the rule's field for each validation rule the form values
+ * don't meet. Rules that reference a missing value are skipped, leaving
+ * required fields to the field validation.
+ */
+export function validateRules(
+  data: Record<string, unknown>,
+  ctx: z.RefinementCtx,
+  validationRules: ValidationRule[] | undefined,
+  minterViewValues?: MinterViewValues
+): void {
+  for (const rule of validationRules ?? []) {
+    const left = evaluateValidationExpression(
+      rule.left,
+      data,
+      minterViewValues
+    );
+    const right = evaluateValidationExpression(
+      rule.right,
+      data,
+      minterViewValues
+    );
+
+    if (left === undefined || right === undefined) {
+      continue;
+    }
+
+    if (!meetsCondition(left, rule.condition, right)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: rule.message,
+        path: rule.field.split("."),
+      });
+    }
+  }
+}
+
+function getExpressionMinterViews(expression: ValidationExpression): string[] {
+  if ("minterView" in expression) {
+    return [expression.minterView];
+  }
+
+  return "op" in expression
+    ? expression.args.flatMap(getExpressionMinterViews)
+    : [];
+}
+
+/**
+ * Gets the names of the minter views referenced by the validation rules of a
+ * schema and its nested objects.
+ */
+export function getValidationRuleMinterViews(
+  schema: BaseFormFieldSchema
+): string[] {
+  const views = [
+    ...(schema.validationRules ?? []).flatMap(({ left, right }) => [
+      ...getExpressionMinterViews(left),
+      ...getExpressionMinterViews(right),
+    ]),
+    ...Object.values(schema.properties ?? {}).flatMap((property) =>
+      typeof property === "object" ? getValidationRuleMinterViews(property) : []
+    ),
+  ];
+
+  return Array.from(new Set(views));
+}
+
+/**
+ * Reads the minter views referenced by the validation rules of a form schema,
+ * so that the rules can be checked synchronously. Views the minter doesn't
+ * implement are left out, which skips the rules that reference them.
+ *
+ * @param args.publicClient - The public client to read the views with.
+ * @param args.minterAddress - The address of the project's minter.
+ * @param args.schema - The form schema declaring the validation rules.
+ * @returns The values of the views, by view name.
+ */
+export async function readValidationRuleMinterViews({
+  publicClient,
+  minterAddress,
+  schema,
+}: {
+  publicClient: PublicClient;
+  minterAddress: Hex;
+  schema: BaseFormFieldSchema;
+}): Promise<MinterViewValues> {
+  const views = getValidationRuleMinterViews(schema);
+
+  const results = await Promise.allSettled(
+    views.map((view) =>
+      publicClient.readContract({
+        address: minterAddress,
+        abi: [
+          {
+            type: "function",
+            name: view,
+            inputs: [],
+            outputs: [{ name: "", type: "uint256" }],
+            stateMutability: "view",
+          },
+        ],
+        functionName: view,
+      })
+    )
+  );
+
+  const minterViewValues: MinterViewValues = {};
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      minterViewValues[views[i]] = Number(result.value);
+    } else {
+      console.warn(
+        `Could not read minter view ${views[i]} for validation`,
+        result.reason
+      );
+    }
+  });
+
+  return minterViewValues;
+}
@@ -5,9 +5,21 @@ import {
   ValidationConditionEnum,
 } from "../json-schema";
 import get from "lodash/get";
+import { MinterViewValues, validateRules } from "./validation-rules";
 
+/**
+ * Converts a form field schema to a zod schema, enforcing its field
+ * constraints, validation dependencies and validation rules.
+ *
+ * @param formFieldSchema - The form field schema to convert.
+ * @param options.minterViewValues - The values of the minter views referenced
+ * by validation rules, see readValidationRuleMinterViews. Rules referencing
+ * views without a value are skipped.
+ * @returns The zod schema of the form values.
+ */
 export function formFieldSchemaToZod(
-  formFieldSchema: BaseFormFieldSchema
+  formFieldSchema: BaseFormFieldSchema,
+  options: { minterViewValues?: MinterViewValues } = {}
 ): ZodType<any, any, any> {
   // While our schema may specify properties with dot notation, we
   // expect the values to be submitted as nested objects. As such,
@@ -167,6 +179,16 @@ export function formFieldSchemaToZod(
             );
           });
         }
+        if (prop.validationRules) {
+          zodProp = zodProp.superRefine((data, ctx) => {
+            validateRules(
+              data,
+              ctx,
+              prop.validationRules,
+              options.minterViewValues
+            );
+          });
+        }
 
         break;
       }
@@ -212,6 +234,16 @@ export function formFieldSchemaToZod(
       );
     });
   }
+  if (formFieldSchema.validationRules) {
+    result = result.superRefine((data, ctx) => {
+      validateRules(
+        data,
+        ctx,
+        formFieldSchema.validationRules,
+        options.minterViewValues
+      );
+    });
+  }
 
   return result;
 }